@@ -5,7 +5,9 @@ import { Login } from './pages/Login';
 import { Tenants } from './pages/Tenants';
 import { Rules } from './pages/Rules';
 import { AuditLogs } from './pages/AuditLogs';
-import { Shield, Users, LogOut, Activity } from 'lucide-react';
+import { Incidents } from './pages/Incidents';
+import { Trackers } from './pages/Trackers';
+import { Shield, Users, LogOut, Activity, AlertTriangle, Radar } from 'lucide-react';
 import './index.css'; // Ensure we use the default CSS or custom ones
 
 const queryClient = new QueryClient();
@@ -25,6 +27,8 @@ function Layout({ children }: { children: React.ReactNode }) {
     { label: 'Tenants', path: '/tenants', icon: Users },
     { label: 'Global Rules', path: '/rules', icon: Shield },
     { label: 'Audit Logs', path: '/audit-logs', icon: Activity },
+    { label: 'Incidents', path: '/incidents', icon: AlertTriangle },
+    { label: 'Known Trackers', path: '/trackers', icon: Radar },
   ];
 
   return (
@@ -83,6 +87,16 @@ function AppContent() {
           <Layout><AuditLogs /></Layout>
         </ProtectedRoute>
       } />
+      <Route path="/incidents" element={
+        <ProtectedRoute>
+          <Layout><Incidents /></Layout>
+        </ProtectedRoute>
+      } />
+      <Route path="/trackers" element={
+        <ProtectedRoute>
+          <Layout><Trackers /></Layout>
+        </ProtectedRoute>
+      } />
     </Routes>
   );
 }
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { client } from '../api/client';
+
+interface Incident {
+    id: string;
+    severity: 'LOW' | 'MEDIUM' | 'HIGH';
+    type: string;
+    status: 'OPEN' | 'RESOLVED';
+    tenant_id: string | null;
+    tenant_name: string | null;
+    metadata: any;
+    created_at: string;
+    resolved_at: string | null;
+}
+
+const SEVERITY_COLORS: Record<Incident['severity'], string> = {
+    HIGH: 'var(--danger)',
+    MEDIUM: '#f59e0b',
+    LOW: 'var(--text-muted)',
+};
+
+export function Incidents() {
+    const queryClient = useQueryClient();
+    const [status, setStatus] = useState<'OPEN' | 'RESOLVED' | ''>('OPEN');
+
+    const { data: incidents, isLoading } = useQuery({
+        queryKey: ['incidents', status],
+        queryFn: async () => {
+            const res = await client.get('/incidents', { params: status ? { status } : {} });
+            return res.data.incidents as Incident[];
+        }
+    });
+
+    const resolveMutation = useMutation({
+        mutationFn: async (id: string) => {
+            await client.post(`/incidents/${id}/resolve`);
+        },
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: ['incidents'] })
+    });
+
+    if (isLoading) return <div>Loading incidents...</div>;
+
+    return (
+        <div>
+            <div className="page-header">
+                <h2>Incidents</h2>
+                <select
+                    value={status}
+                    onChange={e => setStatus(e.target.value as 'OPEN' | 'RESOLVED' | '')}
+                    style={{
+                        padding: '0.5rem 0.75rem',
+                        background: 'var(--bg-card)',
+                        color: 'var(--text-main)',
+                        border: '1px solid var(--border)',
+                        borderRadius: '0.375rem'
+                    }}
+                >
+                    <option value="OPEN">Open</option>
+                    <option value="RESOLVED">Resolved</option>
+                    <option value="">All</option>
+                </select>
+            </div>
+
+            <table className="data-table">
+                <thead>
+                    <tr>
+                        <th>Raised</th>
+                        <th>Severity</th>
+                        <th>Type</th>
+                        <th>Tenant</th>
+                        <th>Details</th>
+                        <th>Status</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {incidents?.map((incident) => (
+                        <tr key={incident.id}>
+                            <td style={{ whiteSpace: 'nowrap', color: 'var(--text-muted)' }}>
+                                {new Date(incident.created_at).toLocaleString()}
+                            </td>
+                            <td>
+                                <span style={{ fontWeight: 600, color: SEVERITY_COLORS[incident.severity] }}>
+                                    {incident.severity}
+                                </span>
+                            </td>
+                            <td>{incident.type}</td>
+                            <td>{incident.tenant_name || '—'}</td>
+                            <td>
+                                <pre style={{
+                                    margin: 0,
+                                    fontSize: '0.75rem',
+                                    color: 'var(--text-muted)',
+                                    maxWidth: '400px',
+                                    overflowX: 'auto'
+                                }}>
+                                    {JSON.stringify(incident.metadata)}
+                                </pre>
+                            </td>
+                            <td>
+                                {incident.status === 'OPEN' ? (
+                                    <button
+                                        className="action-btn"
+                                        disabled={resolveMutation.isPending}
+                                        onClick={() => {
+                                            if (confirm('Mark this incident as resolved?')) {
+                                                resolveMutation.mutate(incident.id);
+                                            }
+                                        }}
+                                    >
+                                        Resolve
+                                    </button>
+                                ) : (
+                                    <span className="status-badge status-active">Resolved</span>
+                                )}
+                            </td>
+                        </tr>
+                    ))}
+                    {incidents?.length === 0 && (
+                        <tr>
+                            <td colSpan={6} style={{ textAlign: 'center', color: 'var(--text-muted)' }}>
+                                No incidents
+                            </td>
+                        </tr>
+                    )}
+                </tbody>
+            </table>
+        </div>
+    );
+}
@@ -0,0 +1,316 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { client } from '../api/client';
+import { Plus, Pencil, Trash2, X, Radar } from 'lucide-react';
+
+type TrackerCategory = 'essential' | 'functional' | 'analytics' | 'marketing';
+
+interface Tracker {
+    id: string;
+    name: string;
+    vendor: string | null;
+    category: TrackerCategory;
+    domains: string[];
+    cookie_patterns: string[];
+    script_patterns: string[];
+    description: string | null;
+    is_active: boolean;
+    adoption_count: number;
+    created_at: string;
+}
+
+interface TrackerForm {
+    name: string;
+    vendor: string;
+    category: TrackerCategory;
+    domains: string;
+    cookies: string;
+    scripts: string;
+    description: string;
+    isActive: boolean;
+}
+
+const CATEGORIES: TrackerCategory[] = ['essential', 'functional', 'analytics', 'marketing'];
+
+const EMPTY_FORM: TrackerForm = {
+    name: '',
+    vendor: '',
+    category: 'analytics',
+    domains: '',
+    cookies: '',
+    scripts: '',
+    description: '',
+    isActive: true,
+};
+
+// One pattern per line (commas also accepted)
+const toList = (value: string) => value.split(/[\n,]/).map(v => v.trim()).filter(Boolean);
+
+const selectStyle = {
+    padding: '0.5rem 0.75rem',
+    background: 'var(--bg-card)',
+    color: 'var(--text-main)',
+    border: '1px solid var(--border)',
+    borderRadius: '0.375rem'
+};
+
+export function Trackers() {
+    const queryClient = useQueryClient();
+    const [search, setSearch] = useState('');
+    const [category, setCategory] = useState<TrackerCategory | ''>('');
+
+    // Modal state: null = closed, 'new' = create, otherwise the tracker being edited
+    const [editing, setEditing] = useState<Tracker | 'new' | null>(null);
+    const [form, setForm] = useState<TrackerForm>(EMPTY_FORM);
+    const [formError, setFormError] = useState('');
+
+    const { data: trackers, isLoading } = useQuery({
+        queryKey: ['trackers'],
+        queryFn: async () => {
+            const res = await client.get('/trackers');
+            return res.data.trackers as Tracker[];
+        }
+    });
+
+    const saveMutation = useMutation({
+        mutationFn: async () => {
+            const body = {
+                name: form.name,
+                vendor: form.vendor,
+                category: form.category,
+                domains: toList(form.domains),
+                cookies: toList(form.cookies),
+                scripts: toList(form.scripts),
+                description: form.description,
+                isActive: form.isActive,
+            };
+            if (editing === 'new') {
+                await client.post('/trackers', body);
+            } else if (editing) {
+                await client.put(`/trackers/${editing.id}`, body);
+            }
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['trackers'] });
+            closeModal();
+        },
+        onError: (err: any) => {
+            setFormError(err.response?.data?.message || 'Failed to save tracker');
+        }
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: async (id: string) => {
+            await client.delete(`/trackers/${id}`);
+        },
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: ['trackers'] }),
+        onError: (err: any) => alert(err.response?.data?.message || 'Failed to delete tracker')
+    });
+
+    const openModal = (tracker: Tracker | 'new') => {
+        setEditing(tracker);
+        setFormError('');
+        setForm(tracker === 'new' ? EMPTY_FORM : {
+            name: tracker.name,
+            vendor: tracker.vendor || '',
+            category: tracker.category,
+            domains: tracker.domains.join('\n'),
+            cookies: tracker.cookie_patterns.join('\n'),
+            scripts: tracker.script_patterns.join('\n'),
+            description: tracker.description || '',
+            isActive: tracker.is_active,
+        });
+    };
+
+    const closeModal = () => {
+        setEditing(null);
+        setForm(EMPTY_FORM);
+        setFormError('');
+    };
+
+    const term = search.trim().toLowerCase();
+    const filtered = (trackers || []).filter(t =>
+        (!category || t.category === category) &&
+        (!term ||
+            t.name.toLowerCase().includes(term) ||
+            (t.vendor || '').toLowerCase().includes(term) ||
+            t.domains.some(d => d.includes(term)) ||
+            t.cookie_patterns.some(c => c.toLowerCase().includes(term)))
+    );
+
+    if (isLoading) return <div>Loading trackers...</div>;
+
+    return (
+        <div>
+            <div className="page-header">
+                <h2>Known Trackers</h2>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <input
+                        placeholder="Search name, vendor, domain or cookie"
+                        value={search}
+                        onChange={e => setSearch(e.target.value)}
+                        style={{ width: '280px' }}
+                    />
+                    <select value={category} onChange={e => setCategory(e.target.value as TrackerCategory | '')} style={selectStyle}>
+                        <option value="">All categories</option>
+                        {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <button className="primary-btn" onClick={() => openModal('new')}>
+                        <Plus size={16} style={{ marginBottom: -2, marginRight: 4 }} />
+                        New Tracker
+                    </button>
+                </div>
+            </div>
+
+            <p style={{ color: 'var(--text-muted)', marginBottom: '1rem', fontSize: '0.875rem' }}>
+                The scanner uses this catalogue to categorize what it finds, and tenants adopt entries to
+                auto-block them under one of their purposes. Changes reach a website the next time it publishes.
+            </p>
+
+            <table className="data-table">
+                <thead>
+                    <tr>
+                        <th>Name</th>
+                        <th>Category</th>
+                        <th>Domains</th>
+                        <th>Cookies</th>
+                        <th>Websites</th>
+                        <th>Status</th>
+                        <th>Actions</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {filtered.map((tracker) => (
+                        <tr key={tracker.id}>
+                            <td>
+                                <div>{tracker.name}</div>
+                                {tracker.vendor && (
+                                    <div style={{ fontSize: '0.75rem', color: 'var(--text-muted)' }}>{tracker.vendor}</div>
+                                )}
+                            </td>
+                            <td>{tracker.category}</td>
+                            <td style={{ fontFamily: 'monospace', fontSize: '0.75rem' }}>
+                                {tracker.domains.join(', ') || '—'}
+                            </td>
+                            <td style={{ fontFamily: 'monospace', fontSize: '0.75rem' }}>
+                                {tracker.cookie_patterns.join(', ') || '—'}
+                            </td>
+                            <td>{tracker.adoption_count}</td>
+                            <td>
+                                <span className={`status-badge status-${tracker.is_active ? 'active' : 'suspended'}`}>
+                                    {tracker.is_active ? 'ACTIVE' : 'INACTIVE'}
+                                </span>
+                            </td>
+                            <td style={{ display: 'flex', gap: '0.5rem' }}>
+                                <button className="action-btn" onClick={() => openModal(tracker)} title="Edit Tracker">
+                                    <Pencil size={14} /> Edit
+                                </button>
+                                <button
+                                    className="action-btn danger"
+                                    onClick={() => {
+                                        if (confirm(`Delete ${tracker.name}?`)) deleteMutation.mutate(tracker.id);
+                                    }}
+                                    disabled={tracker.adoption_count > 0}
+                                    title={tracker.adoption_count > 0 ? 'Adopted by websites; deactivate instead' : 'Delete Tracker'}
+                                >
+                                    <Trash2 size={14} /> Delete
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                    {filtered.length === 0 && (
+                        <tr>
+                            <td colSpan={7} style={{ textAlign: 'center', color: 'var(--text-muted)' }}>
+                                No trackers found
+                            </td>
+                        </tr>
+                    )}
+                </tbody>
+            </table>
+
+            {/* Create / Edit Tracker Modal */}
+            {editing && (
+                <div className="modal-overlay" onClick={closeModal}>
+                    <div className="modal-content" onClick={e => e.stopPropagation()}>
+                        <div className="modal-header">
+                            <h3>
+                                <Radar size={20} style={{ marginRight: '0.5rem', verticalAlign: 'middle' }} />
+                                {editing === 'new' ? 'New Tracker' : `Edit ${editing.name}`}
+                            </h3>
+                            <button className="modal-close" onClick={closeModal}>
+                                <X size={18} />
+                            </button>
+                        </div>
+
+                        <div className="modal-body">
+                            <div className="form-group">
+                                <label>Name</label>
+                                <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} autoFocus />
+                            </div>
+                            <div style={{ display: 'flex', gap: '1rem' }}>
+                                <div className="form-group" style={{ flex: 1 }}>
+                                    <label>Vendor</label>
+                                    <input value={form.vendor} onChange={e => setForm({ ...form, vendor: e.target.value })} />
+                                </div>
+                                <div className="form-group">
+                                    <label>Category</label>
+                                    <select
+                                        value={form.category}
+                                        onChange={e => setForm({ ...form, category: e.target.value as TrackerCategory })}
+                                        style={selectStyle}
+                                    >
+                                        {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+                            <div className="form-group">
+                                <label>Domains (one per line, subdomains included)</label>
+                                <textarea rows={3} value={form.domains} onChange={e => setForm({ ...form, domains: e.target.value })} placeholder="google-analytics.com" />
+                            </div>
+                            <div className="form-group">
+                                <label>Cookie / storage names (* is a wildcard)</label>
+                                <textarea rows={3} value={form.cookies} onChange={e => setForm({ ...form, cookies: e.target.value })} placeholder="_ga_*" />
+                            </div>
+                            <div className="form-group">
+                                <label>Script URLs without scheme (* is a wildcard)</label>
+                                <textarea rows={2} value={form.scripts} onChange={e => setForm({ ...form, scripts: e.target.value })} placeholder="www.googletagmanager.com/gtag/js*" />
+                            </div>
+                            <div className="form-group">
+                                <label>Description</label>
+                                <textarea rows={2} value={form.description} onChange={e => setForm({ ...form, description: e.target.value })} />
+                            </div>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.875rem' }}>
+                                <input
+                                    type="checkbox"
+                                    checked={form.isActive}
+                                    onChange={e => setForm({ ...form, isActive: e.target.checked })}
+                                    style={{ width: 'auto' }}
+                                />
+                                Active (inactive trackers are ignored by the scanner and the loader)
+                            </label>
+
+                            {formError && (
+                                <div className="error-msg" style={{ marginTop: '1rem' }}>
+                                    {formError}
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="modal-footer">
+                            <button className="action-btn" onClick={closeModal}>
+                                Cancel
+                            </button>
+                            <button
+                                className="primary-btn"
+                                onClick={() => { setFormError(''); saveMutation.mutate(); }}
+                                disabled={saveMutation.isPending || !form.name}
+                            >
+                                {saveMutation.isPending ? 'Saving...' : 'Save'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- SECTION 10: CONSENT RECORDS TABLE (CONSENT LEDGER)
+-- ============================================================================
+
+-- Every decision taken by a visitor in the loader (accept, reject, custom
+-- selection, withdrawal) is written here. This is the proof-of-consent ledger
+-- a Data Fiduciary must be able to produce on request.
+CREATE TABLE IF NOT EXISTS consent_records (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    website_id UUID NOT NULL REFERENCES websites(id) ON DELETE RESTRICT,
+    visitor_id VARCHAR(64) NOT NULL, -- Anonymous ID generated by the loader
+    action VARCHAR(20) NOT NULL CHECK (action IN ('ACCEPT_ALL', 'REJECT_ALL', 'CUSTOM', 'WITHDRAW')),
+    decisions JSONB NOT NULL DEFAULT '{}', -- { "purpose_tag": true | false }
+    language_code VARCHAR(10),
+    notice_version VARCHAR(64),
+    purpose_versions JSONB DEFAULT '{}', -- { "purpose_tag": "version" }
+    loader_version VARCHAR(20),
+    ip_hash VARCHAR(64), -- SHA-256 of the client IP, never the raw address
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Append-only enforcement for consent_records
+CREATE OR REPLACE FUNCTION prevent_consent_record_modification()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'consent_records table is append-only. UPDATE and DELETE are prohibited.';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS consent_records_immutable ON consent_records;
+CREATE TRIGGER consent_records_immutable
+    BEFORE UPDATE OR DELETE ON consent_records
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_consent_record_modification();
+
+CREATE INDEX IF NOT EXISTS idx_consent_records_website ON consent_records(website_id);
+CREATE INDEX IF NOT EXISTS idx_consent_records_visitor ON consent_records(website_id, visitor_id);
+CREATE INDEX IF NOT EXISTS idx_consent_records_created ON consent_records(created_at);
+
+-- Down Migration
+-- DROP TRIGGER IF EXISTS consent_records_immutable ON consent_records;
+-- DROP FUNCTION IF EXISTS prevent_consent_record_modification;
+-- DROP TABLE IF EXISTS consent_records CASCADE;
@@ -0,0 +1,17 @@
+-- ============================================================================
+-- SECTION 11: CONSENT RECEIPTS
+-- ============================================================================
+
+-- Each consent record carries a signed receipt handed to the data principal.
+-- The payload is stored as issued so the signature can be re-verified later.
+ALTER TABLE consent_records ADD COLUMN IF NOT EXISTS receipt_id VARCHAR(32);
+ALTER TABLE consent_records ADD COLUMN IF NOT EXISTS receipt_payload JSONB;
+ALTER TABLE consent_records ADD COLUMN IF NOT EXISTS receipt_signature VARCHAR(128);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_consent_records_receipt ON consent_records(receipt_id);
+
+-- Down Migration
+-- DROP INDEX IF EXISTS idx_consent_records_receipt;
+-- ALTER TABLE consent_records DROP COLUMN IF EXISTS receipt_signature;
+-- ALTER TABLE consent_records DROP COLUMN IF EXISTS receipt_payload;
+-- ALTER TABLE consent_records DROP COLUMN IF EXISTS receipt_id;
@@ -0,0 +1,65 @@
+-- ============================================================================
+-- SECTION 12: RIGHTS REQUESTS (DATA PRINCIPAL RIGHTS)
+-- ============================================================================
+
+-- Requests submitted through the loader's "Exercise Your Rights" form.
+-- tenant_id is denormalized from websites for inbox queries.
+CREATE TABLE IF NOT EXISTS rights_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    request_number VARCHAR(32) NOT NULL UNIQUE, -- Public reference, e.g. DSR-2024-3F9A1C2B
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE RESTRICT,
+    website_id UUID NOT NULL REFERENCES websites(id) ON DELETE RESTRICT,
+    request_type VARCHAR(20) NOT NULL CHECK (request_type IN ('ACCESS', 'CORRECTION', 'ERASURE', 'NOMINATION', 'GRIEVANCE')),
+    status VARCHAR(20) NOT NULL DEFAULT 'RECEIVED' CHECK (status IN ('RECEIVED', 'VERIFYING', 'IN_PROGRESS', 'COMPLETED', 'REJECTED')),
+    requester_email VARCHAR(255) NOT NULL,
+    description TEXT NOT NULL,
+    details JSONB DEFAULT '{}', -- Type-specific fields (correction data, nominee, grievance category...)
+    language_code VARCHAR(10),
+    assigned_to VARCHAR(255), -- Person handling the request (tenants have a single login)
+    ip_hash VARCHAR(64),
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    closed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_rights_requests_tenant ON rights_requests(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_rights_requests_website ON rights_requests(website_id);
+CREATE INDEX IF NOT EXISTS idx_rights_requests_status ON rights_requests(tenant_id, status);
+CREATE INDEX IF NOT EXISTS idx_rights_requests_created ON rights_requests(created_at);
+
+-- Request history: submission, status transitions, assignment and internal notes.
+-- actor_id is NULL for events raised by the data principal or the system.
+CREATE TABLE IF NOT EXISTS rights_request_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    request_id UUID NOT NULL REFERENCES rights_requests(id) ON DELETE RESTRICT,
+    event_type VARCHAR(30) NOT NULL CHECK (event_type IN ('SUBMITTED', 'STATUS_CHANGED', 'ASSIGNED', 'NOTE')),
+    from_status VARCHAR(20),
+    to_status VARCHAR(20),
+    actor_id UUID REFERENCES tenant_users(id) ON DELETE RESTRICT,
+    note TEXT,
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Append-only enforcement for rights_request_events
+CREATE OR REPLACE FUNCTION prevent_rights_request_event_modification()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'rights_request_events table is append-only. UPDATE and DELETE are prohibited.';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS rights_request_events_immutable ON rights_request_events;
+CREATE TRIGGER rights_request_events_immutable
+    BEFORE UPDATE OR DELETE ON rights_request_events
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_rights_request_event_modification();
+
+CREATE INDEX IF NOT EXISTS idx_rights_request_events_request ON rights_request_events(request_id);
+
+-- Down Migration
+-- DROP TRIGGER IF EXISTS rights_request_events_immutable ON rights_request_events;
+-- DROP FUNCTION IF EXISTS prevent_rights_request_event_modification;
+-- DROP TABLE IF EXISTS rights_request_events CASCADE;
+-- DROP TABLE IF EXISTS rights_requests CASCADE;
@@ -0,0 +1,33 @@
+-- ============================================================================
+-- SECTION 13: RIGHTS REQUEST EMAIL VERIFICATION
+-- ============================================================================
+
+-- Requests start in PENDING_VERIFICATION and are only released to the tenant
+-- (status RECEIVED) once the requester confirms their email. Unconfirmed
+-- requests move to EXPIRED after the verification window.
+ALTER TABLE rights_requests DROP CONSTRAINT IF EXISTS rights_requests_status_check;
+ALTER TABLE rights_requests ADD CONSTRAINT rights_requests_status_check
+    CHECK (status IN ('PENDING_VERIFICATION', 'EXPIRED', 'RECEIVED', 'VERIFYING', 'IN_PROGRESS', 'COMPLETED', 'REJECTED'));
+
+ALTER TABLE rights_requests ADD COLUMN IF NOT EXISTS verification_token_hash VARCHAR(64); -- SHA-256 of the link token
+ALTER TABLE rights_requests ADD COLUMN IF NOT EXISTS verification_code_hash VARCHAR(64);  -- HMAC of the one-time code
+ALTER TABLE rights_requests ADD COLUMN IF NOT EXISTS verification_attempts INTEGER DEFAULT 0;
+ALTER TABLE rights_requests ADD COLUMN IF NOT EXISTS verification_expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE rights_requests ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_rights_requests_verification_token ON rights_requests(verification_token_hash);
+CREATE INDEX IF NOT EXISTS idx_rights_requests_pending ON rights_requests(verification_expires_at)
+    WHERE status = 'PENDING_VERIFICATION';
+
+ALTER TABLE rights_request_events DROP CONSTRAINT IF EXISTS rights_request_events_event_type_check;
+ALTER TABLE rights_request_events ADD CONSTRAINT rights_request_events_event_type_check
+    CHECK (event_type IN ('SUBMITTED', 'VERIFICATION_SENT', 'VERIFIED', 'EXPIRED', 'STATUS_CHANGED', 'ASSIGNED', 'NOTE'));
+
+-- Down Migration
+-- DROP INDEX IF EXISTS idx_rights_requests_pending;
+-- DROP INDEX IF EXISTS idx_rights_requests_verification_token;
+-- ALTER TABLE rights_requests DROP COLUMN IF EXISTS verified_at;
+-- ALTER TABLE rights_requests DROP COLUMN IF EXISTS verification_expires_at;
+-- ALTER TABLE rights_requests DROP COLUMN IF EXISTS verification_attempts;
+-- ALTER TABLE rights_requests DROP COLUMN IF EXISTS verification_code_hash;
+-- ALTER TABLE rights_requests DROP COLUMN IF EXISTS verification_token_hash;
@@ -0,0 +1,30 @@
+-- ============================================================================
+-- SECTION 14: RIGHTS REQUEST SLA TIMERS
+-- ============================================================================
+
+-- The due date is set when a request is released to the tenant (email
+-- verified), using the per-type deadline in the active global_rules version
+-- at that moment. The SLA sweeper raises an incident the first time an open
+-- request passes its due date and stamps sla_breached_at so it is raised once.
+ALTER TABLE rights_requests ADD COLUMN IF NOT EXISTS due_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE rights_requests ADD COLUMN IF NOT EXISTS sla_rules_version INTEGER; -- global_rules.version used for due_at
+ALTER TABLE rights_requests ADD COLUMN IF NOT EXISTS sla_breached_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_rights_requests_due ON rights_requests(due_at)
+    WHERE status IN ('RECEIVED', 'VERIFYING', 'IN_PROGRESS');
+
+ALTER TABLE rights_request_events DROP CONSTRAINT IF EXISTS rights_request_events_event_type_check;
+ALTER TABLE rights_request_events ADD CONSTRAINT rights_request_events_event_type_check
+    CHECK (event_type IN ('SUBMITTED', 'VERIFICATION_SENT', 'VERIFIED', 'EXPIRED', 'SLA_BREACHED', 'STATUS_CHANGED', 'ASSIGNED', 'NOTE'));
+
+-- Incidents raised by the Tenant Platform are scoped to a tenant
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS tenant_id UUID REFERENCES tenants(id) ON DELETE RESTRICT;
+CREATE INDEX IF NOT EXISTS idx_incidents_status ON incidents(status, created_at);
+
+-- Down Migration
+-- DROP INDEX IF EXISTS idx_incidents_status;
+-- ALTER TABLE incidents DROP COLUMN IF EXISTS tenant_id;
+-- DROP INDEX IF EXISTS idx_rights_requests_due;
+-- ALTER TABLE rights_requests DROP COLUMN IF EXISTS sla_breached_at;
+-- ALTER TABLE rights_requests DROP COLUMN IF EXISTS sla_rules_version;
+-- ALTER TABLE rights_requests DROP COLUMN IF EXISTS due_at;
@@ -0,0 +1,48 @@
+-- ============================================================================
+-- SECTION 15: NOTICE AND PURPOSE CONFIGURATION VERSIONS
+-- ============================================================================
+
+-- Every change to the notice or purposes a visitor sees is captured as an
+-- immutable snapshot with a content hash. Tenants mark each change as MINOR
+-- (no re-consent) or MATERIAL; adding a purpose is always MATERIAL. The loader
+-- re-prompts visitors whose consent predates the latest MATERIAL version.
+CREATE TABLE IF NOT EXISTS website_config_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    website_id UUID NOT NULL REFERENCES websites(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    content_hash VARCHAR(64) NOT NULL, -- SHA-256 of the canonical snapshot
+    change_type VARCHAR(10) NOT NULL CHECK (change_type IN ('MINOR', 'MATERIAL')),
+    added_purposes TEXT[] DEFAULT '{}', -- Purpose tags not present in the previous version
+    snapshot JSONB NOT NULL, -- Notice translations and active purposes as shown to visitors
+    created_by UUID REFERENCES tenant_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT unique_website_config_version UNIQUE (website_id, version)
+);
+
+-- Versions are never edited; they only go away with their (draft) website
+CREATE OR REPLACE FUNCTION prevent_config_version_modification()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'website_config_versions rows are immutable. UPDATE is prohibited.';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS website_config_versions_immutable ON website_config_versions;
+CREATE TRIGGER website_config_versions_immutable
+    BEFORE UPDATE ON website_config_versions
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_config_version_modification();
+
+CREATE INDEX IF NOT EXISTS idx_config_versions_material
+    ON website_config_versions(website_id, version) WHERE change_type = 'MATERIAL';
+
+-- The configuration version each consent decision was given against
+ALTER TABLE consent_records ADD COLUMN IF NOT EXISTS config_version INTEGER;
+
+-- Down Migration
+-- ALTER TABLE consent_records DROP COLUMN IF EXISTS config_version;
+-- DROP INDEX IF EXISTS idx_config_versions_material;
+-- DROP TRIGGER IF EXISTS website_config_versions_immutable ON website_config_versions;
+-- DROP FUNCTION IF EXISTS prevent_config_version_modification;
+-- DROP TABLE IF EXISTS website_config_versions CASCADE;
@@ -0,0 +1,40 @@
+-- ============================================================================
+-- SECTION 16: PUBLISHED CONFIGURATIONS (DRAFT / PUBLISH)
+-- ============================================================================
+
+-- Notice, purpose and banner tables hold the tenant's draft. Publishing
+-- snapshots the runtime configuration built from them into this table, and
+-- the runtime endpoint serves the latest row. A rollback appends a copy of an
+-- earlier snapshot, so the history of what was live is never rewritten.
+CREATE TABLE IF NOT EXISTS published_configs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    website_id UUID NOT NULL REFERENCES websites(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL, -- Publish sequence per website
+    config JSONB NOT NULL, -- Runtime configuration exactly as served to the loader
+    content_hash VARCHAR(64) NOT NULL, -- SHA-256 of the visitor-facing content
+    config_version INTEGER, -- website_config_versions version captured
+    rolled_back_from INTEGER, -- Published version restored by a rollback
+    note TEXT,
+    published_by UUID REFERENCES tenant_users(id) ON DELETE SET NULL,
+    published_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT unique_published_config_version UNIQUE (website_id, version)
+);
+
+CREATE OR REPLACE FUNCTION prevent_published_config_modification()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'published_configs rows are immutable. UPDATE is prohibited.';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS published_configs_immutable ON published_configs;
+CREATE TRIGGER published_configs_immutable
+    BEFORE UPDATE ON published_configs
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_published_config_modification();
+
+-- Down Migration
+-- DROP TRIGGER IF EXISTS published_configs_immutable ON published_configs;
+-- DROP FUNCTION IF EXISTS prevent_published_config_modification;
+-- DROP TABLE IF EXISTS published_configs CASCADE;
@@ -0,0 +1,16 @@
+-- ============================================================================
+-- SECTION 17: CONSENT LIFETIME
+-- ============================================================================
+
+-- How long the loader honours stored consent before asking again. NULL uses
+-- the platform default. Both values are capped at serve time by the
+-- "consent_lifetime" section of the active global_rules version, so lowering
+-- the global maximum takes effect without editing every website.
+ALTER TABLE websites ADD COLUMN IF NOT EXISTS consent_lifetime_days INTEGER
+    CHECK (consent_lifetime_days > 0);
+ALTER TABLE websites ADD COLUMN IF NOT EXISTS reject_lifetime_days INTEGER -- Lifetime of decisions that grant no optional purpose
+    CHECK (reject_lifetime_days > 0);
+
+-- Down Migration
+-- ALTER TABLE websites DROP COLUMN IF EXISTS reject_lifetime_days;
+-- ALTER TABLE websites DROP COLUMN IF EXISTS consent_lifetime_days;
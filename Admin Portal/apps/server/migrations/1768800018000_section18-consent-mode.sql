@@ -0,0 +1,21 @@
+-- ============================================================================
+-- SECTION 18: GOOGLE CONSENT MODE
+-- ============================================================================
+
+-- Maps purpose tags to Google Consent Mode v2 signals. A signal is granted
+-- when any purpose mapped to it is granted. Part of the draft: changes reach
+-- visitors when the website configuration is published.
+CREATE TABLE IF NOT EXISTS website_consent_mode (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    website_id UUID NOT NULL UNIQUE REFERENCES websites(id) ON DELETE CASCADE,
+    enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    signal_mapping JSONB NOT NULL DEFAULT '{}', -- { "analytics_storage": ["analytics"], ... }
+    wait_for_update_ms INTEGER NOT NULL DEFAULT 500 CHECK (wait_for_update_ms BETWEEN 0 AND 10000),
+    ads_data_redaction BOOLEAN NOT NULL DEFAULT FALSE,
+    url_passthrough BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Down Migration
+-- DROP TABLE IF EXISTS website_consent_mode CASCADE;
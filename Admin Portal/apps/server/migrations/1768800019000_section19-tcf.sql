@@ -0,0 +1,26 @@
+-- ============================================================================
+-- SECTION 19: IAB TCF v2.2 / GPP
+-- ============================================================================
+
+-- Optional IAB Transparency & Consent Framework mode per website. Holds a
+-- local copy of the Global Vendor List imported from a file (no live fetch),
+-- the vendors the publisher works with, and which IAB purposes each website
+-- purpose covers. Part of the draft: changes reach visitors when the website
+-- configuration is published.
+CREATE TABLE IF NOT EXISTS website_tcf_settings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    website_id UUID NOT NULL UNIQUE REFERENCES websites(id) ON DELETE CASCADE,
+    enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    publisher_country_code VARCHAR(2) NOT NULL DEFAULT 'AA' CHECK (publisher_country_code ~ '^[A-Z]{2}$'),
+    vendor_list JSONB, -- trimmed Global Vendor List: purposes, special features, vendors
+    vendor_list_version INTEGER,
+    tcf_policy_version INTEGER,
+    vendor_list_imported_at TIMESTAMP WITH TIME ZONE,
+    selected_vendor_ids INTEGER[] NOT NULL DEFAULT '{}',
+    purpose_mapping JSONB NOT NULL DEFAULT '{}', -- { "marketing": { "purposes": [2, 3, 4], "specialFeatures": [] } }
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Down Migration
+-- DROP TABLE IF EXISTS website_tcf_settings CASCADE;
@@ -0,0 +1,28 @@
+-- ============================================================================
+-- SECTION 20: COOKIE & TRACKER SCANS
+-- ============================================================================
+
+-- One row per scan of a website. The scanner loads the pages in a headless
+-- browser, first without consent and then after clicking Accept All, and
+-- stores what it observed with a suggested purpose per item. Rows are kept
+-- as the scan history of the website.
+CREATE TABLE IF NOT EXISTS website_scans (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    website_id UUID NOT NULL REFERENCES websites(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED')),
+    start_urls TEXT[] NOT NULL,
+    max_pages INTEGER NOT NULL CHECK (max_pages > 0),
+    pages JSONB NOT NULL DEFAULT '[]', -- [{ "url": "...", "status": 200, "acceptClicked": true }]
+    items JSONB NOT NULL DEFAULT '[]', -- cookies, storage keys, scripts, iframes and pixels observed
+    item_count INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    requested_by UUID REFERENCES tenant_users(id) ON DELETE SET NULL,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_website_scans_website ON website_scans(website_id, created_at DESC);
+
+-- Down Migration
+-- DROP TABLE IF EXISTS website_scans CASCADE;
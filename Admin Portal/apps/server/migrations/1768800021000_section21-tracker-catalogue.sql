@@ -0,0 +1,41 @@
+-- ============================================================================
+-- SECTION 21: KNOWN-TRACKER CATALOGUE
+-- ============================================================================
+
+-- Catalogue of known third-party trackers, curated by Super Admins and seeded
+-- from seeds/tracker-catalogue.json. Used by the Tenant Platform scanner to
+-- suggest a purpose for what it finds, and by the loader to block adopted
+-- trackers that a site did not mark up.
+-- Patterns are exact names or URLs where * matches any run of characters;
+-- script patterns are URLs without the scheme, e.g. "www.googletagmanager.com/gtag/js*".
+CREATE TABLE IF NOT EXISTS tracker_catalogue (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    vendor VARCHAR(100),
+    category VARCHAR(20) NOT NULL CHECK (category IN ('essential', 'functional', 'analytics', 'marketing')),
+    domains TEXT[] NOT NULL DEFAULT '{}', -- matches the domain and its subdomains
+    cookie_patterns TEXT[] NOT NULL DEFAULT '{}', -- cookie and storage key names
+    script_patterns TEXT[] NOT NULL DEFAULT '{}',
+    description TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Catalogue trackers a tenant adopted into one of the website's purposes.
+-- Part of the draft: the loader blocks them once the configuration is published.
+CREATE TABLE IF NOT EXISTS website_trackers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    website_id UUID NOT NULL REFERENCES websites(id) ON DELETE CASCADE,
+    tracker_id UUID NOT NULL REFERENCES tracker_catalogue(id) ON DELETE RESTRICT,
+    purpose_id UUID NOT NULL REFERENCES purposes(id) ON DELETE CASCADE,
+    created_by UUID REFERENCES tenant_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (website_id, tracker_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_website_trackers_purpose ON website_trackers(purpose_id);
+
+-- Down Migration
+-- DROP TABLE IF EXISTS website_trackers CASCADE;
+-- DROP TABLE IF EXISTS tracker_catalogue CASCADE;
@@ -0,0 +1,26 @@
+-- ============================================================================
+-- SECTION 22: AUTO-BLOCKING RULES
+-- ============================================================================
+
+-- URL and domain rules a tenant assigns to a purpose. The loader holds any
+-- script, iframe or image whose URL matches until the purpose is consented,
+-- so tags no longer have to be marked up with data-purpose by hand.
+-- DOMAIN rules match the host and its subdomains; URL rules match the URL
+-- without its scheme, where * matches any run of characters.
+-- Part of the draft: rules reach visitors once the configuration is published.
+CREATE TABLE IF NOT EXISTS website_blocking_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    website_id UUID NOT NULL REFERENCES websites(id) ON DELETE CASCADE,
+    purpose_id UUID NOT NULL REFERENCES purposes(id) ON DELETE CASCADE,
+    match_type VARCHAR(10) NOT NULL CHECK (match_type IN ('DOMAIN', 'URL')),
+    pattern VARCHAR(500) NOT NULL,
+    created_by UUID REFERENCES tenant_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (website_id, match_type, pattern)
+);
+
+CREATE INDEX IF NOT EXISTS idx_website_blocking_rules_purpose ON website_blocking_rules(purpose_id);
+
+-- Down Migration
+-- DROP TABLE IF EXISTS website_blocking_rules CASCADE;
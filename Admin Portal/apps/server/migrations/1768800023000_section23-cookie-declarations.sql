@@ -0,0 +1,32 @@
+-- ============================================================================
+-- SECTION 23: COOKIE DECLARATIONS AND GOVERNANCE
+-- ============================================================================
+
+-- Cookies and localStorage keys a website declares under its purposes, with
+-- the provider and duration shown in the public cookie policy. Names are
+-- exact values where * matches any run of characters.
+-- Part of the draft: declarations reach visitors once the configuration is published.
+CREATE TABLE IF NOT EXISTS website_cookies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    website_id UUID NOT NULL REFERENCES websites(id) ON DELETE CASCADE,
+    purpose_id UUID NOT NULL REFERENCES purposes(id) ON DELETE CASCADE,
+    storage_type VARCHAR(20) NOT NULL CHECK (storage_type IN ('COOKIE', 'LOCAL_STORAGE')),
+    name VARCHAR(255) NOT NULL,
+    provider VARCHAR(255),
+    duration VARCHAR(100), -- As worded in the policy, e.g. "Session" or "2 years"
+    description TEXT,
+    created_by UUID REFERENCES tenant_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (website_id, storage_type, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_website_cookies_purpose ON website_cookies(purpose_id);
+
+-- Cookie governance: the loader drops writes of declared cookies and keys
+-- whose purpose is not consented and purges them on reject or withdrawal
+ALTER TABLE websites ADD COLUMN IF NOT EXISTS cookie_governance BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Down Migration
+-- ALTER TABLE websites DROP COLUMN IF EXISTS cookie_governance;
+-- DROP TABLE IF EXISTS website_cookies CASCADE;
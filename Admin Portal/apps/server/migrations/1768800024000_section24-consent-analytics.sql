@@ -0,0 +1,35 @@
+-- ============================================================================
+-- SECTION 24: CONSENT ANALYTICS
+-- ============================================================================
+
+-- Daily consent counts per website, language and device type. Impressions are
+-- counted as the loader reports them; decision counts are recomputed from the
+-- consent ledger on a schedule. No visitor identifiers are kept here.
+CREATE TABLE IF NOT EXISTS consent_analytics_daily (
+    website_id UUID NOT NULL REFERENCES websites(id) ON DELETE CASCADE,
+    day DATE NOT NULL, -- UTC
+    language_code VARCHAR(10) NOT NULL DEFAULT 'unknown',
+    device_type VARCHAR(10) NOT NULL DEFAULT 'unknown' CHECK (device_type IN ('desktop', 'mobile', 'tablet', 'unknown')),
+    impressions INTEGER NOT NULL DEFAULT 0, -- Banners shown
+    accept_all INTEGER NOT NULL DEFAULT 0,
+    reject_all INTEGER NOT NULL DEFAULT 0,
+    custom INTEGER NOT NULL DEFAULT 0,
+    withdrawals INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (website_id, day, language_code, device_type)
+);
+
+-- Daily opt-ins per purpose, from banner decisions (withdrawals excluded)
+CREATE TABLE IF NOT EXISTS consent_analytics_purpose_daily (
+    website_id UUID NOT NULL REFERENCES websites(id) ON DELETE CASCADE,
+    day DATE NOT NULL, -- UTC
+    purpose_tag VARCHAR(50) NOT NULL,
+    granted INTEGER NOT NULL DEFAULT 0,
+    denied INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (website_id, day, purpose_tag)
+);
+
+-- Down Migration
+-- DROP TABLE IF EXISTS consent_analytics_purpose_daily CASCADE;
+-- DROP TABLE IF EXISTS consent_analytics_daily CASCADE;
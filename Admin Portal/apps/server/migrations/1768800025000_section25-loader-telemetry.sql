@@ -0,0 +1,22 @@
+-- ============================================================================
+-- SECTION 25: LOADER TELEMETRY
+-- ============================================================================
+
+-- Banner lifecycle events reported by the loader (banner shown, settings
+-- opened, language switched, rights form opened, dismissed without action).
+-- Anonymous: no visitor ID, IP address or user agent is kept, only the device
+-- type. Partitioned by UTC day; the tenant server creates upcoming partitions
+-- and drops those past the retention period.
+CREATE TABLE IF NOT EXISTS loader_events (
+    website_id UUID NOT NULL REFERENCES websites(id) ON DELETE CASCADE,
+    event VARCHAR(30) NOT NULL CHECK (event IN ('BANNER_SHOWN', 'SETTINGS_OPENED', 'LANGUAGE_SWITCHED', 'RIGHTS_FORM_OPENED', 'DISMISSED')),
+    language_code VARCHAR(10),
+    device_type VARCHAR(10) NOT NULL DEFAULT 'unknown' CHECK (device_type IN ('desktop', 'mobile', 'tablet', 'unknown')),
+    sample_rate REAL NOT NULL DEFAULT 1 CHECK (sample_rate > 0 AND sample_rate <= 1), -- Share of page views reporting
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+) PARTITION BY RANGE (created_at);
+
+CREATE INDEX IF NOT EXISTS idx_loader_events_website ON loader_events(website_id, created_at);
+
+-- Down Migration
+-- DROP TABLE IF EXISTS loader_events CASCADE;
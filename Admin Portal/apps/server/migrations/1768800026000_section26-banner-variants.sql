@@ -0,0 +1,49 @@
+-- ============================================================================
+-- SECTION 26: BANNER VARIANTS (A/B TESTS)
+-- ============================================================================
+
+-- Alternative banners shown to a share of visitors. A variant overrides some
+-- styles of banner_customizations and some text of website_banner_translations;
+-- visitors outside every variant's share see the default banner. Each variant
+-- passes the same dark pattern rules as the default banner.
+-- Part of the draft: variants reach visitors once the configuration is
+-- published. Promoting a winner copies it into the default banner and
+-- archives the variants, whose results stay readable.
+CREATE TABLE IF NOT EXISTS banner_variants (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    website_id UUID NOT NULL REFERENCES websites(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    traffic_percent INTEGER NOT NULL CHECK (traffic_percent BETWEEN 1 AND 100),
+    styles JSONB NOT NULL DEFAULT '{}', -- Overrides of banner_customizations
+    text JSONB NOT NULL DEFAULT '{}', -- Language code -> overrides of the banner text
+    archived_at TIMESTAMP WITH TIME ZONE, -- Set when the experiment ended
+    created_by UUID REFERENCES tenant_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Names are unique among the variants running
+CREATE UNIQUE INDEX IF NOT EXISTS idx_banner_variants_active_name
+    ON banner_variants(website_id, name) WHERE archived_at IS NULL;
+
+-- Variant the visitor saw when deciding ("control" for the default banner)
+ALTER TABLE consent_records ADD COLUMN IF NOT EXISTS banner_variant VARCHAR(64);
+
+-- Outcome events per variant: DECISION carries the action, whether any
+-- optional purpose was granted and the time from banner shown to decision
+ALTER TABLE loader_events ADD COLUMN IF NOT EXISTS variant VARCHAR(64);
+ALTER TABLE loader_events ADD COLUMN IF NOT EXISTS action VARCHAR(20);
+ALTER TABLE loader_events ADD COLUMN IF NOT EXISTS opt_in BOOLEAN;
+ALTER TABLE loader_events ADD COLUMN IF NOT EXISTS decision_ms INTEGER;
+ALTER TABLE loader_events DROP CONSTRAINT IF EXISTS loader_events_event_check;
+ALTER TABLE loader_events ADD CONSTRAINT loader_events_event_check
+    CHECK (event IN ('BANNER_SHOWN', 'SETTINGS_OPENED', 'LANGUAGE_SWITCHED', 'RIGHTS_FORM_OPENED', 'DISMISSED', 'DECISION'));
+
+-- Down Migration
+-- ALTER TABLE loader_events DROP CONSTRAINT IF EXISTS loader_events_event_check;
+-- ALTER TABLE loader_events DROP COLUMN IF EXISTS decision_ms;
+-- ALTER TABLE loader_events DROP COLUMN IF EXISTS opt_in;
+-- ALTER TABLE loader_events DROP COLUMN IF EXISTS action;
+-- ALTER TABLE loader_events DROP COLUMN IF EXISTS variant;
+-- ALTER TABLE consent_records DROP COLUMN IF EXISTS banner_variant;
+-- DROP TABLE IF EXISTS banner_variants CASCADE;
@@ -0,0 +1,52 @@
+-- ============================================================================
+-- SECTION 27: OUTBOUND WEBHOOKS
+-- ============================================================================
+
+-- Tenant endpoints notified of consent, rights request and publish events.
+-- Payloads are signed with HMAC-SHA256 using the endpoint secret, which is
+-- kept in clear because the platform has to sign with it. An endpoint may be
+-- limited to one website; without one it receives events of every website.
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    website_id UUID REFERENCES websites(id) ON DELETE CASCADE,
+    url VARCHAR(2048) NOT NULL,
+    description VARCHAR(255),
+    events TEXT[] NOT NULL, -- e.g. {consent.withdrawn,rights_request.created}
+    secret VARCHAR(80) NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES tenant_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_tenant ON webhook_endpoints(tenant_id);
+
+-- Persistent delivery queue and delivery log. One row per event and endpoint;
+-- a manual redelivery adds a new row with the same event_id so receivers can
+-- drop duplicates. The delivery job claims due PENDING rows by pushing
+-- next_attempt_at forward, so a crashed worker's rows are picked up again.
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL,
+    event_type VARCHAR(50) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'SUCCEEDED', 'FAILED')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_attempt_at TIMESTAMP WITH TIME ZONE,
+    response_status INTEGER,
+    response_body VARCHAR(1000), -- Start of the receiver's last response
+    last_error VARCHAR(1000),
+    redelivery_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'PENDING';
+
+-- Down Migration
+-- DROP TABLE IF EXISTS webhook_deliveries CASCADE;
+-- DROP TABLE IF EXISTS webhook_endpoints CASCADE;
@@ -0,0 +1,36 @@
+-- ============================================================================
+-- SECTION 28: ORIGIN ALLOW-LIST AND SECURITY EVENTS
+-- ============================================================================
+
+-- Hosts besides the registered domain (and its www subdomain) that may call
+-- the public runtime API for a website. Entries are host names, with a
+-- leading "*." for any subdomain. Test domains are kept apart so staging
+-- hosts can be reviewed and removed as a set; they may be localhost or an IP
+-- address with a port. Existing websites start with empty lists: the tenant
+-- server only reports other callers (ORIGIN_ENFORCEMENT=report) until tenants
+-- have listed their domains and it is switched to enforce.
+ALTER TABLE websites ADD COLUMN IF NOT EXISTS allowed_domains TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE websites ADD COLUMN IF NOT EXISTS test_domains TEXT[] NOT NULL DEFAULT '{}';
+
+-- Rejected calls to the runtime API, e.g. the banner embedded on a site that
+-- is not the tenant's. Counted in memory and flushed as one row per website,
+-- event type, origin, endpoint and UTC day, so a flood only grows a counter.
+CREATE TABLE IF NOT EXISTS website_security_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    website_id UUID NOT NULL REFERENCES websites(id) ON DELETE CASCADE,
+    event_type VARCHAR(50) NOT NULL CHECK (event_type IN ('ORIGIN_REJECTED')),
+    origin VARCHAR(255) NOT NULL DEFAULT '', -- Host of the Origin or Referer header; empty when neither was sent
+    endpoint VARCHAR(200) NOT NULL, -- Route pattern, e.g. /runtime/websites/:siteId
+    day DATE NOT NULL, -- UTC
+    attempts INTEGER NOT NULL DEFAULT 0,
+    first_seen_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    UNIQUE (website_id, event_type, origin, endpoint, day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_website_security_events_website ON website_security_events(website_id, last_seen_at DESC);
+
+-- Down Migration
+-- DROP TABLE IF EXISTS website_security_events CASCADE;
+-- ALTER TABLE websites DROP COLUMN IF EXISTS test_domains;
+-- ALTER TABLE websites DROP COLUMN IF EXISTS allowed_domains;
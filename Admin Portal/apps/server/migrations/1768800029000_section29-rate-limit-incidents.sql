@@ -0,0 +1,13 @@
+-- ============================================================================
+-- SECTION 29: RATE LIMIT INCIDENTS
+-- ============================================================================
+
+-- The Tenant Platform raises a RATE_LIMIT_EXCEEDED incident when a website's
+-- public endpoints refuse more requests in an hour than the configured
+-- threshold. metadata.websiteId names the website (NULL for endpoints without
+-- one); before raising, the platform looks for an open incident of the same
+-- type and website from the last hour so a sustained flood raises one per hour.
+CREATE INDEX IF NOT EXISTS idx_incidents_open_type ON incidents(type, created_at) WHERE status = 'OPEN';
+
+-- Down Migration
+-- DROP INDEX IF EXISTS idx_incidents_open_type;
@@ -0,0 +1,16 @@
+-- ============================================================================
+-- SECTION 30: TELEMETRY SAMPLE RATE
+-- ============================================================================
+
+-- loader_events.sample_rate used to be taken from the beacon, so a forged
+-- batch could store a tiny rate and inflate (or overflow) a website's counts.
+-- The tenant server now stores its configured rate, which is at least 0.01.
+-- Rows below that cannot be genuine and are counted as single events.
+UPDATE loader_events SET sample_rate = 1 WHERE sample_rate < 0.01;
+
+ALTER TABLE loader_events DROP CONSTRAINT IF EXISTS loader_events_sample_rate_check;
+ALTER TABLE loader_events ADD CONSTRAINT loader_events_sample_rate_check CHECK (sample_rate >= 0.01 AND sample_rate <= 1);
+
+-- Down Migration
+-- ALTER TABLE loader_events DROP CONSTRAINT IF EXISTS loader_events_sample_rate_check;
+-- ALTER TABLE loader_events ADD CONSTRAINT loader_events_sample_rate_check CHECK (sample_rate > 0 AND sample_rate <= 1);
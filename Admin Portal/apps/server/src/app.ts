@@ -6,6 +6,8 @@ import { tenantRoutes } from './routes/tenant.routes';
 import { rulesRoutes } from './routes/rules.routes';
 import { auditRoutes } from './routes/audit.routes';
 import { tenantAdminRoutes } from './routes/tenant-admin.routes';
+import { incidentRoutes } from './routes/incident.routes';
+import { trackerRoutes } from './routes/tracker.routes';
 
 export const buildApp = async () => {
     const app = Fastify({
@@ -31,6 +33,8 @@ export const buildApp = async () => {
     await app.register(rulesRoutes, { prefix: '/rules' });
     await app.register(auditRoutes, { prefix: '/audit-logs' });
     await app.register(tenantAdminRoutes, { prefix: '/tenant-admins' });
+    await app.register(incidentRoutes, { prefix: '/incidents' });
+    await app.register(trackerRoutes, { prefix: '/trackers' });
 
     return app;
 };
@@ -0,0 +1,61 @@
+import { db } from './db';
+import { logAuditAction } from './audit';
+
+export interface Incident {
+    id: string;
+    severity: 'LOW' | 'MEDIUM' | 'HIGH';
+    type: string;
+    status: 'OPEN' | 'RESOLVED';
+    tenant_id: string | null;
+    tenant_name: string | null;
+    metadata: Record<string, any> | null;
+    created_at: Date;
+    resolved_at: Date | null;
+}
+
+/**
+ * Lists incidents, newest first.
+ * Incidents are raised by the platforms (e.g. rights request SLA breaches
+ * from the Tenant Platform) and reviewed here by Super Admins.
+ */
+export async function listIncidents(status?: 'OPEN' | 'RESOLVED'): Promise<Incident[]> {
+    const res = await db.query(
+        `SELECT i.*, t.name as tenant_name
+     FROM incidents i
+     LEFT JOIN tenants t ON t.id = i.tenant_id
+     WHERE ($1::varchar IS NULL OR i.status = $1)
+     ORDER BY i.created_at DESC
+     LIMIT 200`,
+        [status || null]
+    );
+    return res.rows;
+}
+
+/**
+ * Marks an open incident as resolved.
+ *
+ * AUDIT: Logs 'RESOLVE_INCIDENT' action.
+ */
+export async function resolveIncident(actorId: string, incidentId: string): Promise<Incident> {
+    const res = await db.query(
+        `UPDATE incidents
+     SET status = 'RESOLVED', resolved_at = NOW()
+     WHERE id = $1 AND status = 'OPEN'
+     RETURNING *`,
+        [incidentId]
+    );
+
+    if (res.rowCount === 0) {
+        throw new Error(`Open incident ${incidentId} not found`);
+    }
+
+    const incident = res.rows[0];
+
+    await logAuditAction({
+        actorId,
+        action: 'RESOLVE_INCIDENT',
+        metadata: { incidentId: incident.id, type: incident.type, tenantId: incident.tenant_id }
+    });
+
+    return incident;
+}
@@ -0,0 +1,28 @@
+import { FastifyInstance } from 'fastify';
+import { requireAuth } from '../middleware/require-auth';
+import { listIncidents, resolveIncident } from '../incidents';
+
+export async function incidentRoutes(app: FastifyInstance) {
+    app.addHook('preHandler', requireAuth);
+
+    // List Incidents (optionally ?status=OPEN|RESOLVED)
+    app.get('/', async (req: any, reply) => {
+        const { status } = req.query || {};
+        if (status && status !== 'OPEN' && status !== 'RESOLVED') {
+            return reply.badRequest('Status must be OPEN or RESOLVED');
+        }
+        const incidents = await listIncidents(status);
+        return { incidents };
+    });
+
+    // Resolve Incident
+    app.post('/:id/resolve', async (req: any, reply) => {
+        const { id } = req.params;
+        try {
+            const incident = await resolveIncident(req.admin!.id, id);
+            return { success: true, incident };
+        } catch (err: any) {
+            return reply.badRequest(err.message);
+        }
+    });
+}
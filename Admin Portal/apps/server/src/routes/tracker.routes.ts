@@ -0,0 +1,45 @@
+import { FastifyInstance } from 'fastify';
+import { requireAuth } from '../middleware/require-auth';
+import { listTrackers, createTracker, updateTracker, deleteTracker } from '../tracker-catalogue';
+
+export async function trackerRoutes(app: FastifyInstance) {
+    app.addHook('preHandler', requireAuth);
+
+    // List Known Trackers
+    app.get('/', async () => {
+        const trackers = await listTrackers();
+        return { trackers };
+    });
+
+    // Create Tracker
+    app.post('/', async (req: any, reply) => {
+        try {
+            const tracker = await createTracker(req.admin!.id, req.body || {});
+            return { success: true, tracker };
+        } catch (err: any) {
+            return reply.badRequest(err.message);
+        }
+    });
+
+    // Update Tracker
+    app.put('/:id', async (req: any, reply) => {
+        const { id } = req.params;
+        try {
+            const tracker = await updateTracker(req.admin!.id, id, req.body || {});
+            return { success: true, tracker };
+        } catch (err: any) {
+            return reply.badRequest(err.message);
+        }
+    });
+
+    // Delete Tracker (only when no website has adopted it)
+    app.delete('/:id', async (req: any, reply) => {
+        const { id } = req.params;
+        try {
+            await deleteTracker(req.admin!.id, id);
+            return { success: true };
+        } catch (err: any) {
+            return reply.badRequest(err.message);
+        }
+    });
+}
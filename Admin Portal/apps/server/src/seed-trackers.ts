@@ -0,0 +1,26 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { db } from './db';
+import { seedTrackers, TrackerInput } from './tracker-catalogue';
+
+/**
+ * Loads seeds/tracker-catalogue.json into the known-tracker catalogue.
+ * Safe to re-run: trackers already in the catalogue are skipped.
+ */
+async function run() {
+    const file = path.join(__dirname, '../seeds/tracker-catalogue.json');
+
+    console.log(`Seeding tracker catalogue from ${file} ...`);
+
+    try {
+        const trackers: TrackerInput[] = JSON.parse(fs.readFileSync(file, 'utf8'));
+        const added = await seedTrackers(trackers);
+        console.log(`✅ Tracker catalogue seeded: ${added} added, ${trackers.length - added} already present.`);
+    } catch (err) {
+        console.error('❌ Seeding failed:', err);
+    } finally {
+        await db.end();
+    }
+}
+
+run();
@@ -0,0 +1,218 @@
+import { db } from './db';
+import { logAuditAction } from './audit';
+
+export type TrackerCategory = 'essential' | 'functional' | 'analytics' | 'marketing';
+
+export interface Tracker {
+    id: string;
+    name: string;
+    vendor: string | null;
+    category: TrackerCategory;
+    domains: string[];
+    cookie_patterns: string[];
+    script_patterns: string[];
+    description: string | null;
+    is_active: boolean;
+    adoption_count?: number;
+    created_at: Date;
+    updated_at: Date;
+}
+
+/**
+ * Tracker as entered in the Admin Portal or listed in the seed file.
+ * Patterns are exact values where * matches any run of characters.
+ */
+export interface TrackerInput {
+    name: string;
+    vendor?: string | null;
+    category: TrackerCategory;
+    domains?: string[];
+    cookies?: string[];
+    scripts?: string[];
+    description?: string | null;
+    isActive?: boolean;
+}
+
+const CATEGORIES: TrackerCategory[] = ['essential', 'functional', 'analytics', 'marketing'];
+const DOMAIN_REGEX = /^(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}$/;
+
+function cleanList(value: unknown, field: string): string[] {
+    if (value === undefined || value === null) {
+        return [];
+    }
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+        throw new Error(`${field} must be a list of strings`);
+    }
+    return Array.from(new Set(value.map((item) => item.trim()).filter(Boolean)));
+}
+
+/**
+ * Validates and normalizes tracker input.
+ * Domains are lower-cased; a leading "*." or "." is dropped since
+ * domains always match their subdomains.
+ */
+export function validateTrackerInput(input: TrackerInput) {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name || name.length > 100) {
+        throw new Error('Tracker name is required (max 100 characters)');
+    }
+    if (!CATEGORIES.includes(input.category)) {
+        throw new Error(`Category must be one of: ${CATEGORIES.join(', ')}`);
+    }
+
+    const domains = cleanList(input.domains, 'Domains').map((d) => d.toLowerCase().replace(/^\*?\./, ''));
+    for (const domain of domains) {
+        if (!DOMAIN_REGEX.test(domain)) {
+            throw new Error(`Invalid domain: ${domain}`);
+        }
+    }
+
+    const cookiePatterns = cleanList(input.cookies, 'Cookie patterns');
+    const scriptPatterns = cleanList(input.scripts, 'Script patterns').map((p) => p.replace(/^https?:\/\//i, ''));
+    for (const pattern of [...cookiePatterns, ...scriptPatterns]) {
+        if (pattern.replace(/\*/g, '').length < 2) {
+            throw new Error(`Pattern is too broad: ${pattern}`);
+        }
+    }
+
+    if (domains.length + cookiePatterns.length + scriptPatterns.length === 0) {
+        throw new Error('Add at least one domain, cookie or script pattern');
+    }
+
+    return {
+        name,
+        vendor: input.vendor?.trim() || null,
+        category: input.category,
+        domains,
+        cookiePatterns,
+        scriptPatterns,
+        description: input.description?.trim() || null,
+        isActive: input.isActive !== false,
+    };
+}
+
+/**
+ * Lists the catalogue, with how many websites adopted each tracker.
+ */
+export async function listTrackers(): Promise<Tracker[]> {
+    const res = await db.query(
+        `SELECT t.*, COUNT(wt.id)::int as adoption_count
+     FROM tracker_catalogue t
+     LEFT JOIN website_trackers wt ON wt.tracker_id = t.id
+     GROUP BY t.id
+     ORDER BY t.category, t.name`
+    );
+    return res.rows;
+}
+
+/**
+ * Adds a tracker to the catalogue.
+ *
+ * AUDIT: Logs 'CREATE_TRACKER' action.
+ */
+export async function createTracker(actorId: string, input: TrackerInput): Promise<Tracker> {
+    const data = validateTrackerInput(input);
+
+    const existing = await db.query('SELECT id FROM tracker_catalogue WHERE name = $1', [data.name]);
+    if ((existing.rowCount ?? 0) > 0) {
+        throw new Error('Tracker with this name already exists');
+    }
+
+    const res = await db.query(
+        `INSERT INTO tracker_catalogue (name, vendor, category, domains, cookie_patterns, script_patterns, description, is_active)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING *`,
+        [data.name, data.vendor, data.category, data.domains, data.cookiePatterns, data.scriptPatterns, data.description, data.isActive]
+    );
+    const tracker = res.rows[0];
+
+    await logAuditAction({
+        actorId,
+        action: 'CREATE_TRACKER',
+        metadata: { trackerId: tracker.id, name: tracker.name, category: tracker.category }
+    });
+
+    return tracker;
+}
+
+/**
+ * Updates a tracker. Websites that adopted it pick up the change
+ * the next time they publish.
+ *
+ * AUDIT: Logs 'UPDATE_TRACKER' action.
+ */
+export async function updateTracker(actorId: string, trackerId: string, input: TrackerInput): Promise<Tracker> {
+    const data = validateTrackerInput(input);
+
+    const existing = await db.query('SELECT id FROM tracker_catalogue WHERE name = $1 AND id <> $2', [data.name, trackerId]);
+    if ((existing.rowCount ?? 0) > 0) {
+        throw new Error('Tracker with this name already exists');
+    }
+
+    const res = await db.query(
+        `UPDATE tracker_catalogue
+     SET name = $2, vendor = $3, category = $4, domains = $5, cookie_patterns = $6,
+         script_patterns = $7, description = $8, is_active = $9, updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+        [trackerId, data.name, data.vendor, data.category, data.domains, data.cookiePatterns, data.scriptPatterns, data.description, data.isActive]
+    );
+
+    if (res.rowCount === 0) {
+        throw new Error('Tracker not found');
+    }
+
+    const tracker = res.rows[0];
+
+    await logAuditAction({
+        actorId,
+        action: 'UPDATE_TRACKER',
+        metadata: { trackerId: tracker.id, name: tracker.name, category: tracker.category, isActive: tracker.is_active }
+    });
+
+    return tracker;
+}
+
+/**
+ * Deletes a tracker that no website has adopted.
+ * Adopted trackers can only be deactivated.
+ *
+ * AUDIT: Logs 'DELETE_TRACKER' action.
+ */
+export async function deleteTracker(actorId: string, trackerId: string): Promise<void> {
+    const adopted = await db.query('SELECT COUNT(*)::int as count FROM website_trackers WHERE tracker_id = $1', [trackerId]);
+    if (adopted.rows[0].count > 0) {
+        throw new Error(`Tracker is adopted by ${adopted.rows[0].count} website(s); deactivate it instead`);
+    }
+
+    const res = await db.query('DELETE FROM tracker_catalogue WHERE id = $1 RETURNING id, name', [trackerId]);
+    if (res.rowCount === 0) {
+        throw new Error('Tracker not found');
+    }
+
+    await logAuditAction({
+        actorId,
+        action: 'DELETE_TRACKER',
+        metadata: { trackerId, name: res.rows[0].name }
+    });
+}
+
+/**
+ * Inserts seed trackers that are not in the catalogue yet (matched by name).
+ * Existing entries are left alone so curated edits survive a re-seed.
+ * Returns the number of trackers added.
+ */
+export async function seedTrackers(inputs: TrackerInput[]): Promise<number> {
+    let added = 0;
+    for (const input of inputs) {
+        const data = validateTrackerInput(input);
+        const res = await db.query(
+            `INSERT INTO tracker_catalogue (name, vendor, category, domains, cookie_patterns, script_patterns, description, is_active)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (name) DO NOTHING`,
+            [data.name, data.vendor, data.category, data.domains, data.cookiePatterns, data.scriptPatterns, data.description, data.isActive]
+        );
+        added += res.rowCount ?? 0;
+    }
+    return added;
+}
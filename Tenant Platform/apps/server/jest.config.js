@@ -4,6 +4,10 @@ module.exports = {
     testEnvironment: 'node',
     roots: ['<rootDir>/src'],
     testMatch: ['**/*.test.ts'],
+    // The loader tests serve the bundle built from packages/loader
+    globalSetup: '<rootDir>/jest.global-setup.js',
+    // The middleware barrel without the auth middleware, for every test file
+    setupFiles: ['<rootDir>/src/__tests__/helpers/middleware.ts'],
     moduleNameMapper: {
         '^@/(.*)$': '<rootDir>/src/$1',
     },
@@ -0,0 +1,6 @@
+/**
+ * Build packages/loader so the loader route serves the current sources
+ */
+module.exports = async () => {
+    await require('../../packages/loader/scripts/build').build();
+};
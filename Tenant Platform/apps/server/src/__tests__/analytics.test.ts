@@ -0,0 +1,114 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../repositories', () => ({}));
+
+import { analyticsService, MIN_SLICE_DECISIONS } from '../services/analytics.service';
+import { analyticsRangeSchema, recordImpressionSchema } from '../validators/analytics.validator';
+import { ConsentAnalyticsDaily } from '../types';
+
+const WEBSITE_ID = '5a1c9e24-7b3d-4f68-a2e0-1d9c8b7a6f53';
+
+const row = (day: string, languageCode: string, deviceType: ConsentAnalyticsDaily['deviceType'], counts: Partial<ConsentAnalyticsDaily>): ConsentAnalyticsDaily => ({
+    day,
+    languageCode,
+    deviceType,
+    impressions: 0,
+    acceptAll: 0,
+    rejectAll: 0,
+    custom: 0,
+    withdrawals: 0,
+    ...counts,
+});
+
+describe('Consent analytics', () => {
+    describe('analyticsRangeSchema', () => {
+        it('should default to the last 30 days', () => {
+            const range = analyticsRangeSchema.parse({ to: '2026-03-31' });
+            expect(range).toEqual({ from: '2026-03-02', to: '2026-03-31' });
+        });
+
+        it('should refuse reversed, overlong and invalid ranges', () => {
+            expect(analyticsRangeSchema.safeParse({ from: '2026-03-02', to: '2026-03-01' }).success).toBe(false);
+            expect(analyticsRangeSchema.safeParse({ from: '2025-01-01', to: '2026-03-01' }).success).toBe(false);
+            expect(analyticsRangeSchema.safeParse({ from: '2026-02-30', to: '2026-03-01' }).success).toBe(false);
+            expect(analyticsRangeSchema.safeParse({ from: '01/03/2026' }).success).toBe(false);
+        });
+    });
+
+    describe('recordImpressionSchema', () => {
+        it('should accept language codes only', () => {
+            expect(recordImpressionSchema.safeParse({ language: 'pt-BR' }).success).toBe(true);
+            expect(recordImpressionSchema.safeParse({}).success).toBe(true);
+            expect(recordImpressionSchema.safeParse({ language: 'visitor@example.com' }).success).toBe(false);
+        });
+    });
+
+    describe('summarize', () => {
+        const range = { from: '2026-03-01', to: '2026-03-03' };
+        const daily = [
+            row('2026-03-01', 'en', 'desktop', { impressions: 20, acceptAll: 8, rejectAll: 4, custom: 3 }),
+            row('2026-03-01', 'hi', 'mobile', { impressions: 10, acceptAll: 3, rejectAll: 3 }),
+            row('2026-03-03', 'en', 'mobile', { impressions: 6, acceptAll: 1, withdrawals: 1 }),
+            row('2026-03-03', 'ta', 'tablet', { impressions: 2, rejectAll: 1 }),
+        ];
+
+        it('should total the range and compute rates', () => {
+            const summary = analyticsService.summarize(WEBSITE_ID, range, daily, [
+                { purpose: 'analytics', granted: 12, denied: 8 },
+                { purpose: 'marketing', granted: 0, denied: 0 },
+            ]);
+
+            expect(summary.totals).toEqual({
+                impressions: 38,
+                decisions: 23,
+                acceptAll: 12,
+                rejectAll: 8,
+                custom: 3,
+                withdrawals: 1,
+                decisionRate: 0.6053,
+                acceptAllRate: 0.5217,
+                rejectAllRate: 0.3478,
+                customRate: 0.1304,
+            });
+            expect(summary.purposes).toEqual([
+                { purpose: 'analytics', granted: 12, denied: 8, optInRate: 0.6 },
+                { purpose: 'marketing', granted: 0, denied: 0, optInRate: null },
+            ]);
+        });
+
+        it('should list every day of the range in the trend', () => {
+            const { trend } = analyticsService.summarize(WEBSITE_ID, range, daily, []);
+            expect(trend.map((day) => [day.day, day.impressions, day.decisions])).toEqual([
+                ['2026-03-01', 30, 21],
+                ['2026-03-02', 0, 0],
+                ['2026-03-03', 8, 2],
+            ]);
+        });
+
+        it(`should fold languages and devices with fewer than ${MIN_SLICE_DECISIONS} decisions into other`, () => {
+            const summary = analyticsService.summarize(WEBSITE_ID, range, daily, []);
+
+            expect(summary.languages.map((slice) => [slice.key, slice.decisions])).toEqual([
+                ['en', 16],
+                ['hi', 6],
+                ['other', 1],
+            ]);
+            expect(summary.devices.map((slice) => [slice.key, slice.decisions])).toEqual([
+                ['desktop', 15],
+                ['mobile', 7],
+                ['other', 1],
+            ]);
+        });
+    });
+
+    describe('classifyDevice', () => {
+        it('should tell phones, tablets and desktops apart', () => {
+            expect(analyticsService.classifyDevice('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile/15E148')).toBe('mobile');
+            expect(analyticsService.classifyDevice('Mozilla/5.0 (Linux; Android 14; Pixel 8) Chrome/120.0 Mobile Safari/537.36')).toBe('mobile');
+            expect(analyticsService.classifyDevice('Mozilla/5.0 (Linux; Android 13; SM-X710) Chrome/120.0 Safari/537.36')).toBe('tablet');
+            expect(analyticsService.classifyDevice('Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X)')).toBe('tablet');
+            expect(analyticsService.classifyDevice('Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0')).toBe('desktop');
+            expect(analyticsService.classifyDevice(undefined)).toBe('unknown');
+        });
+    });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { LOADER_BUNDLE_DIR, loadPage, runtimeConfig, settle, waitForBanner } from './helpers/loader-page';
+
+jest.mock('../config', () => ({
+    config: {
+        rateLimits: { store: 'off' },
+        tcf: { cmpId: 0, cmpVersion: 1 },
+        loader: { bundleDir: LOADER_BUNDLE_DIR },
+        staticBundles: { store: '' },
+        telemetry: { sampleRate: 1 },
+    },
+}));
+
+const SITE_ID = '4f0c5a52-8a52-4d3b-9a6e-0c4d2f6a1b11';
+
+const mockConfig = runtimeConfig(SITE_ID, {
+    trackers: [
+        {
+            name: 'Google Analytics',
+            purpose: 'analytics',
+            domains: ['google-analytics.com'],
+            scripts: ['www.googletagmanager.com/gtag/js*'],
+        },
+    ],
+    blockingRules: [
+        { purpose: 'marketing', type: 'url', pattern: 'cdn.example.net/ads/*' },
+        { purpose: 'marketing', type: 'domain', pattern: 'pixel.adnet.test' },
+        { purpose: 'essential', type: 'domain', pattern: 'maps.essential.test' },
+    ],
+});
+
+jest.mock('../services/runtime.service', () => ({
+    runtimeService: { getWebsiteConfig: async () => mockConfig },
+}));
+
+// Static publishing is off; the database is never reached
+jest.mock('../repositories', () => ({}));
+
+import { loaderRoutes } from '../routes/loader.routes';
+
+let loaderScript = '';
+
+describe('Loader auto-blocking engine', () => {
+    let app: FastifyInstance;
+
+    beforeAll(async () => {
+        app = Fastify();
+        await app.register(loaderRoutes);
+        const response = await app.inject({ method: 'GET', url: `/public/loader.js?id=${SITE_ID}` });
+        loaderScript = response.body;
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    it('should inline the published blocking rules', () => {
+        expect(loaderScript).toContain('"pattern":"cdn.example.net/ads/*"');
+    });
+
+    it('should hold parser-inserted scripts, iframes and images matched by a rule', async () => {
+        const dom = loadPage(loaderScript, {
+            head: '<script id="ads" src="https://cdn.example.net/ads/tag.js"></script>',
+            body: '<iframe id="frame" src="https://pixel.adnet.test/frame"></iframe><img id="pixel" src="https://sub.pixel.adnet.test/p.gif">',
+        });
+        await settle();
+        const document = dom.window.document;
+
+        const script = document.getElementById('ads') as HTMLScriptElement;
+        expect(script.getAttribute('type')).toBe('text/plain');
+        expect(script.getAttribute('src')).toBeNull();
+        expect(script.getAttribute('data-src')).toBe('https://cdn.example.net/ads/tag.js');
+        expect(script.getAttribute('data-purpose')).toBe('marketing');
+
+        expect(document.getElementById('frame')?.getAttribute('src')).toBe('about:blank');
+        expect(document.getElementById('pixel')?.getAttribute('src')).toBeNull();
+        expect(document.getElementById('pixel')?.getAttribute('data-src')).toBe('https://sub.pixel.adnet.test/p.gif');
+        dom.window.close();
+    });
+
+    it('should hold src set through setAttribute and properties as it happens', () => {
+        const dom = loadPage(loaderScript);
+        const document = dom.window.document;
+
+        const script = document.createElement('script');
+        script.setAttribute('src', 'https://www.googletagmanager.com/gtag/js?id=G-1');
+        expect(script.getAttribute('src')).toBeNull();
+        expect(script.getAttribute('data-purpose')).toBe('analytics');
+
+        const image = new dom.window.Image();
+        image.src = 'https://www.google-analytics.com/collect?v=1';
+        expect(image.getAttribute('src')).toBeNull();
+        expect(image.getAttribute('data-src')).toBe('https://www.google-analytics.com/collect?v=1');
+
+        const iframe = document.createElement('iframe');
+        iframe.src = 'https://pixel.adnet.test/sync';
+        expect(iframe.getAttribute('src')).toBe('about:blank');
+        dom.window.close();
+    });
+
+    it('should hold markup injected with innerHTML and insertAdjacentHTML', async () => {
+        const dom = loadPage(loaderScript, { body: '<div id="slot"></div>' });
+        const document = dom.window.document;
+        const slot = document.getElementById('slot') as HTMLElement;
+
+        slot.innerHTML = '<img id="a" src="https://pixel.adnet.test/a.gif"><script id="b" src="https://cdn.example.net/ads/b.js"></script>';
+        slot.insertAdjacentHTML('beforeend', '<iframe id="c" src="https://cdn.example.net/ads/c.html"></iframe>');
+        await settle();
+
+        expect(document.getElementById('a')?.getAttribute('src')).toBeNull();
+        expect(document.getElementById('b')?.getAttribute('type')).toBe('text/plain');
+        expect(document.getElementById('c')?.getAttribute('src')).toBe('about:blank');
+        dom.window.close();
+    });
+
+    it('should leave unmatched resources and lookalike domains alone', async () => {
+        const dom = loadPage(loaderScript, {
+            head: '<script id="own" src="https://shop.example.com/app.js"></script>',
+            body: '<img id="lookalike" src="https://notpixel.adnet.test/p.gif"><img id="other" src="https://cdn.example.net/img/logo.png">',
+        });
+        await settle();
+        const document = dom.window.document;
+
+        expect(document.getElementById('own')?.getAttribute('type')).toBeNull();
+        expect(document.getElementById('lookalike')?.getAttribute('src')).toBe('https://notpixel.adnet.test/p.gif');
+        expect(document.getElementById('other')?.getAttribute('src')).toBe('https://cdn.example.net/img/logo.png');
+        dom.window.close();
+    });
+
+    it('should not touch scripts that are not executable', async () => {
+        const dom = loadPage(loaderScript, { head: '<script id="json" type="application/json" src="https://cdn.example.net/ads/data.json"></script>' });
+        await settle();
+
+        expect(dom.window.document.getElementById('json')?.getAttribute('src')).toBe('https://cdn.example.net/ads/data.json');
+        dom.window.close();
+    });
+
+    it('should release essential resources once the config loads', async () => {
+        const dom = loadPage(loaderScript, { body: '<iframe id="map" src="https://maps.essential.test/embed"></iframe>', config: mockConfig });
+        const iframe = dom.window.document.getElementById('map') as HTMLIFrameElement;
+
+        // Held while the config is on its way
+        await Promise.resolve();
+        expect(iframe.getAttribute('src')).toBe('about:blank');
+
+        await waitForBanner(dom);
+        expect(iframe.getAttribute('src')).toBe('https://maps.essential.test/embed');
+        dom.window.close();
+    });
+
+    it('should replay held resources after Accept All, once', async () => {
+        const dom = loadPage(loaderScript, {
+            head: '<script id="ads" src="https://cdn.example.net/ads/tag.js" async></script>',
+            body: '<iframe id="frame" src="https://pixel.adnet.test/frame"></iframe>',
+            config: mockConfig,
+        });
+        await waitForBanner(dom);
+        const document = dom.window.document;
+        expect(document.getElementById('frame')?.getAttribute('src')).toBe('about:blank');
+
+        // Created by code but not inserted yet
+        const detached = document.createElement('script');
+        detached.setAttribute('type', 'module');
+        detached.setAttribute('src', 'https://cdn.example.net/ads/late.js');
+
+        (document.getElementById('complyark-accept-btn') as HTMLButtonElement).click();
+
+        const replayed = document.querySelectorAll('script[data-complyark-replayed]');
+        expect(replayed).toHaveLength(1);
+        expect(replayed[0].getAttribute('src')).toBe('https://cdn.example.net/ads/tag.js');
+        expect(document.getElementById('ads')).toBeNull();
+        expect(document.getElementById('frame')?.getAttribute('src')).toBe('https://pixel.adnet.test/frame');
+
+        // The detached script keeps its identity, so its load handlers still fire
+        expect(detached.getAttribute('src')).toBe('https://cdn.example.net/ads/late.js');
+        expect(detached.getAttribute('type')).toBe('module');
+
+        // Consented now: new resources load straight away
+        const image = new dom.window.Image();
+        image.src = 'https://pixel.adnet.test/after.gif';
+        expect(image.getAttribute('src')).toBe('https://pixel.adnet.test/after.gif');
+        dom.window.close();
+    });
+});
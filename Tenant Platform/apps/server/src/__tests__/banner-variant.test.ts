@@ -0,0 +1,274 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { DOMWindow } from 'jsdom';
+import { LOADER_BUNDLE_DIR, loadPage, runtimeConfig, waitForBanner } from './helpers/loader-page';
+
+jest.mock('../config', () => ({
+    config: {
+        rateLimits: { store: 'off' },
+        tcf: { cmpId: 0, cmpVersion: 1 },
+        loader: { bundleDir: LOADER_BUNDLE_DIR },
+        staticBundles: { store: '' },
+        telemetry: { sampleRate: 1 },
+    },
+}));
+
+const SITE_ID = '3e8b6c1d-52f4-4a97-9d0e-7c2a1f6b4e85';
+const VARIANT_ID = 'a4f0c3b2-1d6e-4f85-b7a9-0e2c8d5f1b63';
+
+const baseConfig = runtimeConfig(SITE_ID);
+const variantBanner = {
+    ...baseConfig.banner,
+    position: 'top',
+    text: { en: { ...baseConfig.banner.text.en, headline: 'Your privacy, your choice' } },
+};
+const mockConfig = runtimeConfig(SITE_ID, {
+    bannerVariants: [{ id: VARIANT_ID, trafficPercent: 100, banner: variantBanner }],
+});
+
+jest.mock('../services/runtime.service', () => ({
+    runtimeService: { getWebsiteConfig: async () => mockConfig },
+}));
+
+const bannerVariantRepository = {
+    findActive: jest.fn(async () => [
+        { id: VARIANT_ID, name: 'Top bar', trafficPercent: 60, createdAt: new Date('2026-03-01T00:00:00Z') },
+    ]),
+};
+const telemetryRepository = {
+    summarizeVariants: jest.fn(async () => [
+        { variant: 'control', shown: 200, decisions: 150, acceptAll: 90, rejectAll: 50, optIns: 96, medianDecisionMs: 5400 },
+    ]),
+    insertEvents: jest.fn(async (..._args: unknown[]) => {}),
+};
+const websiteRepository = {
+    findByIdAndTenant: jest.fn(async () => ({ id: SITE_ID })),
+    findById: jest.fn(async () => ({ id: SITE_ID, status: 'ACTIVE' })),
+};
+
+// Sums as pg returns them for the real telemetry repository: bigint as strings
+const query = jest.fn(async (..._args: unknown[]) => ({
+    rows: [{ variant: VARIANT_ID, shown: '3000000000', decisions: '2', acceptAll: '1', rejectAll: '1', optIns: '1', medianDecisionMs: 800 }],
+}));
+
+jest.mock('../db', () => ({ query: (...args: unknown[]) => query(...args) }));
+
+jest.mock('../repositories', () => ({ bannerVariantRepository, telemetryRepository, websiteRepository }));
+
+import { loaderRoutes } from '../routes/loader.routes';
+import { bannerVariantService } from '../services/banner-variant.service';
+import { telemetryService } from '../services/telemetry.service';
+import { bannerVariantSchema } from '../validators/banner.validator';
+import { BannerCustomizationInput } from '../validators';
+
+const baseStyles = {
+    primaryColor: '#0066CC',
+    secondaryColor: '#666666',
+    backgroundColor: '#FFFFFF',
+    textColor: '#333333',
+    acceptButtonColor: '#0066CC',
+    rejectButtonColor: '#0066CC',
+    acceptButtonText: 'Accept All',
+    rejectButtonText: 'Reject All',
+    customizeButtonText: 'Customize',
+    position: 'bottom',
+    layout: 'banner',
+} as BannerCustomizationInput;
+
+const baseText = {
+    en: { headline: 'Cookies', description: 'We use cookies', acceptButton: 'Accept All', rejectButton: 'Reject All', preferencesButton: 'Customize' },
+    hi: { headline: 'कुकीज़', description: 'हम कुकीज़ का उपयोग करते हैं', acceptButton: 'सभी स्वीकारें', rejectButton: 'सभी अस्वीकारें', preferencesButton: 'अनुकूलित करें' },
+};
+
+describe('Banner variants', () => {
+    describe('bannerVariantSchema', () => {
+        it('should accept style and text overrides', () => {
+            const input = { name: 'Top bar', trafficPercent: 50, styles: { position: 'top' }, text: { en: { headline: 'Hello' } } };
+            expect(bannerVariantSchema.parse(input)).toEqual(input);
+            expect(bannerVariantSchema.parse({ name: 'Plain', trafficPercent: 10 })).toEqual({
+                name: 'Plain',
+                trafficPercent: 10,
+                styles: {},
+                text: {},
+            });
+        });
+
+        it('should refuse unknown fields and traffic outside 1-100%', () => {
+            expect(bannerVariantSchema.safeParse({ name: 'A', trafficPercent: 0 }).success).toBe(false);
+            expect(bannerVariantSchema.safeParse({ name: 'A', trafficPercent: 101 }).success).toBe(false);
+            expect(bannerVariantSchema.safeParse({ name: 'A', trafficPercent: 10, styles: { acceptButtonText: 'OK' } }).success).toBe(false);
+            expect(bannerVariantSchema.safeParse({ name: 'A', trafficPercent: 10, text: { en: { closeButton: 'x' } } }).success).toBe(false);
+        });
+    });
+
+    describe('dark pattern guardrails', () => {
+        it('should pass a variant that keeps both buttons equal', () => {
+            const merged = bannerVariantService.merge(baseStyles, baseText, {
+                styles: { position: 'top', acceptButtonColor: '#111111', rejectButtonColor: '#111111' },
+                text: { en: { headline: 'Your privacy' } },
+            });
+
+            expect(merged.styles.position).toBe('top');
+            expect(merged.text.en.headline).toBe('Your privacy');
+            expect(merged.text.hi).toEqual(baseText.hi);
+            expect(() => bannerVariantService.validate(merged)).not.toThrow();
+        });
+
+        it('should refuse a variant that makes rejecting less prominent', () => {
+            const colors = bannerVariantService.merge(baseStyles, baseText, {
+                styles: { rejectButtonColor: '#CCCCCC' },
+                text: {},
+            });
+            expect(() => bannerVariantService.validate(colors)).toThrow('Accept and Reject buttons must have the same color (en)');
+
+            const text = bannerVariantService.merge(baseStyles, baseText, {
+                styles: {},
+                text: { hi: { rejectButton: 'ना' } },
+            });
+            expect(() => bannerVariantService.validate(text)).toThrow(/\(hi\)$/);
+        });
+
+        it('should keep the traffic split within 100%', async () => {
+            await expect(
+                bannerVariantService.checkVariant(SITE_ID, 'tenant', { name: 'Modal', trafficPercent: 50, styles: {}, text: {} }, null)
+            ).rejects.toMatchObject({ statusCode: 400, message: expect.stringContaining('110%') });
+        });
+    });
+
+    describe('getResults', () => {
+        it('should report every arm, the default banner taking the remaining traffic', async () => {
+            const results = await bannerVariantService.getResults(SITE_ID, 'tenant');
+
+            expect(telemetryRepository.summarizeVariants).toHaveBeenCalledWith(SITE_ID, new Date('2026-03-01T00:00:00Z'));
+            expect(results.variants).toEqual([
+                expect.objectContaining({
+                    variantId: 'control',
+                    trafficPercent: 40,
+                    shown: 200,
+                    consentRate: 0.48,
+                    decisionRate: 0.75,
+                    medianDecisionMs: 5400,
+                }),
+                expect.objectContaining({
+                    variantId: VARIANT_ID,
+                    name: 'Top bar',
+                    trafficPercent: 60,
+                    shown: 0,
+                    consentRate: null,
+                    medianDecisionMs: null,
+                }),
+            ]);
+        });
+    });
+
+    describe('variant telemetry', () => {
+        it('should ignore a forged sample rate in the batch', async () => {
+            await telemetryService.recordBatch(SITE_ID, {
+                sampleRate: 1e-9,
+                variant: VARIANT_ID,
+                events: [{ event: 'DECISION', action: 'ACCEPT_ALL', optIn: true, decisionMs: 800 }],
+            });
+
+            expect(telemetryRepository.insertEvents).toHaveBeenCalledWith(
+                SITE_ID,
+                expect.objectContaining({ sampleRate: 1, variant: VARIANT_ID }),
+                [expect.objectContaining({ event: 'DECISION', action: 'ACCEPT_ALL' })]
+            );
+        });
+
+        it('should sum variant outcomes past the int range', async () => {
+            const { telemetryRepository: repository } = jest.requireActual<typeof import('../repositories/telemetry.repository')>(
+                '../repositories/telemetry.repository'
+            );
+            const rows = await repository.summarizeVariants(SITE_ID, new Date('2026-03-01T00:00:00Z'));
+
+            expect(query.mock.calls[0][0]).not.toMatch(/::int as/);
+            expect(rows).toEqual([
+                { variant: VARIANT_ID, shown: 3000000000, decisions: 2, acceptAll: 1, rejectAll: 1, optIns: 1, medianDecisionMs: 800 },
+            ]);
+        });
+    });
+
+    describe('loader', () => {
+        let app: FastifyInstance;
+        let loaderScript = '';
+
+        beforeAll(async () => {
+            app = Fastify();
+            await app.register(loaderRoutes);
+            const response = await app.inject({ method: 'GET', url: `/public/loader.js?id=${SITE_ID}` });
+            loaderScript = response.body;
+        });
+
+        afterAll(async () => {
+            await app.close();
+        });
+
+        // Records beacons and XHR bodies; storage holds what an earlier page view left
+        const load = (storage: Record<string, string> = {}) => {
+            const beacons: string[] = [];
+            const posts: string[] = [];
+            const dom = loadPage(loaderScript, {
+                config: mockConfig,
+                beforeLoader(window: DOMWindow) {
+                    for (const [key, value] of Object.entries(storage)) {
+                        window.localStorage.setItem(key, value);
+                    }
+                    (window.navigator as unknown as { sendBeacon: unknown }).sendBeacon = (url: string, body: string) => {
+                        beacons.push(body);
+                        return true;
+                    };
+                    const xhr = (window as unknown as { XMLHttpRequest: { prototype: { send(body?: string): void } } }).XMLHttpRequest;
+                    const send = xhr.prototype.send;
+                    xhr.prototype.send = function (this: unknown, body?: string) {
+                        if (body) posts.push(body);
+                        send.call(this, body);
+                    };
+                },
+            });
+            return { dom, beacons, posts };
+        };
+
+        it('should assign a sticky variant and report it with the decision', async () => {
+            const { dom, beacons, posts } = load();
+            await waitForBanner(dom);
+
+            const { document, localStorage } = dom.window;
+            expect(document.body.textContent).toContain('Your privacy, your choice');
+            expect(JSON.parse(localStorage.getItem('__complyark_variant__') as string)).toEqual({
+                experiment: VARIANT_ID,
+                variant: VARIANT_ID,
+            });
+
+            (document.getElementById('complyark-accept-btn') as HTMLElement).click();
+            dom.window.dispatchEvent(new dom.window.Event('pagehide'));
+
+            const consent = posts.map((body) => JSON.parse(body)).find((body) => body.action);
+            expect(consent).toMatchObject({ action: 'ACCEPT_ALL', bannerVariant: VARIANT_ID });
+
+            const batch = JSON.parse(beacons[0]);
+            expect(batch.variant).toBe(VARIANT_ID);
+            expect(batch.events).toEqual([
+                { event: 'BANNER_SHOWN', language: 'en' },
+                { event: 'DECISION', language: 'en', action: 'ACCEPT_ALL', optIn: true, decisionMs: expect.any(Number) },
+            ]);
+        });
+
+        it('should keep an earlier assignment to the default banner', async () => {
+            const { dom, beacons } = load({
+                __complyark_variant__: JSON.stringify({ experiment: VARIANT_ID, variant: 'control' }),
+            });
+            await waitForBanner(dom);
+
+            const { document } = dom.window;
+            expect(document.body.textContent).toContain('We value your privacy');
+
+            (document.getElementById('complyark-reject-btn') as HTMLElement).click();
+            dom.window.dispatchEvent(new dom.window.Event('pagehide'));
+
+            const batch = JSON.parse(beacons[0]);
+            expect(batch.variant).toBe('control');
+            expect(batch.events[1]).toMatchObject({ event: 'DECISION', action: 'REJECT_ALL', optIn: false });
+        });
+    });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from '@jest/globals';
+import { blockingRuleSchema, blockingRuleIdParamSchema } from '../validators/blocking-rule.validator';
+
+const WEBSITE_ID = '3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e';
+
+describe('Blocking Rule Validators', () => {
+    describe('blockingRuleSchema', () => {
+        it('should normalize domain patterns', () => {
+            const result = blockingRuleSchema.safeParse({ purposeTag: 'marketing', matchType: 'DOMAIN', pattern: ' *.Ads.Example.com ' });
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data.pattern).toBe('ads.example.com');
+            }
+            expect(blockingRuleSchema.safeParse({ purposeTag: 'marketing', matchType: 'DOMAIN', pattern: 'https://ads.example.com/x' }).success).toBe(false);
+        });
+
+        it('should strip the scheme from URL patterns and refuse broad ones', () => {
+            const result = blockingRuleSchema.safeParse({ purposeTag: 'analytics', matchType: 'URL', pattern: 'https://cdn.example.com/tag/*' });
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data.pattern).toBe('cdn.example.com/tag/*');
+            }
+            expect(blockingRuleSchema.safeParse({ purposeTag: 'analytics', matchType: 'URL', pattern: '*.js*' }).success).toBe(false);
+            expect(blockingRuleSchema.safeParse({ purposeTag: 'analytics', matchType: 'URL', pattern: 'cdn.example.com/a b' }).success).toBe(false);
+        });
+
+        it('should require a purpose and a known match type', () => {
+            expect(blockingRuleSchema.safeParse({ matchType: 'URL', pattern: 'cdn.example.com/x' }).success).toBe(false);
+            expect(blockingRuleSchema.safeParse({ purposeTag: 'ads', matchType: 'COOKIE', pattern: '_fbp' }).success).toBe(false);
+        });
+    });
+
+    describe('blockingRuleIdParamSchema', () => {
+        it('should require UUIDs', () => {
+            expect(blockingRuleIdParamSchema.safeParse({ id: WEBSITE_ID, ruleId: WEBSITE_ID }).success).toBe(true);
+            expect(blockingRuleIdParamSchema.safeParse({ id: WEBSITE_ID, ruleId: '7' }).success).toBe(false);
+        });
+    });
+});
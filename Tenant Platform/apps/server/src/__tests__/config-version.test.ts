@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import * as crypto from 'crypto';
+import { ConfigChangeType, ConfigSnapshot } from '../types';
+
+const SITE_ID = '3b7e1d9f-5c2a-4f86-9e04-6a1d8c3b7f52';
+const TENANT_ID = 'e9c5a1f3-7d2b-4e68-b0f4-1a8e6c3d9b27';
+const ACTOR_ID = '4d8f2b6e-0a3c-4971-8e5d-7b1f9c2a6e40';
+const REQUEST_INFO = { ipAddress: '203.0.113.9', userAgent: 'jest' };
+
+type Purpose = {
+    key: string;
+    version: string;
+    required: boolean;
+    displayOrder: number;
+    labels: Record<string, { title: string; description: string }>;
+};
+type StoredVersion = {
+    version: number;
+    contentHash: string;
+    changeType: ConfigChangeType;
+    addedPurposes: string[];
+    snapshot: ConfigSnapshot;
+};
+
+// website_config_versions of the website, oldest first
+let versions: StoredVersion[] = [];
+let notice: Record<string, { title: string; description: string }> | null = null;
+let purposes: Purpose[] = [];
+
+const configVersionRepository = {
+    findLatest: jest.fn(async (_websiteId: string) => versions[versions.length - 1] || null),
+    create: jest.fn(async (data: Omit<StoredVersion, 'version'> & { websiteId: string; createdBy: string }) => {
+        const stored = {
+            version: versions.length + 1,
+            contentHash: data.contentHash,
+            changeType: data.changeType,
+            addedPurposes: data.addedPurposes,
+            snapshot: data.snapshot,
+        };
+        versions.push(stored);
+        return stored;
+    }),
+};
+const auditRepository = {
+    create: jest.fn(async (..._args: unknown[]) => undefined),
+};
+
+jest.mock('../repositories', () => ({ configVersionRepository, auditRepository, websiteRepository: {} }));
+jest.mock('../services/runtime.service', () => ({
+    runtimeService: {
+        getNoticeTranslations: async () => notice,
+        getPurposesWithTranslations: async () => purposes,
+    },
+}));
+
+import { configVersionService } from '../services/config-version.service';
+
+const purpose = (key: string, displayOrder: number, title = key): Purpose => ({
+    key,
+    version: `2026-01-0${displayOrder + 1}T00:00:00.000Z`,
+    required: key === 'essential',
+    displayOrder,
+    labels: { en: { title, description: `${key} purpose` } },
+});
+
+const recordChange = (changeType: ConfigChangeType) =>
+    configVersionService.recordChange(SITE_ID, TENANT_ID, ACTOR_ID, changeType, REQUEST_INFO);
+
+describe('Config versions', () => {
+    beforeEach(() => {
+        versions = [];
+        notice = { en: { title: 'Privacy notice', description: 'How we use your data' } };
+        purposes = [purpose('essential', 0), purpose('analytics', 1)];
+        jest.clearAllMocks();
+    });
+
+    describe('configVersionService.buildSnapshot', () => {
+        it('should keep only what a visitor agrees to, with purposes sorted by key', async () => {
+            const snapshot = await configVersionService.buildSnapshot(SITE_ID);
+
+            expect(snapshot).toEqual({
+                notice: { en: { title: 'Privacy notice', description: 'How we use your data' } },
+                purposes: [
+                    { key: 'analytics', required: false, labels: { en: { title: 'analytics', description: 'analytics purpose' } } },
+                    { key: 'essential', required: true, labels: { en: { title: 'essential', description: 'essential purpose' } } },
+                ],
+            });
+        });
+
+        it('should use an empty notice when the website has none', async () => {
+            notice = null;
+            expect((await configVersionService.buildSnapshot(SITE_ID)).notice).toEqual({});
+        });
+    });
+
+    describe('configVersionService.hashSnapshot', () => {
+        const snapshot: ConfigSnapshot = {
+            notice: { en: { title: 'Notice', description: 'Text' } },
+            purposes: [{ key: 'analytics', required: false, labels: { en: { title: 'Analytics', description: 'Stats' } } }],
+        };
+
+        it('should hash the canonical JSON of the snapshot with SHA-256', () => {
+            const canonical =
+                '{"notice":{"en":{"description":"Text","title":"Notice"}},' +
+                '"purposes":[{"key":"analytics","labels":{"en":{"description":"Stats","title":"Analytics"}},"required":false}]}';
+
+            expect(configVersionService.hashSnapshot(snapshot))
+                .toBe(crypto.createHash('sha256').update(canonical).digest('hex'));
+        });
+
+        it('should not depend on key order', () => {
+            const reordered: ConfigSnapshot = {
+                purposes: [{ labels: { en: { description: 'Stats', title: 'Analytics' } }, required: false, key: 'analytics' }],
+                notice: { en: { description: 'Text', title: 'Notice' } },
+            };
+            expect(configVersionService.hashSnapshot(reordered)).toBe(configVersionService.hashSnapshot(snapshot));
+        });
+
+        it('should change with any visitor-facing text', () => {
+            const edited: ConfigSnapshot = {
+                ...snapshot,
+                purposes: [{ ...snapshot.purposes[0], labels: { en: { title: 'Analytics', description: 'Statistics' } } }],
+            };
+            expect(configVersionService.hashSnapshot(edited)).not.toBe(configVersionService.hashSnapshot(snapshot));
+        });
+    });
+
+    describe('configVersionService.recordChange', () => {
+        it('should record the first version with the change type given', async () => {
+            const version = await recordChange('MINOR');
+
+            expect(version).toMatchObject({ version: 1, changeType: 'MINOR', addedPurposes: [] });
+            expect(version!.contentHash).toBe(configVersionService.hashSnapshot(version!.snapshot));
+            expect(auditRepository.create).toHaveBeenCalledWith(TENANT_ID, ACTOR_ID, 'CONFIG_VERSION_CREATED', {
+                resourceType: 'website',
+                resourceId: SITE_ID,
+                metadata: { version: 1, changeType: 'MINOR', requestedChangeType: 'MINOR', contentHash: version!.contentHash, addedPurposes: [] },
+                ipAddress: REQUEST_INFO.ipAddress,
+                userAgent: REQUEST_INFO.userAgent,
+            });
+        });
+
+        it('should record nothing when visitor-facing content is unchanged', async () => {
+            await recordChange('MATERIAL');
+            jest.clearAllMocks();
+
+            // Reordering purposes and new version stamps change nothing a visitor agrees to
+            purposes = [{ ...purpose('analytics', 0), version: '2026-02-01T00:00:00.000Z' }, purpose('essential', 1)];
+
+            expect(await recordChange('MATERIAL')).toBeNull();
+            expect(configVersionRepository.create).not.toHaveBeenCalled();
+            expect(auditRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should keep existing consent valid after a MINOR edit', async () => {
+            await recordChange('MATERIAL');
+            purposes = [purpose('essential', 0), purpose('analytics', 1, 'Analytics')];
+
+            const version = await recordChange('MINOR');
+
+            expect(version).toMatchObject({ version: 2, changeType: 'MINOR', addedPurposes: [] });
+        });
+
+        it('should ask for consent again after a MATERIAL edit', async () => {
+            await recordChange('MATERIAL');
+            notice = { en: { title: 'Privacy notice', description: 'We now share data with partners' } };
+
+            const version = await recordChange('MATERIAL');
+
+            expect(version).toMatchObject({ version: 2, changeType: 'MATERIAL' });
+        });
+
+        it('should make adding an optional purpose MATERIAL whatever the tenant chose', async () => {
+            await recordChange('MATERIAL');
+            purposes = [...purposes, purpose('marketing', 2)];
+
+            const version = await recordChange('MINOR');
+
+            expect(version).toMatchObject({ version: 2, changeType: 'MATERIAL', addedPurposes: ['marketing'] });
+            expect(auditRepository.create).toHaveBeenLastCalledWith(TENANT_ID, ACTOR_ID, 'CONFIG_VERSION_CREATED', expect.objectContaining({
+                metadata: expect.objectContaining({ changeType: 'MATERIAL', requestedChangeType: 'MINOR', addedPurposes: ['marketing'] }),
+            }));
+        });
+
+        it('should leave adding a required purpose or removing one to the tenant', async () => {
+            await recordChange('MATERIAL');
+            purposes = [purpose('essential', 0), { ...purpose('security', 1), required: true }];
+
+            const version = await recordChange('MINOR');
+
+            // analytics was removed and security is required: nothing new to consent to
+            expect(version).toMatchObject({ version: 2, changeType: 'MINOR', addedPurposes: [] });
+        });
+    });
+});
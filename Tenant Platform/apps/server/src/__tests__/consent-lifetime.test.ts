@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ConsentLifetimeSettings, GlobalRules } from '../types';
+
+jest.mock('../config', () => ({
+    config: {
+        consent: { lifetime: { defaultDays: 365, maxDays: 730, minRejectDays: 1 } },
+        runtimeCache: { store: 'memory', rulesCheckSeconds: 30 },
+    },
+}));
+
+const SITE_ID = '6c2f8a4e-1d7b-4e93-a5c0-9b3e7d1f4a68';
+const TENANT_ID = 'b8d4f0a2-5e1c-4a76-9c3b-2f7a1e5d8c04';
+const ACTOR_ID = '1e9a5c3f-7b2d-4f48-8a6e-0d4c9b7f2e15';
+const REQUEST_INFO = { ipAddress: '203.0.113.4', userAgent: 'jest' };
+
+let activeRules: GlobalRules | null = null;
+let settings: ConsentLifetimeSettings | null = null;
+
+const websiteRepository = {
+    findByIdAndTenant: jest.fn(async (id: string) => ({ id, tenantId: TENANT_ID, domain: 'shop.example.com', status: 'ACTIVE' })),
+    findConsentLifetime: jest.fn(async (_id: string) => settings),
+    updateConsentLifetime: jest.fn(async (_id: string, input: ConsentLifetimeSettings) => {
+        settings = input;
+        return settings;
+    }),
+};
+const globalRulesRepository = {
+    findActive: jest.fn(async () => activeRules),
+};
+const auditRepository = {
+    create: jest.fn(async (..._args: unknown[]) => undefined),
+};
+
+jest.mock('../repositories', () => ({ websiteRepository, globalRulesRepository, auditRepository }));
+
+const runtimeService = {
+    invalidate: jest.fn(async (_siteId: string) => undefined),
+    invalidateAll: jest.fn(async () => 2),
+};
+const staticBundleService = {
+    isEnabled: jest.fn(() => false),
+    refresh: jest.fn(async (_siteId: string) => undefined),
+    syncAll: jest.fn(async () => ({ written: 2, failed: 0 })),
+};
+
+jest.mock('../services/runtime.service', () => ({ runtimeService }));
+jest.mock('../services/static-bundle.service', () => ({ staticBundleService }));
+
+// The services the job uses, without the rest of the barrel
+jest.mock('../services', () => ({
+    ...(jest.requireActual('../services/consent-lifetime.service') as object),
+    runtimeService,
+    staticBundleService,
+}));
+
+import { consentLifetimeService } from '../services/consent-lifetime.service';
+import { globalRulesJob } from '../jobs/global-rules.job';
+
+const rules = (version: number, consentLifetime: Record<string, unknown>): GlobalRules => ({
+    id: `rules-${version}`,
+    version,
+    rulesJson: { consent_lifetime: consentLifetime },
+});
+
+const update = (consentLifetimeDays: number | null, rejectLifetimeDays: number | null) =>
+    consentLifetimeService.update(SITE_ID, TENANT_ID, ACTOR_ID, { consentLifetimeDays, rejectLifetimeDays }, REQUEST_INFO);
+
+describe('Consent lifetime', () => {
+    beforeEach(() => {
+        activeRules = null;
+        settings = null;
+        jest.clearAllMocks();
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    describe('consentLifetimeService.getLimits', () => {
+        it('should use the platform defaults without global rules', async () => {
+            expect(await consentLifetimeService.getLimits()).toEqual({
+                rulesVersion: undefined,
+                defaultDays: 365,
+                maxDays: 730,
+                minRejectDays: 1,
+            });
+        });
+
+        it('should take the limits of the active global rules, keeping the default within the maximum', async () => {
+            activeRules = rules(4, { max_days: 180, min_reject_days: 30 });
+
+            expect(await consentLifetimeService.getLimits()).toEqual({
+                rulesVersion: 4,
+                defaultDays: 180,
+                maxDays: 180,
+                minRejectDays: 30,
+            });
+        });
+
+        it('should ignore invalid rules', async () => {
+            activeRules = rules(5, { max_days: -1 });
+
+            expect(await consentLifetimeService.getLimits()).toMatchObject({ rulesVersion: 5, maxDays: 730 });
+            expect(console.warn).toHaveBeenCalled();
+        });
+    });
+
+    describe('consentLifetimeService.getEffective', () => {
+        it('should cap a lifetime saved under looser rules by the global maximum', async () => {
+            settings = { consentLifetimeDays: 400, rejectLifetimeDays: 200 };
+            activeRules = rules(2, { max_days: 90 });
+
+            expect(await consentLifetimeService.getEffective(SITE_ID)).toEqual({ consentLifetimeDays: 90, rejectLifetimeDays: 90 });
+        });
+
+        it('should give reject decisions their own lifetime', async () => {
+            settings = { consentLifetimeDays: 365, rejectLifetimeDays: 30 };
+
+            expect(await consentLifetimeService.getEffective(SITE_ID)).toEqual({ consentLifetimeDays: 365, rejectLifetimeDays: 30 });
+        });
+
+        it('should keep rejections as long as consent when no reject lifetime is set', async () => {
+            settings = { consentLifetimeDays: 200, rejectLifetimeDays: null };
+
+            expect(await consentLifetimeService.getEffective(SITE_ID)).toEqual({ consentLifetimeDays: 200, rejectLifetimeDays: 200 });
+        });
+
+        it('should keep rejections for at least the global minimum', async () => {
+            settings = { consentLifetimeDays: 365, rejectLifetimeDays: 30 };
+            activeRules = rules(3, { min_reject_days: 90 });
+
+            expect(await consentLifetimeService.getEffective(SITE_ID)).toEqual({ consentLifetimeDays: 365, rejectLifetimeDays: 90 });
+        });
+
+        it('should use the default lifetime for a website without settings', async () => {
+            activeRules = rules(3, { default_days: 180 });
+
+            expect(await consentLifetimeService.getEffective(SITE_ID)).toEqual({ consentLifetimeDays: 180, rejectLifetimeDays: 180 });
+        });
+    });
+
+    describe('consentLifetimeService.update', () => {
+        it('should save the lifetimes and evict the cached config', async () => {
+            const lifetime = await update(365, 30);
+
+            expect(lifetime.effective).toEqual({ consentLifetimeDays: 365, rejectLifetimeDays: 30 });
+            expect(auditRepository.create).toHaveBeenCalledWith(TENANT_ID, ACTOR_ID, 'WEBSITE_CONSENT_LIFETIME_UPDATED', expect.objectContaining({
+                resourceId: SITE_ID,
+            }));
+            expect(runtimeService.invalidate).toHaveBeenCalledWith(SITE_ID);
+            expect(staticBundleService.refresh).toHaveBeenCalledWith(SITE_ID);
+        });
+
+        it('should answer 400 for lifetimes outside the global rules', async () => {
+            activeRules = rules(2, { max_days: 180, min_reject_days: 14 });
+
+            await expect(update(365, null)).rejects.toMatchObject({
+                statusCode: 400,
+                message: 'Consent lifetime must not exceed 180 days under the active global rules',
+            });
+            await expect(update(null, 7)).rejects.toMatchObject({
+                statusCode: 400,
+                message: 'Reject lifetime must be at least 14 days under the active global rules',
+            });
+            expect(websiteRepository.updateConsentLifetime).not.toHaveBeenCalled();
+            expect(runtimeService.invalidate).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('globalRulesJob', () => {
+        it('should evict every cached config when another rules version is activated', async () => {
+            activeRules = rules(1, { max_days: 365 });
+            // The first check only notes the active version
+            expect(await globalRulesJob.run()).toBe(false);
+            expect(await globalRulesJob.run()).toBe(false);
+            expect(runtimeService.invalidateAll).not.toHaveBeenCalled();
+
+            activeRules = rules(2, { max_days: 90 });
+            expect(await globalRulesJob.run()).toBe(true);
+            expect(runtimeService.invalidateAll).toHaveBeenCalledTimes(1);
+            expect(staticBundleService.syncAll).not.toHaveBeenCalled();
+
+            // Deactivating every version is a change too, and rewrites static files when enabled
+            activeRules = null;
+            staticBundleService.isEnabled.mockReturnValue(true);
+            expect(await globalRulesJob.run()).toBe(true);
+            expect(runtimeService.invalidateAll).toHaveBeenCalledTimes(2);
+            expect(staticBundleService.syncAll).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { JSDOM, VirtualConsole } from 'jsdom';
+import { runtimeConfig } from './helpers/loader-page';
+
+jest.mock('../config', () => ({
+    config: {
+        consent: { ipHashSalt: 'test-ip-salt', receiptSecret: 'test-receipt-secret' },
+        rateLimits: { store: 'off', bodyLimits: { consent: 16384, rights: 32768 } },
+        runtimeOrigins: { mode: 'off' },
+    },
+}));
+
+const SITE_ID = '2c9e4a71-5d3b-4f08-b6e2-9a1d7c4f3e85';
+const TENANT_ID = 'a7d3f9b1-8e2c-4b56-9d04-1f6e3a8c5b27';
+const VISITOR_ID = '6e1b9d4f-2a7c-4e35-8f90-5c3d7a2b1e64';
+
+type StoredRecord = Record<string, unknown> & { decisions: Record<string, boolean>; createdAt: Date };
+
+const consentRepository = {
+    create: jest.fn(async (data: Record<string, unknown>) => data as StoredRecord),
+    findLatestByVisitor: jest.fn(async (..._args: unknown[]): Promise<StoredRecord | null> => null),
+    findByVisitor: jest.fn(async (..._args: unknown[]): Promise<StoredRecord[]> => []),
+};
+const websiteRepository = {
+    findById: jest.fn(async (id: string): Promise<Record<string, unknown> | null> => (
+        { id, tenantId: TENANT_ID, domain: 'shop.example.com', status: 'ACTIVE' }
+    )),
+};
+
+jest.mock('../repositories', () => ({ consentRepository, websiteRepository }));
+
+const runtimeService = {
+    getWebsiteConfig: jest.fn(async (siteId: string): Promise<Record<string, unknown> | null> => runtimeConfig(siteId)),
+};
+
+jest.mock('../services/runtime.service', () => ({ runtimeService }));
+jest.mock('../services/webhook.service', () => ({ webhookService: { dispatch: jest.fn(async () => {}) } }));
+
+import { consentManagerRoutes } from '../routes/consent-manager.routes';
+import { runtimeRoutes } from '../routes/runtime.routes';
+import { errorHandler } from '../middleware/error.middleware';
+import { consentService } from '../services/consent.service';
+
+const record = (id: string, action: string, decisions: Record<string, boolean>, createdAt: string): StoredRecord => ({
+    id,
+    websiteId: SITE_ID,
+    visitorId: VISITOR_ID,
+    action,
+    decisions,
+    purposeVersions: {},
+    receiptId: `CR-${id.toUpperCase().padStart(16, '0')}`,
+    createdAt: new Date(createdAt),
+});
+
+// Accepted everything, then withdrew marketing
+const HISTORY = [
+    record('a1', 'ACCEPT_ALL', { essential: true, analytics: true, marketing: true }, '2026-03-01T10:00:00Z'),
+    record('b2', 'WITHDRAW', { essential: true, analytics: true, marketing: false }, '2026-03-05T10:00:00Z'),
+];
+
+const pageUrl = (visitor = VISITOR_ID) => `/public/consents/${SITE_ID}?visitor=${visitor}`;
+
+let app: FastifyInstance;
+
+describe('My Consents page', () => {
+    beforeAll(async () => {
+        app = Fastify();
+        app.setErrorHandler(errorHandler);
+        await app.register(runtimeRoutes);
+        await app.register(consentManagerRoutes);
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        consentRepository.create.mockClear();
+        consentRepository.findByVisitor.mockResolvedValue(HISTORY);
+        consentRepository.findLatestByVisitor.mockResolvedValue(HISTORY[HISTORY.length - 1]);
+        websiteRepository.findById.mockClear();
+        runtimeService.getWebsiteConfig.mockImplementation(async (siteId: string) => runtimeConfig(siteId));
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    describe('consentService.getVisitorState', () => {
+        it('should give each purpose its current state and since when it holds', async () => {
+            const state = await consentService.getVisitorState(SITE_ID, VISITOR_ID);
+
+            expect(consentRepository.findByVisitor).toHaveBeenCalledWith(SITE_ID, VISITOR_ID);
+            expect(state.purposes).toEqual([
+                { key: 'essential', title: 'essential', description: 'essential purpose', required: true, granted: true, since: HISTORY[0].createdAt },
+                { key: 'analytics', title: 'analytics', description: 'analytics purpose', required: false, granted: true, since: HISTORY[0].createdAt },
+                { key: 'marketing', title: 'marketing', description: 'marketing purpose', required: false, granted: false, since: HISTORY[1].createdAt },
+            ]);
+            // Newest first
+            expect(state.history.map((entry) => entry.id)).toEqual(['b2', 'a1']);
+            expect(state.updatedAt).toEqual(HISTORY[1].createdAt);
+        });
+
+        it('should show nothing as granted but essential purposes for a new visitor', async () => {
+            consentRepository.findByVisitor.mockResolvedValue([]);
+
+            const state = await consentService.getVisitorState(SITE_ID, VISITOR_ID);
+            expect(state.purposes.map((purpose) => purpose.granted)).toEqual([true, false, false]);
+            expect(state.history).toEqual([]);
+            expect(state.updatedAt).toBeUndefined();
+        });
+    });
+
+    describe('GET /public/consents/:siteId', () => {
+        it('should list each purpose and offer withdrawal of granted optional ones only', async () => {
+            const response = await app.inject({ method: 'GET', url: pageUrl() });
+
+            expect(response.statusCode).toBe(200);
+            expect(response.headers['content-type']).toBe('text/html; charset=utf-8');
+            expect(response.headers['cache-control']).toBe('no-store');
+            expect(response.headers['referrer-policy']).toBe('no-referrer');
+
+            const { document } = new JSDOM(response.body).window;
+            const buttons = Array.from(document.querySelectorAll('button[data-withdraw]'));
+            expect(buttons.map((button) => button.getAttribute('data-withdraw'))).toEqual(['analytics']);
+            expect(document.querySelector('button[data-withdraw-all]')).not.toBeNull();
+            expect(Array.from(document.querySelectorAll('tbody td:last-child')).map((cell) => cell.textContent))
+                .toEqual([HISTORY[1].receiptId, HISTORY[0].receiptId]);
+        });
+
+        it('should escape the labels and domain it shows', async () => {
+            const payload = '<img src=x onerror="alert(1)">';
+            websiteRepository.findById.mockResolvedValueOnce({ id: SITE_ID, tenantId: TENANT_ID, domain: `shop.example.com${payload}`, status: 'ACTIVE' });
+            const config = runtimeConfig(SITE_ID);
+            config.purposes[1].labels = { en: { title: `Analytics ${payload}`, description: `</script><script>alert(2)</script>` } };
+            runtimeService.getWebsiteConfig.mockResolvedValueOnce(config);
+
+            const response = await app.inject({ method: 'GET', url: pageUrl() });
+
+            expect(response.body).not.toContain(payload);
+            expect(response.body).not.toContain('<script>alert(2)');
+            const { document } = new JSDOM(response.body).window;
+            expect(document.querySelectorAll('img')).toHaveLength(0);
+            expect(document.querySelectorAll('script')).toHaveLength(1);
+            expect(document.querySelector('.purpose:nth-of-type(2) .purpose-title')?.textContent).toContain(`Analytics ${payload}`);
+            expect(document.querySelector('.subtitle')?.textContent).toContain(`shop.example.com${payload}`);
+        });
+
+        it('should refuse a link without a valid visitor ID', async () => {
+            const response = await app.inject({ method: 'GET', url: pageUrl('<bad>') });
+
+            expect(response.statusCode).toBe(400);
+            expect(response.body).toContain('This link is not valid');
+            expect(consentRepository.findByVisitor).not.toHaveBeenCalledWith(SITE_ID, '<bad>');
+        });
+
+        it('should answer 404 for a website that is not active', async () => {
+            websiteRepository.findById.mockResolvedValueOnce(null);
+
+            const response = await app.inject({ method: 'GET', url: pageUrl() });
+            expect(response.statusCode).toBe(404);
+            expect(response.body).toContain('This website is not available');
+        });
+    });
+
+    describe('withdrawing one purpose', () => {
+        it('should write a WITHDRAW record for that purpose and tell the opening page', async () => {
+            const page = await app.inject({ method: 'GET', url: pageUrl() });
+
+            // Run the page with its XHR answered by the runtime API
+            const sent: Array<{ method: string; url: string; body: string }> = [];
+            const posted: Array<{ message: unknown; targetOrigin: string }> = [];
+            let answered: Promise<void> = Promise.resolve();
+            const dom = new JSDOM(page.body, {
+                url: `http://localhost${pageUrl()}`,
+                runScripts: 'dangerously',
+                virtualConsole: new VirtualConsole(),
+                beforeParse(window) {
+                    Object.defineProperty(window, 'opener', {
+                        value: { postMessage: (message: unknown, targetOrigin: string) => posted.push({ message, targetOrigin }) },
+                    });
+                    (window as unknown as { XMLHttpRequest: unknown }).XMLHttpRequest = class {
+                        status = 0;
+                        responseText = '';
+                        onload: (() => void) | null = null;
+                        private method = '';
+                        private url = '';
+                        open(method: string, url: string) {
+                            this.method = method;
+                            this.url = url;
+                        }
+                        setRequestHeader() {}
+                        send(body: string) {
+                            sent.push({ method: this.method, url: this.url, body });
+                            answered = app.inject({ method: this.method as 'POST', url: this.url, payload: JSON.parse(body) }).then((response) => {
+                                this.status = response.statusCode;
+                                this.responseText = response.body;
+                                if (this.onload) this.onload();
+                            });
+                        }
+                    };
+                },
+            });
+
+            (dom.window.document.querySelector('button[data-withdraw="analytics"]') as HTMLButtonElement).click();
+            await answered;
+
+            expect(sent).toHaveLength(1);
+            expect(sent[0].url).toBe(`/runtime/websites/${SITE_ID}/consents`);
+            expect(JSON.parse(sent[0].body)).toEqual({ visitorId: VISITOR_ID, action: 'WITHDRAW', decisions: { analytics: false } });
+
+            // Only analytics is withdrawn; the earlier marketing withdrawal stands
+            expect(consentRepository.create).toHaveBeenCalledTimes(1);
+            expect(consentRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+                websiteId: SITE_ID,
+                visitorId: VISITOR_ID,
+                action: 'WITHDRAW',
+                decisions: { essential: true, analytics: false, marketing: false },
+            }));
+
+            // Never to any origin: only the website's own pages may hear of it
+            expect(posted.map((post) => post.targetOrigin)).toEqual(['https://shop.example.com', 'https://www.shop.example.com']);
+            expect(posted[0].message).toEqual(expect.objectContaining({
+                type: 'complyark:consent-updated',
+                siteId: SITE_ID,
+                purposes: { essential: true, analytics: false, marketing: false },
+            }));
+            dom.window.close();
+        });
+    });
+});
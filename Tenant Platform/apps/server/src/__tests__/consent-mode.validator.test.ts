@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals';
+import { updateConsentModeSchema } from '../validators/consent-mode.validator';
+
+describe('Consent Mode Validators', () => {
+    describe('updateConsentModeSchema', () => {
+        it('should accept a mapping of signals to purpose tags', () => {
+            const result = updateConsentModeSchema.safeParse({
+                enabled: true,
+                signalMapping: {
+                    analytics_storage: ['analytics'],
+                    ad_storage: ['marketing'],
+                    ad_user_data: ['marketing'],
+                    ad_personalization: ['marketing', 'personalisation'],
+                },
+            });
+            expect(result.success).toBe(true);
+        });
+
+        it('should apply defaults', () => {
+            const result = updateConsentModeSchema.safeParse({ enabled: false });
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data.signalMapping).toEqual({});
+                expect(result.data.waitForUpdateMs).toBe(500);
+                expect(result.data.adsDataRedaction).toBe(false);
+                expect(result.data.urlPassthrough).toBe(false);
+            }
+        });
+
+        it('should reject an unknown signal', () => {
+            const result = updateConsentModeSchema.safeParse({
+                enabled: true,
+                signalMapping: { cookie_storage: ['analytics'] },
+            });
+            expect(result.success).toBe(false);
+        });
+
+        it('should reject an invalid purpose tag', () => {
+            const result = updateConsentModeSchema.safeParse({
+                enabled: true,
+                signalMapping: { analytics_storage: ['Google Analytics'] },
+            });
+            expect(result.success).toBe(false);
+        });
+
+        it('should reject a wait for update above 10 seconds', () => {
+            const result = updateConsentModeSchema.safeParse({ enabled: true, waitForUpdateMs: 15000 });
+            expect(result.success).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,290 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import * as crypto from 'crypto';
+import { runtimeConfig } from './helpers/loader-page';
+
+jest.mock('../config', () => ({
+    config: {
+        consent: { ipHashSalt: 'test-ip-salt', receiptSecret: 'test-receipt-secret' },
+        rateLimits: { store: 'off', bodyLimits: { consent: 16384, rights: 32768 } },
+        runtimeOrigins: { mode: 'off' },
+    },
+}));
+
+const SITE_ID = '8d3f1b6a-4c2e-4a97-b5d0-6e1f9c3a7b24';
+const TENANT_ID = 'f4b2d8e6-1a3c-4759-9e0b-7c5a2d6f8e13';
+const VISITOR_ID = '0b7e5c3a-9f1d-4e28-a6c4-3d8b2f0e9a51';
+
+type StoredRecord = Record<string, unknown> & { decisions: Record<string, boolean>; createdAt: Date };
+
+const consentRepository = {
+    create: jest.fn(async (data: Record<string, unknown>) => data as StoredRecord),
+    findLatestByVisitor: jest.fn(async (..._args: unknown[]): Promise<StoredRecord | null> => null),
+    findByVisitor: jest.fn(async (..._args: unknown[]): Promise<StoredRecord[]> => []),
+    findByReceiptId: jest.fn(async (..._args: unknown[]): Promise<StoredRecord | null> => null),
+};
+const websiteRepository = {
+    findById: jest.fn(async (id: string): Promise<Record<string, unknown> | null> => (
+        { id, tenantId: TENANT_ID, domain: 'shop.example.com', status: 'ACTIVE' }
+    )),
+};
+
+jest.mock('../repositories', () => ({ consentRepository, websiteRepository }));
+
+const runtimeService = {
+    getWebsiteConfig: jest.fn(async (siteId: string): Promise<ReturnType<typeof runtimeConfig> | null> => runtimeConfig(siteId)),
+};
+jest.mock('../services/runtime.service', () => ({ runtimeService }));
+jest.mock('../services/webhook.service', () => ({ webhookService: { dispatch: jest.fn(async () => {}) } }));
+
+import { runtimeRoutes } from '../routes/runtime.routes';
+import { errorHandler } from '../middleware/error.middleware';
+import { consentService } from '../services/consent.service';
+import { ConsentReceiptPayload } from '../types';
+
+const decision = (extra: Record<string, unknown> = {}) => ({
+    visitorId: VISITOR_ID,
+    action: 'CUSTOM',
+    decisions: { analytics: true, marketing: false },
+    language: 'en',
+    noticeVersion: '1',
+    purposeVersions: { essential: '1', analytics: '1', marketing: '1' },
+    configVersion: 1,
+    loaderVersion: '2.0.0',
+    ...extra,
+});
+
+const storedRecord = (decisions: Record<string, boolean>): StoredRecord => ({
+    id: 'record-0',
+    websiteId: SITE_ID,
+    visitorId: VISITOR_ID,
+    action: 'ACCEPT_ALL',
+    decisions,
+    purposeVersions: {},
+    receiptId: 'CR-0000000000000000',
+    createdAt: new Date('2026-03-01T10:00:00Z'),
+});
+
+let app: FastifyInstance;
+
+describe('Consent ledger', () => {
+    beforeAll(async () => {
+        app = Fastify();
+        app.setErrorHandler(errorHandler);
+        await app.register(runtimeRoutes);
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        consentRepository.create.mockClear();
+        consentRepository.findLatestByVisitor.mockResolvedValue(null);
+        consentRepository.findByReceiptId.mockResolvedValue(null);
+        websiteRepository.findById.mockClear();
+        runtimeService.getWebsiteConfig.mockClear();
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    describe('POST /runtime/websites/:siteId/consents', () => {
+        const post = (payload: Record<string, unknown>, headers: Record<string, string> = {}) => app.inject({
+            method: 'POST',
+            url: `/runtime/websites/${SITE_ID}/consents`,
+            remoteAddress: '203.0.113.7',
+            headers,
+            payload,
+        });
+
+        it('should record the decision and return its signed receipt', async () => {
+            const response = await post(decision(), { 'user-agent': 'TestBrowser/1.0' });
+
+            expect(response.statusCode).toBe(201);
+            expect(response.headers['cache-control']).toBe('no-store');
+            const { data } = response.json();
+            expect(data).toMatchObject({
+                action: 'CUSTOM',
+                decisions: { essential: true, analytics: true, marketing: false },
+                receipt: { algorithm: 'HMAC-SHA256', payload: { websiteId: SITE_ID, domain: 'shop.example.com' } },
+            });
+            expect(data.receipt.receiptId).toMatch(/^CR-[0-9A-F]{16}$/);
+
+            expect(consentRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+                websiteId: SITE_ID,
+                visitorId: VISITOR_ID,
+                userAgent: 'TestBrowser/1.0',
+                configVersion: 1,
+                loaderVersion: '2.0.0',
+            }));
+        });
+
+        it('should store a keyed hash of the IP address, never the address', async () => {
+            await post(decision());
+
+            const created = consentRepository.create.mock.calls[0][0];
+            const expected = crypto.createHmac('sha256', 'test-ip-salt').update('203.0.113.7').digest('hex');
+            expect(created.ipHash).toBe(expected);
+            expect(JSON.stringify(created)).not.toContain('203.0.113.7');
+        });
+
+        it('should refuse purposes that are not in the published config', async () => {
+            const response = await post(decision({ decisions: { analytics: true, profiling: true } }));
+
+            expect(response.statusCode).toBe(400);
+            expect(response.json().message).toBe('Unknown purpose: profiling');
+            expect(consentRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should refuse an action the ledger does not know', async () => {
+            const response = await post(decision({ action: 'MAYBE' }));
+
+            expect(response.statusCode).toBe(400);
+            expect(consentRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should refuse websites that are not active', async () => {
+            websiteRepository.findById.mockResolvedValueOnce({ id: SITE_ID, tenantId: TENANT_ID, domain: 'shop.example.com', status: 'INACTIVE' });
+
+            const response = await post(decision());
+            expect(response.statusCode).toBe(404);
+            expect(consentRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should refuse websites without a published config', async () => {
+            runtimeService.getWebsiteConfig.mockResolvedValueOnce(null);
+
+            expect((await post(decision())).statusCode).toBe(404);
+            expect(consentRepository.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('consentService.record', () => {
+        const record = (extra: Record<string, unknown>) =>
+            consentService.record(SITE_ID, decision(extra) as Parameters<typeof consentService.record>[1], {});
+
+        it('should check decisions against the purposes served to the visitor', async () => {
+            await record({ decisions: {} });
+            expect(runtimeService.getWebsiteConfig).toHaveBeenCalledWith(SITE_ID);
+
+            await expect(record({ decisions: { newsletter: true } })).rejects.toMatchObject({ statusCode: 400 });
+        });
+
+        it('should always record essential purposes as granted', async () => {
+            const rejected = await record({ action: 'REJECT_ALL', decisions: { essential: false } });
+            expect(rejected.decisions).toEqual({ essential: true, analytics: false, marketing: false });
+
+            const custom = await record({ action: 'CUSTOM', decisions: { essential: false, analytics: true } });
+            expect(custom.decisions).toEqual({ essential: true, analytics: true, marketing: false });
+        });
+
+        it('should grant every purpose on Accept All whatever decisions say', async () => {
+            const accepted = await record({ action: 'ACCEPT_ALL', decisions: { marketing: false } });
+            expect(accepted.decisions).toEqual({ essential: true, analytics: true, marketing: true });
+        });
+
+        it('should withdraw only the purposes named, keeping earlier grants', async () => {
+            consentRepository.findLatestByVisitor.mockResolvedValue(storedRecord({ essential: true, analytics: true, marketing: true }));
+
+            const withdrawn = await record({ action: 'WITHDRAW', decisions: { marketing: false } });
+            expect(withdrawn.decisions).toEqual({ essential: true, analytics: true, marketing: false });
+
+            const all = await record({ action: 'WITHDRAW', decisions: {} });
+            expect(all.decisions).toEqual({ essential: true, analytics: false, marketing: false });
+        });
+
+        it('should leave the IP hash out when the address is unknown', async () => {
+            await record({});
+            expect(consentRepository.create.mock.calls[0][0].ipHash).toBeUndefined();
+        });
+    });
+
+    describe('receipts', () => {
+        // A record as the ledger stores it, with the receipt issued for it
+        async function issueReceipt(): Promise<StoredRecord> {
+            const created = await consentService.record(SITE_ID, decision() as Parameters<typeof consentService.record>[1], {});
+            return created as unknown as StoredRecord;
+        }
+
+        const verify = (receiptId: string, signature?: string) => app.inject({
+            method: 'GET',
+            url: `/runtime/receipts/${receiptId}` + (signature ? `?signature=${signature}` : ''),
+        });
+
+        it('should sign the canonical JSON of the payload with the receipt key', () => {
+            const payload: ConsentReceiptPayload = {
+                websiteId: SITE_ID,
+                receiptId: 'CR-0123456789ABCDEF',
+                purposeVersions: { marketing: '1', analytics: '2' },
+                action: 'CUSTOM',
+                granted: ['essential'],
+                denied: ['analytics', 'marketing'],
+                domain: 'shop.example.com',
+                language: undefined,
+                issuedAt: '2026-03-01T10:00:00.000Z',
+            };
+            // Sorted keys at every level, undefined fields left out
+            const canonical = '{"action":"CUSTOM","denied":["analytics","marketing"],"domain":"shop.example.com",' +
+                '"granted":["essential"],"issuedAt":"2026-03-01T10:00:00.000Z",' +
+                '"purposeVersions":{"analytics":"2","marketing":"1"},"receiptId":"CR-0123456789ABCDEF",' +
+                `"websiteId":"${SITE_ID}"}`;
+
+            expect(consentService.signReceipt(payload))
+                .toBe(crypto.createHmac('sha256', 'test-receipt-secret').update(canonical).digest('hex'));
+        });
+
+        it('should verify a genuine receipt', async () => {
+            const stored = await issueReceipt();
+            consentRepository.findByReceiptId.mockResolvedValue(stored);
+
+            const response = await verify(stored.receiptId as string, stored.receiptSignature as string);
+
+            expect(response.statusCode).toBe(200);
+            expect(consentRepository.findByReceiptId).toHaveBeenCalledWith(stored.receiptId);
+            expect(response.json()).toMatchObject({
+                message: 'Receipt is genuine',
+                data: { receiptId: stored.receiptId, algorithm: 'HMAC-SHA256', valid: true },
+            });
+        });
+
+        it('should fail a receipt whose stored payload was changed', async () => {
+            const stored = await issueReceipt();
+            const payload = stored.receiptPayload as Record<string, unknown>;
+            consentRepository.findByReceiptId.mockResolvedValue({
+                ...stored,
+                receiptPayload: { ...payload, granted: ['essential', 'analytics', 'marketing'], denied: [] },
+            });
+
+            const response = await verify(stored.receiptId as string);
+
+            expect(response.statusCode).toBe(200);
+            expect(response.json()).toMatchObject({
+                message: 'Receipt signature does not match',
+                data: { valid: false },
+            });
+        });
+
+        it('should fail a presented signature that differs from the one on record', async () => {
+            const stored = await issueReceipt();
+            consentRepository.findByReceiptId.mockResolvedValue(stored);
+
+            const forged = crypto.createHmac('sha256', 'another-key').update('{}').digest('hex');
+            const response = await verify(stored.receiptId as string, forged);
+
+            expect(response.json().data.valid).toBe(false);
+        });
+
+        it('should return 404 for an unknown receipt ID', async () => {
+            const response = await verify('CR-0123456789ABCDEF');
+
+            expect(response.statusCode).toBe(404);
+            expect(response.json()).toEqual({ success: false, message: 'Receipt not found' });
+        });
+
+        it('should refuse malformed receipt IDs and signatures', async () => {
+            expect((await verify('CR-nothex')).statusCode).toBe(400);
+            expect((await verify('CR-0123456789ABCDEF', 'zz')).statusCode).toBe(400);
+            expect(consentRepository.findByReceiptId).not.toHaveBeenCalledWith('CR-nothex');
+        });
+    });
+});
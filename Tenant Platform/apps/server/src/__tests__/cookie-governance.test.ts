@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { DOMWindow } from 'jsdom';
+import { LOADER_BUNDLE_DIR, loadPage, runtimeConfig, waitForBanner } from './helpers/loader-page';
+
+jest.mock('../config', () => ({
+    config: {
+        rateLimits: { store: 'off' },
+        tcf: { cmpId: 0, cmpVersion: 1 },
+        loader: { bundleDir: LOADER_BUNDLE_DIR },
+        staticBundles: { store: '' },
+        telemetry: { sampleRate: 1 },
+    },
+}));
+
+const SITE_ID = '0b8e6f0e-3c1d-4c52-9f3a-6d2e1b7a5c44';
+
+const cookie = (name: string, purpose: string, type = 'cookie') =>
+    ({ name, purpose, type, provider: null, duration: null, description: null });
+
+const mockConfig = runtimeConfig(SITE_ID, {
+    cookies: [
+        cookie('session_id', 'essential'),
+        cookie('_ga', 'analytics'),
+        cookie('_ga_*', 'analytics'),
+        cookie('_fbp', 'marketing'),
+        cookie('ajs_*', 'analytics', 'localStorage'),
+    ],
+    cookieGovernance: true,
+});
+
+jest.mock('../services/runtime.service', () => ({
+    runtimeService: { getWebsiteConfig: async () => mockConfig },
+}));
+
+// Static publishing is off; the database is never reached
+jest.mock('../repositories', () => ({}));
+
+import { loaderRoutes } from '../routes/loader.routes';
+
+let loaderScript = '';
+
+// Cookies and keys from an earlier visit, before the loader was installed
+function earlierVisit(window: DOMWindow) {
+    window.document.cookie = 'session_id=abc; path=/';
+    window.document.cookie = '_ga=GA1.1.1; path=/';
+    window.document.cookie = '_ga_XYZ=GS1.1; path=/; domain=.example.com';
+    window.document.cookie = 'prefs=dark; path=/';
+    window.localStorage.setItem('ajs_user_id', 'u1');
+    window.localStorage.setItem('cart', '3');
+}
+
+const cookieNames = (window: DOMWindow) =>
+    window.document.cookie.split(';').map((part) => part.split('=')[0].trim()).filter(Boolean).sort();
+
+describe('Loader cookie governance', () => {
+    let app: FastifyInstance;
+
+    beforeAll(async () => {
+        app = Fastify();
+        await app.register(loaderRoutes);
+        const response = await app.inject({ method: 'GET', url: `/public/loader.js?id=${SITE_ID}` });
+        loaderScript = response.body;
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    it('should inline only declarations of optional purposes', () => {
+        expect(loaderScript).toContain('"name":"_ga_*"');
+        expect(loaderScript).not.toContain('"name":"session_id"');
+    });
+
+    it('should drop writes of declared storage before consent', () => {
+        const dom = loadPage(loaderScript);
+        const { document, localStorage } = dom.window;
+
+        document.cookie = '_ga=GA1.1.2; path=/';
+        document.cookie = '_ga_ABC=GS1.1; path=/';
+        document.cookie = 'session_id=xyz; path=/';
+        document.cookie = 'prefs=light; path=/';
+        localStorage.setItem('ajs_anonymous_id', 'a1');
+        localStorage.setItem('cart', '1');
+
+        expect(cookieNames(dom.window)).toEqual(['prefs', 'session_id']);
+        expect(localStorage.getItem('ajs_anonymous_id')).toBeNull();
+        expect(localStorage.getItem('cart')).toBe('1');
+        dom.window.close();
+    });
+
+    it('should purge storage left by earlier visits once the config loads', async () => {
+        const dom = loadPage(loaderScript, { config: mockConfig, beforeLoader: earlierVisit });
+        expect(cookieNames(dom.window)).toEqual(['_ga', '_ga_XYZ', 'prefs', 'session_id']);
+
+        await waitForBanner(dom);
+        expect(cookieNames(dom.window)).toEqual(['prefs', 'session_id']);
+        expect(dom.window.localStorage.getItem('ajs_user_id')).toBeNull();
+        expect(dom.window.localStorage.getItem('cart')).toBe('3');
+        dom.window.close();
+    });
+
+    it('should allow writes after Accept All and purge them on withdrawal', async () => {
+        const dom = loadPage(loaderScript, { config: mockConfig });
+        await waitForBanner(dom);
+        const { document, localStorage } = dom.window;
+
+        (document.getElementById('complyark-accept-btn') as HTMLButtonElement).click();
+        document.cookie = '_ga=GA1.1.3; path=/';
+        document.cookie = '_fbp=fb.1; path=/';
+        localStorage.setItem('ajs_user_id', 'u2');
+        expect(cookieNames(dom.window)).toEqual(['_fbp', '_ga']);
+        expect(localStorage.getItem('ajs_user_id')).toBe('u2');
+
+        (dom.window as unknown as { ComplyArk: { withdrawConsent: () => void } }).ComplyArk.withdrawConsent();
+        expect(cookieNames(dom.window)).toEqual([]);
+        expect(localStorage.getItem('ajs_user_id')).toBeNull();
+        // The loader's own keys are kept
+        expect(localStorage.getItem('__complyark_visitor__')).not.toBeNull();
+        dom.window.close();
+    });
+
+    it('should keep consented storage when only some purposes are rejected', async () => {
+        const dom = loadPage(loaderScript, { config: mockConfig });
+        await waitForBanner(dom);
+        const { document } = dom.window;
+
+        (document.getElementById('complyark-accept-btn') as HTMLButtonElement).click();
+        document.cookie = '_ga=GA1.1.4; path=/';
+        document.cookie = '_fbp=fb.2; path=/';
+
+        (dom.window as unknown as { ComplyArk: { openSettings: () => void } }).ComplyArk.openSettings();
+        (document.querySelector('input[data-purpose="marketing"]') as HTMLInputElement).checked = false;
+        (document.getElementById('complyark-save-settings') as HTMLButtonElement).click();
+
+        expect(cookieNames(dom.window)).toEqual(['_ga']);
+        dom.window.close();
+    });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { JSDOM, VirtualConsole } from 'jsdom';
+import { runtimeConfig, settle } from './helpers/loader-page';
+
+const SITE_ID = '7d3f2a10-5b6c-4e8d-9a1f-2c4b6d8e0f12';
+
+const cookie = (name: string, purpose: string, extra: Record<string, unknown> = {}) =>
+    ({ name, purpose, type: 'cookie', provider: null, duration: null, description: null, ...extra });
+
+const scanItem = (type: string, name: string, suggestedPurpose: string | null) => ({
+    type,
+    name,
+    domain: '.example.com',
+    firstParty: true,
+    beforeConsent: false,
+    afterAccept: true,
+    pages: ['https://shop.example.com/'],
+    suggestedCategory: 'analytics',
+    suggestedPurpose,
+    trackerId: null,
+});
+
+const mockConfig = runtimeConfig(SITE_ID, {
+    supportedLanguages: ['en', 'hi'],
+    notice: {
+        en: { title: 'Privacy notice', description: 'How we use your data', policyLink: 'https://shop.example.com/privacy' },
+        hi: { title: 'गोपनीयता सूचना', description: 'हम आपके डेटा का उपयोग कैसे करते हैं' },
+    },
+    purposes: [
+        { key: 'essential', version: '1', required: true, displayOrder: 0, labels: { en: { title: 'Essential', description: 'Keeps the shop working' } } },
+        {
+            key: 'analytics',
+            version: '1',
+            required: false,
+            displayOrder: 1,
+            labels: {
+                en: { title: 'Analytics', description: 'Counts visits' },
+                hi: { title: 'विश्लेषण', description: 'विज़िट गिनता है' },
+            },
+        },
+    ],
+    cookies: [
+        cookie('session_id', 'essential', { provider: 'Shop', duration: 'Session', description: 'Keeps you <b>signed in</b>' }),
+        cookie('_ga_*', 'analytics', { provider: 'Google', duration: '2 years' }),
+    ],
+});
+
+jest.mock('../config', () => ({
+    config: { rateLimits: { store: 'off' } },
+}));
+
+jest.mock('../services/runtime.service', () => ({
+    runtimeService: { getWebsiteConfig: async () => mockConfig },
+}));
+
+jest.mock('../repositories', () => ({
+    websiteRepository: {
+        findById: async (id: string) => ({ id, domain: 'shop.example.com', status: id === SITE_ID ? 'ACTIVE' : 'DRAFT' }),
+    },
+    publishedConfigRepository: {
+        findLatest: async () => ({ publishedAt: new Date('2026-03-01T10:00:00Z') }),
+    },
+    scanRepository: {
+        findLatestCompleted: async () => ({
+            completedAt: new Date('2026-02-20T08:00:00Z'),
+            items: [
+                scanItem('COOKIE', '_ga_ABC123', 'analytics'), // Covered by _ga_*
+                scanItem('COOKIE', '_hjSession', 'analytics'),
+                scanItem('COOKIE', '_hjSession', 'analytics'),
+                scanItem('LOCAL_STORAGE', 'unclassified', null),
+                scanItem('SCRIPT', 'https://cdn.example.com/app.js', 'analytics'),
+            ],
+        }),
+    },
+}));
+
+import { cookiePolicyRoutes } from '../routes/cookie-policy.routes';
+
+describe('Cookie declaration', () => {
+    let app: FastifyInstance;
+
+    beforeAll(async () => {
+        app = Fastify();
+        await app.register(cookiePolicyRoutes);
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    it('should list declared cookies and undeclared scanned ones under their purpose', async () => {
+        const response = await app.inject({ method: 'GET', url: `/public/cookie-policy/${SITE_ID}` });
+        expect(response.statusCode).toBe(200);
+        expect(response.headers['content-type']).toContain('text/html');
+
+        const document = new JSDOM(response.body).window.document;
+        const sections = document.querySelectorAll('.complyark-declaration section');
+        expect(sections).toHaveLength(2);
+        expect(sections[0].querySelector('h3')?.textContent).toBe('EssentialAlways active');
+
+        const analyticsRows = Array.from(sections[1].querySelectorAll('tbody tr')).map((row) => row.textContent?.replace(/\s+/g, ' ').trim());
+        expect(analyticsRows).toEqual([
+            '_ga_* Google 2 years Cookie —',
+            '_hjSession * .example.com — Cookie —',
+        ]);
+        expect(response.body).toContain('Keeps you &lt;b&gt;signed in&lt;/b&gt;');
+        expect(response.body).not.toContain('unclassified');
+        expect(document.querySelector('a[href="https://shop.example.com/privacy"]')).not.toBeNull();
+    });
+
+    it('should use the translations of the requested language and fall back to English', async () => {
+        const hindi = await app.inject({ method: 'GET', url: `/public/cookie-policy/${SITE_ID}?lang=hi-IN` });
+        expect(hindi.body).toContain('<html lang="hi">');
+        expect(hindi.body).toContain('विश्लेषण');
+        expect(hindi.body).toContain('हम आपके डेटा का उपयोग कैसे करते हैं');
+        // No Hindi label for this purpose
+        expect(hindi.body).toContain('Essential');
+
+        const french = await app.inject({ method: 'GET', url: `/public/cookie-policy/${SITE_ID}?lang=fr` });
+        expect(french.body).toContain('<html lang="en">');
+        expect(french.body).toContain('Analytics');
+    });
+
+    it('should not serve websites that are not active', async () => {
+        const response = await app.inject({ method: 'GET', url: '/public/cookie-policy/00000000-0000-4000-8000-000000000000' });
+        expect(response.statusCode).toBe(404);
+
+        const invalid = await app.inject({ method: 'GET', url: '/public/cookie-policy/not-a-site' });
+        expect(invalid.statusCode).toBe(400);
+    });
+
+    it('should render the widget inside data-complyark-declaration elements', async () => {
+        const widget = await app.inject({ method: 'GET', url: `/public/cookie-declaration.js?id=${SITE_ID}` });
+        expect(widget.headers['content-type']).toContain('application/javascript');
+
+        const pending: Promise<unknown>[] = [];
+        const dom = new JSDOM(
+            `<!DOCTYPE html><html lang="en"><body><div id="policy" data-complyark-declaration data-lang="hi"></div><script>${widget.body}</script></body></html>`,
+            {
+                url: 'https://shop.example.com/cookies',
+                runScripts: 'dangerously',
+                virtualConsole: new VirtualConsole(),
+                beforeParse(window) {
+                    // Answered by the embed route
+                    (window as unknown as { XMLHttpRequest: unknown }).XMLHttpRequest = class {
+                        status = 0;
+                        responseText = '';
+                        onload: (() => void) | null = null;
+                        private url = '';
+
+                        open(_method: string, url: string) {
+                            this.url = url;
+                        }
+
+                        send() {
+                            const url = new URL(this.url);
+                            pending.push(app.inject({ method: 'GET', url: url.pathname + url.search }).then((response) => {
+                                this.status = response.statusCode;
+                                this.responseText = response.body;
+                                if (this.onload) this.onload();
+                            }));
+                        }
+                    };
+                },
+            }
+        );
+        await settle();
+        await Promise.all(pending);
+
+        const container = dom.window.document.getElementById('policy') as HTMLElement;
+        expect(container.querySelector('.complyark-declaration')?.getAttribute('lang')).toBe('hi');
+        expect(container.textContent).toContain('विश्लेषण');
+        expect(container.querySelectorAll('tbody tr')).toHaveLength(3);
+        dom.window.close();
+    });
+});
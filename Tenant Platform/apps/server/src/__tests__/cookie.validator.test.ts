@@ -0,0 +1,57 @@
+import { describe, it, expect } from '@jest/globals';
+import { cookieDeclarationSchema, cookieGovernanceSchema, cookieIdParamSchema } from '../validators/cookie.validator';
+
+const WEBSITE_ID = '3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e';
+
+describe('Cookie Validators', () => {
+    describe('cookieDeclarationSchema', () => {
+        it('should accept a declaration and turn blank policy text into null', () => {
+            const result = cookieDeclarationSchema.safeParse({
+                purposeTag: 'analytics',
+                storageType: 'COOKIE',
+                name: ' _ga_* ',
+                provider: 'Google',
+                duration: '2 years',
+                description: '  ',
+            });
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data).toMatchObject({ name: '_ga_*', provider: 'Google', duration: '2 years', description: null });
+            }
+        });
+
+        it('should reject cookie names the browser would split', () => {
+            const declare = (storageType: string, name: string) =>
+                cookieDeclarationSchema.safeParse({ purposeTag: 'analytics', storageType, name }).success;
+
+            expect(declare('COOKIE', 'a=b')).toBe(false);
+            expect(declare('COOKIE', 'my cookie')).toBe(false);
+            // localStorage keys may contain spaces
+            expect(declare('LOCAL_STORAGE', 'my key')).toBe(true);
+        });
+
+        it('should refuse patterns that are too broad', () => {
+            expect(cookieDeclarationSchema.safeParse({ purposeTag: 'analytics', storageType: 'COOKIE', name: '*' }).success).toBe(false);
+            expect(cookieDeclarationSchema.safeParse({ purposeTag: 'analytics', storageType: 'COOKIE', name: 'a*' }).success).toBe(false);
+        });
+
+        it('should require a purpose and a known storage type', () => {
+            expect(cookieDeclarationSchema.safeParse({ storageType: 'COOKIE', name: '_ga' }).success).toBe(false);
+            expect(cookieDeclarationSchema.safeParse({ purposeTag: 'analytics', storageType: 'SESSION_STORAGE', name: '_ga' }).success).toBe(false);
+        });
+    });
+
+    describe('cookieGovernanceSchema', () => {
+        it('should require a boolean', () => {
+            expect(cookieGovernanceSchema.safeParse({ enabled: true }).success).toBe(true);
+            expect(cookieGovernanceSchema.safeParse({ enabled: 'yes' }).success).toBe(false);
+        });
+    });
+
+    describe('cookieIdParamSchema', () => {
+        it('should require UUIDs', () => {
+            expect(cookieIdParamSchema.safeParse({ id: WEBSITE_ID, cookieId: WEBSITE_ID }).success).toBe(true);
+            expect(cookieIdParamSchema.safeParse({ id: WEBSITE_ID, cookieId: '_ga' }).success).toBe(false);
+        });
+    });
+});
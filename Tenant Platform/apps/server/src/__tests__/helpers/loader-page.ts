@@ -0,0 +1,117 @@
+import * as path from 'path';
+import { JSDOM, DOMWindow, VirtualConsole } from 'jsdom';
+
+/**
+ * Output of the packages/loader build, which the jest global setup runs
+ */
+export const LOADER_BUNDLE_DIR = path.resolve(__dirname, '../../../../../packages/loader/dist');
+
+/**
+ * A published runtime config with essential, analytics and marketing
+ * purposes, plus the given fields
+ */
+export function runtimeConfig(siteId: string, extra: Record<string, unknown> = {}) {
+    return {
+        siteId,
+        noticeVersion: '1',
+        configVersion: 1,
+        configHash: 'hash',
+        reconsentVersion: 0,
+        defaultLanguage: 'en',
+        supportedLanguages: ['en'],
+        notice: { en: { title: 'Privacy notice', description: 'How we use your data' } },
+        purposes: ['essential', 'analytics', 'marketing'].map((key, index) => ({
+            key,
+            version: '1',
+            required: key === 'essential',
+            displayOrder: index,
+            labels: { en: { title: key, description: `${key} purpose` } },
+        })),
+        banner: {
+            position: 'bottom',
+            layout: 'bar',
+            primaryColor: '#000000',
+            secondaryColor: '#ffffff',
+            backgroundColor: '#ffffff',
+            textColor: '#000000',
+            acceptButtonColor: '#000000',
+            rejectButtonColor: '#000000',
+            text: {
+                en: {
+                    headline: 'We value your privacy',
+                    description: 'Choose what you allow',
+                    acceptButton: 'Accept all',
+                    rejectButton: 'Reject all',
+                    preferencesButton: 'Preferences',
+                },
+            },
+        },
+        consentMode: null,
+        tcf: null,
+        consentLifetimeDays: 365,
+        rejectLifetimeDays: 180,
+        ...extra,
+    };
+}
+
+// Answers the runtime config fetch and the consent record
+function createXhr(config: unknown) {
+    return class {
+        status = 0;
+        responseText = '';
+        onload: (() => void) | null = null;
+        onerror: (() => void) | null = null;
+        private method = 'GET';
+
+        open(method: string) {
+            this.method = method;
+        }
+
+        setRequestHeader() {}
+
+        send() {
+            setTimeout(() => {
+                this.status = this.method === 'GET' ? 200 : 201;
+                this.responseText = JSON.stringify(this.method === 'GET' ? config : { success: true, data: {} });
+                if (this.onload) this.onload();
+            }, 0);
+        }
+    };
+}
+
+/**
+ * A page with the loader first in <head>, like the install snippet.
+ * Without a config the fetch never answers and the loader stays blocked
+ * before consent. beforeLoader runs ahead of the loader, e.g. to leave
+ * cookies from an earlier visit.
+ */
+export function loadPage(
+    loaderScript: string,
+    options: { head?: string; body?: string; config?: unknown; beforeLoader?: (window: DOMWindow) => void } = {}
+): JSDOM {
+    const { head = '', body = '', config, beforeLoader } = options;
+    return new JSDOM(
+        `<!DOCTYPE html><html><head><script>${loaderScript}</script>${head}</head><body>${body}</body></html>`,
+        {
+            url: 'https://shop.example.com/',
+            runScripts: 'dangerously',
+            virtualConsole: new VirtualConsole(),
+            beforeParse(window) {
+                (window as unknown as { XMLHttpRequest: unknown }).XMLHttpRequest = config
+                    ? createXhr(config)
+                    : class { open() {} setRequestHeader() {} send() {} };
+                beforeLoader?.(window);
+            },
+        }
+    );
+}
+
+// Let mutation observers run
+export const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+// The banner shows once DOMContentLoaded fired and the config arrived
+export async function waitForBanner(dom: JSDOM): Promise<void> {
+    for (let i = 0; i < 100 && !dom.window.document.getElementById('complyark-accept-btn'); i++) {
+        await settle();
+    }
+}
@@ -0,0 +1,12 @@
+import { jest } from '@jest/globals';
+import { FastifyRequest } from 'fastify';
+
+/**
+ * Jest setup file: the middleware barrel without the auth middleware,
+ * whose services need the native bcrypt build. Keeps ApiError and the
+ * error handler, and getRequestInfo as the auth middleware defines it.
+ */
+jest.mock('../../middleware', () => ({
+    ...(jest.requireActual('../../middleware/error.middleware') as object),
+    getRequestInfo: (request: FastifyRequest) => ({ ipAddress: request.ip, userAgent: request.headers['user-agent'] }),
+}));
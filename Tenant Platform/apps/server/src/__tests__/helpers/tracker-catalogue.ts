@@ -0,0 +1,22 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TrackerCatalogueEntry } from '../../types';
+
+const SEED_FILE = path.resolve(__dirname, '../../../../../../Admin Portal/apps/server/seeds/tracker-catalogue.json');
+
+/**
+ * The known-tracker catalogue as seeded into the Admin Portal
+ */
+export const CATALOGUE: TrackerCatalogueEntry[] = JSON.parse(fs.readFileSync(SEED_FILE, 'utf8')).map(
+    (entry: { name: string; vendor: string | null; category: TrackerCatalogueEntry['category']; domains: string[]; cookies: string[]; scripts: string[] }, index: number) => ({
+        id: `tracker-${index}`,
+        name: entry.name,
+        vendor: entry.vendor,
+        category: entry.category,
+        domains: entry.domains,
+        cookiePatterns: entry.cookies,
+        scriptPatterns: entry.scripts,
+        description: null,
+        isActive: true,
+    })
+);
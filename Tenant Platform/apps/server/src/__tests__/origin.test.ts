@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { runtimeConfig } from './helpers/loader-page';
+
+let mockOriginMode = 'enforce';
+
+jest.mock('../config', () => ({
+    config: {
+        rateLimits: { store: 'off', bodyLimits: { consent: 16384, rights: 32768 } },
+        runtimeCache: { store: 'off' },
+        runtimeOrigins: {
+            get mode() {
+                return mockOriginMode;
+            },
+            maxPendingKeys: 3,
+            retentionDays: 90,
+        },
+    },
+}));
+
+const SITE_ID = '4a7c2e95-1b3d-4f60-8e27-9d5b3c1a6f04';
+const UNKNOWN_SITE_ID = '8b1e6d34-7c2a-4e95-a0f3-5d9c2b7e1a86';
+
+// Answers the queries of runtimeService.loadWebsite for one published website
+const query = jest.fn(async (sql: string, params: unknown[] = []): Promise<{ rows: unknown[] }> => {
+    if (sql.includes('FROM websites WHERE id')) {
+        return {
+            rows: params[0] === SITE_ID
+                ? [{
+                    id: SITE_ID,
+                    domain: 'shop.example.com',
+                    status: 'ACTIVE',
+                    allowedDomains: ['*.shop-cdn.com', 'shop.example.org'],
+                    testDomains: ['localhost:3000', 'staging.example.net'],
+                }]
+                : [],
+        };
+    }
+    if (sql.includes('FROM published_configs')) {
+        return { rows: [{ config: runtimeConfig(SITE_ID) }] };
+    }
+    return { rows: [] };
+});
+
+const securityEventRepository = {
+    addCounts: jest.fn(async (_counts: unknown[]) => {}),
+};
+
+jest.mock('../db', () => ({ query: (sql: string, params?: unknown[]) => query(sql, params) }));
+jest.mock('../repositories', () => ({ securityEventRepository }));
+jest.mock('../services/consent-lifetime.service', () => ({
+    consentLifetimeService: { getEffective: async () => ({ consentLifetimeDays: 365, rejectLifetimeDays: 180 }) },
+}));
+
+import { originService } from '../services/origin.service';
+import { runtimeRoutes } from '../routes/runtime.routes';
+import { isOriginAllowed, matchesHostPattern, originHost } from '../utils/origin';
+import { updateOriginSettingsSchema } from '../validators/website.validator';
+
+const getConfig = (headers: Record<string, string> = {}, siteId: string = SITE_ID) =>
+    app.inject({ method: 'GET', url: `/runtime/websites/${siteId}`, headers });
+
+let app: FastifyInstance;
+
+describe('Runtime API origin checks', () => {
+    beforeAll(async () => {
+        app = Fastify();
+        await app.register(runtimeRoutes);
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        mockOriginMode = 'enforce';
+        // Drop the counts of earlier tests
+        await originService.flush();
+        securityEventRepository.addCounts.mockClear();
+        securityEventRepository.addCounts.mockResolvedValue(undefined);
+    });
+
+    describe('host matching', () => {
+        it('should read the host of http(s) origins and referers only', () => {
+            expect(originHost('https://Shop.Example.com')).toBe('shop.example.com');
+            expect(originHost('http://localhost:3000/cart?item=1')).toBe('localhost:3000');
+            expect(originHost('null')).toBeNull();
+            expect(originHost('file:///tmp/page.html')).toBeNull();
+            expect(originHost('not a url')).toBeNull();
+            expect(originHost(undefined)).toBeNull();
+        });
+
+        it('should match wildcards on subdomains only, and ports only when given', () => {
+            expect(matchesHostPattern('eu.shop-cdn.com', '*.shop-cdn.com')).toBe(true);
+            expect(matchesHostPattern('a.b.shop-cdn.com', '*.shop-cdn.com')).toBe(true);
+            expect(matchesHostPattern('shop-cdn.com', '*.shop-cdn.com')).toBe(false);
+            expect(matchesHostPattern('evilshop-cdn.com', '*.shop-cdn.com')).toBe(false);
+            expect(matchesHostPattern('shop.example.com:8443', 'shop.example.com')).toBe(true);
+            expect(matchesHostPattern('localhost:4000', 'localhost:3000')).toBe(false);
+        });
+
+        it('should allow the domain, its www subdomain and both lists', () => {
+            const policy = { domain: 'example.com', allowedDomains: ['*.example.org'], testDomains: ['127.0.0.1:8080'] };
+            expect(isOriginAllowed('example.com', policy)).toBe(true);
+            expect(isOriginAllowed('www.example.com', policy)).toBe(true);
+            expect(isOriginAllowed('blog.example.com', policy)).toBe(false);
+            expect(isOriginAllowed('eu.example.org', policy)).toBe(true);
+            expect(isOriginAllowed('127.0.0.1:8080', policy)).toBe(true);
+            expect(isOriginAllowed('example.com.evil.io', policy)).toBe(false);
+        });
+    });
+
+    describe('GET /runtime/websites/:siteId', () => {
+        it('should serve the website domain, allowed domains and test domains', async () => {
+            for (const origin of [
+                'https://shop.example.com',
+                'https://www.shop.example.com',
+                'https://eu.shop-cdn.com',
+                'https://shop.example.org',
+                'http://localhost:3000',
+                'https://staging.example.net',
+            ]) {
+                const response = await getConfig({ origin });
+                expect(response.statusCode).toBe(200);
+                expect(response.headers['access-control-allow-origin']).toBe(origin);
+                expect(response.headers.vary).toBe('Origin');
+            }
+            expect(securityEventRepository.addCounts).not.toHaveBeenCalled();
+            expect(await originService.flush()).toBe(0);
+        });
+
+        it('should fall back to the Referer when no Origin is sent, without allowing any origin to read the answer', async () => {
+            const response = await getConfig({ referer: 'https://shop.example.com/checkout' });
+            expect(response.statusCode).toBe(200);
+            expect(response.headers['access-control-allow-origin']).toBeUndefined();
+            expect(response.headers.vary).toBe('Origin');
+        });
+
+        it('should reject other origins and count them as security events', async () => {
+            const rejected = await getConfig({ origin: 'https://copycat.example.io' });
+            expect(rejected.statusCode).toBe(403);
+            expect(rejected.json()).toEqual({ success: false, message: 'Origin not allowed for this website' });
+            expect(rejected.headers['cache-control']).toBe('no-store');
+            expect(rejected.headers['access-control-allow-origin']).toBeUndefined();
+
+            await getConfig({ origin: 'https://copycat.example.io' });
+            const anonymous = await getConfig();
+            expect(anonymous.statusCode).toBe(403);
+
+            const consent = await app.inject({
+                method: 'POST',
+                url: `/runtime/websites/${SITE_ID}/consents`,
+                headers: { origin: 'https://copycat.example.io' },
+                payload: {},
+            });
+            expect(consent.statusCode).toBe(403);
+
+            expect(await originService.flush()).toBe(3);
+            const counts = securityEventRepository.addCounts.mock.calls[0][0] as Array<Record<string, unknown>>;
+            expect(counts).toEqual(expect.arrayContaining([
+                expect.objectContaining({
+                    websiteId: SITE_ID,
+                    eventType: 'ORIGIN_REJECTED',
+                    origin: 'copycat.example.io',
+                    endpoint: '/runtime/websites/:siteId',
+                    attempts: 2,
+                }),
+                expect.objectContaining({ origin: '', endpoint: '/runtime/websites/:siteId', attempts: 1 }),
+                expect.objectContaining({ origin: 'copycat.example.io', endpoint: '/runtime/websites/:siteId/consents', attempts: 1 }),
+            ]));
+        });
+
+        it('should allow calls from its own pages', async () => {
+            const response = await getConfig({ origin: 'http://consent.example.com', host: 'consent.example.com' });
+            expect(response.statusCode).toBe(200);
+        });
+
+        it('should leave websites that are not served to the route', async () => {
+            const response = await getConfig({ origin: 'https://copycat.example.io' }, UNKNOWN_SITE_ID);
+            expect(response.statusCode).toBe(404);
+            expect(await originService.flush()).toBe(0);
+        });
+
+        it('should not check preflights', async () => {
+            const response = await app.inject({
+                method: 'OPTIONS',
+                url: `/runtime/websites/${SITE_ID}`,
+                headers: { origin: 'https://copycat.example.io' },
+            });
+            expect(response.statusCode).toBe(204);
+            expect(await originService.flush()).toBe(0);
+        });
+
+        it('should only count rejections in report mode', async () => {
+            mockOriginMode = 'report';
+            const response = await getConfig({ origin: 'https://copycat.example.io' });
+            expect(response.statusCode).toBe(200);
+            expect(response.headers['access-control-allow-origin']).toBe('*');
+            expect(await originService.flush()).toBe(1);
+        });
+
+        it('should check nothing when off', async () => {
+            mockOriginMode = 'off';
+            const response = await getConfig({ origin: 'https://copycat.example.io' });
+            expect(response.statusCode).toBe(200);
+            expect(await originService.flush()).toBe(0);
+        });
+    });
+
+    describe('originService.flush', () => {
+        it('should keep the counts when the write fails', async () => {
+            const now = Date.parse('2026-05-04T10:00:00Z');
+            originService.recordRejection(SITE_ID, 'copycat.example.io', '/runtime/websites/:siteId', now);
+            securityEventRepository.addCounts.mockRejectedValueOnce(new Error('connection refused'));
+            await expect(originService.flush()).rejects.toThrow('connection refused');
+
+            originService.recordRejection(SITE_ID, 'copycat.example.io', '/runtime/websites/:siteId', now + 1000);
+            expect(await originService.flush()).toBe(1);
+            expect(securityEventRepository.addCounts.mock.calls[1][0]).toEqual([
+                expect.objectContaining({
+                    day: '2026-05-04',
+                    attempts: 2,
+                    firstSeenAt: new Date(now),
+                    lastSeenAt: new Date(now + 1000),
+                }),
+            ]);
+        });
+
+        it('should stop tracking new origins past the cap', async () => {
+            for (const host of ['a.io', 'b.io', 'c.io', 'd.io', 'a.io']) {
+                originService.recordRejection(SITE_ID, host, '/runtime/websites/:siteId');
+            }
+            expect(await originService.flush()).toBe(3);
+            const counts = securityEventRepository.addCounts.mock.calls[0][0] as Array<{ origin: string; attempts: number }>;
+            expect(counts.map((count) => [count.origin, count.attempts])).toEqual([['a.io', 2], ['b.io', 1], ['c.io', 1]]);
+        });
+    });
+
+    describe('updateOriginSettingsSchema', () => {
+        it('should lowercase and dedupe domains', () => {
+            const parsed = updateOriginSettingsSchema.parse({
+                allowedDomains: ['*.Shop-CDN.com', 'shop.example.org', ' shop.example.org '],
+                testDomains: ['localhost:3000', '192.168.1.20:8080', 'staging.example.net'],
+            });
+            expect(parsed).toEqual({
+                allowedDomains: ['*.shop-cdn.com', 'shop.example.org'],
+                testDomains: ['localhost:3000', '192.168.1.20:8080', 'staging.example.net'],
+            });
+        });
+
+        it('should refuse URLs, bare wildcards and ports on allowed domains', () => {
+            for (const domain of ['https://shop.example.org', '*', '*.com', 'shop.example.org:8080', 'localhost']) {
+                expect(updateOriginSettingsSchema.safeParse({ allowedDomains: [domain], testDomains: [] }).success).toBe(false);
+            }
+        });
+    });
+});
@@ -0,0 +1,287 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { runtimeConfig } from './helpers/loader-page';
+
+const SITE_ID = '5a8c2e71-3f9d-4b06-a4e1-8d7b6c0f2e39';
+const TENANT_ID = 'c1e7a3f5-9b2d-4864-8f0a-2d6c4b8e1a57';
+const ACTOR_ID = '7f3b9d1e-6a4c-4e25-b8d7-0c2e5a9f4b16';
+const REQUEST_INFO = { ipAddress: '203.0.113.7', userAgent: 'jest' };
+
+type Config = ReturnType<typeof runtimeConfig>;
+type StoredVersion = {
+    id: string;
+    websiteId: string;
+    version: number;
+    config: Config;
+    contentHash: string;
+    configVersion?: number;
+    rolledBackFrom?: number;
+    note?: string;
+    publishedBy?: string;
+    publishedAt: Date;
+};
+
+// published_configs of the website, oldest first
+let versions: StoredVersion[] = [];
+let draft: Config | null = null;
+
+const publishedConfigRepository = {
+    findLatest: jest.fn(async (_websiteId: string) => versions[versions.length - 1] || null),
+    findByVersion: jest.fn(async (_websiteId: string, version: number) => versions.find((entry) => entry.version === version) || null),
+    findUnpublishedActiveWebsiteIds: jest.fn(async (): Promise<string[]> => []),
+    create: jest.fn(async (data: Omit<StoredVersion, 'id' | 'version' | 'publishedAt'>) => {
+        const version = versions.length + 1;
+        const stored = { ...data, id: `pc-${version}`, version, publishedAt: new Date('2026-05-01T00:00:00Z') };
+        versions.push(stored);
+        return stored;
+    }),
+};
+const websiteRepository = {
+    findByIdAndTenant: jest.fn(async (id: string, tenantId: string) => (
+        id === SITE_ID && tenantId === TENANT_ID ? { id, tenantId, domain: 'shop.example.com', status: 'ACTIVE' } : null
+    )),
+    canActivate: jest.fn(async (_id: string) => ({ canActivate: true, reasons: [] })),
+    activate: jest.fn(async (id: string, firstPublish?: Omit<StoredVersion, 'id' | 'version' | 'publishedAt'>) => ({
+        website: { id, tenantId: TENANT_ID, domain: 'shop.example.com', status: 'ACTIVE' },
+        published: firstPublish ? await publishedConfigRepository.create(firstPublish) : null,
+    })),
+};
+const auditRepository = {
+    create: jest.fn(async (..._args: unknown[]) => undefined),
+};
+
+jest.mock('../repositories', () => ({ publishedConfigRepository, websiteRepository, auditRepository }));
+
+const runtimeService = {
+    buildWebsiteConfig: jest.fn(async (_siteId: string) => draft),
+    invalidate: jest.fn(async (_siteId: string) => undefined),
+};
+
+jest.mock('../services/runtime.service', () => ({ runtimeService }));
+jest.mock('../services/webhook.service', () => ({ webhookService: { dispatch: jest.fn(async () => undefined) } }));
+jest.mock('../services/static-bundle.service', () => ({ staticBundleService: { refresh: jest.fn(async () => undefined) } }));
+
+// The real repository runs its queries on this client
+const client = {
+    query: jest.fn(async (sql: string, _params?: unknown[]) => (
+        { rows: sql.includes('INSERT INTO published_configs') || sql.includes('UPDATE websites') ? [{ id: 'pc-1', version: 1 }] : [] }
+    )),
+};
+
+jest.mock('../db', () => ({
+    query: async () => ({ rows: [] }),
+    withTransaction: async (callback: (transaction: typeof client) => Promise<unknown>) => callback(client),
+}));
+
+import { publishService } from '../services/publish.service';
+import { websiteService } from '../services/website.service';
+import { publishedConfigRepository as realPublishedConfigRepository } from '../repositories/published-config.repository';
+import { websiteRepository as realWebsiteRepository } from '../repositories/website.repository';
+import { ApiError } from '../middleware/error.middleware';
+
+const publish = (note?: string) => publishService.publish(SITE_ID, TENANT_ID, ACTOR_ID, { note }, REQUEST_INFO);
+const activate = () => websiteService.updateStatus(SITE_ID, TENANT_ID, ACTOR_ID, { status: 'ACTIVE' }, REQUEST_INFO);
+const rollback = (version: number) => publishService.rollback(SITE_ID, TENANT_ID, ACTOR_ID, version, { note: 'Undo' }, REQUEST_INFO);
+
+const withBannerHeadline = (headline: string) => {
+    const config = runtimeConfig(SITE_ID);
+    config.banner.text.en.headline = headline;
+    return config;
+};
+
+describe('Publishing', () => {
+    beforeEach(() => {
+        versions = [];
+        draft = runtimeConfig(SITE_ID);
+        jest.clearAllMocks();
+    });
+
+    describe('publishService.publish', () => {
+        it('should snapshot the draft as the next version and write an audit entry', async () => {
+            const published = await publish('First');
+
+            expect(published).toMatchObject({ websiteId: SITE_ID, version: 1, configVersion: 1, note: 'First', publishedBy: ACTOR_ID });
+            expect(published).not.toHaveProperty('config');
+            expect(versions[0].config).toEqual(draft);
+
+            expect(auditRepository.create).toHaveBeenCalledTimes(1);
+            expect(auditRepository.create).toHaveBeenCalledWith(TENANT_ID, ACTOR_ID, 'CONFIG_PUBLISHED', {
+                resourceType: 'website',
+                resourceId: SITE_ID,
+                metadata: expect.objectContaining({ version: 1, previousVersion: null, contentHash: versions[0].contentHash, note: 'First' }),
+                ipAddress: REQUEST_INFO.ipAddress,
+                userAgent: REQUEST_INFO.userAgent,
+            });
+        });
+
+        it('should answer 409 when the draft has no unpublished changes', async () => {
+            await publish();
+            jest.clearAllMocks();
+
+            // Version stamps are not content
+            draft = runtimeConfig(SITE_ID, { configVersion: 2, configHash: 'other' });
+            await expect(publish()).rejects.toEqual(new ApiError('There are no unpublished changes', 409));
+
+            expect(publishedConfigRepository.create).not.toHaveBeenCalled();
+            expect(auditRepository.create).not.toHaveBeenCalled();
+            expect(runtimeService.invalidate).not.toHaveBeenCalled();
+        });
+
+        it('should answer 400 for an incomplete draft', async () => {
+            draft = null;
+            await expect(publish()).rejects.toMatchObject({ statusCode: 400 });
+            expect(publishedConfigRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should refuse a website of another tenant', async () => {
+            await expect(publishService.publish(SITE_ID, 'other-tenant', ACTOR_ID, {}, REQUEST_INFO))
+                .rejects.toThrow('Website not found');
+        });
+    });
+
+    describe('publishService.rollback', () => {
+        beforeEach(async () => {
+            await publish('First');
+            draft = withBannerHeadline('Cookies?');
+            await publish('Second');
+            jest.clearAllMocks();
+        });
+
+        it('should publish the old snapshot as a new version', async () => {
+            const published = await rollback(1);
+
+            expect(published).toMatchObject({ version: 3, rolledBackFrom: 1, note: 'Undo', publishedBy: ACTOR_ID });
+            expect(versions[2].config).toEqual(versions[0].config);
+            expect(versions[2].contentHash).toBe(versions[0].contentHash);
+            // Earlier versions are kept
+            expect(versions.map((entry) => entry.version)).toEqual([1, 2, 3]);
+
+            expect(auditRepository.create).toHaveBeenCalledWith(TENANT_ID, ACTOR_ID, 'CONFIG_ROLLED_BACK', expect.objectContaining({
+                resourceId: SITE_ID,
+                metadata: expect.objectContaining({ version: 3, restoredVersion: 1, previousVersion: 2 }),
+            }));
+            // The draft is not read or changed
+            expect(runtimeService.buildWebsiteConfig).not.toHaveBeenCalled();
+        });
+
+        it('should answer 409 for the live version', async () => {
+            await expect(rollback(2)).rejects.toEqual(new ApiError('This version is already live', 409));
+            expect(publishedConfigRepository.create).not.toHaveBeenCalled();
+            expect(auditRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should answer not found for an unknown version', async () => {
+            await expect(rollback(9)).rejects.toThrow('Published version not found');
+        });
+    });
+
+    describe('publishService.diff', () => {
+        it('should list what the draft adds, removes and changes', async () => {
+            await publish();
+            const next = withBannerHeadline('Cookies?');
+            next.purposes = next.purposes.filter((purpose) => purpose.key !== 'marketing');
+            next.supportedLanguages = ['en', 'hi'];
+            draft = next;
+
+            const { liveVersion, changes } = await publishService.diff(SITE_ID, TENANT_ID);
+
+            expect(liveVersion).toBe(1);
+            expect(changes).toEqual(expect.arrayContaining([
+                { path: 'banner.text.en.headline', change: 'CHANGED', live: 'We value your privacy', draft: 'Cookies?' },
+                { path: 'purposes.marketing.required', change: 'REMOVED', live: false },
+                { path: 'supportedLanguages', change: 'CHANGED', live: ['en'], draft: ['en', 'hi'] },
+            ]));
+            expect(changes.every((entry) => entry.path.startsWith('banner.') || entry.path.startsWith('purposes.marketing.') || entry.path === 'supportedLanguages')).toBe(true);
+        });
+
+        it('should show everything as added before the first publish', async () => {
+            const { liveVersion, changes } = await publishService.diff(SITE_ID, TENANT_ID);
+
+            expect(liveVersion).toBeNull();
+            expect(changes.length).toBeGreaterThan(0);
+            expect(changes.every((entry) => entry.change === 'ADDED')).toBe(true);
+        });
+
+        it('should be empty when the draft matches the live version', async () => {
+            await publish();
+            expect((await publishService.diff(SITE_ID, TENANT_ID)).changes).toEqual([]);
+        });
+    });
+
+    describe('publishedConfigRepository.create', () => {
+        it('should lock the website row before picking the next version', async () => {
+            await realPublishedConfigRepository.create({
+                websiteId: SITE_ID,
+                config: runtimeConfig(SITE_ID) as never,
+                contentHash: 'hash',
+                publishedBy: ACTOR_ID,
+            });
+
+            const statements = client.query.mock.calls.map(([sql]) => sql.replace(/\s+/g, ' ').trim());
+            expect(statements).toHaveLength(2);
+            expect(statements[0]).toBe('SELECT id FROM websites WHERE id = $1 FOR UPDATE');
+            expect(statements[1]).toContain('COALESCE(MAX(version), 0) + 1');
+            expect(client.query.mock.calls[0][1]).toEqual([SITE_ID]);
+        });
+    });
+
+    describe('first publish', () => {
+        it('should publish the draft with the first activation', async () => {
+            await activate();
+
+            expect(websiteRepository.activate).toHaveBeenCalledWith(SITE_ID, expect.objectContaining({
+                config: draft,
+                note: 'Published on activation',
+                publishedBy: ACTOR_ID,
+            }));
+            expect(versions).toHaveLength(1);
+            expect(auditRepository.create).toHaveBeenCalledWith(TENANT_ID, ACTOR_ID, 'CONFIG_PUBLISHED', expect.objectContaining({
+                metadata: expect.objectContaining({ version: 1, previousVersion: null }),
+            }));
+        });
+
+        it('should not publish again when the website was published before', async () => {
+            await publish();
+            jest.clearAllMocks();
+
+            await activate();
+
+            expect(websiteRepository.activate).toHaveBeenCalledWith(SITE_ID, undefined);
+            expect(versions).toHaveLength(1);
+        });
+
+        it('should leave the website as it was when the draft cannot be published', async () => {
+            draft = null;
+
+            await expect(activate()).rejects.toMatchObject({ statusCode: 400 });
+            expect(websiteRepository.activate).not.toHaveBeenCalled();
+        });
+
+        it('should set the status and insert the first version in one transaction', async () => {
+            await realWebsiteRepository.activate(SITE_ID, {
+                websiteId: SITE_ID,
+                config: runtimeConfig(SITE_ID) as never,
+                contentHash: 'hash',
+                publishedBy: ACTOR_ID,
+            });
+
+            const statements = client.query.mock.calls.map(([sql]) => sql.replace(/\s+/g, ' ').trim());
+            expect(statements[0]).toBe('SELECT id FROM websites WHERE id = $1 FOR UPDATE');
+            expect(statements.findIndex((sql) => sql.startsWith('INSERT INTO published_configs')))
+                .toBeLessThan(statements.findIndex((sql) => sql.startsWith('UPDATE websites')));
+        });
+
+        it('should publish active websites that have never been published', async () => {
+            const INCOMPLETE_SITE_ID = '9d1c5e7a-3b8f-4a20-b6e4-2f0a8c7d1e93';
+            publishedConfigRepository.findUnpublishedActiveWebsiteIds.mockResolvedValueOnce([SITE_ID, INCOMPLETE_SITE_ID]);
+            runtimeService.buildWebsiteConfig.mockImplementation(async (siteId: string) => (siteId === SITE_ID ? draft : null));
+            jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+            expect(await publishService.publishUnpublishedActive()).toBe(1);
+
+            expect(publishedConfigRepository.create).toHaveBeenCalledTimes(1);
+            expect(versions[0]).toMatchObject({ websiteId: SITE_ID, config: draft, note: 'Published on upgrade' });
+            expect(versions[0].publishedBy).toBeUndefined();
+            runtimeService.buildWebsiteConfig.mockImplementation(async () => draft);
+        });
+    });
+});
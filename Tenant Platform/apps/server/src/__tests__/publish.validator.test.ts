@@ -0,0 +1,49 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    publishConfigSchema,
+    publishedVersionParamSchema
+} from '../validators/publish.validator';
+
+describe('Publish Validators', () => {
+    describe('publishConfigSchema', () => {
+        it('should accept a publish without a note', () => {
+            const result = publishConfigSchema.safeParse({});
+            expect(result.success).toBe(true);
+        });
+
+        it('should trim the note', () => {
+            const result = publishConfigSchema.safeParse({ note: '  Updated analytics wording  ' });
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data.note).toBe('Updated analytics wording');
+            }
+        });
+
+        it('should reject a note longer than 500 characters', () => {
+            const result = publishConfigSchema.safeParse({ note: 'a'.repeat(501) });
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('publishedVersionParamSchema', () => {
+        const id = '4f9c1d52-7a8e-4b3f-9a61-2c5d8e7f0a13';
+
+        it('should coerce the version from the path', () => {
+            const result = publishedVersionParamSchema.safeParse({ id, version: '3' });
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data.version).toBe(3);
+            }
+        });
+
+        it('should reject version zero', () => {
+            const result = publishedVersionParamSchema.safeParse({ id, version: '0' });
+            expect(result.success).toBe(false);
+        });
+
+        it('should reject a non-numeric version', () => {
+            const result = publishedVersionParamSchema.safeParse({ id, version: 'latest' });
+            expect(result.success).toBe(false);
+        });
+    });
+});
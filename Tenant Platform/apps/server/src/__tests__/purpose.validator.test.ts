@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    updatePurposeSchema,
+    updatePurposeTranslationSchema
+} from '../validators/purpose.validator';
+
+describe('Purpose Validators', () => {
+    describe('updatePurposeSchema', () => {
+        it('should treat edits as material unless marked minor', () => {
+            const result = updatePurposeSchema.safeParse({ isEssential: false });
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data.changeType).toBe('MATERIAL');
+            }
+        });
+
+        it('should accept a minor change', () => {
+            const result = updatePurposeSchema.safeParse({ displayOrder: 2, changeType: 'MINOR' });
+            expect(result.success).toBe(true);
+        });
+
+        it('should reject an update with only a change type', () => {
+            const result = updatePurposeSchema.safeParse({ changeType: 'MINOR' });
+            expect(result.success).toBe(false);
+        });
+
+        it('should reject an unknown change type', () => {
+            const result = updatePurposeSchema.safeParse({ status: 'ACTIVE', changeType: 'COSMETIC' });
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('updatePurposeTranslationSchema', () => {
+        it('should default the change type to material', () => {
+            const result = updatePurposeTranslationSchema.safeParse({
+                translations: [{ languageCode: 'en', name: 'Analytics', description: '' }],
+            });
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data.changeType).toBe('MATERIAL');
+            }
+        });
+    });
+});
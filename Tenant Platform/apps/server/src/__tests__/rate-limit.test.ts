@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { runtimeConfig } from './helpers/loader-page';
+
+jest.mock('../config', () => ({
+    config: {
+        rateLimits: {
+            store: 'memory',
+            quotas: {
+                config: { perIp: 2, perSite: null, windowSeconds: 60 },
+                consent: { perIp: 5, perSite: 100, windowSeconds: 60 },
+                rights: { perIp: 5, perSite: 100, windowSeconds: 600 },
+                telemetry: { perIp: 1, perSite: 2, windowSeconds: 60 },
+            },
+            incidentThreshold: 3,
+            incidentWindowSeconds: 3600,
+            bodyLimits: { consent: 1024, rights: 4096 },
+        },
+        runtimeOrigins: { mode: 'off' },
+    },
+}));
+
+const SITE_IDS = [
+    '0c5e8a31-7b2d-4f96-a4e1-3d9b6c2f8a57',
+    '6f2a9d14-3e8c-4b57-91d0-7a4c2e6b5f83',
+    'b3d71e58-2a6f-4c09-8e35-1f7b9d4a2c60',
+    'e8a4c2f6-9d1b-4735-b6e0-5c3a8f2d7b19',
+];
+
+jest.mock('../services/runtime.service', () => ({
+    runtimeService: {
+        getCachedWebsiteConfig: async (siteId: string) => ({ config: runtimeConfig(siteId), etag: '"abc"', origins: null }),
+        getOriginPolicy: async () => null,
+    },
+}));
+
+const incidentRepository = {
+    raiseOnce: jest.fn(async (..._args: unknown[]): Promise<string | null> => 'incident-1'),
+};
+
+jest.mock('../repositories', () => ({ incidentRepository }));
+
+const rightsRequestService = {
+    submit: jest.fn(async (..._args: unknown[]) => ({
+        requestNumber: 'RR-2026-000001',
+        status: 'PENDING_VERIFICATION',
+        verificationExpiresAt: new Date('2026-05-05T10:00:00Z'),
+        createdAt: new Date('2026-05-04T10:00:00Z'),
+    })),
+};
+
+jest.mock('../services/rights-request.service', () => ({ rightsRequestService }));
+
+import { runtimeRoutes } from '../routes/runtime.routes';
+import { errorHandler } from '../middleware/error.middleware';
+import { rateLimitService } from '../services/rate-limit.service';
+import { createMemoryRateLimitStore, createRedisRateLimitStore } from '../utils/rate-limit';
+import { RedisClient } from '../utils/cache';
+
+const getConfig = (siteId: string, remoteAddress: string) =>
+    app.inject({ method: 'GET', url: `/runtime/websites/${siteId}`, remoteAddress });
+
+// Refused requests raise incidents without holding up the response
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+let app: FastifyInstance;
+
+describe('Public endpoint rate limits', () => {
+    beforeAll(async () => {
+        app = Fastify();
+        app.setErrorHandler(errorHandler);
+        await app.register(runtimeRoutes);
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        incidentRepository.raiseOnce.mockClear();
+        rightsRequestService.submit.mockClear();
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    describe('createMemoryRateLimitStore', () => {
+        it('should count hits per key until the window ends', async () => {
+            const store = createMemoryRateLimitStore();
+            expect((await store.hit('a', 50)).count).toBe(1);
+            expect((await store.hit('a', 50)).count).toBe(2);
+            expect((await store.hit('b', 50)).count).toBe(1);
+
+            await new Promise((resolve) => setTimeout(resolve, 60));
+            expect((await store.hit('a', 50)).count).toBe(1);
+        });
+
+        it('should drop the oldest windows past the key limit', async () => {
+            const store = createMemoryRateLimitStore(2);
+            await store.hit('a', 60000);
+            await store.hit('a', 60000);
+            await store.hit('b', 60000);
+            await store.hit('c', 60000);
+            expect((await store.hit('a', 60000)).count).toBe(1);
+        });
+    });
+
+    describe('createRedisRateLimitStore', () => {
+        it('should set the window expiry before counting', async () => {
+            const commands: string[][] = [];
+            const client: RedisClient = {
+                send: async (args) => {
+                    commands.push(args);
+                    return { SET: 'OK', INCR: 4, PTTL: 30000 }[args[0]] ?? null;
+                },
+            };
+            const store = createRedisRateLimitStore(client, 'test:');
+
+            const before = Date.now();
+            const result = await store.hit('config:ip:10.0.0.1', 60000);
+
+            expect(commands).toEqual([
+                ['SET', 'test:config:ip:10.0.0.1', '0', 'PX', '60000', 'NX'],
+                ['INCR', 'test:config:ip:10.0.0.1'],
+                ['PTTL', 'test:config:ip:10.0.0.1'],
+            ]);
+            expect(result.count).toBe(4);
+            expect(result.resetAt).toBeGreaterThanOrEqual(before + 30000);
+            expect(result.resetAt).toBeLessThan(before + 60000);
+        });
+    });
+
+    describe('GET /runtime/websites/:siteId', () => {
+        it('should refuse a client past its quota', async () => {
+            expect((await getConfig(SITE_IDS[0], '10.0.0.1')).statusCode).toBe(200);
+            expect((await getConfig(SITE_IDS[0], '10.0.0.1')).statusCode).toBe(200);
+
+            const refused = await getConfig(SITE_IDS[0], '10.0.0.1');
+            expect(refused.statusCode).toBe(429);
+            expect(refused.json()).toEqual({ success: false, message: 'Too many requests. Please try again later.' });
+            expect(Number(refused.headers['retry-after'])).toBeGreaterThan(0);
+            expect(Number(refused.headers['retry-after'])).toBeLessThanOrEqual(60);
+            expect(refused.headers['cache-control']).toBe('no-store');
+
+            // Other clients are not held back by it
+            expect((await getConfig(SITE_IDS[0], '10.0.0.2')).statusCode).toBe(200);
+        });
+
+        it('should not limit the website as a whole', async () => {
+            for (const ip of ['10.0.1.1', '10.0.1.2', '10.0.1.3', '10.0.1.4', '10.0.1.5']) {
+                expect((await getConfig(SITE_IDS[1], ip)).statusCode).toBe(200);
+                expect((await getConfig(SITE_IDS[1], ip)).statusCode).toBe(200);
+            }
+        });
+
+        it('should raise one incident when refusals reach the threshold', async () => {
+            for (let i = 0; i < 6; i++) {
+                await getConfig(SITE_IDS[3], '10.0.2.1');
+            }
+            await settle();
+
+            // 4 refusals after the first 2 requests; the 3rd raises the incident
+            expect(incidentRepository.raiseOnce).toHaveBeenCalledTimes(1);
+            expect(incidentRepository.raiseOnce).toHaveBeenCalledWith(
+                'RATE_LIMIT_EXCEEDED',
+                'MEDIUM',
+                SITE_IDS[3],
+                { group: 'config', reason: 'ip', threshold: 3, windowSeconds: 3600 },
+                3600
+            );
+            expect(rateLimitService.getStats().incidents).toBe(1);
+        });
+    });
+
+    describe('POST /runtime/websites/:siteId/consents', () => {
+        it('should refuse bodies above the size limit', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: `/runtime/websites/${SITE_IDS[0]}/consents`,
+                remoteAddress: '10.0.3.1',
+                payload: { visitorId: 'v'.repeat(2000) },
+            });
+            expect(response.statusCode).toBe(413);
+        });
+    });
+
+    describe('POST /runtime/websites/:siteId/telemetry', () => {
+        it('should count batches against the telemetry quota', async () => {
+            const send = () => app.inject({
+                method: 'POST',
+                url: `/runtime/websites/${SITE_IDS[0]}/telemetry`,
+                remoteAddress: '10.0.5.1',
+                payload: {},
+            });
+            // Counted even though the empty batch is refused
+            expect((await send()).statusCode).toBe(400);
+
+            const refused = await send();
+            expect(refused.statusCode).toBe(429);
+            expect(refused.json().message).toBe('Too many requests. Please try again later.');
+        });
+
+        it('should refuse every client past the website quota', async () => {
+            const send = (siteId: string, remoteAddress: string) => app.inject({
+                method: 'POST',
+                url: `/runtime/websites/${siteId}/telemetry`,
+                remoteAddress,
+                payload: {},
+            });
+            expect((await send(SITE_IDS[1], '10.0.6.1')).statusCode).toBe(400);
+            expect((await send(SITE_IDS[1], '10.0.6.2')).statusCode).toBe(400);
+            expect((await send(SITE_IDS[1], '10.0.6.3')).statusCode).toBe(429);
+            // Other websites keep their own quota
+            expect((await send(SITE_IDS[2], '10.0.6.4')).statusCode).toBe(400);
+        });
+    });
+
+    describe('POST /runtime/websites/:siteId/rights-requests', () => {
+        const submission = {
+            type: 'ACCESS',
+            email: 'visitor@example.com',
+            description: 'Please send me my data',
+        };
+
+        it('should accept a submission with the honeypot left empty', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: `/runtime/websites/${SITE_IDS[0]}/rights-requests`,
+                remoteAddress: '10.0.4.1',
+                payload: { ...submission, honeypot: '' },
+            });
+            expect(response.statusCode).toBe(201);
+            expect(rightsRequestService.submit).toHaveBeenCalledTimes(1);
+        });
+
+        it('should refuse a submission with the honeypot filled', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: `/runtime/websites/${SITE_IDS[0]}/rights-requests`,
+                remoteAddress: '10.0.4.2',
+                payload: { ...submission, honeypot: 'https://spam.example' },
+            });
+            expect(response.statusCode).toBe(400);
+            expect(response.json().message).toBe('Your request could not be submitted');
+            expect(rightsRequestService.submit).not.toHaveBeenCalled();
+        });
+    });
+});
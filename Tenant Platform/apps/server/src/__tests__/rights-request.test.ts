@@ -0,0 +1,342 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import * as crypto from 'crypto';
+
+jest.mock('../config', () => ({
+    config: {
+        server: { publicUrl: 'https://consent.example.com' },
+        session: { secret: 'test-session-secret' },
+        consent: { ipHashSalt: 'test-salt' },
+        rateLimits: { store: 'off', bodyLimits: { consent: 16384, rights: 32768 } },
+        runtimeOrigins: { mode: 'off' },
+        rightsRequests: {
+            verificationExpiryMinutes: 1440,
+            maxVerificationAttempts: 5,
+            sla: { defaultDays: 30, dueSoonDays: 3, defaultSeverity: 'MEDIUM' },
+        },
+    },
+}));
+
+const SITE_ID = '5e1c7a39-2d8b-4f60-9a35-8c2e6b4d1f07';
+const TENANT_ID = 'c2a8e4f1-6b3d-4970-8e15-3d7f9a2c5b60';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type VerificationState = {
+    id: string;
+    requestNumber: string;
+    websiteId: string;
+    requestType: string;
+    status: string;
+    verificationCodeHash?: string;
+    verificationAttempts: number;
+    verificationExpiresAt?: Date;
+};
+
+const rightsRequestRepository = {
+    create: jest.fn(async (data: Record<string, unknown>) => ({ id: 'request-1', status: 'PENDING_VERIFICATION', ...data })),
+    addSystemEvent: jest.fn(async (..._args: unknown[]) => {}),
+    findVerificationByNumber: jest.fn(async (..._args: unknown[]): Promise<VerificationState | null> => null),
+    findVerificationByTokenHash: jest.fn(async (..._args: unknown[]): Promise<VerificationState | null> => null),
+    takeVerificationAttempt: jest.fn(async (..._args: unknown[]) => true),
+    markVerified: jest.fn(async (id: string, method: string, sla: { dueAt: Date }): Promise<Record<string, unknown> | null> => ({
+        id,
+        tenantId: TENANT_ID,
+        websiteId: SITE_ID,
+        status: 'RECEIVED',
+        method,
+        dueAt: sla.dueAt,
+    })),
+    findByIdAndTenant: jest.fn(async (..._args: unknown[]): Promise<Record<string, unknown> | null> => null),
+    updateStatus: jest.fn(async (..._args: unknown[]) => true),
+    getEvents: jest.fn(async (..._args: unknown[]) => []),
+    findUnescalatedBreaches: jest.fn(async (..._args: unknown[]): Promise<Array<Record<string, unknown>>> => []),
+    escalateBreach: jest.fn(async (..._args: unknown[]) => true),
+};
+const websiteRepository = {
+    findById: jest.fn(async (id: string) => ({ id, tenantId: TENANT_ID, domain: 'shop.example.com', status: 'ACTIVE' })),
+};
+const auditRepository = {
+    create: jest.fn(async (..._args: unknown[]) => {}),
+};
+const globalRulesRepository = {
+    findActive: jest.fn(async (): Promise<{ version: number; rulesJson: Record<string, unknown> } | null> => null),
+};
+
+jest.mock('../repositories', () => ({ rightsRequestRepository, websiteRepository, auditRepository, globalRulesRepository }));
+
+const emailService = {
+    sendRightsRequestVerification: jest.fn(async (..._args: unknown[]) => true),
+};
+
+jest.mock('../services/email.service', () => ({ emailService }));
+jest.mock('../services/webhook.service', () => ({ webhookService: { dispatch: jest.fn(async () => {}) } }));
+jest.mock('../services/runtime.service', () => ({ runtimeService: {} }));
+
+import { runtimeRoutes } from '../routes/runtime.routes';
+import { errorHandler } from '../middleware/error.middleware';
+import { rightsRequestService } from '../services/rights-request.service';
+
+const submission = { type: 'ERASURE' as const, email: 'visitor@example.com', description: 'Please delete my account', details: {} };
+
+// Submit a request and return the pending state holding its emailed code
+async function submitPending(): Promise<{ state: VerificationState; code: string; token: string }> {
+    emailService.sendRightsRequestVerification.mockClear();
+    rightsRequestRepository.create.mockClear();
+    await rightsRequestService.submit(SITE_ID, submission, {});
+
+    const email = emailService.sendRightsRequestVerification.mock.calls[0][0] as { code: string; verifyUrl: string; requestNumber: string };
+    const created = rightsRequestRepository.create.mock.calls[0][0] as { verificationCodeHash: string; verificationExpiresAt: Date };
+    return {
+        state: {
+            id: 'request-1',
+            requestNumber: email.requestNumber,
+            websiteId: SITE_ID,
+            requestType: 'ERASURE',
+            status: 'PENDING_VERIFICATION',
+            verificationCodeHash: created.verificationCodeHash,
+            verificationAttempts: 0,
+            verificationExpiresAt: created.verificationExpiresAt,
+        },
+        code: email.code,
+        token: new URL(email.verifyUrl).searchParams.get('token') as string,
+    };
+}
+
+// Any code but the right one
+const wrongCode = (code: string) => String((Number(code) + 1) % 1000000).padStart(6, '0');
+
+let app: FastifyInstance;
+
+describe('Rights requests', () => {
+    beforeAll(async () => {
+        app = Fastify();
+        app.setErrorHandler(errorHandler);
+        await app.register(runtimeRoutes);
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        emailService.sendRightsRequestVerification.mockClear();
+        rightsRequestRepository.takeVerificationAttempt.mockClear();
+        rightsRequestRepository.takeVerificationAttempt.mockResolvedValue(true);
+        rightsRequestRepository.markVerified.mockClear();
+        rightsRequestRepository.updateStatus.mockClear();
+        rightsRequestRepository.escalateBreach.mockClear();
+        auditRepository.create.mockClear();
+        globalRulesRepository.findActive.mockResolvedValue(null);
+    });
+
+    describe('POST /runtime/websites/:siteId/rights-requests', () => {
+        it('should link to the configured public URL, whatever the Host header', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: `/runtime/websites/${SITE_ID}/rights-requests`,
+                headers: { host: 'phishing.example.net' },
+                payload: { type: 'ACCESS', email: 'visitor@example.com', description: 'Please send me my data' },
+            });
+
+            expect(response.statusCode).toBe(201);
+            const email = emailService.sendRightsRequestVerification.mock.calls[0][0] as { verifyUrl: string };
+            expect(email.verifyUrl).toMatch(/^https:\/\/consent\.example\.com\/runtime\/rights-requests\/verify\?token=[0-9a-f]{64}$/);
+        });
+    });
+
+    describe('verifyByCode', () => {
+        it('should release the request with the emailed code', async () => {
+            const { state, code } = await submitPending();
+            rightsRequestRepository.findVerificationByNumber.mockResolvedValueOnce(state);
+
+            const before = Date.now();
+            const verified = await rightsRequestService.verifyByCode(SITE_ID, state.requestNumber, code);
+
+            expect(rightsRequestRepository.findVerificationByNumber).toHaveBeenCalledWith(SITE_ID, state.requestNumber);
+            expect(rightsRequestRepository.takeVerificationAttempt).toHaveBeenCalledWith('request-1', 5);
+            expect(verified.status).toBe('RECEIVED');
+            const [, method, sla] = rightsRequestRepository.markVerified.mock.calls[0];
+            expect(method).toBe('CODE');
+            // Platform default without global rules
+            expect(sla.dueAt.getTime()).toBeGreaterThanOrEqual(before + 30 * DAY_MS);
+            expect(sla.dueAt.getTime()).toBeLessThan(before + 30 * DAY_MS + 60000);
+        });
+
+        it('should refuse a wrong code, and the code of another request', async () => {
+            const first = await submitPending();
+            const second = await submitPending();
+
+            rightsRequestRepository.findVerificationByNumber.mockResolvedValueOnce(first.state);
+            await expect(rightsRequestService.verifyByCode(SITE_ID, first.state.requestNumber, wrongCode(first.code)))
+                .rejects.toMatchObject({ statusCode: 400, message: 'Invalid verification code' });
+
+            // Codes are bound to their request number
+            rightsRequestRepository.findVerificationByNumber.mockResolvedValueOnce({ ...first.state, requestNumber: second.state.requestNumber });
+            await expect(rightsRequestService.verifyByCode(SITE_ID, second.state.requestNumber, first.code))
+                .rejects.toMatchObject({ statusCode: 400 });
+
+            expect(rightsRequestRepository.takeVerificationAttempt).toHaveBeenCalledTimes(2);
+            expect(rightsRequestRepository.markVerified).not.toHaveBeenCalled();
+        });
+
+        it('should refuse even the right code once the attempts are used up', async () => {
+            const { state, code } = await submitPending();
+            rightsRequestRepository.findVerificationByNumber.mockResolvedValueOnce(state);
+            rightsRequestRepository.takeVerificationAttempt.mockResolvedValueOnce(false);
+
+            await expect(rightsRequestService.verifyByCode(SITE_ID, state.requestNumber, code))
+                .rejects.toMatchObject({ statusCode: 429, message: 'Too many verification attempts' });
+            expect(rightsRequestRepository.markVerified).not.toHaveBeenCalled();
+        });
+
+        it('should refuse expired, verified and unknown requests before counting an attempt', async () => {
+            const { state, code } = await submitPending();
+
+            rightsRequestRepository.findVerificationByNumber.mockResolvedValueOnce({ ...state, verificationExpiresAt: new Date(Date.now() - 1000) });
+            await expect(rightsRequestService.verifyByCode(SITE_ID, state.requestNumber, code)).rejects.toMatchObject({ statusCode: 410 });
+
+            rightsRequestRepository.findVerificationByNumber.mockResolvedValueOnce({ ...state, status: 'EXPIRED' });
+            await expect(rightsRequestService.verifyByCode(SITE_ID, state.requestNumber, code)).rejects.toMatchObject({ statusCode: 410 });
+
+            rightsRequestRepository.findVerificationByNumber.mockResolvedValueOnce({ ...state, status: 'RECEIVED' });
+            await expect(rightsRequestService.verifyByCode(SITE_ID, state.requestNumber, code)).rejects.toMatchObject({ statusCode: 409 });
+
+            rightsRequestRepository.findVerificationByNumber.mockResolvedValueOnce(null);
+            await expect(rightsRequestService.verifyByCode(SITE_ID, 'DSR-2026-00000000', code)).rejects.toThrow('Rights request not found');
+
+            expect(rightsRequestRepository.takeVerificationAttempt).not.toHaveBeenCalled();
+        });
+
+        it('should answer 409 when the request was verified meanwhile', async () => {
+            const { state, code } = await submitPending();
+            rightsRequestRepository.findVerificationByNumber.mockResolvedValueOnce(state);
+            rightsRequestRepository.markVerified.mockResolvedValueOnce(null);
+
+            await expect(rightsRequestService.verifyByCode(SITE_ID, state.requestNumber, code)).rejects.toMatchObject({ statusCode: 409 });
+        });
+    });
+
+    describe('verifyByToken', () => {
+        it('should look the request up by the hash of the emailed token', async () => {
+            const { state, token } = await submitPending();
+            rightsRequestRepository.findVerificationByTokenHash.mockResolvedValueOnce(state);
+
+            await rightsRequestService.verifyByToken(token);
+
+            const tokenHash = crypto.createHash('sha256').update(token).digest('hex');
+            expect(rightsRequestRepository.create.mock.calls[0][0]).toEqual(expect.objectContaining({ verificationTokenHash: tokenHash }));
+            expect(rightsRequestRepository.findVerificationByTokenHash).toHaveBeenCalledWith(tokenHash);
+            expect(rightsRequestRepository.markVerified.mock.calls[0][1]).toBe('LINK');
+        });
+    });
+
+    describe('SLA', () => {
+        it('should set the due date from the global rules for the request type', async () => {
+            globalRulesRepository.findActive.mockResolvedValue({
+                version: 7,
+                rulesJson: { rights_requests: { sla_days: { DEFAULT: 30, ERASURE: 15 } } },
+            });
+            const { state, code } = await submitPending();
+            rightsRequestRepository.findVerificationByNumber.mockResolvedValueOnce(state);
+
+            const before = Date.now();
+            await rightsRequestService.verifyByCode(SITE_ID, state.requestNumber, code);
+
+            const [, , sla] = rightsRequestRepository.markVerified.mock.calls[0] as unknown as [string, string, { dueAt: Date; rulesVersion: number }];
+            expect(sla.rulesVersion).toBe(7);
+            expect(sla.dueAt.getTime()).toBeGreaterThanOrEqual(before + 15 * DAY_MS);
+            expect(sla.dueAt.getTime()).toBeLessThan(before + 15 * DAY_MS + 60000);
+        });
+
+        it('should fall back to the defaults when the rules are invalid', async () => {
+            jest.spyOn(console, 'warn').mockImplementation(() => {});
+            globalRulesRepository.findActive.mockResolvedValue({
+                version: 8,
+                rulesJson: { rights_requests: { sla_days: { ERASURE: -1 } } },
+            });
+            const { state, code } = await submitPending();
+            rightsRequestRepository.findVerificationByNumber.mockResolvedValueOnce(state);
+
+            const before = Date.now();
+            await rightsRequestService.verifyByCode(SITE_ID, state.requestNumber, code);
+
+            const sla = rightsRequestRepository.markVerified.mock.calls[0][2];
+            expect(sla.dueAt.getTime()).toBeGreaterThanOrEqual(before + 30 * DAY_MS);
+        });
+
+        it('should raise one incident per breach with the severity of its type', async () => {
+            globalRulesRepository.findActive.mockResolvedValue({
+                version: 7,
+                rulesJson: { rights_requests: { breach_severity: { DEFAULT: 'LOW', ERASURE: 'HIGH' } } },
+            });
+            const breaches = [
+                { id: 'request-1', tenantId: TENANT_ID, websiteId: SITE_ID, requestNumber: 'DSR-2026-00000001', requestType: 'ERASURE', dueAt: new Date() },
+                { id: 'request-2', tenantId: TENANT_ID, websiteId: SITE_ID, requestNumber: 'DSR-2026-00000002', requestType: 'ACCESS', dueAt: new Date() },
+            ];
+            rightsRequestRepository.findUnescalatedBreaches.mockResolvedValueOnce(breaches);
+            // The second was escalated by another instance meanwhile
+            rightsRequestRepository.escalateBreach.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+            expect(await rightsRequestService.escalateSlaBreaches()).toBe(1);
+            expect(rightsRequestRepository.escalateBreach.mock.calls).toEqual([
+                [breaches[0], 'HIGH'],
+                [breaches[1], 'LOW'],
+            ]);
+        });
+    });
+
+    describe('updateStatus', () => {
+        const stored = (status: string) => ({
+            id: 'request-1',
+            tenantId: TENANT_ID,
+            websiteId: SITE_ID,
+            requestNumber: 'DSR-2026-00000001',
+            requestType: 'ACCESS',
+            requesterEmail: 'visitor@example.com',
+            status,
+        });
+
+        it('should follow the workflow and audit each change', async () => {
+            rightsRequestRepository.findByIdAndTenant.mockResolvedValue(stored('RECEIVED'));
+
+            await rightsRequestService.updateStatus('request-1', TENANT_ID, 'user-1', { status: 'IN_PROGRESS' }, {});
+
+            expect(rightsRequestRepository.updateStatus).toHaveBeenCalledWith('request-1', 'RECEIVED', 'IN_PROGRESS', 'user-1', undefined);
+            expect(auditRepository.create).toHaveBeenCalledWith(
+                TENANT_ID,
+                'user-1',
+                'RIGHTS_REQUEST_STATUS_CHANGED',
+                expect.objectContaining({ metadata: expect.objectContaining({ from: 'RECEIVED', to: 'IN_PROGRESS' }) })
+            );
+        });
+
+        it('should refuse transitions the workflow does not allow', async () => {
+            for (const [from, to] of [
+                ['PENDING_VERIFICATION', 'RECEIVED'],
+                ['RECEIVED', 'COMPLETED'],
+                ['VERIFYING', 'RECEIVED'],
+                ['COMPLETED', 'IN_PROGRESS'],
+                ['REJECTED', 'IN_PROGRESS'],
+                ['EXPIRED', 'RECEIVED'],
+            ]) {
+                rightsRequestRepository.findByIdAndTenant.mockResolvedValue(stored(from));
+                await expect(
+                    rightsRequestService.updateStatus('request-1', TENANT_ID, 'user-1', { status: to } as never, {})
+                ).rejects.toThrow(`Cannot change status from ${from} to ${to}`);
+            }
+            expect(rightsRequestRepository.updateStatus).not.toHaveBeenCalled();
+            expect(auditRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should refuse a change made by another action meanwhile', async () => {
+            rightsRequestRepository.findByIdAndTenant.mockResolvedValue(stored('IN_PROGRESS'));
+            rightsRequestRepository.updateStatus.mockResolvedValueOnce(false);
+
+            await expect(rightsRequestService.updateStatus('request-1', TENANT_ID, 'user-1', { status: 'COMPLETED' }, {}))
+                .rejects.toThrow('request was modified by another action');
+            expect(auditRepository.create).not.toHaveBeenCalled();
+        });
+    });
+});
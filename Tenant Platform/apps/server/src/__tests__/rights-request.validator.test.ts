@@ -0,0 +1,132 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    submitRightsRequestSchema,
+    updateRightsRequestStatusSchema,
+    verifyRightsRequestCodeSchema,
+    verifyRightsRequestTokenQuerySchema,
+    rightsRequestSlaRulesSchema,
+} from '../validators/rights-request.validator';
+
+describe('Rights Request Validators', () => {
+    describe('submitRightsRequestSchema', () => {
+        it('should validate an access request without details', () => {
+            const result = submitRightsRequestSchema.safeParse({
+                type: 'ACCESS',
+                email: 'User@Example.com',
+                description: 'Please send me my data',
+            });
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data.email).toBe('user@example.com');
+                expect(result.data.details).toEqual({});
+            }
+        });
+
+        it('should require both values for a correction request', () => {
+            const result = submitRightsRequestSchema.safeParse({
+                type: 'CORRECTION',
+                email: 'user@example.com',
+                description: 'Wrong address',
+                details: { incorrectData: '12 Old Street' },
+            });
+            expect(result.success).toBe(false);
+        });
+
+        it('should validate a complete nomination request', () => {
+            const result = submitRightsRequestSchema.safeParse({
+                type: 'NOMINATION',
+                email: 'user@example.com',
+                description: 'Nominating my sister',
+                details: { nomineeName: 'Asha', nomineeEmail: 'asha@example.com' },
+            });
+            expect(result.success).toBe(true);
+        });
+
+        it('should reject unknown request types', () => {
+            const result = submitRightsRequestSchema.safeParse({
+                type: 'PORTABILITY',
+                email: 'user@example.com',
+                description: 'Export',
+            });
+            expect(result.success).toBe(false);
+        });
+
+        it('should reject unexpected detail fields', () => {
+            const result = submitRightsRequestSchema.safeParse({
+                type: 'ACCESS',
+                email: 'user@example.com',
+                description: 'Access',
+                details: { ssn: '123' },
+            });
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('updateRightsRequestStatusSchema', () => {
+        it('should validate a known status', () => {
+            const result = updateRightsRequestStatusSchema.safeParse({ status: 'IN_PROGRESS' });
+            expect(result.success).toBe(true);
+        });
+
+        it('should reject an unknown status', () => {
+            const result = updateRightsRequestStatusSchema.safeParse({ status: 'ARCHIVED' });
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('verifyRightsRequestCodeSchema', () => {
+        it('should accept a 6-digit code with surrounding whitespace', () => {
+            const result = verifyRightsRequestCodeSchema.safeParse({ code: ' 012345 ' });
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data.code).toBe('012345');
+            }
+        });
+
+        it('should reject codes that are not 6 digits', () => {
+            expect(verifyRightsRequestCodeSchema.safeParse({ code: '12345' }).success).toBe(false);
+            expect(verifyRightsRequestCodeSchema.safeParse({ code: '12a456' }).success).toBe(false);
+        });
+    });
+
+    describe('verifyRightsRequestTokenQuerySchema', () => {
+        it('should accept a 64-character hex token', () => {
+            const result = verifyRightsRequestTokenQuerySchema.safeParse({ token: 'a'.repeat(64) });
+            expect(result.success).toBe(true);
+        });
+
+        it('should reject a malformed token', () => {
+            const result = verifyRightsRequestTokenQuerySchema.safeParse({ token: 'not-a-token' });
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('rightsRequestSlaRulesSchema', () => {
+        it('should default to an empty rule set', () => {
+            const result = rightsRequestSlaRulesSchema.safeParse({});
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data.sla_days).toEqual({});
+            }
+        });
+
+        it('should accept per-type deadlines and severity', () => {
+            const result = rightsRequestSlaRulesSchema.safeParse({
+                sla_days: { DEFAULT: 30, GRIEVANCE: 7 },
+                due_soon_days: 3,
+                breach_severity: { DEFAULT: 'MEDIUM', GRIEVANCE: 'HIGH' },
+            });
+            expect(result.success).toBe(true);
+        });
+
+        it('should accept a single severity for all types', () => {
+            const result = rightsRequestSlaRulesSchema.safeParse({ breach_severity: 'HIGH' });
+            expect(result.success).toBe(true);
+        });
+
+        it('should reject non-positive deadlines and unknown severities', () => {
+            expect(rightsRequestSlaRulesSchema.safeParse({ sla_days: { ACCESS: 0 } }).success).toBe(false);
+            expect(rightsRequestSlaRulesSchema.safeParse({ breach_severity: 'CRITICAL' }).success).toBe(false);
+        });
+    });
+});
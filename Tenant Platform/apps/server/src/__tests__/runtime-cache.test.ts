@@ -0,0 +1,332 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import Fastify, { FastifyInstance } from 'fastify';
+import { runtimeConfig } from './helpers/loader-page';
+
+jest.mock('../config', () => ({
+    config: {
+        rateLimits: { store: 'off', bodyLimits: { consent: 16384, rights: 32768 } },
+        runtimeCache: { store: 'memory', maxEntries: 100, ttlSeconds: 300, keyPrefix: 'test:' },
+        runtimeOrigins: { mode: 'off' },
+    },
+}));
+
+const SITE_ID = '9e4b7c21-6d3a-4f58-b0e2-1c7a5d8f3b64';
+const UNKNOWN_SITE_ID = '2f6d9a13-8c4e-4b71-a5d0-3e9c7b1f6a28';
+
+let published: ReturnType<typeof runtimeConfig> | null = runtimeConfig(SITE_ID);
+let websiteStatus = 'ACTIVE';
+
+// Answers the queries of runtimeService.loadWebsiteConfig for one published website
+const query = jest.fn(async (sql: string, params: unknown[] = []): Promise<{ rows: unknown[] }> => {
+    if (sql.includes('FROM websites WHERE id')) {
+        return { rows: params[0] === SITE_ID ? [{ id: SITE_ID, domain: 'shop.example.com', status: websiteStatus, allowedDomains: [], testDomains: [] }] : [] };
+    }
+    if (sql.includes('FROM websites WHERE status')) {
+        return { rows: params[0] === websiteStatus ? [{ id: SITE_ID }] : [] };
+    }
+    if (sql.includes('FROM published_configs')) {
+        return { rows: published ? [{ config: published }] : [] };
+    }
+    return { rows: [] };
+});
+
+jest.mock('../db', () => ({ query: (sql: string, params?: unknown[]) => query(sql, params) }));
+jest.mock('../services/consent-lifetime.service', () => ({
+    consentLifetimeService: { getEffective: async () => ({ consentLifetimeDays: 365, rejectLifetimeDays: 180 }) },
+}));
+
+import { runtimeService } from '../services/runtime.service';
+import { runtimeRoutes } from '../routes/runtime.routes';
+import { createMemoryCache, createRedisCache } from '../utils/cache';
+
+const websiteQueries = () => query.mock.calls.filter(([sql]) => sql.includes('FROM websites WHERE id')).length;
+
+describe('Runtime config cache', () => {
+    beforeEach(async () => {
+        published = runtimeConfig(SITE_ID);
+        websiteStatus = 'ACTIVE';
+        await runtimeService.invalidate(SITE_ID);
+        await runtimeService.invalidate(UNKNOWN_SITE_ID);
+        query.mockClear();
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    describe('runtimeService.getCachedWebsiteConfig', () => {
+        it('should read the database once, then serve from the cache', async () => {
+            const before = runtimeService.getCacheStats();
+            const first = await runtimeService.getCachedWebsiteConfig(SITE_ID);
+            const second = await runtimeService.getCachedWebsiteConfig(SITE_ID);
+
+            expect(first.config).toEqual({ ...published, consentLifetimeDays: 365, rejectLifetimeDays: 180 });
+            expect(first.etag).toMatch(/^"[0-9a-f]{32}"$/);
+            expect(second).toEqual(first);
+            expect(websiteQueries()).toBe(1);
+
+            const after = runtimeService.getCacheStats();
+            expect(after.hits - before.hits).toBe(1);
+            expect(after.misses - before.misses).toBe(1);
+            expect(after.hitRatio).toBeGreaterThan(0);
+            expect(after.store).toBe('memory');
+        });
+
+        it('should cache missing and inactive websites too', async () => {
+            await runtimeService.getWebsiteConfig(UNKNOWN_SITE_ID);
+            expect(await runtimeService.getCachedWebsiteConfig(UNKNOWN_SITE_ID)).toEqual({ config: null, etag: '', origins: null });
+            expect(websiteQueries()).toBe(1);
+        });
+
+        it('should read the database again after an eviction', async () => {
+            const first = await runtimeService.getCachedWebsiteConfig(SITE_ID);
+            published = runtimeConfig(SITE_ID, { configVersion: 2 });
+            await runtimeService.invalidate(SITE_ID);
+
+            const second = await runtimeService.getCachedWebsiteConfig(SITE_ID);
+            expect(second.config!.configVersion).toBe(2);
+            expect(second.etag).not.toBe(first.etag);
+            expect(websiteQueries()).toBe(2);
+
+            websiteStatus = 'SUSPENDED';
+            await runtimeService.invalidate(SITE_ID);
+            expect(await runtimeService.getWebsiteConfig(SITE_ID)).toBeNull();
+        });
+
+        it('should serve nothing for an active website that was never published', async () => {
+            published = null;
+
+            expect(await runtimeService.getCachedWebsiteConfig(SITE_ID)).toEqual({ config: null, etag: '', origins: null });
+            // The draft tables are not read
+            const tables = query.mock.calls.map(([sql]) => sql.match(/FROM (\w+)/)?.[1]);
+            expect(tables).toEqual(['websites', 'published_configs']);
+        });
+
+        it('should evict every active website at once', async () => {
+            await runtimeService.getCachedWebsiteConfig(SITE_ID);
+            published = runtimeConfig(SITE_ID, { configVersion: 2 });
+
+            expect(await runtimeService.invalidateAll()).toBe(1);
+            expect((await runtimeService.getCachedWebsiteConfig(SITE_ID)).config!.configVersion).toBe(2);
+            expect(websiteQueries()).toBe(2);
+        });
+
+        it('should not cache a config read before an eviction', async () => {
+            query.mockImplementationOnce(async (sql: string) => {
+                // The website changes while its config is being read
+                await runtimeService.invalidate(SITE_ID);
+                return { rows: sql.includes('FROM websites') ? [{ id: SITE_ID, domain: 'shop.example.com', status: 'ACTIVE', allowedDomains: [], testDomains: [] }] : [] };
+            });
+            await runtimeService.getCachedWebsiteConfig(SITE_ID);
+            await runtimeService.getCachedWebsiteConfig(SITE_ID);
+            expect(websiteQueries()).toBe(2);
+        });
+    });
+
+    describe('runtimeService.getPurposesWithTranslations', () => {
+        it('should read purposes and their translations in one query', async () => {
+            query.mockResolvedValueOnce({
+                rows: [
+                    {
+                        tag: 'analytics',
+                        isEssential: false,
+                        displayOrder: 1,
+                        version: new Date('2026-01-02T00:00:00Z'),
+                        translations: [
+                            { languageCode: 'en', name: 'Analytics', description: 'Usage statistics', dataCategoryInfo: null },
+                            { languageCode: 'hi', name: 'विश्लेषण', description: 'उपयोग आँकड़े', dataCategoryInfo: 'Usage' },
+                        ],
+                    },
+                    { tag: 'essential', isEssential: true, displayOrder: 0, version: new Date('2026-01-01T00:00:00Z'), translations: [] },
+                ],
+            });
+
+            const purposes = await runtimeService.getPurposesWithTranslations(SITE_ID);
+
+            expect(query).toHaveBeenCalledTimes(1);
+            expect(purposes).toEqual([
+                {
+                    key: 'analytics',
+                    version: '2026-01-02T00:00:00.000Z',
+                    required: false,
+                    displayOrder: 1,
+                    labels: {
+                        en: { title: 'Analytics', description: 'Usage statistics', dataCategoryInfo: null },
+                        hi: { title: 'विश्लेषण', description: 'उपयोग आँकड़े', dataCategoryInfo: 'Usage' },
+                    },
+                },
+                { key: 'essential', version: '2026-01-01T00:00:00.000Z', required: true, displayOrder: 0, labels: {} },
+            ]);
+        });
+    });
+
+    describe('GET /runtime/websites/:siteId', () => {
+        let app: FastifyInstance;
+
+        beforeAll(async () => {
+            app = Fastify();
+            await app.register(runtimeRoutes);
+            await app.ready();
+        });
+
+        afterAll(async () => {
+            await app.close();
+        });
+
+        it('should send an ETag and answer a matching If-None-Match with 304', async () => {
+            const response = await app.inject({ method: 'GET', url: `/runtime/websites/${SITE_ID}` });
+            expect(response.statusCode).toBe(200);
+            expect(response.headers.etag).toMatch(/^"[0-9a-f]{32}"$/);
+
+            const revalidated = await app.inject({
+                method: 'GET',
+                url: `/runtime/websites/${SITE_ID}`,
+                headers: { 'if-none-match': response.headers.etag as string },
+            });
+            expect(revalidated.statusCode).toBe(304);
+            expect(revalidated.body).toBe('');
+            expect(revalidated.headers['access-control-allow-origin']).toBe('*');
+
+            const stale = await app.inject({
+                method: 'GET',
+                url: `/runtime/websites/${SITE_ID}`,
+                headers: { 'if-none-match': '"0000"' },
+            });
+            expect(stale.statusCode).toBe(200);
+            expect(websiteQueries()).toBe(1);
+        });
+
+        it('should not send an ETag for a website it does not serve', async () => {
+            const response = await app.inject({ method: 'GET', url: `/runtime/websites/${UNKNOWN_SITE_ID}` });
+            expect(response.statusCode).toBe(404);
+            expect(response.headers.etag).toBeUndefined();
+        });
+    });
+
+    describe('createMemoryCache', () => {
+        it('should evict the least recently used entry', async () => {
+            const cache = createMemoryCache(2);
+            await cache.set('a', '1', 60);
+            await cache.set('b', '2', 60);
+            await cache.get('a');
+            await cache.set('c', '3', 60);
+
+            expect(await cache.get('a')).toBe('1');
+            expect(await cache.get('b')).toBeNull();
+            expect(await cache.get('c')).toBe('3');
+        });
+
+        it('should expire entries', async () => {
+            const cache = createMemoryCache(10);
+            const now = Date.now();
+            const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+            await cache.set('a', '1', 60);
+            clock.mockReturnValue(now + 61 * 1000);
+
+            expect(await cache.get('a')).toBeNull();
+            clock.mockRestore();
+        });
+    });
+
+    describe('createRedisCache', () => {
+        // Just enough of a Redis server with a password: AUTH, GET, SET with EX and DEL
+        const commands: string[][] = [];
+        const values = new Map<string, string>();
+        let silent = false;
+        let server: net.Server;
+        const connections = new Set<net.Socket>();
+        let port: number;
+
+        function handle(args: string[], session: { authenticated: boolean }): string {
+            commands.push(args);
+            if (args[0] !== 'AUTH' && !session.authenticated) {
+                return '-NOAUTH Authentication required.\r\n';
+            }
+            switch (args[0]) {
+                case 'AUTH':
+                    session.authenticated = args[1] === 'secret';
+                    return session.authenticated ? '+OK\r\n' : '-WRONGPASS invalid password\r\n';
+                case 'GET': {
+                    const value = values.get(args[1]);
+                    return value === undefined ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+                }
+                case 'SET':
+                    values.set(args[1], args[2]);
+                    return '+OK\r\n';
+                case 'DEL':
+                    return `:${values.delete(args[1]) ? 1 : 0}\r\n`;
+                default:
+                    return `-ERR unknown command '${args[0]}'\r\n`;
+            }
+        }
+
+        beforeAll(async () => {
+            server = net.createServer((socket) => {
+                connections.add(socket);
+                let buffer = Buffer.alloc(0);
+                const session = { authenticated: false };
+                socket.on('data', (chunk: Buffer) => {
+                    buffer = Buffer.concat([buffer, chunk]);
+                    // Whole commands only: *<n>, then $<length> and the argument for each
+                    for (;;) {
+                        const match = /^\*(\d+)\r\n/.exec(buffer.toString('latin1'));
+                        if (!match) return;
+                        let offset = match[0].length;
+                        const args: string[] = [];
+                        for (let i = 0; i < parseInt(match[1], 10); i++) {
+                            const header = /^\$(\d+)\r\n/.exec(buffer.toString('latin1', offset));
+                            if (!header) return;
+                            const start = offset + header[0].length;
+                            const length = parseInt(header[1], 10);
+                            if (buffer.length < start + length + 2) return;
+                            args.push(buffer.toString('utf8', start, start + length));
+                            offset = start + length + 2;
+                        }
+                        buffer = buffer.subarray(offset);
+                        if (!silent) socket.write(handle(args, session));
+                    }
+                });
+            });
+            await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+            port = (server.address() as AddressInfo).port;
+        });
+
+        afterAll(async () => {
+            // The caches keep their connections open
+            for (const socket of connections) socket.destroy();
+            await new Promise((resolve) => server.close(resolve));
+        });
+
+        beforeEach(() => {
+            commands.length = 0;
+            values.clear();
+            silent = false;
+        });
+
+        it('should authenticate, then get, set and delete values', async () => {
+            const cache = createRedisCache(`redis://:secret@127.0.0.1:${port}`);
+            expect(await cache.get('missing')).toBeNull();
+            await cache.set('key', '{"config":null,"etag":"ünïcode"}', 300);
+            expect(await cache.get('key')).toBe('{"config":null,"etag":"ünïcode"}');
+            await cache.delete('key');
+            expect(await cache.get('key')).toBeNull();
+
+            expect(commands.map((args) => args[0])).toEqual(['AUTH', 'GET', 'SET', 'GET', 'DEL', 'GET']);
+            expect(commands[2]).toEqual(['SET', 'key', '{"config":null,"etag":"ünïcode"}', 'EX', '300']);
+        });
+
+        it('should fail commands the server does not accept', async () => {
+            const cache = createRedisCache(`redis://:wrong@127.0.0.1:${port}`);
+            await expect(cache.get('key')).rejects.toThrow('NOAUTH');
+        });
+
+        it('should fail commands that get no reply in time', async () => {
+            silent = true;
+            const cache = createRedisCache(`redis://:secret@127.0.0.1:${port}`, 50);
+            await expect(cache.get('key')).rejects.toThrow('timed out');
+
+            // The next command reconnects
+            silent = false;
+            expect(await cache.get('key')).toBeNull();
+        });
+    });
+});
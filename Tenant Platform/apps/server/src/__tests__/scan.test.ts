@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as dns from 'dns';
+
+jest.mock('../config', () => ({
+    config: { scanner: { navigationTimeoutMs: 15000, settleMs: 0 } },
+}));
+
+const SITE_ID = '5a9d3f1c-8e2b-4c74-b6a0-1f7e4d9c2b83';
+const TENANT_ID = 'c2e8a4f6-1b3d-4d95-8f07-6a2c9e1b5d34';
+const ACTOR_ID = '9f1b7d3e-4c6a-4e28-a0b5-3d8f2c6e1a79';
+const REQUEST_INFO = { ipAddress: '203.0.113.7', userAgent: 'jest' };
+
+let domain = 'shop.example.com';
+
+const websiteRepository = {
+    findByIdAndTenant: jest.fn(async (id: string) => ({ id, tenantId: TENANT_ID, domain })),
+};
+const scanRepository = {
+    hasActiveScan: jest.fn(async (_websiteId: string) => false),
+    create: jest.fn(async (data: { websiteId: string; startUrls: string[]; maxPages: number }) => ({ id: 'scan-1', status: 'PENDING', ...data })),
+    markRunning: jest.fn(async (_scanId: string) => undefined),
+    complete: jest.fn(async (..._args: unknown[]) => undefined),
+    fail: jest.fn(async (..._args: unknown[]) => undefined),
+};
+const auditRepository = {
+    create: jest.fn(async (..._args: unknown[]) => undefined),
+};
+
+jest.mock('../repositories', () => ({
+    websiteRepository,
+    scanRepository,
+    auditRepository,
+    purposeRepository: { findByWebsiteId: async () => [] },
+    trackerRepository: { findCatalogue: async () => [] },
+}));
+
+// No browser: the crawl itself is covered by the scanner tests
+jest.mock('../services/scanner.service', () => ({
+    ...(jest.requireActual('../services/scanner.service') as object),
+    scannerService: { scan: async () => ({ pages: [], items: [] }) },
+}));
+
+import { scanService } from '../services/scan.service';
+
+// What the website domains resolve to
+const ADDRESSES: Record<string, string> = {
+    'shop.example.com': '93.184.215.14',
+    'intranet.example.com': '10.0.4.12',
+    'metadata.example.com': '169.254.169.254',
+};
+
+const start = (urls: string[] = []) =>
+    scanService.start(SITE_ID, TENANT_ID, ACTOR_ID, { urls, maxPages: 5 }, REQUEST_INFO);
+
+describe('Scans', () => {
+    beforeEach(() => {
+        domain = 'shop.example.com';
+        jest.clearAllMocks();
+        // The module itself: the namespace import only has getters
+        jest.spyOn(jest.requireActual<typeof dns>('dns').promises, 'lookup').mockImplementation((async (hostname: string) => {
+            if (!ADDRESSES[hostname]) {
+                throw Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' });
+            }
+            return [{ address: ADDRESSES[hostname], family: 4 }];
+        }) as unknown as typeof dns.promises.lookup);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('scanService.start', () => {
+        it('should queue a scan of a public website', async () => {
+            const scan = await start();
+
+            expect(scan).toMatchObject({ status: 'PENDING', startUrls: ['https://shop.example.com/'] });
+            expect(scanRepository.create).toHaveBeenCalledTimes(1);
+        });
+
+        it.each([
+            ['localhost', 'a local name'],
+            ['10.0.0.5', 'a private address'],
+            ['intranet.example.com', 'a name resolving to a private address'],
+            ['metadata.example.com', 'a name resolving to a link-local address'],
+            ['gone.example.com', 'a name that does not resolve'],
+        ])('should refuse to scan %s, %s', async (host) => {
+            domain = host;
+
+            await expect(start()).rejects.toMatchObject({ statusCode: 400, message: `${host} is not a public host` });
+            expect(scanRepository.create).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals';
+import { startScanSchema, scanIdParamSchema } from '../validators/scan.validator';
+
+describe('Scan Validators', () => {
+    describe('startScanSchema', () => {
+        it('should default to the website home page and 10 pages', () => {
+            const result = startScanSchema.safeParse({});
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data.urls).toEqual([]);
+                expect(result.data.maxPages).toBe(10);
+            }
+        });
+
+        it('should accept http and https start URLs', () => {
+            const result = startScanSchema.safeParse({
+                urls: ['https://example.com/', ' http://shop.example.com/cart '],
+                maxPages: 25,
+            });
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data.urls[1]).toBe('http://shop.example.com/cart');
+            }
+        });
+
+        it('should reject other URL schemes', () => {
+            expect(startScanSchema.safeParse({ urls: ['ftp://example.com/'] }).success).toBe(false);
+            expect(startScanSchema.safeParse({ urls: ['javascript:alert(1)'] }).success).toBe(false);
+            expect(startScanSchema.safeParse({ urls: ['example.com'] }).success).toBe(false);
+        });
+
+        it('should limit the number of pages', () => {
+            expect(startScanSchema.safeParse({ maxPages: 0 }).success).toBe(false);
+            expect(startScanSchema.safeParse({ maxPages: 51 }).success).toBe(false);
+            expect(startScanSchema.safeParse({ maxPages: 50 }).success).toBe(true);
+        });
+    });
+
+    describe('scanIdParamSchema', () => {
+        it('should require UUIDs', () => {
+            expect(scanIdParamSchema.safeParse({
+                id: '7e5f1f45-6105-4ffd-b656-012e7cf85320',
+                scanId: '9b2d4c4e-1f7a-4c55-9a0e-3f3b1c2d4e5f',
+            }).success).toBe(true);
+            expect(scanIdParamSchema.safeParse({
+                id: '7e5f1f45-6105-4ffd-b656-012e7cf85320',
+                scanId: 'latest',
+            }).success).toBe(false);
+        });
+    });
+});
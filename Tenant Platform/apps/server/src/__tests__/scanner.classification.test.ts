@@ -0,0 +1,370 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as dns from 'dns';
+
+jest.mock('../config', () => ({
+    config: { scanner: { navigationTimeoutMs: 15000, settleMs: 0 } },
+}));
+
+// What a page does in the browser: cookies and storage keys it sets and
+// the requests it makes. pixels are 1x1 images left in the document.
+interface PageEffects {
+    cookies?: Array<{ name: string; domain: string }>;
+    storage?: string[];
+    requests?: Array<{ url: string; type: 'script' | 'document' | 'image' | 'ping'; contentLength?: number }>;
+    pixels?: string[];
+}
+
+interface ScriptedPage {
+    status: number;
+    links?: string[];
+    acceptButton?: string;  // Selector of its Accept All button
+    onLoad?: PageEffects;
+    onAccept?: PageEffects; // When Accept All is clicked, and on every load once consent is stored
+}
+
+let site: Record<string, ScriptedPage> = {};
+// What the request interception did with each URL: 'continue' or the abort reason
+let decisions: Record<string, string> = {};
+let launches: Array<{ args?: string[] }> = [];
+
+/**
+ * A headless browser that plays the scripted pages instead of running
+ * them. Each context has its own cookies, storage and consent.
+ */
+function createScriptedBrowser() {
+    return {
+        close: async () => undefined,
+        createBrowserContext: async () => {
+            const cookies = new Map<string, { name: string; domain: string }>();
+            const storage = new Set<string>();
+            let consented = false;
+
+            return {
+                cookies: async () => Array.from(cookies.values()),
+                close: async () => undefined,
+                newPage: async () => {
+                    const listeners: Record<string, Array<(event: unknown) => void>> = {};
+                    const mainFrame = {};
+                    const childFrame = {};
+                    let current: { url: string; page: ScriptedPage } | null = null;
+                    let pixels: string[] = [];
+
+                    const emit = (event: string, value: unknown) => (listeners[event] || []).forEach((listener) => listener(value));
+                    const apply = (effects: PageEffects = {}) => {
+                        (effects.cookies || []).forEach((cookie) => cookies.set(`${cookie.domain}|${cookie.name}`, cookie));
+                        (effects.storage || []).forEach((key) => storage.add(key));
+                        (effects.requests || []).forEach((entry) => {
+                            const request = {
+                                url: () => entry.url,
+                                resourceType: () => entry.type,
+                                frame: () => (entry.type === 'document' ? childFrame : mainFrame),
+                                continue: async () => {
+                                    decisions[entry.url] = 'continue';
+                                },
+                                abort: async (reason: string) => {
+                                    decisions[entry.url] = reason;
+                                },
+                            };
+                            emit('request', request);
+                            emit('response', {
+                                request: () => request,
+                                url: () => entry.url,
+                                headers: () => (entry.contentLength === undefined ? {} : { 'content-length': String(entry.contentLength) }),
+                            });
+                        });
+                        pixels = pixels.concat(effects.pixels || []);
+                    };
+                    const load = async (url: string) => {
+                        const page = site[url];
+                        if (!page) {
+                            throw new Error(`net::ERR_CONNECTION_REFUSED at ${url}`);
+                        }
+                        current = { url, page };
+                        pixels = [];
+                        apply(page.onLoad);
+                        if (consented) {
+                            apply(page.onAccept);
+                        }
+                        return { status: () => page.status };
+                    };
+                    const open = () => {
+                        if (!current) {
+                            throw new Error('No page loaded');
+                        }
+                        return current;
+                    };
+
+                    return {
+                        setDefaultNavigationTimeout: () => undefined,
+                        setRequestInterception: async () => undefined,
+                        on: (event: string, listener: (event: unknown) => void) => {
+                            listeners[event] = (listeners[event] || []).concat(listener);
+                        },
+                        goto: load,
+                        reload: () => load(open().url),
+                        waitForNetworkIdle: async () => undefined,
+                        url: () => open().url,
+                        mainFrame: () => mainFrame,
+                        evaluate: async () => ({ keys: Array.from(storage), pixels }),
+                        $$eval: async () => (open().page.links || []).map((link) => new URL(link, open().url).href),
+                        $: async (selector: string) => {
+                            const { page } = open();
+                            if (consented || page.acceptButton !== selector) {
+                                return null;
+                            }
+                            return {
+                                isVisible: async () => true,
+                                click: async () => {
+                                    consented = true;
+                                    apply(page.onAccept);
+                                },
+                            };
+                        },
+                    };
+                },
+            };
+        },
+    };
+}
+
+jest.mock('puppeteer', () => ({
+    __esModule: true,
+    default: {
+        launch: async (options: { args?: string[] }) => {
+            launches.push(options);
+            return createScriptedBrowser();
+        },
+    },
+}));
+
+import { scannerService } from '../services/scanner.service';
+import { ScanItem } from '../types';
+import { CATALOGUE } from './helpers/tracker-catalogue';
+
+// The pages in Testing/, opened on 127.0.0.1 with third-party resources
+// served from localhost
+const SITE = 'http://127.0.0.1:8080';
+const THIRD_PARTY = 'http://localhost:8080';
+const LOADER_REQUEST = { url: 'http://localhost:3001/public/loader.js?site=1', type: 'script' as const };
+
+const FIXTURE_PAGES: Record<string, ScriptedPage> = {
+    [`${SITE}/test_scanner.html`]: {
+        status: 200,
+        links: ['test.html', 'test_cmp_blocking.html#top', 'https://example.com/'],
+        acceptButton: '#complyark-accept-btn',
+        onLoad: {
+            cookies: [{ name: 'PHPSESSID', domain: '127.0.0.1' }],
+            storage: ['cart_id'],
+        },
+        onAccept: {
+            cookies: [{ name: '_ga', domain: '127.0.0.1' }],
+            storage: ['__complyark_consent__'],
+            requests: [
+                { url: `${THIRD_PARTY}/analytics.js`, type: 'script' },
+                { url: `${THIRD_PARTY}/html.html`, type: 'document' },
+            ],
+        },
+    },
+    [`${SITE}/test.html`]: {
+        status: 200,
+        links: ['test_scanner.html'],
+        onLoad: { requests: [LOADER_REQUEST] },
+    },
+    [`${SITE}/test_cmp_blocking.html`]: {
+        status: 200,
+        acceptButton: '#onetrust-accept-btn-handler',
+        onLoad: { requests: [LOADER_REQUEST] },
+        onAccept: {
+            cookies: [{ name: '_fbp', domain: '.127.0.0.1' }],
+            requests: [
+                // Seen both as a small image response and as a 1x1 image
+                { url: 'https://www.facebook.com/tr?id=1&ev=PageView', type: 'image', contentLength: 43 },
+                // Too large to be a pixel
+                { url: `${THIRD_PARTY}/hero.png`, type: 'image', contentLength: 48000 },
+                { url: 'https://collect.tracker.test/beacon', type: 'ping' },
+            ],
+            pixels: ['https://www.facebook.com/tr?id=1&ev=PageView', 'https://t.tracker.test/p.gif?u=1'],
+        },
+    },
+};
+
+const PURPOSES = [
+    { tag: 'essential', isEssential: true },
+    { tag: 'analytics', isEssential: false },
+    { tag: 'marketing', isEssential: false },
+];
+
+const find = (items: ScanItem[], type: string, name: string) =>
+    items.find((item) => item.type === type && item.name === name);
+
+// Public addresses of the third-party names in the fixtures; the rest do not resolve
+const ADDRESSES: Record<string, string> = {
+    'www.facebook.com': '157.240.1.35',
+    'collect.tracker.test': '10.20.0.7',
+};
+
+describe('Scanner crawl classification', () => {
+    beforeEach(() => {
+        site = FIXTURE_PAGES;
+        decisions = {};
+        launches = [];
+        // The module itself: the namespace import only has getters
+        jest.spyOn(jest.requireActual<typeof dns>('dns').promises, 'lookup').mockImplementation((async (hostname: string) => {
+            if (!ADDRESSES[hostname]) {
+                throw Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' });
+            }
+            return [{ address: ADDRESSES[hostname], family: 4 }];
+        }) as unknown as typeof dns.promises.lookup);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should follow same-site links once and leave external ones', async () => {
+        const { pages } = await scannerService.scan([`${SITE}/test_scanner.html`], 10, PURPOSES, CATALOGUE);
+
+        expect(pages).toEqual([
+            { url: `${SITE}/test_scanner.html`, status: 200, acceptClicked: true },
+            { url: `${SITE}/test.html`, status: 200, acceptClicked: false },
+            { url: `${SITE}/test_cmp_blocking.html`, status: 200, acceptClicked: true },
+        ]);
+    });
+
+    it('should stop at the page limit', async () => {
+        const { pages } = await scannerService.scan([`${SITE}/test_scanner.html`], 2, PURPOSES, CATALOGUE);
+        expect(pages.map((page) => page.url)).toEqual([`${SITE}/test_scanner.html`, `${SITE}/test.html`]);
+    });
+
+    it('should classify cookies and storage by when they were set', async () => {
+        const { items } = await scannerService.scan([`${SITE}/test_scanner.html`], 10, PURPOSES, CATALOGUE);
+
+        expect(find(items, 'COOKIE', 'PHPSESSID')).toMatchObject({
+            domain: '127.0.0.1',
+            firstParty: true,
+            beforeConsent: true,
+            afterAccept: true,
+            suggestedCategory: 'essential',
+            suggestedPurpose: 'essential',
+            reason: 'Session cookies',
+        });
+        expect(find(items, 'LOCAL_STORAGE', 'cart_id')).toMatchObject({
+            beforeConsent: true,
+            suggestedCategory: 'unknown',
+            suggestedPurpose: null,
+            trackerId: null,
+        });
+        expect(find(items, 'COOKIE', '_ga')).toMatchObject({
+            beforeConsent: false,
+            afterAccept: true,
+            suggestedCategory: 'analytics',
+            suggestedPurpose: 'analytics',
+            trackerId: CATALOGUE.find((entry) => entry.name === 'Google Analytics')?.id,
+        });
+        // The leading dot of a domain cookie is dropped
+        expect(find(items, 'COOKIE', '_fbp')).toMatchObject({
+            domain: '127.0.0.1',
+            afterAccept: true,
+            suggestedCategory: 'marketing',
+            reason: 'Meta Pixel',
+        });
+        expect(find(items, 'LOCAL_STORAGE', '__complyark_consent__')).toMatchObject({
+            beforeConsent: false,
+            suggestedCategory: 'essential',
+        });
+    });
+
+    it('should classify scripts and iframes and list the pages they were seen on', async () => {
+        const { items } = await scannerService.scan([`${SITE}/test_scanner.html`], 10, PURPOSES, CATALOGUE);
+
+        expect(find(items, 'SCRIPT', `${THIRD_PARTY}/analytics.js`)).toMatchObject({
+            domain: 'localhost',
+            firstParty: false,
+            beforeConsent: false,
+            afterAccept: true,
+            suggestedCategory: 'unknown',
+            pages: [`${SITE}/test_scanner.html`],
+        });
+        expect(find(items, 'IFRAME', `${THIRD_PARTY}/html.html`)).toMatchObject({ firstParty: false, afterAccept: true });
+
+        // Named without the query string
+        expect(find(items, 'SCRIPT', 'http://localhost:3001/public/loader.js')).toMatchObject({
+            beforeConsent: true,
+            suggestedCategory: 'essential',
+            reason: 'ComplyArk',
+            pages: [`${SITE}/test.html`, `${SITE}/test_cmp_blocking.html`],
+        });
+    });
+
+    it('should list each tracking pixel once and leave larger images out', async () => {
+        const { items } = await scannerService.scan([`${SITE}/test_cmp_blocking.html`], 1, PURPOSES, CATALOGUE);
+        const pixels = items.filter((item) => item.type === 'PIXEL');
+
+        expect(pixels.map((item) => item.name)).toEqual([
+            'https://collect.tracker.test/beacon',
+            'https://t.tracker.test/p.gif',
+            'https://www.facebook.com/tr',
+        ]);
+        expect(find(items, 'PIXEL', 'https://www.facebook.com/tr')).toMatchObject({
+            beforeConsent: false,
+            afterAccept: true,
+            suggestedCategory: 'marketing',
+            reason: 'Meta Pixel',
+        });
+        // Unknown third-party pixels count as marketing
+        expect(find(items, 'PIXEL', 'https://t.tracker.test/p.gif')).toMatchObject({
+            suggestedCategory: 'marketing',
+            suggestedPurpose: 'marketing',
+            reason: 'Third-party tracking pixel',
+        });
+        expect(items.some((item) => item.name.endsWith('/hero.png'))).toBe(false);
+    });
+
+    it('should sort items by type, domain and name', async () => {
+        const { items } = await scannerService.scan([`${SITE}/test_scanner.html`], 10, PURPOSES, CATALOGUE);
+        const order = ['COOKIE', 'LOCAL_STORAGE', 'SCRIPT', 'IFRAME', 'PIXEL'];
+        const ranks = items.map((item) => order.indexOf(item.type));
+
+        expect(ranks).toEqual([...ranks].sort((a, b) => a - b));
+        expect(items.filter((item) => item.type === 'COOKIE').map((item) => item.name)).toEqual(['_fbp', '_ga', 'PHPSESSID']);
+    });
+
+    it('should record pages that fail to load and keep crawling', async () => {
+        const { pages, items } = await scannerService.scan([`${SITE}/missing.html`, `${SITE}/test.html`], 5, PURPOSES, CATALOGUE);
+
+        expect(pages[0]).toEqual({
+            url: `${SITE}/missing.html`,
+            status: null,
+            acceptClicked: false,
+            error: `net::ERR_CONNECTION_REFUSED at ${SITE}/missing.html`,
+        });
+        expect(pages.map((page) => page.url)).toEqual([
+            `${SITE}/missing.html`,
+            `${SITE}/test.html`,
+            `${SITE}/test_scanner.html`,
+            `${SITE}/test_cmp_blocking.html`,
+        ]);
+        expect(items.length).toBeGreaterThan(0);
+    });
+
+    it('should let the browser reach public hosts only', async () => {
+        const { items } = await scannerService.scan([`${SITE}/test_cmp_blocking.html`], 1, PURPOSES, CATALOGUE);
+
+        expect(decisions).toEqual({
+            [LOADER_REQUEST.url]: 'blockedbyclient',
+            'https://www.facebook.com/tr?id=1&ev=PageView': 'continue',
+            [`${THIRD_PARTY}/hero.png`]: 'blockedbyclient',
+            // Resolves to a private address
+            'https://collect.tracker.test/beacon': 'blockedbyclient',
+        });
+        // Blocked requests are still listed: the page made them
+        expect(find(items, 'PIXEL', 'https://collect.tracker.test/beacon')).toBeDefined();
+    });
+
+    it('should keep the Chrome sandbox on', async () => {
+        await scannerService.scan([`${SITE}/test.html`], 1, PURPOSES, CATALOGUE);
+
+        expect(launches).toHaveLength(1);
+        expect(launches[0].args).not.toContain('--no-sandbox');
+    });
+});
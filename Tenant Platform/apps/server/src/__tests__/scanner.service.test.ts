@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import puppeteer from 'puppeteer';
+
+jest.mock('../config', () => ({
+    config: { scanner: { navigationTimeoutMs: 15000, settleMs: 300 } },
+}));
+
+// The fixture server listens on 127.0.0.1, which the scanner refuses otherwise
+jest.mock('../utils/outbound-http', () => ({ isPublicHost: async () => true }));
+
+import { scannerService, suggestCategory, suggestPurposeTag, isFirstParty } from '../services/scanner.service';
+import { CATALOGUE } from './helpers/tracker-catalogue';
+
+const FIXTURES_DIR = path.resolve(__dirname, '../../../../../Testing');
+
+// The crawl tests need a headless Chrome that starts. Without one they are
+// reported as skipped; scanner.classification.test.ts covers the crawl
+// with a scripted browser.
+const CHROME_AVAILABLE = spawnSync(puppeteer.executablePath(), ['--headless', '--version'], { timeout: 20000 }).status === 0;
+const crawlIt = CHROME_AVAILABLE ? it : it.skip;
+
+// Serves the fixture pages; missing files are plain 404s
+function startFixtureServer(): Promise<http.Server> {
+    const server = http.createServer((req, res) => {
+        const name = decodeURIComponent((req.url || '/').split('?')[0]).replace(/^\/+/, '');
+        const file = path.join(FIXTURES_DIR, name);
+        if (!file.startsWith(FIXTURES_DIR) || !fs.existsSync(file) || !fs.statSync(file).isFile()) {
+            res.writeHead(404, { 'Content-Type': 'text/plain' });
+            res.end('Not found');
+            return;
+        }
+        res.writeHead(200, { 'Content-Type': file.endsWith('.html') ? 'text/html' : 'application/octet-stream' });
+        fs.createReadStream(file).pipe(res);
+    });
+    return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('Scanner Service', () => {
+    describe('suggestCategory', () => {
+        const suggest = (type: Parameters<typeof suggestCategory>[0], name: string, domain: string, firstParty: boolean) =>
+            suggestCategory(type, name, domain, firstParty, CATALOGUE);
+
+        it('should recognise known cookies by name', () => {
+            expect(suggest('COOKIE', '_ga', 'example.com', true).category).toBe('analytics');
+            expect(suggest('COOKIE', '_ga_ABC123', 'example.com', true).category).toBe('analytics');
+            expect(suggest('COOKIE', '_fbp', 'example.com', true).category).toBe('marketing');
+            expect(suggest('COOKIE', 'PHPSESSID', 'example.com', true).category).toBe('essential');
+            expect(suggest('LOCAL_STORAGE', '__complyark_consent__', 'example.com', true).category).toBe('essential');
+        });
+
+        it('should recognise known trackers by script URL, then by domain including subdomains', () => {
+            // The gtag.js URL belongs to Google Analytics, other Tag Manager URLs to Tag Manager
+            expect(suggest('SCRIPT', 'https://www.googletagmanager.com/gtag/js', 'www.googletagmanager.com', false))
+                .toMatchObject({ category: 'analytics', reason: 'Google Analytics' });
+            expect(suggest('SCRIPT', 'https://www.googletagmanager.com/gtm.js', 'www.googletagmanager.com', false))
+                .toMatchObject({ category: 'analytics', reason: 'Google Tag Manager' });
+            expect(suggest('IFRAME', 'https://td.doubleclick.net/td/rul/1', 'td.doubleclick.net', false).category).toBe('marketing');
+            expect(suggest('IFRAME', 'https://www.youtube.com/embed/x', 'www.youtube.com', false).category).toBe('marketing');
+            // Lookalike domains do not match
+            expect(suggest('SCRIPT', 'https://notfacebook.net/a.js', 'notfacebook.net', false).category).toBe('unknown');
+        });
+
+        it('should return the matched catalogue entry', () => {
+            const ga = CATALOGUE.find((entry) => entry.name === 'Google Analytics');
+            expect(suggest('COOKIE', '_gid', 'example.com', true).trackerId).toBe(ga?.id);
+            expect(suggest('COOKIE', 'prefs', 'example.com', true).trackerId).toBeNull();
+        });
+
+        it('should treat unknown third-party pixels as marketing', () => {
+            expect(suggest('PIXEL', 'https://t.tracker.test/p.gif', 't.tracker.test', false).category).toBe('marketing');
+            expect(suggest('PIXEL', 'https://example.com/p.gif', 'example.com', true).category).toBe('unknown');
+            expect(suggest('COOKIE', 'prefs', 'example.com', true).category).toBe('unknown');
+        });
+
+        it('should suggest nothing without a catalogue', () => {
+            expect(suggestCategory('COOKIE', '_ga', 'example.com', true, []).category).toBe('unknown');
+        });
+    });
+
+    describe('suggestPurposeTag', () => {
+        const purposes = [
+            { tag: 'necessary', isEssential: true },
+            { tag: 'site_analytics', isEssential: false },
+            { tag: 'marketing', isEssential: false },
+        ];
+
+        it('should match purposes by tag and fall back to the essential purpose', () => {
+            expect(suggestPurposeTag('marketing', purposes)).toBe('marketing');
+            expect(suggestPurposeTag('analytics', purposes)).toBe('site_analytics');
+            expect(suggestPurposeTag('essential', purposes)).toBe('necessary');
+            expect(suggestPurposeTag('functional', purposes)).toBeNull();
+            expect(suggestPurposeTag('unknown', purposes)).toBeNull();
+        });
+    });
+
+    describe('isFirstParty', () => {
+        it('should treat the site, its parent domain and subdomains as first party', () => {
+            expect(isFirstParty('.example.com', 'www.example.com')).toBe(true);
+            expect(isFirstParty('shop.example.com', 'example.com')).toBe(true);
+            expect(isFirstParty('example.com.evil.test', 'example.com')).toBe(false);
+            expect(isFirstParty('localhost', '127.0.0.1')).toBe(false);
+        });
+    });
+
+    describe('scan', () => {
+        let server: http.Server;
+        let baseUrl: string;
+
+        beforeAll(async () => {
+            server = await startFixtureServer();
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        });
+
+        afterAll(async () => {
+            await new Promise((resolve) => server.close(resolve));
+        });
+
+        crawlIt('should list what the fixture pages set before consent and after Accept All', async () => {
+            const { pages, items } = await scannerService.scan(
+                [`${baseUrl}/test_scanner.html`],
+                5,
+                [{ tag: 'essential', isEssential: true }, { tag: 'analytics', isEssential: false }],
+                CATALOGUE
+            );
+
+            // Same-site links are followed, external ones are not
+            expect(pages.map((page) => page.url)).toEqual([
+                `${baseUrl}/test_scanner.html`,
+                `${baseUrl}/test.html`,
+                `${baseUrl}/test_cmp_blocking.html`,
+            ]);
+            expect(pages[0]).toMatchObject({ status: 200, acceptClicked: true });
+            expect(pages[1].acceptClicked).toBe(false);
+
+            const find = (type: string, name: string) => items.find((item) => item.type === type && item.name === name);
+
+            expect(find('COOKIE', 'PHPSESSID')).toMatchObject({
+                domain: '127.0.0.1',
+                firstParty: true,
+                beforeConsent: true,
+                suggestedCategory: 'essential',
+                suggestedPurpose: 'essential',
+            });
+            expect(find('LOCAL_STORAGE', 'cart_id')).toMatchObject({ beforeConsent: true, suggestedCategory: 'unknown' });
+
+            // Only set after Accept All
+            expect(find('COOKIE', '_ga')).toMatchObject({
+                beforeConsent: false,
+                afterAccept: true,
+                suggestedCategory: 'analytics',
+                suggestedPurpose: 'analytics',
+            });
+            const port = (server.address() as AddressInfo).port;
+            expect(find('SCRIPT', `http://localhost:${port}/analytics.js`)).toMatchObject({
+                firstParty: false,
+                beforeConsent: false,
+                afterAccept: true,
+            });
+            expect(find('IFRAME', `http://localhost:${port}/html.html`)).toMatchObject({ firstParty: false, afterAccept: true });
+
+            // The loader referenced by the other fixture pages
+            expect(find('SCRIPT', 'http://localhost:3001/public/loader.js')).toMatchObject({
+                beforeConsent: true,
+                suggestedCategory: 'essential',
+                pages: [`${baseUrl}/test.html`, `${baseUrl}/test_cmp_blocking.html`],
+            });
+        }, 120000);
+
+        crawlIt('should record pages that fail to load', async () => {
+            const { pages, items } = await scannerService.scan(['http://127.0.0.1:1/'], 1);
+            expect(pages).toHaveLength(1);
+            expect(pages[0].status).toBeNull();
+            expect(pages[0].error).toBeTruthy();
+            expect(items).toEqual([]);
+        }, 60000);
+    });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Fastify, { FastifyInstance } from 'fastify';
+import { LOADER_BUNDLE_DIR, loadPage, runtimeConfig, waitForBanner } from './helpers/loader-page';
+
+const STATIC_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'static-bundles-'));
+
+jest.mock('../config', () => ({
+    config: {
+        rateLimits: { store: 'off' },
+        tcf: { cmpId: 0, cmpVersion: 1 },
+        loader: { bundleDir: LOADER_BUNDLE_DIR },
+        telemetry: { sampleRate: 0 },
+        staticBundles: {
+            store: 'local',
+            localDir: STATIC_DIR,
+            publicUrl: 'https://static.example.com',
+            apiUrl: 'https://consent.example.com',
+            siteLoaders: true,
+        },
+    },
+}));
+
+const SITE_ID = '5c8e2b71-3f4a-4d96-a1e0-7b2d9c6f4e58';
+
+let mockConfig: ReturnType<typeof runtimeConfig> | null = runtimeConfig(SITE_ID, { configVersion: 4 });
+
+const runtimeService = {
+    loadWebsiteConfig: jest.fn(async (_siteId: string) => mockConfig),
+    getWebsiteConfig: jest.fn(async (_siteId: string) => mockConfig),
+};
+
+jest.mock('../services/runtime.service', () => ({ runtimeService }));
+
+jest.mock('../repositories', () => ({
+    websiteRepository: { findIdsByStatus: async () => [SITE_ID] },
+}));
+
+import { staticBundleService } from '../services/static-bundle.service';
+import { staticBundleRoutes } from '../routes/static.routes';
+import { loaderRoutes } from '../routes/loader.routes';
+import { createS3Store } from '../utils/static-store';
+import { config } from '../config';
+
+const siteDir = path.join(STATIC_DIR, 'sites', SITE_ID);
+const readFile = (file: string) => fs.readFileSync(path.join(siteDir, file), 'utf8');
+
+describe('Static publishing', () => {
+    let app: FastifyInstance;
+
+    beforeAll(async () => {
+        app = Fastify();
+        await app.register(loaderRoutes);
+        await app.register(staticBundleRoutes);
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+        fs.rmSync(STATIC_DIR, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        mockConfig = runtimeConfig(SITE_ID, { configVersion: 4 });
+        config.staticBundles.siteLoaders = true;
+        jest.clearAllMocks();
+    });
+
+    describe('staticBundleService.sync', () => {
+        it('should write the versioned config, the latest config, the loader and the manifest', async () => {
+            const manifest = await staticBundleService.sync(SITE_ID);
+
+            expect(manifest!.configFile).toMatch(/^config\.v4\.[0-9a-f]{12}\.json$/);
+            expect(JSON.parse(readFile(manifest!.configFile))).toEqual(mockConfig);
+            expect(readFile('config.json')).toBe(readFile(manifest!.configFile));
+            expect(JSON.parse(readFile('manifest.json'))).toEqual(manifest);
+
+            const loader = readFile('loader.js');
+            expect(loader).toContain('"configVersion":4');
+            expect(loader).toContain('https://consent.example.com');
+        });
+
+        it('should not rewrite an unchanged config', async () => {
+            const first = await staticBundleService.sync(SITE_ID);
+            const second = await staticBundleService.sync(SITE_ID);
+            expect(second!.writtenAt).toBe(first!.writtenAt);
+
+            mockConfig = runtimeConfig(SITE_ID, { configVersion: 5 });
+            const third = await staticBundleService.sync(SITE_ID);
+            expect(third!.configFile).toMatch(/^config\.v5\./);
+            // The previous version stays for pages that still point at it
+            expect(fs.existsSync(path.join(siteDir, first!.configFile))).toBe(true);
+        });
+
+        it('should remove the files of a website that is no longer active', async () => {
+            const manifest = await staticBundleService.sync(SITE_ID);
+            mockConfig = null;
+
+            expect(await staticBundleService.sync(SITE_ID)).toBeNull();
+            expect(fs.existsSync(path.join(siteDir, 'config.json'))).toBe(false);
+            expect(fs.existsSync(path.join(siteDir, 'loader.js'))).toBe(false);
+            expect(fs.existsSync(path.join(siteDir, 'manifest.json'))).toBe(false);
+            expect(fs.existsSync(path.join(siteDir, manifest!.configFile))).toBe(true);
+        });
+
+        it('should sync every active website', async () => {
+            mockConfig = runtimeConfig(SITE_ID, { configVersion: 6 });
+            expect(await staticBundleService.syncAll()).toEqual({ written: 1, failed: 0 });
+            expect(await staticBundleService.syncAll()).toEqual({ written: 0, failed: 0 });
+        });
+    });
+
+    describe('per-site loader', () => {
+        it('should show the banner without fetching the config', async () => {
+            await staticBundleService.sync(SITE_ID);
+            // No config given, so a runtime config fetch would never answer
+            const dom = loadPage(readFile('loader.js'));
+            await waitForBanner(dom);
+
+            expect(dom.window.document.getElementById('complyark-accept-btn')).not.toBeNull();
+            dom.window.close();
+        });
+    });
+
+    describe('GET /public/loader.js', () => {
+        const getLoader = () => app.inject({ method: 'GET', url: `/public/loader.js?id=${SITE_ID}` });
+
+        it('should serve the per-site loader', async () => {
+            await staticBundleService.sync(SITE_ID);
+            jest.clearAllMocks();
+
+            const response = await getLoader();
+            expect(response.statusCode).toBe(200);
+            expect(response.body).toBe(readFile('loader.js'));
+            expect(runtimeService.getWebsiteConfig).not.toHaveBeenCalled();
+        });
+
+        it('should point the shared loader at the versioned config without per-site loaders', async () => {
+            config.staticBundles.siteLoaders = false;
+            const manifest = await staticBundleService.sync(SITE_ID);
+            jest.clearAllMocks();
+
+            const bootstrap = (await getLoader()).body.split('\n')[0];
+            expect(bootstrap).toContain(`"configUrl":"https://static.example.com/sites/${SITE_ID}/${manifest!.configFile}"`);
+            expect(bootstrap).not.toContain('config.json');
+            expect(runtimeService.getWebsiteConfig).not.toHaveBeenCalled();
+        });
+
+        it('should leave a website without files to the runtime API', async () => {
+            mockConfig = null;
+            await staticBundleService.sync(SITE_ID);
+
+            const response = await getLoader();
+            const bootstrap = response.body.split('\n')[0];
+            expect(response.statusCode).toBe(200);
+            expect(bootstrap).toContain(`"siteId":"${SITE_ID}"`);
+            expect(bootstrap).not.toContain('configUrl');
+            expect(runtimeService.getWebsiteConfig).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('GET /static/sites/:siteId/:file', () => {
+        it('should serve the files with cache headers and an ETag', async () => {
+            const manifest = await staticBundleService.sync(SITE_ID);
+
+            const latest = await app.inject({ method: 'GET', url: `/static/sites/${SITE_ID}/config.json` });
+            expect(latest.statusCode).toBe(200);
+            expect(latest.headers['access-control-allow-origin']).toBe('*');
+            expect(latest.headers['cache-control']).toBe('public, max-age=60');
+            expect(latest.json()).toEqual(mockConfig);
+
+            const versioned = await app.inject({ method: 'GET', url: `/static/sites/${SITE_ID}/${manifest!.configFile}` });
+            expect(versioned.headers['cache-control']).toBe('public, max-age=31536000, immutable');
+
+            const revalidated = await app.inject({
+                method: 'GET',
+                url: `/static/sites/${SITE_ID}/config.json`,
+                headers: { 'if-none-match': latest.headers.etag as string },
+            });
+            expect(revalidated.statusCode).toBe(304);
+            expect(revalidated.body).toBe('');
+        });
+
+        it('should only serve the files static publishing writes', async () => {
+            for (const file of ['other.json', '..%2F..%2Fpackage.json', 'config.v1.xyz.json']) {
+                const response = await app.inject({ method: 'GET', url: `/static/sites/${SITE_ID}/${file}` });
+                expect(response.statusCode).toBe(404);
+            }
+            const badSite = await app.inject({ method: 'GET', url: '/static/sites/not-a-site/config.json' });
+            expect(badSite.statusCode).toBe(404);
+        });
+    });
+
+    describe('createS3Store', () => {
+        const fetchMock = jest.fn(async (_url: URL, _init: RequestInit) => new Response(null, { status: 200 }));
+        const originalFetch = global.fetch;
+
+        beforeAll(() => {
+            global.fetch = fetchMock as unknown as typeof fetch;
+        });
+
+        afterAll(() => {
+            global.fetch = originalFetch;
+        });
+
+        it('should upload signed requests with cache headers', async () => {
+            const store = createS3Store({
+                bucket: 'consent-static',
+                region: 'eu-west-1',
+                prefix: '/cdn/',
+                accessKeyId: 'AKIDEXAMPLE',
+                secretAccessKey: 'secret',
+            });
+            await store.put(`sites/${SITE_ID}/config.v4.0123456789ab.json`, '{}', 'application/json');
+
+            const [url, init] = fetchMock.mock.calls[0];
+            const headers = init.headers as Record<string, string>;
+            expect(url.toString()).toBe(`https://s3.eu-west-1.amazonaws.com/consent-static/cdn/sites/${SITE_ID}/config.v4.0123456789ab.json`);
+            expect(init.method).toBe('PUT');
+            expect(headers['cache-control']).toBe('public, max-age=31536000, immutable');
+            expect(headers['content-type']).toBe('application/json');
+            expect(headers.Authorization).toMatch(
+                /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/eu-west-1\/s3\/aws4_request, SignedHeaders=cache-control;content-type;host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+            );
+        });
+
+        it('should read a missing object as null', async () => {
+            fetchMock.mockResolvedValueOnce(new Response('NoSuchKey', { status: 404 }));
+            const store = createS3Store({ bucket: 'b', region: 'us-east-1', accessKeyId: 'a', secretAccessKey: 's' });
+            expect(await store.get('sites/x/config.json')).toBeNull();
+        });
+    });
+});
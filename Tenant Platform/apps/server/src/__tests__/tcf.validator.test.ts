@@ -0,0 +1,92 @@
+import { describe, it, expect } from '@jest/globals';
+import { importTcfVendorListSchema, updateTcfSettingsSchema } from '../validators/tcf.validator';
+
+const vendorList = {
+    gvlSpecificationVersion: 3,
+    vendorListVersion: 215,
+    tcfPolicyVersion: 4,
+    lastUpdated: '2026-10-15T16:00:22Z',
+    purposes: {
+        '1': { id: 1, name: 'Store and/or access information on a device', description: '...', illustrations: [] },
+    },
+    specialFeatures: {
+        '1': { id: 1, name: 'Use precise geolocation data', description: '...' },
+    },
+    vendors: {
+        '755': {
+            id: 755,
+            name: 'Google Advertising Products',
+            purposes: [1, 3, 4],
+            legIntPurposes: [2, 7],
+            flexiblePurposes: [2, 7],
+            specialPurposes: [1, 2],
+            features: [1, 2],
+            specialFeatures: [],
+            cookieMaxAgeSeconds: 34190000,
+            urls: [{ langId: 'en', privacy: 'https://business.safety.google/privacy/', legIntClaim: 'https://example.com' }],
+        },
+    },
+};
+
+describe('TCF Validators', () => {
+    describe('importTcfVendorListSchema', () => {
+        it('should accept a v3 Global Vendor List and keep only what the CMP uses', () => {
+            const result = importTcfVendorListSchema.safeParse(vendorList);
+            expect(result.success).toBe(true);
+            if (result.success) {
+                const vendor = result.data.vendors['755'];
+                expect(vendor.policyUrl).toBe('https://business.safety.google/privacy/');
+                expect(vendor).not.toHaveProperty('urls');
+                expect(vendor).not.toHaveProperty('cookieMaxAgeSeconds');
+                expect(result.data.specialPurposes).toEqual({});
+            }
+        });
+
+        it('should reject vendor lists from before TCF v2.2', () => {
+            const result = importTcfVendorListSchema.safeParse({ ...vendorList, tcfPolicyVersion: 2 });
+            expect(result.success).toBe(false);
+        });
+
+        it('should reject a file that is not a vendor list', () => {
+            const result = importTcfVendorListSchema.safeParse({ name: 'package.json' });
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('updateTcfSettingsSchema', () => {
+        it('should accept vendors and a purpose mapping', () => {
+            const result = updateTcfSettingsSchema.safeParse({
+                enabled: true,
+                publisherCountryCode: 'DE',
+                selectedVendorIds: [755, 8],
+                purposeMapping: {
+                    marketing: { purposes: [2, 3, 4], specialFeatures: [1] },
+                },
+            });
+            expect(result.success).toBe(true);
+        });
+
+        it('should apply defaults', () => {
+            const result = updateTcfSettingsSchema.safeParse({ enabled: false });
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data.publisherCountryCode).toBe('AA');
+                expect(result.data.selectedVendorIds).toEqual([]);
+                expect(result.data.purposeMapping).toEqual({});
+            }
+        });
+
+        it('should reject purposes outside IAB purposes 1-11', () => {
+            const result = updateTcfSettingsSchema.safeParse({
+                enabled: true,
+                purposeMapping: { analytics: { purposes: [12] } },
+            });
+            expect(result.success).toBe(false);
+        });
+
+        it('should reject a lowercase country code', () => {
+            const result = updateTcfSettingsSchema.safeParse({ enabled: true, publisherCountryCode: 'de' });
+            expect(result.success).toBe(false);
+        });
+    });
+});
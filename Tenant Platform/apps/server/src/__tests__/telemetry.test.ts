@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import Fastify, { FastifyInstance } from 'fastify';
+import { LOADER_BUNDLE_DIR, loadPage, runtimeConfig, waitForBanner } from './helpers/loader-page';
+
+jest.mock('../config', () => ({
+    config: {
+        rateLimits: { store: 'off' },
+        tcf: { cmpId: 0, cmpVersion: 1 },
+        loader: { bundleDir: LOADER_BUNDLE_DIR },
+        staticBundles: { store: '' },
+        telemetry: { sampleRate: 1, partitionsAhead: 2, retentionDays: 30 },
+    },
+}));
+
+const SITE_ID = '7d3f1a92-4c6b-4e18-8b5d-2f9e0c6a1b37';
+
+const mockConfig = runtimeConfig(SITE_ID);
+
+jest.mock('../services/runtime.service', () => ({
+    runtimeService: { getWebsiteConfig: async () => mockConfig },
+}));
+
+const partitionDays: string[] = [];
+const telemetryRepository = {
+    createPartition: jest.fn(async (day: string) => {
+        if (!partitionDays.includes(day)) partitionDays.push(day);
+    }),
+    findPartitionDays: jest.fn(async () => [...partitionDays].sort()),
+    dropPartition: jest.fn(async (day: string) => {
+        partitionDays.splice(partitionDays.indexOf(day), 1);
+    }),
+    insertEvents: jest.fn(async (..._args: unknown[]) => {}),
+};
+
+const websiteRepository = {
+    findById: jest.fn(async (id: string) => ({ id, status: 'ACTIVE' })),
+};
+
+jest.mock('../repositories', () => ({ telemetryRepository, websiteRepository }));
+
+import { loaderRoutes } from '../routes/loader.routes';
+import { telemetryService } from '../services/telemetry.service';
+import { telemetryBatchSchema } from '../validators/analytics.validator';
+
+describe('Loader telemetry', () => {
+    describe('telemetryBatchSchema', () => {
+        it('should accept known events with an optional language', () => {
+            const batch = { sampleRate: 0.25, events: [{ event: 'BANNER_SHOWN', language: 'hi' }, { event: 'DISMISSED' }] };
+            expect(telemetryBatchSchema.safeParse(batch).success).toBe(true);
+        });
+
+        it('should refuse unknown events, identifiers and bad sample rates', () => {
+            expect(telemetryBatchSchema.safeParse({ sampleRate: 1, events: [{ event: 'PAGE_VIEW' }] }).success).toBe(false);
+            expect(telemetryBatchSchema.safeParse({ sampleRate: 1, events: [] }).success).toBe(false);
+            expect(telemetryBatchSchema.safeParse({ sampleRate: 0, events: [{ event: 'DISMISSED' }] }).success).toBe(false);
+            expect(telemetryBatchSchema.safeParse({ sampleRate: 1, events: [{ event: 'DISMISSED', language: 'a@b.c' }] }).success).toBe(false);
+
+            const parsed = telemetryBatchSchema.parse({ sampleRate: 1, visitorId: 'abc', events: [{ event: 'DISMISSED', url: '/cart' }] });
+            expect(parsed).toEqual({ sampleRate: 1, events: [{ event: 'DISMISSED' }] });
+        });
+    });
+
+    describe('recordBatch', () => {
+        it('should store the configured sample rate, not the one sent', async () => {
+            await telemetryService.recordBatch(
+                SITE_ID,
+                { sampleRate: 1e-9, events: [{ event: 'BANNER_SHOWN', language: 'EN' }] },
+                'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile/15E148'
+            );
+
+            expect(telemetryRepository.insertEvents).toHaveBeenCalledWith(
+                SITE_ID,
+                { deviceType: 'mobile', sampleRate: 1, variant: null },
+                [{ event: 'BANNER_SHOWN', languageCode: 'en', action: null, optIn: null, decisionMs: null }]
+            );
+        });
+    });
+
+    describe('maintainPartitions', () => {
+        beforeEach(() => {
+            partitionDays.splice(0, partitionDays.length, '2026-01-31', '2026-02-01', '2026-02-20');
+        });
+
+        it('should create upcoming partitions and drop those past retention', async () => {
+            const now = Date.parse('2026-03-02T10:00:00Z');
+            const result = await telemetryService.maintainPartitions(now);
+
+            expect(result.created).toEqual(['2026-03-02', '2026-03-03', '2026-03-04']);
+            expect(result.dropped).toEqual(['2026-01-31']);
+            expect(partitionDays.sort()).toEqual(['2026-02-01', '2026-02-20', '2026-03-02', '2026-03-03', '2026-03-04']);
+        });
+    });
+
+    describe('loader', () => {
+        let app: FastifyInstance;
+        let loaderScript = '';
+
+        beforeAll(async () => {
+            app = Fastify();
+            await app.register(loaderRoutes);
+            const response = await app.inject({ method: 'GET', url: `/public/loader.js?id=${SITE_ID}` });
+            loaderScript = response.body;
+        });
+
+        afterAll(async () => {
+            await app.close();
+        });
+
+        const loadWithBeacon = () => {
+            const beacons: Array<{ url: string; body: string }> = [];
+            const dom = loadPage(loaderScript, {
+                config: mockConfig,
+                beforeLoader(window) {
+                    (window.navigator as unknown as { sendBeacon: unknown }).sendBeacon = (url: string, body: string) => {
+                        beacons.push({ url, body });
+                        return true;
+                    };
+                },
+            });
+            return { dom, beacons };
+        };
+
+        it('should send the batched lifecycle events when the page is left', async () => {
+            const { dom, beacons } = loadWithBeacon();
+            await waitForBanner(dom);
+
+            const { document } = dom.window;
+            (document.getElementById('complyark-settings-btn') as HTMLElement).click();
+            (document.getElementById('complyark-close-settings') as HTMLElement).click();
+            expect(beacons).toHaveLength(0);
+
+            dom.window.dispatchEvent(new dom.window.Event('pagehide'));
+
+            expect(beacons).toHaveLength(1);
+            expect(beacons[0].url).toBe(`http://localhost:80/runtime/websites/${SITE_ID}/telemetry`);
+            expect(JSON.parse(beacons[0].body)).toEqual({
+                sampleRate: 1,
+                events: [
+                    { event: 'BANNER_SHOWN', language: 'en' },
+                    { event: 'SETTINGS_OPENED', language: 'en' },
+                    { event: 'DISMISSED', language: 'en' },
+                ],
+            });
+        });
+
+        it('should not count a decided banner as dismissed', async () => {
+            const { dom, beacons } = loadWithBeacon();
+            await waitForBanner(dom);
+
+            (dom.window.document.getElementById('complyark-reject-btn') as HTMLElement).click();
+            dom.window.dispatchEvent(new dom.window.Event('pagehide'));
+
+            const events = JSON.parse(beacons[0].body).events.map((e: { event: string }) => e.event);
+            expect(events).toEqual(['BANNER_SHOWN', 'DECISION']);
+            expect(beacons[0].body).not.toContain('visitor');
+        });
+    });
+});
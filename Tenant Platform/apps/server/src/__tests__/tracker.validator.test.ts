@@ -0,0 +1,32 @@
+import { describe, it, expect } from '@jest/globals';
+import { adoptTrackersSchema, trackerIdParamSchema } from '../validators/tracker.validator';
+
+const TRACKER_ID = '3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e';
+
+describe('Tracker Validators', () => {
+    describe('adoptTrackersSchema', () => {
+        it('should accept trackers with and without a purpose tag', () => {
+            const result = adoptTrackersSchema.safeParse({
+                trackers: [{ trackerId: TRACKER_ID }, { trackerId: TRACKER_ID, purposeTag: ' analytics ' }],
+            });
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data.trackers[0].purposeTag).toBeUndefined();
+                expect(result.data.trackers[1].purposeTag).toBe('analytics');
+            }
+        });
+
+        it('should require at least one valid tracker ID', () => {
+            expect(adoptTrackersSchema.safeParse({ trackers: [] }).success).toBe(false);
+            expect(adoptTrackersSchema.safeParse({}).success).toBe(false);
+            expect(adoptTrackersSchema.safeParse({ trackers: [{ trackerId: 'ga' }] }).success).toBe(false);
+        });
+    });
+
+    describe('trackerIdParamSchema', () => {
+        it('should require UUIDs', () => {
+            expect(trackerIdParamSchema.safeParse({ id: TRACKER_ID, trackerId: TRACKER_ID }).success).toBe(true);
+            expect(trackerIdParamSchema.safeParse({ id: TRACKER_ID, trackerId: '1' }).success).toBe(false);
+        });
+    });
+});
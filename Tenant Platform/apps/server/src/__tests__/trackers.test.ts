@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import { wildcardMatch, hostMatches, matchTracker } from '../utils/trackers';
+
+describe('Tracker Matching', () => {
+    describe('wildcardMatch', () => {
+        it('should compare values without * literally', () => {
+            expect(wildcardMatch('_ga', '_ga')).toBe(true);
+            expect(wildcardMatch('_gac', '_ga')).toBe(false);
+            expect(wildcardMatch('a.b', 'a?b')).toBe(false);
+        });
+
+        it('should let * match any run of characters, including none', () => {
+            expect(wildcardMatch('_ga_ABC123', '_ga_*')).toBe(true);
+            expect(wildcardMatch('_ga_', '_ga_*')).toBe(true);
+            expect(wildcardMatch('_ga', '_ga_*')).toBe(false);
+            expect(wildcardMatch('localhost:3001/public/loader.js', '*/public/loader.js*')).toBe(true);
+            expect(wildcardMatch('cdn.test/a/b/c.js', 'cdn.test/*/c.js')).toBe(true);
+            expect(wildcardMatch('cdn.test/a/b/d.js', 'cdn.test/*/c.js')).toBe(false);
+        });
+
+        it('should not let middle parts overlap the ends', () => {
+            expect(wildcardMatch('abc', 'ab*b*bc')).toBe(false);
+            expect(wildcardMatch('abbbc', 'ab*b*bc')).toBe(true);
+        });
+    });
+
+    describe('hostMatches', () => {
+        it('should match the domain and its subdomains only', () => {
+            expect(hostMatches('facebook.net', 'facebook.net')).toBe(true);
+            expect(hostMatches('connect.facebook.net', 'facebook.net')).toBe(true);
+            expect(hostMatches('.Facebook.net', 'facebook.net')).toBe(true);
+            expect(hostMatches('notfacebook.net', 'facebook.net')).toBe(false);
+        });
+    });
+
+    describe('matchTracker', () => {
+        const trackers = [
+            { name: 'Tag Manager', domains: ['googletagmanager.com'], cookiePatterns: [], scriptPatterns: [] },
+            { name: 'Analytics', domains: ['google-analytics.com'], cookiePatterns: ['_ga', '_ga_*'], scriptPatterns: ['www.googletagmanager.com/gtag/js*'] },
+        ];
+
+        it('should prefer script patterns over domains', () => {
+            expect(matchTracker(trackers, { url: 'https://www.googletagmanager.com/gtag/js?id=G-1', domain: 'www.googletagmanager.com' })?.name)
+                .toBe('Analytics');
+            expect(matchTracker(trackers, { url: 'https://www.googletagmanager.com/gtm.js', domain: 'www.googletagmanager.com' })?.name)
+                .toBe('Tag Manager');
+        });
+
+        it('should match cookies by name, then by domain', () => {
+            expect(matchTracker(trackers, { name: '_ga_XYZ', domain: 'example.com' })?.name).toBe('Analytics');
+            expect(matchTracker(trackers, { name: 'id', domain: 'region1.google-analytics.com' })?.name).toBe('Analytics');
+            expect(matchTracker(trackers, { name: 'id', domain: 'example.com' })).toBeNull();
+        });
+    });
+});
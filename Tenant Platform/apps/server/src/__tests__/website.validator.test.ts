@@ -0,0 +1,46 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    updateConsentLifetimeSchema,
+    consentLifetimeRulesSchema
+} from '../validators/website.validator';
+
+describe('Website Validators', () => {
+    describe('updateConsentLifetimeSchema', () => {
+        it('should accept a shorter reject lifetime', () => {
+            const result = updateConsentLifetimeSchema.safeParse({ consentLifetimeDays: 365, rejectLifetimeDays: 180 });
+            expect(result.success).toBe(true);
+        });
+
+        it('should accept null to restore the defaults', () => {
+            const result = updateConsentLifetimeSchema.safeParse({ consentLifetimeDays: null, rejectLifetimeDays: null });
+            expect(result.success).toBe(true);
+        });
+
+        it('should reject a reject lifetime longer than the consent lifetime', () => {
+            const result = updateConsentLifetimeSchema.safeParse({ consentLifetimeDays: 180, rejectLifetimeDays: 365 });
+            expect(result.success).toBe(false);
+        });
+
+        it('should reject a zero or fractional lifetime', () => {
+            expect(updateConsentLifetimeSchema.safeParse({ consentLifetimeDays: 0, rejectLifetimeDays: null }).success).toBe(false);
+            expect(updateConsentLifetimeSchema.safeParse({ consentLifetimeDays: 30.5, rejectLifetimeDays: null }).success).toBe(false);
+        });
+    });
+
+    describe('consentLifetimeRulesSchema', () => {
+        it('should accept an empty section', () => {
+            const result = consentLifetimeRulesSchema.safeParse({});
+            expect(result.success).toBe(true);
+        });
+
+        it('should accept limits in days', () => {
+            const result = consentLifetimeRulesSchema.safeParse({ default_days: 180, max_days: 365, min_reject_days: 30 });
+            expect(result.success).toBe(true);
+        });
+
+        it('should reject a non-numeric maximum', () => {
+            const result = consentLifetimeRulesSchema.safeParse({ max_days: '12 months' });
+            expect(result.success).toBe(false);
+        });
+    });
+});
@@ -11,21 +11,48 @@ import {
     websiteRoutes,
     noticeRoutes,
     purposeRoutes,
+    configVersionRoutes,
+    publishRoutes,
     bannerRoutes,
+    bannerVariantRoutes,
+    consentModeRoutes,
+    tcfRoutes,
+    scanRoutes,
+    trackerRoutes,
+    blockingRuleRoutes,
+    cookieRoutes,
+    analyticsRoutes,
     auditRoutes,
     languageRoutes,
     loaderRoutes,
     runtimeRoutes,
     translationRoutes,
     websiteTranslationRoutes,
+    rightsRequestRoutes,
+    webhookRoutes,
+    consentManagerRoutes,
+    cookiePolicyRoutes,
+    staticBundleRoutes,
 } from './routes';
 import { checkConnection } from './db';
+import {
+    consentAnalyticsJob,
+    globalRulesJob,
+    rightsRequestExpiryJob,
+    rightsRequestSlaJob,
+    securityEventJob,
+    staticBundleJob,
+    telemetryPartitionJob,
+    webhookDeliveryJob,
+} from './jobs';
+import { publishService, rateLimitService, runtimeService, scanService } from './services';
 
 /**
  * Build the Fastify application with all plugins and routes.
  */
 export async function buildApp() {
     const app = Fastify({
+        trustProxy: config.server.trustProxy,
         logger: {
             level: config.server.nodeEnv === 'development' ? 'info' : 'warn',
         },
@@ -62,6 +89,10 @@ export async function buildApp() {
             status: 'ok',
             timestamp: new Date().toISOString(),
             database: dbConnected ? 'connected' : 'disconnected',
+            // Hit ratio and evictions of the runtime config cache
+            runtimeCache: runtimeService.getCacheStats(),
+            // Requests refused by the public endpoint rate limits
+            rateLimits: rateLimitService.getStats(),
         };
     });
 
@@ -79,9 +110,39 @@ export async function buildApp() {
         // Purpose routes (mixed prefixes handled internally)
         await api.register(purposeRoutes, { prefix: '' });
 
+        // Notice/purpose version history
+        await api.register(configVersionRoutes, { prefix: '' });
+
+        // Draft preview, publish and rollback
+        await api.register(publishRoutes, { prefix: '' });
+
         // Banner routes
         await api.register(bannerRoutes, { prefix: '' });
 
+        // Banner variant (A/B test) routes
+        await api.register(bannerVariantRoutes, { prefix: '' });
+
+        // Google Consent Mode routes
+        await api.register(consentModeRoutes, { prefix: '' });
+
+        // IAB TCF routes
+        await api.register(tcfRoutes, { prefix: '' });
+
+        // Cookie and tracker scan routes
+        await api.register(scanRoutes, { prefix: '' });
+
+        // Known-tracker routes
+        await api.register(trackerRoutes, { prefix: '' });
+
+        // Auto-blocking rule routes
+        await api.register(blockingRuleRoutes, { prefix: '' });
+
+        // Cookie declaration and governance routes
+        await api.register(cookieRoutes, { prefix: '' });
+
+        // Consent analytics routes
+        await api.register(analyticsRoutes, { prefix: '' });
+
         // Audit routes
         await api.register(auditRoutes, { prefix: '/audit-logs' });
 
@@ -93,6 +154,12 @@ export async function buildApp() {
 
         // Website translation routes (bulk translate)
         await api.register(websiteTranslationRoutes, { prefix: '' });
+
+        // Rights request routes (tenant inbox)
+        await api.register(rightsRequestRoutes, { prefix: '/rights-requests' });
+
+        // Webhook routes (endpoints and delivery log)
+        await api.register(webhookRoutes, { prefix: '/webhooks' });
     }, { prefix: '/tenant' });
 
     // Loader routes (Public)
@@ -101,6 +168,17 @@ export async function buildApp() {
     // Runtime routes (Public - for loader.js to fetch config)
     await app.register(runtimeRoutes);
 
+    // Hosted "My Consents" page (Public)
+    await app.register(consentManagerRoutes);
+
+    // Hosted cookie declaration and embed widget (Public)
+    await app.register(cookiePolicyRoutes);
+
+    // Local stand-in for the static publishing origin (Public)
+    if (config.staticBundles.store === 'local') {
+        await app.register(staticBundleRoutes);
+    }
+
     return app;
 }
 
@@ -119,6 +197,18 @@ async function main() {
         }
         console.log('✅ Database connected');
 
+        // Scans run in-process and do not survive a restart
+        const interruptedScans = await scanService.failInterrupted();
+        if (interruptedScans > 0) {
+            console.log(`⚠️ Marked ${interruptedScans} interrupted scan(s) as failed`);
+        }
+
+        // Websites activated before publishing existed are served only once published
+        const backfilled = await publishService.publishUnpublishedActive();
+        if (backfilled > 0) {
+            console.log(`📤 Published ${backfilled} active website(s) that had no published config`);
+        }
+
         // Start server
         await app.listen({
             port: config.server.port,
@@ -128,6 +218,16 @@ async function main() {
         console.log(`🚀 Tenant Platform server running on port ${config.server.port}`);
         console.log(`📝 Environment: ${config.server.nodeEnv}`);
         console.log(`🔗 Health check: http://localhost:${config.server.port}/health`);
+
+        // Background jobs
+        rightsRequestExpiryJob.start();
+        rightsRequestSlaJob.start();
+        consentAnalyticsJob.start();
+        telemetryPartitionJob.start();
+        webhookDeliveryJob.start();
+        staticBundleJob.start();
+        securityEventJob.start();
+        globalRulesJob.start();
     } catch (error) {
         console.error('❌ Failed to start server:', error);
         process.exit(1);
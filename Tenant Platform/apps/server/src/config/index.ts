@@ -1,4 +1,5 @@
 import * as dotenv from 'dotenv';
+import * as path from 'path';
 dotenv.config();
 
 /**
@@ -13,6 +14,20 @@ function requireEnv(name: string): string {
     return value;
 }
 
+/**
+ * Helper to read a rate limit quota from RATE_LIMIT_<NAME>_PER_IP and
+ * RATE_LIMIT_<NAME>_PER_SITE, with defaults. A null per-site default
+ * leaves the group without a website quota unless one is set.
+ */
+function rateLimitQuota(name: string, perIp: number, perSite: number | null, windowSeconds: number) {
+    const perSiteSetting = process.env[`RATE_LIMIT_${name}_PER_SITE`];
+    return {
+        perIp: parseInt(process.env[`RATE_LIMIT_${name}_PER_IP`] || String(perIp), 10),
+        perSite: perSiteSetting ? parseInt(perSiteSetting, 10) : perSite,
+        windowSeconds,
+    };
+}
+
 /**
  * Configuration object for the Tenant Platform.
  * Critical settings MUST be set via environment variables (no defaults).
@@ -39,6 +54,12 @@ export const config = {
     server: {
         port: parseInt(process.env.PORT || '3001', 10),
         nodeEnv: process.env.NODE_ENV || 'development',
+        // Take the client IP from X-Forwarded-For; set behind a load balancer
+        // so per-IP rate limits see visitors rather than the proxy
+        trustProxy: process.env.TRUST_PROXY === 'true',
+        // This server's public URL, for links sent by email. Never taken from
+        // the request, whose Host header the caller controls
+        publicUrl: (process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || '3001'}`).replace(/\/+$/, ''),
     },
 
     // CORS - REQUIRED for production
@@ -53,6 +74,196 @@ export const config = {
         sameSite: (process.env.COOKIE_SAME_SITE || 'lax') as 'lax' | 'strict' | 'none',
     },
 
+    // Consent ledger
+    consent: {
+        // Salt for hashing visitor IPs; falls back to the session secret
+        ipHashSalt: process.env.IP_HASH_SALT || requireEnv('SESSION_SECRET'),
+        // Key for signing consent receipts; falls back to the session secret
+        receiptSecret: process.env.RECEIPT_SIGNING_SECRET || requireEnv('SESSION_SECRET'),
+        // Lifetime defaults, used for any value missing from the active global rules
+        lifetime: {
+            defaultDays: 365,
+            maxDays: 730,
+            minRejectDays: 1,
+        },
+    },
+
+    // IAB TCF. The CMP ID is assigned by IAB Europe on registration;
+    // 0 marks TC strings from an unregistered CMP
+    tcf: {
+        cmpId: parseInt(process.env.TCF_CMP_ID || '0', 10),
+        cmpVersion: parseInt(process.env.TCF_CMP_VERSION || '1', 10),
+    },
+
+    // Cookie and tracker scanner (headless Chrome via puppeteer;
+    // PUPPETEER_EXECUTABLE_PATH selects a system Chrome)
+    scanner: {
+        navigationTimeoutMs: parseInt(process.env.SCANNER_NAVIGATION_TIMEOUT_MS || '30000', 10),
+        // Time given to late scripts and pixels after each page load
+        settleMs: parseInt(process.env.SCANNER_SETTLE_MS || '2000', 10),
+    },
+
+    // Email (SMTP). Without credentials, emails are written to EMAIL_OUTBOX_DIR
+    // when set, otherwise logged to the console.
+    email: {
+        host: process.env.EMAIL_HOST || '',
+        port: parseInt(process.env.EMAIL_PORT || '587', 10),
+        secure: process.env.EMAIL_SECURE === 'true',
+        user: process.env.EMAIL_USER || '',
+        pass: process.env.EMAIL_PASS || '',
+        from: process.env.EMAIL_FROM || '',
+        outboxDir: process.env.EMAIL_OUTBOX_DIR || '',
+    },
+
+    // Rights requests
+    rightsRequests: {
+        // How long a requester has to confirm their email
+        verificationExpiryMinutes: parseInt(process.env.RIGHTS_VERIFICATION_EXPIRY_MINUTES || '1440', 10),
+        maxVerificationAttempts: 5,
+        // How often unverified requests are swept to EXPIRED
+        expirySweepSeconds: parseInt(process.env.RIGHTS_EXPIRY_SWEEP_SECONDS || '300', 10),
+        // SLA defaults, used for any value missing from the active global rules
+        sla: {
+            defaultDays: 30,
+            dueSoonDays: 3,
+            defaultSeverity: 'MEDIUM' as const,
+        },
+        // How often overdue requests are checked for SLA breaches
+        slaSweepSeconds: parseInt(process.env.RIGHTS_SLA_SWEEP_SECONDS || '900', 10),
+    },
+
+    // Consent analytics, recomputed from the consent ledger
+    analytics: {
+        // How often recent days are refreshed, and how many days back
+        refreshSeconds: parseInt(process.env.ANALYTICS_REFRESH_SECONDS || '900', 10),
+        refreshDays: 2,
+        // Days refreshed on startup
+        backfillDays: parseInt(process.env.ANALYTICS_BACKFILL_DAYS || '35', 10),
+    },
+
+    // The loader script, built from packages/loader. Its dist directory
+    // holds the content-hashed bundle and manifest.json
+    loader: {
+        bundleDir: process.env.LOADER_BUNDLE_DIR || path.resolve(__dirname, '../../../../packages/loader/dist'),
+    },
+
+    // Cache in front of the runtime config, evicted whenever the website's
+    // notice, purposes, banner, status or published config change.
+    // RUNTIME_CACHE_STORE is 'memory' (per instance, LRU), 'redis' (shared
+    // through REDIS_URL) or 'off'
+    runtimeCache: {
+        store: (process.env.RUNTIME_CACHE_STORE || 'memory') as 'memory' | 'redis' | 'off',
+        maxEntries: parseInt(process.env.RUNTIME_CACHE_MAX_ENTRIES || '1000', 10),
+        // Upper bound on staleness for changes made outside this server
+        ttlSeconds: parseInt(process.env.RUNTIME_CACHE_TTL_SECONDS || '300', 10),
+        // How often the active global rules are checked. Activating another
+        // version in the Admin Portal evicts every cached config
+        rulesCheckSeconds: parseInt(process.env.RUNTIME_CACHE_RULES_CHECK_SECONDS || '30', 10),
+        redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+        keyPrefix: process.env.RUNTIME_CACHE_KEY_PREFIX || 'complyark:runtime-config:',
+    },
+
+    // Origin checks on the public runtime API: calls must come from the
+    // website's domain, allowed domains or test domains. ORIGIN_ENFORCEMENT
+    // is 'enforce' (reject with 403), 'report' (only record security events)
+    // or 'off'
+    runtimeOrigins: {
+        // Upgrading deployments can run 'report' until existing websites
+        // have listed their domains
+        mode: (process.env.ORIGIN_ENFORCEMENT || 'enforce') as 'enforce' | 'report' | 'off',
+        // Rejections are counted in memory and written this often
+        flushSeconds: parseInt(process.env.SECURITY_EVENT_FLUSH_SECONDS || '60', 10),
+        // Distinct website, origin and endpoint keys held between writes
+        maxPendingKeys: 1000,
+        retentionDays: parseInt(process.env.SECURITY_EVENT_RETENTION_DAYS || '90', 10),
+    },
+
+    // Rate limits on the public loader, runtime and intake endpoints, per
+    // client IP and per website, in fixed windows. RATE_LIMIT_STORE is
+    // 'memory' (per instance), 'redis' (shared through REDIS_URL) or 'off'
+    rateLimits: {
+        store: (process.env.RATE_LIMIT_STORE || 'memory') as 'memory' | 'redis' | 'off',
+        redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+        keyPrefix: process.env.RATE_LIMIT_KEY_PREFIX || 'complyark:rate-limit:',
+        quotas: {
+            // GET /public/loader.js. Cacheable reads get no website quota:
+            // a busy website would otherwise lose its banner
+            loader: rateLimitQuota('LOADER', 300, null, 60),
+            // GET /runtime/websites/:siteId
+            config: rateLimitQuota('CONFIG', 300, null, 60),
+            // Consent records and impressions
+            consent: rateLimitQuota('CONSENT', 120, 20000, 60),
+            // Loader telemetry batches
+            telemetry: rateLimitQuota('TELEMETRY', 30, 20000, 60),
+            // Rights request submissions and verification codes
+            rights: rateLimitQuota('RIGHTS', 10, 200, 600),
+            // Visitor consent state, receipts and the hosted pages
+            reads: rateLimitQuota('READS', 120, 20000, 60),
+        },
+        // Requests refused for a website (or for calls without one) within an
+        // hour before an incident is raised for the Admin Portal
+        incidentThreshold: parseInt(process.env.RATE_LIMIT_INCIDENT_THRESHOLD || '1000', 10),
+        incidentWindowSeconds: 3600,
+        // Largest accepted request bodies on the public write endpoints
+        bodyLimits: {
+            consent: parseInt(process.env.PUBLIC_CONSENT_BODY_LIMIT_BYTES || '16384', 10),
+            rights: parseInt(process.env.PUBLIC_RIGHTS_BODY_LIMIT_BYTES || '32768', 10),
+        },
+    },
+
+    // Static publishing: each website's runtime config, and optionally a
+    // loader with the config inlined, written as files for a CDN so page
+    // views never reach this server. STATIC_STORE is 'local' (a directory,
+    // also served under /static for offline runs), 's3' (any S3-compatible
+    // object store) or empty (off)
+    staticBundles: {
+        store: (process.env.STATIC_STORE || '') as '' | 'local' | 's3',
+        localDir: process.env.STATIC_LOCAL_DIR || path.resolve(__dirname, '../../static'),
+        // Where browsers fetch the files from, e.g. the CDN in front of the bucket
+        publicUrl: (process.env.STATIC_PUBLIC_URL || `http://localhost:${process.env.PORT || '3001'}/static`).replace(/\/+$/, ''),
+        // This server's public URL, for the consent, telemetry and rights
+        // requests made by per-site loaders
+        apiUrl: (process.env.STATIC_API_URL || `http://localhost:${process.env.PORT || '3001'}`).replace(/\/+$/, ''),
+        siteLoaders: process.env.STATIC_SITE_LOADERS !== 'false',
+        s3: {
+            bucket: process.env.STATIC_S3_BUCKET || '',
+            region: process.env.STATIC_S3_REGION || 'us-east-1',
+            // Defaults to AWS; set for MinIO, R2 and other S3-compatible stores
+            endpoint: process.env.STATIC_S3_ENDPOINT || '',
+            prefix: process.env.STATIC_S3_PREFIX || '',
+            accessKeyId: process.env.STATIC_S3_ACCESS_KEY_ID || '',
+            secretAccessKey: process.env.STATIC_S3_SECRET_ACCESS_KEY || '',
+        },
+        // How often every active website is re-rendered, picking up changes
+        // that do not go through a publish (global rules, a new loader build)
+        syncSeconds: parseInt(process.env.STATIC_SYNC_SECONDS || '3600', 10),
+    },
+
+    // Banner lifecycle telemetry reported by the loader
+    telemetry: {
+        // Share of page views that report events, above 0 and up to 1
+        sampleRate: Math.min(1, Math.max(0.01, parseFloat(process.env.TELEMETRY_SAMPLE_RATE || '1'))),
+        // Events are kept in daily partitions; older ones are dropped
+        retentionDays: parseInt(process.env.TELEMETRY_RETENTION_DAYS || '90', 10),
+        partitionsAhead: 3,
+        maintenanceSeconds: 3600,
+    },
+
+    // Outbound webhooks, delivered from the webhook_deliveries queue
+    webhooks: {
+        timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+        // Attempts before a delivery is marked FAILED. Retries back off
+        // exponentially from retryBaseSeconds up to retryMaxSeconds
+        maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '10', 10),
+        retryBaseSeconds: 30,
+        retryMaxSeconds: 6 * 60 * 60,
+        // How often the queue is polled, and how many deliveries per poll
+        pollSeconds: parseInt(process.env.WEBHOOK_POLL_SECONDS || '5', 10),
+        batchSize: 20,
+        // Finished deliveries are kept this long in the delivery log
+        retentionDays: parseInt(process.env.WEBHOOK_RETENTION_DAYS || '30', 10),
+    },
+
     // Compliance Settings (hardcoded is OK - these are app defaults)
     compliance: {
         defaultLanguage: 'en',
@@ -0,0 +1,43 @@
+import { config } from '../config';
+import { analyticsService } from '../services';
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Consent Analytics Job.
+ * Periodically recomputes the daily consent analytics of recent days from
+ * the consent ledger. The first run after startup covers a longer backfill
+ * window, catching up on records made while the server was down.
+ */
+export const consentAnalyticsJob = {
+    /**
+     * Refresh the given number of days, today included.
+     */
+    async run(days: number = config.analytics.refreshDays): Promise<void> {
+        await analyticsService.refresh(days);
+    },
+
+    start(): void {
+        if (timer) {
+            return;
+        }
+
+        const refresh = (days: number) => {
+            this.run(days).catch((error) => {
+                console.error('❌ Consent analytics refresh failed:', error);
+            });
+        };
+
+        refresh(config.analytics.backfillDays);
+        timer = setInterval(() => refresh(config.analytics.refreshDays), config.analytics.refreshSeconds * 1000);
+        // Do not keep the process alive just for the refresh
+        timer.unref();
+    },
+
+    stop(): void {
+        if (timer) {
+            clearInterval(timer);
+            timer = null;
+        }
+    },
+};
@@ -0,0 +1,58 @@
+import { config } from '../config';
+import { consentLifetimeService, runtimeService, staticBundleService } from '../services';
+
+let timer: NodeJS.Timeout | null = null;
+// Active global rules version at the last check; undefined before the first
+let activeVersion: number | null | undefined;
+
+/**
+ * Global Rules Job.
+ * Global rules are activated in the Admin Portal, out of sight of this
+ * server. Watches the active version and, when it changes, evicts every
+ * cached runtime config so the new consent lifetime caps reach visitors.
+ */
+export const globalRulesJob = {
+    /**
+     * Check the active version. Returns whether it changed since the last check.
+     */
+    async run(): Promise<boolean> {
+        const { rulesVersion } = await consentLifetimeService.getLimits();
+        const version = rulesVersion ?? null;
+        const changed = activeVersion !== undefined && version !== activeVersion;
+        activeVersion = version;
+        if (!changed) {
+            return false;
+        }
+
+        const evicted = await runtimeService.invalidateAll();
+        console.log(`📜 Global rules v${version} active: ${evicted} runtime config(s) evicted`);
+        if (staticBundleService.isEnabled()) {
+            await staticBundleService.syncAll();
+        }
+        return true;
+    },
+
+    start(): void {
+        if (timer || (config.runtimeCache.store === 'off' && !staticBundleService.isEnabled())) {
+            return;
+        }
+
+        const check = () => {
+            this.run().catch((error) => {
+                console.error('❌ Global rules check failed:', error);
+            });
+        };
+
+        check();
+        timer = setInterval(check, config.runtimeCache.rulesCheckSeconds * 1000);
+        // Do not keep the process alive just for the check
+        timer.unref();
+    },
+
+    stop(): void {
+        if (timer) {
+            clearInterval(timer);
+            timer = null;
+        }
+    },
+};
@@ -0,0 +1,8 @@
+export * from './rights-request-expiry.job';
+export * from './rights-request-sla.job';
+export * from './consent-analytics.job';
+export * from './telemetry-partition.job';
+export * from './webhook-delivery.job';
+export * from './static-bundle.job';
+export * from './security-event.job';
+export * from './global-rules.job';
@@ -0,0 +1,46 @@
+import { config } from '../config';
+import { rightsRequestService } from '../services';
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Rights Request Expiry Job.
+ * Periodically moves requests that were never email-verified to EXPIRED,
+ * recording an EXPIRED event in each request's history.
+ */
+export const rightsRequestExpiryJob = {
+    /**
+     * Run one sweep. Returns the number of requests expired.
+     */
+    async run(): Promise<number> {
+        const expired = await rightsRequestService.expireUnverified();
+        if (expired > 0) {
+            console.log(`⏱️  Expired ${expired} unverified rights request(s)`);
+        }
+        return expired;
+    },
+
+    start(): void {
+        if (timer) {
+            return;
+        }
+
+        const sweep = () => {
+            this.run().catch((error) => {
+                console.error('❌ Rights request expiry sweep failed:', error);
+            });
+        };
+
+        sweep();
+        timer = setInterval(sweep, config.rightsRequests.expirySweepSeconds * 1000);
+        // Do not keep the process alive just for the sweeper
+        timer.unref();
+    },
+
+    stop(): void {
+        if (timer) {
+            clearInterval(timer);
+            timer = null;
+        }
+    },
+};
@@ -0,0 +1,46 @@
+import { config } from '../config';
+import { rightsRequestService } from '../services';
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Rights Request SLA Job.
+ * Periodically raises an incident for every open request past its due date,
+ * so Super Admins see tenants breaching their response deadlines.
+ */
+export const rightsRequestSlaJob = {
+    /**
+     * Run one sweep. Returns the number of incidents raised.
+     */
+    async run(): Promise<number> {
+        const raised = await rightsRequestService.escalateSlaBreaches();
+        if (raised > 0) {
+            console.log(`🚨 Raised ${raised} rights request SLA breach incident(s)`);
+        }
+        return raised;
+    },
+
+    start(): void {
+        if (timer) {
+            return;
+        }
+
+        const sweep = () => {
+            this.run().catch((error) => {
+                console.error('❌ Rights request SLA sweep failed:', error);
+            });
+        };
+
+        sweep();
+        timer = setInterval(sweep, config.rightsRequests.slaSweepSeconds * 1000);
+        // Do not keep the process alive just for the sweeper
+        timer.unref();
+    },
+
+    stop(): void {
+        if (timer) {
+            clearInterval(timer);
+            timer = null;
+        }
+    },
+};
@@ -0,0 +1,47 @@
+import { config } from '../config';
+import { originService } from '../services';
+
+let timer: NodeJS.Timeout | null = null;
+let lastPrunedAt = 0;
+
+/**
+ * Security Event Job.
+ * Writes the rejected-origin counts held in memory, and deletes security
+ * events past retention once an hour.
+ */
+export const securityEventJob = {
+    async run(now: number = Date.now()): Promise<void> {
+        await originService.flush();
+
+        if (now - lastPrunedAt >= 60 * 60 * 1000) {
+            lastPrunedAt = now;
+            const deleted = await originService.prune();
+            if (deleted > 0) {
+                console.log(`🗑️ Deleted ${deleted} security event(s) past retention`);
+            }
+        }
+    },
+
+    start(): void {
+        if (timer) {
+            return;
+        }
+
+        const tick = () => {
+            this.run().catch((error) => {
+                console.error('❌ Security event flush failed:', error);
+            });
+        };
+
+        timer = setInterval(tick, config.runtimeOrigins.flushSeconds * 1000);
+        // Do not keep the process alive just for the flush
+        timer.unref();
+    },
+
+    stop(): void {
+        if (timer) {
+            clearInterval(timer);
+            timer = null;
+        }
+    },
+};
@@ -0,0 +1,43 @@
+import { config } from '../config';
+import { staticBundleService } from '../services';
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Static Bundle Job.
+ * Re-syncs the static files of every active website: catches up on syncs
+ * that failed when a change was made, and rewrites per-site loaders after a
+ * new loader build is deployed.
+ */
+export const staticBundleJob = {
+    async run(): Promise<void> {
+        const { written, failed } = await staticBundleService.syncAll();
+        if (written > 0 || failed > 0) {
+            console.log(`📦 Static bundles: ${written} website(s) written, ${failed} failed`);
+        }
+    },
+
+    start(): void {
+        if (timer || !staticBundleService.isEnabled()) {
+            return;
+        }
+
+        const sync = () => {
+            this.run().catch((error) => {
+                console.error('❌ Static bundle sync failed:', error);
+            });
+        };
+
+        sync();
+        timer = setInterval(sync, config.staticBundles.syncSeconds * 1000);
+        // Do not keep the process alive just for the sync
+        timer.unref();
+    },
+
+    stop(): void {
+        if (timer) {
+            clearInterval(timer);
+            timer = null;
+        }
+    },
+};
@@ -0,0 +1,42 @@
+import { config } from '../config';
+import { telemetryService } from '../services';
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Telemetry Partition Job.
+ * Keeps the daily partitions of loader_events in place: creates those of the
+ * coming days before events arrive, and drops those past retention.
+ */
+export const telemetryPartitionJob = {
+    async run(): Promise<void> {
+        const { dropped } = await telemetryService.maintainPartitions();
+        if (dropped.length > 0) {
+            console.log(`🗑️ Dropped ${dropped.length} loader telemetry partition(s) past retention`);
+        }
+    },
+
+    start(): void {
+        if (timer) {
+            return;
+        }
+
+        const maintain = () => {
+            this.run().catch((error) => {
+                console.error('❌ Loader telemetry partition maintenance failed:', error);
+            });
+        };
+
+        maintain();
+        timer = setInterval(maintain, config.telemetry.maintenanceSeconds * 1000);
+        // Do not keep the process alive just for the maintenance
+        timer.unref();
+    },
+
+    stop(): void {
+        if (timer) {
+            clearInterval(timer);
+            timer = null;
+        }
+    },
+};
@@ -0,0 +1,67 @@
+import { config } from '../config';
+import { webhookService } from '../services';
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+let lastPrunedAt = 0;
+
+/**
+ * Webhook Delivery Job.
+ * Polls the webhook delivery queue and posts what is due, including retries.
+ * Once an hour it also drops finished deliveries past retention.
+ */
+export const webhookDeliveryJob = {
+    /**
+     * Deliver until nothing is due. Returns the number of deliveries sent.
+     */
+    async run(now = Date.now()): Promise<number> {
+        let sent = 0;
+        for (let batch = await webhookService.deliverDue(); batch > 0; batch = await webhookService.deliverDue()) {
+            sent += batch;
+        }
+
+        if (now - lastPrunedAt >= PRUNE_INTERVAL_MS) {
+            lastPrunedAt = now;
+            const pruned = await webhookService.prune(now);
+            if (pruned > 0) {
+                console.log(`🗑️ Removed ${pruned} webhook deliveries past retention`);
+            }
+        }
+        return sent;
+    },
+
+    start(): void {
+        if (timer) {
+            return;
+        }
+
+        const poll = () => {
+            // A slow receiver must not stack up overlapping polls
+            if (running) {
+                return;
+            }
+            running = true;
+            this.run()
+                .catch((error) => {
+                    console.error('❌ Webhook delivery failed:', error);
+                })
+                .finally(() => {
+                    running = false;
+                });
+        };
+
+        poll();
+        timer = setInterval(poll, config.webhooks.pollSeconds * 1000);
+        // Do not keep the process alive just for the deliveries
+        timer.unref();
+    },
+
+    stop(): void {
+        if (timer) {
+            clearInterval(timer);
+            timer = null;
+        }
+    },
+};
@@ -1,2 +1,3 @@
 export * from './auth.middleware';
 export * from './error.middleware';
+export * from './rate-limit.middleware';
@@ -0,0 +1,34 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { rateLimitService, RateLimitGroup } from '../services/rate-limit.service';
+import { siteIdParamSchema } from '../validators';
+
+/**
+ * Rate limit middleware for public routes, run on request so refused
+ * requests cost no body parsing or database reads. The website is taken
+ * from the :siteId param, or the ?id= of the loader script.
+ */
+export function rateLimit(group: RateLimitGroup) {
+    return async function rateLimitHook(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+        const { siteId } = (request.params || {}) as { siteId?: string };
+        const { id } = (request.query || {}) as { id?: string };
+        const parsed = siteIdParamSchema.safeParse({ siteId: siteId || id });
+
+        const result = await rateLimitService.take(group, {
+            ip: request.ip,
+            siteId: parsed.success ? parsed.data.siteId.toLowerCase() : null,
+        });
+        if (result.allowed) {
+            return;
+        }
+
+        return reply
+            .status(429)
+            .header('Retry-After', String(result.retryAfterSeconds))
+            .header('Access-Control-Allow-Origin', '*')
+            .header('Cache-Control', 'no-store')
+            .send({
+                success: false,
+                message: 'Too many requests. Please try again later.',
+            });
+    };
+}
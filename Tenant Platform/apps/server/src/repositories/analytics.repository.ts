@@ -0,0 +1,123 @@
+import { query } from '../db';
+import { ConsentAnalyticsDaily, ConsentAnalyticsPurposeTotal, DeviceType } from '../types';
+
+// Device type of a ledger record's user agent. Keep in step with
+// analyticsService.classifyDevice, which classifies impressions
+const DEVICE_TYPE_SQL = `
+    CASE
+        WHEN user_agent IS NULL OR user_agent = '' THEN 'unknown'
+        WHEN user_agent ~* '(ipad|tablet|android(?!.*mobi))' THEN 'tablet'
+        WHEN user_agent ~* '(mobi|iphone|ipod|android)' THEN 'mobile'
+        ELSE 'desktop'
+    END`;
+
+/**
+ * Repository for consent analytics aggregates.
+ * Rows hold counts per website and UTC day only; nothing in them links back
+ * to a visitor.
+ */
+export const analyticsRepository = {
+    /**
+     * Count a banner impression
+     */
+    async addImpression(websiteId: string, day: string, languageCode: string, deviceType: DeviceType): Promise<void> {
+        await query(
+            `INSERT INTO consent_analytics_daily (website_id, day, language_code, device_type, impressions)
+            VALUES ($1, $2, $3, $4, 1)
+            ON CONFLICT (website_id, day, language_code, device_type)
+            DO UPDATE SET impressions = consent_analytics_daily.impressions + 1, updated_at = NOW()`,
+            [websiteId, day, languageCode, deviceType]
+        );
+    },
+
+    /**
+     * Recompute the decision counts of every website from the consent ledger,
+     * for the days from the given UTC day on. The ledger is append-only, so
+     * counts of earlier days never change.
+     */
+    async refreshDecisions(sinceDay: string): Promise<void> {
+        await query(
+            `INSERT INTO consent_analytics_daily
+            (website_id, day, language_code, device_type, accept_all, reject_all, custom, withdrawals)
+            SELECT
+                website_id,
+                (created_at AT TIME ZONE 'UTC')::date,
+                COALESCE(language_code, 'unknown'),
+                ${DEVICE_TYPE_SQL},
+                COUNT(*) FILTER (WHERE action = 'ACCEPT_ALL'),
+                COUNT(*) FILTER (WHERE action = 'REJECT_ALL'),
+                COUNT(*) FILTER (WHERE action = 'CUSTOM'),
+                COUNT(*) FILTER (WHERE action = 'WITHDRAW')
+            FROM consent_records
+            WHERE created_at >= ($1::date)::timestamp AT TIME ZONE 'UTC'
+            GROUP BY 1, 2, 3, 4
+            ON CONFLICT (website_id, day, language_code, device_type) DO UPDATE SET
+                accept_all = EXCLUDED.accept_all,
+                reject_all = EXCLUDED.reject_all,
+                custom = EXCLUDED.custom,
+                withdrawals = EXCLUDED.withdrawals,
+                updated_at = NOW()`,
+            [sinceDay]
+        );
+
+        await query(
+            `INSERT INTO consent_analytics_purpose_daily (website_id, day, purpose_tag, granted, denied)
+            SELECT
+                r.website_id,
+                (r.created_at AT TIME ZONE 'UTC')::date,
+                d.key,
+                COUNT(*) FILTER (WHERE d.value = 'true'::jsonb),
+                COUNT(*) FILTER (WHERE d.value = 'false'::jsonb)
+            FROM consent_records r
+            CROSS JOIN LATERAL jsonb_each(r.decisions) d
+            WHERE r.created_at >= ($1::date)::timestamp AT TIME ZONE 'UTC'
+                AND r.action IN ('ACCEPT_ALL', 'REJECT_ALL', 'CUSTOM')
+            GROUP BY 1, 2, 3
+            ON CONFLICT (website_id, day, purpose_tag) DO UPDATE SET
+                granted = EXCLUDED.granted,
+                denied = EXCLUDED.denied,
+                updated_at = NOW()`,
+            [sinceDay]
+        );
+    },
+
+    /**
+     * Daily rows of a website between two UTC days (inclusive)
+     */
+    async findDaily(websiteId: string, from: string, to: string): Promise<ConsentAnalyticsDaily[]> {
+        const result = await query<ConsentAnalyticsDaily>(
+            `SELECT
+                to_char(day, 'YYYY-MM-DD') as day,
+                language_code as "languageCode",
+                device_type as "deviceType",
+                impressions,
+                accept_all as "acceptAll",
+                reject_all as "rejectAll",
+                custom,
+                withdrawals
+            FROM consent_analytics_daily
+            WHERE website_id = $1 AND day BETWEEN $2 AND $3
+            ORDER BY day`,
+            [websiteId, from, to]
+        );
+        return result.rows;
+    },
+
+    /**
+     * Opt-in totals per purpose between two UTC days (inclusive)
+     */
+    async findPurposeTotals(websiteId: string, from: string, to: string): Promise<ConsentAnalyticsPurposeTotal[]> {
+        const result = await query<ConsentAnalyticsPurposeTotal>(
+            `SELECT
+                purpose_tag as purpose,
+                SUM(granted)::int as granted,
+                SUM(denied)::int as denied
+            FROM consent_analytics_purpose_daily
+            WHERE website_id = $1 AND day BETWEEN $2 AND $3
+            GROUP BY purpose_tag
+            ORDER BY purpose_tag`,
+            [websiteId, from, to]
+        );
+        return result.rows;
+    },
+};
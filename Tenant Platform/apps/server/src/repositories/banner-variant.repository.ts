@@ -0,0 +1,111 @@
+import { query } from '../db';
+import { BannerVariant, BannerVariantStyles, BannerVariantText } from '../types';
+
+const VARIANT_COLUMNS = `
+    id,
+    website_id as "websiteId",
+    name,
+    traffic_percent as "trafficPercent",
+    styles,
+    text,
+    archived_at as "archivedAt",
+    created_by as "createdBy",
+    created_at as "createdAt",
+    updated_at as "updatedAt"`;
+
+/**
+ * Repository for banner variants (A/B tests).
+ * Running variants have no archived_at; archived ones are kept for their results.
+ */
+export const bannerVariantRepository = {
+    /**
+     * Variants of a website, running ones first, oldest first
+     */
+    async findByWebsiteId(websiteId: string): Promise<BannerVariant[]> {
+        const result = await query<BannerVariant>(
+            `SELECT ${VARIANT_COLUMNS}
+            FROM banner_variants
+            WHERE website_id = $1
+            ORDER BY archived_at DESC NULLS FIRST, created_at, name`,
+            [websiteId]
+        );
+        return result.rows;
+    },
+
+    /**
+     * Running variants of a website, oldest first
+     */
+    async findActive(websiteId: string): Promise<BannerVariant[]> {
+        const result = await query<BannerVariant>(
+            `SELECT ${VARIANT_COLUMNS}
+            FROM banner_variants
+            WHERE website_id = $1 AND archived_at IS NULL
+            ORDER BY created_at, name`,
+            [websiteId]
+        );
+        return result.rows;
+    },
+
+    async findById(websiteId: string, variantId: string): Promise<BannerVariant | null> {
+        const result = await query<BannerVariant>(
+            `SELECT ${VARIANT_COLUMNS}
+            FROM banner_variants
+            WHERE website_id = $1 AND id = $2`,
+            [websiteId, variantId]
+        );
+        return result.rows[0] || null;
+    },
+
+    async create(data: {
+        websiteId: string;
+        name: string;
+        trafficPercent: number;
+        styles: BannerVariantStyles;
+        text: Record<string, BannerVariantText>;
+        createdBy: string;
+    }): Promise<BannerVariant> {
+        const result = await query<BannerVariant>(
+            `INSERT INTO banner_variants (website_id, name, traffic_percent, styles, text, created_by)
+            VALUES ($1, $2, $3, $4, $5, $6)
+            RETURNING ${VARIANT_COLUMNS}`,
+            [data.websiteId, data.name, data.trafficPercent, data.styles, data.text, data.createdBy]
+        );
+        return result.rows[0];
+    },
+
+    async update(variantId: string, data: {
+        name: string;
+        trafficPercent: number;
+        styles: BannerVariantStyles;
+        text: Record<string, BannerVariantText>;
+    }): Promise<BannerVariant> {
+        const result = await query<BannerVariant>(
+            `UPDATE banner_variants
+            SET name = $2, traffic_percent = $3, styles = $4, text = $5, updated_at = NOW()
+            WHERE id = $1
+            RETURNING ${VARIANT_COLUMNS}`,
+            [variantId, data.name, data.trafficPercent, data.styles, data.text]
+        );
+        return result.rows[0];
+    },
+
+    async delete(websiteId: string, variantId: string): Promise<boolean> {
+        const result = await query(
+            `DELETE FROM banner_variants WHERE website_id = $1 AND id = $2`,
+            [websiteId, variantId]
+        );
+        return (result.rowCount ?? 0) > 0;
+    },
+
+    /**
+     * End the running experiment of a website
+     */
+    async archiveActive(websiteId: string): Promise<void> {
+        await query(
+            `UPDATE banner_variants
+            SET archived_at = NOW(), updated_at = NOW()
+            WHERE website_id = $1 AND archived_at IS NULL`,
+            [websiteId]
+        );
+    },
+};
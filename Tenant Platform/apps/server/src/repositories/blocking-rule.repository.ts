@@ -0,0 +1,101 @@
+import { query } from '../db';
+import { BlockingRule, BlockingRuleMatchType } from '../types';
+
+const RULE_COLUMNS = `
+    r.id,
+    r.website_id as "websiteId",
+    r.purpose_id as "purposeId",
+    p.tag as "purposeTag",
+    r.match_type as "matchType",
+    r.pattern,
+    r.created_by as "createdBy",
+    r.created_at as "createdAt",
+    r.updated_at as "updatedAt"`;
+
+/**
+ * Repository for auto-blocking rules.
+ * Each rule assigns a domain or URL pattern to one of the website's purposes.
+ */
+export const blockingRuleRepository = {
+    /**
+     * Rules of a website, by purpose
+     */
+    async findByWebsiteId(websiteId: string): Promise<BlockingRule[]> {
+        const result = await query<BlockingRule>(
+            `SELECT ${RULE_COLUMNS}
+            FROM website_blocking_rules r
+            JOIN purposes p ON p.id = r.purpose_id
+            WHERE r.website_id = $1
+            ORDER BY p.display_order, r.match_type, r.pattern`,
+            [websiteId]
+        );
+        return result.rows;
+    },
+
+    /**
+     * Get a rule of a website
+     */
+    async findById(websiteId: string, ruleId: string): Promise<BlockingRule | null> {
+        const result = await query<BlockingRule>(
+            `SELECT ${RULE_COLUMNS}
+            FROM website_blocking_rules r
+            JOIN purposes p ON p.id = r.purpose_id
+            WHERE r.website_id = $1 AND r.id = $2`,
+            [websiteId, ruleId]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * Find the rule with a pattern, to report duplicates
+     */
+    async findByPattern(
+        websiteId: string,
+        matchType: BlockingRuleMatchType,
+        pattern: string
+    ): Promise<{ id: string } | null> {
+        const result = await query<{ id: string }>(
+            `SELECT id FROM website_blocking_rules
+            WHERE website_id = $1 AND match_type = $2 AND pattern = $3`,
+            [websiteId, matchType, pattern]
+        );
+        return result.rows[0] || null;
+    },
+
+    async create(data: {
+        websiteId: string;
+        purposeId: string;
+        matchType: BlockingRuleMatchType;
+        pattern: string;
+        createdBy: string;
+    }): Promise<string> {
+        const result = await query<{ id: string }>(
+            `INSERT INTO website_blocking_rules (website_id, purpose_id, match_type, pattern, created_by)
+            VALUES ($1, $2, $3, $4, $5)
+            RETURNING id`,
+            [data.websiteId, data.purposeId, data.matchType, data.pattern, data.createdBy]
+        );
+        return result.rows[0].id;
+    },
+
+    async update(ruleId: string, data: {
+        purposeId: string;
+        matchType: BlockingRuleMatchType;
+        pattern: string;
+    }): Promise<void> {
+        await query(
+            `UPDATE website_blocking_rules
+            SET purpose_id = $2, match_type = $3, pattern = $4, updated_at = NOW()
+            WHERE id = $1`,
+            [ruleId, data.purposeId, data.matchType, data.pattern]
+        );
+    },
+
+    async delete(websiteId: string, ruleId: string): Promise<boolean> {
+        const result = await query(
+            `DELETE FROM website_blocking_rules WHERE website_id = $1 AND id = $2`,
+            [websiteId, ruleId]
+        );
+        return (result.rowCount ?? 0) > 0;
+    },
+};
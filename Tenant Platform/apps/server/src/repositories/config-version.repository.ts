@@ -0,0 +1,78 @@
+import { query } from '../db';
+import { ConfigChangeType, ConfigSnapshot, ConfigVersion, ConfigVersionSummary } from '../types';
+
+const CONFIG_VERSION_SUMMARY_COLUMNS = `
+    v.id,
+    v.website_id as "websiteId",
+    v.version,
+    v.content_hash as "contentHash",
+    v.change_type as "changeType",
+    v.added_purposes as "addedPurposes",
+    v.created_by as "createdBy",
+    v.created_at as "createdAt"`;
+
+/**
+ * Repository for notice/purpose configuration versions.
+ * Note: Versions are IMMUTABLE (enforced by database trigger)
+ */
+export const configVersionRepository = {
+    /**
+     * Append the next version for a website
+     */
+    async create(data: {
+        websiteId: string;
+        contentHash: string;
+        changeType: ConfigChangeType;
+        addedPurposes: string[];
+        snapshot: ConfigSnapshot;
+        createdBy: string;
+    }): Promise<ConfigVersion> {
+        const result = await query<ConfigVersion>(
+            `INSERT INTO website_config_versions AS v
+            (website_id, version, content_hash, change_type, added_purposes, snapshot, created_by)
+            SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4, $5, $6
+            FROM website_config_versions
+            WHERE website_id = $1
+            RETURNING ${CONFIG_VERSION_SUMMARY_COLUMNS}, v.snapshot`,
+            [
+                data.websiteId,
+                data.contentHash,
+                data.changeType,
+                data.addedPurposes,
+                data.snapshot,
+                data.createdBy,
+            ]
+        );
+        return result.rows[0];
+    },
+
+    /**
+     * Get the most recent version of a website's configuration
+     */
+    async findLatest(websiteId: string): Promise<ConfigVersion | null> {
+        const result = await query<ConfigVersion>(
+            `SELECT ${CONFIG_VERSION_SUMMARY_COLUMNS}, v.snapshot
+            FROM website_config_versions v
+            WHERE v.website_id = $1
+            ORDER BY v.version DESC
+            LIMIT 1`,
+            [websiteId]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * List versions, newest first, without snapshots
+     */
+    async findByWebsiteId(websiteId: string): Promise<ConfigVersionSummary[]> {
+        const result = await query<ConfigVersionSummary>(
+            `SELECT ${CONFIG_VERSION_SUMMARY_COLUMNS}, u.email as "createdByEmail"
+            FROM website_config_versions v
+            LEFT JOIN tenant_users u ON v.created_by = u.id
+            WHERE v.website_id = $1
+            ORDER BY v.version DESC`,
+            [websiteId]
+        );
+        return result.rows;
+    },
+};
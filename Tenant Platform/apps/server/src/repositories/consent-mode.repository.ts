@@ -0,0 +1,67 @@
+import { query } from '../db';
+import { WebsiteConsentMode } from '../types';
+import { UpdateConsentModeInput } from '../validators';
+
+const CONSENT_MODE_COLUMNS = `
+    id,
+    website_id as "websiteId",
+    enabled,
+    signal_mapping as "signalMapping",
+    wait_for_update_ms as "waitForUpdateMs",
+    ads_data_redaction as "adsDataRedaction",
+    url_passthrough as "urlPassthrough",
+    created_at as "createdAt",
+    updated_at as "updatedAt"`;
+
+/**
+ * Repository for Google Consent Mode settings.
+ */
+export const consentModeRepository = {
+    /**
+     * Get Consent Mode settings for a website
+     */
+    async findByWebsiteId(websiteId: string): Promise<WebsiteConsentMode | null> {
+        const result = await query<WebsiteConsentMode>(
+            `SELECT ${CONSENT_MODE_COLUMNS}
+            FROM website_consent_mode
+            WHERE website_id = $1`,
+            [websiteId]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * Create or update Consent Mode settings (upsert)
+     */
+    async upsert(websiteId: string, input: UpdateConsentModeInput): Promise<WebsiteConsentMode> {
+        const result = await query<WebsiteConsentMode>(
+            `INSERT INTO website_consent_mode (
+                website_id,
+                enabled,
+                signal_mapping,
+                wait_for_update_ms,
+                ads_data_redaction,
+                url_passthrough
+            )
+            VALUES ($1, $2, $3, $4, $5, $6)
+            ON CONFLICT (website_id)
+            DO UPDATE SET
+                enabled = EXCLUDED.enabled,
+                signal_mapping = EXCLUDED.signal_mapping,
+                wait_for_update_ms = EXCLUDED.wait_for_update_ms,
+                ads_data_redaction = EXCLUDED.ads_data_redaction,
+                url_passthrough = EXCLUDED.url_passthrough,
+                updated_at = NOW()
+            RETURNING ${CONSENT_MODE_COLUMNS}`,
+            [
+                websiteId,
+                input.enabled,
+                JSON.stringify(input.signalMapping),
+                input.waitForUpdateMs,
+                input.adsDataRedaction,
+                input.urlPassthrough,
+            ]
+        );
+        return result.rows[0];
+    },
+};
@@ -0,0 +1,121 @@
+import { query } from '../db';
+import { ConsentRecord, ConsentAction, ConsentReceiptPayload } from '../types';
+
+const CONSENT_RECORD_COLUMNS = `
+    id,
+    website_id as "websiteId",
+    visitor_id as "visitorId",
+    action,
+    decisions,
+    language_code as "languageCode",
+    notice_version as "noticeVersion",
+    purpose_versions as "purposeVersions",
+    config_version as "configVersion",
+    loader_version as "loaderVersion",
+    banner_variant as "bannerVariant",
+    ip_hash as "ipHash",
+    user_agent as "userAgent",
+    receipt_id as "receiptId",
+    receipt_payload as "receiptPayload",
+    receipt_signature as "receiptSignature",
+    created_at as "createdAt"`;
+
+/**
+ * Repository for the consent ledger.
+ * Note: Consent records are APPEND-ONLY (enforced by database trigger)
+ */
+export const consentRepository = {
+    /**
+     * Append a consent record
+     */
+    async create(data: {
+        id: string;
+        websiteId: string;
+        visitorId: string;
+        action: ConsentAction;
+        decisions: Record<string, boolean>;
+        languageCode?: string;
+        noticeVersion?: string;
+        purposeVersions?: Record<string, string>;
+        configVersion?: number;
+        loaderVersion?: string;
+        bannerVariant?: string;
+        ipHash?: string;
+        userAgent?: string;
+        receiptId: string;
+        receiptPayload: ConsentReceiptPayload;
+        receiptSignature: string;
+        createdAt: Date;
+    }): Promise<ConsentRecord> {
+        const result = await query<ConsentRecord>(
+            `INSERT INTO consent_records 
+            (id, website_id, visitor_id, action, decisions, language_code, notice_version,
+             purpose_versions, config_version, loader_version, banner_variant, ip_hash, user_agent,
+             receipt_id, receipt_payload, receipt_signature, created_at)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+            RETURNING ${CONSENT_RECORD_COLUMNS}`,
+            [
+                data.id,
+                data.websiteId,
+                data.visitorId,
+                data.action,
+                data.decisions,
+                data.languageCode || null,
+                data.noticeVersion || null,
+                data.purposeVersions || {},
+                data.configVersion ?? null,
+                data.loaderVersion || null,
+                data.bannerVariant || null,
+                data.ipHash || null,
+                data.userAgent || null,
+                data.receiptId,
+                data.receiptPayload,
+                data.receiptSignature,
+                data.createdAt,
+            ]
+        );
+        return result.rows[0];
+    },
+
+    /**
+     * Find a record by its receipt ID
+     */
+    async findByReceiptId(receiptId: string): Promise<ConsentRecord | null> {
+        const result = await query<ConsentRecord>(
+            `SELECT ${CONSENT_RECORD_COLUMNS}
+            FROM consent_records
+            WHERE receipt_id = $1`,
+            [receiptId]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * Find the most recent record for a visitor on a website
+     */
+    async findLatestByVisitor(websiteId: string, visitorId: string): Promise<ConsentRecord | null> {
+        const result = await query<ConsentRecord>(
+            `SELECT ${CONSENT_RECORD_COLUMNS}
+            FROM consent_records
+            WHERE website_id = $1 AND visitor_id = $2
+            ORDER BY created_at DESC
+            LIMIT 1`,
+            [websiteId, visitorId]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * Find all records for a visitor on a website, oldest first
+     */
+    async findByVisitor(websiteId: string, visitorId: string): Promise<ConsentRecord[]> {
+        const result = await query<ConsentRecord>(
+            `SELECT ${CONSENT_RECORD_COLUMNS}
+            FROM consent_records
+            WHERE website_id = $1 AND visitor_id = $2
+            ORDER BY created_at ASC`,
+            [websiteId, visitorId]
+        );
+        return result.rows;
+    },
+};
@@ -0,0 +1,122 @@
+import { query } from '../db';
+import { CookieDeclaration, CookieStorageType } from '../types';
+
+const COOKIE_COLUMNS = `
+    c.id,
+    c.website_id as "websiteId",
+    c.purpose_id as "purposeId",
+    p.tag as "purposeTag",
+    c.storage_type as "storageType",
+    c.name,
+    c.provider,
+    c.duration,
+    c.description,
+    c.created_by as "createdBy",
+    c.created_at as "createdAt",
+    c.updated_at as "updatedAt"`;
+
+type CookieData = {
+    purposeId: string;
+    storageType: CookieStorageType;
+    name: string;
+    provider: string | null;
+    duration: string | null;
+    description: string | null;
+};
+
+/**
+ * Repository for cookie declarations.
+ * Each declaration puts a cookie or localStorage key under one of the website's purposes.
+ */
+export const cookieRepository = {
+    /**
+     * Declarations of a website, by purpose
+     */
+    async findByWebsiteId(websiteId: string): Promise<CookieDeclaration[]> {
+        const result = await query<CookieDeclaration>(
+            `SELECT ${COOKIE_COLUMNS}
+            FROM website_cookies c
+            JOIN purposes p ON p.id = c.purpose_id
+            WHERE c.website_id = $1
+            ORDER BY p.display_order, c.storage_type, c.name`,
+            [websiteId]
+        );
+        return result.rows;
+    },
+
+    /**
+     * Get a declaration of a website
+     */
+    async findById(websiteId: string, cookieId: string): Promise<CookieDeclaration | null> {
+        const result = await query<CookieDeclaration>(
+            `SELECT ${COOKIE_COLUMNS}
+            FROM website_cookies c
+            JOIN purposes p ON p.id = c.purpose_id
+            WHERE c.website_id = $1 AND c.id = $2`,
+            [websiteId, cookieId]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * Find the declaration of a name, to report duplicates
+     */
+    async findByName(
+        websiteId: string,
+        storageType: CookieStorageType,
+        name: string
+    ): Promise<{ id: string } | null> {
+        const result = await query<{ id: string }>(
+            `SELECT id FROM website_cookies
+            WHERE website_id = $1 AND storage_type = $2 AND name = $3`,
+            [websiteId, storageType, name]
+        );
+        return result.rows[0] || null;
+    },
+
+    async create(data: CookieData & { websiteId: string; createdBy: string }): Promise<string> {
+        const result = await query<{ id: string }>(
+            `INSERT INTO website_cookies (website_id, purpose_id, storage_type, name, provider, duration, description, created_by)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+            RETURNING id`,
+            [data.websiteId, data.purposeId, data.storageType, data.name, data.provider, data.duration, data.description, data.createdBy]
+        );
+        return result.rows[0].id;
+    },
+
+    async update(cookieId: string, data: CookieData): Promise<void> {
+        await query(
+            `UPDATE website_cookies
+            SET purpose_id = $2, storage_type = $3, name = $4, provider = $5, duration = $6,
+                description = $7, updated_at = NOW()
+            WHERE id = $1`,
+            [cookieId, data.purposeId, data.storageType, data.name, data.provider, data.duration, data.description]
+        );
+    },
+
+    async delete(websiteId: string, cookieId: string): Promise<boolean> {
+        const result = await query(
+            `DELETE FROM website_cookies WHERE website_id = $1 AND id = $2`,
+            [websiteId, cookieId]
+        );
+        return (result.rowCount ?? 0) > 0;
+    },
+
+    /**
+     * Whether the loader enforces the declarations
+     */
+    async findGovernance(websiteId: string): Promise<boolean> {
+        const result = await query<{ enabled: boolean }>(
+            `SELECT cookie_governance as enabled FROM websites WHERE id = $1`,
+            [websiteId]
+        );
+        return result.rows[0]?.enabled ?? false;
+    },
+
+    async updateGovernance(websiteId: string, enabled: boolean): Promise<void> {
+        await query(
+            `UPDATE websites SET cookie_governance = $2, updated_at = NOW() WHERE id = $1`,
+            [websiteId, enabled]
+        );
+    },
+};
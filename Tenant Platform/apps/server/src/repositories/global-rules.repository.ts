@@ -0,0 +1,20 @@
+import { query } from '../db';
+import { GlobalRules } from '../types';
+
+/**
+ * Repository for global rules.
+ * Read-only: rule versions are created and activated by Super Admins in the Admin Portal.
+ */
+export const globalRulesRepository = {
+    /**
+     * Get the active rule version, if any
+     */
+    async findActive(): Promise<GlobalRules | null> {
+        const result = await query<GlobalRules>(
+            `SELECT id, version, rules_json as "rulesJson"
+            FROM global_rules
+            WHERE is_active = TRUE`
+        );
+        return result.rows[0] || null;
+    },
+};
@@ -0,0 +1,38 @@
+import { query } from '../db';
+import { IncidentSeverity } from '../types';
+
+/**
+ * Repository for incidents raised to the Admin Portal, where Super Admins
+ * review and resolve them. Rights request SLA breaches are raised along
+ * with their request history in rightsRequestRepository.
+ */
+export const incidentRepository = {
+    /**
+     * Raise an incident for a website, or for the platform without one,
+     * unless one of the same type is already open for it from the last
+     * windowSeconds. The tenant is the website's, when the website exists.
+     * Returns the incident ID, or null when one was already open.
+     */
+    async raiseOnce(
+        type: string,
+        severity: IncidentSeverity,
+        websiteId: string | null,
+        metadata: Record<string, unknown>,
+        windowSeconds: number
+    ): Promise<string | null> {
+        const result = await query<{ id: string }>(
+            `INSERT INTO incidents (severity, type, status, tenant_id, metadata)
+            SELECT $1, $2, 'OPEN', (SELECT tenant_id FROM websites WHERE id = $3::uuid), $4
+            WHERE NOT EXISTS (
+                SELECT 1 FROM incidents
+                WHERE type = $2
+                    AND status = 'OPEN'
+                    AND metadata->>'websiteId' IS NOT DISTINCT FROM $6::text
+                    AND created_at > CURRENT_TIMESTAMP - make_interval(secs => $5)
+            )
+            RETURNING id`,
+            [severity, type, websiteId, { ...metadata, websiteId }, windowSeconds, websiteId]
+        );
+        return result.rows[0]?.id || null;
+    },
+};
@@ -3,5 +3,22 @@ export * from './website.repository';
 export * from './notice.repository';
 export * from './purpose.repository';
 export * from './banner.repository';
+export * from './banner-variant.repository';
+export * from './consent-mode.repository';
+export * from './tcf.repository';
 export * from './audit.repository';
 export * from './language.repository';
+export * from './consent.repository';
+export * from './config-version.repository';
+export * from './published-config.repository';
+export * from './rights-request.repository';
+export * from './global-rules.repository';
+export * from './scan.repository';
+export * from './tracker.repository';
+export * from './blocking-rule.repository';
+export * from './cookie.repository';
+export * from './analytics.repository';
+export * from './telemetry.repository';
+export * from './webhook.repository';
+export * from './security-event.repository';
+export * from './incident.repository';
@@ -0,0 +1,124 @@
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../db';
+import { PublishedConfig, PublishedConfigSummary } from '../types';
+import type { RuntimeWebsiteConfig } from '../services/runtime.service';
+
+const PUBLISHED_CONFIG_SUMMARY_COLUMNS = `
+    p.id,
+    p.website_id as "websiteId",
+    p.version,
+    p.content_hash as "contentHash",
+    p.config_version as "configVersion",
+    p.rolled_back_from as "rolledBackFrom",
+    p.note,
+    p.published_by as "publishedBy",
+    p.published_at as "publishedAt"`;
+
+export interface NewPublishedConfig {
+    websiteId: string;
+    config: RuntimeWebsiteConfig;
+    contentHash: string;
+    configVersion?: number;
+    rolledBackFrom?: number;
+    note?: string;
+    publishedBy?: string; // Unset for versions published by the system
+}
+
+/**
+ * Append the next published version inside an existing transaction.
+ * Publishes of one website wait on its row, so each reads the version
+ * written by the one before it.
+ */
+export async function insertPublishedConfig(client: PoolClient, data: NewPublishedConfig): Promise<PublishedConfig> {
+    await client.query('SELECT id FROM websites WHERE id = $1 FOR UPDATE', [data.websiteId]);
+
+    const result = await client.query<PublishedConfig>(
+        `INSERT INTO published_configs AS p
+        (website_id, version, config, content_hash, config_version, rolled_back_from, note, published_by)
+        SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4, $5, $6, $7
+        FROM published_configs
+        WHERE website_id = $1
+        RETURNING ${PUBLISHED_CONFIG_SUMMARY_COLUMNS}, p.config`,
+        [
+            data.websiteId,
+            data.config,
+            data.contentHash,
+            data.configVersion || null,
+            data.rolledBackFrom || null,
+            data.note || null,
+            data.publishedBy || null,
+        ]
+    );
+    return result.rows[0];
+}
+
+/**
+ * Repository for published runtime configurations.
+ * Note: Published configs are IMMUTABLE (enforced by database trigger);
+ * the row with the highest version is live.
+ */
+export const publishedConfigRepository = {
+    /**
+     * Append the next published version for a website.
+     * Concurrent publishes are serialized on the website row.
+     */
+    async create(data: NewPublishedConfig): Promise<PublishedConfig> {
+        return withTransaction((client: PoolClient) => insertPublishedConfig(client, data));
+    },
+
+    /**
+     * IDs of ACTIVE websites that have never been published
+     */
+    async findUnpublishedActiveWebsiteIds(): Promise<string[]> {
+        const result = await query<{ id: string }>(
+            `SELECT w.id FROM websites w
+            WHERE w.status = 'ACTIVE'
+                AND NOT EXISTS (SELECT 1 FROM published_configs p WHERE p.website_id = w.id)
+            ORDER BY w.created_at`
+        );
+        return result.rows.map((row) => row.id);
+    },
+
+    /**
+     * Get the live (most recent) published configuration
+     */
+    async findLatest(websiteId: string): Promise<PublishedConfig | null> {
+        const result = await query<PublishedConfig>(
+            `SELECT ${PUBLISHED_CONFIG_SUMMARY_COLUMNS}, p.config
+            FROM published_configs p
+            WHERE p.website_id = $1
+            ORDER BY p.version DESC
+            LIMIT 1`,
+            [websiteId]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * Get a specific published version
+     */
+    async findByVersion(websiteId: string, version: number): Promise<PublishedConfig | null> {
+        const result = await query<PublishedConfig>(
+            `SELECT ${PUBLISHED_CONFIG_SUMMARY_COLUMNS}, p.config
+            FROM published_configs p
+            WHERE p.website_id = $1 AND p.version = $2`,
+            [websiteId, version]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * List published versions, newest first, without configs
+     */
+    async findByWebsiteId(websiteId: string): Promise<PublishedConfigSummary[]> {
+        const result = await query<PublishedConfigSummary>(
+            `SELECT ${PUBLISHED_CONFIG_SUMMARY_COLUMNS}, u.email as "publishedByEmail"
+            FROM published_configs p
+            LEFT JOIN tenant_users u ON p.published_by = u.id
+            WHERE p.website_id = $1
+            ORDER BY p.version DESC`,
+            [websiteId]
+        );
+        return result.rows;
+    },
+};
@@ -0,0 +1,521 @@
+import { query, withTransaction } from '../db';
+import {
+    RightsRequest,
+    RightsRequestWithWebsite,
+    RightsRequestEvent,
+    RightsRequestEventType,
+    RightsRequestStatus,
+    RightsRequestType,
+    RightsRequestVerificationState,
+    RightsRequestSlaBreach,
+    RightsRequestSlaSummary,
+    IncidentSeverity,
+    PaginatedResponse,
+} from '../types';
+import { RightsRequestFiltersInput } from '../validators';
+import { PoolClient } from 'pg';
+
+const RIGHTS_REQUEST_COLUMNS = `
+    rr.id,
+    rr.request_number as "requestNumber",
+    rr.tenant_id as "tenantId",
+    rr.website_id as "websiteId",
+    rr.request_type as "requestType",
+    rr.status,
+    rr.requester_email as "requesterEmail",
+    rr.description,
+    rr.details,
+    rr.language_code as "languageCode",
+    rr.assigned_to as "assignedTo",
+    rr.verification_expires_at as "verificationExpiresAt",
+    rr.verified_at as "verifiedAt",
+    rr.due_at as "dueAt",
+    rr.sla_breached_at as "slaBreachedAt",
+    rr.created_at as "createdAt",
+    rr.updated_at as "updatedAt",
+    rr.closed_at as "closedAt"`;
+
+const VERIFICATION_STATE_COLUMNS = `
+    id,
+    request_number as "requestNumber",
+    website_id as "websiteId",
+    request_type as "requestType",
+    status,
+    verification_code_hash as "verificationCodeHash",
+    verification_attempts as "verificationAttempts",
+    verification_expires_at as "verificationExpiresAt"`;
+
+// Requests awaiting email verification (or expired without it) are not released to the tenant
+const RELEASED_CONDITION = `rr.status NOT IN ('PENDING_VERIFICATION', 'EXPIRED')`;
+
+// Requests the tenant still has to act on (the SLA clock is running)
+const OPEN_CONDITION = `rr.status IN ('RECEIVED', 'VERIFYING', 'IN_PROGRESS')`;
+
+/**
+ * Insert a history event inside an existing transaction.
+ */
+async function insertEvent(
+    client: PoolClient,
+    requestId: string,
+    eventType: RightsRequestEventType,
+    options: {
+        fromStatus?: RightsRequestStatus;
+        toStatus?: RightsRequestStatus;
+        actorId?: string;
+        note?: string;
+        metadata?: Record<string, any>;
+    } = {}
+): Promise<void> {
+    await client.query(
+        `INSERT INTO rights_request_events
+        (request_id, event_type, from_status, to_status, actor_id, note, metadata)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+            requestId,
+            eventType,
+            options.fromStatus || null,
+            options.toStatus || null,
+            options.actorId || null,
+            options.note || null,
+            options.metadata || {},
+        ]
+    );
+}
+
+/**
+ * Repository for data principal rights requests.
+ * Note: Request history (rights_request_events) is APPEND-ONLY (enforced by database trigger)
+ */
+export const rightsRequestRepository = {
+    /**
+     * Create a rights request awaiting email verification, with its SUBMITTED history event
+     */
+    async create(data: {
+        requestNumber: string;
+        tenantId: string;
+        websiteId: string;
+        requestType: RightsRequestType;
+        requesterEmail: string;
+        description: string;
+        details: Record<string, any>;
+        languageCode?: string;
+        ipHash?: string;
+        userAgent?: string;
+        verificationTokenHash: string;
+        verificationCodeHash: string;
+        verificationExpiresAt: Date;
+    }): Promise<RightsRequest> {
+        return withTransaction(async (client: PoolClient) => {
+            const result = await client.query<RightsRequest>(
+                `INSERT INTO rights_requests AS rr
+                (request_number, tenant_id, website_id, request_type, requester_email,
+                 description, details, language_code, ip_hash, user_agent, status,
+                 verification_token_hash, verification_code_hash, verification_expires_at)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'PENDING_VERIFICATION', $11, $12, $13)
+                RETURNING ${RIGHTS_REQUEST_COLUMNS}`,
+                [
+                    data.requestNumber,
+                    data.tenantId,
+                    data.websiteId,
+                    data.requestType,
+                    data.requesterEmail,
+                    data.description,
+                    data.details,
+                    data.languageCode || null,
+                    data.ipHash || null,
+                    data.userAgent || null,
+                    data.verificationTokenHash,
+                    data.verificationCodeHash,
+                    data.verificationExpiresAt,
+                ]
+            );
+            const request = result.rows[0];
+
+            await insertEvent(client, request.id, 'SUBMITTED', { toStatus: request.status });
+
+            return request;
+        });
+    },
+
+    /**
+     * Find rights requests for a tenant with pagination and filters
+     */
+    async findByTenantId(
+        tenantId: string,
+        filters: RightsRequestFiltersInput
+    ): Promise<PaginatedResponse<RightsRequestWithWebsite>> {
+        const conditions: string[] = ['rr.tenant_id = $1', RELEASED_CONDITION];
+        const values: any[] = [tenantId];
+        let paramIndex = 2;
+
+        if (filters.status) {
+            conditions.push(`rr.status = $${paramIndex++}`);
+            values.push(filters.status);
+        }
+        if (filters.requestType) {
+            conditions.push(`rr.request_type = $${paramIndex++}`);
+            values.push(filters.requestType);
+        }
+        if (filters.websiteId) {
+            conditions.push(`rr.website_id = $${paramIndex++}`);
+            values.push(filters.websiteId);
+        }
+
+        const whereClause = conditions.join(' AND ');
+        const offset = (filters.page - 1) * filters.limit;
+
+        const countResult = await query<{ count: string }>(
+            `SELECT COUNT(*) as count
+            FROM rights_requests rr
+            WHERE ${whereClause}`,
+            values
+        );
+        const total = parseInt(countResult.rows[0].count, 10);
+
+        values.push(filters.limit, offset);
+        const result = await query<RightsRequestWithWebsite>(
+            `SELECT ${RIGHTS_REQUEST_COLUMNS},
+                w.domain as "websiteDomain"
+            FROM rights_requests rr
+            JOIN websites w ON rr.website_id = w.id
+            WHERE ${whereClause}
+            ORDER BY rr.created_at DESC
+            LIMIT $${paramIndex++} OFFSET $${paramIndex}`,
+            values
+        );
+
+        return {
+            items: result.rows,
+            pagination: {
+                page: filters.page,
+                limit: filters.limit,
+                total,
+                totalPages: Math.ceil(total / filters.limit),
+            },
+        };
+    },
+
+    /**
+     * Find a rights request by ID, scoped to a tenant
+     */
+    async findByIdAndTenant(id: string, tenantId: string): Promise<RightsRequestWithWebsite | null> {
+        const result = await query<RightsRequestWithWebsite>(
+            `SELECT ${RIGHTS_REQUEST_COLUMNS},
+                w.domain as "websiteDomain"
+            FROM rights_requests rr
+            JOIN websites w ON rr.website_id = w.id
+            WHERE rr.id = $1 AND rr.tenant_id = $2 AND ${RELEASED_CONDITION}`,
+            [id, tenantId]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * Get the history of a rights request, oldest first
+     */
+    async getEvents(requestId: string): Promise<RightsRequestEvent[]> {
+        const result = await query<RightsRequestEvent>(
+            `SELECT
+                e.id,
+                e.request_id as "requestId",
+                e.event_type as "eventType",
+                e.from_status as "fromStatus",
+                e.to_status as "toStatus",
+                e.actor_id as "actorId",
+                tu.email as "actorEmail",
+                e.note,
+                e.metadata,
+                e.created_at as "createdAt"
+            FROM rights_request_events e
+            LEFT JOIN tenant_users tu ON e.actor_id = tu.id
+            WHERE e.request_id = $1
+            ORDER BY e.created_at ASC`,
+            [requestId]
+        );
+        return result.rows;
+    },
+
+    /**
+     * Change status and record the transition.
+     * closed_at is set when the request reaches a terminal status.
+     */
+    async updateStatus(
+        id: string,
+        fromStatus: RightsRequestStatus,
+        toStatus: RightsRequestStatus,
+        actorId: string | undefined,
+        note?: string
+    ): Promise<RightsRequest | null> {
+        return withTransaction(async (client: PoolClient) => {
+            const result = await client.query<RightsRequest>(
+                `UPDATE rights_requests rr
+                SET status = $2,
+                    closed_at = CASE WHEN $2 IN ('COMPLETED', 'REJECTED') THEN CURRENT_TIMESTAMP ELSE NULL END,
+                    updated_at = CURRENT_TIMESTAMP
+                WHERE rr.id = $1 AND rr.status = $3
+                RETURNING ${RIGHTS_REQUEST_COLUMNS}`,
+                [id, toStatus, fromStatus]
+            );
+            if (result.rows.length === 0) {
+                return null;
+            }
+
+            await insertEvent(client, id, 'STATUS_CHANGED', { fromStatus, toStatus, actorId, note });
+
+            return result.rows[0];
+        });
+    },
+
+    /**
+     * Change the assignee and record it
+     */
+    async updateAssignee(
+        id: string,
+        assignedTo: string | null,
+        actorId: string
+    ): Promise<RightsRequest> {
+        return withTransaction(async (client: PoolClient) => {
+            const result = await client.query<RightsRequest>(
+                `UPDATE rights_requests rr
+                SET assigned_to = $2, updated_at = CURRENT_TIMESTAMP
+                WHERE rr.id = $1
+                RETURNING ${RIGHTS_REQUEST_COLUMNS}`,
+                [id, assignedTo]
+            );
+
+            await insertEvent(client, id, 'ASSIGNED', {
+                actorId,
+                metadata: { assignedTo },
+            });
+
+            return result.rows[0];
+        });
+    },
+
+    /**
+     * Record a system event (no tenant actor)
+     */
+    async addSystemEvent(
+        id: string,
+        eventType: RightsRequestEventType,
+        metadata: Record<string, any> = {}
+    ): Promise<void> {
+        await withTransaction(async (client: PoolClient) => {
+            await insertEvent(client, id, eventType, { metadata });
+        });
+    },
+
+    /**
+     * Find verification state by public request number
+     */
+    async findVerificationByNumber(
+        websiteId: string,
+        requestNumber: string
+    ): Promise<RightsRequestVerificationState | null> {
+        const result = await query<RightsRequestVerificationState>(
+            `SELECT ${VERIFICATION_STATE_COLUMNS}
+            FROM rights_requests
+            WHERE website_id = $1 AND request_number = $2`,
+            [websiteId, requestNumber]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * Find verification state by link token hash
+     */
+    async findVerificationByTokenHash(tokenHash: string): Promise<RightsRequestVerificationState | null> {
+        const result = await query<RightsRequestVerificationState>(
+            `SELECT ${VERIFICATION_STATE_COLUMNS}
+            FROM rights_requests
+            WHERE verification_token_hash = $1`,
+            [tokenHash]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * Count a code attempt before the code is checked. The count is taken in
+     * the same statement as the limit check, so parallel guesses cannot get
+     * past it. Returns false once the attempts are used up.
+     */
+    async takeVerificationAttempt(id: string, maxAttempts: number): Promise<boolean> {
+        const result = await query(
+            `UPDATE rights_requests
+            SET verification_attempts = verification_attempts + 1, updated_at = CURRENT_TIMESTAMP
+            WHERE id = $1 AND status = 'PENDING_VERIFICATION' AND verification_attempts < $2
+            RETURNING id`,
+            [id, maxAttempts]
+        );
+        return result.rows.length > 0;
+    },
+
+    /**
+     * Release a pending request to the tenant (RECEIVED), start its SLA clock
+     * and record the verification. Returns null if the request was no longer pending.
+     */
+    async markVerified(
+        id: string,
+        method: 'CODE' | 'LINK',
+        sla: { dueAt: Date; rulesVersion?: number }
+    ): Promise<RightsRequest | null> {
+        return withTransaction(async (client: PoolClient) => {
+            const result = await client.query<RightsRequest>(
+                `UPDATE rights_requests rr
+                SET status = 'RECEIVED',
+                    verified_at = CURRENT_TIMESTAMP,
+                    verification_token_hash = NULL,
+                    verification_code_hash = NULL,
+                    due_at = $2,
+                    sla_rules_version = $3,
+                    updated_at = CURRENT_TIMESTAMP
+                WHERE rr.id = $1 AND rr.status = 'PENDING_VERIFICATION'
+                RETURNING ${RIGHTS_REQUEST_COLUMNS}`,
+                [id, sla.dueAt, sla.rulesVersion ?? null]
+            );
+            if (result.rows.length === 0) {
+                return null;
+            }
+
+            await insertEvent(client, id, 'VERIFIED', {
+                fromStatus: 'PENDING_VERIFICATION',
+                toStatus: 'RECEIVED',
+                metadata: { method, dueAt: sla.dueAt, slaRulesVersion: sla.rulesVersion ?? null },
+            });
+
+            return result.rows[0];
+        });
+    },
+
+    /**
+     * Count open requests that are overdue or due within the given window
+     */
+    async getSlaSummary(tenantId: string, dueSoonDays: number): Promise<RightsRequestSlaSummary> {
+        const result = await query<{ open: string; overdue: string; dueSoon: string }>(
+            `SELECT
+                COUNT(*) as open,
+                COUNT(*) FILTER (WHERE rr.due_at <= CURRENT_TIMESTAMP) as overdue,
+                COUNT(*) FILTER (
+                    WHERE rr.due_at > CURRENT_TIMESTAMP
+                    AND rr.due_at <= CURRENT_TIMESTAMP + make_interval(days => $2)
+                ) as "dueSoon"
+            FROM rights_requests rr
+            WHERE rr.tenant_id = $1 AND ${OPEN_CONDITION}`,
+            [tenantId, dueSoonDays]
+        );
+        const row = result.rows[0];
+        return {
+            open: parseInt(row.open, 10),
+            overdue: parseInt(row.overdue, 10),
+            dueSoon: parseInt(row.dueSoon, 10),
+            dueSoonDays,
+        };
+    },
+
+    /**
+     * Find open requests past their due date that have not been escalated yet
+     */
+    async findUnescalatedBreaches(limit: number = 100): Promise<RightsRequestSlaBreach[]> {
+        const result = await query<RightsRequestSlaBreach>(
+            `SELECT
+                rr.id,
+                rr.tenant_id as "tenantId",
+                rr.website_id as "websiteId",
+                rr.request_number as "requestNumber",
+                rr.request_type as "requestType",
+                rr.due_at as "dueAt"
+            FROM rights_requests rr
+            WHERE ${OPEN_CONDITION}
+                AND rr.due_at <= CURRENT_TIMESTAMP
+                AND rr.sla_breached_at IS NULL
+            ORDER BY rr.due_at ASC
+            LIMIT $1`,
+            [limit]
+        );
+        return result.rows;
+    },
+
+    /**
+     * Raise an incident for a breached request and record it in the request history.
+     * Returns false if the breach was already escalated.
+     */
+    async escalateBreach(breach: RightsRequestSlaBreach, severity: IncidentSeverity): Promise<boolean> {
+        return withTransaction(async (client: PoolClient) => {
+            const result = await client.query(
+                `UPDATE rights_requests
+                SET sla_breached_at = CURRENT_TIMESTAMP
+                WHERE id = $1 AND sla_breached_at IS NULL
+                RETURNING id`,
+                [breach.id]
+            );
+            if (result.rows.length === 0) {
+                return false;
+            }
+
+            const incident = await client.query<{ id: string }>(
+                `INSERT INTO incidents (severity, type, status, tenant_id, metadata)
+                VALUES ($1, 'RIGHTS_REQUEST_SLA_BREACH', 'OPEN', $2, $3)
+                RETURNING id`,
+                [
+                    severity,
+                    breach.tenantId,
+                    {
+                        requestId: breach.id,
+                        requestNumber: breach.requestNumber,
+                        requestType: breach.requestType,
+                        websiteId: breach.websiteId,
+                        dueAt: breach.dueAt,
+                    },
+                ]
+            );
+
+            await insertEvent(client, breach.id, 'SLA_BREACHED', {
+                metadata: { dueAt: breach.dueAt, severity, incidentId: incident.rows[0].id },
+            });
+
+            return true;
+        });
+    },
+
+    /**
+     * Expire every pending request past its verification window.
+     * Returns the number of requests expired.
+     */
+    async expireUnverified(): Promise<number> {
+        return withTransaction(async (client: PoolClient) => {
+            const result = await client.query<{ id: string }>(
+                `UPDATE rights_requests
+                SET status = 'EXPIRED',
+                    verification_token_hash = NULL,
+                    verification_code_hash = NULL,
+                    closed_at = CURRENT_TIMESTAMP,
+                    updated_at = CURRENT_TIMESTAMP
+                WHERE status = 'PENDING_VERIFICATION' AND verification_expires_at <= CURRENT_TIMESTAMP
+                RETURNING id`
+            );
+
+            for (const row of result.rows) {
+                await insertEvent(client, row.id, 'EXPIRED', {
+                    fromStatus: 'PENDING_VERIFICATION',
+                    toStatus: 'EXPIRED',
+                    metadata: { reason: 'Email not verified within the verification window' },
+                });
+            }
+
+            return result.rows.length;
+        });
+    },
+
+    /**
+     * Add an internal note
+     */
+    async addNote(id: string, note: string, actorId: string): Promise<void> {
+        await withTransaction(async (client: PoolClient) => {
+            await client.query(
+                `UPDATE rights_requests SET updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+                [id]
+            );
+            await insertEvent(client, id, 'NOTE', { actorId, note });
+        });
+    },
+};
@@ -0,0 +1,145 @@
+import { query } from '../db';
+import { ScanItem, ScanPage, WebsiteScan, WebsiteScanSummary } from '../types';
+
+const SCAN_SUMMARY_COLUMNS = `
+    id,
+    website_id as "websiteId",
+    status,
+    start_urls as "startUrls",
+    max_pages as "maxPages",
+    jsonb_array_length(pages) as "pageCount",
+    item_count as "itemCount",
+    error,
+    requested_by as "requestedBy",
+    started_at as "startedAt",
+    completed_at as "completedAt",
+    created_at as "createdAt"`;
+
+/**
+ * Repository for cookie and tracker scans.
+ * Scans are kept per website as history, newest first.
+ */
+export const scanRepository = {
+    /**
+     * Queue a new scan
+     */
+    async create(data: {
+        websiteId: string;
+        startUrls: string[];
+        maxPages: number;
+        requestedBy: string;
+    }): Promise<WebsiteScanSummary> {
+        const result = await query<WebsiteScanSummary>(
+            `INSERT INTO website_scans (website_id, start_urls, max_pages, requested_by)
+            VALUES ($1, $2, $3, $4)
+            RETURNING ${SCAN_SUMMARY_COLUMNS}`,
+            [data.websiteId, data.startUrls, data.maxPages, data.requestedBy]
+        );
+        return result.rows[0];
+    },
+
+    /**
+     * Scan history of a website, newest first (without results)
+     */
+    async findByWebsiteId(websiteId: string): Promise<WebsiteScanSummary[]> {
+        const result = await query<WebsiteScanSummary>(
+            `SELECT ${SCAN_SUMMARY_COLUMNS}
+            FROM website_scans
+            WHERE website_id = $1
+            ORDER BY created_at DESC`,
+            [websiteId]
+        );
+        return result.rows;
+    },
+
+    /**
+     * Get a scan with its pages and items
+     */
+    async findById(websiteId: string, scanId: string): Promise<WebsiteScan | null> {
+        const result = await query<WebsiteScan>(
+            `SELECT ${SCAN_SUMMARY_COLUMNS}, pages, items
+            FROM website_scans
+            WHERE website_id = $1 AND id = $2`,
+            [websiteId, scanId]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * Get the most recent completed scan with its pages and items
+     */
+    async findLatestCompleted(websiteId: string): Promise<WebsiteScan | null> {
+        const result = await query<WebsiteScan>(
+            `SELECT ${SCAN_SUMMARY_COLUMNS}, pages, items
+            FROM website_scans
+            WHERE website_id = $1 AND status = 'COMPLETED'
+            ORDER BY completed_at DESC
+            LIMIT 1`,
+            [websiteId]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * Whether a scan of the website is queued or running
+     */
+    async hasActiveScan(websiteId: string): Promise<boolean> {
+        const result = await query<{ exists: boolean }>(
+            `SELECT EXISTS(
+                SELECT 1 FROM website_scans
+                WHERE website_id = $1 AND status IN ('PENDING', 'RUNNING')
+            ) as "exists"`,
+            [websiteId]
+        );
+        return result.rows[0].exists;
+    },
+
+    /**
+     * Mark a scan as running
+     */
+    async markRunning(scanId: string): Promise<void> {
+        await query(
+            `UPDATE website_scans
+            SET status = 'RUNNING', started_at = NOW()
+            WHERE id = $1`,
+            [scanId]
+        );
+    },
+
+    /**
+     * Store the results of a finished scan
+     */
+    async complete(scanId: string, pages: ScanPage[], items: ScanItem[]): Promise<void> {
+        await query(
+            `UPDATE website_scans
+            SET status = 'COMPLETED', pages = $2, items = $3, item_count = $4, completed_at = NOW()
+            WHERE id = $1`,
+            [scanId, JSON.stringify(pages), JSON.stringify(items), items.length]
+        );
+    },
+
+    /**
+     * Record a scan that could not run
+     */
+    async fail(scanId: string, error: string): Promise<void> {
+        await query(
+            `UPDATE website_scans
+            SET status = 'FAILED', error = $2, completed_at = NOW()
+            WHERE id = $1`,
+            [scanId, error]
+        );
+    },
+
+    /**
+     * Fail scans left running by a stopped server.
+     * Returns the number of scans failed.
+     */
+    async failInterrupted(): Promise<number> {
+        const result = await query(
+            `UPDATE website_scans
+            SET status = 'FAILED', error = 'The scan was interrupted', completed_at = NOW()
+            WHERE status IN ('PENDING', 'RUNNING')`
+        );
+        return result.rowCount || 0;
+    },
+};
@@ -0,0 +1,96 @@
+import { query } from '../db';
+import { SecurityEvent, SecurityEventType } from '../types';
+
+export interface SecurityEventCount {
+    websiteId: string;
+    eventType: SecurityEventType;
+    origin: string;
+    endpoint: string;
+    day: string;
+    attempts: number;
+    firstSeenAt: Date;
+    lastSeenAt: Date;
+}
+
+/**
+ * Repository for website security events.
+ * One row per website, event type, origin, endpoint and UTC day, so a flood
+ * of attempts only grows a counter.
+ */
+export const securityEventRepository = {
+    /**
+     * Add counted attempts, creating the rows of new origins and days
+     */
+    async addCounts(counts: SecurityEventCount[]): Promise<void> {
+        if (counts.length === 0) {
+            return;
+        }
+
+        const values: unknown[] = [];
+        const rows = counts.map((count, index) => {
+            values.push(
+                count.websiteId,
+                count.eventType,
+                count.origin,
+                count.endpoint,
+                count.day,
+                count.attempts,
+                count.firstSeenAt,
+                count.lastSeenAt
+            );
+            const p = index * 8;
+            return `($${p + 1}, $${p + 2}, $${p + 3}, $${p + 4}, $${p + 5}, $${p + 6}, $${p + 7}, $${p + 8})`;
+        });
+
+        // Websites deleted since the attempts were counted are skipped
+        await query(
+            `INSERT INTO website_security_events
+                (website_id, event_type, origin, endpoint, day, attempts, first_seen_at, last_seen_at)
+            SELECT v.website_id::uuid, v.event_type, v.origin, v.endpoint, v.day::date, v.attempts::int,
+                v.first_seen_at::timestamptz, v.last_seen_at::timestamptz
+            FROM (VALUES ${rows.join(', ')})
+                AS v(website_id, event_type, origin, endpoint, day, attempts, first_seen_at, last_seen_at)
+            JOIN websites w ON w.id = v.website_id::uuid
+            ON CONFLICT (website_id, event_type, origin, endpoint, day) DO UPDATE SET
+                attempts = website_security_events.attempts + EXCLUDED.attempts,
+                first_seen_at = LEAST(website_security_events.first_seen_at, EXCLUDED.first_seen_at),
+                last_seen_at = GREATEST(website_security_events.last_seen_at, EXCLUDED.last_seen_at)`,
+            values
+        );
+    },
+
+    /**
+     * Events of a website from a UTC day on, most recent first
+     */
+    async findByWebsiteId(websiteId: string, sinceDay: string, limit: number): Promise<SecurityEvent[]> {
+        const result = await query<SecurityEvent>(
+            `SELECT
+                id,
+                website_id as "websiteId",
+                event_type as "eventType",
+                origin,
+                endpoint,
+                to_char(day, 'YYYY-MM-DD') as day,
+                attempts,
+                first_seen_at as "firstSeenAt",
+                last_seen_at as "lastSeenAt"
+            FROM website_security_events
+            WHERE website_id = $1 AND day >= $2
+            ORDER BY last_seen_at DESC
+            LIMIT $3`,
+            [websiteId, sinceDay, limit]
+        );
+        return result.rows;
+    },
+
+    /**
+     * Delete events of the days before a UTC day. Returns how many were deleted.
+     */
+    async deleteBefore(day: string): Promise<number> {
+        const result = await query(
+            `DELETE FROM website_security_events WHERE day < $1`,
+            [day]
+        );
+        return result.rowCount || 0;
+    },
+};
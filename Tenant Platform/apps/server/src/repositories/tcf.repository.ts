@@ -0,0 +1,115 @@
+import { query } from '../db';
+import { TcfVendorList, WebsiteTcfSettings } from '../types';
+import { UpdateTcfSettingsInput } from '../validators';
+
+// The vendor list itself is large and only selected where needed
+const TCF_SETTINGS_COLUMNS = `
+    id,
+    website_id as "websiteId",
+    enabled,
+    publisher_country_code as "publisherCountryCode",
+    vendor_list_version as "vendorListVersion",
+    tcf_policy_version as "tcfPolicyVersion",
+    vendor_list_imported_at as "vendorListImportedAt",
+    selected_vendor_ids as "selectedVendorIds",
+    purpose_mapping as "purposeMapping",
+    created_at as "createdAt",
+    updated_at as "updatedAt"`;
+
+/**
+ * Repository for IAB TCF settings and the local Global Vendor List copy.
+ */
+export const tcfRepository = {
+    /**
+     * Get TCF settings for a website (without the vendor list)
+     */
+    async findByWebsiteId(websiteId: string): Promise<WebsiteTcfSettings | null> {
+        const result = await query<WebsiteTcfSettings>(
+            `SELECT ${TCF_SETTINGS_COLUMNS}
+            FROM website_tcf_settings
+            WHERE website_id = $1`,
+            [websiteId]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * Get the imported Global Vendor List of a website
+     */
+    async findVendorList(websiteId: string): Promise<TcfVendorList | null> {
+        const result = await query<{ vendorList: TcfVendorList | null }>(
+            `SELECT vendor_list as "vendorList"
+            FROM website_tcf_settings
+            WHERE website_id = $1`,
+            [websiteId]
+        );
+        return result.rows[0]?.vendorList || null;
+    },
+
+    /**
+     * Store an imported Global Vendor List (upsert).
+     * Selected vendors missing from the new list are deselected.
+     */
+    async saveVendorList(websiteId: string, vendorList: TcfVendorList, selectedVendorIds: number[]): Promise<WebsiteTcfSettings> {
+        const result = await query<WebsiteTcfSettings>(
+            `INSERT INTO website_tcf_settings (
+                website_id,
+                vendor_list,
+                vendor_list_version,
+                tcf_policy_version,
+                vendor_list_imported_at,
+                selected_vendor_ids
+            )
+            VALUES ($1, $2, $3, $4, NOW(), $5)
+            ON CONFLICT (website_id)
+            DO UPDATE SET
+                vendor_list = EXCLUDED.vendor_list,
+                vendor_list_version = EXCLUDED.vendor_list_version,
+                tcf_policy_version = EXCLUDED.tcf_policy_version,
+                vendor_list_imported_at = EXCLUDED.vendor_list_imported_at,
+                selected_vendor_ids = EXCLUDED.selected_vendor_ids,
+                updated_at = NOW()
+            RETURNING ${TCF_SETTINGS_COLUMNS}`,
+            [
+                websiteId,
+                JSON.stringify(vendorList),
+                vendorList.vendorListVersion,
+                vendorList.tcfPolicyVersion,
+                selectedVendorIds,
+            ]
+        );
+        return result.rows[0];
+    },
+
+    /**
+     * Create or update TCF settings (upsert)
+     */
+    async upsertSettings(websiteId: string, input: UpdateTcfSettingsInput): Promise<WebsiteTcfSettings> {
+        const result = await query<WebsiteTcfSettings>(
+            `INSERT INTO website_tcf_settings (
+                website_id,
+                enabled,
+                publisher_country_code,
+                selected_vendor_ids,
+                purpose_mapping
+            )
+            VALUES ($1, $2, $3, $4, $5)
+            ON CONFLICT (website_id)
+            DO UPDATE SET
+                enabled = EXCLUDED.enabled,
+                publisher_country_code = EXCLUDED.publisher_country_code,
+                selected_vendor_ids = EXCLUDED.selected_vendor_ids,
+                purpose_mapping = EXCLUDED.purpose_mapping,
+                updated_at = NOW()
+            RETURNING ${TCF_SETTINGS_COLUMNS}`,
+            [
+                websiteId,
+                input.enabled,
+                input.publisherCountryCode,
+                input.selectedVendorIds,
+                JSON.stringify(input.purposeMapping),
+            ]
+        );
+        return result.rows[0];
+    },
+};
@@ -0,0 +1,154 @@
+import { query } from '../db';
+import { DeviceType, LoaderEventType } from '../types';
+
+export interface TelemetryEventRow {
+    event: LoaderEventType;
+    languageCode: string | null;
+    action: string | null;
+    optIn: boolean | null;
+    decisionMs: number | null;
+}
+
+// Outcomes per banner variant, scaled up by the sample rate
+export interface TelemetryVariantRow {
+    variant: string;
+    shown: number;
+    decisions: number;
+    acceptAll: number;
+    rejectAll: number;
+    optIns: number;
+    medianDecisionMs: number | null;
+}
+
+// Estimated counts are summed as bigint, which pg returns as strings
+type BigintCounts<T, K extends keyof T> = Omit<T, K> & Record<K, string>;
+
+// Daily partitions of loader_events are named loader_events_YYYYMMDD
+const PARTITION_NAME = /^loader_events_(\d{4})(\d{2})(\d{2})$/;
+
+// Partition names end up in DDL, so the day is checked before use
+function partitionName(day: string): string {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+        throw new Error(`Invalid partition day: ${day}`);
+    }
+    return `loader_events_${day.replace(/-/g, '')}`;
+}
+
+/**
+ * Repository for loader telemetry events.
+ * loader_events is partitioned by UTC day. Partitions are created ahead of
+ * time and dropped whole once past retention, so no row ever needs deleting.
+ */
+export const telemetryRepository = {
+    /**
+     * Store a batch of events of one page view. sampleRate must be the
+     * server's configured rate, never one sent by the browser.
+     */
+    async insertEvents(
+        websiteId: string,
+        batch: { deviceType: DeviceType; sampleRate: number; variant: string | null },
+        events: TelemetryEventRow[]
+    ): Promise<void> {
+        await query(
+            `INSERT INTO loader_events
+            (website_id, device_type, sample_rate, variant, event, language_code, action, opt_in, decision_ms)
+            SELECT $1, $2, $3, $4, e.event, e.language_code, e.action, e.opt_in, e.decision_ms
+            FROM unnest($5::text[], $6::text[], $7::text[], $8::boolean[], $9::int[])
+                AS e(event, language_code, action, opt_in, decision_ms)`,
+            [
+                websiteId,
+                batch.deviceType,
+                batch.sampleRate,
+                batch.variant,
+                events.map((e) => e.event),
+                events.map((e) => e.languageCode),
+                events.map((e) => e.action),
+                events.map((e) => e.optIn),
+                events.map((e) => e.decisionMs),
+            ]
+        );
+    },
+
+    /**
+     * Banners shown, decisions and the median time to decision per banner
+     * variant, since the given time
+     */
+    async summarizeVariants(websiteId: string, since: Date): Promise<TelemetryVariantRow[]> {
+        const result = await query<BigintCounts<TelemetryVariantRow, 'shown' | 'decisions' | 'acceptAll' | 'rejectAll' | 'optIns'>>(
+            `SELECT
+                variant,
+                COALESCE(ROUND(SUM(1 / sample_rate) FILTER (WHERE event = 'BANNER_SHOWN')), 0)::bigint as shown,
+                COALESCE(ROUND(SUM(1 / sample_rate) FILTER (WHERE event = 'DECISION')), 0)::bigint as decisions,
+                COALESCE(ROUND(SUM(1 / sample_rate) FILTER (WHERE event = 'DECISION' AND action = 'ACCEPT_ALL')), 0)::bigint as "acceptAll",
+                COALESCE(ROUND(SUM(1 / sample_rate) FILTER (WHERE event = 'DECISION' AND action = 'REJECT_ALL')), 0)::bigint as "rejectAll",
+                COALESCE(ROUND(SUM(1 / sample_rate) FILTER (WHERE event = 'DECISION' AND opt_in)), 0)::bigint as "optIns",
+                ROUND(percentile_cont(0.5) WITHIN GROUP (ORDER BY decision_ms) FILTER (WHERE event = 'DECISION'))::int
+                    as "medianDecisionMs"
+            FROM loader_events
+            WHERE website_id = $1 AND created_at >= $2 AND variant IS NOT NULL
+            GROUP BY variant`,
+            [websiteId, since]
+        );
+        return result.rows.map((row) => ({
+            ...row,
+            shown: Number(row.shown),
+            decisions: Number(row.decisions),
+            acceptAll: Number(row.acceptAll),
+            rejectAll: Number(row.rejectAll),
+            optIns: Number(row.optIns),
+        }));
+    },
+
+    /**
+     * Estimated events per type between two UTC days (inclusive). Each
+     * sampled event stands for 1 / sample_rate page views.
+     */
+    async countEvents(websiteId: string, from: string, to: string): Promise<Array<{ event: LoaderEventType; count: number }>> {
+        const result = await query<{ event: LoaderEventType; count: string }>(
+            `SELECT event, ROUND(SUM(1 / sample_rate))::bigint as count
+            FROM loader_events
+            WHERE website_id = $1
+                AND created_at >= ($2::date)::timestamp AT TIME ZONE 'UTC'
+                AND created_at < ($3::date + 1)::timestamp AT TIME ZONE 'UTC'
+            GROUP BY event`,
+            [websiteId, from, to]
+        );
+        return result.rows.map((row) => ({ event: row.event, count: Number(row.count) }));
+    },
+
+    /**
+     * Create the partition of a UTC day if it does not exist yet
+     */
+    async createPartition(day: string): Promise<void> {
+        const next = new Date(Date.parse(day) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        await query(
+            `CREATE TABLE IF NOT EXISTS ${partitionName(day)} PARTITION OF loader_events
+            FOR VALUES FROM ('${day} 00:00:00+00') TO ('${next} 00:00:00+00')`
+        );
+    },
+
+    /**
+     * UTC days that have a partition, oldest first
+     */
+    async findPartitionDays(): Promise<string[]> {
+        const result = await query<{ name: string }>(
+            `SELECT c.relname as name
+            FROM pg_inherits i
+            JOIN pg_class c ON c.oid = i.inhrelid
+            JOIN pg_class p ON p.oid = i.inhparent
+            WHERE p.relname = 'loader_events'`
+        );
+        return result.rows
+            .map((row) => PARTITION_NAME.exec(row.name))
+            .filter((match): match is RegExpExecArray => match !== null)
+            .map((match) => `${match[1]}-${match[2]}-${match[3]}`)
+            .sort();
+    },
+
+    /**
+     * Drop the partition of a UTC day with all its events
+     */
+    async dropPartition(day: string): Promise<void> {
+        await query(`DROP TABLE IF EXISTS ${partitionName(day)}`);
+    },
+};
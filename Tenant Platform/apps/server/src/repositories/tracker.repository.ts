@@ -0,0 +1,109 @@
+import { query } from '../db';
+import { TrackerCatalogueEntry, WebsiteTracker } from '../types';
+
+const CATALOGUE_COLUMNS = `
+    t.id,
+    t.name,
+    t.vendor,
+    t.category,
+    t.domains,
+    t.cookie_patterns as "cookiePatterns",
+    t.script_patterns as "scriptPatterns",
+    t.description,
+    t.is_active as "isActive"`;
+
+/**
+ * Repository for the known-tracker catalogue and the trackers
+ * each website adopted. The catalogue itself is curated in the
+ * Admin Portal and is read-only here.
+ */
+export const trackerRepository = {
+    /**
+     * Active catalogue entries, by name
+     */
+    async findCatalogue(): Promise<TrackerCatalogueEntry[]> {
+        const result = await query<TrackerCatalogueEntry>(
+            `SELECT ${CATALOGUE_COLUMNS}
+            FROM tracker_catalogue t
+            WHERE t.is_active = TRUE
+            ORDER BY t.name`
+        );
+        return result.rows;
+    },
+
+    /**
+     * Get active catalogue entries by id
+     */
+    async findCatalogueEntries(trackerIds: string[]): Promise<TrackerCatalogueEntry[]> {
+        const result = await query<TrackerCatalogueEntry>(
+            `SELECT ${CATALOGUE_COLUMNS}
+            FROM tracker_catalogue t
+            WHERE t.id = ANY($1::uuid[]) AND t.is_active = TRUE`,
+            [trackerIds]
+        );
+        return result.rows;
+    },
+
+    /**
+     * Trackers adopted by a website, with their catalogue entry and purpose tag
+     */
+    async findByWebsiteId(websiteId: string): Promise<WebsiteTracker[]> {
+        const result = await query<WebsiteTracker>(
+            `SELECT
+                wt.id,
+                wt.website_id as "websiteId",
+                wt.tracker_id as "trackerId",
+                wt.purpose_id as "purposeId",
+                p.tag as "purposeTag",
+                json_build_object(
+                    'id', t.id,
+                    'name', t.name,
+                    'vendor', t.vendor,
+                    'category', t.category,
+                    'domains', t.domains,
+                    'cookiePatterns', t.cookie_patterns,
+                    'scriptPatterns', t.script_patterns,
+                    'description', t.description,
+                    'isActive', t.is_active
+                ) as tracker,
+                wt.created_by as "createdBy",
+                wt.created_at as "createdAt"
+            FROM website_trackers wt
+            JOIN tracker_catalogue t ON t.id = wt.tracker_id
+            JOIN purposes p ON p.id = wt.purpose_id
+            WHERE wt.website_id = $1
+            ORDER BY p.display_order, t.name`,
+            [websiteId]
+        );
+        return result.rows;
+    },
+
+    /**
+     * Adopt a tracker into a purpose; re-adopting moves it to the new purpose
+     */
+    async adopt(data: {
+        websiteId: string;
+        trackerId: string;
+        purposeId: string;
+        createdBy: string;
+    }): Promise<void> {
+        await query(
+            `INSERT INTO website_trackers (website_id, tracker_id, purpose_id, created_by)
+            VALUES ($1, $2, $3, $4)
+            ON CONFLICT (website_id, tracker_id)
+            DO UPDATE SET purpose_id = EXCLUDED.purpose_id`,
+            [data.websiteId, data.trackerId, data.purposeId, data.createdBy]
+        );
+    },
+
+    /**
+     * Remove an adopted tracker. Returns false if it was not adopted.
+     */
+    async remove(websiteId: string, trackerId: string): Promise<boolean> {
+        const result = await query(
+            `DELETE FROM website_trackers WHERE website_id = $1 AND tracker_id = $2`,
+            [websiteId, trackerId]
+        );
+        return (result.rowCount ?? 0) > 0;
+    },
+};
@@ -0,0 +1,296 @@
+import { query } from '../db';
+import {
+    PaginatedResponse,
+    WebhookDelivery,
+    WebhookDeliveryJob,
+    WebhookDeliveryStatus,
+    WebhookEndpoint,
+    WebhookEndpointWithSecret,
+    WebhookEventType,
+    WebhookPayload,
+} from '../types';
+import { WebhookDeliveryFiltersInput, WebhookEndpointInput } from '../validators';
+
+const ENDPOINT_COLUMNS = `
+    id,
+    tenant_id as "tenantId",
+    website_id as "websiteId",
+    url,
+    description,
+    events,
+    right(secret, 4) as "secretHint",
+    is_active as "isActive",
+    created_by as "createdBy",
+    created_at as "createdAt",
+    updated_at as "updatedAt"`;
+
+const DELIVERY_COLUMNS = `
+    id,
+    endpoint_id as "endpointId",
+    event_id as "eventId",
+    event_type as "eventType",
+    payload,
+    status,
+    attempts,
+    next_attempt_at as "nextAttemptAt",
+    last_attempt_at as "lastAttemptAt",
+    response_status as "responseStatus",
+    response_body as "responseBody",
+    last_error as "lastError",
+    redelivery_of as "redeliveryOf",
+    created_at as "createdAt",
+    completed_at as "completedAt"`;
+
+/**
+ * Repository for webhook endpoints and their delivery queue.
+ * Deliveries double as the delivery log shown to the tenant.
+ */
+export const webhookRepository = {
+    /**
+     * Endpoints of a tenant, oldest first
+     */
+    async findByTenantId(tenantId: string): Promise<WebhookEndpoint[]> {
+        const result = await query<WebhookEndpoint>(
+            `SELECT ${ENDPOINT_COLUMNS}
+            FROM webhook_endpoints
+            WHERE tenant_id = $1
+            ORDER BY created_at`,
+            [tenantId]
+        );
+        return result.rows;
+    },
+
+    async findById(tenantId: string, endpointId: string): Promise<WebhookEndpoint | null> {
+        const result = await query<WebhookEndpoint>(
+            `SELECT ${ENDPOINT_COLUMNS}
+            FROM webhook_endpoints
+            WHERE tenant_id = $1 AND id = $2`,
+            [tenantId, endpointId]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * Active endpoints subscribed to an event of a website
+     */
+    async findSubscribed(tenantId: string, websiteId: string | null, eventType: WebhookEventType): Promise<string[]> {
+        const result = await query<{ id: string }>(
+            `SELECT id FROM webhook_endpoints
+            WHERE tenant_id = $1
+                AND is_active
+                AND $3 = ANY(events)
+                AND (website_id IS NULL OR website_id = $2)`,
+            [tenantId, websiteId, eventType]
+        );
+        return result.rows.map((row) => row.id);
+    },
+
+    async create(data: WebhookEndpointInput & {
+        tenantId: string;
+        secret: string;
+        createdBy: string;
+    }): Promise<WebhookEndpointWithSecret> {
+        const result = await query<WebhookEndpointWithSecret>(
+            `INSERT INTO webhook_endpoints (tenant_id, website_id, url, description, events, secret, is_active, created_by)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+            RETURNING ${ENDPOINT_COLUMNS}, secret`,
+            [
+                data.tenantId,
+                data.websiteId,
+                data.url,
+                data.description,
+                data.events,
+                data.secret,
+                data.isActive,
+                data.createdBy,
+            ]
+        );
+        return result.rows[0];
+    },
+
+    async update(tenantId: string, endpointId: string, data: WebhookEndpointInput): Promise<WebhookEndpoint | null> {
+        const result = await query<WebhookEndpoint>(
+            `UPDATE webhook_endpoints
+            SET website_id = $3, url = $4, description = $5, events = $6, is_active = $7, updated_at = NOW()
+            WHERE tenant_id = $1 AND id = $2
+            RETURNING ${ENDPOINT_COLUMNS}`,
+            [tenantId, endpointId, data.websiteId, data.url, data.description, data.events, data.isActive]
+        );
+        return result.rows[0] || null;
+    },
+
+    async updateSecret(tenantId: string, endpointId: string, secret: string): Promise<WebhookEndpointWithSecret | null> {
+        const result = await query<WebhookEndpointWithSecret>(
+            `UPDATE webhook_endpoints
+            SET secret = $3, updated_at = NOW()
+            WHERE tenant_id = $1 AND id = $2
+            RETURNING ${ENDPOINT_COLUMNS}, secret`,
+            [tenantId, endpointId, secret]
+        );
+        return result.rows[0] || null;
+    },
+
+    async delete(tenantId: string, endpointId: string): Promise<boolean> {
+        const result = await query(
+            `DELETE FROM webhook_endpoints WHERE tenant_id = $1 AND id = $2`,
+            [tenantId, endpointId]
+        );
+        return (result.rowCount ?? 0) > 0;
+    },
+
+    /**
+     * Queue one event for several endpoints
+     */
+    async enqueue(endpointIds: string[], payload: WebhookPayload): Promise<void> {
+        await query(
+            `INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, payload)
+            SELECT endpoint_id, $2, $3, $4
+            FROM unnest($1::uuid[]) AS endpoint_id`,
+            [endpointIds, payload.id, payload.type, JSON.stringify(payload)]
+        );
+    },
+
+    /**
+     * Queue an earlier delivery's payload again
+     */
+    async enqueueRedelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+        const result = await query<WebhookDelivery>(
+            `INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, payload, redelivery_of)
+            VALUES ($1, $2, $3, $4, $5)
+            RETURNING ${DELIVERY_COLUMNS}`,
+            [delivery.endpointId, delivery.eventId, delivery.eventType, JSON.stringify(delivery.payload), delivery.id]
+        );
+        return result.rows[0];
+    },
+
+    /**
+     * Delivery log of an endpoint, newest first
+     */
+    async findDeliveries(
+        endpointId: string,
+        filters: WebhookDeliveryFiltersInput
+    ): Promise<PaginatedResponse<WebhookDelivery>> {
+        const conditions: string[] = ['endpoint_id = $1'];
+        const values: any[] = [endpointId];
+        let paramIndex = 2;
+
+        if (filters.status) {
+            conditions.push(`status = $${paramIndex++}`);
+            values.push(filters.status);
+        }
+        if (filters.eventType) {
+            conditions.push(`event_type = $${paramIndex++}`);
+            values.push(filters.eventType);
+        }
+
+        const whereClause = conditions.join(' AND ');
+        const offset = (filters.page - 1) * filters.limit;
+
+        const countResult = await query<{ count: string }>(
+            `SELECT COUNT(*) as count FROM webhook_deliveries WHERE ${whereClause}`,
+            values
+        );
+        const total = parseInt(countResult.rows[0].count, 10);
+
+        values.push(filters.limit, offset);
+        const result = await query<WebhookDelivery>(
+            `SELECT ${DELIVERY_COLUMNS}
+            FROM webhook_deliveries
+            WHERE ${whereClause}
+            ORDER BY created_at DESC
+            LIMIT $${paramIndex++} OFFSET $${paramIndex}`,
+            values
+        );
+
+        return {
+            items: result.rows,
+            pagination: {
+                page: filters.page,
+                limit: filters.limit,
+                total,
+                totalPages: Math.ceil(total / filters.limit),
+            },
+        };
+    },
+
+    async findDelivery(endpointId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+        const result = await query<WebhookDelivery>(
+            `SELECT ${DELIVERY_COLUMNS}
+            FROM webhook_deliveries
+            WHERE endpoint_id = $1 AND id = $2`,
+            [endpointId, deliveryId]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * Claim due deliveries of active endpoints. Claimed rows are pushed a
+     * lease into the future, so other workers skip them and a worker that
+     * dies mid-delivery only delays them.
+     */
+    async claimDue(limit: number, leaseSeconds: number): Promise<WebhookDeliveryJob[]> {
+        const result = await query<WebhookDeliveryJob>(
+            `UPDATE webhook_deliveries d
+            SET next_attempt_at = NOW() + make_interval(secs => $2)
+            FROM webhook_endpoints e
+            WHERE e.id = d.endpoint_id
+                AND d.id IN (
+                    SELECT q.id FROM webhook_deliveries q
+                    JOIN webhook_endpoints qe ON qe.id = q.endpoint_id
+                    WHERE q.status = 'PENDING' AND q.next_attempt_at <= NOW() AND qe.is_active
+                    ORDER BY q.next_attempt_at
+                    LIMIT $1
+                    FOR UPDATE OF q SKIP LOCKED
+                )
+            RETURNING d.id, e.url, e.secret, d.payload, d.attempts`,
+            [limit, leaseSeconds]
+        );
+        return result.rows;
+    },
+
+    /**
+     * Store the outcome of a delivery attempt
+     */
+    async recordAttempt(deliveryId: string, outcome: {
+        status: WebhookDeliveryStatus;
+        attempts: number;
+        nextAttemptAt: Date | null;
+        responseStatus: number | null;
+        responseBody: string | null;
+        error: string | null;
+    }): Promise<void> {
+        await query(
+            `UPDATE webhook_deliveries
+            SET status = $2,
+                attempts = $3,
+                next_attempt_at = $4,
+                last_attempt_at = NOW(),
+                response_status = $5,
+                response_body = $6,
+                last_error = $7,
+                completed_at = CASE WHEN $2 = 'PENDING' THEN NULL ELSE NOW() END
+            WHERE id = $1`,
+            [
+                deliveryId,
+                outcome.status,
+                outcome.attempts,
+                outcome.nextAttemptAt,
+                outcome.responseStatus,
+                outcome.responseBody,
+                outcome.error,
+            ]
+        );
+    },
+
+    /**
+     * Remove finished deliveries older than a date. Returns how many went.
+     */
+    async deleteCompletedBefore(before: Date): Promise<number> {
+        const result = await query(
+            `DELETE FROM webhook_deliveries
+            WHERE status <> 'PENDING' AND created_at < $1`,
+            [before]
+        );
+        return result.rowCount ?? 0;
+    },
+};
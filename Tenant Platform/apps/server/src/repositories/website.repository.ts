@@ -1,6 +1,7 @@
 import { query, withTransaction } from '../db';
-import { Website, WebsiteWithStats, WebsiteStatus } from '../types';
+import { Website, WebsiteWithStats, WebsiteStatus, ConsentLifetimeSettings, OriginSettings, PublishedConfig } from '../types';
 import { PoolClient } from 'pg';
+import { insertPublishedConfig, NewPublishedConfig } from './published-config.repository';
 
 /**
  * Repository for website operations.
@@ -116,6 +117,54 @@ export const websiteRepository = {
         return result.rows[0] || null;
     },
 
+    /**
+     * IDs of all websites with a status
+     */
+    async findIdsByStatus(status: WebsiteStatus): Promise<string[]> {
+        const result = await query<{ id: string }>(
+            `SELECT id FROM websites WHERE status = $1 ORDER BY created_at`,
+            [status]
+        );
+        return result.rows.map((row) => row.id);
+    },
+
+    /**
+     * Set a website ACTIVE. A website never published before gets firstPublish
+     * as its first published version in the same transaction, so an ACTIVE
+     * website always has a config to serve.
+     */
+    async activate(
+        id: string,
+        firstPublish?: NewPublishedConfig
+    ): Promise<{ website: Website | null; published: PublishedConfig | null }> {
+        return withTransaction(async (client: PoolClient) => {
+            let published: PublishedConfig | null = null;
+            if (firstPublish) {
+                // Lock first: a publish made meanwhile is seen and kept
+                await client.query('SELECT id FROM websites WHERE id = $1 FOR UPDATE', [id]);
+                const existing = await client.query('SELECT 1 FROM published_configs WHERE website_id = $1 LIMIT 1', [id]);
+                if (existing.rows.length === 0) {
+                    published = await insertPublishedConfig(client, firstPublish);
+                }
+            }
+
+            const result = await client.query<Website>(
+                `UPDATE websites
+                SET status = 'ACTIVE', updated_at = NOW()
+                WHERE id = $1
+                RETURNING
+                    id,
+                    tenant_id as "tenantId",
+                    domain,
+                    status,
+                    created_at as "createdAt",
+                    updated_at as "updatedAt"`,
+                [id]
+            );
+            return { website: result.rows[0] || null, published };
+        });
+    },
+
     /**
      * Update website status
      */
@@ -136,6 +185,68 @@ export const websiteRepository = {
         return result.rows[0] || null;
     },
 
+    /**
+     * Get the consent lifetime settings of a website
+     */
+    async findConsentLifetime(id: string): Promise<ConsentLifetimeSettings | null> {
+        const result = await query<ConsentLifetimeSettings>(
+            `SELECT 
+                consent_lifetime_days as "consentLifetimeDays",
+                reject_lifetime_days as "rejectLifetimeDays"
+            FROM websites 
+            WHERE id = $1`,
+            [id]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * Update the consent lifetime settings of a website
+     */
+    async updateConsentLifetime(id: string, settings: ConsentLifetimeSettings): Promise<ConsentLifetimeSettings | null> {
+        const result = await query<ConsentLifetimeSettings>(
+            `UPDATE websites 
+            SET consent_lifetime_days = $1, reject_lifetime_days = $2, updated_at = NOW()
+            WHERE id = $3
+            RETURNING 
+                consent_lifetime_days as "consentLifetimeDays",
+                reject_lifetime_days as "rejectLifetimeDays"`,
+            [settings.consentLifetimeDays, settings.rejectLifetimeDays, id]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * Get the domains besides its own a website may be embedded on
+     */
+    async findOriginSettings(id: string): Promise<OriginSettings | null> {
+        const result = await query<OriginSettings>(
+            `SELECT 
+                allowed_domains as "allowedDomains",
+                test_domains as "testDomains"
+            FROM websites 
+            WHERE id = $1`,
+            [id]
+        );
+        return result.rows[0] || null;
+    },
+
+    /**
+     * Replace the allowed and test domains of a website
+     */
+    async updateOriginSettings(id: string, settings: OriginSettings): Promise<OriginSettings | null> {
+        const result = await query<OriginSettings>(
+            `UPDATE websites 
+            SET allowed_domains = $1, test_domains = $2, updated_at = NOW()
+            WHERE id = $3
+            RETURNING 
+                allowed_domains as "allowedDomains",
+                test_domains as "testDomains"`,
+            [settings.allowedDomains, settings.testDomains, id]
+        );
+        return result.rows[0] || null;
+    },
+
     /**
      * Check if website can be activated (has required components)
      */
@@ -0,0 +1,38 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { analyticsService } from '../services';
+import { analyticsRangeSchema, websiteIdParamSchema } from '../validators';
+import {
+    authMiddleware,
+    requirePasswordReset,
+    getCurrentUser
+} from '../middleware';
+
+/**
+ * Consent Analytics Routes
+ */
+export async function analyticsRoutes(app: FastifyInstance): Promise<void> {
+    // All routes require authentication and password reset completion
+    app.addHook('preHandler', authMiddleware);
+    app.addHook('preHandler', requirePasswordReset);
+
+    /**
+     * GET /tenant/websites/:id/analytics?from=&to=
+     * Impressions, decision rates, per-purpose opt-in, language and device
+     * breakdowns and the daily trend for a date range (last 30 days by default)
+     */
+    app.get<{ Params: { id: string } }>(
+        '/websites/:id/analytics',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const range = analyticsRangeSchema.parse(request.query);
+            const { tenantId } = getCurrentUser(request);
+
+            const summary = await analyticsService.getSummary(websiteId, tenantId, range);
+
+            return {
+                success: true,
+                data: summary,
+            };
+        }
+    );
+}
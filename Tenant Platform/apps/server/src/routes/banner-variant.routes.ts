@@ -0,0 +1,153 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { bannerVariantService } from '../services';
+import { bannerVariantIdParamSchema, bannerVariantSchema, websiteIdParamSchema } from '../validators';
+import {
+    authMiddleware,
+    requirePasswordReset,
+    getRequestInfo,
+    getCurrentUser
+} from '../middleware';
+
+/**
+ * Banner Variant (A/B Test) Routes
+ */
+export async function bannerVariantRoutes(app: FastifyInstance): Promise<void> {
+    // All routes require authentication and password reset completion
+    app.addHook('preHandler', authMiddleware);
+    app.addHook('preHandler', requirePasswordReset);
+
+    /**
+     * GET /tenant/websites/:id/banner-variants
+     * Running variants first, then those of ended experiments
+     */
+    app.get<{ Params: { id: string } }>(
+        '/websites/:id/banner-variants',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const variants = await bannerVariantService.list(websiteId, tenantId);
+
+            return {
+                success: true,
+                data: variants,
+            };
+        }
+    );
+
+    /**
+     * GET /tenant/websites/:id/banner-variants/results
+     * Consent rate and time to decision per arm of the running experiment
+     */
+    app.get<{ Params: { id: string } }>(
+        '/websites/:id/banner-variants/results',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const results = await bannerVariantService.getResults(websiteId, tenantId);
+
+            return {
+                success: true,
+                data: results,
+            };
+        }
+    );
+
+    /**
+     * POST /tenant/websites/:id/banner-variants
+     * Add a variant
+     */
+    app.post<{ Params: { id: string } }>(
+        '/websites/:id/banner-variants',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const input = bannerVariantSchema.parse(request.body || {});
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const variant = await bannerVariantService.create(
+                websiteId,
+                tenantId,
+                userId,
+                input,
+                requestInfo
+            );
+
+            return reply.status(201).send({
+                success: true,
+                data: variant,
+                message: 'Banner variant added. Publish to start showing it.',
+            });
+        }
+    );
+
+    /**
+     * PUT /tenant/websites/:id/banner-variants/:variantId
+     * Replace a running variant
+     */
+    app.put<{ Params: { id: string; variantId: string } }>(
+        '/websites/:id/banner-variants/:variantId',
+        async (request: FastifyRequest<{ Params: { id: string; variantId: string } }>, reply: FastifyReply) => {
+            const { id: websiteId, variantId } = bannerVariantIdParamSchema.parse(request.params);
+            const input = bannerVariantSchema.parse(request.body || {});
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const variant = await bannerVariantService.update(
+                websiteId,
+                tenantId,
+                userId,
+                variantId,
+                input,
+                requestInfo
+            );
+
+            return {
+                success: true,
+                data: variant,
+                message: 'Banner variant updated. Publish to apply it.',
+            };
+        }
+    );
+
+    /**
+     * DELETE /tenant/websites/:id/banner-variants/:variantId
+     * Remove a variant
+     */
+    app.delete<{ Params: { id: string; variantId: string } }>(
+        '/websites/:id/banner-variants/:variantId',
+        async (request: FastifyRequest<{ Params: { id: string; variantId: string } }>, reply: FastifyReply) => {
+            const { id: websiteId, variantId } = bannerVariantIdParamSchema.parse(request.params);
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            await bannerVariantService.delete(websiteId, tenantId, userId, variantId, requestInfo);
+
+            return {
+                success: true,
+                message: 'Banner variant removed',
+            };
+        }
+    );
+
+    /**
+     * POST /tenant/websites/:id/banner-variants/:variantId/promote
+     * Make the variant the default banner and end the experiment
+     */
+    app.post<{ Params: { id: string; variantId: string } }>(
+        '/websites/:id/banner-variants/:variantId/promote',
+        async (request: FastifyRequest<{ Params: { id: string; variantId: string } }>, reply: FastifyReply) => {
+            const { id: websiteId, variantId } = bannerVariantIdParamSchema.parse(request.params);
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            await bannerVariantService.promote(websiteId, tenantId, userId, variantId, requestInfo);
+
+            return {
+                success: true,
+                message: 'Variant promoted to the default banner. Publish to apply it.',
+            };
+        }
+    );
+}
@@ -0,0 +1,114 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { blockingRuleService } from '../services';
+import { blockingRuleIdParamSchema, blockingRuleSchema, websiteIdParamSchema } from '../validators';
+import {
+    authMiddleware,
+    requirePasswordReset,
+    getRequestInfo,
+    getCurrentUser
+} from '../middleware';
+
+/**
+ * Auto-Blocking Rule Routes
+ */
+export async function blockingRuleRoutes(app: FastifyInstance): Promise<void> {
+    // All routes require authentication and password reset completion
+    app.addHook('preHandler', authMiddleware);
+    app.addHook('preHandler', requirePasswordReset);
+
+    /**
+     * GET /tenant/websites/:id/blocking-rules
+     * Domain and URL rules, by purpose
+     */
+    app.get<{ Params: { id: string } }>(
+        '/websites/:id/blocking-rules',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const rules = await blockingRuleService.list(websiteId, tenantId);
+
+            return {
+                success: true,
+                data: rules,
+            };
+        }
+    );
+
+    /**
+     * POST /tenant/websites/:id/blocking-rules
+     * Add a rule
+     */
+    app.post<{ Params: { id: string } }>(
+        '/websites/:id/blocking-rules',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const input = blockingRuleSchema.parse(request.body || {});
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const rule = await blockingRuleService.create(
+                websiteId,
+                tenantId,
+                userId,
+                input,
+                requestInfo
+            );
+
+            return reply.status(201).send({
+                success: true,
+                data: rule,
+                message: 'Blocking rule added. Publish to apply it.',
+            });
+        }
+    );
+
+    /**
+     * PUT /tenant/websites/:id/blocking-rules/:ruleId
+     * Replace a rule
+     */
+    app.put<{ Params: { id: string; ruleId: string } }>(
+        '/websites/:id/blocking-rules/:ruleId',
+        async (request: FastifyRequest<{ Params: { id: string; ruleId: string } }>, reply: FastifyReply) => {
+            const { id: websiteId, ruleId } = blockingRuleIdParamSchema.parse(request.params);
+            const input = blockingRuleSchema.parse(request.body || {});
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const rule = await blockingRuleService.update(
+                websiteId,
+                tenantId,
+                userId,
+                ruleId,
+                input,
+                requestInfo
+            );
+
+            return {
+                success: true,
+                data: rule,
+                message: 'Blocking rule updated. Publish to apply it.',
+            };
+        }
+    );
+
+    /**
+     * DELETE /tenant/websites/:id/blocking-rules/:ruleId
+     * Remove a rule
+     */
+    app.delete<{ Params: { id: string; ruleId: string } }>(
+        '/websites/:id/blocking-rules/:ruleId',
+        async (request: FastifyRequest<{ Params: { id: string; ruleId: string } }>, reply: FastifyReply) => {
+            const { id: websiteId, ruleId } = blockingRuleIdParamSchema.parse(request.params);
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            await blockingRuleService.delete(websiteId, tenantId, userId, ruleId, requestInfo);
+
+            return {
+                success: true,
+                message: 'Blocking rule removed',
+            };
+        }
+    );
+}
@@ -0,0 +1,36 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { configVersionService } from '../services';
+import { websiteIdParamSchema } from '../validators';
+import {
+    authMiddleware,
+    requirePasswordReset,
+    getCurrentUser
+} from '../middleware';
+
+/**
+ * Config Version Routes (notice/purpose version history)
+ */
+export async function configVersionRoutes(app: FastifyInstance): Promise<void> {
+    // All routes require authentication and password reset completion
+    app.addHook('preHandler', authMiddleware);
+    app.addHook('preHandler', requirePasswordReset);
+
+    /**
+     * GET /tenant/websites/:id/config-versions
+     * List configuration versions, newest first
+     */
+    app.get<{ Params: { id: string } }>(
+        '/websites/:id/config-versions',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const versions = await configVersionService.list(websiteId, tenantId);
+
+            return {
+                success: true,
+                data: versions,
+            };
+        }
+    );
+}
@@ -0,0 +1,214 @@
+import { FastifyInstance } from 'fastify';
+import { consentService } from '../services/consent.service';
+import { siteIdParamSchema, consentManagerQuerySchema } from '../validators';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { escapeHtml, toScriptJson } from '../utils/html';
+import { ConsentAction, VisitorConsentState } from '../types';
+
+const ACTION_LABELS: Record<ConsentAction, string> = {
+    ACCEPT_ALL: 'Accepted all',
+    REJECT_ALL: 'Rejected all',
+    CUSTOM: 'Updated preferences',
+    WITHDRAW: 'Withdrew consent',
+};
+
+function formatDate(value?: Date): string {
+    return value ? new Date(value).toUTCString() : '—';
+}
+
+function renderPage(title: string, body: string, script = ''): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <meta name="robots" content="noindex">
+    <title>${escapeHtml(title)}</title>
+    <style>
+        body { font-family: Arial, sans-serif; line-height: 1.5; color: #333; max-width: 720px; margin: 40px auto; padding: 0 20px; }
+        h1 { font-size: 22px; margin-bottom: 4px; }
+        h2 { font-size: 16px; margin: 32px 0 12px; text-transform: uppercase; letter-spacing: 0.5px; color: #666; }
+        .subtitle { color: #666; margin-top: 0; }
+        .purpose { display: flex; justify-content: space-between; align-items: center; gap: 16px; padding: 14px 16px; border: 1px solid #e0e0e0; border-radius: 8px; margin-bottom: 10px; }
+        .purpose-title { font-weight: 600; }
+        .purpose-meta { font-size: 13px; color: #666; }
+        .badge { display: inline-block; font-size: 12px; font-weight: 600; padding: 2px 8px; border-radius: 999px; margin-left: 6px; }
+        .badge-granted { background: #e6f4ea; color: #1e7e34; }
+        .badge-denied { background: #fdecea; color: #c62828; }
+        .badge-required { background: #eef2f7; color: #555; }
+        button { padding: 8px 14px; border-radius: 6px; border: 1px solid #c62828; background: #fff; color: #c62828; cursor: pointer; font-weight: 600; }
+        button:disabled { opacity: 0.5; cursor: default; }
+        table { width: 100%; border-collapse: collapse; font-size: 14px; }
+        th, td { text-align: left; padding: 8px; border-bottom: 1px solid #eee; vertical-align: top; }
+        .empty { color: #666; }
+        .actions { margin-top: 16px; }
+    </style>
+</head>
+<body>
+${body}
+${script}
+</body>
+</html>`;
+}
+
+function renderState(state: VisitorConsentState): string {
+    const canWithdraw = state.purposes.some((p) => !p.required && p.granted);
+
+    const purposes = state.purposes.map((purpose) => {
+        const badge = purpose.required
+            ? '<span class="badge badge-required">Always active</span>'
+            : purpose.granted
+                ? '<span class="badge badge-granted">Granted</span>'
+                : '<span class="badge badge-denied">Not granted</span>';
+        const action = !purpose.required && purpose.granted
+            ? `<button type="button" data-withdraw="${escapeHtml(purpose.key)}">Withdraw</button>`
+            : '';
+
+        return `
+    <div class="purpose">
+        <div>
+            <div class="purpose-title">${escapeHtml(purpose.title)}${badge}</div>
+            <div class="purpose-meta">${escapeHtml(purpose.description)}</div>
+            <div class="purpose-meta">Since: ${escapeHtml(formatDate(purpose.since))}</div>
+        </div>
+        ${action}
+    </div>`;
+    }).join('');
+
+    const history = state.history.length === 0
+        ? '<p class="empty">No consent decisions have been recorded from this browser yet.</p>'
+        : `
+    <table>
+        <thead><tr><th>Date</th><th>Action</th><th>Granted</th><th>Receipt</th></tr></thead>
+        <tbody>${state.history.map((entry) => `
+            <tr>
+                <td>${escapeHtml(formatDate(entry.createdAt))}</td>
+                <td>${escapeHtml(ACTION_LABELS[entry.action] || entry.action)}</td>
+                <td>${escapeHtml(Object.keys(entry.decisions).filter((key) => entry.decisions[key]).join(', ') || '—')}</td>
+                <td>${escapeHtml(entry.receiptId || '—')}</td>
+            </tr>`).join('')}
+        </tbody>
+    </table>`;
+
+    return `
+    <h1>My Consents</h1>
+    <p class="subtitle">${escapeHtml(state.domain)} · Last updated: ${escapeHtml(formatDate(state.updatedAt))}</p>
+
+    <h2>Current Consent</h2>
+    ${purposes}
+    ${canWithdraw ? '<div class="actions"><button type="button" data-withdraw-all="true">Withdraw all optional consent</button></div>' : ''}
+
+    <h2>History</h2>
+    ${history}`;
+}
+
+/**
+ * Withdrawals are written to the ledger through the public runtime API, then
+ * the opening page is told so the loader re-blocks without waiting for a reload.
+ * Only pages on the website's registered domain or its www subdomain are
+ * told; the loader elsewhere picks the withdrawal up from the ledger.
+ */
+function renderScript(state: VisitorConsentState): string {
+    const openerOrigins = [`https://${state.domain}`, `https://www.${state.domain}`];
+    return `<script>
+(function() {
+    var SITE_ID = ${toScriptJson(state.websiteId)};
+    var VISITOR_ID = ${toScriptJson(state.visitorId)};
+    var OPENER_ORIGINS = ${toScriptJson(openerOrigins)};
+
+    function withdraw(decisions, button) {
+        button.disabled = true;
+        var xhr = new XMLHttpRequest();
+        xhr.open('POST', '/runtime/websites/' + SITE_ID + '/consents', true);
+        xhr.setRequestHeader('Content-Type', 'application/json');
+        xhr.onload = function() {
+            if (xhr.status < 200 || xhr.status >= 300) {
+                button.disabled = false;
+                alert('Your withdrawal could not be recorded. Please try again.');
+                return;
+            }
+            try {
+                var record = JSON.parse(xhr.responseText).data;
+                if (window.opener) {
+                    var message = {
+                        type: 'complyark:consent-updated',
+                        siteId: SITE_ID,
+                        purposes: record.decisions,
+                        receipt: record.receipt,
+                        timestamp: new Date(record.createdAt).getTime()
+                    };
+                    // The browser drops the message unless the opener is on the origin given
+                    for (var i = 0; i < OPENER_ORIGINS.length; i++) {
+                        window.opener.postMessage(message, OPENER_ORIGINS[i]);
+                    }
+                }
+            } catch (e) {}
+            window.location.reload();
+        };
+        xhr.onerror = function() {
+            button.disabled = false;
+            alert('Your withdrawal could not be recorded. Please check your connection and try again.');
+        };
+        xhr.send(JSON.stringify({ visitorId: VISITOR_ID, action: 'WITHDRAW', decisions: decisions }));
+    }
+
+    var buttons = document.querySelectorAll('button[data-withdraw]');
+    for (var i = 0; i < buttons.length; i++) {
+        buttons[i].onclick = function() {
+            var decisions = {};
+            decisions[this.getAttribute('data-withdraw')] = false;
+            withdraw(decisions, this);
+        };
+    }
+
+    var withdrawAll = document.querySelector('button[data-withdraw-all]');
+    if (withdrawAll) {
+        withdrawAll.onclick = function() {
+            if (confirm('Withdraw all optional consent for this website?')) {
+                withdraw({}, this);
+            }
+        };
+    }
+})();
+</script>`;
+}
+
+/**
+ * Consent Manager Routes (Public).
+ * Hosted "My Consents" page where a data principal reviews and withdraws the
+ * consent given from their browser. Opened from the loader's settings panel.
+ */
+export async function consentManagerRoutes(app: FastifyInstance) {
+    /**
+     * GET /public/consents/:siteId?visitor=&lang=
+     */
+    app.get('/public/consents/:siteId', { onRequest: rateLimit('reads') }, async (request, reply) => {
+        reply.header('Cache-Control', 'no-store');
+        reply.header('Referrer-Policy', 'no-referrer');
+        reply.type('text/html; charset=utf-8');
+
+        const params = siteIdParamSchema.safeParse(request.params);
+        const query = consentManagerQuerySchema.safeParse(request.query);
+        if (!params.success || !query.success) {
+            return reply.status(400).send(renderPage('My Consents', `
+    <h1>My Consents</h1>
+    <p>This link is not valid. Open "My Consents" from the cookie settings on the website.</p>`));
+        }
+
+        try {
+            const state = await consentService.getVisitorState(
+                params.data.siteId,
+                query.data.visitor,
+                query.data.lang
+            );
+            return reply.send(renderPage(`My Consents – ${state.domain}`, renderState(state), renderScript(state)));
+        } catch (error) {
+            if (error instanceof Error && error.message.includes('not found')) {
+                return reply.status(404).send(renderPage('My Consents', `
+    <h1>My Consents</h1>
+    <p>This website is not available.</p>`));
+            }
+            throw error;
+        }
+    });
+}
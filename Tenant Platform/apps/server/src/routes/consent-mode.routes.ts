@@ -0,0 +1,65 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { consentModeService } from '../services';
+import { updateConsentModeSchema, websiteIdParamSchema } from '../validators';
+import {
+    authMiddleware,
+    requirePasswordReset,
+    getRequestInfo,
+    getCurrentUser
+} from '../middleware';
+
+/**
+ * Google Consent Mode Routes
+ */
+export async function consentModeRoutes(app: FastifyInstance): Promise<void> {
+    // All routes require authentication and password reset completion
+    app.addHook('preHandler', authMiddleware);
+    app.addHook('preHandler', requirePasswordReset);
+
+    /**
+     * GET /tenant/websites/:id/consent-mode
+     * Get the purpose to Consent Mode signal mapping
+     */
+    app.get<{ Params: { id: string } }>(
+        '/websites/:id/consent-mode',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const settings = await consentModeService.get(websiteId, tenantId);
+
+            return {
+                success: true,
+                data: settings,
+            };
+        }
+    );
+
+    /**
+     * PUT /tenant/websites/:id/consent-mode
+     * Save the purpose to Consent Mode signal mapping
+     */
+    app.put<{ Params: { id: string } }>(
+        '/websites/:id/consent-mode',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const input = updateConsentModeSchema.parse(request.body);
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const settings = await consentModeService.update(
+                websiteId,
+                tenantId,
+                userId,
+                input,
+                requestInfo
+            );
+
+            return {
+                success: true,
+                data: settings,
+                message: 'Consent Mode settings saved successfully',
+            };
+        }
+    );
+}
@@ -0,0 +1,248 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { cookiePolicyService } from '../services/cookie-policy.service';
+import { siteIdParamSchema, cookiePolicyQuerySchema } from '../validators';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { escapeHtml, toScriptJson } from '../utils/html';
+import { CookiePolicy, CookiePolicyEntry } from '../types';
+
+const TYPE_LABELS: Record<CookiePolicyEntry['type'], string> = {
+    cookie: 'Cookie',
+    localStorage: 'Local storage',
+};
+
+// Scoped to the declaration so the widget can share the host page's styles
+const DECLARATION_STYLE = `
+    .complyark-declaration { font-family: inherit; line-height: 1.5; color: inherit; }
+    .complyark-declaration h3 { font-size: 16px; margin: 24px 0 4px; }
+    .complyark-declaration .cad-meta { font-size: 13px; color: #666; margin: 0 0 10px; }
+    .complyark-declaration .cad-badge { display: inline-block; font-size: 12px; font-weight: 600; padding: 2px 8px; border-radius: 999px; margin-left: 6px; background: #eef2f7; color: #555; }
+    .complyark-declaration table { width: 100%; border-collapse: collapse; font-size: 14px; }
+    .complyark-declaration th, .complyark-declaration td { text-align: left; padding: 8px; border-bottom: 1px solid #eee; vertical-align: top; }
+    .complyark-declaration code { font-size: 13px; word-break: break-all; }
+    .complyark-declaration .cad-empty { font-size: 14px; color: #666; }`;
+
+function formatDate(value: Date | null): string {
+    return value ? new Date(value).toUTCString() : '—';
+}
+
+function renderEntry(entry: CookiePolicyEntry): string {
+    return `
+            <tr>
+                <td><code>${escapeHtml(entry.name)}</code>${entry.source === 'scanned' ? ' *' : ''}</td>
+                <td>${escapeHtml(entry.provider || '—')}</td>
+                <td>${escapeHtml(entry.duration || '—')}</td>
+                <td>${escapeHtml(TYPE_LABELS[entry.type])}</td>
+                <td>${escapeHtml(entry.description || '—')}</td>
+            </tr>`;
+}
+
+/**
+ * The declaration itself, shared by the hosted page and the widget.
+ * Purpose and notice text come translated from the served config.
+ */
+function renderDeclaration(policy: CookiePolicy): string {
+    const purposes = policy.purposes.map((purpose) => `
+    <section>
+        <h3>${escapeHtml(purpose.title)}${purpose.required ? '<span class="cad-badge">Always active</span>' : ''}</h3>
+        <p class="cad-meta">${escapeHtml(purpose.description)}</p>
+        ${purpose.cookies.length === 0
+            ? '<p class="cad-empty">No cookies are declared for this purpose.</p>'
+            : `<table>
+            <thead><tr><th>Name</th><th>Provider</th><th>Duration</th><th>Type</th><th>Description</th></tr></thead>
+            <tbody>${purpose.cookies.map(renderEntry).join('')}
+            </tbody>
+        </table>`}
+    </section>`).join('');
+
+    const policyLink = policy.policyLink && /^https?:\/\//i.test(policy.policyLink)
+        ? `<p><a href="${escapeHtml(policy.policyLink)}" target="_blank" rel="noopener">Privacy policy</a></p>`
+        : '';
+    const scanned = policy.scannedAt
+        ? `<p class="cad-meta">* Detected by a scan of ${escapeHtml(policy.domain)} on ${escapeHtml(formatDate(policy.scannedAt))} and not yet described by the website.</p>`
+        : '';
+
+    return `<div class="complyark-declaration" lang="${escapeHtml(policy.language)}">
+    <style>${DECLARATION_STYLE}
+    </style>
+    <p>${escapeHtml(policy.description)}</p>
+    ${policyLink}
+    ${purposes}
+    ${scanned}
+    <p class="cad-meta">Last updated: ${escapeHtml(formatDate(policy.updatedAt))}</p>
+</div>`;
+}
+
+function renderPage(title: string, body: string, language = 'en'): string {
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(language)}">
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(title)}</title>
+    <style>
+        body { font-family: Arial, sans-serif; line-height: 1.5; color: #333; max-width: 880px; margin: 40px auto; padding: 0 20px; }
+        h1 { font-size: 22px; margin-bottom: 4px; }
+        .subtitle { color: #666; margin-top: 0; }
+        .languages { font-size: 13px; margin-bottom: 16px; }
+        .languages a { margin-right: 10px; color: #4f46e5; }
+        .languages a.current { font-weight: 700; color: #333; text-decoration: none; }
+    </style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+function renderPolicyPage(policy: CookiePolicy): string {
+    const languages = policy.supportedLanguages.length > 1
+        ? `<nav class="languages">${policy.supportedLanguages.map((code) =>
+            `<a href="?lang=${escapeHtml(code)}"${code === policy.language ? ' class="current"' : ''}>${escapeHtml(code.toUpperCase())}</a>`
+        ).join('')}</nav>`
+        : '';
+
+    return renderPage(`Cookie Declaration – ${policy.domain}`, `
+    <h1>Cookie Declaration</h1>
+    <p class="subtitle">${escapeHtml(policy.domain)}</p>
+    ${languages}
+    ${renderDeclaration(policy)}`, policy.language);
+}
+
+/**
+ * Widget filling every <div data-complyark-declaration> on the host page.
+ * The language is the element's data-lang, else the one chosen in the
+ * banner, else the page's lang attribute.
+ */
+function renderWidgetScript(siteId: string, baseUrl: string): string {
+    return `(function() {
+    'use strict';
+
+    var SITE_ID = ${toScriptJson(siteId)};
+    var API_BASE = ${toScriptJson(baseUrl)};
+    var LANGUAGE_KEY = '__complyark_user_lang__';
+
+    function preferredLanguage(container) {
+        var lang = container.getAttribute('data-lang');
+        if (!lang) {
+            try {
+                lang = localStorage.getItem(LANGUAGE_KEY);
+            } catch (e) {}
+        }
+        return lang || document.documentElement.lang || 'en';
+    }
+
+    function render(container) {
+        var xhr = new XMLHttpRequest();
+        xhr.open('GET', API_BASE + '/public/cookie-policy/' + SITE_ID + '/embed?lang=' +
+            encodeURIComponent(preferredLanguage(container)), true);
+        xhr.onload = function() {
+            if (xhr.status < 200 || xhr.status >= 300) {
+                console.error('[ComplyArk] Cookie declaration unavailable:', xhr.status);
+                return;
+            }
+            try {
+                container.innerHTML = JSON.parse(xhr.responseText).data.html;
+            } catch (e) {
+                console.error('[ComplyArk] Cannot parse cookie declaration', e);
+            }
+        };
+        xhr.onerror = function() {
+            console.error('[ComplyArk] Cookie declaration unavailable: network error');
+        };
+        xhr.send();
+    }
+
+    function renderAll() {
+        var containers = document.querySelectorAll('[data-complyark-declaration]');
+        for (var i = 0; i < containers.length; i++) {
+            render(containers[i]);
+        }
+    }
+
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', renderAll);
+    } else {
+        renderAll();
+    }
+})();
+`;
+}
+
+function sendUnavailable(reply: FastifyReply, status: number, message: string) {
+    return reply.status(status).send(renderPage('Cookie Declaration', `
+    <h1>Cookie Declaration</h1>
+    <p>${escapeHtml(message)}</p>`));
+}
+
+/**
+ * Cookie Policy Routes (Public).
+ * Hosted cookie declaration of a website and the widget that embeds it in the
+ * website's own pages. Built from the served config, so both follow publishes
+ * within the cache lifetime.
+ */
+export async function cookiePolicyRoutes(app: FastifyInstance) {
+    /**
+     * GET /public/cookie-policy/:siteId?lang=
+     */
+    app.get('/public/cookie-policy/:siteId', { onRequest: rateLimit('reads') }, async (request, reply) => {
+        reply.type('text/html; charset=utf-8');
+
+        const params = siteIdParamSchema.safeParse(request.params);
+        const query = cookiePolicyQuerySchema.safeParse(request.query);
+        if (!params.success || !query.success) {
+            return sendUnavailable(reply, 400, 'This link is not valid.');
+        }
+
+        try {
+            const policy = await cookiePolicyService.getPolicy(params.data.siteId, query.data.lang);
+            reply.header('Cache-Control', 'public, max-age=300');
+            return reply.send(renderPolicyPage(policy));
+        } catch (error) {
+            if (error instanceof Error && error.message.includes('not found')) {
+                return sendUnavailable(reply, 404, 'This website is not available.');
+            }
+            throw error;
+        }
+    });
+
+    /**
+     * GET /public/cookie-policy/:siteId/embed?lang=
+     *
+     * The declaration as an HTML fragment, fetched cross-origin by the widget.
+     */
+    app.get('/public/cookie-policy/:siteId/embed', { onRequest: rateLimit('reads') }, async (request, reply) => {
+        reply.header('Access-Control-Allow-Origin', '*');
+
+        const { siteId } = siteIdParamSchema.parse(request.params);
+        const { lang } = cookiePolicyQuerySchema.parse(request.query);
+
+        const policy = await cookiePolicyService.getPolicy(siteId, lang);
+        reply.header('Cache-Control', 'public, max-age=300');
+        return reply.send({
+            success: true,
+            data: {
+                language: policy.language,
+                supportedLanguages: policy.supportedLanguages,
+                html: renderDeclaration(policy),
+            },
+        });
+    });
+
+    /**
+     * GET /public/cookie-declaration.js?id=
+     */
+    app.get('/public/cookie-declaration.js', { onRequest: rateLimit('reads') }, async (request, reply) => {
+        const { id } = request.query as { id?: string };
+        const host = request.headers.host || 'localhost:3001';
+        const protocol = request.protocol || 'http';
+
+        reply.type('application/javascript');
+        if (!siteIdParamSchema.safeParse({ siteId: id }).success) {
+            return reply.status(400).send(`console.error('[ComplyArk] Cookie declaration: invalid website ID');\n`);
+        }
+
+        return reply
+            .header('Cache-Control', 'public, max-age=300')
+            .send(renderWidgetScript(id as string, `${protocol}://${host}`));
+    });
+}
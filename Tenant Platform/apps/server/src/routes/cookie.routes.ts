@@ -0,0 +1,155 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { cookieService } from '../services';
+import { cookieDeclarationSchema, cookieGovernanceSchema, cookieIdParamSchema, websiteIdParamSchema } from '../validators';
+import {
+    authMiddleware,
+    requirePasswordReset,
+    getRequestInfo,
+    getCurrentUser
+} from '../middleware';
+
+/**
+ * Cookie Declaration Routes
+ */
+export async function cookieRoutes(app: FastifyInstance): Promise<void> {
+    // All routes require authentication and password reset completion
+    app.addHook('preHandler', authMiddleware);
+    app.addHook('preHandler', requirePasswordReset);
+
+    /**
+     * GET /tenant/websites/:id/cookies
+     * Declared cookies and localStorage keys, by purpose
+     */
+    app.get<{ Params: { id: string } }>(
+        '/websites/:id/cookies',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const cookies = await cookieService.list(websiteId, tenantId);
+
+            return {
+                success: true,
+                data: cookies,
+            };
+        }
+    );
+
+    /**
+     * POST /tenant/websites/:id/cookies
+     * Declare a cookie or localStorage key
+     */
+    app.post<{ Params: { id: string } }>(
+        '/websites/:id/cookies',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const input = cookieDeclarationSchema.parse(request.body || {});
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const cookie = await cookieService.create(
+                websiteId,
+                tenantId,
+                userId,
+                input,
+                requestInfo
+            );
+
+            return reply.status(201).send({
+                success: true,
+                data: cookie,
+                message: 'Cookie declared. Publish to apply it.',
+            });
+        }
+    );
+
+    /**
+     * PUT /tenant/websites/:id/cookies/:cookieId
+     * Replace a declaration
+     */
+    app.put<{ Params: { id: string; cookieId: string } }>(
+        '/websites/:id/cookies/:cookieId',
+        async (request: FastifyRequest<{ Params: { id: string; cookieId: string } }>, reply: FastifyReply) => {
+            const { id: websiteId, cookieId } = cookieIdParamSchema.parse(request.params);
+            const input = cookieDeclarationSchema.parse(request.body || {});
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const cookie = await cookieService.update(
+                websiteId,
+                tenantId,
+                userId,
+                cookieId,
+                input,
+                requestInfo
+            );
+
+            return {
+                success: true,
+                data: cookie,
+                message: 'Cookie declaration updated. Publish to apply it.',
+            };
+        }
+    );
+
+    /**
+     * DELETE /tenant/websites/:id/cookies/:cookieId
+     * Remove a declaration
+     */
+    app.delete<{ Params: { id: string; cookieId: string } }>(
+        '/websites/:id/cookies/:cookieId',
+        async (request: FastifyRequest<{ Params: { id: string; cookieId: string } }>, reply: FastifyReply) => {
+            const { id: websiteId, cookieId } = cookieIdParamSchema.parse(request.params);
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            await cookieService.delete(websiteId, tenantId, userId, cookieId, requestInfo);
+
+            return {
+                success: true,
+                message: 'Cookie declaration removed',
+            };
+        }
+    );
+
+    /**
+     * GET /tenant/websites/:id/cookie-governance
+     * Whether the loader enforces the declarations
+     */
+    app.get<{ Params: { id: string } }>(
+        '/websites/:id/cookie-governance',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const governance = await cookieService.getGovernance(websiteId, tenantId);
+
+            return {
+                success: true,
+                data: governance,
+            };
+        }
+    );
+
+    /**
+     * PUT /tenant/websites/:id/cookie-governance
+     * Turn cookie governance on or off
+     */
+    app.put<{ Params: { id: string } }>(
+        '/websites/:id/cookie-governance',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const { enabled } = cookieGovernanceSchema.parse(request.body || {});
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const governance = await cookieService.updateGovernance(websiteId, tenantId, userId, enabled, requestInfo);
+
+            return {
+                success: true,
+                data: governance,
+                message: 'Saved to draft. Publish to apply it.',
+            };
+        }
+    );
+}
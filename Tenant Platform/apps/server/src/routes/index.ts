@@ -2,10 +2,25 @@ export * from './auth.routes';
 export * from './website.routes';
 export * from './notice.routes';
 export * from './purpose.routes';
+export * from './config-version.routes';
+export * from './publish.routes';
 export * from './banner.routes';
+export * from './banner-variant.routes';
+export * from './consent-mode.routes';
+export * from './tcf.routes';
+export * from './scan.routes';
+export * from './tracker.routes';
+export * from './blocking-rule.routes';
+export * from './cookie.routes';
+export * from './analytics.routes';
 export * from './audit.routes';
 export * from './language.routes';
 export * from './loader.routes';
+export * from './static.routes';
+export * from './consent-manager.routes';
+export * from './cookie-policy.routes';
 export * from './runtime.routes';
+export * from './rights-request.routes';
 export * from './translation.routes';
 export * from './website-translation.routes';
+export * from './webhook.routes';
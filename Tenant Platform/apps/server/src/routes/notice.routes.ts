@@ -87,7 +87,8 @@ export async function noticeRoutes(app: FastifyInstance): Promise<void> {
                 userId,
                 input.translations,
                 input.dpoEmail,
-                requestInfo
+                requestInfo,
+                input.changeType
             );
 
             return {
@@ -111,7 +112,7 @@ export async function noticeRoutes(app: FastifyInstance): Promise<void> {
             reply: FastifyReply
         ) => {
             const { noticeId, languageCode } = request.params;
-            const input = updateNoticeTranslationSchema.parse({
+            const { changeType, ...input } = updateNoticeTranslationSchema.parse({
                 ...request.body as object,
                 languageCode,
             });
@@ -123,7 +124,8 @@ export async function noticeRoutes(app: FastifyInstance): Promise<void> {
                 tenantId,
                 userId,
                 input,
-                requestInfo
+                requestInfo,
+                changeType
             );
 
             return {
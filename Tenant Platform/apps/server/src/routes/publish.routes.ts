@@ -0,0 +1,156 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { publishService } from '../services';
+import {
+    websiteIdParamSchema,
+    publishConfigSchema,
+    publishedVersionParamSchema,
+} from '../validators';
+import {
+    authMiddleware,
+    requirePasswordReset,
+    getRequestInfo,
+    getCurrentUser
+} from '../middleware';
+
+/**
+ * Publish Routes (draft preview, publish and rollback)
+ */
+export async function publishRoutes(app: FastifyInstance): Promise<void> {
+    // All routes require authentication and password reset completion
+    app.addHook('preHandler', authMiddleware);
+    app.addHook('preHandler', requirePasswordReset);
+
+    /**
+     * GET /tenant/websites/:id/publishing
+     * Live version and whether the draft has unpublished changes
+     */
+    app.get<{ Params: { id: string } }>(
+        '/websites/:id/publishing',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const status = await publishService.getStatus(websiteId, tenantId);
+
+            return {
+                success: true,
+                data: status,
+            };
+        }
+    );
+
+    /**
+     * GET /tenant/websites/:id/publishing/diff
+     * Field-level changes between the live configuration and the draft
+     */
+    app.get<{ Params: { id: string } }>(
+        '/websites/:id/publishing/diff',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const diff = await publishService.diff(websiteId, tenantId);
+
+            return {
+                success: true,
+                data: diff,
+            };
+        }
+    );
+
+    /**
+     * GET /tenant/websites/:id/publishing/preview
+     * HTML page rendering the banner from the draft configuration
+     */
+    app.get<{ Params: { id: string } }>(
+        '/websites/:id/publishing/preview',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+            const baseUrl = `${request.protocol || 'http'}://${request.headers.host || 'localhost:3001'}`;
+
+            const html = await publishService.getPreviewHtml(websiteId, tenantId, baseUrl);
+
+            return reply
+                .type('text/html; charset=utf-8')
+                .header('Cache-Control', 'no-store')
+                .send(html);
+        }
+    );
+
+    /**
+     * POST /tenant/websites/:id/publish
+     * Make the current draft live
+     */
+    app.post<{ Params: { id: string } }>(
+        '/websites/:id/publish',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const input = publishConfigSchema.parse(request.body || {});
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const published = await publishService.publish(
+                websiteId,
+                tenantId,
+                userId,
+                input,
+                requestInfo
+            );
+
+            return reply.status(201).send({
+                success: true,
+                data: published,
+                message: `Version ${published.version} is now live`,
+            });
+        }
+    );
+
+    /**
+     * GET /tenant/websites/:id/published-configs
+     * Publish history, newest first
+     */
+    app.get<{ Params: { id: string } }>(
+        '/websites/:id/published-configs',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const versions = await publishService.list(websiteId, tenantId);
+
+            return {
+                success: true,
+                data: versions,
+            };
+        }
+    );
+
+    /**
+     * POST /tenant/websites/:id/published-configs/:version/rollback
+     * Re-publish an earlier version
+     */
+    app.post<{ Params: { id: string; version: string } }>(
+        '/websites/:id/published-configs/:version/rollback',
+        async (request: FastifyRequest<{ Params: { id: string; version: string } }>, reply: FastifyReply) => {
+            const { id: websiteId, version } = publishedVersionParamSchema.parse(request.params);
+            const input = publishConfigSchema.parse(request.body || {});
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const published = await publishService.rollback(
+                websiteId,
+                tenantId,
+                userId,
+                version,
+                input,
+                requestInfo
+            );
+
+            return reply.status(201).send({
+                success: true,
+                data: published,
+                message: `Version ${version} restored as version ${published.version}`,
+            });
+        }
+    );
+}
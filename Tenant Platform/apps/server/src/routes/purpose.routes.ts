@@ -97,7 +97,7 @@ export async function purposeRoutes(app: FastifyInstance): Promise<void> {
         '/purposes/:purposeId',
         async (request: FastifyRequest<{ Params: { purposeId: string } }>, reply: FastifyReply) => {
             const { purposeId } = purposeIdParamSchema.parse(request.params);
-            const input = updatePurposeSchema.parse(request.body);
+            const { changeType, ...input } = updatePurposeSchema.parse(request.body);
             const { userId, tenantId } = getCurrentUser(request);
             const requestInfo = getRequestInfo(request);
 
@@ -106,7 +106,8 @@ export async function purposeRoutes(app: FastifyInstance): Promise<void> {
                 tenantId,
                 userId,
                 input,
-                requestInfo
+                requestInfo,
+                changeType
             );
 
             return {
@@ -134,7 +135,8 @@ export async function purposeRoutes(app: FastifyInstance): Promise<void> {
                 tenantId,
                 userId,
                 input.translations,
-                requestInfo
+                requestInfo,
+                input.changeType
             );
 
             return {
@@ -0,0 +1,159 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { rightsRequestService } from '../services';
+import {
+    rightsRequestFiltersSchema,
+    rightsRequestIdParamSchema,
+    updateRightsRequestStatusSchema,
+    assignRightsRequestSchema,
+    addRightsRequestNoteSchema,
+} from '../validators';
+import {
+    authMiddleware,
+    requirePasswordReset,
+    getRequestInfo,
+    getCurrentUser
+} from '../middleware';
+
+/**
+ * Rights Request Routes (tenant inbox)
+ */
+export async function rightsRequestRoutes(app: FastifyInstance): Promise<void> {
+    // All routes require authentication and password reset completion
+    app.addHook('preHandler', authMiddleware);
+    app.addHook('preHandler', requirePasswordReset);
+
+    /**
+     * GET /tenant/rights-requests
+     * List rights requests with pagination and filters
+     */
+    app.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+        const filters = rightsRequestFiltersSchema.parse(request.query);
+        const { tenantId } = getCurrentUser(request);
+
+        const result = await rightsRequestService.list(tenantId, filters);
+
+        return {
+            success: true,
+            data: result.items,
+            pagination: result.pagination,
+        };
+    });
+
+    /**
+     * GET /tenant/rights-requests/sla-summary
+     * Open, overdue and due-soon counts for the dashboard
+     */
+    app.get('/sla-summary', async (request: FastifyRequest, reply: FastifyReply) => {
+        const { tenantId } = getCurrentUser(request);
+
+        const result = await rightsRequestService.getSlaSummary(tenantId);
+
+        return {
+            success: true,
+            data: result,
+        };
+    });
+
+    /**
+     * GET /tenant/rights-requests/:requestId
+     * Get a rights request with its history
+     */
+    app.get<{ Params: { requestId: string } }>(
+        '/:requestId',
+        async (request: FastifyRequest<{ Params: { requestId: string } }>, reply: FastifyReply) => {
+            const { requestId } = rightsRequestIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const result = await rightsRequestService.getById(requestId, tenantId);
+
+            return {
+                success: true,
+                data: result,
+            };
+        }
+    );
+
+    /**
+     * PATCH /tenant/rights-requests/:requestId/status
+     * Move a request through the workflow
+     */
+    app.patch<{ Params: { requestId: string } }>(
+        '/:requestId/status',
+        async (request: FastifyRequest<{ Params: { requestId: string } }>, reply: FastifyReply) => {
+            const { requestId } = rightsRequestIdParamSchema.parse(request.params);
+            const input = updateRightsRequestStatusSchema.parse(request.body);
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const result = await rightsRequestService.updateStatus(
+                requestId,
+                tenantId,
+                userId,
+                input,
+                requestInfo
+            );
+
+            return {
+                success: true,
+                data: result,
+                message: 'Request status updated',
+            };
+        }
+    );
+
+    /**
+     * PATCH /tenant/rights-requests/:requestId/assignee
+     * Assign the request to the person handling it
+     */
+    app.patch<{ Params: { requestId: string } }>(
+        '/:requestId/assignee',
+        async (request: FastifyRequest<{ Params: { requestId: string } }>, reply: FastifyReply) => {
+            const { requestId } = rightsRequestIdParamSchema.parse(request.params);
+            const input = assignRightsRequestSchema.parse(request.body);
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const result = await rightsRequestService.assign(
+                requestId,
+                tenantId,
+                userId,
+                input,
+                requestInfo
+            );
+
+            return {
+                success: true,
+                data: result,
+                message: 'Request assignment updated',
+            };
+        }
+    );
+
+    /**
+     * POST /tenant/rights-requests/:requestId/notes
+     * Add an internal note
+     */
+    app.post<{ Params: { requestId: string } }>(
+        '/:requestId/notes',
+        async (request: FastifyRequest<{ Params: { requestId: string } }>, reply: FastifyReply) => {
+            const { requestId } = rightsRequestIdParamSchema.parse(request.params);
+            const input = addRightsRequestNoteSchema.parse(request.body);
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const result = await rightsRequestService.addNote(
+                requestId,
+                tenantId,
+                userId,
+                input,
+                requestInfo
+            );
+
+            return reply.status(201).send({
+                success: true,
+                data: result,
+                message: 'Note added',
+            });
+        }
+    );
+}
@@ -1,5 +1,57 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyRequest } from 'fastify';
 import { runtimeService } from '../services/runtime.service';
+import { consentService } from '../services/consent.service';
+import { rightsRequestService } from '../services/rights-request.service';
+import { analyticsService } from '../services/analytics.service';
+import { telemetryService } from '../services/telemetry.service';
+import { originService } from '../services/origin.service';
+import { rateLimitService } from '../services/rate-limit.service';
+import { getRequestInfo, ApiError } from '../middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import {
+    recordConsentSchema,
+    recordImpressionSchema,
+    telemetryBatchSchema,
+    siteIdParamSchema,
+    visitorConsentParamSchema,
+    receiptIdParamSchema,
+    verifyReceiptQuerySchema,
+    submitRightsRequestSchema,
+    verifyRightsRequestParamSchema,
+    verifyRightsRequestCodeSchema,
+    verifyRightsRequestTokenQuerySchema,
+} from '../validators';
+import { escapeHtml } from '../utils/html';
+import { config } from '../config';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Calls checked in enforce mode, with the Origin that passed the check.
+// It is echoed instead of "*"; calls without one get no CORS header.
+const allowedOrigins = new WeakMap<FastifyRequest, string | null>();
+
+// Minimal page shown after following the emailed verification link
+function renderVerificationPage(title: string, message: string): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(title)}</title>
+    <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 480px; margin: 60px auto; padding: 0 20px; }
+        .content { background: #f9f9f9; padding: 24px; border: 1px solid #ddd; border-radius: 8px; }
+        h1 { font-size: 20px; margin-top: 0; }
+    </style>
+</head>
+<body>
+    <div class="content">
+        <h1>${escapeHtml(title)}</h1>
+        <p>${escapeHtml(message)}</p>
+    </div>
+</body>
+</html>`;
+}
 
 /**
  * Runtime Routes.
@@ -7,6 +59,53 @@ import { runtimeService } from '../services/runtime.service';
  * These endpoints do NOT require authentication.
  */
 export async function runtimeRoutes(app: FastifyInstance) {
+    /**
+     * Origin check for every website endpoint. Calls must come from the
+     * website's domain, allowed domains or test domains; others get a 403 in
+     * enforce mode and are counted as security events. Preflights are not
+     * checked, the call they announce is.
+     */
+    app.addHook('preHandler', async (request, reply) => {
+        const { siteId } = (request.params || {}) as { siteId?: string };
+        if (request.method === 'OPTIONS' || !siteId || !uuidRegex.test(siteId)) {
+            return;
+        }
+
+        const check = await originService.check(siteId, {
+            origin: request.headers.origin,
+            referer: request.headers.referer,
+            host: request.headers.host,
+        });
+        if (!check.matched) {
+            originService.recordRejection(siteId, check.host, request.routeOptions.url || request.url);
+        }
+        // No CORS headers: the calling page has no business reading the answer
+        if (!check.allowed) {
+            reply.header('Cache-Control', 'no-store');
+            return reply.status(403).send({
+                success: false,
+                message: 'Origin not allowed for this website',
+            });
+        }
+        if (config.runtimeOrigins.mode === 'enforce') {
+            allowedOrigins.set(request, check.matched && request.headers.origin ? request.headers.origin : null);
+        }
+    });
+
+    app.addHook('onSend', async (request, reply, payload) => {
+        if (!allowedOrigins.has(request)) {
+            return payload;
+        }
+        const origin = allowedOrigins.get(request);
+        if (origin) {
+            reply.header('Access-Control-Allow-Origin', origin);
+        } else {
+            reply.removeHeader('Access-Control-Allow-Origin');
+        }
+        reply.header('Vary', 'Origin');
+        return payload;
+    });
+
     /**
      * GET /runtime/websites/:siteId
      * 
@@ -15,6 +114,9 @@ export async function runtimeRoutes(app: FastifyInstance) {
      * 
      * Response format:
      * {
+     *   "configVersion": 4,
+     *   "configHash": "sha256-of-notice-and-purposes",
+     *   "reconsentVersion": 3,
      *   "defaultLanguage": "en",
      *   "supportedLanguages": ["en", "hi", "ml"],
      *   "notice": {
@@ -33,11 +135,11 @@ export async function runtimeRoutes(app: FastifyInstance) {
      *   "banner": { ... banner customization ... }
      * }
      */
-    app.get('/runtime/websites/:siteId', async (request, reply) => {
+    app.get('/runtime/websites/:siteId', { onRequest: rateLimit('config') }, async (request, reply) => {
         const { siteId } = request.params as { siteId: string };
 
         try {
-            const config = await runtimeService.getWebsiteConfig(siteId);
+            const { config, etag } = await runtimeService.getCachedWebsiteConfig(siteId);
 
             if (!config) {
                 return reply.status(404).send({
@@ -51,6 +153,12 @@ export async function runtimeRoutes(app: FastifyInstance) {
             reply.header('Access-Control-Allow-Methods', 'GET, OPTIONS');
             reply.header('Access-Control-Allow-Headers', 'Content-Type');
             reply.header('Cache-Control', 'public, max-age=60'); // 1 minute cache
+            reply.header('ETag', etag);
+
+            // Revalidation after the minute is up costs no body when unchanged
+            if (request.headers['if-none-match'] === etag) {
+                return reply.status(304).send();
+            }
 
             return reply.send(config);
         } catch (error) {
@@ -72,4 +180,340 @@ export async function runtimeRoutes(app: FastifyInstance) {
         reply.header('Access-Control-Allow-Headers', 'Content-Type');
         return reply.status(204).send();
     });
+
+    /**
+     * POST /runtime/websites/:siteId/consents
+     *
+     * Appends a visitor's decision to the consent ledger.
+     * Called by the loader on Accept All, Reject All, Save Settings and withdrawal.
+     *
+     * Request format:
+     * {
+     *   "visitorId": "anonymous-visitor-id",
+     *   "action": "CUSTOM",
+     *   "decisions": { "analytics": true, "marketing": false },
+     *   "language": "en",
+     *   "noticeVersion": "...",
+     *   "purposeVersions": { "analytics": "..." },
+     *   "loaderVersion": "2.0.0"
+     * }
+     */
+    app.post('/runtime/websites/:siteId/consents', { onRequest: rateLimit('consent'), bodyLimit: config.rateLimits.bodyLimits.consent }, async (request, reply) => {
+        // Add CORS headers for cross-origin loader requests
+        reply.header('Access-Control-Allow-Origin', '*');
+        reply.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+        reply.header('Access-Control-Allow-Headers', 'Content-Type');
+        reply.header('Cache-Control', 'no-store');
+
+        const { siteId } = siteIdParamSchema.parse(request.params);
+        const input = recordConsentSchema.parse(request.body);
+        const requestInfo = getRequestInfo(request);
+
+        const record = await consentService.record(siteId, input, requestInfo);
+
+        return reply.status(201).send({
+            success: true,
+            data: {
+                id: record.id,
+                action: record.action,
+                decisions: record.decisions,
+                createdAt: record.createdAt,
+                receipt: consentService.toReceipt(record),
+            },
+            message: 'Consent recorded',
+        });
+    });
+
+    /**
+     * OPTIONS /runtime/websites/:siteId/consents
+     * Handle CORS preflight requests
+     */
+    app.options('/runtime/websites/:siteId/consents', async (request, reply) => {
+        reply.header('Access-Control-Allow-Origin', '*');
+        reply.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+        reply.header('Access-Control-Allow-Headers', 'Content-Type');
+        return reply.status(204).send();
+    });
+
+    /**
+     * POST /runtime/websites/:siteId/impressions
+     *
+     * Counts a banner shown by the loader, for consent analytics. Anonymous:
+     * only the day, the language and the device type of the user agent are kept.
+     *
+     * Request format:
+     * {
+     *   "language": "en"
+     * }
+     */
+    app.post('/runtime/websites/:siteId/impressions', { onRequest: rateLimit('consent'), bodyLimit: config.rateLimits.bodyLimits.consent }, async (request, reply) => {
+        reply.header('Access-Control-Allow-Origin', '*');
+        reply.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+        reply.header('Access-Control-Allow-Headers', 'Content-Type');
+        reply.header('Cache-Control', 'no-store');
+
+        const { siteId } = siteIdParamSchema.parse(request.params);
+        const input = recordImpressionSchema.parse(request.body || {});
+
+        await analyticsService.recordImpression(siteId, input, request.headers['user-agent']);
+
+        return reply.status(204).send();
+    });
+
+    /**
+     * OPTIONS /runtime/websites/:siteId/impressions
+     * Handle CORS preflight requests
+     */
+    app.options('/runtime/websites/:siteId/impressions', async (request, reply) => {
+        reply.header('Access-Control-Allow-Origin', '*');
+        reply.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+        reply.header('Access-Control-Allow-Headers', 'Content-Type');
+        return reply.status(204).send();
+    });
+
+    /**
+     * POST /runtime/websites/:siteId/telemetry
+     *
+     * Banner lifecycle events batched by the loader and sent with sendBeacon,
+     * which posts the JSON as text/plain. Strictly necessary and anonymous:
+     * no visitor ID is sent, and only the device type of the user agent is kept.
+     *
+     * Request format:
+     * {
+     *   "sampleRate": 1,
+     *   "events": [
+     *     { "event": "BANNER_SHOWN", "language": "en" },
+     *     { "event": "SETTINGS_OPENED", "language": "en" }
+     *   ]
+     * }
+     */
+    app.post('/runtime/websites/:siteId/telemetry', { onRequest: rateLimit('telemetry'), bodyLimit: config.rateLimits.bodyLimits.consent }, async (request, reply) => {
+        reply.header('Access-Control-Allow-Origin', '*');
+        reply.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+        reply.header('Access-Control-Allow-Headers', 'Content-Type');
+        reply.header('Cache-Control', 'no-store');
+
+        const { siteId } = siteIdParamSchema.parse(request.params);
+
+        let body: unknown = request.body || {};
+        if (typeof body === 'string') {
+            try {
+                body = JSON.parse(body);
+            } catch {
+                throw new ApiError('Telemetry batch must be JSON', 400);
+            }
+        }
+        const input = telemetryBatchSchema.parse(body);
+
+        await telemetryService.recordBatch(siteId, input, request.headers['user-agent']);
+
+        return reply.status(204).send();
+    });
+
+    /**
+     * OPTIONS /runtime/websites/:siteId/telemetry
+     * Handle CORS preflight requests
+     */
+    app.options('/runtime/websites/:siteId/telemetry', async (request, reply) => {
+        reply.header('Access-Control-Allow-Origin', '*');
+        reply.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+        reply.header('Access-Control-Allow-Headers', 'Content-Type');
+        return reply.status(204).send();
+    });
+
+    /**
+     * GET /runtime/websites/:siteId/visitors/:visitorId/consents
+     *
+     * Current per-purpose state and full history for a visitor. Used by the
+     * loader to pick up withdrawals made on the hosted "My Consents" page.
+     * The visitor ID is a random value held only by the visitor's browser.
+     */
+    app.get('/runtime/websites/:siteId/visitors/:visitorId/consents', { onRequest: rateLimit('reads') }, async (request, reply) => {
+        reply.header('Access-Control-Allow-Origin', '*');
+        reply.header('Access-Control-Allow-Methods', 'GET, OPTIONS');
+        reply.header('Access-Control-Allow-Headers', 'Content-Type');
+        reply.header('Cache-Control', 'no-store');
+
+        const { siteId, visitorId } = visitorConsentParamSchema.parse(request.params);
+        const { lang } = request.query as { lang?: string };
+
+        const state = await consentService.getVisitorState(siteId, visitorId, lang);
+
+        return reply.send({
+            success: true,
+            data: state,
+        });
+    });
+
+    /**
+     * OPTIONS /runtime/websites/:siteId/visitors/:visitorId/consents
+     * Handle CORS preflight requests
+     */
+    app.options('/runtime/websites/:siteId/visitors/:visitorId/consents', async (request, reply) => {
+        reply.header('Access-Control-Allow-Origin', '*');
+        reply.header('Access-Control-Allow-Methods', 'GET, OPTIONS');
+        reply.header('Access-Control-Allow-Headers', 'Content-Type');
+        return reply.status(204).send();
+    });
+
+    /**
+     * GET /runtime/receipts/:receiptId
+     *
+     * Verifies a consent receipt. Pass the signature held by the data principal
+     * as ?signature= to confirm their copy matches the one on record.
+     */
+    app.get('/runtime/receipts/:receiptId', { onRequest: rateLimit('reads') }, async (request, reply) => {
+        reply.header('Access-Control-Allow-Origin', '*');
+        reply.header('Access-Control-Allow-Methods', 'GET, OPTIONS');
+        reply.header('Access-Control-Allow-Headers', 'Content-Type');
+        reply.header('Cache-Control', 'no-store');
+
+        const { receiptId } = receiptIdParamSchema.parse(request.params);
+        const { signature } = verifyReceiptQuerySchema.parse(request.query);
+
+        const result = await consentService.verifyReceipt(receiptId, signature);
+
+        return reply.send({
+            success: true,
+            data: result,
+            message: result.valid ? 'Receipt is genuine' : 'Receipt signature does not match',
+        });
+    });
+
+    /**
+     * OPTIONS /runtime/receipts/:receiptId
+     * Handle CORS preflight requests
+     */
+    app.options('/runtime/receipts/:receiptId', async (request, reply) => {
+        reply.header('Access-Control-Allow-Origin', '*');
+        reply.header('Access-Control-Allow-Methods', 'GET, OPTIONS');
+        reply.header('Access-Control-Allow-Headers', 'Content-Type');
+        return reply.status(204).send();
+    });
+
+    /**
+     * POST /runtime/websites/:siteId/rights-requests
+     *
+     * Intake for the loader's "Exercise Your Rights" form.
+     * The request is held in PENDING_VERIFICATION and a code + link are emailed
+     * to the requester. It reaches the tenant's inbox only once verified.
+     */
+    app.post('/runtime/websites/:siteId/rights-requests', { onRequest: rateLimit('rights'), bodyLimit: config.rateLimits.bodyLimits.rights }, async (request, reply) => {
+        reply.header('Access-Control-Allow-Origin', '*');
+        reply.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+        reply.header('Access-Control-Allow-Headers', 'Content-Type');
+        reply.header('Cache-Control', 'no-store');
+
+        const { siteId } = siteIdParamSchema.parse(request.params);
+        const input = submitRightsRequestSchema.parse(request.body);
+        const requestInfo = getRequestInfo(request);
+
+        // The loader form's hidden honeypot field is only ever filled by bots
+        if (input.honeypot) {
+            await rateLimitService.recordAbuse('rights', 'honeypot', siteId);
+            throw new ApiError('Your request could not be submitted', 400);
+        }
+
+        const rightsRequest = await rightsRequestService.submit(siteId, input, requestInfo);
+
+        return reply.status(201).send({
+            success: true,
+            data: {
+                requestNumber: rightsRequest.requestNumber,
+                status: rightsRequest.status,
+                verificationExpiresAt: rightsRequest.verificationExpiresAt,
+                createdAt: rightsRequest.createdAt,
+            },
+            message: 'Request submitted. Check your email to verify it.',
+        });
+    });
+
+    /**
+     * OPTIONS /runtime/websites/:siteId/rights-requests
+     * Handle CORS preflight requests
+     */
+    app.options('/runtime/websites/:siteId/rights-requests', async (request, reply) => {
+        reply.header('Access-Control-Allow-Origin', '*');
+        reply.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+        reply.header('Access-Control-Allow-Headers', 'Content-Type');
+        return reply.status(204).send();
+    });
+
+    /**
+     * POST /runtime/websites/:siteId/rights-requests/:requestNumber/verify
+     *
+     * Verifies a pending request with the 6-digit code typed into the loader form.
+     */
+    app.post('/runtime/websites/:siteId/rights-requests/:requestNumber/verify', { onRequest: rateLimit('rights'), bodyLimit: config.rateLimits.bodyLimits.rights }, async (request, reply) => {
+        reply.header('Access-Control-Allow-Origin', '*');
+        reply.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+        reply.header('Access-Control-Allow-Headers', 'Content-Type');
+        reply.header('Cache-Control', 'no-store');
+
+        const { siteId, requestNumber } = verifyRightsRequestParamSchema.parse(request.params);
+        const { code } = verifyRightsRequestCodeSchema.parse(request.body);
+
+        const rightsRequest = await rightsRequestService.verifyByCode(siteId, requestNumber, code);
+
+        return reply.send({
+            success: true,
+            data: {
+                requestNumber: rightsRequest.requestNumber,
+                status: rightsRequest.status,
+                verifiedAt: rightsRequest.verifiedAt,
+            },
+            message: 'Request verified',
+        });
+    });
+
+    /**
+     * OPTIONS /runtime/websites/:siteId/rights-requests/:requestNumber/verify
+     * Handle CORS preflight requests
+     */
+    app.options('/runtime/websites/:siteId/rights-requests/:requestNumber/verify', async (request, reply) => {
+        reply.header('Access-Control-Allow-Origin', '*');
+        reply.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+        reply.header('Access-Control-Allow-Headers', 'Content-Type');
+        return reply.status(204).send();
+    });
+
+    /**
+     * GET /runtime/rights-requests/verify?token=
+     *
+     * Target of the emailed verification link. Opened directly in the
+     * requester's browser, so it answers with an HTML page rather than JSON.
+     */
+    app.get('/runtime/rights-requests/verify', { onRequest: rateLimit('reads') }, async (request, reply) => {
+        reply.header('Cache-Control', 'no-store');
+        reply.type('text/html; charset=utf-8');
+
+        const parsed = verifyRightsRequestTokenQuerySchema.safeParse(request.query);
+        if (!parsed.success) {
+            return reply.status(400).send(renderVerificationPage(
+                'Invalid link',
+                'This verification link is not valid. Please use the link from your email.'
+            ));
+        }
+
+        try {
+            const rightsRequest = await rightsRequestService.verifyByToken(parsed.data.token);
+            return reply.send(renderVerificationPage(
+                'Request verified',
+                `Thank you. Your request ${rightsRequest.requestNumber} has been verified and sent to the website owner.`
+            ));
+        } catch (error) {
+            if (error instanceof ApiError) {
+                return reply.status(error.statusCode).send(
+                    renderVerificationPage('Unable to verify request', error.message)
+                );
+            }
+            if (error instanceof Error && error.message.includes('not found')) {
+                return reply.status(404).send(renderVerificationPage(
+                    'Unable to verify request',
+                    'This verification link is not valid or has already been used.'
+                ));
+            }
+            throw error;
+        }
+    });
 }
@@ -0,0 +1,84 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { scanService } from '../services';
+import { scanIdParamSchema, startScanSchema, websiteIdParamSchema } from '../validators';
+import {
+    authMiddleware,
+    requirePasswordReset,
+    getRequestInfo,
+    getCurrentUser
+} from '../middleware';
+
+/**
+ * Cookie and Tracker Scan Routes
+ */
+export async function scanRoutes(app: FastifyInstance): Promise<void> {
+    // All routes require authentication and password reset completion
+    app.addHook('preHandler', authMiddleware);
+    app.addHook('preHandler', requirePasswordReset);
+
+    /**
+     * GET /tenant/websites/:id/scans
+     * Scan history, newest first
+     */
+    app.get<{ Params: { id: string } }>(
+        '/websites/:id/scans',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const scans = await scanService.list(websiteId, tenantId);
+
+            return {
+                success: true,
+                data: scans,
+            };
+        }
+    );
+
+    /**
+     * POST /tenant/websites/:id/scans
+     * Start a scan; it runs in the background
+     */
+    app.post<{ Params: { id: string } }>(
+        '/websites/:id/scans',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const input = startScanSchema.parse(request.body || {});
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const scan = await scanService.start(
+                websiteId,
+                tenantId,
+                userId,
+                input,
+                requestInfo
+            );
+
+            return reply.status(202).send({
+                success: true,
+                data: scan,
+                message: 'Scan started',
+            });
+        }
+    );
+
+    /**
+     * GET /tenant/websites/:id/scans/:scanId
+     * Get a scan with its pages and observed items
+     */
+    app.get<{ Params: { id: string; scanId: string } }>(
+        '/websites/:id/scans/:scanId',
+        async (request: FastifyRequest<{ Params: { id: string; scanId: string } }>, reply: FastifyReply) => {
+            const { id: websiteId, scanId } = scanIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const scan = await scanService.get(websiteId, tenantId, scanId);
+
+            return {
+                success: true,
+                data: scan,
+            };
+        }
+    );
+}
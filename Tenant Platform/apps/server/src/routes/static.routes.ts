@@ -0,0 +1,48 @@
+import * as crypto from 'crypto';
+import { FastifyInstance } from 'fastify';
+import { staticBundleService } from '../services/static-bundle.service';
+import { siteIdParamSchema } from '../validators';
+import { staticCacheControl } from '../utils/static-store';
+
+// The files static publishing writes for a website
+const STATIC_FILE = /^(config(\.v\d+\.[0-9a-f]{12})?\.json|manifest\.json|loader\.js)$/;
+
+/**
+ * Static Bundle Routes.
+ * Serves the local static store for offline runs and development, with the
+ * headers a CDN in front of the object store would send. Only registered
+ * when STATIC_STORE=local.
+ */
+export async function staticBundleRoutes(app: FastifyInstance) {
+    /**
+     * GET /static/sites/:siteId/:file
+     *
+     * config.json, config.v<configVersion>.<hash>.json, loader.js or manifest.json
+     */
+    app.get('/static/sites/:siteId/:file', async (request, reply) => {
+        const { siteId, file } = request.params as { siteId: string; file: string };
+
+        const body = siteIdParamSchema.safeParse({ siteId }).success && STATIC_FILE.test(file)
+            ? await staticBundleService.read(siteId, file)
+            : null;
+        if (body === null) {
+            return reply.status(404).send({
+                success: false,
+                message: 'File not found',
+            });
+        }
+
+        const etag = `"${crypto.createHash('sha256').update(body).digest('hex').slice(0, 32)}"`;
+        reply.header('Access-Control-Allow-Origin', '*');
+        reply.header('Cache-Control', staticCacheControl(file));
+        reply.header('ETag', etag);
+
+        if (request.headers['if-none-match'] === etag) {
+            return reply.status(304).send();
+        }
+
+        return reply
+            .type(file.endsWith('.js') ? 'application/javascript' : 'application/json')
+            .send(body);
+    });
+}
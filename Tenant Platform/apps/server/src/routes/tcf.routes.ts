@@ -0,0 +1,116 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { tcfService } from '../services';
+import { importTcfVendorListSchema, updateTcfSettingsSchema, websiteIdParamSchema } from '../validators';
+import {
+    authMiddleware,
+    requirePasswordReset,
+    getRequestInfo,
+    getCurrentUser
+} from '../middleware';
+
+// The full Global Vendor List is well over the default 1 MB body limit
+const VENDOR_LIST_BODY_LIMIT = 20 * 1024 * 1024;
+
+/**
+ * IAB TCF Routes
+ */
+export async function tcfRoutes(app: FastifyInstance): Promise<void> {
+    // All routes require authentication and password reset completion
+    app.addHook('preHandler', authMiddleware);
+    app.addHook('preHandler', requirePasswordReset);
+
+    /**
+     * GET /tenant/websites/:id/tcf
+     * Get TCF settings
+     */
+    app.get<{ Params: { id: string } }>(
+        '/websites/:id/tcf',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const settings = await tcfService.get(websiteId, tenantId);
+
+            return {
+                success: true,
+                data: settings,
+            };
+        }
+    );
+
+    /**
+     * PUT /tenant/websites/:id/tcf
+     * Save TCF settings: enabled, publisher country, vendors and purpose mapping
+     */
+    app.put<{ Params: { id: string } }>(
+        '/websites/:id/tcf',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const input = updateTcfSettingsSchema.parse(request.body);
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const settings = await tcfService.update(
+                websiteId,
+                tenantId,
+                userId,
+                input,
+                requestInfo
+            );
+
+            return {
+                success: true,
+                data: settings,
+                message: 'TCF settings saved successfully',
+            };
+        }
+    );
+
+    /**
+     * GET /tenant/websites/:id/tcf/vendor-list
+     * Get purposes and vendors of the imported Global Vendor List
+     */
+    app.get<{ Params: { id: string } }>(
+        '/websites/:id/tcf/vendor-list',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const vendorList = await tcfService.getVendorList(websiteId, tenantId);
+
+            return {
+                success: true,
+                data: vendorList,
+            };
+        }
+    );
+
+    /**
+     * POST /tenant/websites/:id/tcf/vendor-list
+     * Import a Global Vendor List file (vendor-list.json)
+     */
+    app.post<{ Params: { id: string } }>(
+        '/websites/:id/tcf/vendor-list',
+        { bodyLimit: VENDOR_LIST_BODY_LIMIT },
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const input = importTcfVendorListSchema.parse(request.body);
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const settings = await tcfService.importVendorList(
+                websiteId,
+                tenantId,
+                userId,
+                input,
+                requestInfo
+            );
+
+            return reply.status(201).send({
+                success: true,
+                data: settings,
+                message: 'Vendor list imported successfully',
+            });
+        }
+    );
+}
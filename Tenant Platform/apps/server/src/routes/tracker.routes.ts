@@ -0,0 +1,98 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { trackerService } from '../services';
+import { adoptTrackersSchema, trackerIdParamSchema, websiteIdParamSchema } from '../validators';
+import {
+    authMiddleware,
+    requirePasswordReset,
+    getRequestInfo,
+    getCurrentUser
+} from '../middleware';
+
+/**
+ * Known-Tracker Routes
+ */
+export async function trackerRoutes(app: FastifyInstance): Promise<void> {
+    // All routes require authentication and password reset completion
+    app.addHook('preHandler', authMiddleware);
+    app.addHook('preHandler', requirePasswordReset);
+
+    /**
+     * GET /tenant/trackers
+     * Known-tracker catalogue (active entries)
+     */
+    app.get('/trackers', async (request: FastifyRequest, reply: FastifyReply) => {
+        const trackers = await trackerService.getCatalogue();
+
+        return {
+            success: true,
+            data: trackers,
+        };
+    });
+
+    /**
+     * GET /tenant/websites/:id/trackers
+     * Trackers adopted by the website
+     */
+    app.get<{ Params: { id: string } }>(
+        '/websites/:id/trackers',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const trackers = await trackerService.list(websiteId, tenantId);
+
+            return {
+                success: true,
+                data: trackers,
+            };
+        }
+    );
+
+    /**
+     * POST /tenant/websites/:id/trackers
+     * Adopt catalogue trackers into purposes
+     */
+    app.post<{ Params: { id: string } }>(
+        '/websites/:id/trackers',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id: websiteId } = websiteIdParamSchema.parse(request.params);
+            const input = adoptTrackersSchema.parse(request.body || {});
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const trackers = await trackerService.adopt(
+                websiteId,
+                tenantId,
+                userId,
+                input,
+                requestInfo
+            );
+
+            return {
+                success: true,
+                data: trackers,
+                message: 'Trackers adopted. Publish to start blocking them.',
+            };
+        }
+    );
+
+    /**
+     * DELETE /tenant/websites/:id/trackers/:trackerId
+     * Stop blocking an adopted tracker
+     */
+    app.delete<{ Params: { id: string; trackerId: string } }>(
+        '/websites/:id/trackers/:trackerId',
+        async (request: FastifyRequest<{ Params: { id: string; trackerId: string } }>, reply: FastifyReply) => {
+            const { id: websiteId, trackerId } = trackerIdParamSchema.parse(request.params);
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            await trackerService.remove(websiteId, tenantId, userId, trackerId, requestInfo);
+
+            return {
+                success: true,
+                message: 'Tracker removed',
+            };
+        }
+    );
+}
@@ -0,0 +1,161 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { webhookService } from '../services';
+import {
+    webhookDeliveryFiltersSchema,
+    webhookDeliveryIdParamSchema,
+    webhookEndpointSchema,
+    webhookIdParamSchema,
+} from '../validators';
+import {
+    authMiddleware,
+    requirePasswordReset,
+    getRequestInfo,
+    getCurrentUser
+} from '../middleware';
+
+/**
+ * Webhook Routes (tenant endpoints and delivery log)
+ */
+export async function webhookRoutes(app: FastifyInstance): Promise<void> {
+    // All routes require authentication and password reset completion
+    app.addHook('preHandler', authMiddleware);
+    app.addHook('preHandler', requirePasswordReset);
+
+    /**
+     * GET /tenant/webhooks
+     * List the tenant's webhook endpoints
+     */
+    app.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+        const { tenantId } = getCurrentUser(request);
+
+        const endpoints = await webhookService.list(tenantId);
+
+        return {
+            success: true,
+            data: endpoints,
+        };
+    });
+
+    /**
+     * POST /tenant/webhooks
+     * Register an endpoint; the response holds its signing secret
+     */
+    app.post('/', async (request: FastifyRequest, reply: FastifyReply) => {
+        const input = webhookEndpointSchema.parse(request.body || {});
+        const { userId, tenantId } = getCurrentUser(request);
+        const requestInfo = getRequestInfo(request);
+
+        const endpoint = await webhookService.create(tenantId, userId, input, requestInfo);
+
+        return reply.status(201).send({
+            success: true,
+            data: endpoint,
+            message: 'Webhook added. Store the signing secret now; it is not shown again.',
+        });
+    });
+
+    /**
+     * PUT /tenant/webhooks/:id
+     * Replace an endpoint's URL, events and website
+     */
+    app.put<{ Params: { id: string } }>(
+        '/:id',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id } = webhookIdParamSchema.parse(request.params);
+            const input = webhookEndpointSchema.parse(request.body || {});
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const endpoint = await webhookService.update(tenantId, userId, id, input, requestInfo);
+
+            return {
+                success: true,
+                data: endpoint,
+                message: 'Webhook updated',
+            };
+        }
+    );
+
+    /**
+     * DELETE /tenant/webhooks/:id
+     * Remove an endpoint and its delivery log
+     */
+    app.delete<{ Params: { id: string } }>(
+        '/:id',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id } = webhookIdParamSchema.parse(request.params);
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            await webhookService.delete(tenantId, userId, id, requestInfo);
+
+            return {
+                success: true,
+                message: 'Webhook removed',
+            };
+        }
+    );
+
+    /**
+     * POST /tenant/webhooks/:id/rotate-secret
+     * Replace the signing secret
+     */
+    app.post<{ Params: { id: string } }>(
+        '/:id/rotate-secret',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id } = webhookIdParamSchema.parse(request.params);
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const endpoint = await webhookService.rotateSecret(tenantId, userId, id, requestInfo);
+
+            return {
+                success: true,
+                data: endpoint,
+                message: 'Signing secret replaced. Update your receiver; it is not shown again.',
+            };
+        }
+    );
+
+    /**
+     * GET /tenant/webhooks/:id/deliveries
+     * Delivery log of an endpoint with pagination and filters
+     */
+    app.get<{ Params: { id: string } }>(
+        '/:id/deliveries',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id } = webhookIdParamSchema.parse(request.params);
+            const filters = webhookDeliveryFiltersSchema.parse(request.query);
+            const { tenantId } = getCurrentUser(request);
+
+            const result = await webhookService.listDeliveries(tenantId, id, filters);
+
+            return {
+                success: true,
+                data: result.items,
+                pagination: result.pagination,
+            };
+        }
+    );
+
+    /**
+     * POST /tenant/webhooks/:id/deliveries/:deliveryId/redeliver
+     * Send a delivered or failed event again
+     */
+    app.post<{ Params: { id: string; deliveryId: string } }>(
+        '/:id/deliveries/:deliveryId/redeliver',
+        async (request: FastifyRequest<{ Params: { id: string; deliveryId: string } }>, reply: FastifyReply) => {
+            const { id, deliveryId } = webhookDeliveryIdParamSchema.parse(request.params);
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const delivery = await webhookService.redeliver(tenantId, userId, id, deliveryId, requestInfo);
+
+            return reply.status(201).send({
+                success: true,
+                data: delivery,
+                message: 'Redelivery queued',
+            });
+        }
+    );
+}
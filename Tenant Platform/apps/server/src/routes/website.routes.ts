@@ -1,8 +1,11 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { websiteService } from '../services';
+import { websiteService, consentLifetimeService, originService } from '../services';
 import {
     createWebsiteSchema,
     updateWebsiteStatusSchema,
+    updateConsentLifetimeSchema,
+    updateOriginSettingsSchema,
+    securityEventsQuerySchema,
     websiteIdParamSchema
 } from '../validators';
 import {
@@ -118,6 +121,120 @@ export async function websiteRoutes(app: FastifyInstance): Promise<void> {
         }
     );
 
+    /**
+     * GET /tenant/websites/:id/consent-lifetime
+     * Consent lifetime settings, effective values and global limits
+     */
+    app.get<{ Params: { id: string } }>(
+        '/:id/consent-lifetime',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id } = websiteIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const lifetime = await consentLifetimeService.get(id, tenantId);
+
+            return {
+                success: true,
+                data: lifetime,
+            };
+        }
+    );
+
+    /**
+     * PUT /tenant/websites/:id/consent-lifetime
+     * Set how long consent and rejections are remembered
+     */
+    app.put<{ Params: { id: string } }>(
+        '/:id/consent-lifetime',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id } = websiteIdParamSchema.parse(request.params);
+            const input = updateConsentLifetimeSchema.parse(request.body);
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const lifetime = await consentLifetimeService.update(
+                id,
+                tenantId,
+                userId,
+                input,
+                requestInfo
+            );
+
+            return {
+                success: true,
+                data: lifetime,
+                message: 'Consent lifetime updated successfully',
+            };
+        }
+    );
+
+    /**
+     * GET /tenant/websites/:id/origins
+     * Domains besides the registered one the runtime API may be called from
+     */
+    app.get<{ Params: { id: string } }>(
+        '/:id/origins',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id } = websiteIdParamSchema.parse(request.params);
+            const { tenantId } = getCurrentUser(request);
+
+            const origins = await originService.get(id, tenantId);
+
+            return {
+                success: true,
+                data: origins,
+            };
+        }
+    );
+
+    /**
+     * PUT /tenant/websites/:id/origins
+     * Replace the allowed domains and test domains
+     */
+    app.put<{ Params: { id: string } }>(
+        '/:id/origins',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id } = websiteIdParamSchema.parse(request.params);
+            const input = updateOriginSettingsSchema.parse(request.body);
+            const { userId, tenantId } = getCurrentUser(request);
+            const requestInfo = getRequestInfo(request);
+
+            const origins = await originService.update(
+                id,
+                tenantId,
+                userId,
+                input,
+                requestInfo
+            );
+
+            return {
+                success: true,
+                data: origins,
+                message: 'Allowed domains updated successfully',
+            };
+        }
+    );
+
+    /**
+     * GET /tenant/websites/:id/security-events?days=30
+     * Rejected calls to the runtime API, counted per origin, endpoint and day
+     */
+    app.get<{ Params: { id: string } }>(
+        '/:id/security-events',
+        async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+            const { id } = websiteIdParamSchema.parse(request.params);
+            const { days } = securityEventsQuerySchema.parse(request.query);
+            const { tenantId } = getCurrentUser(request);
+
+            const events = await originService.listEvents(id, tenantId, days);
+
+            return {
+                success: true,
+                data: events,
+            };
+        }
+    );
+
     /**
      * DELETE /tenant/websites/:id
      * Delete a website (only DRAFT)
@@ -0,0 +1,199 @@
+import { analyticsRepository, telemetryRepository, websiteRepository } from '../repositories';
+import {
+    ConsentAnalyticsCounts,
+    ConsentAnalyticsDaily,
+    ConsentAnalyticsPurposeTotal,
+    ConsentAnalyticsRates,
+    ConsentAnalyticsSlice,
+    ConsentAnalyticsSummary,
+    DeviceType,
+    LoaderEventCounts,
+} from '../types';
+import { AnalyticsRangeInput, RecordImpressionInput } from '../validators';
+
+// Languages and device types with fewer decisions than this are folded into
+// "other", so a breakdown never singles out a handful of visitors
+export const MIN_SLICE_DECISIONS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+function emptyCounts(): ConsentAnalyticsCounts {
+    return { impressions: 0, decisions: 0, acceptAll: 0, rejectAll: 0, custom: 0, withdrawals: 0 };
+}
+
+type RowCounts = Pick<ConsentAnalyticsCounts, 'impressions' | 'acceptAll' | 'rejectAll' | 'custom' | 'withdrawals'>;
+
+function addRow(counts: ConsentAnalyticsCounts, row: RowCounts): ConsentAnalyticsCounts {
+    counts.impressions += row.impressions;
+    counts.acceptAll += row.acceptAll;
+    counts.rejectAll += row.rejectAll;
+    counts.custom += row.custom;
+    counts.withdrawals += row.withdrawals;
+    counts.decisions = counts.acceptAll + counts.rejectAll + counts.custom;
+    return counts;
+}
+
+function ratio(part: number, whole: number): number | null {
+    return whole > 0 ? Math.round((part / whole) * 10000) / 10000 : null;
+}
+
+function rates(counts: ConsentAnalyticsCounts): ConsentAnalyticsRates {
+    return {
+        decisionRate: ratio(counts.decisions, counts.impressions),
+        acceptAllRate: ratio(counts.acceptAll, counts.decisions),
+        rejectAllRate: ratio(counts.rejectAll, counts.decisions),
+        customRate: ratio(counts.custom, counts.decisions),
+    };
+}
+
+/**
+ * Consent Analytics Service.
+ * Reports banner impressions and consent decisions per website as daily
+ * aggregates. Decisions come from the consent ledger, refreshed by the
+ * consent analytics job; impressions are counted as the loader reports them.
+ */
+export const analyticsService = {
+    /**
+     * Count a banner impression reported by the loader.
+     * Only the day, language and device type are kept.
+     */
+    async recordImpression(siteId: string, input: RecordImpressionInput, userAgent?: string): Promise<void> {
+        const website = await websiteRepository.findById(siteId);
+        if (!website || website.status !== 'ACTIVE') {
+            throw new Error('Website not found or not active');
+        }
+
+        await analyticsRepository.addImpression(
+            siteId,
+            toDay(new Date()),
+            input.language ? input.language.toLowerCase() : 'unknown',
+            this.classifyDevice(userAgent)
+        );
+    },
+
+    /**
+     * Recompute the decision counts of the last few days from the ledger
+     */
+    async refresh(days: number): Promise<void> {
+        await analyticsRepository.refreshDecisions(toDay(new Date(Date.now() - (days - 1) * DAY_MS)));
+    },
+
+    /**
+     * Get the analytics summary of a website for a date range
+     */
+    async getSummary(websiteId: string, tenantId: string, range: AnalyticsRangeInput): Promise<ConsentAnalyticsSummary> {
+        await this.requireWebsite(websiteId, tenantId);
+
+        const [daily, purposes, events] = await Promise.all([
+            analyticsRepository.findDaily(websiteId, range.from, range.to),
+            analyticsRepository.findPurposeTotals(websiteId, range.from, range.to),
+            telemetryRepository.countEvents(websiteId, range.from, range.to),
+        ]);
+
+        const interactions: LoaderEventCounts = {
+            BANNER_SHOWN: 0,
+            SETTINGS_OPENED: 0,
+            LANGUAGE_SWITCHED: 0,
+            RIGHTS_FORM_OPENED: 0,
+            DISMISSED: 0,
+            DECISION: 0,
+        };
+        for (const { event, count } of events) {
+            interactions[event] = count;
+        }
+
+        return { ...this.summarize(websiteId, range, daily, purposes), interactions };
+    },
+
+    /**
+     * Build the summary from the daily rows: totals, per-purpose opt-in,
+     * language and device breakdowns, and a trend with every day of the range.
+     */
+    summarize(
+        websiteId: string,
+        range: AnalyticsRangeInput,
+        daily: ConsentAnalyticsDaily[],
+        purposes: ConsentAnalyticsPurposeTotal[]
+    ): Omit<ConsentAnalyticsSummary, 'interactions'> {
+        const totals = daily.reduce(addRow, emptyCounts());
+
+        const byDay = new Map<string, ConsentAnalyticsCounts>();
+        for (const row of daily) {
+            byDay.set(row.day, addRow(byDay.get(row.day) || emptyCounts(), row));
+        }
+        const trend: ConsentAnalyticsSummary['trend'] = [];
+        for (let time = Date.parse(range.from); time <= Date.parse(range.to); time += DAY_MS) {
+            const day = toDay(new Date(time));
+            trend.push({ day, ...(byDay.get(day) || emptyCounts()) });
+        }
+
+        return {
+            websiteId,
+            from: range.from,
+            to: range.to,
+            totals: { ...totals, ...rates(totals) },
+            purposes: purposes.map((purpose) => ({
+                ...purpose,
+                optInRate: ratio(purpose.granted, purpose.granted + purpose.denied),
+            })),
+            languages: this.slices(daily, (row) => row.languageCode),
+            devices: this.slices(daily, (row) => row.deviceType),
+            trend,
+        };
+    },
+
+    /**
+     * Break the rows down by a key, largest first. Keys with too few
+     * decisions are folded into a trailing "other" slice.
+     */
+    slices(daily: ConsentAnalyticsDaily[], keyOf: (row: ConsentAnalyticsDaily) => string): ConsentAnalyticsSlice[] {
+        const groups = new Map<string, ConsentAnalyticsCounts>();
+        for (const row of daily) {
+            groups.set(keyOf(row), addRow(groups.get(keyOf(row)) || emptyCounts(), row));
+        }
+
+        const slices: ConsentAnalyticsSlice[] = [];
+        let other: ConsentAnalyticsCounts | null = null;
+        for (const [key, counts] of groups) {
+            if (counts.decisions >= MIN_SLICE_DECISIONS) {
+                slices.push({ key, ...counts, ...rates(counts) });
+                continue;
+            }
+            other = addRow(other || emptyCounts(), counts);
+        }
+
+        slices.sort((a, b) => b.decisions - a.decisions || b.impressions - a.impressions);
+        if (other) {
+            slices.push({ key: 'other', ...other, ...rates(other) });
+        }
+        return slices;
+    },
+
+    /**
+     * Device type from a user agent. Keep in step with the classification
+     * of ledger records in analyticsRepository.
+     */
+    classifyDevice(userAgent?: string): DeviceType {
+        if (!userAgent) {
+            return 'unknown';
+        }
+        if (/ipad|tablet|android(?!.*mobi)/i.test(userAgent)) {
+            return 'tablet';
+        }
+        if (/mobi|iphone|ipod|android/i.test(userAgent)) {
+            return 'mobile';
+        }
+        return 'desktop';
+    },
+
+    async requireWebsite(websiteId: string, tenantId: string) {
+        // Verify website ownership
+        const website = await websiteRepository.findByIdAndTenant(websiteId, tenantId);
+        if (!website) {
+            throw new Error('Website not found');
+        }
+        return website;
+    },
+};
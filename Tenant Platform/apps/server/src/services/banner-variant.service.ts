@@ -0,0 +1,344 @@
+import {
+    auditRepository,
+    bannerRepository,
+    bannerVariantRepository,
+    telemetryRepository,
+    websiteRepository,
+} from '../repositories';
+import { ApiError } from '../middleware';
+import { BannerExperimentResults, BannerVariant, BannerVariantResult, BannerVariantText } from '../types';
+import { BannerCustomizationInput, BannerVariantInput } from '../validators';
+import { bannerService } from './banner.service';
+
+// Most variants running at once, besides the default banner
+export const MAX_ACTIVE_VARIANTS = 4;
+
+type BannerText = Required<BannerVariantText>;
+
+// The banner a variant shows: full styles and the text of every language
+export interface MergedBannerVariant {
+    styles: BannerCustomizationInput;
+    text: Record<string, BannerText>;
+}
+
+function ratio(part: number, whole: number): number | null {
+    return whole > 0 ? Math.round((part / whole) * 10000) / 10000 : null;
+}
+
+/**
+ * Banner Variant Service.
+ * A/B tests of the banner: variants override the default banner's styles and
+ * text and are shown to a share of visitors. Every variant passes the dark
+ * pattern rules of bannerService in each language. Variants are part of the
+ * draft; the loader assigns them once the configuration is published.
+ */
+export const bannerVariantService = {
+    async list(websiteId: string, tenantId: string): Promise<BannerVariant[]> {
+        await this.requireWebsite(websiteId, tenantId);
+        return bannerVariantRepository.findByWebsiteId(websiteId);
+    },
+
+    async create(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        input: BannerVariantInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<BannerVariant> {
+        await this.requireWebsite(websiteId, tenantId);
+        await this.checkVariant(websiteId, tenantId, input, null);
+
+        const variant = await bannerVariantRepository.create({
+            websiteId,
+            name: input.name,
+            trafficPercent: input.trafficPercent,
+            styles: input.styles,
+            text: input.text,
+            createdBy: actorId,
+        });
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'BANNER_VARIANT_CREATED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: { variantId: variant.id, ...input },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return variant;
+    },
+
+    async update(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        variantId: string,
+        input: BannerVariantInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<BannerVariant> {
+        await this.requireWebsite(websiteId, tenantId);
+        await this.requireActiveVariant(websiteId, variantId);
+        await this.checkVariant(websiteId, tenantId, input, variantId);
+
+        const variant = await bannerVariantRepository.update(variantId, {
+            name: input.name,
+            trafficPercent: input.trafficPercent,
+            styles: input.styles,
+            text: input.text,
+        });
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'BANNER_VARIANT_UPDATED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: { variantId, ...input },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return variant;
+    },
+
+    async delete(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        variantId: string,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<void> {
+        await this.requireWebsite(websiteId, tenantId);
+
+        const existing = await bannerVariantRepository.findById(websiteId, variantId);
+        if (!existing || !(await bannerVariantRepository.delete(websiteId, variantId))) {
+            throw new Error('Banner variant not found');
+        }
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'BANNER_VARIANT_DELETED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: { variantId, name: existing.name },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+    },
+
+    /**
+     * Make a variant the default banner and end the experiment. Its styles
+     * and text are written to the banner draft; all running variants are
+     * archived so their results stay available.
+     */
+    async promote(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        variantId: string,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<void> {
+        await this.requireWebsite(websiteId, tenantId);
+        const variant = await this.requireActiveVariant(websiteId, variantId);
+
+        const base = await this.getBase(websiteId, tenantId);
+        const merged = this.merge(base.styles, base.text, variant);
+        this.validate(merged);
+
+        const english = merged.text['en'];
+        await bannerRepository.upsert(websiteId, {
+            ...merged.styles,
+            ...(english ? {
+                acceptButtonText: english.acceptButton,
+                rejectButtonText: english.rejectButton,
+                customizeButtonText: english.preferencesButton,
+            } : {}),
+        });
+        for (const language of Object.keys(variant.text)) {
+            const text = merged.text[language];
+            await bannerRepository.upsertTranslation(websiteId, language, {
+                headlineText: text.headline,
+                descriptionText: text.description,
+                acceptButtonText: text.acceptButton,
+                rejectButtonText: text.rejectButton,
+                preferencesButtonText: text.preferencesButton,
+            });
+        }
+        await bannerVariantRepository.archiveActive(websiteId);
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'BANNER_VARIANT_PROMOTED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: { variantId, name: variant.name, styles: variant.styles, text: variant.text },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+    },
+
+    /**
+     * Consent rate and time to decision of each arm of the running
+     * experiment, from loader telemetry since the oldest variant was created
+     */
+    async getResults(websiteId: string, tenantId: string): Promise<BannerExperimentResults> {
+        await this.requireWebsite(websiteId, tenantId);
+
+        const active = await bannerVariantRepository.findActive(websiteId);
+        if (active.length === 0) {
+            return { since: null, variants: [] };
+        }
+
+        const since = active.reduce((oldest, v) => (v.createdAt < oldest ? v.createdAt : oldest), active[0].createdAt);
+        const rows = await telemetryRepository.summarizeVariants(websiteId, since);
+
+        const arms = [
+            {
+                variantId: 'control',
+                name: 'Default banner',
+                trafficPercent: 100 - active.reduce((sum, v) => sum + v.trafficPercent, 0),
+            },
+            ...active.map((v) => ({ variantId: v.id, name: v.name, trafficPercent: v.trafficPercent })),
+        ];
+
+        return {
+            since,
+            variants: arms.map((arm): BannerVariantResult => {
+                const row = rows.find((r) => r.variant === arm.variantId);
+                const shown = row?.shown || 0;
+                const decisions = row?.decisions || 0;
+                const optIns = row?.optIns || 0;
+                return {
+                    ...arm,
+                    shown,
+                    decisions,
+                    acceptAll: row?.acceptAll || 0,
+                    rejectAll: row?.rejectAll || 0,
+                    optIns,
+                    consentRate: ratio(optIns, shown),
+                    decisionRate: ratio(decisions, shown),
+                    medianDecisionMs: row?.medianDecisionMs ?? null,
+                };
+            }),
+        };
+    },
+
+    /**
+     * Traffic split, name and dark pattern checks of a new or changed variant
+     */
+    async checkVariant(websiteId: string, tenantId: string, input: BannerVariantInput, variantId: string | null): Promise<void> {
+        const others = (await bannerVariantRepository.findActive(websiteId)).filter((v) => v.id !== variantId);
+
+        if (!variantId && others.length >= MAX_ACTIVE_VARIANTS) {
+            throw new ApiError(`At most ${MAX_ACTIVE_VARIANTS} variants can run at once`, 400);
+        }
+        if (others.some((v) => v.name.toLowerCase() === input.name.toLowerCase())) {
+            throw new ApiError(`A variant named ${input.name} already exists`, 409);
+        }
+        const traffic = others.reduce((sum, v) => sum + v.trafficPercent, input.trafficPercent);
+        if (traffic > 100) {
+            throw new ApiError(`Variants would take ${traffic}% of traffic; the total must not exceed 100%`, 400);
+        }
+
+        const base = await this.getBase(websiteId, tenantId);
+        for (const language of Object.keys(input.text)) {
+            if (!base.text[language]) {
+                throw new ApiError(`The default banner has no ${language} text; add that translation first`, 400);
+            }
+        }
+        this.validate(this.merge(base.styles, base.text, input));
+    },
+
+    /**
+     * The default banner: styles with defaults, and the text per language
+     */
+    async getBase(websiteId: string, tenantId: string): Promise<MergedBannerVariant> {
+        const [styles, translations] = await Promise.all([
+            bannerService.getWithDefaults(websiteId, tenantId),
+            bannerService.getTranslations(websiteId, tenantId),
+        ]);
+
+        const text: Record<string, BannerText> = {};
+        for (const t of translations) {
+            text[t.languageCode] = {
+                headline: t.headlineText,
+                description: t.descriptionText,
+                acceptButton: t.acceptButtonText,
+                rejectButton: t.rejectButtonText,
+                preferencesButton: t.preferencesButtonText,
+            };
+        }
+        return { styles, text };
+    },
+
+    /**
+     * Apply a variant's overrides to the default banner
+     */
+    merge(
+        baseStyles: BannerCustomizationInput,
+        baseText: Record<string, BannerText>,
+        variant: Pick<BannerVariant, 'styles' | 'text'>
+    ): MergedBannerVariant {
+        const text: Record<string, BannerText> = {};
+        for (const language of Object.keys(baseText)) {
+            text[language] = { ...baseText[language], ...variant.text[language] };
+        }
+        return { styles: { ...baseStyles, ...variant.styles }, text };
+    },
+
+    /**
+     * The dark pattern rules of the default banner, checked for every
+     * language of the merged variant
+     */
+    validate(merged: MergedBannerVariant): void {
+        for (const [language, text] of Object.entries(merged.text)) {
+            try {
+                bannerService.validateDarkPatternPrevention({
+                    ...merged.styles,
+                    acceptButtonText: text.acceptButton,
+                    rejectButtonText: text.rejectButton,
+                    customizeButtonText: text.preferencesButton,
+                });
+            } catch (error) {
+                throw new ApiError(`${(error as Error).message} (${language})`, 400);
+            }
+        }
+    },
+
+    async requireActiveVariant(websiteId: string, variantId: string): Promise<BannerVariant> {
+        const variant = await bannerVariantRepository.findById(websiteId, variantId);
+        if (!variant) {
+            throw new Error('Banner variant not found');
+        }
+        if (variant.archivedAt) {
+            throw new ApiError('The experiment of this variant has ended', 409);
+        }
+        return variant;
+    },
+
+    async requireWebsite(websiteId: string, tenantId: string) {
+        // Verify website ownership
+        const website = await websiteRepository.findByIdAndTenant(websiteId, tenantId);
+        if (!website) {
+            throw new Error('Website not found');
+        }
+        return website;
+    },
+};
@@ -1,6 +1,7 @@
 import { bannerRepository, websiteRepository, auditRepository } from '../repositories';
 import { BannerCustomization } from '../types';
 import { BannerCustomizationInput, UpdateBannerCustomizationInput } from '../validators';
+import { runtimeService } from './runtime.service';
 
 /**
  * Banner Customization Service.
@@ -101,6 +102,8 @@ export const bannerService = {
             }
         );
 
+        await runtimeService.invalidate(websiteId);
+
         return banner;
     },
 
@@ -170,6 +173,8 @@ export const bannerService = {
             }
         );
 
+        await runtimeService.invalidate(websiteId);
+
         return banner;
     },
 
@@ -431,6 +436,8 @@ export const bannerService = {
             }
         );
 
+        await runtimeService.invalidate(websiteId);
+
         return results;
     },
 };
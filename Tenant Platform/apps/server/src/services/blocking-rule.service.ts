@@ -0,0 +1,157 @@
+import { blockingRuleRepository, purposeRepository, websiteRepository, auditRepository } from '../repositories';
+import { ApiError } from '../middleware';
+import { BlockingRule } from '../types';
+import { BlockingRuleInput } from '../validators';
+
+/**
+ * Blocking Rule Service.
+ * Domain and URL rules that put scripts, iframes and images under a purpose
+ * without data-purpose markup. Rules are part of the draft; the loader
+ * enforces them once the configuration is published.
+ */
+export const blockingRuleService = {
+    async list(websiteId: string, tenantId: string): Promise<BlockingRule[]> {
+        await this.requireWebsite(websiteId, tenantId);
+        return blockingRuleRepository.findByWebsiteId(websiteId);
+    },
+
+    async create(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        input: BlockingRuleInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<BlockingRule> {
+        await this.requireWebsite(websiteId, tenantId);
+        const purposeId = await this.resolvePurpose(websiteId, input.purposeTag);
+
+        if (await blockingRuleRepository.findByPattern(websiteId, input.matchType, input.pattern)) {
+            throw new ApiError(`A rule for ${input.pattern} already exists`, 409);
+        }
+
+        const ruleId = await blockingRuleRepository.create({
+            websiteId,
+            purposeId,
+            matchType: input.matchType,
+            pattern: input.pattern,
+            createdBy: actorId,
+        });
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'BLOCKING_RULE_CREATED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: { ruleId, ...input },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return (await blockingRuleRepository.findById(websiteId, ruleId)) as BlockingRule;
+    },
+
+    async update(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        ruleId: string,
+        input: BlockingRuleInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<BlockingRule> {
+        await this.requireWebsite(websiteId, tenantId);
+
+        const existing = await blockingRuleRepository.findById(websiteId, ruleId);
+        if (!existing) {
+            throw new Error('Blocking rule not found');
+        }
+        const purposeId = await this.resolvePurpose(websiteId, input.purposeTag);
+
+        const duplicate = await blockingRuleRepository.findByPattern(websiteId, input.matchType, input.pattern);
+        if (duplicate && duplicate.id !== ruleId) {
+            throw new ApiError(`A rule for ${input.pattern} already exists`, 409);
+        }
+
+        await blockingRuleRepository.update(ruleId, {
+            purposeId,
+            matchType: input.matchType,
+            pattern: input.pattern,
+        });
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'BLOCKING_RULE_UPDATED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: {
+                    ruleId,
+                    previous: { purposeTag: existing.purposeTag, matchType: existing.matchType, pattern: existing.pattern },
+                    ...input,
+                },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return (await blockingRuleRepository.findById(websiteId, ruleId)) as BlockingRule;
+    },
+
+    async delete(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        ruleId: string,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<void> {
+        await this.requireWebsite(websiteId, tenantId);
+
+        const existing = await blockingRuleRepository.findById(websiteId, ruleId);
+        if (!existing || !(await blockingRuleRepository.delete(websiteId, ruleId))) {
+            throw new Error('Blocking rule not found');
+        }
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'BLOCKING_RULE_DELETED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: {
+                    ruleId,
+                    purposeTag: existing.purposeTag,
+                    matchType: existing.matchType,
+                    pattern: existing.pattern,
+                },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+    },
+
+    // Rules can only target the website's active purposes
+    async resolvePurpose(websiteId: string, tag: string): Promise<string> {
+        const purpose = (await purposeRepository.findByWebsiteId(websiteId))
+            .find((p) => p.tag === tag && p.status === 'ACTIVE');
+        if (!purpose) {
+            throw new ApiError(`Unknown purpose: ${tag}`, 400);
+        }
+        return purpose.id;
+    },
+
+    async requireWebsite(websiteId: string, tenantId: string) {
+        // Verify website ownership
+        const website = await websiteRepository.findByIdAndTenant(websiteId, tenantId);
+        if (!website) {
+            throw new Error('Website not found');
+        }
+        return website;
+    },
+};
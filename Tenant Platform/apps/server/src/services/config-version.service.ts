@@ -0,0 +1,109 @@
+import * as crypto from 'crypto';
+import { configVersionRepository, websiteRepository, auditRepository } from '../repositories';
+import { runtimeService } from './runtime.service';
+import { ConfigChangeType, ConfigSnapshot, ConfigVersion, ConfigVersionSummary } from '../types';
+import { canonicalJson } from '../utils/json';
+
+/**
+ * Config Version Service.
+ * Keeps an immutable, hashed history of the notice and purposes visitors see,
+ * so the loader can tell when stored consent was given against older content.
+ */
+export const configVersionService = {
+    /**
+     * Capture the notice and active purposes as served to the loader.
+     * Display order and timestamps are left out: they do not change what a
+     * visitor agrees to.
+     */
+    async buildSnapshot(websiteId: string): Promise<ConfigSnapshot> {
+        const [notice, purposes] = await Promise.all([
+            runtimeService.getNoticeTranslations(websiteId),
+            runtimeService.getPurposesWithTranslations(websiteId),
+        ]);
+
+        return {
+            notice: notice || {},
+            purposes: purposes
+                .map((purpose) => ({
+                    key: purpose.key,
+                    required: purpose.required,
+                    labels: purpose.labels,
+                }))
+                .sort((a, b) => a.key.localeCompare(b.key)),
+        };
+    },
+
+    hashSnapshot(snapshot: ConfigSnapshot): string {
+        return crypto.createHash('sha256').update(canonicalJson(snapshot)).digest('hex');
+    },
+
+    /**
+     * Record a new version after an edit, if visitor-facing content changed.
+     * Adding an optional purpose is always MATERIAL whatever the tenant chose,
+     * since nobody has consented to it yet.
+     */
+    async recordChange(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        changeType: ConfigChangeType,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<ConfigVersion | null> {
+        const snapshot = await this.buildSnapshot(websiteId);
+        const contentHash = this.hashSnapshot(snapshot);
+
+        const latest = await configVersionRepository.findLatest(websiteId);
+        if (latest && latest.contentHash === contentHash) {
+            return null;
+        }
+
+        const previousKeys = new Set(latest ? latest.snapshot.purposes.map((p) => p.key) : []);
+        const addedPurposes = latest
+            ? snapshot.purposes.filter((p) => !p.required && !previousKeys.has(p.key)).map((p) => p.key)
+            : [];
+
+        const version = await configVersionRepository.create({
+            websiteId,
+            contentHash,
+            changeType: addedPurposes.length > 0 ? 'MATERIAL' : changeType,
+            addedPurposes,
+            snapshot,
+            createdBy: actorId,
+        });
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'CONFIG_VERSION_CREATED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: {
+                    version: version.version,
+                    changeType: version.changeType,
+                    requestedChangeType: changeType,
+                    contentHash,
+                    addedPurposes,
+                },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return version;
+    },
+
+    /**
+     * Version history for a website, newest first
+     */
+    async list(websiteId: string, tenantId: string): Promise<ConfigVersionSummary[]> {
+        // Verify website ownership
+        const website = await websiteRepository.findByIdAndTenant(websiteId, tenantId);
+        if (!website) {
+            throw new Error('Website not found');
+        }
+
+        return configVersionRepository.findByWebsiteId(websiteId);
+    },
+};
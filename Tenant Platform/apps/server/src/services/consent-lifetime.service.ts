@@ -0,0 +1,153 @@
+import { config } from '../config';
+import { websiteRepository, globalRulesRepository, auditRepository } from '../repositories';
+import { ApiError } from '../middleware';
+import { ConsentLifetime, ConsentLifetimeLimits, ConsentLifetimeSettings } from '../types';
+import { runtimeService } from './runtime.service';
+import { staticBundleService } from './static-bundle.service';
+import { consentLifetimeRulesSchema, UpdateConsentLifetimeInput } from '../validators';
+
+/**
+ * Consent Lifetime Service.
+ * How long the loader honours stored consent before showing the banner again.
+ * Tenants choose a lifetime per website; the active global rules cap it.
+ */
+export const consentLifetimeService = {
+    /**
+     * Resolve limits from the "consent_lifetime" section of the active global
+     * rules. Missing or invalid values fall back to the platform defaults.
+     */
+    async getLimits(): Promise<ConsentLifetimeLimits> {
+        const defaults = config.consent.lifetime;
+        const activeRules = await globalRulesRepository.findActive();
+
+        const parsed = consentLifetimeRulesSchema.safeParse(activeRules?.rulesJson?.consent_lifetime ?? {});
+        if (!parsed.success) {
+            console.warn(
+                `⚠️  Ignoring invalid consent_lifetime rules in global rules v${activeRules?.version}:`,
+                parsed.error.issues
+            );
+        }
+        const rules = parsed.success ? parsed.data : {};
+
+        const maxDays = rules.max_days ?? defaults.maxDays;
+        return {
+            rulesVersion: activeRules?.version,
+            defaultDays: Math.min(rules.default_days ?? defaults.defaultDays, maxDays),
+            maxDays,
+            minRejectDays: Math.min(rules.min_reject_days ?? defaults.minRejectDays, maxDays),
+        };
+    },
+
+    /**
+     * Apply the limits to a website's settings. Settings saved under older,
+     * looser rules are capped rather than rejected. A rejection never
+     * outlives consent and is kept for at least minRejectDays.
+     */
+    resolve(settings: ConsentLifetimeSettings, limits: ConsentLifetimeLimits): ConsentLifetime['effective'] {
+        const consentLifetimeDays = Math.min(settings.consentLifetimeDays ?? limits.defaultDays, limits.maxDays);
+        const rejectLifetimeDays = Math.min(
+            Math.max(settings.rejectLifetimeDays ?? consentLifetimeDays, limits.minRejectDays),
+            consentLifetimeDays
+        );
+        return { consentLifetimeDays, rejectLifetimeDays };
+    },
+
+    /**
+     * Effective lifetimes served to the loader
+     */
+    async getEffective(websiteId: string): Promise<ConsentLifetime['effective']> {
+        const [settings, limits] = await Promise.all([
+            websiteRepository.findConsentLifetime(websiteId),
+            this.getLimits(),
+        ]);
+        return this.resolve(settings || { consentLifetimeDays: null, rejectLifetimeDays: null }, limits);
+    },
+
+    /**
+     * Settings, effective values and limits for the tenant dashboard
+     */
+    async get(websiteId: string, tenantId: string): Promise<ConsentLifetime> {
+        // Verify website ownership
+        const website = await websiteRepository.findByIdAndTenant(websiteId, tenantId);
+        if (!website) {
+            throw new Error('Website not found');
+        }
+
+        const [settings, limits] = await Promise.all([
+            websiteRepository.findConsentLifetime(websiteId),
+            this.getLimits(),
+        ]);
+        const current = settings || { consentLifetimeDays: null, rejectLifetimeDays: null };
+
+        return {
+            settings: current,
+            effective: this.resolve(current, limits),
+            limits,
+        };
+    },
+
+    /**
+     * Update the lifetimes of a website. Takes effect for visitors without
+     * publishing, like the website status.
+     */
+    async update(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        input: UpdateConsentLifetimeInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<ConsentLifetime> {
+        // Verify website ownership
+        const website = await websiteRepository.findByIdAndTenant(websiteId, tenantId);
+        if (!website) {
+            throw new Error('Website not found');
+        }
+
+        const limits = await this.getLimits();
+        if (input.consentLifetimeDays !== null && input.consentLifetimeDays > limits.maxDays) {
+            throw new ApiError(`Consent lifetime must not exceed ${limits.maxDays} days under the active global rules`, 400);
+        }
+        if (input.rejectLifetimeDays !== null && input.rejectLifetimeDays > limits.maxDays) {
+            throw new ApiError(`Reject lifetime must not exceed ${limits.maxDays} days under the active global rules`, 400);
+        }
+        if (input.rejectLifetimeDays !== null && input.rejectLifetimeDays < limits.minRejectDays) {
+            throw new ApiError(`Reject lifetime must be at least ${limits.minRejectDays} days under the active global rules`, 400);
+        }
+
+        const previous = await websiteRepository.findConsentLifetime(websiteId);
+        const settings = await websiteRepository.updateConsentLifetime(websiteId, input);
+        if (!settings) {
+            throw new Error('Website not found');
+        }
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'WEBSITE_CONSENT_LIFETIME_UPDATED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: {
+                    domain: website.domain,
+                    previous,
+                    consentLifetimeDays: settings.consentLifetimeDays,
+                    rejectLifetimeDays: settings.rejectLifetimeDays,
+                    rulesVersion: limits.rulesVersion,
+                },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        // The lifetime is merged into the config at serve time
+        await runtimeService.invalidate(websiteId);
+        await staticBundleService.refresh(websiteId);
+
+        return {
+            settings,
+            effective: this.resolve(settings, limits),
+            limits,
+        };
+    },
+};
@@ -0,0 +1,94 @@
+import { consentModeRepository, purposeRepository, websiteRepository, auditRepository } from '../repositories';
+import { ApiError } from '../middleware';
+import { WebsiteConsentMode } from '../types';
+import { UpdateConsentModeInput } from '../validators';
+
+/**
+ * Consent Mode Service.
+ * Maps purpose tags to Google Consent Mode v2 signals so gtag/GTM setups can
+ * stay loaded in a consent-aware state instead of being blocked outright.
+ */
+export const consentModeService = {
+    /**
+     * Get Consent Mode settings for a website.
+     * Returns disabled defaults if never configured.
+     */
+    async get(websiteId: string, tenantId: string): Promise<UpdateConsentModeInput> {
+        // Verify website ownership
+        const website = await websiteRepository.findByIdAndTenant(websiteId, tenantId);
+        if (!website) {
+            throw new Error('Website not found');
+        }
+
+        const settings = await consentModeRepository.findByWebsiteId(websiteId);
+        if (!settings) {
+            return {
+                enabled: false,
+                signalMapping: {},
+                waitForUpdateMs: 500,
+                adsDataRedaction: false,
+                urlPassthrough: false,
+            };
+        }
+
+        return {
+            enabled: settings.enabled,
+            signalMapping: settings.signalMapping,
+            waitForUpdateMs: settings.waitForUpdateMs,
+            adsDataRedaction: settings.adsDataRedaction,
+            urlPassthrough: settings.urlPassthrough,
+        };
+    },
+
+    /**
+     * Save Consent Mode settings. Saved to the draft; visitors see the
+     * change once the website configuration is published.
+     */
+    async update(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        input: UpdateConsentModeInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<WebsiteConsentMode> {
+        // Verify website ownership
+        const website = await websiteRepository.findByIdAndTenant(websiteId, tenantId);
+        if (!website) {
+            throw new Error('Website not found');
+        }
+
+        // Mapped tags must belong to this website's purposes
+        const tags = new Set((await purposeRepository.findByWebsiteId(websiteId)).map((p) => p.tag));
+        for (const purposeTags of Object.values(input.signalMapping)) {
+            for (const tag of purposeTags || []) {
+                if (!tags.has(tag)) {
+                    throw new ApiError(`Unknown purpose: ${tag}`, 400);
+                }
+            }
+        }
+
+        const existing = await consentModeRepository.findByWebsiteId(websiteId);
+        const settings = await consentModeRepository.upsert(websiteId, input);
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'CONSENT_MODE_UPDATED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: {
+                    previous: existing
+                        ? { enabled: existing.enabled, signalMapping: existing.signalMapping }
+                        : null,
+                    changes: input,
+                },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return settings;
+    },
+};
@@ -0,0 +1,274 @@
+import * as crypto from 'crypto';
+import { config } from '../config';
+import { consentRepository, websiteRepository } from '../repositories';
+import { ApiError } from '../middleware';
+import { runtimeService } from './runtime.service';
+import { webhookService } from './webhook.service';
+import {
+    ConsentRecord,
+    ConsentReceipt,
+    ConsentReceiptPayload,
+    VisitorConsentState,
+    VisitorPurposeConsent,
+    WebhookEventType,
+} from '../types';
+import { RecordConsentInput } from '../validators';
+import { canonicalJson } from '../utils/json';
+
+/**
+ * Consent Ledger Service.
+ * Records every visitor decision made through the loader as proof of consent.
+ * Records are append-only; a withdrawal is a new record, never an update.
+ */
+export const consentService = {
+    /**
+     * Record a consent decision for a website.
+     * Only ACTIVE websites accept records, and decisions may only reference
+     * purposes in the published configuration the visitor was shown.
+     * Essential purposes are always recorded as granted since they cannot
+     * be refused.
+     *
+     * A WITHDRAW withdraws the purposes set to false in decisions (or every
+     * purpose when decisions is empty); other purposes keep the visitor's
+     * previously recorded decision.
+     *
+     * Subscribed webhooks get consent.given for a visitor's first record,
+     * consent.withdrawn when a granted purpose is now denied, and
+     * consent.updated otherwise.
+     */
+    async record(
+        siteId: string,
+        input: RecordConsentInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<ConsentRecord> {
+        const website = await websiteRepository.findById(siteId);
+        if (!website || website.status !== 'ACTIVE') {
+            throw new Error('Website not found or not active');
+        }
+
+        const served = await runtimeService.getWebsiteConfig(siteId);
+        if (!served) {
+            throw new Error('Website not found or not active');
+        }
+        const purposes = served.purposes;
+        const purposeKeys = new Set(purposes.map((p) => p.key));
+
+        for (const key of Object.keys(input.decisions)) {
+            if (!purposeKeys.has(key)) {
+                throw new ApiError(`Unknown purpose: ${key}`, 400);
+            }
+        }
+
+        const previous = await consentRepository.findLatestByVisitor(siteId, input.visitorId);
+        const withdrawAll = Object.keys(input.decisions).length === 0;
+
+        const decisions: Record<string, boolean> = {};
+        for (const purpose of purposes) {
+            if (purpose.required) {
+                decisions[purpose.key] = true;
+            } else if (input.action === 'ACCEPT_ALL') {
+                decisions[purpose.key] = true;
+            } else if (input.action === 'REJECT_ALL') {
+                decisions[purpose.key] = false;
+            } else if (input.action === 'WITHDRAW') {
+                decisions[purpose.key] = withdrawAll || input.decisions[purpose.key] === false
+                    ? false
+                    : previous?.decisions[purpose.key] === true;
+            } else {
+                decisions[purpose.key] = input.decisions[purpose.key] === true;
+            }
+        }
+
+        const id = crypto.randomUUID();
+        const createdAt = new Date();
+        const receiptId = 'CR-' + crypto.randomBytes(8).toString('hex').toUpperCase();
+
+        const receiptPayload: ConsentReceiptPayload = {
+            receiptId,
+            websiteId: siteId,
+            domain: website.domain,
+            action: input.action,
+            granted: Object.keys(decisions).filter((tag) => decisions[tag]),
+            denied: Object.keys(decisions).filter((tag) => !decisions[tag]),
+            language: input.language,
+            noticeVersion: input.noticeVersion,
+            purposeVersions: input.purposeVersions,
+            configVersion: input.configVersion,
+            issuedAt: createdAt.toISOString(),
+        };
+
+        const record = await consentRepository.create({
+            id,
+            websiteId: siteId,
+            visitorId: input.visitorId,
+            action: input.action,
+            decisions,
+            languageCode: input.language,
+            noticeVersion: input.noticeVersion,
+            purposeVersions: input.purposeVersions,
+            configVersion: input.configVersion,
+            loaderVersion: input.loaderVersion,
+            bannerVariant: input.bannerVariant,
+            ipHash: requestInfo.ipAddress ? this.hashIp(requestInfo.ipAddress) : undefined,
+            userAgent: requestInfo.userAgent,
+            receiptId,
+            receiptPayload,
+            receiptSignature: this.signReceipt(receiptPayload),
+            createdAt,
+        });
+
+        await this.notify(website.tenantId, record, previous);
+        return record;
+    },
+
+    /**
+     * Queue the consent webhook of a new record
+     */
+    async notify(tenantId: string, record: ConsentRecord, previous: ConsentRecord | null): Promise<void> {
+        const withdrawn = previous
+            ? Object.keys(previous.decisions).filter((tag) => previous.decisions[tag] && record.decisions[tag] === false)
+            : [];
+        const type: WebhookEventType = record.action === 'WITHDRAW' || withdrawn.length > 0
+            ? 'consent.withdrawn'
+            : previous ? 'consent.updated' : 'consent.given';
+
+        await webhookService.dispatch(tenantId, record.websiteId, type, {
+            consentId: record.id,
+            receiptId: record.receiptId,
+            visitorId: record.visitorId,
+            action: record.action,
+            decisions: record.decisions,
+            withdrawn,
+            language: record.languageCode,
+            noticeVersion: record.noticeVersion,
+            configVersion: record.configVersion,
+            recordedAt: record.createdAt,
+        });
+    },
+
+    /**
+     * Current state and history of a visitor's consent on a website,
+     * for the hosted "My Consents" page.
+     */
+    async getVisitorState(siteId: string, visitorId: string, language?: string): Promise<VisitorConsentState> {
+        const website = await websiteRepository.findById(siteId);
+        if (!website || website.status !== 'ACTIVE') {
+            throw new Error('Website not found or not active');
+        }
+
+        const [served, records] = await Promise.all([
+            runtimeService.getWebsiteConfig(siteId),
+            consentRepository.findByVisitor(siteId, visitorId),
+        ]);
+        const runtimePurposes = served ? served.purposes : [];
+        const latest = records[records.length - 1];
+
+        const purposes: VisitorPurposeConsent[] = runtimePurposes.map((purpose) => {
+            const label = (language && purpose.labels[language]) || purpose.labels['en'] ||
+                { title: purpose.key, description: '' };
+            const granted = purpose.required || latest?.decisions[purpose.key] === true;
+
+            // Walk back to the first record of the current unbroken decision
+            let since: Date | undefined;
+            for (let i = records.length - 1; i >= 0; i--) {
+                if ((records[i].decisions[purpose.key] === true) !== granted) break;
+                since = records[i].createdAt;
+            }
+
+            return {
+                key: purpose.key,
+                title: label.title,
+                description: label.description,
+                required: purpose.required,
+                granted,
+                since,
+            };
+        });
+
+        return {
+            websiteId: website.id,
+            domain: website.domain,
+            visitorId,
+            purposes,
+            history: records
+                .map((record) => ({
+                    id: record.id,
+                    action: record.action,
+                    decisions: record.decisions,
+                    receiptId: record.receiptId,
+                    createdAt: record.createdAt,
+                }))
+                .reverse(),
+            updatedAt: latest?.createdAt,
+        };
+    },
+
+    /**
+     * Build the receipt handed back to the data principal.
+     */
+    toReceipt(record: ConsentRecord): ConsentReceipt {
+        if (!record.receiptId || !record.receiptPayload || !record.receiptSignature) {
+            throw new Error('Receipt not found');
+        }
+        return {
+            receiptId: record.receiptId,
+            algorithm: 'HMAC-SHA256',
+            payload: record.receiptPayload,
+            signature: record.receiptSignature,
+        };
+    },
+
+    /**
+     * Verify a receipt by ID.
+     * The stored payload is re-signed and compared with the stored signature,
+     * and with the signature held by the caller when one is supplied.
+     */
+    async verifyReceipt(
+        receiptId: string,
+        presentedSignature?: string
+    ): Promise<ConsentReceipt & { valid: boolean }> {
+        const record = await consentRepository.findByReceiptId(receiptId);
+        if (!record) {
+            throw new Error('Receipt not found');
+        }
+
+        const receipt = this.toReceipt(record);
+        const expected = this.signReceipt(receipt.payload);
+
+        let valid = this.signaturesMatch(expected, receipt.signature);
+        if (presentedSignature !== undefined) {
+            valid = valid && this.signaturesMatch(expected, presentedSignature);
+        }
+
+        return { ...receipt, valid };
+    },
+
+    /**
+     * Sign a receipt payload with the receipt key.
+     */
+    signReceipt(payload: ConsentReceiptPayload): string {
+        return crypto
+            .createHmac('sha256', config.consent.receiptSecret)
+            .update(canonicalJson(payload))
+            .digest('hex');
+    },
+
+    /**
+     * Constant-time comparison of two hex signatures.
+     */
+    signaturesMatch(a: string, b: string): boolean {
+        const bufA = Buffer.from(a, 'hex');
+        const bufB = Buffer.from(b, 'hex');
+        return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+    },
+
+    /**
+     * Hash a client IP so the ledger never stores the raw address.
+     */
+    hashIp(ipAddress: string): string {
+        return crypto
+            .createHmac('sha256', config.consent.ipHashSalt)
+            .update(ipAddress)
+            .digest('hex');
+    },
+};
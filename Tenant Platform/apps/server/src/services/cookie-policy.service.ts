@@ -0,0 +1,119 @@
+import { publishedConfigRepository, scanRepository, websiteRepository } from '../repositories';
+import { runtimeService, RuntimeCookie, RuntimeWebsiteConfig } from './runtime.service';
+import { CookiePolicy, CookiePolicyEntry, ScanItem } from '../types';
+import { wildcardMatch } from '../utils/trackers';
+
+/**
+ * Cookie Policy Service.
+ * Builds the public cookie declaration of a website from the configuration
+ * the loader is served: purposes, notice translations and declared cookies,
+ * completed with cookies from the latest scan that nothing declares yet.
+ * Derived on every request, so it follows each publish.
+ */
+export const cookiePolicyService = {
+    /**
+     * Get the cookie declaration of an ACTIVE website in a language.
+     * Unsupported languages fall back to the base language, then English.
+     */
+    async getPolicy(siteId: string, language?: string): Promise<CookiePolicy> {
+        const website = await websiteRepository.findById(siteId);
+        if (!website || website.status !== 'ACTIVE') {
+            throw new Error('Website not found or not active');
+        }
+
+        const [served, published, scan] = await Promise.all([
+            runtimeService.getWebsiteConfig(siteId),
+            publishedConfigRepository.findLatest(siteId),
+            scanRepository.findLatestCompleted(siteId),
+        ]);
+        if (!served) {
+            throw new Error('Website not found or not active');
+        }
+
+        const lang = this.resolveLanguage(served, language);
+        const notice = served.notice[lang] || served.notice['en'];
+        const declared = served.cookies || [];
+        const scanned = scan ? this.undeclaredScanItems(scan.items, declared) : [];
+
+        const purposes = [...served.purposes]
+            .sort((a, b) => a.displayOrder - b.displayOrder)
+            .map((purpose) => {
+                const label = purpose.labels[lang] || purpose.labels['en'];
+                const cookies: CookiePolicyEntry[] = [
+                    ...declared
+                        .filter((cookie) => cookie.purpose === purpose.key)
+                        .map((cookie) => ({
+                            name: cookie.name,
+                            type: cookie.type,
+                            provider: cookie.provider,
+                            duration: cookie.duration,
+                            description: cookie.description,
+                            source: 'declared' as const,
+                        })),
+                    ...scanned
+                        .filter((item) => item.suggestedPurpose === purpose.key)
+                        .map((item) => ({
+                            name: item.name,
+                            type: item.type === 'COOKIE' ? 'cookie' as const : 'localStorage' as const,
+                            provider: item.domain || null,
+                            duration: null,
+                            description: null,
+                            source: 'scanned' as const,
+                        })),
+                ];
+
+                return {
+                    key: purpose.key,
+                    title: label.title,
+                    description: label.description,
+                    required: purpose.required,
+                    cookies,
+                };
+            });
+
+        return {
+            websiteId: website.id,
+            domain: website.domain,
+            language: lang,
+            supportedLanguages: served.supportedLanguages,
+            title: notice.title,
+            description: notice.description,
+            ...(notice.policyLink ? { policyLink: notice.policyLink } : {}),
+            purposes,
+            scannedAt: scan && scanned.length > 0 ? scan.completedAt : null,
+            updatedAt: published ? published.publishedAt : null,
+        };
+    },
+
+    /**
+     * Pick the served language closest to the requested one
+     */
+    resolveLanguage(config: RuntimeWebsiteConfig, language?: string): string {
+        if (!language) {
+            return 'en';
+        }
+        const requested = language.toLowerCase();
+        const base = requested.split('-')[0];
+        return [requested, base].find((code) => config.supportedLanguages.includes(code)) || 'en';
+    },
+
+    /**
+     * Cookies and storage keys from a scan that no declaration covers,
+     * limited to those suggested for a purpose. Each name is listed once.
+     */
+    undeclaredScanItems(items: ScanItem[], declared: RuntimeCookie[]): ScanItem[] {
+        const seen = new Set<string>();
+        return items.filter((item) => {
+            if ((item.type !== 'COOKIE' && item.type !== 'LOCAL_STORAGE') || !item.suggestedPurpose) {
+                return false;
+            }
+            const type = item.type === 'COOKIE' ? 'cookie' : 'localStorage';
+            const key = `${type}:${item.name}`;
+            if (seen.has(key) || declared.some((cookie) => cookie.type === type && wildcardMatch(item.name, cookie.name))) {
+                return false;
+            }
+            seen.add(key);
+            return true;
+        });
+    },
+};
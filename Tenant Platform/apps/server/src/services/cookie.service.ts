@@ -0,0 +1,195 @@
+import { cookieRepository, purposeRepository, websiteRepository, auditRepository } from '../repositories';
+import { ApiError } from '../middleware';
+import { CookieDeclaration } from '../types';
+import { CookieDeclarationInput } from '../validators';
+
+/**
+ * Cookie Service.
+ * Declarations of the cookies and localStorage keys a website sets, by
+ * purpose. They feed the public cookie policy and, with cookie governance
+ * on, let the loader drop and purge storage of purposes not consented.
+ * Both are part of the draft and reach visitors once published.
+ */
+export const cookieService = {
+    async list(websiteId: string, tenantId: string): Promise<CookieDeclaration[]> {
+        await this.requireWebsite(websiteId, tenantId);
+        return cookieRepository.findByWebsiteId(websiteId);
+    },
+
+    async create(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        input: CookieDeclarationInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<CookieDeclaration> {
+        await this.requireWebsite(websiteId, tenantId);
+        const purposeId = await this.resolvePurpose(websiteId, input.purposeTag);
+
+        if (await cookieRepository.findByName(websiteId, input.storageType, input.name)) {
+            throw new ApiError(`${input.name} already exists`, 409);
+        }
+
+        const cookieId = await cookieRepository.create({
+            websiteId,
+            purposeId,
+            storageType: input.storageType,
+            name: input.name,
+            provider: input.provider,
+            duration: input.duration,
+            description: input.description,
+            createdBy: actorId,
+        });
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'COOKIE_DECLARED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: { cookieId, purposeTag: input.purposeTag, storageType: input.storageType, name: input.name },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return (await cookieRepository.findById(websiteId, cookieId)) as CookieDeclaration;
+    },
+
+    async update(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        cookieId: string,
+        input: CookieDeclarationInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<CookieDeclaration> {
+        await this.requireWebsite(websiteId, tenantId);
+
+        const existing = await cookieRepository.findById(websiteId, cookieId);
+        if (!existing) {
+            throw new Error('Cookie declaration not found');
+        }
+        const purposeId = await this.resolvePurpose(websiteId, input.purposeTag);
+
+        const duplicate = await cookieRepository.findByName(websiteId, input.storageType, input.name);
+        if (duplicate && duplicate.id !== cookieId) {
+            throw new ApiError(`${input.name} already exists`, 409);
+        }
+
+        await cookieRepository.update(cookieId, {
+            purposeId,
+            storageType: input.storageType,
+            name: input.name,
+            provider: input.provider,
+            duration: input.duration,
+            description: input.description,
+        });
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'COOKIE_DECLARATION_UPDATED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: {
+                    cookieId,
+                    previous: { purposeTag: existing.purposeTag, storageType: existing.storageType, name: existing.name },
+                    purposeTag: input.purposeTag,
+                    storageType: input.storageType,
+                    name: input.name,
+                },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return (await cookieRepository.findById(websiteId, cookieId)) as CookieDeclaration;
+    },
+
+    async delete(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        cookieId: string,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<void> {
+        await this.requireWebsite(websiteId, tenantId);
+
+        const existing = await cookieRepository.findById(websiteId, cookieId);
+        if (!existing || !(await cookieRepository.delete(websiteId, cookieId))) {
+            throw new Error('Cookie declaration not found');
+        }
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'COOKIE_DECLARATION_DELETED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: { cookieId, purposeTag: existing.purposeTag, storageType: existing.storageType, name: existing.name },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+    },
+
+    async getGovernance(websiteId: string, tenantId: string): Promise<{ enabled: boolean }> {
+        await this.requireWebsite(websiteId, tenantId);
+        return { enabled: await cookieRepository.findGovernance(websiteId) };
+    },
+
+    async updateGovernance(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        enabled: boolean,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<{ enabled: boolean }> {
+        const website = await this.requireWebsite(websiteId, tenantId);
+        const previous = await cookieRepository.findGovernance(websiteId);
+
+        await cookieRepository.updateGovernance(websiteId, enabled);
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'COOKIE_GOVERNANCE_UPDATED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: { domain: website.domain, previous, enabled },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return { enabled };
+    },
+
+    // Cookies can only be declared under the website's active purposes
+    async resolvePurpose(websiteId: string, tag: string): Promise<string> {
+        const purpose = (await purposeRepository.findByWebsiteId(websiteId))
+            .find((p) => p.tag === tag && p.status === 'ACTIVE');
+        if (!purpose) {
+            throw new ApiError(`Unknown purpose: ${tag}`, 400);
+        }
+        return purpose.id;
+    },
+
+    async requireWebsite(websiteId: string, tenantId: string) {
+        // Verify website ownership
+        const website = await websiteRepository.findByIdAndTenant(websiteId, tenantId);
+        if (!website) {
+            throw new Error('Website not found');
+        }
+        return website;
+    },
+};
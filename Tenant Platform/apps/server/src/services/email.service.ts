@@ -0,0 +1,179 @@
+/**
+ * Email Service for the Tenant Platform
+ *
+ * PURPOSE:
+ * - Send verification emails to data principals who submit rights requests
+ * - Handle email delivery with fallback to a file outbox or console logging
+ *
+ * SECURITY:
+ * - Credentials from environment variables only
+ * - No tracking pixels or external assets
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import nodemailer from 'nodemailer';
+import { config } from '../config';
+import { escapeHtml } from '../utils/html';
+
+// Create transporter (lazy initialization)
+let transporter: nodemailer.Transporter | null = null;
+
+function getTransporter(): nodemailer.Transporter | null {
+    if (!config.email.user || !config.email.pass) {
+        return null;
+    }
+
+    if (!transporter) {
+        transporter = nodemailer.createTransport({
+            host: config.email.host,
+            port: config.email.port,
+            secure: config.email.secure,
+            auth: {
+                user: config.email.user,
+                pass: config.email.pass,
+            },
+        });
+    }
+
+    return transporter;
+}
+
+export interface EmailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html: string;
+}
+
+export interface RightsRequestVerificationPayload {
+    to: string;
+    requestNumber: string;
+    requestType: string;
+    domain: string;
+    code: string;
+    verifyUrl: string;
+    expiresAt: Date;
+}
+
+/**
+ * Fallback for local runs: write to EMAIL_OUTBOX_DIR when set, otherwise the console.
+ */
+function deliverLocally(message: EmailMessage, reason: string): void {
+    if (config.email.outboxDir) {
+        try {
+            fs.mkdirSync(config.email.outboxDir, { recursive: true });
+            const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.txt`;
+            fs.writeFileSync(
+                path.join(config.email.outboxDir, fileName),
+                `TO: ${message.to}\nSUBJECT: ${message.subject}\n\n${message.text}`
+            );
+            console.log(`[EMAIL - ${reason}] Written to ${path.join(config.email.outboxDir, fileName)}`);
+            return;
+        } catch (error) {
+            console.error('[EMAIL ERROR] Cannot write to outbox:', error);
+        }
+    }
+
+    console.log('\n' + '='.repeat(60));
+    console.log(`[EMAIL - ${reason}]`);
+    console.log('='.repeat(60));
+    console.log(`TO: ${message.to}`);
+    console.log(`SUBJECT: ${message.subject}`);
+    console.log('-'.repeat(60));
+    console.log(message.text);
+    console.log('='.repeat(60) + '\n');
+}
+
+export const emailService = {
+    /**
+     * Send an email. Returns false only when SMTP delivery was attempted and failed.
+     */
+    async send(message: EmailMessage): Promise<boolean> {
+        const transport = getTransporter();
+
+        if (!transport) {
+            deliverLocally(message, 'CONSOLE FALLBACK');
+            return true; // Consider local delivery as "sent" for dev purposes
+        }
+
+        try {
+            const info = await transport.sendMail({
+                from: config.email.from,
+                to: message.to,
+                subject: message.subject,
+                text: message.text,
+                html: message.html,
+            });
+            console.log(`[EMAIL] Sent to ${message.to}: ${info.messageId}`);
+            return true;
+        } catch (error) {
+            console.error(`[EMAIL ERROR] Failed to send to ${message.to}:`, error);
+            deliverLocally(message, 'FALLBACK DUE TO ERROR');
+            return false;
+        }
+    },
+
+    /**
+     * Send the one-time code and verification link for a rights request.
+     *
+     * DOES NOT INCLUDE:
+     * - The request description or any personal data submitted
+     * - Tracking pixels
+     */
+    async sendRightsRequestVerification(payload: RightsRequestVerificationPayload): Promise<boolean> {
+        const { to, requestNumber, requestType, domain, code, verifyUrl, expiresAt } = payload;
+
+        const subject = `Confirm your data request ${requestNumber} for ${domain}`;
+        const expiry = expiresAt.toUTCString();
+
+        const html = `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+        .content { background: #f9f9f9; padding: 20px; border: 1px solid #ddd; border-radius: 8px; }
+        .code { font-family: monospace; font-size: 28px; letter-spacing: 6px; background: #fff; border: 1px solid #e0e0e0; border-radius: 4px; padding: 12px; text-align: center; margin: 15px 0; }
+        .button { display: inline-block; background: #0066CC; color: #fff; padding: 10px 18px; border-radius: 6px; text-decoration: none; }
+        .footer { font-size: 12px; color: #666; margin-top: 20px; padding-top: 15px; border-top: 1px solid #ddd; }
+    </style>
+</head>
+<body>
+    <div class="content">
+        <p>Hello,</p>
+        <p>We received a <strong>${escapeHtml(requestType)}</strong> request from this email address on <strong>${escapeHtml(domain)}</strong> (reference <strong>${escapeHtml(requestNumber)}</strong>).</p>
+        <p>To confirm it was you, enter this code in the form:</p>
+        <div class="code">${escapeHtml(code)}</div>
+        <p>Or confirm with this link:</p>
+        <p><a class="button" href="${escapeHtml(verifyUrl)}">Confirm my request</a></p>
+        <p>This code expires on ${escapeHtml(expiry)}. If you did not make this request, ignore this email and it will not be processed.</p>
+        <div class="footer">
+            <p>This is an automated message. Please do not reply to this email.</p>
+        </div>
+    </div>
+</body>
+</html>
+`;
+
+        const text = `
+Confirm your data request
+=========================
+
+We received a ${requestType} request from this email address on ${domain} (reference ${requestNumber}).
+
+To confirm it was you, enter this code in the form: ${code}
+
+Or confirm with this link:
+${verifyUrl}
+
+This code expires on ${expiry}. If you did not make this request, ignore this email and it will not be processed.
+
+---
+This is an automated message. Please do not reply to this email.
+`;
+
+        return this.send({ to, subject, text, html });
+    },
+};
@@ -3,6 +3,28 @@ export * from './website.service';
 export * from './notice.service';
 export * from './purpose.service';
 export * from './banner.service';
+export * from './banner-variant.service';
+export * from './consent-mode.service';
+export * from './tcf.service';
+export * from './scanner.service';
+export * from './scan.service';
+export * from './tracker.service';
+export * from './blocking-rule.service';
+export * from './cookie.service';
+export * from './cookie-policy.service';
 export * from './audit.service';
 export * from './language.service';
 export * from './runtime.service';
+export * from './loader.service';
+export * from './static-bundle.service';
+export * from './consent.service';
+export * from './analytics.service';
+export * from './telemetry.service';
+export * from './config-version.service';
+export * from './consent-lifetime.service';
+export * from './origin.service';
+export * from './rate-limit.service';
+export * from './publish.service';
+export * from './rights-request.service';
+export * from './email.service';
+export * from './webhook.service';
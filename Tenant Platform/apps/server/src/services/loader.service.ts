@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../config';
+import { toScriptJson } from '../utils/html';
+import { RuntimeBlockingRule, RuntimeConsentMode, RuntimeCookie, RuntimeTracker, RuntimeWebsiteConfig } from './runtime.service';
+
+/**
+ * Per-site settings the loader needs before its config fetch returns,
+ * written in front of the shared bundle as window.__complyarkBootstrap
+ */
+export interface LoaderBootstrap {
+    siteId: string;
+    apiBase: string;
+    telemetrySampleRate: number;
+    tcf: { enabled: boolean; cmpId: number; cmpVersion: number };
+    consentMode: RuntimeConsentMode | null;
+    trackers: RuntimeTracker[];
+    blockingRules: RuntimeBlockingRule[];
+    cookieRules: Array<Pick<RuntimeCookie, 'name' | 'purpose' | 'type'>>;
+    // Static publishing: the config itself, or where to fetch it
+    config?: RuntimeWebsiteConfig;
+    configUrl?: string;
+}
+
+export interface LoaderBundle {
+    version: string;
+    file: string;
+    hash: string;
+    code: string;
+}
+
+interface LoaderManifest {
+    version: string;
+    file: string;
+    hash: string;
+}
+
+// The bundle never changes while the server runs
+let cachedBundle: LoaderBundle | null = null;
+
+export const loaderService = {
+    /**
+     * The loader built from packages/loader, read from the bundle directory
+     * named in its manifest.json
+     */
+    getBundle(): LoaderBundle {
+        if (cachedBundle) return cachedBundle;
+
+        const bundleDir = config.loader.bundleDir;
+        let manifest: LoaderManifest;
+        try {
+            manifest = JSON.parse(fs.readFileSync(path.join(bundleDir, 'manifest.json'), 'utf8'));
+        } catch {
+            throw new Error(`Loader bundle is missing from ${bundleDir}; build packages/loader first`);
+        }
+
+        cachedBundle = {
+            version: manifest.version,
+            file: manifest.file,
+            hash: manifest.hash,
+            code: fs.readFileSync(path.join(bundleDir, manifest.file), 'utf8'),
+        };
+        return cachedBundle;
+    },
+
+    /**
+     * Consent Mode defaults, the TCF/GPP APIs, auto-blocking and cookie
+     * governance must be in place before any vendor tag runs, so the
+     * published settings go in the bootstrap instead of waiting for the
+     * config fetch. Without a config the loader still starts and fails
+     * closed on the fetch.
+     */
+    buildBootstrap(siteId: string, apiBase: string, website: RuntimeWebsiteConfig | null): LoaderBootstrap {
+        let cookieRules: LoaderBootstrap['cookieRules'] = [];
+        if (website?.cookieGovernance) {
+            // Storage of essential purposes is never blocked or purged
+            const essential = new Set(website.purposes.filter((p) => p.required).map((p) => p.key));
+            cookieRules = (website.cookies || [])
+                .filter((cookie) => !essential.has(cookie.purpose))
+                .map(({ name, purpose, type }) => ({ name, purpose, type }));
+        }
+
+        return {
+            siteId,
+            apiBase,
+            telemetrySampleRate: config.telemetry.sampleRate,
+            tcf: { enabled: !!website?.tcf, cmpId: config.tcf.cmpId, cmpVersion: config.tcf.cmpVersion },
+            consentMode: website?.consentMode || null,
+            trackers: website?.trackers || [],
+            blockingRules: website?.blockingRules || [],
+            cookieRules,
+        };
+    },
+
+    /**
+     * The script served to a website: its bootstrap settings, then the bundle
+     */
+    render(bootstrap: LoaderBootstrap): string {
+        const bundle = this.getBundle();
+        return `window.__complyarkBootstrap = ${toScriptJson(bootstrap)};\n${bundle.code}\n`;
+    },
+};
@@ -1,6 +1,8 @@
 import { noticeRepository, websiteRepository, auditRepository } from '../repositories';
-import { WebsiteNoticeWithTranslations, NoticeTranslation } from '../types';
+import { WebsiteNoticeWithTranslations, NoticeTranslation, ConfigChangeType } from '../types';
 import { CreateNoticeInput, NoticeTranslationInput } from '../validators';
+import { configVersionService } from './config-version.service';
+import { runtimeService } from './runtime.service';
 
 /**
  * Notice Service.
@@ -53,6 +55,9 @@ export const noticeService = {
             }
         );
 
+        await configVersionService.recordChange(websiteId, tenantId, actorId, 'MATERIAL', requestInfo);
+        await runtimeService.invalidate(websiteId);
+
         return notice;
     },
 
@@ -80,7 +85,8 @@ export const noticeService = {
         tenantId: string,
         actorId: string,
         translation: NoticeTranslationInput,
-        requestInfo: { ipAddress?: string; userAgent?: string }
+        requestInfo: { ipAddress?: string; userAgent?: string },
+        changeType: ConfigChangeType = 'MATERIAL'
     ): Promise<NoticeTranslation> {
         // Find notice and verify ownership
         const notice = await noticeRepository.findById(noticeId);
@@ -113,6 +119,9 @@ export const noticeService = {
             }
         );
 
+        await configVersionService.recordChange(notice.websiteId, tenantId, actorId, changeType, requestInfo);
+        await runtimeService.invalidate(notice.websiteId);
+
         return result;
     },
 
@@ -125,7 +134,8 @@ export const noticeService = {
         actorId: string,
         translations: NoticeTranslationInput[],
         dpoEmail: string | undefined, // Added dpoEmail
-        requestInfo: { ipAddress?: string; userAgent?: string }
+        requestInfo: { ipAddress?: string; userAgent?: string },
+        changeType: ConfigChangeType = 'MATERIAL'
     ): Promise<NoticeTranslation[]> {
         // Find notice and verify ownership
         const notice = await noticeRepository.findById(noticeId);
@@ -176,6 +186,9 @@ export const noticeService = {
             }
         );
 
+        await configVersionService.recordChange(notice.websiteId, tenantId, actorId, changeType, requestInfo);
+        await runtimeService.invalidate(notice.websiteId);
+
         return results;
     },
 
@@ -224,6 +237,10 @@ export const noticeService = {
                 userAgent: requestInfo.userAgent,
             }
         );
+
+        // English always remains, so dropping a translation never needs re-consent
+        await configVersionService.recordChange(notice.websiteId, tenantId, actorId, 'MINOR', requestInfo);
+        await runtimeService.invalidate(notice.websiteId);
     },
 
     /**
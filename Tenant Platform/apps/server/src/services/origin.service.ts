@@ -0,0 +1,209 @@
+import { config } from '../config';
+import { websiteRepository, auditRepository, securityEventRepository, SecurityEventCount } from '../repositories';
+import { OriginSettings, SecurityEvent } from '../types';
+import { UpdateOriginSettingsInput } from '../validators';
+import { isOriginAllowed, originHost } from '../utils/origin';
+import { runtimeService } from './runtime.service';
+
+const toDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Rejections counted since the last flush, keyed by website, origin, endpoint and day
+const pending = new Map<string, SecurityEventCount>();
+
+// Domains of a website and how calls from other hosts are treated
+export interface WebsiteOrigins {
+    domain: string;
+    settings: OriginSettings;
+    enforcement: typeof config.runtimeOrigins.mode;
+}
+
+export interface OriginCheck {
+    // Whether the call may proceed; always true outside enforce mode
+    allowed: boolean;
+    // Whether the calling host is on the website's lists
+    matched: boolean;
+    // Host of the Origin or Referer header, if any
+    host: string | null;
+}
+
+/**
+ * Origin Service.
+ * Restricts the public runtime API of a website to the hosts it is embedded
+ * on: its registered domain, its allowed domains and its test domains.
+ * Rejected calls are counted as security events the tenant can review.
+ */
+export const originService = {
+    /**
+     * Allowed and test domains of a website, for the tenant dashboard
+     */
+    async get(websiteId: string, tenantId: string): Promise<WebsiteOrigins> {
+        // Verify website ownership
+        const website = await websiteRepository.findByIdAndTenant(websiteId, tenantId);
+        if (!website) {
+            throw new Error('Website not found');
+        }
+
+        const settings = await websiteRepository.findOriginSettings(websiteId);
+        return {
+            domain: website.domain,
+            settings: settings || { allowedDomains: [], testDomains: [] },
+            enforcement: config.runtimeOrigins.mode,
+        };
+    },
+
+    /**
+     * Replace the allowed and test domains of a website. Takes effect for
+     * visitors without publishing, like the website status.
+     */
+    async update(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        input: UpdateOriginSettingsInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<WebsiteOrigins> {
+        // Verify website ownership
+        const website = await websiteRepository.findByIdAndTenant(websiteId, tenantId);
+        if (!website) {
+            throw new Error('Website not found');
+        }
+
+        const previous = await websiteRepository.findOriginSettings(websiteId);
+        const settings = await websiteRepository.updateOriginSettings(websiteId, input);
+        if (!settings) {
+            throw new Error('Website not found');
+        }
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'WEBSITE_ORIGINS_UPDATED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: {
+                    domain: website.domain,
+                    previous,
+                    allowedDomains: settings.allowedDomains,
+                    testDomains: settings.testDomains,
+                },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        // The origin policy is cached with the runtime config
+        await runtimeService.invalidate(websiteId);
+
+        return { domain: website.domain, settings, enforcement: config.runtimeOrigins.mode };
+    },
+
+    /**
+     * Check a call to the runtime API of a website against its domains.
+     * The host is taken from the Origin header, or the Referer when the
+     * browser sent no Origin. Calls from this server's own pages (the hosted
+     * consent pages) are always allowed, and so are calls for websites that
+     * are not served, which the route answers with a 404.
+     */
+    async check(
+        siteId: string,
+        headers: { origin?: string; referer?: string; host?: string }
+    ): Promise<OriginCheck> {
+        const host = originHost(headers.origin) || originHost(headers.referer);
+        if (config.runtimeOrigins.mode === 'off') {
+            return { allowed: true, matched: true, host };
+        }
+        if (host && headers.host && host === headers.host.toLowerCase()) {
+            return { allowed: true, matched: true, host };
+        }
+
+        const policy = await runtimeService.getOriginPolicy(siteId);
+        const matched = !policy || (host !== null && isOriginAllowed(host, policy));
+
+        return { allowed: matched || config.runtimeOrigins.mode === 'report', matched, host };
+    },
+
+    /**
+     * Count a rejected call. Counts are held in memory and written by flush(),
+     * so a flood costs no database writes per request.
+     */
+    recordRejection(siteId: string, host: string | null, endpoint: string, now: number = Date.now()): void {
+        const origin = (host || '').slice(0, 255);
+        const day = toDay(now);
+        const key = `${siteId}|${origin}|${endpoint}|${day}`;
+
+        const current = pending.get(key);
+        if (current) {
+            current.attempts++;
+            current.lastSeenAt = new Date(now);
+            return;
+        }
+        // Past the cap, new origins wait for the next flush; known ones keep counting
+        if (pending.size >= config.runtimeOrigins.maxPendingKeys) {
+            return;
+        }
+        pending.set(key, {
+            websiteId: siteId,
+            eventType: 'ORIGIN_REJECTED',
+            origin,
+            endpoint,
+            day,
+            attempts: 1,
+            firstSeenAt: new Date(now),
+            lastSeenAt: new Date(now),
+        });
+    },
+
+    /**
+     * Write the counted rejections. Returns how many rows were written.
+     */
+    async flush(): Promise<number> {
+        if (pending.size === 0) {
+            return 0;
+        }
+
+        const counts = Array.from(pending.values());
+        pending.clear();
+        try {
+            await securityEventRepository.addCounts(counts);
+        } catch (error) {
+            // Put the counts back, merged with those made meanwhile
+            for (const count of counts) {
+                const key = `${count.websiteId}|${count.origin}|${count.endpoint}|${count.day}`;
+                const current = pending.get(key);
+                if (current) {
+                    current.attempts += count.attempts;
+                    current.firstSeenAt = count.firstSeenAt;
+                } else if (pending.size < config.runtimeOrigins.maxPendingKeys) {
+                    pending.set(key, count);
+                }
+            }
+            throw error;
+        }
+        return counts.length;
+    },
+
+    /**
+     * Security events of a website over the last days, most recent first
+     */
+    async listEvents(websiteId: string, tenantId: string, days: number): Promise<SecurityEvent[]> {
+        // Verify website ownership
+        const website = await websiteRepository.findByIdAndTenant(websiteId, tenantId);
+        if (!website) {
+            throw new Error('Website not found');
+        }
+
+        const since = toDay(Date.now() - (days - 1) * 24 * 60 * 60 * 1000);
+        return securityEventRepository.findByWebsiteId(websiteId, since, 200);
+    },
+
+    /**
+     * Delete security events past retention. Returns how many were deleted.
+     */
+    async prune(): Promise<number> {
+        return securityEventRepository.deleteBefore(
+            toDay(Date.now() - config.runtimeOrigins.retentionDays * 24 * 60 * 60 * 1000)
+        );
+    },
+};
@@ -0,0 +1,393 @@
+import * as crypto from 'crypto';
+import { publishedConfigRepository, websiteRepository, auditRepository, NewPublishedConfig } from '../repositories';
+import { ApiError } from '../middleware';
+import { runtimeService, RuntimeWebsiteConfig } from './runtime.service';
+import { webhookService } from './webhook.service';
+import { staticBundleService } from './static-bundle.service';
+import {
+    PublishedConfig,
+    PublishedConfigSummary,
+    PublishStatus,
+    ConfigDiffEntry,
+} from '../types';
+import { PublishConfigInput } from '../validators';
+import { canonicalJson } from '../utils/json';
+import { escapeHtml, toScriptJson } from '../utils/html';
+
+/**
+ * Flatten the visitor-facing part of a config into dotted paths.
+ * Version stamps are left out so re-saving identical content is not a change,
+ * and purposes are keyed by tag so reordering reads as a displayOrder change.
+ */
+function flattenContent(config: RuntimeWebsiteConfig): Map<string, unknown> {
+    const content = {
+        defaultLanguage: config.defaultLanguage,
+        supportedLanguages: config.supportedLanguages,
+        notice: config.notice,
+        purposes: Object.fromEntries(config.purposes.map((purpose) => [purpose.key, {
+            required: purpose.required,
+            displayOrder: purpose.displayOrder,
+            labels: purpose.labels,
+            tcfPurposes: purpose.tcfPurposes,
+            tcfSpecialFeatures: purpose.tcfSpecialFeatures,
+        }])),
+        banner: config.banner,
+        // Banner variants keyed by id
+        bannerVariants: config.bannerVariants && Object.fromEntries(
+            config.bannerVariants.map(({ id, ...variant }) => [id, variant])
+        ),
+        consentMode: config.consentMode,
+        // Vendors keyed by id so the diff names the vendor that changed
+        tcf: config.tcf && {
+            ...config.tcf,
+            vendors: Object.fromEntries(config.tcf.vendors.map((vendor) => [vendor.id, vendor])),
+        },
+        // Adopted trackers keyed by name
+        trackers: config.trackers && Object.fromEntries(config.trackers.map(({ name, ...tracker }) => [name, tracker])),
+        // Blocking rules keyed by what they match
+        blockingRules: config.blockingRules && Object.fromEntries(
+            config.blockingRules.map((rule) => [`${rule.type}:${rule.pattern}`, rule.purpose])
+        ),
+        // Declared cookies keyed by storage and name
+        cookies: config.cookies && Object.fromEntries(
+            config.cookies.map(({ type, name, ...cookie }) => [`${type}:${name}`, cookie])
+        ),
+        cookieGovernance: config.cookieGovernance,
+    };
+
+    const paths = new Map<string, unknown>();
+    const walk = (value: unknown, path: string) => {
+        if (value === null || value === undefined) {
+            return;
+        }
+        if (typeof value === 'object' && !Array.isArray(value)) {
+            const obj = value as Record<string, unknown>;
+            for (const key of Object.keys(obj)) {
+                walk(obj[key], path ? `${path}.${key}` : key);
+            }
+            return;
+        }
+        paths.set(path, value);
+    };
+    walk(content, '');
+    return paths;
+}
+
+function hashContent(config: RuntimeWebsiteConfig): string {
+    return crypto
+        .createHash('sha256')
+        .update(canonicalJson(Object.fromEntries(flattenContent(config))))
+        .digest('hex');
+}
+
+function diffConfigs(live: RuntimeWebsiteConfig | null, draft: RuntimeWebsiteConfig): ConfigDiffEntry[] {
+    const livePaths = live ? flattenContent(live) : new Map<string, unknown>();
+    const draftPaths = flattenContent(draft);
+    const allPaths = Array.from(new Set([...livePaths.keys(), ...draftPaths.keys()])).sort();
+
+    const changes: ConfigDiffEntry[] = [];
+    for (const path of allPaths) {
+        const inLive = livePaths.has(path);
+        const inDraft = draftPaths.has(path);
+        if (!inLive) {
+            changes.push({ path, change: 'ADDED', draft: draftPaths.get(path) });
+        } else if (!inDraft) {
+            changes.push({ path, change: 'REMOVED', live: livePaths.get(path) });
+        } else if (JSON.stringify(livePaths.get(path)) !== JSON.stringify(draftPaths.get(path))) {
+            changes.push({ path, change: 'CHANGED', live: livePaths.get(path), draft: draftPaths.get(path) });
+        }
+    }
+    return changes;
+}
+
+function toSummary(published: PublishedConfig): PublishedConfigSummary {
+    const { config, ...summary } = published;
+    return summary;
+}
+
+/**
+ * Publish Service.
+ * The notice, purpose and banner tables are the draft; the runtime endpoint
+ * serves the latest snapshot in published_configs.
+ */
+export const publishService = {
+    /**
+     * Live version and whether the draft differs from it
+     */
+    async getStatus(websiteId: string, tenantId: string): Promise<PublishStatus> {
+        await this.requireWebsite(websiteId, tenantId);
+
+        const [live, draft] = await Promise.all([
+            publishedConfigRepository.findLatest(websiteId),
+            runtimeService.buildWebsiteConfig(websiteId),
+        ]);
+        const draftHash = draft ? hashContent(draft) : null;
+
+        return {
+            live: live ? toSummary(live) : null,
+            draftHash,
+            hasUnpublishedChanges: !live || draftHash !== live.contentHash,
+        };
+    },
+
+    /**
+     * Changes between the live configuration and the draft
+     */
+    async diff(websiteId: string, tenantId: string): Promise<{
+        liveVersion: number | null;
+        changes: ConfigDiffEntry[];
+    }> {
+        await this.requireWebsite(websiteId, tenantId);
+
+        const [live, draft] = await Promise.all([
+            publishedConfigRepository.findLatest(websiteId),
+            this.buildDraft(websiteId),
+        ]);
+
+        return {
+            liveVersion: live ? live.version : null,
+            changes: diffConfigs(live ? live.config : null, draft),
+        };
+    },
+
+    /**
+     * HTML page running the real loader against the draft configuration.
+     * The loader skips the consent ledger and stored consent in preview mode.
+     */
+    async getPreviewHtml(websiteId: string, tenantId: string, baseUrl: string): Promise<string> {
+        const website = await this.requireWebsite(websiteId, tenantId);
+        const draft = await this.buildDraft(websiteId);
+
+        return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <meta name="robots" content="noindex">
+    <title>Draft preview – ${escapeHtml(website.domain)}</title>
+    <style>
+        body { font-family: Arial, sans-serif; color: #333; margin: 0; padding: 24px; background: #f9fafb; }
+        .preview-note { font-size: 13px; color: #92400e; background: #fef3c7; border: 1px solid #fde68a; border-radius: 6px; padding: 8px 12px; display: inline-block; }
+    </style>
+</head>
+<body>
+    <p class="preview-note">Draft preview for ${escapeHtml(website.domain)}. Choices made here are not recorded.</p>
+    <script>window.__complyarkPreviewConfig = ${toScriptJson(draft)};</script>
+    <script src="${escapeHtml(baseUrl)}/public/loader.js?id=${encodeURIComponent(websiteId)}"></script>
+</body>
+</html>`;
+    },
+
+    /**
+     * Snapshot the draft into published_configs
+     */
+    async publish(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        input: PublishConfigInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<PublishedConfigSummary> {
+        await this.requireWebsite(websiteId, tenantId);
+
+        const draft = await this.buildDraft(websiteId);
+        const contentHash = hashContent(draft);
+
+        const live = await publishedConfigRepository.findLatest(websiteId);
+        if (live && live.contentHash === contentHash) {
+            throw new ApiError('There are no unpublished changes', 409);
+        }
+
+        const published = await publishedConfigRepository.create({
+            websiteId,
+            config: draft,
+            contentHash,
+            configVersion: draft.configVersion || undefined,
+            note: input.note,
+            publishedBy: actorId,
+        });
+        await this.recordPublished(tenantId, actorId, published, live, requestInfo);
+        await runtimeService.invalidate(websiteId);
+        await staticBundleService.refresh(websiteId);
+
+        return toSummary(published);
+    },
+
+    /**
+     * The draft as a version to publish, for publishing it together with
+     * another change (see websiteService.updateStatus)
+     */
+    async buildFirstPublish(websiteId: string, actorId: string, note: string): Promise<NewPublishedConfig> {
+        const draft = await this.buildDraft(websiteId);
+        return {
+            websiteId,
+            config: draft,
+            contentHash: hashContent(draft),
+            configVersion: draft.configVersion || undefined,
+            note,
+            publishedBy: actorId,
+        };
+    },
+
+    /**
+     * Audit log and webhook of a new published version
+     */
+    async recordPublished(
+        tenantId: string,
+        actorId: string,
+        published: PublishedConfig,
+        live: PublishedConfig | null,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<void> {
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'CONFIG_PUBLISHED',
+            {
+                resourceType: 'website',
+                resourceId: published.websiteId,
+                metadata: {
+                    version: published.version,
+                    previousVersion: live ? live.version : null,
+                    contentHash: published.contentHash,
+                    configVersion: published.config.configVersion,
+                    changes: diffConfigs(live ? live.config : null, published.config).length,
+                    note: published.note,
+                },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        await webhookService.dispatch(tenantId, published.websiteId, 'website.published', {
+            version: published.version,
+            previousVersion: live ? live.version : null,
+            rolledBackFrom: null,
+            configVersion: published.configVersion,
+            contentHash: published.contentHash,
+            publishedAt: published.publishedAt,
+        });
+    },
+
+    /**
+     * Publish the live tables of ACTIVE websites that have never been
+     * published, which the runtime endpoint would otherwise not serve.
+     * Covers websites activated before publishing existed. Run on startup.
+     * Returns the number of websites published.
+     */
+    async publishUnpublishedActive(): Promise<number> {
+        const siteIds = await publishedConfigRepository.findUnpublishedActiveWebsiteIds();
+        let published = 0;
+        for (const siteId of siteIds) {
+            const config = await runtimeService.buildWebsiteConfig(siteId);
+            if (!config) {
+                console.warn(`[Publish] Website ${siteId} is ACTIVE but its configuration is incomplete; not published`);
+                continue;
+            }
+            await publishedConfigRepository.create({
+                websiteId: siteId,
+                config,
+                contentHash: hashContent(config),
+                configVersion: config.configVersion || undefined,
+                note: 'Published on upgrade',
+            });
+            await runtimeService.invalidate(siteId);
+            await staticBundleService.refresh(siteId);
+            published++;
+        }
+        return published;
+    },
+
+    /**
+     * Make an earlier published version live again.
+     * The snapshot is re-published as a new version; the draft is untouched.
+     */
+    async rollback(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        version: number,
+        input: PublishConfigInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<PublishedConfigSummary> {
+        await this.requireWebsite(websiteId, tenantId);
+
+        const target = await publishedConfigRepository.findByVersion(websiteId, version);
+        if (!target) {
+            throw new Error('Published version not found');
+        }
+
+        const live = await publishedConfigRepository.findLatest(websiteId);
+        if (live && live.version === target.version) {
+            throw new ApiError('This version is already live', 409);
+        }
+
+        const published = await publishedConfigRepository.create({
+            websiteId,
+            config: target.config,
+            contentHash: target.contentHash,
+            configVersion: target.configVersion,
+            rolledBackFrom: target.version,
+            note: input.note,
+            publishedBy: actorId,
+        });
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'CONFIG_ROLLED_BACK',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: {
+                    version: published.version,
+                    restoredVersion: target.version,
+                    previousVersion: live ? live.version : null,
+                    contentHash: target.contentHash,
+                    note: input.note,
+                },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        await webhookService.dispatch(tenantId, websiteId, 'website.published', {
+            version: published.version,
+            previousVersion: live ? live.version : null,
+            rolledBackFrom: target.version,
+            configVersion: published.configVersion,
+            contentHash: target.contentHash,
+            publishedAt: published.publishedAt,
+        });
+        await runtimeService.invalidate(websiteId);
+        await staticBundleService.refresh(websiteId);
+
+        return toSummary(published);
+    },
+
+    /**
+     * Published versions, newest first
+     */
+    async list(websiteId: string, tenantId: string): Promise<PublishedConfigSummary[]> {
+        await this.requireWebsite(websiteId, tenantId);
+        return publishedConfigRepository.findByWebsiteId(websiteId);
+    },
+
+    async requireWebsite(websiteId: string, tenantId: string) {
+        // Verify website ownership
+        const website = await websiteRepository.findByIdAndTenant(websiteId, tenantId);
+        if (!website) {
+            throw new Error('Website not found');
+        }
+        return website;
+    },
+
+    async buildDraft(websiteId: string): Promise<RuntimeWebsiteConfig> {
+        const draft = await runtimeService.buildWebsiteConfig(websiteId);
+        if (!draft) {
+            throw new ApiError('The draft is incomplete: an English notice and English labels for every purpose are required', 400);
+        }
+        return draft;
+    },
+};
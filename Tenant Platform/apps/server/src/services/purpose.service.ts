@@ -1,6 +1,8 @@
 import { purposeRepository, websiteRepository, auditRepository } from '../repositories';
-import { PurposeWithTranslations, Purpose, PurposeTranslation } from '../types';
+import { PurposeWithTranslations, Purpose, PurposeTranslation, ConfigChangeType } from '../types';
 import { CreatePurposeInput, UpdatePurposeInput, PurposeTranslationInput } from '../validators';
+import { configVersionService } from './config-version.service';
+import { runtimeService } from './runtime.service';
 
 /**
  * Purpose Service.
@@ -45,6 +47,9 @@ export const purposeService = {
             }
         );
 
+        await configVersionService.recordChange(websiteId, tenantId, actorId, 'MATERIAL', requestInfo);
+        await runtimeService.invalidate(websiteId);
+
         return purpose;
     },
 
@@ -93,7 +98,8 @@ export const purposeService = {
         tenantId: string,
         actorId: string,
         input: UpdatePurposeInput,
-        requestInfo: { ipAddress?: string; userAgent?: string }
+        requestInfo: { ipAddress?: string; userAgent?: string },
+        changeType: ConfigChangeType = 'MATERIAL'
     ): Promise<Purpose> {
         // Find purpose
         const purpose = await purposeRepository.findById(purposeId);
@@ -147,6 +153,9 @@ export const purposeService = {
             }
         );
 
+        await configVersionService.recordChange(purpose.websiteId, tenantId, actorId, changeType, requestInfo);
+        await runtimeService.invalidate(purpose.websiteId);
+
         return updatedPurpose;
     },
 
@@ -158,7 +167,8 @@ export const purposeService = {
         tenantId: string,
         actorId: string,
         translations: PurposeTranslationInput[],
-        requestInfo: { ipAddress?: string; userAgent?: string }
+        requestInfo: { ipAddress?: string; userAgent?: string },
+        changeType: ConfigChangeType = 'MATERIAL'
     ): Promise<PurposeTranslation[]> {
         // Find purpose
         const purpose = await purposeRepository.findById(purposeId);
@@ -201,6 +211,9 @@ export const purposeService = {
             }
         );
 
+        await configVersionService.recordChange(purpose.websiteId, tenantId, actorId, changeType, requestInfo);
+        await runtimeService.invalidate(purpose.websiteId);
+
         return results;
     },
 
@@ -254,6 +267,10 @@ export const purposeService = {
                 userAgent: requestInfo.userAgent,
             }
         );
+
+        // Removing a purpose only narrows processing, so consent already given stays valid
+        await configVersionService.recordChange(purpose.websiteId, tenantId, actorId, 'MINOR', requestInfo);
+        await runtimeService.invalidate(purpose.websiteId);
     },
 
     /**
@@ -295,5 +312,7 @@ export const purposeService = {
                 userAgent: requestInfo.userAgent,
             }
         );
+
+        await runtimeService.invalidate(websiteId);
     },
 };
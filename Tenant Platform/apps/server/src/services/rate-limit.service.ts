@@ -0,0 +1,143 @@
+import { config } from '../config';
+import { incidentRepository } from '../repositories';
+import { createRedisClient } from '../utils/cache';
+import { RateLimitStore, createMemoryRateLimitStore, createRedisRateLimitStore } from '../utils/rate-limit';
+
+export type RateLimitGroup = keyof typeof config.rateLimits.quotas;
+
+// Why a public request was refused: a quota it exceeded, or the form honeypot
+export type AbuseReason = 'ip' | 'site' | 'honeypot';
+
+export interface RateLimitResult {
+    allowed: boolean;
+    // The quota that refused the request
+    scope?: 'ip' | 'site';
+    // Seconds until the refusing quota's window ends
+    retryAfterSeconds?: number;
+}
+
+export interface RateLimitStats {
+    store: 'memory' | 'redis' | 'off';
+    allowed: number;
+    limited: number;
+    incidents: number;
+    // Backend failures; requests are let through when the store fails
+    errors: number;
+}
+
+let limitStore: RateLimitStore | null = null;
+const limitCounts = { allowed: 0, limited: 0, incidents: 0, errors: 0 };
+
+function getLimitStore(): RateLimitStore | null {
+    const settings = config.rateLimits;
+    if (settings.store === 'off') {
+        return null;
+    }
+    if (!limitStore) {
+        limitStore = settings.store === 'redis'
+            ? createRedisRateLimitStore(createRedisClient(settings.redisUrl), settings.keyPrefix)
+            : createMemoryRateLimitStore();
+    }
+    return limitStore;
+}
+
+/**
+ * Rate Limit Service.
+ * Quotas on the public loader, runtime and intake endpoints, per client IP
+ * and per website. Client IPs are only used as counter keys, never stored.
+ * Refused requests are counted per website; crossing the threshold raises
+ * an incident for the Admin Portal.
+ */
+export const rateLimitService = {
+    /**
+     * Count a request against its group's quotas. The IP quota is checked
+     * first, so a single client cannot use up a website's quota. Groups
+     * without a website quota are limited per IP only.
+     */
+    async take(group: RateLimitGroup, client: { ip: string; siteId: string | null }): Promise<RateLimitResult> {
+        const store = getLimitStore();
+        if (!store) {
+            return { allowed: true };
+        }
+
+        const quota = config.rateLimits.quotas[group];
+        const windowMs = quota.windowSeconds * 1000;
+        let refused: { scope: 'ip' | 'site'; resetAt: number } | null = null;
+
+        try {
+            const perIp = await store.hit(`${group}:ip:${client.ip}`, windowMs);
+            if (perIp.count > quota.perIp) {
+                refused = { scope: 'ip', resetAt: perIp.resetAt };
+            } else if (client.siteId && quota.perSite !== null) {
+                const perSite = await store.hit(`${group}:site:${client.siteId}`, windowMs);
+                if (perSite.count > quota.perSite) {
+                    refused = { scope: 'site', resetAt: perSite.resetAt };
+                }
+            }
+        } catch (error) {
+            limitCounts.errors++;
+            console.error(`[RateLimit] Store failed for ${group}:`, error);
+            return { allowed: true };
+        }
+
+        if (!refused) {
+            limitCounts.allowed++;
+            return { allowed: true };
+        }
+
+        limitCounts.limited++;
+        void this.recordAbuse(group, refused.scope, client.siteId);
+        return {
+            allowed: false,
+            scope: refused.scope,
+            retryAfterSeconds: Math.max(1, Math.ceil((refused.resetAt - Date.now()) / 1000)),
+        };
+    },
+
+    /**
+     * Count a refused request towards the incident threshold of its website.
+     * The request that reaches the threshold raises the incident; the
+     * repository skips it when one is already open from the same window.
+     * Never fails: the caller has already answered the request.
+     */
+    async recordAbuse(group: RateLimitGroup, reason: AbuseReason, siteId: string | null): Promise<void> {
+        const store = getLimitStore();
+        if (!store) {
+            return;
+        }
+
+        const { incidentThreshold, incidentWindowSeconds } = config.rateLimits;
+        try {
+            const { count } = await store.hit(`incidents:${siteId || 'none'}`, incidentWindowSeconds * 1000);
+            if (count !== incidentThreshold) {
+                return;
+            }
+
+            const incidentId = await incidentRepository.raiseOnce(
+                'RATE_LIMIT_EXCEEDED',
+                // A website's own quota refuses its real visitors too
+                reason === 'site' ? 'HIGH' : 'MEDIUM',
+                siteId,
+                { group, reason, threshold: incidentThreshold, windowSeconds: incidentWindowSeconds },
+                incidentWindowSeconds
+            );
+            if (incidentId) {
+                limitCounts.incidents++;
+                console.warn(`⚠️ Raised rate limit incident ${incidentId} for ${siteId ? `website ${siteId}` : 'requests without a website'}`);
+            }
+        } catch (error) {
+            limitCounts.errors++;
+            console.error('[RateLimit] Incident check failed:', error);
+        }
+    },
+
+    /**
+     * Counts since startup, for the health check
+     */
+    getStats(): RateLimitStats {
+        return {
+            store: config.rateLimits.store,
+            ...limitCounts,
+        };
+    },
+};
@@ -0,0 +1,430 @@
+import * as crypto from 'crypto';
+import { config } from '../config';
+import {
+    rightsRequestRepository,
+    websiteRepository,
+    auditRepository,
+    globalRulesRepository,
+} from '../repositories';
+import { ApiError } from '../middleware';
+import { consentService } from './consent.service';
+import { emailService } from './email.service';
+import { webhookService } from './webhook.service';
+import {
+    RightsRequest,
+    RightsRequestDetail,
+    RightsRequestWithWebsite,
+    RightsRequestStatus,
+    RightsRequestVerificationState,
+    RightsRequestType,
+    RightsRequestSlaPolicy,
+    RightsRequestSlaSummary,
+    PaginatedResponse,
+} from '../types';
+import {
+    SubmitRightsRequestInput,
+    RightsRequestFiltersInput,
+    UpdateRightsRequestStatusInput,
+    AssignRightsRequestInput,
+    AddRightsRequestNoteInput,
+    rightsRequestSlaRulesSchema,
+} from '../validators';
+
+/**
+ * Allowed status transitions.
+ * COMPLETED and REJECTED are terminal.
+ * PENDING_VERIFICATION and EXPIRED are driven by the requester and the expiry job, never the tenant.
+ */
+const ALLOWED_TRANSITIONS: Record<RightsRequestStatus, RightsRequestStatus[]> = {
+    PENDING_VERIFICATION: [],
+    EXPIRED: [],
+    RECEIVED: ['VERIFYING', 'IN_PROGRESS', 'REJECTED'],
+    VERIFYING: ['IN_PROGRESS', 'REJECTED'],
+    IN_PROGRESS: ['COMPLETED', 'REJECTED'],
+    COMPLETED: [],
+    REJECTED: [],
+};
+
+/**
+ * One-time codes are bound to their request number so a code cannot be
+ * replayed against another request. Link tokens are stored as SHA-256 only.
+ */
+function hashVerificationCode(requestNumber: string, code: string): string {
+    return crypto
+        .createHmac('sha256', config.session.secret)
+        .update(`${requestNumber}:${code}`)
+        .digest('hex');
+}
+
+function hashVerificationToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function hashesMatch(a: string, b: string): boolean {
+    const bufA = Buffer.from(a, 'hex');
+    const bufB = Buffer.from(b, 'hex');
+    return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Only unexpired PENDING_VERIFICATION requests can be verified
+ */
+function requireVerifiable(
+    state: RightsRequestVerificationState | null
+): RightsRequestVerificationState {
+    if (!state) {
+        throw new Error('Rights request not found');
+    }
+    if (state.status === 'EXPIRED' ||
+        (state.verificationExpiresAt && state.verificationExpiresAt.getTime() <= Date.now())) {
+        throw new ApiError('Verification has expired. Please submit a new request.', 410);
+    }
+    if (state.status !== 'PENDING_VERIFICATION') {
+        throw new ApiError('Request is already verified', 409);
+    }
+    return state;
+}
+
+const REQUEST_TYPES: RightsRequestType[] = ['ACCESS', 'CORRECTION', 'ERASURE', 'NOMINATION', 'GRIEVANCE'];
+
+/**
+ * Resolve response deadlines from the "rights_requests" section of the active
+ * global rules. Missing or invalid values fall back to the platform defaults.
+ */
+async function loadSlaPolicy(): Promise<RightsRequestSlaPolicy> {
+    const defaults = config.rightsRequests.sla;
+    const activeRules = await globalRulesRepository.findActive();
+
+    const parsed = rightsRequestSlaRulesSchema.safeParse(activeRules?.rulesJson?.rights_requests ?? {});
+    if (!parsed.success) {
+        console.warn(
+            `⚠️  Ignoring invalid rights_requests SLA rules in global rules v${activeRules?.version}:`,
+            parsed.error.issues
+        );
+    }
+    const rules = parsed.success ? parsed.data : rightsRequestSlaRulesSchema.parse({});
+    const severityRules = typeof rules.breach_severity === 'string'
+        ? { DEFAULT: rules.breach_severity }
+        : rules.breach_severity || {};
+
+    const policy: RightsRequestSlaPolicy = {
+        rulesVersion: activeRules?.version,
+        days: {} as RightsRequestSlaPolicy['days'],
+        dueSoonDays: rules.due_soon_days ?? defaults.dueSoonDays,
+        severity: {} as RightsRequestSlaPolicy['severity'],
+    };
+    for (const type of REQUEST_TYPES) {
+        policy.days[type] = rules.sla_days[type] ?? rules.sla_days.DEFAULT ?? defaults.defaultDays;
+        policy.severity[type] = severityRules[type] ?? severityRules.DEFAULT ?? defaults.defaultSeverity;
+    }
+    return policy;
+}
+
+async function release(
+    state: RightsRequestVerificationState,
+    method: 'CODE' | 'LINK'
+): Promise<RightsRequest> {
+    // The SLA clock starts when the request reaches the tenant
+    const policy = await loadSlaPolicy();
+    const dueAt = new Date(Date.now() + policy.days[state.requestType] * 24 * 60 * 60 * 1000);
+
+    const verified = await rightsRequestRepository.markVerified(state.id, method, {
+        dueAt,
+        rulesVersion: policy.rulesVersion,
+    });
+    if (!verified) {
+        throw new ApiError('Request is already verified', 409);
+    }
+
+    // Webhooks hear of a request once it reaches the tenant inbox
+    await webhookService.dispatch(verified.tenantId, verified.websiteId, 'rights_request.created', {
+        requestId: verified.id,
+        requestNumber: verified.requestNumber,
+        requestType: verified.requestType,
+        status: verified.status,
+        requesterEmail: verified.requesterEmail,
+        languageCode: verified.languageCode,
+        verifiedAt: verified.verifiedAt,
+        dueAt: verified.dueAt,
+    });
+    return verified;
+}
+
+/**
+ * Rights Request Service.
+ * Intake of data principal requests from the loader and the tenant inbox workflow.
+ * Every tenant action is written to the tenant audit log.
+ */
+export const rightsRequestService = {
+    /**
+     * Submit a rights request from the loader (public).
+     * The request stays in PENDING_VERIFICATION until the requester confirms
+     * their email with the emailed code or link.
+     */
+    async submit(
+        siteId: string,
+        input: SubmitRightsRequestInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<RightsRequest> {
+        const website = await websiteRepository.findById(siteId);
+        if (!website || website.status !== 'ACTIVE') {
+            throw new Error('Website not found or not active');
+        }
+
+        const requestNumber = 'DSR-' + new Date().getFullYear() + '-' +
+            crypto.randomBytes(4).toString('hex').toUpperCase();
+        const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+        const token = crypto.randomBytes(32).toString('hex');
+        const expiresAt = new Date(
+            Date.now() + config.rightsRequests.verificationExpiryMinutes * 60 * 1000
+        );
+
+        const rightsRequest = await rightsRequestRepository.create({
+            requestNumber,
+            tenantId: website.tenantId,
+            websiteId: website.id,
+            requestType: input.type,
+            requesterEmail: input.email,
+            description: input.description,
+            details: input.details,
+            languageCode: input.language,
+            ipHash: requestInfo.ipAddress ? consentService.hashIp(requestInfo.ipAddress) : undefined,
+            userAgent: requestInfo.userAgent,
+            verificationTokenHash: hashVerificationToken(token),
+            verificationCodeHash: hashVerificationCode(requestNumber, code),
+            verificationExpiresAt: expiresAt,
+        });
+
+        const delivered = await emailService.sendRightsRequestVerification({
+            to: input.email,
+            requestNumber,
+            requestType: input.type,
+            domain: website.domain,
+            code,
+            verifyUrl: `${config.server.publicUrl}/runtime/rights-requests/verify?token=${token}`,
+            expiresAt,
+        });
+        await rightsRequestRepository.addSystemEvent(rightsRequest.id, 'VERIFICATION_SENT', { delivered });
+
+        return rightsRequest;
+    },
+
+    /**
+     * Verify a pending request with the code typed into the loader form (public).
+     */
+    async verifyByCode(siteId: string, requestNumber: string, code: string): Promise<RightsRequest> {
+        const state = requireVerifiable(
+            await rightsRequestRepository.findVerificationByNumber(siteId, requestNumber)
+        );
+
+        if (!(await rightsRequestRepository.takeVerificationAttempt(state.id, config.rightsRequests.maxVerificationAttempts))) {
+            throw new ApiError('Too many verification attempts', 429);
+        }
+
+        if (!state.verificationCodeHash ||
+            !hashesMatch(hashVerificationCode(requestNumber, code), state.verificationCodeHash)) {
+            throw new ApiError('Invalid verification code', 400);
+        }
+
+        return release(state, 'CODE');
+    },
+
+    /**
+     * Verify a pending request with the emailed link (public).
+     */
+    async verifyByToken(token: string): Promise<RightsRequest> {
+        const state = requireVerifiable(
+            await rightsRequestRepository.findVerificationByTokenHash(hashVerificationToken(token))
+        );
+
+        return release(state, 'LINK');
+    },
+
+    /**
+     * Expire requests whose verification window has passed (run by the expiry job)
+     */
+    async expireUnverified(): Promise<number> {
+        return rightsRequestRepository.expireUnverified();
+    },
+
+    /**
+     * List rights requests for the tenant inbox
+     */
+    async list(
+        tenantId: string,
+        filters: RightsRequestFiltersInput
+    ): Promise<PaginatedResponse<RightsRequestWithWebsite>> {
+        return rightsRequestRepository.findByTenantId(tenantId, filters);
+    },
+
+    /**
+     * Overdue and due-soon counters for the dashboard
+     */
+    async getSlaSummary(tenantId: string): Promise<RightsRequestSlaSummary> {
+        const policy = await loadSlaPolicy();
+        return rightsRequestRepository.getSlaSummary(tenantId, policy.dueSoonDays);
+    },
+
+    /**
+     * Raise an incident for every open request past its due date (run by the SLA job).
+     * Returns the number of incidents raised.
+     */
+    async escalateSlaBreaches(): Promise<number> {
+        const breaches = await rightsRequestRepository.findUnescalatedBreaches();
+        if (breaches.length === 0) {
+            return 0;
+        }
+
+        const policy = await loadSlaPolicy();
+        let raised = 0;
+        for (const breach of breaches) {
+            if (await rightsRequestRepository.escalateBreach(breach, policy.severity[breach.requestType])) {
+                raised++;
+            }
+        }
+        return raised;
+    },
+
+    /**
+     * Get a rights request with its history
+     */
+    async getById(requestId: string, tenantId: string): Promise<RightsRequestDetail> {
+        const request = await rightsRequestRepository.findByIdAndTenant(requestId, tenantId);
+        if (!request) {
+            throw new Error('Rights request not found');
+        }
+
+        const events = await rightsRequestRepository.getEvents(requestId);
+        return { ...request, events };
+    },
+
+    /**
+     * Move a request through the workflow
+     */
+    async updateStatus(
+        requestId: string,
+        tenantId: string,
+        actorId: string,
+        input: UpdateRightsRequestStatusInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<RightsRequestDetail> {
+        const request = await rightsRequestRepository.findByIdAndTenant(requestId, tenantId);
+        if (!request) {
+            throw new Error('Rights request not found');
+        }
+
+        if (!ALLOWED_TRANSITIONS[request.status].includes(input.status)) {
+            throw new Error(`Cannot change status from ${request.status} to ${input.status}`);
+        }
+
+        const updated = await rightsRequestRepository.updateStatus(
+            requestId,
+            request.status,
+            input.status,
+            actorId,
+            input.note
+        );
+        if (!updated) {
+            throw new Error('Cannot change status: request was modified by another action');
+        }
+
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'RIGHTS_REQUEST_STATUS_CHANGED',
+            {
+                resourceType: 'rights_request',
+                resourceId: requestId,
+                metadata: {
+                    requestNumber: request.requestNumber,
+                    from: request.status,
+                    to: input.status,
+                },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        await webhookService.dispatch(tenantId, request.websiteId, 'rights_request.status_changed', {
+            requestId,
+            requestNumber: request.requestNumber,
+            requestType: request.requestType,
+            requesterEmail: request.requesterEmail,
+            from: request.status,
+            to: input.status,
+        });
+
+        return this.getById(requestId, tenantId);
+    },
+
+    /**
+     * Assign a request to the person handling it
+     */
+    async assign(
+        requestId: string,
+        tenantId: string,
+        actorId: string,
+        input: AssignRightsRequestInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<RightsRequestDetail> {
+        const request = await rightsRequestRepository.findByIdAndTenant(requestId, tenantId);
+        if (!request) {
+            throw new Error('Rights request not found');
+        }
+
+        const assignedTo = input.assignedTo || null;
+        await rightsRequestRepository.updateAssignee(requestId, assignedTo, actorId);
+
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'RIGHTS_REQUEST_ASSIGNED',
+            {
+                resourceType: 'rights_request',
+                resourceId: requestId,
+                metadata: {
+                    requestNumber: request.requestNumber,
+                    from: request.assignedTo || null,
+                    to: assignedTo,
+                },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return this.getById(requestId, tenantId);
+    },
+
+    /**
+     * Add an internal note (never shown to the data principal)
+     */
+    async addNote(
+        requestId: string,
+        tenantId: string,
+        actorId: string,
+        input: AddRightsRequestNoteInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<RightsRequestDetail> {
+        const request = await rightsRequestRepository.findByIdAndTenant(requestId, tenantId);
+        if (!request) {
+            throw new Error('Rights request not found');
+        }
+
+        await rightsRequestRepository.addNote(requestId, input.note, actorId);
+
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'RIGHTS_REQUEST_NOTE_ADDED',
+            {
+                resourceType: 'rights_request',
+                resourceId: requestId,
+                metadata: { requestNumber: request.requestNumber },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return this.getById(requestId, tenantId);
+    },
+};
@@ -1,5 +1,10 @@
+import * as crypto from 'crypto';
 import { query } from '../db';
-import { BannerCustomization } from '../types';
+import { config } from '../config';
+import { CacheStore, createMemoryCache, createRedisCache } from '../utils/cache';
+import { BannerCustomization, BannerVariantStyles, BannerVariantText, OriginPolicy, TcfPurposeMapping, TcfVendorList } from '../types';
+import { websiteRepository } from '../repositories';
+import { consentLifetimeService } from './consent-lifetime.service';
 
 /**
  * Runtime Configuration Response Types
@@ -16,9 +21,12 @@ export interface RuntimeNoticeTranslation {
 
 export interface RuntimePurpose {
     key: string;
+    version: string;
     required: boolean;
     displayOrder: number;
     labels: Record<string, { title: string; description: string; dataCategoryInfo?: string }>;
+    tcfPurposes?: number[]; // IAB purposes covered, only when TCF is on
+    tcfSpecialFeatures?: number[];
 }
 
 export interface RuntimeBannerConfig {
@@ -44,13 +52,131 @@ export interface RuntimeBannerConfig {
     }>;
 }
 
+// A/B test variant: the complete banner it shows, for a share of visitors.
+// The rest see the default banner ("control")
+export interface RuntimeBannerVariant {
+    id: string;
+    trafficPercent: number;
+    banner: RuntimeBannerConfig;
+}
+
+export interface RuntimeConsentMode {
+    signals: Record<string, string[]>; // Consent Mode signal -> purpose tags
+    defaults: Record<string, 'granted' | 'denied'>; // Granted only when mapped to an essential purpose
+    waitForUpdate: number;
+    adsDataRedaction: boolean;
+    urlPassthrough: boolean;
+}
+
+export interface RuntimeTcfVendor {
+    id: number;
+    name: string;
+    purposes: number[]; // Consent
+    legIntPurposes: number[]; // Legitimate interest
+    flexiblePurposes: number[];
+    specialPurposes: number[];
+    specialFeatures: number[];
+    policyUrl?: string;
+}
+
+export interface RuntimeTcfConfig {
+    vendorListVersion: number;
+    tcfPolicyVersion: number;
+    publisherCountryCode: string;
+    purposeNames: Record<string, string>; // IAB purpose id -> name, for the vendor list
+    specialFeatureNames: Record<string, string>;
+    vendors: RuntimeTcfVendor[];
+}
+
+// Adopted known tracker, blocked until its purpose is consented
+export interface RuntimeTracker {
+    name: string;
+    purpose: string; // Purpose tag
+    domains: string[]; // Also match subdomains
+    scripts: string[]; // URL patterns without the scheme, * is a wildcard
+}
+
+// Tenant-defined auto-blocking rule
+export interface RuntimeBlockingRule {
+    purpose: string; // Purpose tag
+    type: 'domain' | 'url';
+    pattern: string; // Domain (subdomains included) or URL without the scheme, * is a wildcard
+}
+
+// Declared cookie or localStorage key, for the cookie policy and cookie governance
+export interface RuntimeCookie {
+    name: string; // * is a wildcard
+    purpose: string; // Purpose tag
+    type: 'cookie' | 'localStorage';
+    provider: string | null;
+    duration: string | null;
+    description: string | null;
+}
+
 export interface RuntimeWebsiteConfig {
     siteId: string;
+    noticeVersion: string;
+    configVersion: number; // Latest notice/purpose version (0 before the first versioned edit)
+    configHash: string;
+    reconsentVersion: number; // Consent given against an older version must be collected again
     defaultLanguage: string;
     supportedLanguages: string[];
     notice: Record<string, RuntimeNoticeTranslation>;
     purposes: RuntimePurpose[];
     banner: RuntimeBannerConfig;
+    bannerVariants?: RuntimeBannerVariant[]; // Only present while an A/B test runs
+    consentMode: RuntimeConsentMode | null; // null when Google Consent Mode is off
+    tcf: RuntimeTcfConfig | null; // null when IAB TCF is off
+    trackers?: RuntimeTracker[]; // Only present when the website adopted trackers
+    blockingRules?: RuntimeBlockingRule[]; // Only present when the website has blocking rules
+    cookies?: RuntimeCookie[]; // Only present when the website declared cookies
+    cookieGovernance?: true; // Only present when the loader enforces the cookie declarations
+    consentLifetimeDays: number; // Stored consent older than this is discarded
+    rejectLifetimeDays: number; // Same, for decisions granting no optional purpose
+}
+
+/**
+ * A website's runtime config as cached: null for a website that is missing
+ * or not active, so unknown site IDs do not reach the database either
+ */
+export interface CachedWebsiteConfig {
+    config: RuntimeWebsiteConfig | null;
+    // Quoted hash of the config, for ETag; empty without a config
+    etag: string;
+    // Where the runtime API may be called from; never sent to browsers
+    origins: OriginPolicy | null;
+}
+
+export interface RuntimeCacheStats {
+    store: 'memory' | 'redis' | 'off';
+    hits: number;
+    misses: number;
+    hitRatio: number;
+    evictions: number;
+    // Backend failures, served from the database instead
+    errors: number;
+}
+
+let configCache: CacheStore | null = null;
+// Bumped by every eviction: a config read before one is not cached after it
+let cacheGeneration = 0;
+const cacheCounts = { hits: 0, misses: 0, evictions: 0, errors: 0 };
+
+function getConfigCache(): CacheStore | null {
+    const settings = config.runtimeCache;
+    if (settings.store === 'off') {
+        return null;
+    }
+    if (!configCache) {
+        configCache = settings.store === 'redis'
+            ? createRedisCache(settings.redisUrl)
+            : createMemoryCache(settings.maxEntries);
+    }
+    return configCache;
+}
+
+function cacheKey(siteId: string): string {
+    return config.runtimeCache.keyPrefix + siteId;
 }
 
 /**
@@ -67,9 +193,123 @@ export const runtimeService = {
      * Only ACTIVE websites should be returned.
      */
     async getWebsiteConfig(siteId: string): Promise<RuntimeWebsiteConfig | null> {
+        return (await this.getCachedWebsiteConfig(siteId)).config;
+    },
+
+    /**
+     * getWebsiteConfig() through the runtime cache, with its ETag. A failing
+     * cache backend is counted and skipped, never failing the request.
+     */
+    async getCachedWebsiteConfig(siteId: string): Promise<CachedWebsiteConfig> {
+        const cache = getConfigCache();
+        if (cache) {
+            try {
+                const cached = await cache.get(cacheKey(siteId));
+                // Entries written before origin policies existed count as misses
+                if (cached !== null && (JSON.parse(cached) as Partial<CachedWebsiteConfig>).origins !== undefined) {
+                    cacheCounts.hits++;
+                    return JSON.parse(cached);
+                }
+            } catch (error) {
+                cacheCounts.errors++;
+                console.error(`[Runtime] Config cache read failed for website ${siteId}:`, error);
+            }
+            cacheCounts.misses++;
+        }
+
+        const generation = cacheGeneration;
+        const website = await this.loadWebsite(siteId);
+        const entry: CachedWebsiteConfig = {
+            config: website?.config || null,
+            etag: website
+                ? `"${crypto.createHash('sha256').update(JSON.stringify(website.config)).digest('hex').slice(0, 32)}"`
+                : '',
+            origins: website?.origins || null,
+        };
+
+        if (cache && generation === cacheGeneration) {
+            try {
+                await cache.set(cacheKey(siteId), JSON.stringify(entry), config.runtimeCache.ttlSeconds);
+            } catch (error) {
+                cacheCounts.errors++;
+                console.error(`[Runtime] Config cache write failed for website ${siteId}:`, error);
+            }
+        }
+        return entry;
+    },
+
+    /**
+     * Evict a website's cached config. Called by every service that changes
+     * what getWebsiteConfig() returns for it.
+     */
+    async invalidate(siteId: string): Promise<void> {
+        cacheGeneration++;
+        const cache = getConfigCache();
+        if (!cache) {
+            return;
+        }
+        cacheCounts.evictions++;
+        try {
+            await cache.delete(cacheKey(siteId));
+        } catch (error) {
+            cacheCounts.errors++;
+            console.error(`[Runtime] Config cache eviction failed for website ${siteId}:`, error);
+        }
+    },
+
+    /**
+     * Evict the cached config of every served website, after a change that
+     * affects all of them such as new global rules. Returns how many were evicted.
+     */
+    async invalidateAll(): Promise<number> {
+        const siteIds = await websiteRepository.findIdsByStatus('ACTIVE');
+        for (const siteId of siteIds) {
+            await this.invalidate(siteId);
+        }
+        return siteIds.length;
+    },
+
+    /**
+     * Runtime cache counters since the server started
+     */
+    getCacheStats(): RuntimeCacheStats {
+        const lookups = cacheCounts.hits + cacheCounts.misses;
+        return {
+            store: config.runtimeCache.store,
+            ...cacheCounts,
+            hitRatio: lookups > 0 ? Math.round((cacheCounts.hits / lookups) * 10000) / 10000 : 0,
+        };
+    },
+
+    /**
+     * Where the runtime API may be called from for a website, or null when
+     * the website is not served
+     */
+    async getOriginPolicy(siteId: string): Promise<OriginPolicy | null> {
+        return (await this.getCachedWebsiteConfig(siteId)).origins;
+    },
+
+    /**
+     * The config getWebsiteConfig() returns, read from the database
+     */
+    async loadWebsiteConfig(siteId: string): Promise<RuntimeWebsiteConfig | null> {
+        return (await this.loadWebsite(siteId))?.config || null;
+    },
+
+    /**
+     * A served website's config and origin policy, read from the database
+     */
+    async loadWebsite(siteId: string): Promise<{ config: RuntimeWebsiteConfig; origins: OriginPolicy } | null> {
         // 1. Verify website exists and is ACTIVE
-        const websiteResult = await query<{ id: string; domain: string; status: string }>(
-            `SELECT id, domain, status FROM websites WHERE id = $1`,
+        const websiteResult = await query<{
+            id: string;
+            domain: string;
+            status: string;
+            allowedDomains: string[];
+            testDomains: string[];
+        }>(
+            `SELECT id, domain, status, allowed_domains as "allowedDomains", test_domains as "testDomains"
+            FROM websites WHERE id = $1`,
             [siteId]
         );
 
@@ -84,7 +324,50 @@ export const runtimeService = {
             return null;
         }
 
-        // 2. Get notice with all translations
+        // 2. Serve the published snapshot; draft edits are not visible until published.
+        // A website that was never published serves nothing
+        const snapshot = await this.getPublishedConfig(siteId);
+        if (!snapshot) {
+            console.warn(`[Runtime] Website has no published config: ${siteId}`);
+            return null;
+        }
+
+        // 3. Consent lifetimes are website settings capped by the global rules,
+        // applied at serve time rather than frozen into the snapshot
+        return {
+            config: {
+                ...snapshot,
+                ...(await consentLifetimeService.getEffective(siteId)),
+            },
+            origins: {
+                domain: website.domain,
+                allowedDomains: website.allowedDomains,
+                testDomains: website.testDomains,
+            },
+        };
+    },
+
+    /**
+     * Get the latest published configuration, if the website was ever published.
+     */
+    async getPublishedConfig(siteId: string): Promise<RuntimeWebsiteConfig | null> {
+        const result = await query<{ config: RuntimeWebsiteConfig }>(
+            `SELECT config FROM published_configs
+            WHERE website_id = $1
+            ORDER BY version DESC
+            LIMIT 1`,
+            [siteId]
+        );
+        return result.rows[0]?.config || null;
+    },
+
+    /**
+     * Build the configuration from the notice, purpose and banner tables
+     * (the tenant's draft). Returns null if the configuration is incomplete.
+     * Does not check the website status.
+     */
+    async buildWebsiteConfig(siteId: string): Promise<RuntimeWebsiteConfig | null> {
+        // 1. Get notice with all translations
         const notice = await this.getNoticeTranslations(siteId);
 
         // CRITICAL: English translation MUST exist for fail-safe behavior
@@ -93,8 +376,11 @@ export const runtimeService = {
             return null;
         }
 
-        // 3. Get purposes with translations
-        const purposes = await this.getPurposesWithTranslations(siteId);
+        const noticeVersion = await this.getNoticeVersion(siteId);
+        const version = await this.getConfigVersion(siteId);
+
+        // 2. Get purposes with translations
+        let purposes = await this.getPurposesWithTranslations(siteId);
 
         // CRITICAL: All purposes must have English labels
         for (const purpose of purposes) {
@@ -104,19 +390,50 @@ export const runtimeService = {
             }
         }
 
-        // 4. Get banner customization
+        // 3. Get banner customization
         const banner = await this.getBannerConfig(siteId);
+        const bannerVariants = await this.getBannerVariants(siteId, banner);
 
-        // 5. Determine supported languages (union of all available translations)
+        // 4. Determine supported languages (union of all available translations)
         const supportedLanguages = this.extractSupportedLanguages(notice, purposes);
 
+        const consentMode = await this.getConsentMode(siteId, purposes);
+
+        // IAB purposes are only attached when TCF is on, so other configs keep their shape
+        const tcf = await this.getTcfConfig(siteId);
+        if (tcf) {
+            purposes = purposes.map((purpose) => ({
+                ...purpose,
+                tcfPurposes: tcf.purposeMapping[purpose.key]?.purposes || [],
+                tcfSpecialFeatures: tcf.purposeMapping[purpose.key]?.specialFeatures || [],
+            }));
+        }
+        const trackers = await this.getTrackers(siteId, purposes);
+        const blockingRules = await this.getBlockingRules(siteId, purposes);
+        const cookies = await this.getCookies(siteId, purposes);
+        const cookieGovernance = await this.getCookieGovernance(siteId);
+        const lifetime = await consentLifetimeService.getEffective(siteId);
+
         return {
             siteId,
+            noticeVersion,
+            configVersion: version.configVersion,
+            configHash: version.configHash,
+            reconsentVersion: version.reconsentVersion,
             defaultLanguage: 'en', // English is always the default
             supportedLanguages,
             notice,
             purposes,
             banner,
+            ...(bannerVariants.length > 0 ? { bannerVariants } : {}),
+            consentMode,
+            tcf: tcf ? tcf.config : null,
+            ...(trackers.length > 0 ? { trackers } : {}),
+            ...(blockingRules.length > 0 ? { blockingRules } : {}),
+            ...(cookies.length > 0 ? { cookies } : {}),
+            ...(cookieGovernance ? { cookieGovernance: true as const } : {}),
+            consentLifetimeDays: lifetime.consentLifetimeDays,
+            rejectLifetimeDays: lifetime.rejectLifetimeDays,
         };
     },
 
@@ -169,50 +486,94 @@ export const runtimeService = {
         return translations;
     },
 
+    /**
+     * Get the notice version recorded alongside each consent decision.
+     * Derived from the latest change to the notice or any of its translations.
+     */
+    async getNoticeVersion(siteId: string): Promise<string> {
+        const result = await query<{ version: Date | null }>(
+            `SELECT GREATEST(MAX(wn.updated_at), MAX(wnt.updated_at)) as version
+            FROM website_notices wn
+            LEFT JOIN website_notice_translations wnt ON wn.id = wnt.website_notice_id
+            WHERE wn.website_id = $1`,
+            [siteId]
+        );
+        const version = result.rows[0]?.version;
+        return version ? new Date(version).toISOString() : '';
+    },
+
+    /**
+     * Get the latest configuration version and the latest MATERIAL version,
+     * below which stored consent no longer counts.
+     */
+    async getConfigVersion(siteId: string): Promise<{
+        configVersion: number;
+        configHash: string;
+        reconsentVersion: number;
+    }> {
+        const result = await query<{ version: number; contentHash: string; reconsentVersion: number }>(
+            `SELECT
+                v.version,
+                v.content_hash as "contentHash",
+                (SELECT COALESCE(MAX(m.version), 0) FROM website_config_versions m
+                    WHERE m.website_id = v.website_id AND m.change_type = 'MATERIAL') as "reconsentVersion"
+            FROM website_config_versions v
+            WHERE v.website_id = $1
+            ORDER BY v.version DESC
+            LIMIT 1`,
+            [siteId]
+        );
+        const latest = result.rows[0];
+        return {
+            configVersion: latest ? latest.version : 0,
+            configHash: latest ? latest.contentHash : '',
+            reconsentVersion: latest ? latest.reconsentVersion : 0,
+        };
+    },
+
     /**
      * Get purposes with translations indexed by language code.
      */
     async getPurposesWithTranslations(siteId: string): Promise<RuntimePurpose[]> {
-        // Get all active purposes - include tag for human-readable purpose keys
-        const purposesResult = await query<{
-            id: string;
+        // All active purposes with their translations in one query - include
+        // tag for human-readable purpose keys
+        const result = await query<{
             tag: string;
             isEssential: boolean;
             displayOrder: number;
-        }>(
-            `SELECT 
-                id,
-                tag,
-                is_essential as "isEssential",
-                display_order as "displayOrder"
-            FROM purposes
-            WHERE website_id = $1 AND status = 'ACTIVE'
-            ORDER BY display_order, created_at`,
-            [siteId]
-        );
-
-        const purposes: RuntimePurpose[] = [];
-
-        for (const purpose of purposesResult.rows) {
-            // Get translations for this purpose
-            const translationsResult = await query<{
+            version: Date;
+            translations: Array<{
                 languageCode: string;
                 name: string;
                 description: string;
                 dataCategoryInfo?: string;
-            }>(
-                `SELECT 
-                    language_code as "languageCode",
-                    name,
-                    description,
-                    data_category_info as "dataCategoryInfo"
-                FROM purpose_translations
-                WHERE purpose_id = $1`,
-                [purpose.id]
-            );
+            }>;
+        }>(
+            `SELECT 
+                p.tag,
+                p.is_essential as "isEssential",
+                p.display_order as "displayOrder",
+                GREATEST(p.updated_at, MAX(pt.updated_at)) as version,
+                COALESCE(
+                    json_agg(json_build_object(
+                        'languageCode', pt.language_code,
+                        'name', pt.name,
+                        'description', pt.description,
+                        'dataCategoryInfo', pt.data_category_info
+                    )) FILTER (WHERE pt.purpose_id IS NOT NULL),
+                    '[]'
+                ) as translations
+            FROM purposes p
+            LEFT JOIN purpose_translations pt ON pt.purpose_id = p.id
+            WHERE p.website_id = $1 AND p.status = 'ACTIVE'
+            GROUP BY p.id
+            ORDER BY p.display_order, p.created_at`,
+            [siteId]
+        );
 
+        return result.rows.map((purpose) => {
             const labels: Record<string, { title: string; description: string; dataCategoryInfo?: string }> = {};
-            for (const t of translationsResult.rows) {
+            for (const t of purpose.translations) {
                 labels[t.languageCode] = {
                     title: t.name,
                     description: t.description,
@@ -221,15 +582,231 @@ export const runtimeService = {
             }
 
             // Use human-readable tag as key for script marking (e.g., data-purpose="analytics")
-            purposes.push({
+            return {
                 key: purpose.tag,
+                version: new Date(purpose.version).toISOString(),
                 required: purpose.isEssential,
                 displayOrder: purpose.displayOrder,
                 labels,
+            };
+        });
+    },
+
+    /**
+     * Get Google Consent Mode settings, or null when disabled.
+     * Mapped tags are limited to the purposes being served.
+     */
+    async getConsentMode(siteId: string, purposes: RuntimePurpose[]): Promise<RuntimeConsentMode | null> {
+        const result = await query<{
+            signalMapping: Record<string, string[]>;
+            waitForUpdateMs: number;
+            adsDataRedaction: boolean;
+            urlPassthrough: boolean;
+        }>(
+            `SELECT 
+                signal_mapping as "signalMapping",
+                wait_for_update_ms as "waitForUpdateMs",
+                ads_data_redaction as "adsDataRedaction",
+                url_passthrough as "urlPassthrough"
+            FROM website_consent_mode
+            WHERE website_id = $1 AND enabled = TRUE`,
+            [siteId]
+        );
+
+        const row = result.rows[0];
+        if (!row) {
+            return null;
+        }
+
+        const required = new Map(purposes.map((p) => [p.key, p.required]));
+        const signals: Record<string, string[]> = {};
+        const defaults: Record<string, 'granted' | 'denied'> = {};
+        for (const signal of Object.keys(row.signalMapping).sort()) {
+            const tags = row.signalMapping[signal].filter((tag) => required.has(tag));
+            signals[signal] = tags;
+            defaults[signal] = tags.some((tag) => required.get(tag)) ? 'granted' : 'denied';
+        }
+
+        return {
+            signals,
+            defaults,
+            waitForUpdate: row.waitForUpdateMs,
+            adsDataRedaction: row.adsDataRedaction,
+            urlPassthrough: row.urlPassthrough,
+        };
+    },
+
+    /**
+     * Get the adopted known trackers of the purposes being served.
+     * Trackers deactivated in the catalogue are left out.
+     */
+    async getTrackers(siteId: string, purposes: RuntimePurpose[]): Promise<RuntimeTracker[]> {
+        const result = await query<RuntimeTracker>(
+            `SELECT 
+                t.name,
+                p.tag as purpose,
+                t.domains,
+                t.script_patterns as scripts
+            FROM website_trackers wt
+            JOIN tracker_catalogue t ON t.id = wt.tracker_id
+            JOIN purposes p ON p.id = wt.purpose_id
+            WHERE wt.website_id = $1 AND t.is_active = TRUE
+            ORDER BY t.name`,
+            [siteId]
+        );
+
+        const served = new Set(purposes.map((p) => p.key));
+        return result.rows.filter((tracker) => served.has(tracker.purpose));
+    },
+
+    /**
+     * Get the auto-blocking rules of the purposes being served.
+     * URL rules come first since they are the more specific.
+     */
+    async getBlockingRules(siteId: string, purposes: RuntimePurpose[]): Promise<RuntimeBlockingRule[]> {
+        const result = await query<RuntimeBlockingRule>(
+            `SELECT 
+                p.tag as purpose,
+                LOWER(r.match_type) as type,
+                r.pattern
+            FROM website_blocking_rules r
+            JOIN purposes p ON p.id = r.purpose_id
+            WHERE r.website_id = $1
+            ORDER BY r.match_type DESC, r.pattern`,
+            [siteId]
+        );
+
+        const served = new Set(purposes.map((p) => p.key));
+        return result.rows.filter((rule) => served.has(rule.purpose));
+    },
+
+    /**
+     * Get the cookie declarations of the purposes being served.
+     */
+    async getCookies(siteId: string, purposes: RuntimePurpose[]): Promise<RuntimeCookie[]> {
+        const result = await query<RuntimeCookie>(
+            `SELECT 
+                c.name,
+                p.tag as purpose,
+                CASE c.storage_type WHEN 'LOCAL_STORAGE' THEN 'localStorage' ELSE 'cookie' END as type,
+                c.provider,
+                c.duration,
+                c.description
+            FROM website_cookies c
+            JOIN purposes p ON p.id = c.purpose_id
+            WHERE c.website_id = $1
+            ORDER BY p.display_order, c.storage_type, c.name`,
+            [siteId]
+        );
+
+        const served = new Set(purposes.map((p) => p.key));
+        return result.rows.filter((cookie) => served.has(cookie.purpose));
+    },
+
+    /**
+     * Running banner variants, each applied to the default banner. Variants
+     * only override the text of languages the default banner has.
+     */
+    async getBannerVariants(siteId: string, banner: RuntimeBannerConfig): Promise<RuntimeBannerVariant[]> {
+        const result = await query<{
+            id: string;
+            trafficPercent: number;
+            styles: BannerVariantStyles;
+            text: Record<string, BannerVariantText>;
+        }>(
+            `SELECT id, traffic_percent as "trafficPercent", styles, text
+            FROM banner_variants
+            WHERE website_id = $1 AND archived_at IS NULL
+            ORDER BY created_at, name`,
+            [siteId]
+        );
+
+        return result.rows.map((variant) => {
+            const text: RuntimeBannerConfig['text'] = {};
+            for (const language of Object.keys(banner.text)) {
+                text[language] = { ...banner.text[language], ...variant.text[language] };
+            }
+            return {
+                id: variant.id,
+                trafficPercent: variant.trafficPercent,
+                banner: { ...banner, ...variant.styles, text },
+            };
+        });
+    },
+
+    /**
+     * Whether the loader enforces the cookie declarations
+     */
+    async getCookieGovernance(siteId: string): Promise<boolean> {
+        const result = await query<{ enabled: boolean }>(
+            `SELECT cookie_governance as enabled FROM websites WHERE id = $1`,
+            [siteId]
+        );
+        return result.rows[0]?.enabled ?? false;
+    },
+
+    /**
+     * Get IAB TCF settings, or null when disabled or no vendor list was imported.
+     * Only selected vendors still active in the vendor list are served.
+     */
+    async getTcfConfig(siteId: string): Promise<{
+        config: RuntimeTcfConfig;
+        purposeMapping: Record<string, TcfPurposeMapping>;
+    } | null> {
+        const result = await query<{
+            publisherCountryCode: string;
+            vendorList: TcfVendorList;
+            selectedVendorIds: number[];
+            purposeMapping: Record<string, TcfPurposeMapping>;
+        }>(
+            `SELECT 
+                publisher_country_code as "publisherCountryCode",
+                vendor_list as "vendorList",
+                selected_vendor_ids as "selectedVendorIds",
+                purpose_mapping as "purposeMapping"
+            FROM website_tcf_settings
+            WHERE website_id = $1 AND enabled = TRUE AND vendor_list IS NOT NULL`,
+            [siteId]
+        );
+
+        const row = result.rows[0];
+        if (!row) {
+            return null;
+        }
+
+        const { vendorList } = row;
+        const vendors: RuntimeTcfVendor[] = [];
+        for (const id of [...row.selectedVendorIds].sort((a, b) => a - b)) {
+            const vendor = vendorList.vendors[String(id)];
+            if (!vendor || vendor.deletedDate) {
+                continue;
+            }
+            vendors.push({
+                id: vendor.id,
+                name: vendor.name,
+                purposes: vendor.purposes,
+                legIntPurposes: vendor.legIntPurposes,
+                flexiblePurposes: vendor.flexiblePurposes,
+                specialPurposes: vendor.specialPurposes,
+                specialFeatures: vendor.specialFeatures,
+                policyUrl: vendor.policyUrl,
             });
         }
 
-        return purposes;
+        const names = (entries: TcfVendorList['purposes']) =>
+            Object.fromEntries(Object.values(entries).map((entry) => [String(entry.id), entry.name]));
+
+        return {
+            config: {
+                vendorListVersion: vendorList.vendorListVersion,
+                tcfPolicyVersion: vendorList.tcfPolicyVersion,
+                publisherCountryCode: row.publisherCountryCode,
+                purposeNames: names(vendorList.purposes),
+                specialFeatureNames: names(vendorList.specialFeatures),
+                vendors,
+            },
+            purposeMapping: row.purposeMapping,
+        };
     },
 
     /**
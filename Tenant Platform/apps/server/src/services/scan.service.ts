@@ -0,0 +1,131 @@
+import { scanRepository, purposeRepository, trackerRepository, websiteRepository, auditRepository } from '../repositories';
+import { ApiError } from '../middleware';
+import { WebsiteScan, WebsiteScanSummary } from '../types';
+import { StartScanInput } from '../validators';
+import { isPublicHost } from '../utils/outbound-http';
+import { scannerService, isFirstParty } from './scanner.service';
+
+// Scans run one at a time; each holds a headless browser
+let scanQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Scan Service.
+ * Cookie and tracker scans of a tenant's website, kept as history.
+ * A scan is queued and runs in the background; clients poll for the result.
+ */
+export const scanService = {
+    /**
+     * Queue a scan. Start URLs must be on the website's domain, and that
+     * domain must be a public host.
+     */
+    async start(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        input: StartScanInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<WebsiteScanSummary> {
+        const website = await this.requireWebsite(websiteId, tenantId);
+
+        const startUrls = input.urls.length > 0 ? input.urls : [`https://${website.domain}/`];
+        for (const url of startUrls) {
+            if (!isFirstParty(new URL(url).hostname, website.domain)) {
+                throw new ApiError(`URL is not on ${website.domain}: ${url}`, 400);
+            }
+        }
+        for (const host of new Set(startUrls.map((url) => new URL(url).hostname))) {
+            if (!(await isPublicHost(host))) {
+                throw new ApiError(`${host} is not a public host`, 400);
+            }
+        }
+
+        if (await scanRepository.hasActiveScan(websiteId)) {
+            throw new ApiError('A scan of this website is already in progress', 409);
+        }
+
+        const scan = await scanRepository.create({
+            websiteId,
+            startUrls,
+            maxPages: input.maxPages,
+            requestedBy: actorId,
+        });
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'WEBSITE_SCAN_STARTED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: {
+                    scanId: scan.id,
+                    startUrls,
+                    maxPages: input.maxPages,
+                },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        scanQueue = scanQueue.then(() => this.run(scan.id, websiteId, startUrls, input.maxPages));
+        return scan;
+    },
+
+    /**
+     * Run a queued scan and store its results. Never throws;
+     * failures are recorded on the scan.
+     */
+    async run(scanId: string, websiteId: string, startUrls: string[], maxPages: number): Promise<void> {
+        try {
+            await scanRepository.markRunning(scanId);
+            const purposes = await purposeRepository.findByWebsiteId(websiteId);
+            const trackers = await trackerRepository.findCatalogue();
+            const { pages, items } = await scannerService.scan(startUrls, maxPages, purposes, trackers);
+            await scanRepository.complete(scanId, pages, items);
+        } catch (error) {
+            console.error(`❌ Scan ${scanId} failed:`, error);
+            await scanRepository
+                .fail(scanId, error instanceof Error ? error.message : String(error))
+                .catch(() => undefined);
+        }
+    },
+
+    /**
+     * Scan history of a website, newest first
+     */
+    async list(websiteId: string, tenantId: string): Promise<WebsiteScanSummary[]> {
+        await this.requireWebsite(websiteId, tenantId);
+        return scanRepository.findByWebsiteId(websiteId);
+    },
+
+    /**
+     * Get a scan with the pages visited and the items observed
+     */
+    async get(websiteId: string, tenantId: string, scanId: string): Promise<WebsiteScan> {
+        await this.requireWebsite(websiteId, tenantId);
+
+        const scan = await scanRepository.findById(websiteId, scanId);
+        if (!scan) {
+            throw new Error('Scan not found');
+        }
+        return scan;
+    },
+
+    /**
+     * Fail scans left queued or running when the server stopped.
+     * Returns the number of scans failed.
+     */
+    async failInterrupted(): Promise<number> {
+        return scanRepository.failInterrupted();
+    },
+
+    async requireWebsite(websiteId: string, tenantId: string) {
+        // Verify website ownership
+        const website = await websiteRepository.findByIdAndTenant(websiteId, tenantId);
+        if (!website) {
+            throw new Error('Website not found');
+        }
+        return website;
+    },
+};
@@ -0,0 +1,405 @@
+// page.evaluate callbacks run in the browser
+/// <reference lib="dom" />
+import puppeteer, { Browser, BrowserContext, HTTPRequest, HTTPResponse, Page } from 'puppeteer';
+import { config } from '../config';
+import { ScanCategory, ScanItem, ScanItemType, ScanPage, TrackerCatalogueEntry } from '../types';
+import { isPublicHost } from '../utils/outbound-http';
+import { hostMatches, matchTracker } from '../utils/trackers';
+
+// Accept All buttons of our banner and common CMPs, tried in order
+const ACCEPT_SELECTORS = [
+    '#complyark-accept-btn',
+    '#onetrust-accept-btn-handler',
+    '#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll',
+    '#CybotCookiebotDialogBodyButtonAccept',
+    '.cc-allow',
+    '[data-cookiefirst-action="accept"]',
+];
+
+// Images at most this large (bytes) are treated as tracking pixels
+const PIXEL_MAX_BYTES = 512;
+
+// Pages listed per item
+const MAX_ITEM_PAGES = 20;
+
+type Phase = 'before' | 'after';
+
+interface Observation {
+    type: ScanItemType;
+    name: string;
+    domain: string;
+}
+
+function stripWww(host: string): string {
+    return host.replace(/^\.+/, '').replace(/^www\./, '').toLowerCase();
+}
+
+/**
+ * Whether a cookie or resource domain belongs to the scanned site
+ * (same host, a parent domain or a subdomain).
+ */
+export function isFirstParty(domain: string, siteHost: string): boolean {
+    const a = stripWww(domain);
+    const b = stripWww(siteHost);
+    return hostMatches(a, b) || hostMatches(b, a);
+}
+
+/**
+ * Suggest a purpose category for an observed item from the known-tracker
+ * catalogue. Unknown third-party pixels count as marketing; anything else
+ * unknown is left for the tenant to decide.
+ */
+export function suggestCategory(
+    type: ScanItemType,
+    name: string,
+    domain: string,
+    firstParty: boolean,
+    trackers: TrackerCatalogueEntry[]
+): { category: ScanCategory; trackerId: string | null; reason?: string } {
+    const isResource = type !== 'COOKIE' && type !== 'LOCAL_STORAGE';
+    const tracker = matchTracker(trackers, isResource ? { url: name, domain } : { name, domain });
+    if (tracker) {
+        return { category: tracker.category, trackerId: tracker.id, reason: tracker.name };
+    }
+
+    if (type === 'PIXEL' && !firstParty) {
+        return { category: 'marketing', trackerId: null, reason: 'Third-party tracking pixel' };
+    }
+    return { category: 'unknown', trackerId: null };
+}
+
+/**
+ * Tag of the website purpose matching a category: a purpose with that tag,
+ * one whose tag contains it, or for essential items the essential purpose.
+ */
+export function suggestPurposeTag(
+    category: ScanCategory,
+    purposes: Array<{ tag: string; isEssential: boolean }>
+): string | null {
+    if (category === 'unknown') {
+        return null;
+    }
+    const exact = purposes.find((p) => p.tag === category);
+    if (exact) {
+        return exact.tag;
+    }
+    const partial = purposes.find((p) => p.tag.includes(category));
+    if (partial) {
+        return partial.tag;
+    }
+    if (category === 'essential') {
+        return purposes.find((p) => p.isEssential)?.tag || null;
+    }
+    return null;
+}
+
+// URL without query string and fragment, used as the name of scripts and pixels
+function resourceName(url: URL): string {
+    return `${url.origin}${url.pathname}`;
+}
+
+function toUrl(value: string): URL | null {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Collects observations of one crawl, merged across pages and phases
+ */
+class ScanCollector {
+    private items = new Map<string, ScanItem>();
+
+    constructor(private siteHost: string, private trackers: TrackerCatalogueEntry[]) {}
+
+    add(observation: Observation, phase: Phase, pageUrl: string): void {
+        const key = `${observation.type}|${observation.domain}|${observation.name}`;
+        let item = this.items.get(key);
+        if (!item) {
+            const firstParty = isFirstParty(observation.domain, this.siteHost);
+            const suggestion = suggestCategory(
+                observation.type,
+                observation.name,
+                observation.domain,
+                firstParty,
+                this.trackers
+            );
+            item = {
+                ...observation,
+                firstParty,
+                beforeConsent: false,
+                afterAccept: false,
+                pages: [],
+                suggestedCategory: suggestion.category,
+                suggestedPurpose: null,
+                trackerId: suggestion.trackerId,
+                reason: suggestion.reason,
+            };
+            this.items.set(key, item);
+        }
+        if (phase === 'before') {
+            item.beforeConsent = true;
+        } else {
+            item.afterAccept = true;
+        }
+        if (!item.pages.includes(pageUrl) && item.pages.length < MAX_ITEM_PAGES) {
+            item.pages.push(pageUrl);
+        }
+    }
+
+    // Pixels are also seen as images; keep only one entry per URL
+    has(type: ScanItemType, domain: string, name: string): boolean {
+        return this.items.has(`${type}|${domain}|${name}`);
+    }
+
+    list(): ScanItem[] {
+        const order: ScanItemType[] = ['COOKIE', 'LOCAL_STORAGE', 'SCRIPT', 'IFRAME', 'PIXEL'];
+        return Array.from(this.items.values()).sort((a, b) =>
+            order.indexOf(a.type) - order.indexOf(b.type)
+            || a.domain.localeCompare(b.domain)
+            || a.name.localeCompare(b.name)
+        );
+    }
+}
+
+function watchRequests(page: Page, collector: ScanCollector, state: { phase: Phase; pageUrl: string }): void {
+    page.on('request', (request: HTTPRequest) => {
+        const url = toUrl(request.url());
+        if (!url) {
+            return;
+        }
+        const type = request.resourceType();
+        if (type === 'script') {
+            collector.add({ type: 'SCRIPT', name: resourceName(url), domain: url.hostname }, state.phase, state.pageUrl);
+        } else if (type === 'document' && request.frame() && request.frame() !== page.mainFrame()) {
+            collector.add({ type: 'IFRAME', name: resourceName(url), domain: url.hostname }, state.phase, state.pageUrl);
+        } else if (type === 'ping') {
+            collector.add({ type: 'PIXEL', name: resourceName(url), domain: url.hostname }, state.phase, state.pageUrl);
+        }
+    });
+
+    page.on('response', (response: HTTPResponse) => {
+        if (response.request().resourceType() !== 'image') {
+            return;
+        }
+        const url = toUrl(response.url());
+        const length = parseInt(response.headers()['content-length'] || '', 10);
+        if (url && !isNaN(length) && length <= PIXEL_MAX_BYTES) {
+            collector.add({ type: 'PIXEL', name: resourceName(url), domain: url.hostname }, state.phase, state.pageUrl);
+        }
+    });
+}
+
+/**
+ * Let the page reach public hosts only. Every request, including
+ * navigations and redirects, is held until its host is checked; requests
+ * to internal hosts or over other protocols are aborted. publicHosts caches
+ * the check per host for the scan.
+ */
+async function guardRequests(page: Page, publicHosts: Map<string, Promise<boolean>>): Promise<void> {
+    await page.setRequestInterception(true);
+    const allows = (value: string): Promise<boolean> => {
+        // Inline resources never leave the browser
+        if (/^(data|blob):/i.test(value)) {
+            return Promise.resolve(true);
+        }
+        const url = toUrl(value);
+        if (!url) {
+            return Promise.resolve(false);
+        }
+        let allowed = publicHosts.get(url.hostname);
+        if (!allowed) {
+            allowed = isPublicHost(url.hostname);
+            publicHosts.set(url.hostname, allowed);
+        }
+        return allowed;
+    };
+
+    page.on('request', (request: HTTPRequest) => {
+        allows(request.url())
+            .then((allowed) => (allowed ? request.continue() : request.abort('blockedbyclient')))
+            // The page may have closed meanwhile
+            .catch(() => undefined);
+    });
+}
+
+async function collectState(
+    context: BrowserContext,
+    page: Page,
+    collector: ScanCollector,
+    phase: Phase,
+    pageUrl: string
+): Promise<void> {
+    for (const cookie of await context.cookies()) {
+        collector.add({ type: 'COOKIE', name: cookie.name, domain: cookie.domain.replace(/^\./, '') }, phase, pageUrl);
+    }
+
+    const host = new URL(page.url()).hostname;
+    const found = await page.evaluate(() => {
+        let keys: string[] = [];
+        try {
+            keys = Object.keys(window.localStorage);
+        } catch (e) {
+            // Storage blocked
+        }
+        // 1x1 images that were not caught by size (no Content-Length)
+        const pixels = Array.from(document.images)
+            .filter((img) => img.complete && img.naturalWidth <= 1 && img.naturalHeight <= 1 && img.currentSrc)
+            .map((img) => img.currentSrc);
+        return { keys, pixels };
+    });
+
+    for (const key of found.keys) {
+        collector.add({ type: 'LOCAL_STORAGE', name: key, domain: host }, phase, pageUrl);
+    }
+    for (const src of found.pixels) {
+        const url = toUrl(src);
+        if (url && !collector.has('PIXEL', url.hostname, resourceName(url))) {
+            collector.add({ type: 'PIXEL', name: resourceName(url), domain: url.hostname }, phase, pageUrl);
+        }
+    }
+}
+
+async function clickAccept(page: Page): Promise<boolean> {
+    for (const selector of ACCEPT_SELECTORS) {
+        const button = await page.$(selector);
+        if (button && await button.isVisible()) {
+            await button.click();
+            return true;
+        }
+    }
+    return false;
+}
+
+async function settle(page: Page): Promise<void> {
+    await page.waitForNetworkIdle({ idleTime: 500, timeout: config.scanner.settleMs }).catch(() => undefined);
+    await new Promise((resolve) => setTimeout(resolve, config.scanner.settleMs));
+}
+
+/**
+ * Scan one page in a fresh browser context, so no consent carries over:
+ * load it without consent, click Accept All, then reload with consent stored.
+ * Returns the page result and the same-site links found.
+ */
+async function scanPage(
+    browser: Browser,
+    pageUrl: string,
+    collector: ScanCollector,
+    publicHosts: Map<string, Promise<boolean>>
+): Promise<{ page: ScanPage; links: string[] }> {
+    const context = await browser.createBrowserContext();
+    try {
+        const page = await context.newPage();
+        page.setDefaultNavigationTimeout(config.scanner.navigationTimeoutMs);
+        await guardRequests(page, publicHosts);
+        const state = { phase: 'before' as Phase, pageUrl };
+        watchRequests(page, collector, state);
+
+        const response = await page.goto(pageUrl, { waitUntil: 'load' });
+        await settle(page);
+        await collectState(context, page, collector, 'before', pageUrl);
+
+        const links = await page.$$eval('a[href]', (anchors) =>
+            anchors.map((a) => (a as HTMLAnchorElement).href)
+        );
+
+        // Requests triggered by the click already count as after consent
+        state.phase = 'after';
+        const acceptClicked = await clickAccept(page);
+        if (!acceptClicked) {
+            state.phase = 'before';
+        } else {
+            await settle(page);
+            await collectState(context, page, collector, 'after', pageUrl);
+            // Some sites only load consented tags on the next page view
+            await page.reload({ waitUntil: 'load' });
+            await settle(page);
+            await collectState(context, page, collector, 'after', pageUrl);
+        }
+
+        return {
+            page: { url: pageUrl, status: response ? response.status() : null, acceptClicked },
+            links,
+        };
+    } finally {
+        await context.close();
+    }
+}
+
+/**
+ * Scanner Service.
+ * Crawls a website with headless Chrome and lists the cookies, localStorage
+ * keys, scripts, iframes and pixels seen before consent and after Accept All,
+ * each with a suggested purpose.
+ */
+export const scannerService = {
+    /**
+     * Crawl from the start URLs, following links on the same hosts,
+     * until maxPages pages have been visited. Items are matched against
+     * the given known trackers.
+     */
+    async scan(
+        startUrls: string[],
+        maxPages: number,
+        purposes: Array<{ tag: string; isEssential: boolean }> = [],
+        trackers: TrackerCatalogueEntry[] = []
+    ): Promise<{ pages: ScanPage[]; items: ScanItem[] }> {
+        const hosts = new Set(startUrls.map((url) => new URL(url).hostname));
+        const collector = new ScanCollector(new URL(startUrls[0]).hostname, trackers);
+        const pages: ScanPage[] = [];
+        const queue = [...startUrls];
+        const seen = new Set<string>();
+        const publicHosts = new Map<string, Promise<boolean>>();
+
+        // Pages are untrusted: keep Chrome's sandbox on
+        const browser = await puppeteer.launch({
+            headless: true,
+            args: ['--disable-dev-shm-usage'],
+        });
+        try {
+            while (queue.length > 0 && pages.length < maxPages) {
+                const url = toUrl(queue.shift() as string);
+                if (!url) {
+                    continue;
+                }
+                url.hash = '';
+                if (seen.has(url.href)) {
+                    continue;
+                }
+                seen.add(url.href);
+
+                try {
+                    const result = await scanPage(browser, url.href, collector, publicHosts);
+                    pages.push(result.page);
+                    for (const link of result.links) {
+                        const next = toUrl(link);
+                        if (next && hosts.has(next.hostname)) {
+                            next.hash = '';
+                            if (!seen.has(next.href)) {
+                                queue.push(next.href);
+                            }
+                        }
+                    }
+                } catch (error) {
+                    pages.push({
+                        url: url.href,
+                        status: null,
+                        acceptClicked: false,
+                        error: error instanceof Error ? error.message : String(error),
+                    });
+                }
+            }
+        } finally {
+            await browser.close();
+        }
+
+        const items = collector.list().map((item) => ({
+            ...item,
+            suggestedPurpose: suggestPurposeTag(item.suggestedCategory, purposes),
+        }));
+        return { pages, items };
+    },
+};
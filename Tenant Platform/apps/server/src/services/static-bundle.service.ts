@@ -0,0 +1,185 @@
+import * as crypto from 'crypto';
+import { config } from '../config';
+import { websiteRepository } from '../repositories';
+import { createLocalStore, createS3Store, StaticStore } from '../utils/static-store';
+import { loaderService } from './loader.service';
+import { runtimeService } from './runtime.service';
+
+/**
+ * What was last written for a website, kept next to its files
+ */
+export interface StaticBundleManifest {
+    siteId: string;
+    configFile: string;
+    configVersion: number;
+    contentHash: string;
+    // Loader build inlined in loader.js; null without per-site loaders
+    loaderHash: string | null;
+    writtenAt: string;
+}
+
+let store: StaticStore | null = null;
+
+function getStore(): StaticStore {
+    if (!store) {
+        const settings = config.staticBundles;
+        store = settings.store === 's3' ? createS3Store(settings.s3) : createLocalStore(settings.localDir);
+    }
+    return store;
+}
+
+function siteKey(siteId: string, file: string): string {
+    return `sites/${siteId}/${file}`;
+}
+
+/**
+ * Static Bundle Service.
+ * Writes each active website's runtime config to the static store, where a
+ * CDN serves it without touching this server or the database:
+ *   sites/<siteId>/config.v<configVersion>.<hash>.json  immutable
+ *   sites/<siteId>/config.json                           latest, revalidated
+ *   sites/<siteId>/loader.js                             loader with the config inlined
+ */
+export const staticBundleService = {
+    isEnabled(): boolean {
+        return !!config.staticBundles.store;
+    },
+
+    /**
+     * Public URL of one of a website's files
+     */
+    fileUrl(siteId: string, file: string): string {
+        return `${config.staticBundles.publicUrl}/${siteKey(siteId, file)}`;
+    },
+
+    /**
+     * Contents of one of a website's files, or null
+     */
+    async read(siteId: string, file: string): Promise<string | null> {
+        return getStore().get(siteKey(siteId, file));
+    },
+
+    /**
+     * The loader for GET /public/loader.js, from the static store alone: the
+     * per-site loader, or the shared one pointed at the versioned config.
+     * Null when the website has no files, because it is not active or has
+     * not been synced yet.
+     */
+    async loaderScript(siteId: string, apiBase: string): Promise<string | null> {
+        if (config.staticBundles.siteLoaders) {
+            return this.read(siteId, 'loader.js');
+        }
+
+        const stored = await this.read(siteId, 'manifest.json');
+        const manifest: StaticBundleManifest | null = stored ? JSON.parse(stored) : null;
+        const body = manifest ? await this.read(siteId, manifest.configFile) : null;
+        if (!manifest || !body) {
+            return null;
+        }
+
+        const bootstrap = loaderService.buildBootstrap(siteId, apiBase, JSON.parse(body));
+        bootstrap.configUrl = this.fileUrl(siteId, manifest.configFile);
+        return loaderService.render(bootstrap);
+    },
+
+    /**
+     * Write the config the runtime API serves for the website, and its
+     * loader. Nothing is written when neither changed since the last sync.
+     * A website that is not active loses its files, so the static origin
+     * fails closed like the API.
+     */
+    async sync(siteId: string): Promise<StaticBundleManifest | null> {
+        const target = getStore();
+        const manifestKey = siteKey(siteId, 'manifest.json');
+        const stored = await target.get(manifestKey);
+        const previous: StaticBundleManifest | null = stored ? JSON.parse(stored) : null;
+
+        // Past the runtime cache, so the periodic sync also picks up changes
+        // nothing evicts for, such as the global rules
+        const website = await runtimeService.loadWebsiteConfig(siteId);
+        if (!website) {
+            if (previous) {
+                await this.remove(siteId);
+            }
+            return null;
+        }
+
+        const body = JSON.stringify(website);
+        const contentHash = crypto.createHash('sha256').update(body).digest('hex').slice(0, 12);
+        const configFile = `config.v${website.configVersion || 0}.${contentHash}.json`;
+        const loaderHash = config.staticBundles.siteLoaders ? loaderService.getBundle().hash : null;
+        if (previous && previous.configFile === configFile && previous.loaderHash === loaderHash) {
+            return previous;
+        }
+
+        // The versioned file first: nothing may point at a file not yet written
+        await target.put(siteKey(siteId, configFile), body, 'application/json');
+        await target.put(siteKey(siteId, 'config.json'), body, 'application/json');
+        if (loaderHash) {
+            const bootstrap = loaderService.buildBootstrap(siteId, config.staticBundles.apiUrl, website);
+            bootstrap.config = website;
+            await target.put(siteKey(siteId, 'loader.js'), loaderService.render(bootstrap), 'application/javascript');
+        } else if (previous?.loaderHash) {
+            await target.delete(siteKey(siteId, 'loader.js'));
+        }
+
+        const manifest: StaticBundleManifest = {
+            siteId,
+            configFile,
+            configVersion: website.configVersion || 0,
+            contentHash,
+            loaderHash,
+            writtenAt: new Date().toISOString(),
+        };
+        await target.put(manifestKey, JSON.stringify(manifest, null, 2), 'application/json');
+        return manifest;
+    },
+
+    /**
+     * sync() for callers that must not fail with it: publishing, status and
+     * consent lifetime changes. The periodic sync retries what fails here.
+     */
+    async refresh(siteId: string): Promise<void> {
+        if (!this.isEnabled()) {
+            return;
+        }
+        try {
+            await this.sync(siteId);
+        } catch (error) {
+            console.error(`❌ Static bundle sync failed for website ${siteId}:`, error);
+        }
+    },
+
+    /**
+     * Remove the files pages load. Versioned configs stay: nothing points
+     * at them any more, and a CDN may hold them anyway.
+     */
+    async remove(siteId: string): Promise<void> {
+        const target = getStore();
+        await target.delete(siteKey(siteId, 'loader.js'));
+        await target.delete(siteKey(siteId, 'config.json'));
+        await target.delete(siteKey(siteId, 'manifest.json'));
+    },
+
+    /**
+     * Sync every active website. Returns how many were written and how many failed.
+     */
+    async syncAll(): Promise<{ written: number; failed: number }> {
+        const siteIds = await websiteRepository.findIdsByStatus('ACTIVE');
+        let written = 0;
+        let failed = 0;
+        for (const siteId of siteIds) {
+            try {
+                const before = await getStore().get(siteKey(siteId, 'manifest.json'));
+                const manifest = await this.sync(siteId);
+                if (manifest && JSON.stringify(manifest, null, 2) !== before) {
+                    written++;
+                }
+            } catch (error) {
+                failed++;
+                console.error(`❌ Static bundle sync failed for website ${siteId}:`, error);
+            }
+        }
+        return { written, failed };
+    },
+};
@@ -0,0 +1,212 @@
+import { tcfRepository, purposeRepository, websiteRepository, auditRepository } from '../repositories';
+import { ApiError } from '../middleware';
+import { TcfSettings, TcfVendor, TcfVendorList, TcfVendorListEntry, WebsiteTcfSettings } from '../types';
+import { ImportTcfVendorListInput, UpdateTcfSettingsInput } from '../validators';
+
+function toSettings(settings: WebsiteTcfSettings | null): TcfSettings {
+    if (!settings) {
+        return {
+            enabled: false,
+            publisherCountryCode: 'AA',
+            selectedVendorIds: [],
+            purposeMapping: {},
+            vendorList: null,
+        };
+    }
+
+    return {
+        enabled: settings.enabled,
+        publisherCountryCode: settings.publisherCountryCode,
+        selectedVendorIds: settings.selectedVendorIds,
+        purposeMapping: settings.purposeMapping,
+        vendorList: settings.vendorListVersion && settings.vendorListImportedAt
+            ? {
+                vendorListVersion: settings.vendorListVersion,
+                tcfPolicyVersion: settings.tcfPolicyVersion || 0,
+                importedAt: settings.vendorListImportedAt,
+            }
+            : null,
+    };
+}
+
+// Vendors that can be selected: listed and not deleted from the GVL
+function activeVendorIds(vendorList: TcfVendorList | null): Set<number> {
+    if (!vendorList) {
+        return new Set();
+    }
+    return new Set(
+        Object.values(vendorList.vendors)
+            .filter((vendor) => !vendor.deletedDate)
+            .map((vendor) => vendor.id)
+    );
+}
+
+/**
+ * TCF Service.
+ * Optional IAB TCF v2.2 mode for publishers with EU traffic. Tenants import
+ * the Global Vendor List from a file, pick their vendors and say which IAB
+ * purposes each of their own purposes covers; the loader encodes the TC string.
+ */
+export const tcfService = {
+    /**
+     * Get TCF settings for a website.
+     * Returns disabled defaults if never configured.
+     */
+    async get(websiteId: string, tenantId: string): Promise<TcfSettings> {
+        await this.requireWebsite(websiteId, tenantId);
+        return toSettings(await tcfRepository.findByWebsiteId(websiteId));
+    },
+
+    /**
+     * Purposes, special features and active vendors of the imported vendor list
+     */
+    async getVendorList(websiteId: string, tenantId: string): Promise<{
+        vendorListVersion: number;
+        tcfPolicyVersion: number;
+        lastUpdated: string;
+        purposes: TcfVendorListEntry[];
+        specialFeatures: TcfVendorListEntry[];
+        vendors: TcfVendor[];
+    }> {
+        await this.requireWebsite(websiteId, tenantId);
+
+        const vendorList = await tcfRepository.findVendorList(websiteId);
+        if (!vendorList) {
+            throw new Error('Vendor list not found');
+        }
+
+        const byId = (a: TcfVendorListEntry, b: TcfVendorListEntry) => a.id - b.id;
+        return {
+            vendorListVersion: vendorList.vendorListVersion,
+            tcfPolicyVersion: vendorList.tcfPolicyVersion,
+            lastUpdated: vendorList.lastUpdated,
+            purposes: Object.values(vendorList.purposes).sort(byId),
+            specialFeatures: Object.values(vendorList.specialFeatures).sort(byId),
+            vendors: Object.values(vendorList.vendors)
+                .filter((vendor) => !vendor.deletedDate)
+                .sort((a, b) => a.name.localeCompare(b.name)),
+        };
+    },
+
+    /**
+     * Replace the local copy of the Global Vendor List.
+     * Selected vendors no longer in the list are deselected.
+     */
+    async importVendorList(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        input: ImportTcfVendorListInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<TcfSettings> {
+        await this.requireWebsite(websiteId, tenantId);
+
+        const vendorList: TcfVendorList = input;
+        const available = activeVendorIds(vendorList);
+        if (available.size === 0) {
+            throw new ApiError('The vendor list contains no vendors', 400);
+        }
+
+        const existing = await tcfRepository.findByWebsiteId(websiteId);
+        const previousSelection = existing ? existing.selectedVendorIds : [];
+        const selectedVendorIds = previousSelection.filter((id) => available.has(id));
+
+        const settings = await tcfRepository.saveVendorList(websiteId, vendorList, selectedVendorIds);
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'TCF_VENDOR_LIST_IMPORTED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: {
+                    vendorListVersion: vendorList.vendorListVersion,
+                    tcfPolicyVersion: vendorList.tcfPolicyVersion,
+                    previousVersion: existing?.vendorListVersion ?? null,
+                    vendorCount: available.size,
+                    deselectedVendorIds: previousSelection.filter((id) => !available.has(id)),
+                },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return toSettings(settings);
+    },
+
+    /**
+     * Save TCF settings. Saved to the draft; visitors see the change once
+     * the website configuration is published.
+     */
+    async update(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        input: UpdateTcfSettingsInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<TcfSettings> {
+        await this.requireWebsite(websiteId, tenantId);
+
+        const vendorList = await tcfRepository.findVendorList(websiteId);
+        if (input.enabled && !vendorList) {
+            throw new ApiError('Import a Global Vendor List before enabling TCF', 400);
+        }
+
+        // Selected vendors must be active in the imported list
+        const available = activeVendorIds(vendorList);
+        for (const id of input.selectedVendorIds) {
+            if (!available.has(id)) {
+                throw new ApiError(`Unknown vendor: ${id}`, 400);
+            }
+        }
+
+        // Mapped tags must belong to this website's purposes
+        const tags = new Set((await purposeRepository.findByWebsiteId(websiteId)).map((p) => p.tag));
+        for (const tag of Object.keys(input.purposeMapping)) {
+            if (!tags.has(tag)) {
+                throw new ApiError(`Unknown purpose: ${tag}`, 400);
+            }
+        }
+
+        const existing = await tcfRepository.findByWebsiteId(websiteId);
+        const settings = await tcfRepository.upsertSettings(websiteId, {
+            ...input,
+            selectedVendorIds: Array.from(new Set(input.selectedVendorIds)).sort((a, b) => a - b),
+        });
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'TCF_SETTINGS_UPDATED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: {
+                    previous: existing
+                        ? { enabled: existing.enabled, vendorCount: existing.selectedVendorIds.length }
+                        : null,
+                    enabled: settings.enabled,
+                    publisherCountryCode: settings.publisherCountryCode,
+                    vendorCount: settings.selectedVendorIds.length,
+                    purposeMapping: settings.purposeMapping,
+                },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return toSettings(settings);
+    },
+
+    async requireWebsite(websiteId: string, tenantId: string) {
+        // Verify website ownership
+        const website = await websiteRepository.findByIdAndTenant(websiteId, tenantId);
+        if (!website) {
+            throw new Error('Website not found');
+        }
+        return website;
+    },
+};
@@ -0,0 +1,69 @@
+import { config } from '../config';
+import { telemetryRepository, websiteRepository } from '../repositories';
+import { TelemetryBatchInput } from '../validators';
+import { analyticsService } from './analytics.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Loader Telemetry Service.
+ * Stores the banner lifecycle events the loader reports (banner shown,
+ * settings opened, language switched, rights form opened, dismissed without
+ * action). Treated as strictly necessary: events carry no visitor ID, and
+ * the user agent is reduced to a device type before anything is stored.
+ */
+export const telemetryService = {
+    /**
+     * Store a batch of events sent by the loader. Counts are scaled up by the
+     * configured sample rate; the one in the batch is ignored, since anyone
+     * can send a tiny rate to inflate a website's counts.
+     */
+    async recordBatch(siteId: string, input: TelemetryBatchInput, userAgent?: string): Promise<void> {
+        const website = await websiteRepository.findById(siteId);
+        if (!website || website.status !== 'ACTIVE') {
+            throw new Error('Website not found or not active');
+        }
+
+        await telemetryRepository.insertEvents(
+            siteId,
+            {
+                deviceType: analyticsService.classifyDevice(userAgent),
+                sampleRate: config.telemetry.sampleRate,
+                variant: input.variant || null,
+            },
+            input.events.map((e) => ({
+                event: e.event,
+                languageCode: e.language ? e.language.toLowerCase() : null,
+                action: e.action || null,
+                optIn: e.optIn ?? null,
+                decisionMs: e.decisionMs ?? null,
+            }))
+        );
+    },
+
+    /**
+     * Create the partitions of today and the next few days, and drop those
+     * past the retention period. Safe to run any number of times.
+     */
+    async maintainPartitions(now: number = Date.now()): Promise<{ created: string[]; dropped: string[] }> {
+        const created: string[] = [];
+        for (let ahead = 0; ahead <= config.telemetry.partitionsAhead; ahead++) {
+            const day = toDay(now + ahead * DAY_MS);
+            await telemetryRepository.createPartition(day);
+            created.push(day);
+        }
+
+        const oldestKept = toDay(now - (config.telemetry.retentionDays - 1) * DAY_MS);
+        const dropped: string[] = [];
+        for (const day of await telemetryRepository.findPartitionDays()) {
+            if (day < oldestKept) {
+                await telemetryRepository.dropPartition(day);
+                dropped.push(day);
+            }
+        }
+
+        return { created, dropped };
+    },
+};
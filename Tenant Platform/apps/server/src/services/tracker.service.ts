@@ -0,0 +1,137 @@
+import { trackerRepository, purposeRepository, websiteRepository, auditRepository } from '../repositories';
+import { ApiError } from '../middleware';
+import { TrackerCatalogueEntry, WebsiteTracker } from '../types';
+import { AdoptTrackersInput } from '../validators';
+import { suggestPurposeTag } from './scanner.service';
+
+/**
+ * Tracker Service.
+ * Tenants adopt trackers from the known-tracker catalogue into their
+ * website's purposes. Adoptions are part of the draft; once published,
+ * the loader blocks adopted trackers until their purpose is consented,
+ * even on tags the site did not mark up.
+ */
+export const trackerService = {
+    /**
+     * Active catalogue entries
+     */
+    async getCatalogue(): Promise<TrackerCatalogueEntry[]> {
+        return trackerRepository.findCatalogue();
+    },
+
+    /**
+     * Trackers adopted by a website
+     */
+    async list(websiteId: string, tenantId: string): Promise<WebsiteTracker[]> {
+        await this.requireWebsite(websiteId, tenantId);
+        return trackerRepository.findByWebsiteId(websiteId);
+    },
+
+    /**
+     * Adopt trackers into purposes. Trackers without a purpose tag go to the
+     * purpose matching their category. Returns the website's adopted trackers.
+     */
+    async adopt(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        input: AdoptTrackersInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<WebsiteTracker[]> {
+        await this.requireWebsite(websiteId, tenantId);
+
+        const ids = Array.from(new Set(input.trackers.map((t) => t.trackerId)));
+        const entries = new Map((await trackerRepository.findCatalogueEntries(ids)).map((e) => [e.id, e]));
+        const purposes = (await purposeRepository.findByWebsiteId(websiteId)).filter((p) => p.status === 'ACTIVE');
+        const purposeIds = new Map(purposes.map((p) => [p.tag, p.id]));
+
+        // Resolve everything before writing so a bad entry adopts nothing
+        const adoptions: Array<{ tracker: TrackerCatalogueEntry; purposeTag: string }> = [];
+        for (const item of input.trackers) {
+            const tracker = entries.get(item.trackerId);
+            if (!tracker) {
+                throw new ApiError(`Unknown tracker: ${item.trackerId}`, 400);
+            }
+            const purposeTag = item.purposeTag || suggestPurposeTag(tracker.category, purposes);
+            if (!purposeTag) {
+                throw new ApiError(`No ${tracker.category} purpose to adopt ${tracker.name} into; choose a purpose`, 400);
+            }
+            if (!purposeIds.has(purposeTag)) {
+                throw new ApiError(`Unknown purpose: ${purposeTag}`, 400);
+            }
+            adoptions.push({ tracker, purposeTag });
+        }
+
+        for (const { tracker, purposeTag } of adoptions) {
+            await trackerRepository.adopt({
+                websiteId,
+                trackerId: tracker.id,
+                purposeId: purposeIds.get(purposeTag) as string,
+                createdBy: actorId,
+            });
+        }
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'TRACKERS_ADOPTED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: {
+                    trackers: adoptions.map(({ tracker, purposeTag }) => ({
+                        trackerId: tracker.id,
+                        name: tracker.name,
+                        purposeTag,
+                    })),
+                },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return trackerRepository.findByWebsiteId(websiteId);
+    },
+
+    /**
+     * Stop blocking an adopted tracker
+     */
+    async remove(
+        websiteId: string,
+        tenantId: string,
+        actorId: string,
+        trackerId: string,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<void> {
+        await this.requireWebsite(websiteId, tenantId);
+
+        const removed = await trackerRepository.remove(websiteId, trackerId);
+        if (!removed) {
+            throw new Error('Adopted tracker not found');
+        }
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'TRACKER_REMOVED',
+            {
+                resourceType: 'website',
+                resourceId: websiteId,
+                metadata: { trackerId },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+    },
+
+    async requireWebsite(websiteId: string, tenantId: string) {
+        // Verify website ownership
+        const website = await websiteRepository.findByIdAndTenant(websiteId, tenantId);
+        if (!website) {
+            throw new Error('Website not found');
+        }
+        return website;
+    },
+};
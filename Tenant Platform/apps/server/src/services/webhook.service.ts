@@ -0,0 +1,361 @@
+import * as crypto from 'crypto';
+import { config } from '../config';
+import { auditRepository, webhookRepository, websiteRepository } from '../repositories';
+import { ApiError } from '../middleware';
+import {
+    PaginatedResponse,
+    WebhookDelivery,
+    WebhookDeliveryJob,
+    WebhookDeliveryStatus,
+    WebhookEndpoint,
+    WebhookEndpointWithSecret,
+    WebhookEventType,
+} from '../types';
+import { WebhookDeliveryFiltersInput, WebhookEndpointInput } from '../validators';
+import { isInternalHost, postToPublicHost } from '../utils/outbound-http';
+
+// Receivers verify the HMAC-SHA256 of "<timestamp>.<body>" sent in this header
+export const WEBHOOK_SIGNATURE_HEADER = 'X-ComplyArk-Signature';
+
+const MAX_STORED_RESPONSE = 1000;
+
+function generateSecret(): string {
+    return 'whsec_' + crypto.randomBytes(24).toString('hex');
+}
+
+/**
+ * Webhook Service.
+ * Tenants register endpoints for consent, rights request and publish events.
+ * Events are queued in webhook_deliveries and posted by the webhook delivery
+ * job, signed with the endpoint secret and retried with exponential backoff.
+ * Queuing never fails the action that raised the event.
+ */
+export const webhookService = {
+    async list(tenantId: string): Promise<WebhookEndpoint[]> {
+        return webhookRepository.findByTenantId(tenantId);
+    },
+
+    /**
+     * Register an endpoint. The secret is only shown in this response
+     * and when it is rotated.
+     */
+    async create(
+        tenantId: string,
+        actorId: string,
+        input: WebhookEndpointInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<WebhookEndpointWithSecret> {
+        await this.checkEndpoint(tenantId, input);
+
+        const endpoint = await webhookRepository.create({
+            ...input,
+            tenantId,
+            secret: generateSecret(),
+            createdBy: actorId,
+        });
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'WEBHOOK_CREATED',
+            {
+                resourceType: 'webhook',
+                resourceId: endpoint.id,
+                metadata: { url: endpoint.url, events: endpoint.events, websiteId: endpoint.websiteId },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return endpoint;
+    },
+
+    async update(
+        tenantId: string,
+        actorId: string,
+        endpointId: string,
+        input: WebhookEndpointInput,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<WebhookEndpoint> {
+        await this.requireEndpoint(tenantId, endpointId);
+        await this.checkEndpoint(tenantId, input);
+
+        const endpoint = await webhookRepository.update(tenantId, endpointId, input);
+        if (!endpoint) {
+            throw new Error('Webhook not found');
+        }
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'WEBHOOK_UPDATED',
+            {
+                resourceType: 'webhook',
+                resourceId: endpointId,
+                metadata: { changes: input },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return endpoint;
+    },
+
+    /**
+     * Remove an endpoint with its delivery log
+     */
+    async delete(
+        tenantId: string,
+        actorId: string,
+        endpointId: string,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<void> {
+        const endpoint = await this.requireEndpoint(tenantId, endpointId);
+        await webhookRepository.delete(tenantId, endpointId);
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'WEBHOOK_DELETED',
+            {
+                resourceType: 'webhook',
+                resourceId: endpointId,
+                metadata: { url: endpoint.url },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+    },
+
+    /**
+     * Replace the signing secret. Queued deliveries are signed with the new
+     * secret from their next attempt on.
+     */
+    async rotateSecret(
+        tenantId: string,
+        actorId: string,
+        endpointId: string,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<WebhookEndpointWithSecret> {
+        const endpoint = await webhookRepository.updateSecret(tenantId, endpointId, generateSecret());
+        if (!endpoint) {
+            throw new Error('Webhook not found');
+        }
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'WEBHOOK_SECRET_ROTATED',
+            {
+                resourceType: 'webhook',
+                resourceId: endpointId,
+                metadata: { url: endpoint.url },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return endpoint;
+    },
+
+    async listDeliveries(
+        tenantId: string,
+        endpointId: string,
+        filters: WebhookDeliveryFiltersInput
+    ): Promise<PaginatedResponse<WebhookDelivery>> {
+        await this.requireEndpoint(tenantId, endpointId);
+        return webhookRepository.findDeliveries(endpointId, filters);
+    },
+
+    /**
+     * Queue a delivery's payload again, with the same event ID
+     */
+    async redeliver(
+        tenantId: string,
+        actorId: string,
+        endpointId: string,
+        deliveryId: string,
+        requestInfo: { ipAddress?: string; userAgent?: string }
+    ): Promise<WebhookDelivery> {
+        await this.requireEndpoint(tenantId, endpointId);
+
+        const delivery = await webhookRepository.findDelivery(endpointId, deliveryId);
+        if (!delivery) {
+            throw new Error('Webhook delivery not found');
+        }
+        if (delivery.status === 'PENDING') {
+            throw new ApiError('This delivery is still being attempted', 409);
+        }
+
+        const redelivery = await webhookRepository.enqueueRedelivery(delivery);
+
+        // Audit log
+        await auditRepository.create(
+            tenantId,
+            actorId,
+            'WEBHOOK_REDELIVERED',
+            {
+                resourceType: 'webhook',
+                resourceId: endpointId,
+                metadata: { deliveryId, redeliveryId: redelivery.id, eventType: delivery.eventType },
+                ipAddress: requestInfo.ipAddress,
+                userAgent: requestInfo.userAgent,
+            }
+        );
+
+        return redelivery;
+    },
+
+    /**
+     * Queue an event for every active endpoint of the tenant subscribed to it.
+     * Failures are logged, never thrown: webhooks must not break consent
+     * recording, rights request intake or publishing.
+     */
+    async dispatch(
+        tenantId: string,
+        websiteId: string | null,
+        type: WebhookEventType,
+        data: Record<string, unknown>
+    ): Promise<void> {
+        try {
+            const endpointIds = await webhookRepository.findSubscribed(tenantId, websiteId, type);
+            if (endpointIds.length === 0) {
+                return;
+            }
+
+            await webhookRepository.enqueue(endpointIds, {
+                id: crypto.randomUUID(),
+                type,
+                createdAt: new Date().toISOString(),
+                tenantId,
+                websiteId,
+                data,
+            });
+        } catch (error) {
+            console.error(`❌ Cannot queue ${type} webhook:`, error);
+        }
+    },
+
+    /**
+     * Claim and send the deliveries that are due. Returns the number sent.
+     */
+    async deliverDue(): Promise<number> {
+        // Long enough for the request to time out before anyone else claims it
+        const leaseSeconds = Math.ceil(config.webhooks.timeoutMs / 1000) + 30;
+        const jobs = await webhookRepository.claimDue(config.webhooks.batchSize, leaseSeconds);
+        await Promise.all(jobs.map((job) => this.deliver(job)));
+        return jobs.length;
+    },
+
+    /**
+     * Post one delivery and record the outcome. A 2xx answer succeeds;
+     * anything else is retried until the attempts run out. In production the
+     * host is resolved again on every attempt and refused when internal. Only
+     * successful answers are kept, so a failing receiver cannot pass content
+     * back through the delivery log.
+     */
+    async deliver(job: WebhookDeliveryJob, now = Date.now()): Promise<WebhookDeliveryStatus> {
+        const body = JSON.stringify(job.payload);
+        const timestamp = Math.floor(now / 1000);
+        const attempts = job.attempts + 1;
+
+        let responseStatus: number | null = null;
+        let responseBody: string | null = null;
+        let error: string | null = null;
+        try {
+            // Redirects are not followed: they could point anywhere
+            const response = await postToPublicHost(job.url, {
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'ComplyArk-Webhooks/1.0',
+                    'X-ComplyArk-Event': job.payload.type,
+                    'X-ComplyArk-Delivery': job.id,
+                    [WEBHOOK_SIGNATURE_HEADER]: `t=${timestamp},v1=${this.sign(job.secret, timestamp, body)}`,
+                },
+                body,
+                timeoutMs: config.webhooks.timeoutMs,
+                maxResponseBytes: MAX_STORED_RESPONSE,
+                publicOnly: config.server.nodeEnv === 'production',
+            });
+            responseStatus = response.status;
+            if (responseStatus >= 200 && responseStatus < 300) {
+                responseBody = response.body;
+            }
+        } catch (err) {
+            error = ((err as Error).message || 'Request failed').slice(0, MAX_STORED_RESPONSE);
+        }
+
+        const succeeded = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+        if (!succeeded && !error) {
+            error = `Receiver answered ${responseStatus}`;
+        }
+        const status: WebhookDeliveryStatus = succeeded
+            ? 'SUCCEEDED'
+            : attempts >= config.webhooks.maxAttempts ? 'FAILED' : 'PENDING';
+
+        await webhookRepository.recordAttempt(job.id, {
+            status,
+            attempts,
+            nextAttemptAt: status === 'PENDING' ? new Date(now + this.retryDelayMs(attempts)) : null,
+            responseStatus,
+            responseBody,
+            error,
+        });
+        return status;
+    },
+
+    /**
+     * Wait before the next attempt: doubles from the base delay, up to the cap
+     */
+    retryDelayMs(attempts: number): number {
+        const { retryBaseSeconds, retryMaxSeconds } = config.webhooks;
+        return Math.min(retryBaseSeconds * 2 ** (attempts - 1), retryMaxSeconds) * 1000;
+    },
+
+    /**
+     * HMAC-SHA256 of "<timestamp>.<body>" with the endpoint secret
+     */
+    sign(secret: string, timestamp: number, body: string): string {
+        return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    },
+
+    /**
+     * Drop finished deliveries past the retention period
+     */
+    async prune(now = Date.now()): Promise<number> {
+        return webhookRepository.deleteCompletedBefore(
+            new Date(now - config.webhooks.retentionDays * 24 * 60 * 60 * 1000)
+        );
+    },
+
+    /**
+     * Production servers only post to public https URLs
+     */
+    async checkEndpoint(tenantId: string, input: WebhookEndpointInput): Promise<void> {
+        if (config.server.nodeEnv === 'production') {
+            const url = new URL(input.url);
+            if (url.protocol !== 'https:') {
+                throw new ApiError('Webhook URLs must use https', 400);
+            }
+            if (isInternalHost(url.hostname)) {
+                throw new ApiError('Webhook URLs must point to a public host', 400);
+            }
+        }
+
+        if (input.websiteId && !(await websiteRepository.findByIdAndTenant(input.websiteId, tenantId))) {
+            throw new Error('Website not found');
+        }
+    },
+
+    async requireEndpoint(tenantId: string, endpointId: string): Promise<WebhookEndpoint> {
+        const endpoint = await webhookRepository.findById(tenantId, endpointId);
+        if (!endpoint) {
+            throw new Error('Webhook not found');
+        }
+        return endpoint;
+    },
+};
@@ -57,7 +57,8 @@ export class WebsiteTranslationService {
                                     withdrawalInstruction: translatedFields.withdrawalInstruction,
                                     complaintInstruction: translatedFields.complaintInstruction
                                 },
-                                requestInfo
+                                requestInfo,
+                                'MINOR'
                             );
                             result.notice.languages.push(targetLang);
                         } catch (err) {
@@ -97,7 +98,7 @@ export class WebsiteTranslationService {
                             .filter(t => t.languageCode === 'en' || !langsToTranslate.includes(t.languageCode))
                             .map(t => ({ languageCode: t.languageCode, name: t.name, description: t.description }));
                         const mergedTranslations = [...existingTrans, ...newTranslations];
-                        await purposeService.updateTranslations(purpose.id, tenantId, userId, mergedTranslations, requestInfo);
+                        await purposeService.updateTranslations(purpose.id, tenantId, userId, mergedTranslations, requestInfo, 'MINOR');
                         result.purposes.translated++;
                     }
                 }
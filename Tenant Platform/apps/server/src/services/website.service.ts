@@ -1,5 +1,8 @@
-import { websiteRepository, auditRepository } from '../repositories';
-import { Website, WebsiteWithStats, WebsiteStatus } from '../types';
+import { websiteRepository, publishedConfigRepository, auditRepository } from '../repositories';
+import { publishService } from './publish.service';
+import { runtimeService } from './runtime.service';
+import { staticBundleService } from './static-bundle.service';
+import { Website, WebsiteWithStats, WebsiteStatus, PublishedConfig } from '../types';
 import { CreateWebsiteInput, UpdateWebsiteStatusInput } from '../validators';
 
 /**
@@ -100,7 +103,18 @@ export const websiteService = {
         }
 
         const previousStatus = website.status;
-        const updatedWebsite = await websiteRepository.updateStatus(websiteId, input.status);
+        let updatedWebsite: Website | null;
+        let published: PublishedConfig | null = null;
+        if (input.status === 'ACTIVE') {
+            // The first activation publishes the current configuration in the
+            // same transaction, so the runtime endpoint has a snapshot to serve
+            const firstPublish = (await publishedConfigRepository.findLatest(websiteId))
+                ? undefined
+                : await publishService.buildFirstPublish(websiteId, actorId, 'Published on activation');
+            ({ website: updatedWebsite, published } = await websiteRepository.activate(websiteId, firstPublish));
+        } else {
+            updatedWebsite = await websiteRepository.updateStatus(websiteId, input.status);
+        }
 
         if (!updatedWebsite) {
             throw new Error('Failed to update website status');
@@ -124,6 +138,15 @@ export const websiteService = {
             }
         );
 
+        if (published) {
+            await publishService.recordPublished(tenantId, actorId, published, null, requestInfo);
+        }
+
+        // Only ACTIVE websites are served
+        await runtimeService.invalidate(websiteId);
+        // Activation writes the static files, suspension removes them
+        await staticBundleService.refresh(websiteId);
+
         return updatedWebsite;
     },
 
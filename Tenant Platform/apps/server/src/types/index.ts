@@ -2,6 +2,8 @@
  * Core entity types for the Tenant Platform
  */
 
+import type { RuntimeWebsiteConfig } from '../services/runtime.service';
+
 // ==================== User Types ====================
 
 export interface TenantUser {
@@ -155,6 +157,374 @@ export interface BannerWithTranslations {
     translations: BannerTranslation[];
 }
 
+// Banner styles a variant may override
+export type BannerVariantStyles = Partial<Pick<BannerCustomization,
+    'primaryColor' | 'secondaryColor' | 'backgroundColor' | 'textColor' | 'acceptButtonColor' |
+    'rejectButtonColor' | 'position' | 'layout' | 'fontFamily' | 'fontSize' | 'focusOutlineColor'>>;
+
+// Banner text of one language a variant may override
+export interface BannerVariantText {
+    headline?: string;
+    description?: string;
+    acceptButton?: string;
+    rejectButton?: string;
+    preferencesButton?: string;
+}
+
+// Alternative banner shown to a share of visitors (A/B test)
+export interface BannerVariant {
+    id: string;
+    websiteId: string;
+    name: string;
+    trafficPercent: number;
+    styles: BannerVariantStyles;
+    text: Record<string, BannerVariantText>; // Language code -> overrides
+    archivedAt: Date | null; // Set when the experiment ended
+    createdBy: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Outcomes of one arm of the running experiment, from loader telemetry.
+// Counts are estimates scaled up by the telemetry sample rate
+export interface BannerVariantResult {
+    variantId: string; // "control" for the default banner
+    name: string;
+    trafficPercent: number;
+    shown: number;
+    decisions: number;
+    acceptAll: number;
+    rejectAll: number;
+    optIns: number; // Decisions granting at least one optional purpose
+    consentRate: number | null; // optIns / shown
+    decisionRate: number | null; // decisions / shown
+    medianDecisionMs: number | null; // Banner shown to decision
+}
+
+export interface BannerExperimentResults {
+    since: Date | null; // When the oldest running variant was created
+    variants: BannerVariantResult[];
+}
+
+// ==================== Consent Mode Types ====================
+
+// Google Consent Mode v2 signals
+export type ConsentModeSignal =
+    | 'ad_storage'
+    | 'analytics_storage'
+    | 'ad_user_data'
+    | 'ad_personalization'
+    | 'functionality_storage'
+    | 'personalization_storage'
+    | 'security_storage';
+
+export interface WebsiteConsentMode {
+    id: string;
+    websiteId: string;
+    enabled: boolean;
+    signalMapping: Partial<Record<ConsentModeSignal, string[]>>; // signal -> purpose tags
+    waitForUpdateMs: number;
+    adsDataRedaction: boolean;
+    urlPassthrough: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// ==================== IAB TCF Types ====================
+
+// A vendor from the Global Vendor List, with its legal bases per IAB purpose
+export interface TcfVendor {
+    id: number;
+    name: string;
+    purposes: number[]; // Consent
+    legIntPurposes: number[]; // Legitimate interest
+    flexiblePurposes: number[]; // Either basis
+    specialPurposes: number[];
+    features: number[];
+    specialFeatures: number[];
+    policyUrl?: string;
+    deletedDate?: string;
+}
+
+export interface TcfVendorListEntry {
+    id: number;
+    name: string;
+    description: string;
+}
+
+// Local copy of the Global Vendor List, trimmed to what the CMP uses
+export interface TcfVendorList {
+    vendorListVersion: number;
+    tcfPolicyVersion: number;
+    lastUpdated: string;
+    purposes: Record<string, TcfVendorListEntry>;
+    specialPurposes: Record<string, TcfVendorListEntry>;
+    features: Record<string, TcfVendorListEntry>;
+    specialFeatures: Record<string, TcfVendorListEntry>;
+    vendors: Record<string, TcfVendor>;
+}
+
+// IAB purposes and special features covered by a website purpose
+export interface TcfPurposeMapping {
+    purposes: number[];
+    specialFeatures: number[];
+}
+
+export interface WebsiteTcfSettings {
+    id: string;
+    websiteId: string;
+    enabled: boolean;
+    publisherCountryCode: string;
+    vendorListVersion: number | null;
+    tcfPolicyVersion: number | null;
+    vendorListImportedAt: Date | null;
+    selectedVendorIds: number[];
+    purposeMapping: Record<string, TcfPurposeMapping>; // purpose tag -> IAB ids
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// TCF settings as shown in the tenant dashboard
+export interface TcfSettings {
+    enabled: boolean;
+    publisherCountryCode: string;
+    selectedVendorIds: number[];
+    purposeMapping: Record<string, TcfPurposeMapping>;
+    vendorList: {
+        vendorListVersion: number;
+        tcfPolicyVersion: number;
+        importedAt: Date;
+    } | null;
+}
+
+// ==================== Tracker Types ====================
+
+export type TrackerCategory = 'essential' | 'functional' | 'analytics' | 'marketing';
+
+// Known tracker from the platform-wide catalogue curated in the Admin Portal.
+// Patterns are exact values where * matches any run of characters
+export interface TrackerCatalogueEntry {
+    id: string;
+    name: string;
+    vendor: string | null;
+    category: TrackerCategory;
+    domains: string[]; // Also match subdomains
+    cookiePatterns: string[]; // Cookie and storage key names
+    scriptPatterns: string[]; // Script URLs without the scheme
+    description: string | null;
+    isActive: boolean;
+}
+
+// Catalogue tracker adopted into one of a website's purposes
+export interface WebsiteTracker {
+    id: string;
+    websiteId: string;
+    trackerId: string;
+    purposeId: string;
+    purposeTag: string;
+    tracker: TrackerCatalogueEntry;
+    createdBy: string | null;
+    createdAt: Date;
+}
+
+// ==================== Blocking Rule Types ====================
+
+// DOMAIN matches the host and its subdomains; URL matches the URL without
+// its scheme, where * matches any run of characters
+export type BlockingRuleMatchType = 'DOMAIN' | 'URL';
+
+// Resources matching the rule wait for consent to the purpose
+export interface BlockingRule {
+    id: string;
+    websiteId: string;
+    purposeId: string;
+    purposeTag: string;
+    matchType: BlockingRuleMatchType;
+    pattern: string;
+    createdBy: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// ==================== Cookie Declaration Types ====================
+
+export type CookieStorageType = 'COOKIE' | 'LOCAL_STORAGE';
+
+// A cookie or localStorage key set for a purpose, as listed in the cookie policy.
+// The name may contain * wildcards
+export interface CookieDeclaration {
+    id: string;
+    websiteId: string;
+    purposeId: string;
+    purposeTag: string;
+    storageType: CookieStorageType;
+    name: string;
+    provider: string | null;
+    duration: string | null;
+    description: string | null;
+    createdBy: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// ==================== Cookie Policy Types ====================
+
+// A row of the public cookie declaration. Scanned entries are cookies seen by
+// the latest scan that no declaration covers yet
+export interface CookiePolicyEntry {
+    name: string;
+    type: 'cookie' | 'localStorage';
+    provider: string | null;
+    duration: string | null;
+    description: string | null;
+    source: 'declared' | 'scanned';
+}
+
+export interface CookiePolicyPurpose {
+    key: string;
+    title: string;
+    description: string;
+    required: boolean;
+    cookies: CookiePolicyEntry[];
+}
+
+// Cookie declaration of a website in one language, built from the served config
+export interface CookiePolicy {
+    websiteId: string;
+    domain: string;
+    language: string;
+    supportedLanguages: string[];
+    title: string;
+    description: string;
+    policyLink?: string;
+    purposes: CookiePolicyPurpose[];
+    scannedAt: Date | null; // Completion of the scan the scanned entries come from
+    updatedAt: Date | null; // When the served config was published
+}
+
+// ==================== Scan Types ====================
+
+export type ScanStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+export type ScanItemType = 'COOKIE' | 'LOCAL_STORAGE' | 'SCRIPT' | 'IFRAME' | 'PIXEL';
+
+// Purpose category suggested for an observed item
+export type ScanCategory = TrackerCategory | 'unknown';
+
+// A page visited by the scanner
+export interface ScanPage {
+    url: string;
+    status: number | null; // HTTP status, null if the page failed to load
+    acceptClicked: boolean; // Whether an Accept All button was found and clicked
+    error?: string;
+}
+
+// A cookie, storage key, script, iframe or pixel seen on the scanned pages
+export interface ScanItem {
+    type: ScanItemType;
+    name: string; // Cookie or storage key name; URL without query for resources
+    domain: string;
+    firstParty: boolean;
+    beforeConsent: boolean; // Observed before any consent was given
+    afterAccept: boolean; // Observed after Accept All
+    pages: string[];
+    suggestedCategory: ScanCategory;
+    suggestedPurpose: string | null; // Tag of the website purpose matching the category
+    trackerId: string | null; // Known tracker the item matched, if any
+    reason?: string; // What the suggestion is based on
+}
+
+export interface WebsiteScan {
+    id: string;
+    websiteId: string;
+    status: ScanStatus;
+    startUrls: string[];
+    maxPages: number;
+    pages: ScanPage[];
+    items: ScanItem[];
+    itemCount: number;
+    error: string | null;
+    requestedBy: string | null;
+    startedAt: Date | null;
+    completedAt: Date | null;
+    createdAt: Date;
+}
+
+export type WebsiteScanSummary = Omit<WebsiteScan, 'pages' | 'items'> & {
+    pageCount: number;
+};
+
+// ==================== Config Version Types ====================
+
+// MINOR edits keep existing consent valid; MATERIAL edits require re-consent
+export type ConfigChangeType = 'MINOR' | 'MATERIAL';
+
+// Notice and purposes exactly as shown to visitors, the input to the content hash
+export interface ConfigSnapshot {
+    notice: Record<string, {
+        title: string;
+        description: string;
+        policyLink?: string;
+        dpoEmail?: string;
+        userRights?: string;
+        withdrawalInstructions?: string;
+        complaintInstructions?: string;
+    }>;
+    purposes: Array<{
+        key: string;
+        required: boolean;
+        labels: Record<string, { title: string; description: string; dataCategoryInfo?: string }>;
+    }>;
+}
+
+export interface ConfigVersion {
+    id: string;
+    websiteId: string;
+    version: number;
+    contentHash: string;
+    changeType: ConfigChangeType;
+    addedPurposes: string[];
+    snapshot: ConfigSnapshot;
+    createdBy?: string;
+    createdAt: Date;
+}
+
+export type ConfigVersionSummary = Omit<ConfigVersion, 'snapshot'> & {
+    createdByEmail?: string;
+};
+
+// ==================== Publishing Types ====================
+
+export interface PublishedConfig {
+    id: string;
+    websiteId: string;
+    version: number;
+    config: RuntimeWebsiteConfig;
+    contentHash: string;
+    configVersion?: number;
+    rolledBackFrom?: number;
+    note?: string;
+    publishedBy?: string;
+    publishedAt: Date;
+}
+
+export type PublishedConfigSummary = Omit<PublishedConfig, 'config'> & {
+    publishedByEmail?: string;
+};
+
+export interface PublishStatus {
+    live: PublishedConfigSummary | null;
+    draftHash: string | null; // null when the draft is incomplete and cannot be published
+    hasUnpublishedChanges: boolean;
+}
+
+export interface ConfigDiffEntry {
+    path: string; // e.g. "notice.en.title" or "purposes.analytics.labels.hi.title"
+    change: 'ADDED' | 'REMOVED' | 'CHANGED';
+    live?: unknown;
+    draft?: unknown;
+}
+
 // ==================== Audit Types ====================
 
 export interface TenantAuditLog {
@@ -174,6 +544,293 @@ export interface TenantAuditLogWithActor extends TenantAuditLog {
     actorEmail: string;
 }
 
+// ==================== Consent Types ====================
+
+export type ConsentAction = 'ACCEPT_ALL' | 'REJECT_ALL' | 'CUSTOM' | 'WITHDRAW';
+
+export interface ConsentRecord {
+    id: string;
+    websiteId: string;
+    visitorId: string;
+    action: ConsentAction;
+    decisions: Record<string, boolean>;
+    languageCode?: string;
+    noticeVersion?: string;
+    purposeVersions: Record<string, string>;
+    configVersion?: number;
+    loaderVersion?: string;
+    bannerVariant?: string;
+    ipHash?: string;
+    userAgent?: string;
+    receiptId?: string;
+    receiptPayload?: ConsentReceiptPayload;
+    receiptSignature?: string;
+    createdAt: Date;
+}
+
+// Visitor-facing view of the ledger ("My Consents" page)
+export interface VisitorPurposeConsent {
+    key: string;
+    title: string;
+    description: string;
+    required: boolean;
+    granted: boolean;
+    since?: Date; // When the current decision for this purpose was made
+}
+
+export interface VisitorConsentHistoryEntry {
+    id: string;
+    action: ConsentAction;
+    decisions: Record<string, boolean>;
+    receiptId?: string;
+    createdAt: Date;
+}
+
+export interface VisitorConsentState {
+    websiteId: string;
+    domain: string;
+    visitorId: string;
+    purposes: VisitorPurposeConsent[];
+    history: VisitorConsentHistoryEntry[];
+    updatedAt?: Date;
+}
+
+export interface ConsentReceiptPayload {
+    receiptId: string;
+    websiteId: string;
+    domain: string;
+    action: ConsentAction;
+    granted: string[];
+    denied: string[];
+    language?: string;
+    noticeVersion?: string;
+    purposeVersions: Record<string, string>;
+    configVersion?: number;
+    issuedAt: string;
+}
+
+export interface ConsentReceipt {
+    receiptId: string;
+    algorithm: 'HMAC-SHA256';
+    payload: ConsentReceiptPayload;
+    signature: string;
+}
+
+// ==================== Consent Analytics Types ====================
+
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'unknown';
+
+// Counts of one UTC day, language and device type
+export interface ConsentAnalyticsDaily {
+    day: string; // YYYY-MM-DD
+    languageCode: string;
+    deviceType: DeviceType;
+    impressions: number;
+    acceptAll: number;
+    rejectAll: number;
+    custom: number;
+    withdrawals: number;
+}
+
+export interface ConsentAnalyticsPurposeTotal {
+    purpose: string;
+    granted: number;
+    denied: number;
+}
+
+export interface ConsentAnalyticsCounts {
+    impressions: number;
+    decisions: number; // Accept all, reject all and custom
+    acceptAll: number;
+    rejectAll: number;
+    custom: number;
+    withdrawals: number;
+}
+
+// Rates are fractions of decisions (of impressions for decisionRate),
+// null when there is nothing to divide by
+export interface ConsentAnalyticsRates {
+    decisionRate: number | null;
+    acceptAllRate: number | null;
+    rejectAllRate: number | null;
+    customRate: number | null;
+}
+
+// A language or device type. Too few decisions are folded into "other"
+export interface ConsentAnalyticsSlice extends ConsentAnalyticsCounts, ConsentAnalyticsRates {
+    key: string;
+}
+
+export interface ConsentAnalyticsSummary {
+    websiteId: string;
+    from: string; // YYYY-MM-DD, inclusive
+    to: string;
+    totals: ConsentAnalyticsCounts & ConsentAnalyticsRates;
+    purposes: Array<ConsentAnalyticsPurposeTotal & { optInRate: number | null }>;
+    languages: ConsentAnalyticsSlice[];
+    devices: ConsentAnalyticsSlice[];
+    trend: Array<ConsentAnalyticsCounts & { day: string }>;
+    interactions: LoaderEventCounts;
+}
+
+// Banner lifecycle events reported by the loader's telemetry
+export type LoaderEventType =
+    | 'BANNER_SHOWN'
+    | 'SETTINGS_OPENED'
+    | 'LANGUAGE_SWITCHED'
+    | 'RIGHTS_FORM_OPENED'
+    | 'DISMISSED'
+    | 'DECISION';
+
+// Estimated events per type: sampled counts scaled up by the sample rate
+export type LoaderEventCounts = Record<LoaderEventType, number>;
+
+// ==================== Rights Request Types ====================
+
+export type RightsRequestType = 'ACCESS' | 'CORRECTION' | 'ERASURE' | 'NOMINATION' | 'GRIEVANCE';
+
+// PENDING_VERIFICATION and EXPIRED requests are never shown to the tenant
+export type RightsRequestStatus =
+    | 'PENDING_VERIFICATION'
+    | 'EXPIRED'
+    | 'RECEIVED'
+    | 'VERIFYING'
+    | 'IN_PROGRESS'
+    | 'COMPLETED'
+    | 'REJECTED';
+
+export type RightsRequestEventType =
+    | 'SUBMITTED'
+    | 'VERIFICATION_SENT'
+    | 'VERIFIED'
+    | 'EXPIRED'
+    | 'SLA_BREACHED'
+    | 'STATUS_CHANGED'
+    | 'ASSIGNED'
+    | 'NOTE';
+
+export interface RightsRequest {
+    id: string;
+    requestNumber: string;
+    tenantId: string;
+    websiteId: string;
+    requestType: RightsRequestType;
+    status: RightsRequestStatus;
+    requesterEmail: string;
+    description: string;
+    details: Record<string, any>;
+    languageCode?: string;
+    assignedTo?: string;
+    verificationExpiresAt?: Date;
+    verifiedAt?: Date;
+    dueAt?: Date;
+    slaBreachedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+    closedAt?: Date;
+}
+
+export interface RightsRequestVerificationState {
+    id: string;
+    requestNumber: string;
+    websiteId: string;
+    requestType: RightsRequestType;
+    status: RightsRequestStatus;
+    verificationCodeHash?: string;
+    verificationAttempts: number;
+    verificationExpiresAt?: Date;
+}
+
+export interface RightsRequestWithWebsite extends RightsRequest {
+    websiteDomain: string;
+}
+
+export interface RightsRequestEvent {
+    id: string;
+    requestId: string;
+    eventType: RightsRequestEventType;
+    fromStatus?: RightsRequestStatus;
+    toStatus?: RightsRequestStatus;
+    actorId?: string;
+    actorEmail?: string;
+    note?: string;
+    metadata: Record<string, any>;
+    createdAt: Date;
+}
+
+export interface RightsRequestDetail extends RightsRequestWithWebsite {
+    events: RightsRequestEvent[];
+}
+
+// ==================== Webhook Types ====================
+
+export type WebhookEventType =
+    | 'consent.given'
+    | 'consent.updated'
+    | 'consent.withdrawn'
+    | 'rights_request.created'
+    | 'rights_request.status_changed'
+    | 'website.published';
+
+// Tenant endpoint notified of subscribed events. The secret is only returned
+// when the endpoint is created or its secret rotated
+export interface WebhookEndpoint {
+    id: string;
+    tenantId: string;
+    websiteId: string | null; // null: events of every website
+    url: string;
+    description: string | null;
+    events: WebhookEventType[];
+    secretHint: string; // Last characters of the secret
+    isActive: boolean;
+    createdBy: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface WebhookEndpointWithSecret extends WebhookEndpoint {
+    secret: string;
+}
+
+// Body posted to the endpoint
+export interface WebhookPayload {
+    id: string; // Event ID, the same on redeliveries
+    type: WebhookEventType;
+    createdAt: string;
+    tenantId: string;
+    websiteId: string | null;
+    data: Record<string, unknown>;
+}
+
+export type WebhookDeliveryStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED';
+
+export interface WebhookDelivery {
+    id: string;
+    endpointId: string;
+    eventId: string;
+    eventType: WebhookEventType;
+    payload: WebhookPayload;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    nextAttemptAt: Date | null;
+    lastAttemptAt: Date | null;
+    responseStatus: number | null;
+    responseBody: string | null;
+    lastError: string | null;
+    redeliveryOf: string | null;
+    createdAt: Date;
+    completedAt: Date | null;
+}
+
+// A claimed delivery with what is needed to send it
+export interface WebhookDeliveryJob {
+    id: string;
+    url: string;
+    secret: string;
+    payload: WebhookPayload;
+    attempts: number;
+}
+
 // ==================== Language Types ====================
 
 export interface SupportedLanguage {
@@ -217,3 +874,84 @@ export interface PaginatedResponse<T> {
         totalPages: number;
     };
 }
+
+// Global rules (managed by Super Admins in the Admin Portal)
+export interface GlobalRules {
+    id: string;
+    version: number;
+    rulesJson: Record<string, any>;
+}
+
+export type IncidentSeverity = 'LOW' | 'MEDIUM' | 'HIGH';
+
+// Response deadlines for rights requests, resolved from the active global rules
+export interface RightsRequestSlaPolicy {
+    rulesVersion?: number;
+    days: Record<RightsRequestType, number>;
+    dueSoonDays: number;
+    severity: Record<RightsRequestType, IncidentSeverity>;
+}
+
+export interface ConsentLifetimeLimits {
+    rulesVersion?: number;
+    defaultDays: number;
+    maxDays: number;
+    minRejectDays: number;
+}
+
+export interface ConsentLifetimeSettings {
+    consentLifetimeDays: number | null; // null = platform default
+    rejectLifetimeDays: number | null; // null = same as consentLifetimeDays
+}
+
+export interface ConsentLifetime {
+    settings: ConsentLifetimeSettings;
+    effective: {
+        consentLifetimeDays: number;
+        rejectLifetimeDays: number;
+    };
+    limits: ConsentLifetimeLimits;
+}
+
+// Hosts besides the registered domain that may embed the loader. Entries are
+// host names, optionally with a leading "*." for any subdomain; test domains
+// may also be localhost or an IP address, with a port
+export interface OriginSettings {
+    allowedDomains: string[];
+    testDomains: string[];
+}
+
+export interface OriginPolicy extends OriginSettings {
+    domain: string;
+}
+
+export type SecurityEventType = 'ORIGIN_REJECTED';
+
+// Rejected calls to the runtime API, counted per origin, endpoint and day
+export interface SecurityEvent {
+    id: string;
+    websiteId: string;
+    eventType: SecurityEventType;
+    origin: string; // Host of the Origin or Referer header; empty when neither was sent
+    endpoint: string; // Route, e.g. /runtime/websites/:siteId/consents
+    day: string; // YYYY-MM-DD
+    attempts: number;
+    firstSeenAt: Date;
+    lastSeenAt: Date;
+}
+
+export interface RightsRequestSlaSummary {
+    open: number;
+    overdue: number;
+    dueSoon: number;
+    dueSoonDays: number;
+}
+
+export interface RightsRequestSlaBreach {
+    id: string;
+    tenantId: string;
+    websiteId: string;
+    requestNumber: string;
+    requestType: RightsRequestType;
+    dueAt: Date;
+}
@@ -0,0 +1,208 @@
+import * as net from 'net';
+import * as tls from 'tls';
+
+/**
+ * A string cache with per-entry expiry
+ */
+export interface CacheStore {
+    // The value, or null when missing or expired
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, ttlSeconds: number): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * In-process least recently used cache, per server instance. A Map keeps
+ * insertion order, so re-inserting on every read leaves the least recently
+ * used entry first.
+ */
+export function createMemoryCache(maxEntries: number): CacheStore {
+    const entries = new Map<string, { value: string; expiresAt: number }>();
+
+    return {
+        async get(key) {
+            const entry = entries.get(key);
+            if (!entry) {
+                return null;
+            }
+            entries.delete(key);
+            if (entry.expiresAt <= Date.now()) {
+                return null;
+            }
+            entries.set(key, entry);
+            return entry.value;
+        },
+
+        async set(key, value, ttlSeconds) {
+            entries.delete(key);
+            entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+            while (entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value as string);
+            }
+        },
+
+        async delete(key) {
+            entries.delete(key);
+        },
+    };
+}
+
+export type RedisReply = string | number | null;
+
+/**
+ * A Redis connection that sends one command at a time and resolves with its reply
+ */
+export interface RedisClient {
+    send(args: string[]): Promise<RedisReply>;
+}
+
+/**
+ * Reads RESP replies from the bytes received so far. Returns the reply and
+ * the bytes after it, or null when the reply is not complete yet. Only
+ * simple strings, errors, integers and bulk strings are handled: the reply
+ * types of GET, SET, DEL, INCR, PTTL, AUTH and SELECT.
+ */
+function parseReply(buffer: Buffer): { reply: RedisReply | Error; rest: Buffer } | null {
+    const lineEnd = buffer.indexOf('\r\n');
+    if (lineEnd < 0) {
+        return null;
+    }
+    const line = buffer.toString('utf8', 1, lineEnd);
+    const afterLine = buffer.subarray(lineEnd + 2);
+
+    switch (String.fromCharCode(buffer[0])) {
+        case '+':
+            return { reply: line, rest: afterLine };
+        case '-':
+            return { reply: new Error(`Redis: ${line}`), rest: afterLine };
+        case ':':
+            return { reply: parseInt(line, 10), rest: afterLine };
+        case '$': {
+            const length = parseInt(line, 10);
+            if (length < 0) {
+                return { reply: null, rest: afterLine };
+            }
+            if (afterLine.length < length + 2) {
+                return null;
+            }
+            return { reply: afterLine.toString('utf8', 0, length), rest: afterLine.subarray(length + 2) };
+        }
+        default:
+            throw new Error(`Redis: unexpected reply type ${JSON.stringify(buffer.toString('utf8', 0, 1))}`);
+    }
+}
+
+function encodeCommand(args: string[]): string {
+    return `*${args.length}\r\n` + args.map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('');
+}
+
+/**
+ * Minimal Redis client over one connection opened on first use.
+ * redis://[:password@]host:port[/db], or rediss:// for TLS. A command that
+ * gets no reply within timeoutMs fails; the connection is dropped on errors
+ * and opened again by the next command.
+ */
+export function createRedisClient(redisUrl: string, timeoutMs = 1000): RedisClient {
+    const url = new URL(redisUrl);
+    const database = url.pathname.replace(/^\//, '');
+
+    let socket: net.Socket | null = null;
+    let received: Buffer = Buffer.alloc(0);
+    const pending: Array<{ resolve: (reply: RedisReply) => void; reject: (error: Error) => void }> = [];
+
+    function disconnect(error: Error) {
+        socket?.destroy();
+        socket = null;
+        received = Buffer.alloc(0);
+        for (const waiting of pending.splice(0)) {
+            waiting.reject(error);
+        }
+    }
+
+    function connect(): net.Socket {
+        const port = parseInt(url.port || '6379', 10);
+        const connection = url.protocol === 'rediss:'
+            ? tls.connect({ host: url.hostname, port, servername: url.hostname })
+            : net.connect({ host: url.hostname, port });
+
+        connection.on('data', (chunk) => {
+            received = Buffer.concat([received, chunk]);
+            try {
+                let parsed;
+                while (pending.length > 0 && (parsed = parseReply(received))) {
+                    received = parsed.rest;
+                    const waiting = pending.shift()!;
+                    if (parsed.reply instanceof Error) {
+                        waiting.reject(parsed.reply);
+                    } else {
+                        waiting.resolve(parsed.reply);
+                    }
+                }
+            } catch (error) {
+                disconnect(error as Error);
+            }
+        });
+        connection.on('error', (error) => {
+            if (socket === connection) disconnect(error);
+        });
+        connection.on('close', () => {
+            if (socket === connection) disconnect(new Error('Redis connection closed'));
+        });
+        // Do not keep the process alive just for this connection
+        connection.unref();
+        return connection;
+    }
+
+    function send(args: string[]): Promise<RedisReply> {
+        if (!socket) {
+            socket = connect();
+            // Queued ahead of the command; their replies are checked like any other
+            if (url.password) {
+                const auth = url.username
+                    ? [decodeURIComponent(url.username), decodeURIComponent(url.password)]
+                    : [decodeURIComponent(url.password)];
+                void send(['AUTH', ...auth]).catch(() => undefined);
+            }
+            if (database) {
+                void send(['SELECT', database]).catch(() => undefined);
+            }
+        }
+
+        const connection = socket;
+        return new Promise<RedisReply>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                // Replies arrive in order, so a late one would answer the wrong command
+                if (socket === connection) disconnect(new Error('Redis command timed out'));
+            }, timeoutMs);
+            pending.push({
+                resolve: (reply) => { clearTimeout(timer); resolve(reply); },
+                reject: (error) => { clearTimeout(timer); reject(error); },
+            });
+            connection.write(encodeCommand(args));
+        });
+    }
+
+    return { send };
+}
+
+/**
+ * Redis, shared by every server instance. See createRedisClient().
+ */
+export function createRedisCache(redisUrl: string, timeoutMs = 1000): CacheStore {
+    const { send } = createRedisClient(redisUrl, timeoutMs);
+
+    return {
+        async get(key) {
+            const reply = await send(['GET', key]);
+            return typeof reply === 'string' ? reply : null;
+        },
+
+        async set(key, value, ttlSeconds) {
+            await send(['SET', key, value, 'EX', String(Math.max(1, Math.round(ttlSeconds)))]);
+        },
+
+        async delete(key) {
+            await send(['DEL', key]);
+        },
+    };
+}
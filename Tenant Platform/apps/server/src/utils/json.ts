@@ -0,0 +1,18 @@
+/**
+ * Serialize with sorted keys so signatures and hashes do not depend on key
+ * order (JSONB does not preserve the order the payload was written in).
+ */
+export function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return '[' + value.map(canonicalJson).join(',') + ']';
+    }
+    if (value && typeof value === 'object') {
+        const obj = value as Record<string, unknown>;
+        return '{' + Object.keys(obj)
+            .filter((key) => obj[key] !== undefined)
+            .sort()
+            .map((key) => JSON.stringify(key) + ':' + canonicalJson(obj[key]))
+            .join(',') + '}';
+    }
+    return JSON.stringify(value);
+}
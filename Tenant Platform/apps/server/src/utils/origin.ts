@@ -0,0 +1,42 @@
+import { OriginPolicy } from '../types';
+
+/**
+ * Host, with a port when not the default, of an Origin or Referer header.
+ * Null when there is none, or for opaque origins ("null").
+ */
+export function originHost(value: string | undefined): string | null {
+    if (!value || value === 'null') {
+        return null;
+    }
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url.host.toLowerCase() : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Whether a host matches an allow-list entry. "*.example.com" matches any
+ * subdomain of example.com, but not example.com itself. An entry without a
+ * port matches any port.
+ */
+export function matchesHostPattern(host: string, pattern: string): boolean {
+    const entry = pattern.toLowerCase();
+    const hasPort = /:\d+$/.test(entry);
+    const candidate = hasPort ? host : host.replace(/:\d+$/, '');
+
+    if (entry.startsWith('*.')) {
+        return candidate.endsWith(entry.slice(1)) && candidate.length > entry.length - 1;
+    }
+    return candidate === entry;
+}
+
+/**
+ * Whether a website may be called from a host: its registered domain and
+ * the www subdomain, its allowed domains and its test domains
+ */
+export function isOriginAllowed(host: string, policy: OriginPolicy): boolean {
+    return [policy.domain, `www.${policy.domain}`, ...policy.allowedDomains, ...policy.testDomains]
+        .some((pattern) => matchesHostPattern(host, pattern));
+}
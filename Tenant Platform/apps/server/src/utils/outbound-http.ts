@@ -0,0 +1,141 @@
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+
+/**
+ * Thrown when a request would reach a loopback, private or link-local address
+ */
+export class BlockedHostError extends Error {
+    constructor(host: string) {
+        super(`${host} is not a public host`);
+        this.name = 'BlockedHostError';
+    }
+}
+
+/**
+ * Loopback, private, link-local, carrier-grade NAT and multicast addresses.
+ * IPv4-mapped IPv6 addresses are treated as internal too.
+ */
+export function isInternalAddress(address: string): boolean {
+    const host = address.toLowerCase().replace(/^\[|\]$/g, '');
+
+    const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+    if (ipv4) {
+        const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+        return a === 0 || a === 10 || a === 127 || a >= 224 ||
+            (a === 169 && b === 254) ||
+            (a === 172 && b >= 16 && b <= 31) ||
+            (a === 192 && b === 168) ||
+            (a === 100 && b >= 64 && b <= 127);
+    }
+
+    return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) ||
+        /^ff/.test(host) || host.startsWith('::ffff:');
+}
+
+/**
+ * Internal host names and addresses, judged without resolving the name.
+ * Only a first check: the address a name resolves to is checked when
+ * connecting, see postToPublicHost.
+ */
+export function isInternalHost(hostname: string): boolean {
+    const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) {
+        return true;
+    }
+    return net.isIP(host) !== 0 && isInternalAddress(host);
+}
+
+/**
+ * Whether a host is public: not internal by name, and every address it
+ * resolves to is public. For clients that cannot connect through
+ * publicLookup, such as the scanner's browser. Unresolvable names are
+ * not public.
+ */
+export async function isPublicHost(hostname: string): Promise<boolean> {
+    if (isInternalHost(hostname)) {
+        return false;
+    }
+    try {
+        const addresses = await dns.promises.lookup(hostname.replace(/^\[|\]$/g, ''), { all: true });
+        return addresses.length > 0 && !addresses.some((entry) => isInternalAddress(entry.address));
+    } catch (error) {
+        return false;
+    }
+}
+
+/**
+ * Resolve like dns.lookup, but fail when any address of the name is
+ * internal. The socket connects to the address checked here, so a name
+ * cannot be switched to an internal address between check and connect.
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) {
+            callback(error, '');
+            return;
+        }
+        if (addresses.length === 0 || addresses.some((entry) => isInternalAddress(entry.address))) {
+            callback(new BlockedHostError(hostname), '');
+            return;
+        }
+        if (options.all) {
+            callback(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+};
+
+/**
+ * POST a body and read at most maxResponseBytes of the answer. Redirects
+ * are not followed. With publicOnly, internal hosts are refused whether
+ * given as an address or as a name resolving to one.
+ */
+export function postToPublicHost(
+    url: string,
+    options: {
+        headers: Record<string, string>;
+        body: string;
+        timeoutMs: number;
+        maxResponseBytes: number;
+        publicOnly: boolean;
+    }
+): Promise<{ status: number; body: string }> {
+    return new Promise((resolve, reject) => {
+        const target = new URL(url);
+        if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+            reject(new Error(`Unsupported protocol ${target.protocol}`));
+            return;
+        }
+        if (options.publicOnly && isInternalHost(target.hostname)) {
+            reject(new BlockedHostError(target.hostname));
+            return;
+        }
+
+        const client = target.protocol === 'https:' ? https : http;
+        const request = client.request(target, {
+            method: 'POST',
+            headers: { ...options.headers, 'Content-Length': Buffer.byteLength(options.body) },
+            lookup: options.publicOnly ? publicLookup : undefined,
+            signal: AbortSignal.timeout(options.timeoutMs),
+        }, (response) => {
+            const chunks: Buffer[] = [];
+            let size = 0;
+            response.on('data', (chunk: Buffer) => {
+                if (size < options.maxResponseBytes) {
+                    chunks.push(chunk);
+                    size += chunk.length;
+                }
+            });
+            response.on('end', () => resolve({
+                status: response.statusCode || 0,
+                body: Buffer.concat(chunks).toString('utf8').slice(0, options.maxResponseBytes),
+            }));
+            response.on('error', reject);
+        });
+        request.on('error', reject);
+        request.end(options.body);
+    });
+}
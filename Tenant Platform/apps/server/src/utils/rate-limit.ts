@@ -0,0 +1,66 @@
+import { RedisClient } from './cache';
+
+/**
+ * Hit counts in fixed windows, per key
+ */
+export interface RateLimitStore {
+    // Count a hit. Returns the hits in the key's current window and when it ends
+    hit(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+}
+
+/**
+ * In-process counts, per server instance. Past maxKeys, expired windows are
+ * dropped, then the oldest ones.
+ */
+export function createMemoryRateLimitStore(maxKeys = 10000): RateLimitStore {
+    const windows = new Map<string, { count: number; resetAt: number }>();
+
+    return {
+        async hit(key, windowMs) {
+            const now = Date.now();
+            const current = windows.get(key);
+            if (current && current.resetAt > now) {
+                current.count++;
+                return { count: current.count, resetAt: current.resetAt };
+            }
+
+            windows.delete(key);
+            if (windows.size >= maxKeys) {
+                for (const [other, window] of windows) {
+                    if (window.resetAt <= now) {
+                        windows.delete(other);
+                    }
+                }
+                // A Map keeps insertion order, so the first keys are the oldest windows
+                for (const other of windows.keys()) {
+                    if (windows.size < maxKeys) break;
+                    windows.delete(other);
+                }
+            }
+            const window = { count: 1, resetAt: now + windowMs };
+            windows.set(key, window);
+            return { count: 1, resetAt: window.resetAt };
+        },
+    };
+}
+
+/**
+ * Counts in Redis, shared by every server instance. The window's expiry is
+ * set before the first increment, so a key can never be left without one.
+ */
+export function createRedisRateLimitStore(client: RedisClient, keyPrefix: string): RateLimitStore {
+    return {
+        async hit(key, windowMs) {
+            const redisKey = keyPrefix + key;
+            const [, count, ttl] = await Promise.all([
+                client.send(['SET', redisKey, '0', 'PX', String(windowMs), 'NX']),
+                client.send(['INCR', redisKey]),
+                client.send(['PTTL', redisKey]),
+            ]);
+            return {
+                count: Number(count),
+                resetAt: Date.now() + (typeof ttl === 'number' && ttl > 0 ? ttl : windowMs),
+            };
+        },
+    };
+}
@@ -0,0 +1,170 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Where static bundles are written. Keys are relative paths such as
+ * "sites/<siteId>/config.json".
+ */
+export interface StaticStore {
+    put(key: string, body: string, contentType: string): Promise<void>;
+    // Contents of the file, or null when there is none
+    get(key: string): Promise<string | null>;
+    delete(key: string): Promise<void>;
+}
+
+// Versioned files never change once written; the rest are revalidated
+const VERSIONED_FILE = /\.v\d+\.[0-9a-f]{12}\.json$/;
+
+/**
+ * Cache-Control for a static file, set on upload and by the local stand-in
+ */
+export function staticCacheControl(key: string): string {
+    return VERSIONED_FILE.test(key)
+        ? 'public, max-age=31536000, immutable'
+        : 'public, max-age=60';
+}
+
+/**
+ * Files in a local directory. Stands in for the object store in offline runs.
+ */
+export function createLocalStore(dir: string): StaticStore {
+    const resolve = (key: string) => {
+        const file = path.resolve(dir, key);
+        if (!file.startsWith(path.resolve(dir) + path.sep)) {
+            throw new Error(`Invalid static key: ${key}`);
+        }
+        return file;
+    };
+
+    return {
+        async put(key, body) {
+            const file = resolve(key);
+            await fs.promises.mkdir(path.dirname(file), { recursive: true });
+            // Write then rename, so a reader never sees half a file
+            const temp = `${file}.${process.pid}.tmp`;
+            await fs.promises.writeFile(temp, body);
+            await fs.promises.rename(temp, file);
+        },
+
+        async get(key) {
+            try {
+                return await fs.promises.readFile(resolve(key), 'utf8');
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                    return null;
+                }
+                throw error;
+            }
+        },
+
+        async delete(key) {
+            await fs.promises.rm(resolve(key), { force: true });
+        },
+    };
+}
+
+export interface S3StoreOptions {
+    bucket: string;
+    region: string;
+    endpoint?: string;
+    prefix?: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+}
+
+function sha256Hex(data: string): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: crypto.BinaryLike, data: string): Buffer {
+    return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Any S3-compatible object store, addressed path-style and signed with
+ * AWS Signature Version 4. Files get their Content-Type and Cache-Control
+ * on upload so the CDN in front of the bucket passes them on.
+ */
+export function createS3Store(options: S3StoreOptions): StaticStore {
+    const endpoint = (options.endpoint || `https://s3.${options.region}.amazonaws.com`).replace(/\/+$/, '');
+    const prefix = options.prefix ? options.prefix.replace(/^\/+|\/+$/g, '') + '/' : '';
+
+    async function send(method: 'GET' | 'PUT' | 'DELETE', key: string, body = '', headers: Record<string, string> = {}) {
+        const objectPath = `/${options.bucket}/${prefix}${key}`
+            .split('/')
+            .map((segment) => encodeURIComponent(segment).replace(/[!'()*]/g, (c) => '%' + c.charCodeAt(0).toString(16).toUpperCase()))
+            .join('/');
+        const url = new URL(endpoint + objectPath);
+
+        const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, '');
+        const day = amzDate.slice(0, 8);
+        const payloadHash = sha256Hex(body);
+        const signed: Record<string, string> = {
+            host: url.host,
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': amzDate,
+        };
+        for (const [name, value] of Object.entries(headers)) {
+            signed[name.toLowerCase()] = value;
+        }
+
+        const names = Object.keys(signed).sort();
+        const canonicalRequest = [
+            method,
+            url.pathname,
+            '',
+            names.map((name) => `${name}:${signed[name].trim()}\n`).join(''),
+            names.join(';'),
+            payloadHash,
+        ].join('\n');
+        const scope = `${day}/${options.region}/s3/aws4_request`;
+        const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+        const signingKey = hmac(hmac(hmac(hmac(`AWS4${options.secretAccessKey}`, day), options.region), 's3'), 'aws4_request');
+        const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+        // fetch sets Host itself
+        const requestHeaders = { ...signed };
+        delete requestHeaders.host;
+        return fetch(url, {
+            method,
+            headers: {
+                ...requestHeaders,
+                Authorization: `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`,
+            },
+            body: method === 'PUT' ? body : undefined,
+        });
+    }
+
+    async function check(response: Response, action: string, key: string) {
+        if (!response.ok) {
+            throw new Error(`Object store ${action} of ${key} failed: ${response.status} ${(await response.text()).slice(0, 200)}`);
+        }
+    }
+
+    return {
+        async put(key, body, contentType) {
+            const response = await send('PUT', key, body, {
+                'Content-Type': contentType,
+                'Cache-Control': staticCacheControl(key),
+            });
+            await check(response, 'upload', key);
+        },
+
+        async get(key) {
+            const response = await send('GET', key);
+            if (response.status === 404) {
+                return null;
+            }
+            await check(response, 'download', key);
+            return response.text();
+        },
+
+        async delete(key) {
+            const response = await send('DELETE', key);
+            if (response.status !== 404) {
+                await check(response, 'delete', key);
+            }
+        },
+    };
+}
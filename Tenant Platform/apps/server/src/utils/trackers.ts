@@ -0,0 +1,79 @@
+/**
+ * Matching of observed cookies and resources against known trackers.
+ * The loader carries an ES5 copy of wildcardMatch and hostMatches;
+ * keep the two in step.
+ */
+
+export interface TrackerPatterns {
+    domains: string[];
+    cookiePatterns: string[];
+    scriptPatterns: string[];
+}
+
+/**
+ * Whether a value matches a pattern where * matches any run of characters
+ * (including none). Everything else is compared literally.
+ */
+export function wildcardMatch(value: string, pattern: string): boolean {
+    const parts = pattern.split('*');
+    if (parts.length === 1) {
+        return value === pattern;
+    }
+
+    const first = parts[0];
+    const last = parts[parts.length - 1];
+    if (value.length < first.length + last.length || !value.startsWith(first) || !value.endsWith(last)) {
+        return false;
+    }
+
+    let position = first.length;
+    const end = value.length - last.length;
+    for (let i = 1; i < parts.length - 1; i++) {
+        const index = value.indexOf(parts[i], position);
+        if (index === -1 || index + parts[i].length > end) {
+            return false;
+        }
+        position = index + parts[i].length;
+    }
+    return true;
+}
+
+/**
+ * Whether a host is the domain or one of its subdomains
+ */
+export function hostMatches(host: string, domain: string): boolean {
+    const h = host.replace(/^\.+/, '').toLowerCase();
+    return h === domain || h.endsWith(`.${domain}`);
+}
+
+/**
+ * Find the known tracker an observation belongs to. Script patterns are the
+ * most specific and are tried first, then cookie and storage names, then
+ * domains; within a step the first tracker in the list wins.
+ *
+ * @param url Resource URL, for scripts, iframes and pixels
+ * @param name Cookie or storage key name
+ * @param domain Host the resource was loaded from or the cookie was set on
+ */
+export function matchTracker<T extends TrackerPatterns>(
+    trackers: T[],
+    observation: { url?: string; name?: string; domain: string }
+): T | null {
+    if (observation.url) {
+        const address = observation.url.replace(/^https?:\/\//i, '');
+        const byScript = trackers.find((t) => t.scriptPatterns.some((p) => wildcardMatch(address, p)));
+        if (byScript) {
+            return byScript;
+        }
+    }
+
+    if (observation.name !== undefined) {
+        const name = observation.name;
+        const byName = trackers.find((t) => t.cookiePatterns.some((p) => wildcardMatch(name, p)));
+        if (byName) {
+            return byName;
+        }
+    }
+
+    return trackers.find((t) => t.domains.some((d) => hostMatches(observation.domain, d))) || null;
+}
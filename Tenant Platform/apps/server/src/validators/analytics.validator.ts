@@ -0,0 +1,96 @@
+import { z } from 'zod';
+
+/**
+ * Consent analytics validation schemas
+ */
+
+// Longest range a single query may cover
+const MAX_RANGE_DAYS = 366;
+const DEFAULT_RANGE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// Calendar day in UTC
+const daySchema = z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be formatted YYYY-MM-DD')
+    .refine((value) => !isNaN(Date.parse(value)) && toDay(new Date(value)) === value, 'Invalid date');
+
+// Date range of the analytics summary, both ends inclusive.
+// Defaults to the last 30 days up to today
+export const analyticsRangeSchema = z
+    .object({
+        from: daySchema.optional(),
+        to: daySchema.optional(),
+    })
+    .transform(({ from, to }) => {
+        const end = to || toDay(new Date());
+        return {
+            from: from || toDay(new Date(Date.parse(end) - (DEFAULT_RANGE_DAYS - 1) * DAY_MS)),
+            to: end,
+        };
+    })
+    .refine(({ from, to }) => from <= to, { message: 'from must not be after to', path: ['from'] })
+    .refine(
+        ({ from, to }) => (Date.parse(to) - Date.parse(from)) / DAY_MS < MAX_RANGE_DAYS,
+        { message: `The range cannot be longer than ${MAX_RANGE_DAYS} days`, path: ['from'] }
+    );
+
+const languageCodeSchema = z.string().regex(/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})?$/, 'Invalid language code');
+
+// Banner impression reported by the loader; carries no visitor identifier
+export const recordImpressionSchema = z.object({
+    language: languageCodeSchema.optional(),
+});
+
+export const LOADER_EVENT_TYPES = [
+    'BANNER_SHOWN',
+    'SETTINGS_OPENED',
+    'LANGUAGE_SWITCHED',
+    'RIGHTS_FORM_OPENED',
+    'DISMISSED',
+    'DECISION',
+] as const;
+
+// Most events a single telemetry batch may carry
+export const MAX_TELEMETRY_BATCH_EVENTS = 50;
+
+// Banner variant of an A/B test, or "control" for the default banner
+export const bannerVariantKeySchema = z
+    .string()
+    .regex(/^(control|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/, 'Invalid banner variant');
+
+// Batch of banner lifecycle events sent by the loader with sendBeacon.
+// sampleRate is the share of page views the loader reports; the server
+// scales counts up by its own configured rate, not this one.
+// DECISION events carry the outcome: the action, whether any optional
+// purpose was granted and the time from banner shown to decision
+export const telemetryBatchSchema = z.object({
+    sampleRate: z.number().gt(0).max(1),
+    variant: bannerVariantKeySchema.optional(),
+    events: z
+        .array(
+            z
+                .object({
+                    event: z.enum(LOADER_EVENT_TYPES, {
+                        errorMap: () => ({ message: `Event must be one of ${LOADER_EVENT_TYPES.join(', ')}` }),
+                    }),
+                    language: languageCodeSchema.optional(),
+                    action: z.enum(['ACCEPT_ALL', 'REJECT_ALL', 'CUSTOM']).optional(),
+                    optIn: z.boolean().optional(),
+                    // Capped at a day: longer means the tab was left open
+                    decisionMs: z.number().int().min(0).max(24 * 60 * 60 * 1000).optional(),
+                })
+                .refine((e) => (e.event === 'DECISION') === (e.action !== undefined), {
+                    message: 'Only DECISION events carry an action, and they must',
+                    path: ['action'],
+                })
+        )
+        .min(1)
+        .max(MAX_TELEMETRY_BATCH_EVENTS),
+});
+
+export type AnalyticsRangeInput = z.infer<typeof analyticsRangeSchema>;
+export type RecordImpressionInput = z.infer<typeof recordImpressionSchema>;
+export type TelemetryBatchInput = z.infer<typeof telemetryBatchSchema>;
@@ -69,5 +69,53 @@ export const bannerCustomizationSchema = bannerBaseSchema.superRefine(validateDa
 // Update banner customization (partial) - no dark pattern validation for partial updates
 export const updateBannerCustomizationSchema = bannerBaseSchema.partial();
 
+// Banner text of one language; a variant overrides only the fields it sets
+const bannerVariantTextSchema = z
+    .object({
+        headline: z.string().min(1).max(200),
+        description: z.string().min(1).max(2000),
+        acceptButton: z.string().min(2).max(100),
+        rejectButton: z.string().min(2).max(100),
+        preferencesButton: z.string().min(2).max(100),
+    })
+    .partial()
+    .strict();
+
+// A/B test variant: overrides of the default banner's styles and text.
+// Dark pattern rules are checked by the service on the merged banner
+export const bannerVariantSchema = z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    trafficPercent: z.number().int().min(1, 'Traffic must be at least 1%').max(100),
+    styles: bannerBaseSchema
+        .pick({
+            primaryColor: true,
+            secondaryColor: true,
+            backgroundColor: true,
+            textColor: true,
+            acceptButtonColor: true,
+            rejectButtonColor: true,
+            position: true,
+            layout: true,
+            fontFamily: true,
+            fontSize: true,
+            focusOutlineColor: true,
+        })
+        .partial()
+        .strict()
+        .default({}),
+    text: z
+        .record(
+            z.string().regex(/^[a-z]{2,3}(-[a-zA-Z0-9]{2,8})?$/, 'Invalid language code'),
+            bannerVariantTextSchema
+        )
+        .default({}),
+});
+
+export const bannerVariantIdParamSchema = z.object({
+    id: z.string().uuid('Invalid website ID format'),
+    variantId: z.string().uuid('Invalid variant ID format'),
+});
+
 export type BannerCustomizationInput = z.infer<typeof bannerCustomizationSchema>;
 export type UpdateBannerCustomizationInput = z.infer<typeof updateBannerCustomizationSchema>;
+export type BannerVariantInput = z.infer<typeof bannerVariantSchema>;
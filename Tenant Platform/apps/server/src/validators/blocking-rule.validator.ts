@@ -0,0 +1,42 @@
+import { z } from 'zod';
+
+/**
+ * Auto-blocking rule validation schemas
+ */
+
+const DOMAIN_REGEX = /^(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}$/;
+
+// A DOMAIN pattern is a host name ("*." or a leading dot is dropped, since
+// subdomains always match); a URL pattern is a URL without the scheme
+export const blockingRuleSchema = z
+    .object({
+        purposeTag: z.string().trim().min(1, 'Purpose is required'),
+        matchType: z.enum(['DOMAIN', 'URL']),
+        pattern: z.string().trim().min(1, 'Pattern is required').max(500),
+    })
+    .transform((rule) => ({
+        ...rule,
+        pattern: rule.matchType === 'DOMAIN'
+            ? rule.pattern.toLowerCase().replace(/^\*?\./, '')
+            : rule.pattern.replace(/^https?:\/\//i, ''),
+    }))
+    .superRefine((rule, ctx) => {
+        if (rule.matchType === 'DOMAIN' && !DOMAIN_REGEX.test(rule.pattern)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pattern'], message: 'Enter a domain such as tracker.example.com' });
+        }
+        if (rule.matchType === 'URL') {
+            if (/\s/.test(rule.pattern)) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pattern'], message: 'URL patterns must not contain spaces' });
+            } else if (rule.pattern.replace(/\*/g, '').length < 4) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pattern'], message: 'URL pattern is too broad' });
+            }
+        }
+    });
+
+// Blocking rule params
+export const blockingRuleIdParamSchema = z.object({
+    id: z.string().uuid('Invalid website ID format'),
+    ruleId: z.string().uuid('Invalid rule ID format'),
+});
+
+export type BlockingRuleInput = z.infer<typeof blockingRuleSchema>;
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+/**
+ * Notice/purpose configuration version schemas
+ */
+
+// How an edit affects consent already given. Edits default to MATERIAL so a
+// change is never hidden from visitors unless the tenant says it is minor.
+export const configChangeTypeSchema = z
+    .enum(['MINOR', 'MATERIAL'], {
+        errorMap: () => ({ message: 'Change type must be MINOR or MATERIAL' }),
+    })
+    .default('MATERIAL');
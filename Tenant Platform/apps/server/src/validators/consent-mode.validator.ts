@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+/**
+ * Google Consent Mode validation schemas
+ */
+
+export const CONSENT_MODE_SIGNALS = [
+    'ad_storage',
+    'analytics_storage',
+    'ad_user_data',
+    'ad_personalization',
+    'functionality_storage',
+    'personalization_storage',
+    'security_storage',
+] as const;
+
+const purposeTagSchema = z
+    .string()
+    .min(1)
+    .max(50)
+    .regex(/^[a-z0-9_]+$/, 'Tag must be lowercase, numbers, and underscores only');
+
+// Purpose tags per signal; a signal is granted when any of its purposes is
+export const updateConsentModeSchema = z.object({
+    enabled: z.boolean(),
+    signalMapping: z.record(
+        z.enum(CONSENT_MODE_SIGNALS, {
+            errorMap: () => ({ message: `Signal must be one of ${CONSENT_MODE_SIGNALS.join(', ')}` }),
+        }),
+        z.array(purposeTagSchema).max(50)
+    ).default({}),
+    waitForUpdateMs: z.number().int().min(0).max(10000, 'Wait for update must not exceed 10000 ms').default(500),
+    adsDataRedaction: z.boolean().default(false),
+    urlPassthrough: z.boolean().default(false),
+});
+
+export type UpdateConsentModeInput = z.infer<typeof updateConsentModeSchema>;
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { bannerVariantKeySchema } from './analytics.validator';
+
+/**
+ * Consent ledger validation schemas (public runtime API)
+ */
+
+// Purpose tags follow the same format enforced on purpose creation
+const purposeKeySchema = z.string().min(1).max(50);
+
+// Anonymous visitor ID generated by the loader
+const visitorIdSchema = z
+    .string()
+    .min(8, 'Visitor ID is too short')
+    .max(64, 'Visitor ID is too long')
+    .regex(/^[a-zA-Z0-9-]+$/, 'Invalid visitor ID format');
+
+// Record a consent decision sent by the loader.
+// For WITHDRAW, decisions set to false name the purposes being withdrawn;
+// an empty decisions object withdraws every non-essential purpose.
+export const recordConsentSchema = z.object({
+    visitorId: visitorIdSchema,
+    action: z.enum(['ACCEPT_ALL', 'REJECT_ALL', 'CUSTOM', 'WITHDRAW'], {
+        errorMap: () => ({ message: 'Action must be ACCEPT_ALL, REJECT_ALL, CUSTOM, or WITHDRAW' }),
+    }),
+    decisions: z.record(purposeKeySchema, z.boolean()).default({}),
+    language: z.string().min(2).max(10).optional(),
+    noticeVersion: z.string().max(64).optional(),
+    purposeVersions: z.record(purposeKeySchema, z.string().max(64)).default({}),
+    configVersion: z.number().int().min(1).optional(),
+    loaderVersion: z.string().max(20).optional(),
+    bannerVariant: bannerVariantKeySchema.optional(),
+});
+
+// Runtime site ID param
+export const siteIdParamSchema = z.object({
+    siteId: z.string().uuid('Invalid site ID format'),
+});
+
+// Visitor consent state params
+export const visitorConsentParamSchema = z.object({
+    siteId: z.string().uuid('Invalid site ID format'),
+    visitorId: visitorIdSchema,
+});
+
+// Hosted "My Consents" page
+export const consentManagerQuerySchema = z.object({
+    visitor: visitorIdSchema,
+    lang: z.string().min(2).max(10).optional(),
+});
+
+// Hosted cookie declaration; unsupported languages fall back to English
+export const cookiePolicyQuerySchema = z.object({
+    lang: z.string().min(2).max(10).optional(),
+});
+
+// Receipt ID param
+export const receiptIdParamSchema = z.object({
+    receiptId: z.string().regex(/^CR-[A-F0-9]{16}$/, 'Invalid receipt ID format'),
+});
+
+// Optional signature supplied by the holder of a receipt
+export const verifyReceiptQuerySchema = z.object({
+    signature: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid signature format').optional(),
+});
+
+export type RecordConsentInput = z.infer<typeof recordConsentSchema>;
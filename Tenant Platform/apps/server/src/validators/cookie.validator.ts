@@ -0,0 +1,42 @@
+import { z } from 'zod';
+
+/**
+ * Cookie declaration validation schemas
+ */
+
+// Optional policy text; blank means not stated
+const optionalText = (max: number) =>
+    z.string().trim().max(max).nullish().transform((value) => value || null);
+
+// Names are exact values where * matches any run of characters
+export const cookieDeclarationSchema = z
+    .object({
+        purposeTag: z.string().trim().min(1, 'Purpose is required'),
+        storageType: z.enum(['COOKIE', 'LOCAL_STORAGE']),
+        name: z.string().trim().min(1, 'Name is required').max(255),
+        provider: optionalText(255),
+        duration: optionalText(100),
+        description: optionalText(1000),
+    })
+    .superRefine((cookie, ctx) => {
+        if (cookie.storageType === 'COOKIE' && /[\s;,=]/.test(cookie.name)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['name'], message: 'Cookie names cannot contain spaces, ";", "," or "="' });
+        }
+        if (cookie.name.replace(/\*/g, '').length < 2) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['name'], message: 'Name pattern is too broad' });
+        }
+    });
+
+// Cookie governance toggle
+export const cookieGovernanceSchema = z.object({
+    enabled: z.boolean(),
+});
+
+// Cookie declaration params
+export const cookieIdParamSchema = z.object({
+    id: z.string().uuid('Invalid website ID format'),
+    cookieId: z.string().uuid('Invalid cookie ID format'),
+});
+
+export type CookieDeclarationInput = z.infer<typeof cookieDeclarationSchema>;
+export type CookieGovernanceInput = z.infer<typeof cookieGovernanceSchema>;
@@ -1,6 +1,18 @@
 export * from './auth.validator';
 export * from './website.validator';
+export * from './config-version.validator';
+export * from './publish.validator';
 export * from './notice.validator';
 export * from './purpose.validator';
 export * from './banner.validator';
+export * from './consent-mode.validator';
+export * from './tcf.validator';
+export * from './scan.validator';
+export * from './tracker.validator';
+export * from './blocking-rule.validator';
+export * from './cookie.validator';
 export * from './audit.validator';
+export * from './consent.validator';
+export * from './analytics.validator';
+export * from './rights-request.validator';
+export * from './webhook.validator';
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { configChangeTypeSchema } from './config-version.validator';
 
 /**
  * Notice-related validation schemas
@@ -49,12 +50,15 @@ export const createNoticeSchema = z.object({
 });
 
 // Update notice translation
-export const updateNoticeTranslationSchema = noticeTranslationSchema;
+export const updateNoticeTranslationSchema = noticeTranslationSchema.extend({
+    changeType: configChangeTypeSchema,
+});
 
 // Batch update translations
 export const batchUpdateTranslationsSchema = z.object({
     dpoEmail: z.string().email('Invalid email format').optional(),
     translations: z.array(noticeTranslationSchema).min(1),
+    changeType: configChangeTypeSchema,
 });
 
 // Auto translate
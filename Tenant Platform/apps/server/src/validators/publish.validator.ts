@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+/**
+ * Draft/publish validation schemas
+ */
+
+// Publish the draft or roll back to an earlier published version
+export const publishConfigSchema = z.object({
+    note: z.string().trim().max(500, 'Note must not exceed 500 characters').optional(),
+});
+
+// Published version params
+export const publishedVersionParamSchema = z.object({
+    id: z.string().uuid('Invalid website ID format'),
+    version: z.coerce.number().int().min(1, 'Invalid version'),
+});
+
+export type PublishConfigInput = z.infer<typeof publishConfigSchema>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { configChangeTypeSchema } from './config-version.validator';
 
 /**
  * Purpose-related validation schemas
@@ -49,14 +50,16 @@ export const updatePurposeSchema = z.object({
     isEssential: z.boolean().optional(),
     status: z.enum(['ACTIVE', 'INACTIVE']).optional(),
     displayOrder: z.number().int().min(0).optional(),
+    changeType: configChangeTypeSchema,
 }).refine(
-    (data) => Object.keys(data).length > 0,
+    ({ changeType, ...fields }) => Object.keys(fields).length > 0,
     { message: 'At least one field must be provided for update' }
 );
 
 // Update purpose translation
 export const updatePurposeTranslationSchema = z.object({
     translations: z.array(purposeTranslationSchema).min(1),
+    changeType: configChangeTypeSchema,
 });
 
 // Purpose ID param
@@ -66,6 +69,6 @@ export const purposeIdParamSchema = z.object({
 
 export type PurposeTranslationInput = z.infer<typeof purposeTranslationSchema>;
 export type CreatePurposeInput = z.infer<typeof createPurposeSchema>;
-export type UpdatePurposeInput = z.infer<typeof updatePurposeSchema>;
+export type UpdatePurposeInput = Omit<z.infer<typeof updatePurposeSchema>, 'changeType'>;
 export type UpdatePurposeTranslationInput = z.infer<typeof updatePurposeTranslationSchema>;
 export type PurposeIdParam = z.infer<typeof purposeIdParamSchema>;
@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import { paginationSchema } from './audit.validator';
+
+/**
+ * Rights request validation schemas
+ * DPDPA Compliance: Data principals may request access, correction, erasure,
+ * nominate a person, or raise a grievance
+ */
+
+const requestTypeSchema = z.enum(['ACCESS', 'CORRECTION', 'ERASURE', 'NOMINATION', 'GRIEVANCE'], {
+    errorMap: () => ({ message: 'Request type must be ACCESS, CORRECTION, ERASURE, NOMINATION, or GRIEVANCE' }),
+});
+
+const requestStatusSchema = z.enum(['RECEIVED', 'VERIFYING', 'IN_PROGRESS', 'COMPLETED', 'REJECTED'], {
+    errorMap: () => ({ message: 'Status must be RECEIVED, VERIFYING, IN_PROGRESS, COMPLETED, or REJECTED' }),
+});
+
+// Type-specific fields collected by the loader's rights form
+const requestDetailsSchema = z.object({
+    incorrectData: z.string().max(2000).optional(),
+    correctData: z.string().max(2000).optional(),
+    erasureReason: z.string().max(255).optional(),
+    erasureAcknowledged: z.boolean().optional(),
+    nomineeName: z.string().max(255).optional(),
+    nomineeEmail: z.string().email('Invalid nominee email').max(255).optional(),
+    grievanceCategory: z.string().max(255).optional(),
+    grievanceDetails: z.string().max(2000).optional(),
+}).strict();
+
+// Public submission from the loader
+export const submitRightsRequestSchema = z.object({
+    type: requestTypeSchema,
+    email: z
+        .string()
+        .email('Invalid email format')
+        .max(255)
+        .transform((val) => val.toLowerCase().trim()),
+    description: z
+        .string()
+        .min(1, 'Description is required')
+        .max(2000, 'Description must not exceed 2000 characters'),
+    details: requestDetailsSchema.default({}),
+    language: z.string().min(2).max(10).optional(),
+    // Hidden field of the loader form; left empty by people
+    honeypot: z.string().max(500).optional(),
+}).superRefine((data, ctx) => {
+    const require = (field: keyof typeof data.details, message: string) => {
+        const value = data.details[field];
+        if (typeof value !== 'string' || value.trim() === '') {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['details', field], message });
+        }
+    };
+
+    if (data.type === 'CORRECTION') {
+        require('incorrectData', 'Incorrect data is required');
+        require('correctData', 'Correct data is required');
+    } else if (data.type === 'NOMINATION') {
+        require('nomineeName', 'Nominee name is required');
+        require('nomineeEmail', 'Nominee email is required');
+    } else if (data.type === 'GRIEVANCE') {
+        require('grievanceCategory', 'Grievance category is required');
+        require('grievanceDetails', 'Grievance details are required');
+    }
+});
+
+// Tenant inbox filters
+export const rightsRequestFiltersSchema = z.object({
+    status: requestStatusSchema.optional(),
+    requestType: requestTypeSchema.optional(),
+    websiteId: z.string().uuid().optional(),
+}).merge(paginationSchema);
+
+// Rights request ID param
+export const rightsRequestIdParamSchema = z.object({
+    requestId: z.string().uuid('Invalid request ID format'),
+});
+
+// Status transition
+export const updateRightsRequestStatusSchema = z.object({
+    status: requestStatusSchema,
+    note: z.string().max(2000, 'Note must not exceed 2000 characters').optional(),
+});
+
+// Assignment (free text: tenants have a single login, work is often handed to others)
+export const assignRightsRequestSchema = z.object({
+    assignedTo: z
+        .string()
+        .max(255, 'Assignee must not exceed 255 characters')
+        .transform((val) => val.trim())
+        .nullable(),
+});
+
+// Internal note
+export const addRightsRequestNoteSchema = z.object({
+    note: z
+        .string()
+        .min(1, 'Note is required')
+        .max(5000, 'Note must not exceed 5000 characters'),
+});
+
+// Public verification by one-time code (typed into the loader form)
+export const verifyRightsRequestParamSchema = z.object({
+    siteId: z.string().uuid('Invalid site ID format'),
+    requestNumber: z.string().regex(/^DSR-\d{4}-[A-F0-9]{8}$/, 'Invalid request number format'),
+});
+
+export const verifyRightsRequestCodeSchema = z.object({
+    code: z.string().trim().regex(/^\d{6}$/, 'Verification code must be 6 digits'),
+});
+
+// Public verification by emailed link
+export const verifyRightsRequestTokenQuerySchema = z.object({
+    token: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid verification token'),
+});
+
+// SLA section of the active global rules JSON ("rights_requests" key).
+// Every field is optional; missing values fall back to the platform defaults.
+const slaDaysSchema = z.number().int().positive().max(365);
+const severitySchema = z.enum(['LOW', 'MEDIUM', 'HIGH']);
+
+export const rightsRequestSlaRulesSchema = z.object({
+    sla_days: z.object({
+        DEFAULT: slaDaysSchema.optional(),
+        ACCESS: slaDaysSchema.optional(),
+        CORRECTION: slaDaysSchema.optional(),
+        ERASURE: slaDaysSchema.optional(),
+        NOMINATION: slaDaysSchema.optional(),
+        GRIEVANCE: slaDaysSchema.optional(),
+    }).default({}),
+    due_soon_days: z.number().int().min(0).max(90).optional(),
+    breach_severity: z.union([
+        severitySchema,
+        z.object({
+            DEFAULT: severitySchema.optional(),
+            ACCESS: severitySchema.optional(),
+            CORRECTION: severitySchema.optional(),
+            ERASURE: severitySchema.optional(),
+            NOMINATION: severitySchema.optional(),
+            GRIEVANCE: severitySchema.optional(),
+        }),
+    ]).optional(),
+});
+
+export type SubmitRightsRequestInput = z.infer<typeof submitRightsRequestSchema>;
+export type RightsRequestFiltersInput = z.infer<typeof rightsRequestFiltersSchema>;
+export type UpdateRightsRequestStatusInput = z.infer<typeof updateRightsRequestStatusSchema>;
+export type AssignRightsRequestInput = z.infer<typeof assignRightsRequestSchema>;
+export type AddRightsRequestNoteInput = z.infer<typeof addRightsRequestNoteSchema>;
+export type VerifyRightsRequestCodeInput = z.infer<typeof verifyRightsRequestCodeSchema>;
+export type RightsRequestSlaRulesInput = z.infer<typeof rightsRequestSlaRulesSchema>;
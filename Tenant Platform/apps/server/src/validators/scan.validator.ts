@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+/**
+ * Cookie and tracker scan validation schemas
+ */
+
+export const SCAN_MAX_PAGES = 50;
+
+// Start a scan. Without URLs the scanner starts at https://<domain>/;
+// further pages are found by following links on the same site
+export const startScanSchema = z.object({
+    urls: z
+        .array(z.string().trim().url('Invalid URL').refine(
+            (url) => /^https?:\/\//i.test(url),
+            'URLs must use http or https'
+        ))
+        .max(20, 'At most 20 start URLs are allowed')
+        .default([]),
+    maxPages: z.number().int().min(1).max(SCAN_MAX_PAGES, `At most ${SCAN_MAX_PAGES} pages can be scanned`).default(10),
+});
+
+// Scan params
+export const scanIdParamSchema = z.object({
+    id: z.string().uuid('Invalid website ID format'),
+    scanId: z.string().uuid('Invalid scan ID format'),
+});
+
+export type StartScanInput = z.infer<typeof startScanSchema>;
@@ -0,0 +1,74 @@
+import { z } from 'zod';
+
+/**
+ * IAB TCF v2.2 validation schemas
+ */
+
+// IAB purposes 1-11 and special features 1-2 as defined by TCF v2.2
+export const TCF_PURPOSE_COUNT = 11;
+export const TCF_SPECIAL_FEATURE_COUNT = 2;
+
+const idListSchema = z.array(z.number().int().positive()).default([]);
+
+const vendorListEntrySchema = z.object({
+    id: z.number().int().positive(),
+    name: z.string(),
+    description: z.string().default(''),
+});
+
+const vendorListEntriesSchema = z.record(z.string(), vendorListEntrySchema).default({});
+
+// One vendor from the GVL. Unknown fields (retention, data declarations, ...)
+// are dropped; v3 lists carry the privacy policy in urls[], v2 in policyUrl
+const vendorSchema = z.object({
+    id: z.number().int().positive().max(65535),
+    name: z.string().min(1),
+    purposes: idListSchema,
+    legIntPurposes: idListSchema,
+    flexiblePurposes: idListSchema,
+    specialPurposes: idListSchema,
+    features: idListSchema,
+    specialFeatures: idListSchema,
+    policyUrl: z.string().optional(),
+    urls: z.array(z.object({ privacy: z.string().optional() })).optional(),
+    deletedDate: z.string().optional(),
+}).transform(({ urls, policyUrl, ...vendor }) => ({
+    ...vendor,
+    policyUrl: policyUrl || urls?.find((url) => url.privacy)?.privacy,
+}));
+
+// A Global Vendor List file (vendor-list.json) as published by IAB Europe
+export const importTcfVendorListSchema = z.object({
+    vendorListVersion: z.number().int().positive().max(4095),
+    tcfPolicyVersion: z.number().int().min(4, 'Only TCF v2.2 vendor lists (policy version 4 or later) are supported').max(63),
+    lastUpdated: z.string(),
+    purposes: vendorListEntriesSchema,
+    specialPurposes: vendorListEntriesSchema,
+    features: vendorListEntriesSchema,
+    specialFeatures: vendorListEntriesSchema,
+    vendors: z.record(z.string(), vendorSchema),
+});
+
+const purposeTagSchema = z
+    .string()
+    .min(1)
+    .max(50)
+    .regex(/^[a-z0-9_]+$/, 'Tag must be lowercase, numbers, and underscores only');
+
+const purposeMappingSchema = z.object({
+    purposes: z.array(z.number().int().min(1).max(TCF_PURPOSE_COUNT)).default([]),
+    specialFeatures: z.array(z.number().int().min(1).max(TCF_SPECIAL_FEATURE_COUNT)).default([]),
+});
+
+export const updateTcfSettingsSchema = z.object({
+    enabled: z.boolean(),
+    publisherCountryCode: z
+        .string()
+        .regex(/^[A-Z]{2}$/, 'Publisher country code must be two uppercase letters')
+        .default('AA'),
+    selectedVendorIds: z.array(z.number().int().positive()).max(5000).default([]),
+    purposeMapping: z.record(purposeTagSchema, purposeMappingSchema).default({}),
+});
+
+export type ImportTcfVendorListInput = z.infer<typeof importTcfVendorListSchema>;
+export type UpdateTcfSettingsInput = z.infer<typeof updateTcfSettingsSchema>;
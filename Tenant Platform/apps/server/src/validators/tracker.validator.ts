@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+/**
+ * Known-tracker adoption validation schemas
+ */
+
+// Adopt catalogue trackers into website purposes. Without a purpose tag the
+// purpose matching the tracker's category is used
+export const adoptTrackersSchema = z.object({
+    trackers: z
+        .array(z.object({
+            trackerId: z.string().uuid('Invalid tracker ID format'),
+            purposeTag: z.string().trim().min(1).optional(),
+        }))
+        .min(1, 'Select at least one tracker')
+        .max(100, 'At most 100 trackers can be adopted at once'),
+});
+
+// Adopted tracker params
+export const trackerIdParamSchema = z.object({
+    id: z.string().uuid('Invalid website ID format'),
+    trackerId: z.string().uuid('Invalid tracker ID format'),
+});
+
+export type AdoptTrackersInput = z.infer<typeof adoptTrackersSchema>;
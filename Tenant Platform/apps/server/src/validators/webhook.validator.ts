@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { paginationSchema } from './audit.validator';
+
+/**
+ * Webhook validation schemas
+ */
+
+export const WEBHOOK_EVENT_TYPES = [
+    'consent.given',
+    'consent.updated',
+    'consent.withdrawn',
+    'rights_request.created',
+    'rights_request.status_changed',
+    'website.published',
+] as const;
+
+// Where the payloads are posted. Whether plain http and local hosts are
+// allowed depends on the environment and is checked by the service
+const webhookUrlSchema = z
+    .string()
+    .trim()
+    .max(2048)
+    .url('Enter a URL such as https://crm.example.com/hooks/consent')
+    .refine((value) => /^https?:\/\//i.test(value), 'Webhook URLs must use https')
+    .refine((value) => {
+        const url = new URL(value);
+        return !url.username && !url.password;
+    }, 'Put credentials in the receiver, not in the URL');
+
+export const webhookEndpointSchema = z.object({
+    url: webhookUrlSchema,
+    description: z.string().trim().max(255).nullish().transform((value) => value || null),
+    events: z
+        .array(z.enum(WEBHOOK_EVENT_TYPES))
+        .min(1, 'Subscribe to at least one event')
+        .transform((events) => [...new Set(events)]),
+    // Limit the endpoint to one website; null receives every website's events
+    websiteId: z.string().uuid('Invalid website ID format').nullish().transform((value) => value || null),
+    isActive: z.boolean().default(true),
+});
+
+// Delivery log filters
+export const webhookDeliveryFiltersSchema = z.object({
+    status: z.enum(['PENDING', 'SUCCEEDED', 'FAILED']).optional(),
+    eventType: z.enum(WEBHOOK_EVENT_TYPES).optional(),
+}).merge(paginationSchema);
+
+// Webhook params
+export const webhookIdParamSchema = z.object({
+    id: z.string().uuid('Invalid webhook ID format'),
+});
+
+export const webhookDeliveryIdParamSchema = z.object({
+    id: z.string().uuid('Invalid webhook ID format'),
+    deliveryId: z.string().uuid('Invalid delivery ID format'),
+});
+
+export type WebhookEndpointInput = z.infer<typeof webhookEndpointSchema>;
+export type WebhookDeliveryFiltersInput = z.infer<typeof webhookDeliveryFiltersSchema>;
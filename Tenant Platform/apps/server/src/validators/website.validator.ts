@@ -23,6 +23,47 @@ export const updateWebsiteStatusSchema = z.object({
     }),
 });
 
+// Consent lifetime (null restores the default)
+const lifetimeDaysSchema = z.number().int().min(1, 'Lifetime must be at least 1 day').max(3650, 'Lifetime must not exceed 3650 days').nullable();
+
+export const updateConsentLifetimeSchema = z.object({
+    consentLifetimeDays: lifetimeDaysSchema,
+    rejectLifetimeDays: lifetimeDaysSchema,
+}).refine(
+    (data) => data.consentLifetimeDays === null || data.rejectLifetimeDays === null ||
+        data.rejectLifetimeDays <= data.consentLifetimeDays,
+    { message: 'Reject lifetime must not exceed the consent lifetime', path: ['rejectLifetimeDays'] }
+);
+
+// "consent_lifetime" section of the active global rules JSON.
+// Every field is optional; missing values fall back to the platform defaults.
+export const consentLifetimeRulesSchema = z.object({
+    default_days: z.number().int().positive().max(3650).optional(),
+    max_days: z.number().int().positive().max(3650).optional(),
+    min_reject_days: z.number().int().positive().max(3650).optional(),
+});
+
+// Origin allow-list. Allowed domains are host names, optionally with a
+// leading "*." for any subdomain. Test domains may also be localhost or an
+// IPv4 address, and may carry a port.
+const allowedDomainRegex = /^(?:\*\.)?(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}$/;
+const testDomainRegex = /^(?:(?:\*\.)?(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}|localhost|(?:\d{1,3}\.){3}\d{1,3})(?::\d{1,5})?$/;
+
+const domainListSchema = (regex: RegExp, max: number, message: string) => z
+    .array(z.string().trim().toLowerCase().regex(regex, message))
+    .max(max, `At most ${max} domains are allowed`)
+    .transform((domains) => Array.from(new Set(domains)));
+
+export const updateOriginSettingsSchema = z.object({
+    allowedDomains: domainListSchema(allowedDomainRegex, 50, 'Allowed domains must be host names, e.g. shop.example.com or *.example.com'),
+    testDomains: domainListSchema(testDomainRegex, 20, 'Test domains must be host names, localhost or IP addresses, with an optional port'),
+});
+
+// Security events of the last N days
+export const securityEventsQuerySchema = z.object({
+    days: z.coerce.number().int().min(1).max(90).default(30),
+});
+
 // Website ID param
 export const websiteIdParamSchema = z.object({
     id: z.string().uuid('Invalid website ID format'),
@@ -30,4 +71,7 @@ export const websiteIdParamSchema = z.object({
 
 export type CreateWebsiteInput = z.infer<typeof createWebsiteSchema>;
 export type UpdateWebsiteStatusInput = z.infer<typeof updateWebsiteStatusSchema>;
+export type UpdateConsentLifetimeInput = z.infer<typeof updateConsentLifetimeSchema>;
+export type UpdateOriginSettingsInput = z.infer<typeof updateOriginSettingsSchema>;
+export type SecurityEventsQuery = z.infer<typeof securityEventsQuerySchema>;
 export type WebsiteIdParam = z.infer<typeof websiteIdParamSchema>;
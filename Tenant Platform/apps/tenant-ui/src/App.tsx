@@ -10,6 +10,8 @@ import { ResetPasswordPage } from '@/pages/ResetPassword';
 import { DashboardPage } from '@/pages/Dashboard';
 import { WebsitesPage, WebsiteDetailPage } from '@/pages/Websites';
 import { AuditLogsPage } from '@/pages/AuditLogs';
+import { RequestsPage } from '@/pages/Requests';
+import { WebhooksPage } from '@/pages/Webhooks';
 
 // Auth Guard Component
 function RequireAuth({ children }: { children: React.ReactNode }) {
@@ -46,6 +48,8 @@ function App() {
                 <Route index element={<DashboardPage />} />
                 <Route path="websites" element={<WebsitesPage />} />
                 <Route path="websites/:id" element={<WebsiteDetailPage />} />
+                <Route path="requests" element={<RequestsPage />} />
+                <Route path="webhooks" element={<WebhooksPage />} />
                 <Route path="audit-logs" element={<AuditLogsPage />} />
             </Route>
 
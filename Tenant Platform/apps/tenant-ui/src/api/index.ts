@@ -7,12 +7,48 @@ import type {
     WebsiteWithStats,
     Website,
     CanActivateResult,
+    ConsentLifetime,
+    ConsentLifetimeSettings,
+    OriginSettings,
+    WebsiteOrigins,
+    SecurityEvent,
+    ConsentModeSettings,
     WebsiteNotice,
     Purpose,
+    ConfigChangeType,
+    ConfigVersion,
+    PublishedConfig,
+    PublishStatus,
+    ConfigDiff,
+    TcfSettings,
+    TcfVendorList,
+    WebsiteScan,
+    WebsiteScanSummary,
+    TrackerCatalogueEntry,
+    WebsiteTracker,
+    BlockingRule,
+    BlockingRuleInput,
+    CookieDeclaration,
+    CookieDeclarationInput,
+    ConsentAnalyticsSummary,
     BannerCustomization,
+    BannerVariant,
+    BannerVariantInput,
+    BannerExperimentResults,
     AuditLog,
     SupportedLanguage,
     PaginationInfo,
+    RightsRequest,
+    RightsRequestDetail,
+    RightsRequestSlaSummary,
+    RightsRequestStatus,
+    RightsRequestType,
+    WebhookDelivery,
+    WebhookDeliveryStatus,
+    WebhookEndpoint,
+    WebhookEndpointInput,
+    WebhookEndpointWithSecret,
+    WebhookEventType,
 } from '@/types';
 
 // ==================== AUTH ====================
@@ -87,6 +123,41 @@ export const websiteApi = {
         return response.data.data!;
     },
 
+    getConsentLifetime: async (id: string): Promise<ConsentLifetime> => {
+        const response = await api.get<ApiResponse<ConsentLifetime>>(`/websites/${id}/consent-lifetime`);
+        return response.data.data!;
+    },
+
+    updateConsentLifetime: async (id: string, settings: ConsentLifetimeSettings): Promise<ConsentLifetime> => {
+        const response = await api.put<ApiResponse<ConsentLifetime>>(`/websites/${id}/consent-lifetime`, settings);
+        return response.data.data!;
+    },
+
+    getOrigins: async (id: string): Promise<WebsiteOrigins> => {
+        const response = await api.get<ApiResponse<WebsiteOrigins>>(`/websites/${id}/origins`);
+        return response.data.data!;
+    },
+
+    updateOrigins: async (id: string, settings: OriginSettings): Promise<WebsiteOrigins> => {
+        const response = await api.put<ApiResponse<WebsiteOrigins>>(`/websites/${id}/origins`, settings);
+        return response.data.data!;
+    },
+
+    getSecurityEvents: async (id: string, days: number): Promise<SecurityEvent[]> => {
+        const response = await api.get<ApiResponse<SecurityEvent[]>>(`/websites/${id}/security-events`, { params: { days } });
+        return response.data.data!;
+    },
+
+    getConsentMode: async (id: string): Promise<ConsentModeSettings> => {
+        const response = await api.get<ApiResponse<ConsentModeSettings>>(`/websites/${id}/consent-mode`);
+        return response.data.data!;
+    },
+
+    updateConsentMode: async (id: string, settings: ConsentModeSettings): Promise<ConsentModeSettings> => {
+        const response = await api.put<ApiResponse<ConsentModeSettings>>(`/websites/${id}/consent-mode`, settings);
+        return response.data.data!;
+    },
+
     delete: async (id: string): Promise<void> => {
         await api.delete(`/websites/${id}`);
     },
@@ -139,9 +210,10 @@ export const noticeApi = {
             withdrawalInstruction?: string;
             complaintInstruction?: string;
         }>,
-        dpoEmail?: string
+        dpoEmail?: string,
+        changeType?: ConfigChangeType
     ): Promise<void> => {
-        await api.patch(`/notices/${noticeId}/translations`, { translations, dpoEmail });
+        await api.patch(`/notices/${noticeId}/translations`, { translations, dpoEmail, changeType });
     },
 };
 
@@ -184,6 +256,7 @@ export const purposeApi = {
             isEssential?: boolean;
             status?: string;
             displayOrder?: number;
+            changeType?: ConfigChangeType;
         }
     ): Promise<Purpose> => {
         const response = await api.patch<ApiResponse<Purpose>>(`/purposes/${purposeId}`, data);
@@ -196,9 +269,10 @@ export const purposeApi = {
             languageCode: string;
             name: string;
             description: string;
-        }>
+        }>,
+        changeType?: ConfigChangeType
     ): Promise<void> => {
-        await api.patch(`/purposes/${purposeId}/translations`, { translations });
+        await api.patch(`/purposes/${purposeId}/translations`, { translations, changeType });
     },
 
     delete: async (purposeId: string): Promise<void> => {
@@ -213,6 +287,208 @@ export const purposeApi = {
     },
 };
 
+// ==================== CONFIG VERSIONS ====================
+
+export const configVersionApi = {
+    list: async (websiteId: string): Promise<ConfigVersion[]> => {
+        const response = await api.get<ApiResponse<ConfigVersion[]>>(
+            `/websites/${websiteId}/config-versions`
+        );
+        return response.data.data!;
+    },
+};
+
+// ==================== PUBLISHING ====================
+
+export const publishApi = {
+    getStatus: async (websiteId: string): Promise<PublishStatus> => {
+        const response = await api.get<ApiResponse<PublishStatus>>(
+            `/websites/${websiteId}/publishing`
+        );
+        return response.data.data!;
+    },
+
+    getDiff: async (websiteId: string): Promise<ConfigDiff> => {
+        const response = await api.get<ApiResponse<ConfigDiff>>(
+            `/websites/${websiteId}/publishing/diff`
+        );
+        return response.data.data!;
+    },
+
+    // Draft preview page, rendered in an iframe via srcDoc
+    getPreview: async (websiteId: string): Promise<string> => {
+        const response = await api.get<string>(
+            `/websites/${websiteId}/publishing/preview`,
+            { responseType: 'text' }
+        );
+        return response.data;
+    },
+
+    publish: async (websiteId: string, note?: string): Promise<PublishedConfig> => {
+        const response = await api.post<ApiResponse<PublishedConfig>>(
+            `/websites/${websiteId}/publish`,
+            { note }
+        );
+        return response.data.data!;
+    },
+
+    list: async (websiteId: string): Promise<PublishedConfig[]> => {
+        const response = await api.get<ApiResponse<PublishedConfig[]>>(
+            `/websites/${websiteId}/published-configs`
+        );
+        return response.data.data!;
+    },
+
+    rollback: async (websiteId: string, version: number, note?: string): Promise<PublishedConfig> => {
+        const response = await api.post<ApiResponse<PublishedConfig>>(
+            `/websites/${websiteId}/published-configs/${version}/rollback`,
+            { note }
+        );
+        return response.data.data!;
+    },
+};
+
+// ==================== IAB TCF ====================
+
+export const tcfApi = {
+    get: async (websiteId: string): Promise<TcfSettings> => {
+        const response = await api.get<ApiResponse<TcfSettings>>(`/websites/${websiteId}/tcf`);
+        return response.data.data!;
+    },
+
+    update: async (websiteId: string, settings: Omit<TcfSettings, 'vendorList'>): Promise<TcfSettings> => {
+        const response = await api.put<ApiResponse<TcfSettings>>(`/websites/${websiteId}/tcf`, settings);
+        return response.data.data!;
+    },
+
+    getVendorList: async (websiteId: string): Promise<TcfVendorList> => {
+        const response = await api.get<ApiResponse<TcfVendorList>>(`/websites/${websiteId}/tcf/vendor-list`);
+        return response.data.data!;
+    },
+
+    // vendorList is the parsed vendor-list.json file published by IAB Europe
+    importVendorList: async (websiteId: string, vendorList: unknown): Promise<TcfSettings> => {
+        const response = await api.post<ApiResponse<TcfSettings>>(`/websites/${websiteId}/tcf/vendor-list`, vendorList);
+        return response.data.data!;
+    },
+};
+
+// ==================== SCANS ====================
+
+export const scanApi = {
+    list: async (websiteId: string): Promise<WebsiteScanSummary[]> => {
+        const response = await api.get<ApiResponse<WebsiteScanSummary[]>>(`/websites/${websiteId}/scans`);
+        return response.data.data!;
+    },
+
+    get: async (websiteId: string, scanId: string): Promise<WebsiteScan> => {
+        const response = await api.get<ApiResponse<WebsiteScan>>(`/websites/${websiteId}/scans/${scanId}`);
+        return response.data.data!;
+    },
+
+    // Without URLs the scan starts at the website's home page
+    start: async (websiteId: string, data: { urls?: string[]; maxPages?: number }): Promise<WebsiteScanSummary> => {
+        const response = await api.post<ApiResponse<WebsiteScanSummary>>(`/websites/${websiteId}/scans`, data);
+        return response.data.data!;
+    },
+};
+
+// ==================== KNOWN TRACKERS ====================
+
+export const trackerApi = {
+    catalogue: async (): Promise<TrackerCatalogueEntry[]> => {
+        const response = await api.get<ApiResponse<TrackerCatalogueEntry[]>>('/trackers');
+        return response.data.data!;
+    },
+
+    list: async (websiteId: string): Promise<WebsiteTracker[]> => {
+        const response = await api.get<ApiResponse<WebsiteTracker[]>>(`/websites/${websiteId}/trackers`);
+        return response.data.data!;
+    },
+
+    // Without a purpose tag the tracker goes to the purpose matching its category
+    adopt: async (
+        websiteId: string,
+        trackers: Array<{ trackerId: string; purposeTag?: string }>
+    ): Promise<WebsiteTracker[]> => {
+        const response = await api.post<ApiResponse<WebsiteTracker[]>>(`/websites/${websiteId}/trackers`, { trackers });
+        return response.data.data!;
+    },
+
+    remove: async (websiteId: string, trackerId: string): Promise<void> => {
+        await api.delete(`/websites/${websiteId}/trackers/${trackerId}`);
+    },
+};
+
+// ==================== AUTO-BLOCKING RULES ====================
+
+export const blockingRuleApi = {
+    list: async (websiteId: string): Promise<BlockingRule[]> => {
+        const response = await api.get<ApiResponse<BlockingRule[]>>(`/websites/${websiteId}/blocking-rules`);
+        return response.data.data!;
+    },
+
+    create: async (websiteId: string, data: BlockingRuleInput): Promise<BlockingRule> => {
+        const response = await api.post<ApiResponse<BlockingRule>>(`/websites/${websiteId}/blocking-rules`, data);
+        return response.data.data!;
+    },
+
+    update: async (websiteId: string, ruleId: string, data: BlockingRuleInput): Promise<BlockingRule> => {
+        const response = await api.put<ApiResponse<BlockingRule>>(`/websites/${websiteId}/blocking-rules/${ruleId}`, data);
+        return response.data.data!;
+    },
+
+    remove: async (websiteId: string, ruleId: string): Promise<void> => {
+        await api.delete(`/websites/${websiteId}/blocking-rules/${ruleId}`);
+    },
+};
+
+// ==================== COOKIES ====================
+
+export const cookieApi = {
+    list: async (websiteId: string): Promise<CookieDeclaration[]> => {
+        const response = await api.get<ApiResponse<CookieDeclaration[]>>(`/websites/${websiteId}/cookies`);
+        return response.data.data!;
+    },
+
+    create: async (websiteId: string, data: CookieDeclarationInput): Promise<CookieDeclaration> => {
+        const response = await api.post<ApiResponse<CookieDeclaration>>(`/websites/${websiteId}/cookies`, data);
+        return response.data.data!;
+    },
+
+    update: async (websiteId: string, cookieId: string, data: CookieDeclarationInput): Promise<CookieDeclaration> => {
+        const response = await api.put<ApiResponse<CookieDeclaration>>(`/websites/${websiteId}/cookies/${cookieId}`, data);
+        return response.data.data!;
+    },
+
+    remove: async (websiteId: string, cookieId: string): Promise<void> => {
+        await api.delete(`/websites/${websiteId}/cookies/${cookieId}`);
+    },
+
+    getGovernance: async (websiteId: string): Promise<{ enabled: boolean }> => {
+        const response = await api.get<ApiResponse<{ enabled: boolean }>>(`/websites/${websiteId}/cookie-governance`);
+        return response.data.data!;
+    },
+
+    updateGovernance: async (websiteId: string, enabled: boolean): Promise<{ enabled: boolean }> => {
+        const response = await api.put<ApiResponse<{ enabled: boolean }>>(`/websites/${websiteId}/cookie-governance`, { enabled });
+        return response.data.data!;
+    },
+};
+
+// ==================== ANALYTICS ====================
+
+export const analyticsApi = {
+    get: async (websiteId: string, range: { from?: string; to?: string } = {}): Promise<ConsentAnalyticsSummary> => {
+        const params = new URLSearchParams();
+        if (range.from) params.append('from', range.from);
+        if (range.to) params.append('to', range.to);
+
+        const response = await api.get<ApiResponse<ConsentAnalyticsSummary>>(`/websites/${websiteId}/analytics?${params}`);
+        return response.data.data!;
+    },
+};
+
 // ==================== BANNER ====================
 
 export const bannerApi = {
@@ -288,6 +564,38 @@ export const bannerApi = {
     },
 };
 
+// ==================== BANNER VARIANTS ====================
+
+export const bannerVariantApi = {
+    list: async (websiteId: string): Promise<BannerVariant[]> => {
+        const response = await api.get<ApiResponse<BannerVariant[]>>(`/websites/${websiteId}/banner-variants`);
+        return response.data.data!;
+    },
+
+    getResults: async (websiteId: string): Promise<BannerExperimentResults> => {
+        const response = await api.get<ApiResponse<BannerExperimentResults>>(`/websites/${websiteId}/banner-variants/results`);
+        return response.data.data!;
+    },
+
+    create: async (websiteId: string, data: BannerVariantInput): Promise<BannerVariant> => {
+        const response = await api.post<ApiResponse<BannerVariant>>(`/websites/${websiteId}/banner-variants`, data);
+        return response.data.data!;
+    },
+
+    update: async (websiteId: string, variantId: string, data: BannerVariantInput): Promise<BannerVariant> => {
+        const response = await api.put<ApiResponse<BannerVariant>>(`/websites/${websiteId}/banner-variants/${variantId}`, data);
+        return response.data.data!;
+    },
+
+    remove: async (websiteId: string, variantId: string): Promise<void> => {
+        await api.delete(`/websites/${websiteId}/banner-variants/${variantId}`);
+    },
+
+    promote: async (websiteId: string, variantId: string): Promise<void> => {
+        await api.post(`/websites/${websiteId}/banner-variants/${variantId}/promote`);
+    },
+};
+
 // ==================== AUDIT ====================
 
 export interface AuditFilters {
@@ -337,6 +645,142 @@ export const auditApi = {
     },
 };
 
+// ==================== RIGHTS REQUESTS ====================
+
+export interface RightsRequestFilters {
+    page?: number;
+    limit?: number;
+    status?: RightsRequestStatus;
+    requestType?: RightsRequestType;
+    websiteId?: string;
+}
+
+export const rightsRequestApi = {
+    list: async (
+        filters: RightsRequestFilters = {}
+    ): Promise<{ items: RightsRequest[]; pagination: PaginationInfo }> => {
+        const params = new URLSearchParams();
+        if (filters.page) params.append('page', String(filters.page));
+        if (filters.limit) params.append('limit', String(filters.limit));
+        if (filters.status) params.append('status', filters.status);
+        if (filters.requestType) params.append('requestType', filters.requestType);
+        if (filters.websiteId) params.append('websiteId', filters.websiteId);
+
+        const response = await api.get<
+            ApiResponse<RightsRequest[]> & { pagination: PaginationInfo }
+        >(`/rights-requests?${params}`);
+        return {
+            items: response.data.data!,
+            pagination: response.data.pagination!,
+        };
+    },
+
+    slaSummary: async (): Promise<RightsRequestSlaSummary> => {
+        const response = await api.get<ApiResponse<RightsRequestSlaSummary>>(
+            '/rights-requests/sla-summary'
+        );
+        return response.data.data!;
+    },
+
+    get: async (requestId: string): Promise<RightsRequestDetail> => {
+        const response = await api.get<ApiResponse<RightsRequestDetail>>(
+            `/rights-requests/${requestId}`
+        );
+        return response.data.data!;
+    },
+
+    updateStatus: async (
+        requestId: string,
+        status: RightsRequestStatus,
+        note?: string
+    ): Promise<RightsRequestDetail> => {
+        const response = await api.patch<ApiResponse<RightsRequestDetail>>(
+            `/rights-requests/${requestId}/status`,
+            { status, note: note || undefined }
+        );
+        return response.data.data!;
+    },
+
+    assign: async (requestId: string, assignedTo: string | null): Promise<RightsRequestDetail> => {
+        const response = await api.patch<ApiResponse<RightsRequestDetail>>(
+            `/rights-requests/${requestId}/assignee`,
+            { assignedTo }
+        );
+        return response.data.data!;
+    },
+
+    addNote: async (requestId: string, note: string): Promise<RightsRequestDetail> => {
+        const response = await api.post<ApiResponse<RightsRequestDetail>>(
+            `/rights-requests/${requestId}/notes`,
+            { note }
+        );
+        return response.data.data!;
+    },
+};
+
+// ==================== WEBHOOKS ====================
+
+export interface WebhookDeliveryFilters {
+    page?: number;
+    limit?: number;
+    status?: WebhookDeliveryStatus;
+    eventType?: WebhookEventType;
+}
+
+export const webhookApi = {
+    list: async (): Promise<WebhookEndpoint[]> => {
+        const response = await api.get<ApiResponse<WebhookEndpoint[]>>('/webhooks');
+        return response.data.data!;
+    },
+
+    create: async (data: WebhookEndpointInput): Promise<WebhookEndpointWithSecret> => {
+        const response = await api.post<ApiResponse<WebhookEndpointWithSecret>>('/webhooks', data);
+        return response.data.data!;
+    },
+
+    update: async (endpointId: string, data: WebhookEndpointInput): Promise<WebhookEndpoint> => {
+        const response = await api.put<ApiResponse<WebhookEndpoint>>(`/webhooks/${endpointId}`, data);
+        return response.data.data!;
+    },
+
+    remove: async (endpointId: string): Promise<void> => {
+        await api.delete(`/webhooks/${endpointId}`);
+    },
+
+    rotateSecret: async (endpointId: string): Promise<WebhookEndpointWithSecret> => {
+        const response = await api.post<ApiResponse<WebhookEndpointWithSecret>>(
+            `/webhooks/${endpointId}/rotate-secret`
+        );
+        return response.data.data!;
+    },
+
+    listDeliveries: async (
+        endpointId: string,
+        filters: WebhookDeliveryFilters = {}
+    ): Promise<{ items: WebhookDelivery[]; pagination: PaginationInfo }> => {
+        const params = new URLSearchParams();
+        if (filters.page) params.append('page', String(filters.page));
+        if (filters.limit) params.append('limit', String(filters.limit));
+        if (filters.status) params.append('status', filters.status);
+        if (filters.eventType) params.append('eventType', filters.eventType);
+
+        const response = await api.get<
+            ApiResponse<WebhookDelivery[]> & { pagination: PaginationInfo }
+        >(`/webhooks/${endpointId}/deliveries?${params}`);
+        return {
+            items: response.data.data!,
+            pagination: response.data.pagination!,
+        };
+    },
+
+    redeliver: async (endpointId: string, deliveryId: string): Promise<WebhookDelivery> => {
+        const response = await api.post<ApiResponse<WebhookDelivery>>(
+            `/webhooks/${endpointId}/deliveries/${deliveryId}/redeliver`
+        );
+        return response.data.data!;
+    },
+};
+
 // ==================== LANGUAGES ====================
 
 export const languageApi = {
@@ -0,0 +1,26 @@
+import type { ConfigChangeType } from '@/types';
+
+interface ChangeTypeSelectorProps {
+    value: ConfigChangeType;
+    onChange: (value: ConfigChangeType) => void;
+}
+
+/**
+ * Lets the tenant say whether an edit to the notice or a purpose changes what
+ * visitors agreed to. Material changes make the banner ask for consent again.
+ */
+export function ChangeTypeSelector({ value, onChange }: ChangeTypeSelectorProps) {
+    return (
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', fontWeight: 500, color: '#374151' }}>
+            Change type
+            <select
+                value={value}
+                onChange={(e) => onChange(e.target.value as ConfigChangeType)}
+                style={{ padding: '6px 8px', fontSize: '12px', border: '1px solid #d1d5db', borderRadius: '6px', background: '#fff', cursor: 'pointer', outline: 'none' }}
+            >
+                <option value="MATERIAL">Material (visitors re-consent)</option>
+                <option value="MINOR">Minor (no re-consent)</option>
+            </select>
+        </label>
+    );
+}
@@ -3,10 +3,12 @@ import {
     LayoutDashboard,
     Globe,
     FileText,
+    Inbox,
     LogOut,
     Menu,
     X,
     Cookie,
+    Webhook,
 } from 'lucide-react';
 import { useAuthStore, useUIStore } from '@/store';
 import { authApi } from '@/api';
@@ -15,6 +17,8 @@ import './Layout.css';
 const navItems = [
     { path: '/', icon: LayoutDashboard, label: 'Dashboard' },
     { path: '/websites', icon: Globe, label: 'Websites' },
+    { path: '/requests', icon: Inbox, label: 'Requests' },
+    { path: '/webhooks', icon: Webhook, label: 'Webhooks' },
     { path: '/audit-logs', icon: FileText, label: 'Audit Logs' },
 ];
 
@@ -1,2 +1,3 @@
 export * from './LanguageSelector';
 export * from './NoticePreview';
+export * from './ChangeTypeSelector';
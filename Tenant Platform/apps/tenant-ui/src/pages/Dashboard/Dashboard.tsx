@@ -8,8 +8,11 @@ import {
     AlertCircle,
     ArrowRight,
     Plus,
+    Inbox,
+    Clock,
+    AlertTriangle,
 } from 'lucide-react';
-import { websiteApi } from '@/api';
+import { websiteApi, rightsRequestApi } from '@/api';
 import { useAuthStore } from '@/store';
 import './Dashboard.css';
 
@@ -21,6 +24,11 @@ export function DashboardPage() {
         queryFn: websiteApi.list,
     });
 
+    const { data: sla } = useQuery({
+        queryKey: ['rights-requests', 'sla-summary'],
+        queryFn: rightsRequestApi.slaSummary,
+    });
+
     // Calculate stats
     const stats = {
         total: websites?.length || 0,
@@ -91,6 +99,47 @@ export function DashboardPage() {
                     </div>
                 </div>
 
+                {/* Rights Request Deadlines */}
+                <div className="dashboard-section-header">
+                    <h2>Rights Requests</h2>
+                    <Link to="/requests" className="text-primary text-sm">
+                        View inbox
+                    </Link>
+                </div>
+                <div className="stats-grid">
+                    <Link to="/requests" className="stat-card stat-card-link">
+                        <div className="stat-icon stat-icon-primary">
+                            <Inbox size={24} />
+                        </div>
+                        <div className="stat-content">
+                            <div className="stat-value">{sla?.open ?? 0}</div>
+                            <div className="stat-label">Open</div>
+                        </div>
+                    </Link>
+
+                    <Link to="/requests" className="stat-card stat-card-link">
+                        <div className="stat-icon stat-icon-warning">
+                            <Clock size={24} />
+                        </div>
+                        <div className="stat-content">
+                            <div className="stat-value">{sla?.dueSoon ?? 0}</div>
+                            <div className="stat-label">
+                                Due in {sla?.dueSoonDays ?? 3} {sla?.dueSoonDays === 1 ? 'Day' : 'Days'}
+                            </div>
+                        </div>
+                    </Link>
+
+                    <Link to="/requests" className="stat-card stat-card-link">
+                        <div className="stat-icon stat-icon-error">
+                            <AlertTriangle size={24} />
+                        </div>
+                        <div className="stat-content">
+                            <div className="stat-value">{sla?.overdue ?? 0}</div>
+                            <div className="stat-label">Overdue</div>
+                        </div>
+                    </Link>
+                </div>
+
                 {/* Quick Actions & Recent Websites */}
                 <div className="dashboard-grid">
                     {/* Quick Actions */}
@@ -0,0 +1,556 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+    Inbox,
+    ChevronLeft,
+    ChevronRight,
+    X,
+    UserCheck,
+    MessageSquare,
+    ArrowRight,
+} from 'lucide-react';
+import { rightsRequestApi, websiteApi, type RightsRequestFilters } from '@/api';
+import { getErrorMessage } from '@/api/client';
+import type {
+    RightsRequest,
+    RightsRequestDetail,
+    RightsRequestEvent,
+    RightsRequestStatus,
+    RightsRequestType,
+} from '@/types';
+import './Requests.css';
+
+const STATUS_CONFIG: Record<RightsRequestStatus, { color: string; label: string }> = {
+    RECEIVED: { color: 'info', label: 'Received' },
+    VERIFYING: { color: 'warning', label: 'Verifying' },
+    IN_PROGRESS: { color: 'warning', label: 'In Progress' },
+    COMPLETED: { color: 'success', label: 'Completed' },
+    REJECTED: { color: 'error', label: 'Rejected' },
+};
+
+const TYPE_LABELS: Record<RightsRequestType, string> = {
+    ACCESS: 'Access',
+    CORRECTION: 'Correction',
+    ERASURE: 'Erasure',
+    NOMINATION: 'Nomination',
+    GRIEVANCE: 'Grievance',
+};
+
+// Mirrors the server-side workflow
+const NEXT_STATUSES: Record<RightsRequestStatus, RightsRequestStatus[]> = {
+    RECEIVED: ['VERIFYING', 'IN_PROGRESS', 'REJECTED'],
+    VERIFYING: ['IN_PROGRESS', 'REJECTED'],
+    IN_PROGRESS: ['COMPLETED', 'REJECTED'],
+    COMPLETED: [],
+    REJECTED: [],
+};
+
+const DETAIL_LABELS: Record<string, string> = {
+    incorrectData: 'Incorrect Data',
+    correctData: 'Correct Data',
+    erasureReason: 'Erasure Reason',
+    erasureAcknowledged: 'Retention Acknowledged',
+    nomineeName: 'Nominee Name',
+    nomineeEmail: 'Nominee Email',
+    grievanceCategory: 'Grievance Category',
+    grievanceDetails: 'Grievance Details',
+};
+
+export function RequestsPage() {
+    const [filters, setFilters] = useState<RightsRequestFilters>({
+        page: 1,
+        limit: 20,
+    });
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+
+    const { data: requestsData, isLoading } = useQuery({
+        queryKey: ['rights-requests', filters],
+        queryFn: () => rightsRequestApi.list(filters),
+    });
+
+    const { data: websites } = useQuery({
+        queryKey: ['websites'],
+        queryFn: websiteApi.list,
+    });
+
+    const handlePageChange = (newPage: number) => {
+        setFilters((prev) => ({ ...prev, page: newPage }));
+    };
+
+    return (
+        <div className="requests-page">
+            <div className="container">
+                {/* Header */}
+                <div className="page-header">
+                    <div>
+                        <h1>Requests</h1>
+                        <p className="text-gray-500">
+                            Data principal rights requests and grievances from your websites
+                        </p>
+                    </div>
+                </div>
+
+                {/* Filters */}
+                <div className="filters-bar card">
+                    <div className="filters-group">
+                        <div className="filter-item">
+                            <label className="form-label">Status</label>
+                            <select
+                                className="form-input form-select"
+                                value={filters.status || ''}
+                                onChange={(e) =>
+                                    setFilters((prev) => ({
+                                        ...prev,
+                                        status: (e.target.value || undefined) as RightsRequestStatus | undefined,
+                                        page: 1,
+                                    }))
+                                }
+                            >
+                                <option value="">All Statuses</option>
+                                {Object.entries(STATUS_CONFIG).map(([value, config]) => (
+                                    <option key={value} value={value}>
+                                        {config.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="filter-item">
+                            <label className="form-label">Type</label>
+                            <select
+                                className="form-input form-select"
+                                value={filters.requestType || ''}
+                                onChange={(e) =>
+                                    setFilters((prev) => ({
+                                        ...prev,
+                                        requestType: (e.target.value || undefined) as RightsRequestType | undefined,
+                                        page: 1,
+                                    }))
+                                }
+                            >
+                                <option value="">All Types</option>
+                                {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                                    <option key={value} value={value}>
+                                        {label}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="filter-item">
+                            <label className="form-label">Website</label>
+                            <select
+                                className="form-input form-select"
+                                value={filters.websiteId || ''}
+                                onChange={(e) =>
+                                    setFilters((prev) => ({
+                                        ...prev,
+                                        websiteId: e.target.value || undefined,
+                                        page: 1,
+                                    }))
+                                }
+                            >
+                                <option value="">All Websites</option>
+                                {websites?.map((website) => (
+                                    <option key={website.id} value={website.id}>
+                                        {website.domain}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <button
+                        className="btn btn-ghost btn-sm"
+                        onClick={() => setFilters({ page: 1, limit: 20 })}
+                    >
+                        Clear Filters
+                    </button>
+                </div>
+
+                {/* Requests Table */}
+                <div className="card">
+                    <div className="table-container">
+                        {isLoading ? (
+                            <div className="loading-container">
+                                <div className="spinner"></div>
+                            </div>
+                        ) : requestsData && requestsData.items.length > 0 ? (
+                            <table className="table">
+                                <thead>
+                                    <tr>
+                                        <th>Request</th>
+                                        <th>Type</th>
+                                        <th>Website</th>
+                                        <th>Requester</th>
+                                        <th>Status</th>
+                                        <th>Assignee</th>
+                                        <th>Received</th>
+                                        <th>Due</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {requestsData.items.map((item) => (
+                                        <tr
+                                            key={item.id}
+                                            className="request-row"
+                                            onClick={() => setSelectedId(item.id)}
+                                        >
+                                            <td>
+                                                <code className="request-number">{item.requestNumber}</code>
+                                            </td>
+                                            <td>{TYPE_LABELS[item.requestType]}</td>
+                                            <td>{item.websiteDomain}</td>
+                                            <td>{item.requesterEmail}</td>
+                                            <td>
+                                                <StatusBadge status={item.status} />
+                                            </td>
+                                            <td className="text-gray-500">{item.assignedTo || '—'}</td>
+                                            <td className="timestamp-cell">
+                                                {new Date(item.createdAt).toLocaleString()}
+                                            </td>
+                                            <td className="timestamp-cell">
+                                                <DueDate request={item} />
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        ) : (
+                            <div className="empty-state">
+                                <Inbox size={48} className="empty-state-icon" />
+                                <h3 className="empty-state-title">No requests found</h3>
+                                <p className="empty-state-description">
+                                    Requests submitted through the "Exercise Your Rights" form appear here
+                                </p>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Pagination */}
+                    {requestsData && requestsData.pagination.totalPages > 1 && (
+                        <div className="pagination">
+                            <button
+                                className="btn btn-ghost btn-sm"
+                                disabled={filters.page === 1}
+                                onClick={() => handlePageChange((filters.page || 1) - 1)}
+                            >
+                                <ChevronLeft size={16} />
+                                Previous
+                            </button>
+                            <span className="pagination-info">
+                                Page {requestsData.pagination.page} of {requestsData.pagination.totalPages}
+                            </span>
+                            <button
+                                className="btn btn-ghost btn-sm"
+                                disabled={filters.page === requestsData.pagination.totalPages}
+                                onClick={() => handlePageChange((filters.page || 1) + 1)}
+                            >
+                                Next
+                                <ChevronRight size={16} />
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {selectedId && (
+                <RequestDetailPanel
+                    requestId={selectedId}
+                    onClose={() => setSelectedId(null)}
+                />
+            )}
+        </div>
+    );
+}
+
+function StatusBadge({ status }: { status: RightsRequestStatus }) {
+    const config = STATUS_CONFIG[status] || { color: 'gray', label: status };
+    return <span className={`badge badge-${config.color}`}>{config.label}</span>;
+}
+
+function RequestDetailPanel({
+    requestId,
+    onClose,
+}: {
+    requestId: string;
+    onClose: () => void;
+}) {
+    const queryClient = useQueryClient();
+    const [transitionNote, setTransitionNote] = useState('');
+    const [assignee, setAssignee] = useState('');
+    const [note, setNote] = useState('');
+    const [error, setError] = useState('');
+
+    const { data: request, isLoading } = useQuery({
+        queryKey: ['rights-request', requestId],
+        queryFn: () => rightsRequestApi.get(requestId),
+    });
+
+    useEffect(() => {
+        setAssignee(request?.assignedTo || '');
+    }, [request?.assignedTo]);
+
+    const onUpdated = (updated: RightsRequestDetail) => {
+        queryClient.setQueryData(['rights-request', requestId], updated);
+        queryClient.invalidateQueries({ queryKey: ['rights-requests'] });
+        setError('');
+    };
+
+    const statusMutation = useMutation({
+        mutationFn: (status: RightsRequestStatus) =>
+            rightsRequestApi.updateStatus(requestId, status, transitionNote),
+        onSuccess: (updated) => {
+            onUpdated(updated);
+            setTransitionNote('');
+        },
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const assignMutation = useMutation({
+        mutationFn: () => rightsRequestApi.assign(requestId, assignee.trim() || null),
+        onSuccess: onUpdated,
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const noteMutation = useMutation({
+        mutationFn: () => rightsRequestApi.addNote(requestId, note),
+        onSuccess: (updated) => {
+            onUpdated(updated);
+            setNote('');
+        },
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const nextStatuses = request ? NEXT_STATUSES[request.status] : [];
+    const detailEntries = request
+        ? Object.entries(request.details || {}).filter(([, value]) => value !== '' && value !== undefined)
+        : [];
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal request-detail-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3 className="modal-title">
+                        {request ? request.requestNumber : 'Request'}
+                    </h3>
+                    <button className="modal-close" onClick={onClose}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="modal-body">
+                    {isLoading || !request ? (
+                        <div className="loading-container">
+                            <div className="spinner"></div>
+                        </div>
+                    ) : (
+                        <>
+                            {error && <div className="alert alert-error mb-4">{error}</div>}
+
+                            {/* Summary */}
+                            <div className="request-summary">
+                                <div>
+                                    <span className="request-field-label">Type</span>
+                                    <span>{TYPE_LABELS[request.requestType]}</span>
+                                </div>
+                                <div>
+                                    <span className="request-field-label">Status</span>
+                                    <StatusBadge status={request.status} />
+                                </div>
+                                <div>
+                                    <span className="request-field-label">Website</span>
+                                    <span>{request.websiteDomain}</span>
+                                </div>
+                                <div>
+                                    <span className="request-field-label">Requester</span>
+                                    <span>
+                                        {request.requesterEmail}
+                                        {request.verifiedAt && (
+                                            <span className="badge badge-success request-verified-badge">
+                                                Verified
+                                            </span>
+                                        )}
+                                    </span>
+                                </div>
+                                <div>
+                                    <span className="request-field-label">Received</span>
+                                    <span>{new Date(request.createdAt).toLocaleString()}</span>
+                                </div>
+                                <div>
+                                    <span className="request-field-label">Due</span>
+                                    <DueDate request={request} />
+                                </div>
+                                {request.languageCode && (
+                                    <div>
+                                        <span className="request-field-label">Language</span>
+                                        <span>{request.languageCode.toUpperCase()}</span>
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="request-section">
+                                <span className="request-field-label">Description</span>
+                                <p className="request-text">{request.description}</p>
+                            </div>
+
+                            {detailEntries.length > 0 && (
+                                <div className="request-section">
+                                    {detailEntries.map(([key, value]) => (
+                                        <div key={key} className="request-detail-item">
+                                            <span className="request-field-label">
+                                                {DETAIL_LABELS[key] || key}
+                                            </span>
+                                            <p className="request-text">
+                                                {typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value)}
+                                            </p>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {/* Workflow */}
+                            {nextStatuses.length > 0 && (
+                                <div className="request-section">
+                                    <span className="request-field-label">Move To</span>
+                                    <textarea
+                                        className="form-input form-textarea"
+                                        placeholder="Optional note recorded with the status change"
+                                        value={transitionNote}
+                                        onChange={(e) => setTransitionNote(e.target.value)}
+                                        rows={2}
+                                    />
+                                    <div className="request-actions">
+                                        {nextStatuses.map((status) => (
+                                            <button
+                                                key={status}
+                                                className={`btn btn-sm ${status === 'REJECTED' ? 'btn-danger' : 'btn-primary'}`}
+                                                disabled={statusMutation.isPending}
+                                                onClick={() => statusMutation.mutate(status)}
+                                            >
+                                                <ArrowRight size={14} />
+                                                {STATUS_CONFIG[status].label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Assignment */}
+                            <div className="request-section">
+                                <span className="request-field-label">Assignee</span>
+                                <div className="request-inline-form">
+                                    <input
+                                        type="text"
+                                        className="form-input"
+                                        placeholder="Name or email of the person handling this"
+                                        value={assignee}
+                                        onChange={(e) => setAssignee(e.target.value)}
+                                    />
+                                    <button
+                                        className="btn btn-secondary btn-sm"
+                                        disabled={
+                                            assignMutation.isPending ||
+                                            assignee.trim() === (request.assignedTo || '')
+                                        }
+                                        onClick={() => assignMutation.mutate()}
+                                    >
+                                        <UserCheck size={14} />
+                                        Save
+                                    </button>
+                                </div>
+                            </div>
+
+                            {/* Internal notes */}
+                            <div className="request-section">
+                                <span className="request-field-label">Internal Note</span>
+                                <textarea
+                                    className="form-input form-textarea"
+                                    placeholder="Visible to your team only"
+                                    value={note}
+                                    onChange={(e) => setNote(e.target.value)}
+                                    rows={3}
+                                />
+                                <div className="request-actions">
+                                    <button
+                                        className="btn btn-secondary btn-sm"
+                                        disabled={noteMutation.isPending || !note.trim()}
+                                        onClick={() => noteMutation.mutate()}
+                                    >
+                                        <MessageSquare size={14} />
+                                        Add Note
+                                    </button>
+                                </div>
+                            </div>
+
+                            {/* History */}
+                            <div className="request-section">
+                                <span className="request-field-label">History</span>
+                                <ul className="request-timeline">
+                                    {[...request.events].reverse().map((event) => (
+                                        <li key={event.id} className="request-timeline-item">
+                                            <div className="request-timeline-header">
+                                                <span className="font-medium">{describeEvent(event)}</span>
+                                                <span className="timestamp-cell">
+                                                    {new Date(event.createdAt).toLocaleString()}
+                                                </span>
+                                            </div>
+                                            {event.actorEmail && (
+                                                <div className="text-sm text-gray-500">{event.actorEmail}</div>
+                                            )}
+                                            {event.note && <p className="request-text">{event.note}</p>}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function DueDate({ request }: { request: RightsRequest }) {
+    if (!request.dueAt) return <span className="text-gray-500">—</span>;
+
+    const isOpen = NEXT_STATUSES[request.status].length > 0;
+    const isOverdue = isOpen && new Date(request.dueAt).getTime() <= Date.now();
+
+    return (
+        <span>
+            {new Date(request.dueAt).toLocaleDateString()}
+            {isOverdue && <span className="badge badge-error request-due-badge">Overdue</span>}
+        </span>
+    );
+}
+
+function describeEvent(event: RightsRequestEvent): string {
+    switch (event.eventType) {
+        case 'SUBMITTED':
+            return 'Request submitted';
+        case 'VERIFICATION_SENT':
+            return 'Verification email sent';
+        case 'SLA_BREACHED':
+            return 'Response deadline missed — incident raised';
+        case 'VERIFIED':
+            return event.metadata?.method === 'LINK'
+                ? 'Email verified via link'
+                : 'Email verified via code';
+        case 'STATUS_CHANGED':
+            return `${formatStatus(event.fromStatus)} → ${formatStatus(event.toStatus)}`;
+        case 'ASSIGNED':
+            return event.metadata?.assignedTo
+                ? `Assigned to ${event.metadata.assignedTo}`
+                : 'Unassigned';
+        case 'NOTE':
+            return 'Note added';
+        default:
+            return event.eventType;
+    }
+}
+
+function formatStatus(status?: RightsRequestEvent['toStatus']): string {
+    if (status === 'PENDING_VERIFICATION') return 'Pending Verification';
+    return status ? STATUS_CONFIG[status]?.label || status : '—';
+}
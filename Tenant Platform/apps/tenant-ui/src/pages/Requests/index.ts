@@ -0,0 +1 @@
+export { RequestsPage } from './Requests';
@@ -0,0 +1,573 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+    Webhook,
+    Plus,
+    Pencil,
+    Trash2,
+    KeyRound,
+    Copy,
+    RotateCw,
+    X,
+    ChevronLeft,
+    ChevronRight,
+} from 'lucide-react';
+import { webhookApi, websiteApi, type WebhookDeliveryFilters } from '@/api';
+import { getErrorMessage } from '@/api/client';
+import type {
+    WebhookDelivery,
+    WebhookDeliveryStatus,
+    WebhookEndpoint,
+    WebhookEndpointInput,
+    WebhookEventType,
+} from '@/types';
+import './Webhooks.css';
+
+const EVENT_LABELS: Record<WebhookEventType, string> = {
+    'consent.given': 'Consent given',
+    'consent.updated': 'Consent updated',
+    'consent.withdrawn': 'Consent withdrawn',
+    'rights_request.created': 'Rights request created',
+    'rights_request.status_changed': 'Rights request status changed',
+    'website.published': 'Website published',
+};
+
+const STATUS_CONFIG: Record<WebhookDeliveryStatus, { color: string; label: string }> = {
+    PENDING: { color: 'warning', label: 'Pending' },
+    SUCCEEDED: { color: 'success', label: 'Succeeded' },
+    FAILED: { color: 'error', label: 'Failed' },
+};
+
+const EMPTY_FORM: WebhookEndpointInput = {
+    url: '',
+    description: '',
+    events: ['consent.withdrawn', 'rights_request.created'],
+    websiteId: null,
+    isActive: true,
+};
+
+export function WebhooksPage() {
+    const queryClient = useQueryClient();
+    const [editing, setEditing] = useState<WebhookEndpoint | 'new' | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [revealed, setRevealed] = useState<{ url: string; secret: string } | null>(null);
+
+    const { data: endpoints, isLoading } = useQuery({
+        queryKey: ['webhooks'],
+        queryFn: webhookApi.list,
+    });
+
+    const { data: websites } = useQuery({
+        queryKey: ['websites'],
+        queryFn: websiteApi.list,
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: (endpointId: string) => webhookApi.remove(endpointId),
+        onSuccess: (_, endpointId) => {
+            queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+            if (selectedId === endpointId) {
+                setSelectedId(null);
+            }
+        },
+    });
+
+    const rotateMutation = useMutation({
+        mutationFn: (endpointId: string) => webhookApi.rotateSecret(endpointId),
+        onSuccess: (endpoint) => {
+            queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+            setRevealed({ url: endpoint.url, secret: endpoint.secret });
+        },
+    });
+
+    const websiteDomain = (websiteId: string | null) =>
+        websiteId ? websites?.find((w) => w.id === websiteId)?.domain || 'Unknown website' : 'All websites';
+
+    const selected = endpoints?.find((endpoint) => endpoint.id === selectedId);
+
+    return (
+        <div className="webhooks-page">
+            <div className="container">
+                {/* Header */}
+                <div className="page-header">
+                    <div>
+                        <h1>Webhooks</h1>
+                        <p className="text-gray-500">
+                            Notify your CRM, marketing and data systems of consent and rights request events
+                        </p>
+                    </div>
+                    <button className="btn btn-primary" onClick={() => setEditing('new')}>
+                        <Plus size={18} />
+                        Add Webhook
+                    </button>
+                </div>
+
+                {revealed && (
+                    <div className="alert alert-success webhook-secret">
+                        <div>
+                            <strong>Signing secret for {revealed.url}</strong>
+                            <p>Copy it now; it is not shown again. Receivers use it to verify the X-ComplyArk-Signature header.</p>
+                            <code>{revealed.secret}</code>
+                        </div>
+                        <div className="webhook-secret-actions">
+                            <button
+                                className="btn btn-secondary btn-sm"
+                                onClick={() => navigator.clipboard.writeText(revealed.secret)}
+                            >
+                                <Copy size={14} />
+                                Copy
+                            </button>
+                            <button className="btn btn-ghost btn-sm" onClick={() => setRevealed(null)}>
+                                Done
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {/* Endpoints */}
+                <div className="card">
+                    <div className="table-container">
+                        {isLoading ? (
+                            <div className="loading-container">
+                                <div className="spinner"></div>
+                            </div>
+                        ) : endpoints && endpoints.length > 0 ? (
+                            <table className="table">
+                                <thead>
+                                    <tr>
+                                        <th>Endpoint</th>
+                                        <th>Events</th>
+                                        <th>Website</th>
+                                        <th>Status</th>
+                                        <th></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {endpoints.map((endpoint) => (
+                                        <tr
+                                            key={endpoint.id}
+                                            className={`webhook-row ${endpoint.id === selectedId ? 'selected' : ''}`}
+                                            onClick={() => setSelectedId(endpoint.id)}
+                                        >
+                                            <td>
+                                                <div className="webhook-url">{endpoint.url}</div>
+                                                {endpoint.description && (
+                                                    <div className="webhook-description">{endpoint.description}</div>
+                                                )}
+                                                <div className="webhook-description">Secret ending …{endpoint.secretHint}</div>
+                                            </td>
+                                            <td>
+                                                <div className="webhook-events">
+                                                    {endpoint.events.map((event) => (
+                                                        <code key={event} className="webhook-event">{event}</code>
+                                                    ))}
+                                                </div>
+                                            </td>
+                                            <td>{websiteDomain(endpoint.websiteId)}</td>
+                                            <td>
+                                                <span className={`badge badge-${endpoint.isActive ? 'success' : 'gray'}`}>
+                                                    {endpoint.isActive ? 'Active' : 'Paused'}
+                                                </span>
+                                            </td>
+                                            <td onClick={(e) => e.stopPropagation()}>
+                                                <div className="webhook-actions">
+                                                    <button className="btn btn-ghost btn-sm" title="Edit" onClick={() => setEditing(endpoint)}>
+                                                        <Pencil size={14} />
+                                                    </button>
+                                                    <button
+                                                        className="btn btn-ghost btn-sm"
+                                                        title="Rotate secret"
+                                                        disabled={rotateMutation.isPending}
+                                                        onClick={() => {
+                                                            if (confirm('Replace the signing secret? Receivers must switch to the new secret.')) {
+                                                                rotateMutation.mutate(endpoint.id);
+                                                            }
+                                                        }}
+                                                    >
+                                                        <KeyRound size={14} />
+                                                    </button>
+                                                    <button
+                                                        className="btn btn-ghost btn-sm"
+                                                        title="Delete"
+                                                        onClick={() => {
+                                                            if (confirm('Delete this webhook and its delivery log?')) {
+                                                                deleteMutation.mutate(endpoint.id);
+                                                            }
+                                                        }}
+                                                    >
+                                                        <Trash2 size={14} />
+                                                    </button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        ) : (
+                            <div className="empty-state">
+                                <Webhook size={48} className="empty-state-icon" />
+                                <h3 className="empty-state-title">No webhooks yet</h3>
+                                <p className="empty-state-description">
+                                    Add an endpoint to receive signed event notifications
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                {selected && <DeliveryLog endpoint={selected} />}
+            </div>
+
+            {editing && (
+                <EndpointModal
+                    endpoint={editing === 'new' ? null : editing}
+                    websites={websites || []}
+                    onClose={() => setEditing(null)}
+                    onSaved={(secret, url) => {
+                        queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+                        setEditing(null);
+                        if (secret) {
+                            setRevealed({ url, secret });
+                        }
+                    }}
+                />
+            )}
+        </div>
+    );
+}
+
+function EndpointModal({
+    endpoint,
+    websites,
+    onClose,
+    onSaved,
+}: {
+    endpoint: WebhookEndpoint | null;
+    websites: Array<{ id: string; domain: string }>;
+    onClose: () => void;
+    onSaved: (secret: string | null, url: string) => void;
+}) {
+    const [form, setForm] = useState<WebhookEndpointInput>(
+        endpoint
+            ? {
+                url: endpoint.url,
+                description: endpoint.description || '',
+                events: endpoint.events,
+                websiteId: endpoint.websiteId,
+                isActive: endpoint.isActive,
+            }
+            : EMPTY_FORM
+    );
+    const [error, setError] = useState('');
+
+    const saveMutation = useMutation({
+        mutationFn: async () => {
+            const data = { ...form, description: form.description || null };
+            if (endpoint) {
+                await webhookApi.update(endpoint.id, data);
+                return null;
+            }
+            return (await webhookApi.create(data)).secret;
+        },
+        onSuccess: (secret) => onSaved(secret, form.url),
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const toggleEvent = (event: WebhookEventType) =>
+        setForm((prev) => ({
+            ...prev,
+            events: prev.events.includes(event)
+                ? prev.events.filter((e) => e !== event)
+                : [...prev.events, event],
+        }));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        saveMutation.mutate();
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3 className="modal-title">{endpoint ? 'Edit Webhook' : 'Add Webhook'}</h3>
+                    <button className="modal-close" onClick={onClose}>
+                        <X size={20} />
+                    </button>
+                </div>
+                <form onSubmit={handleSubmit}>
+                    <div className="modal-body">
+                        {error && <div className="alert alert-error mb-4">{error}</div>}
+                        <div className="form-group">
+                            <label className="form-label" htmlFor="webhook-url">
+                                Endpoint URL
+                            </label>
+                            <input
+                                id="webhook-url"
+                                type="url"
+                                className="form-input"
+                                placeholder="https://crm.example.com/hooks/complyark"
+                                value={form.url}
+                                onChange={(e) => setForm((prev) => ({ ...prev, url: e.target.value }))}
+                                required
+                                autoFocus
+                            />
+                        </div>
+                        <div className="form-group">
+                            <label className="form-label" htmlFor="webhook-description">
+                                Description
+                            </label>
+                            <input
+                                id="webhook-description"
+                                type="text"
+                                className="form-input"
+                                value={form.description || ''}
+                                onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+                            />
+                        </div>
+                        <div className="form-group">
+                            <label className="form-label" htmlFor="webhook-website">
+                                Website
+                            </label>
+                            <select
+                                id="webhook-website"
+                                className="form-input form-select"
+                                value={form.websiteId || ''}
+                                onChange={(e) => setForm((prev) => ({ ...prev, websiteId: e.target.value || null }))}
+                            >
+                                <option value="">All websites</option>
+                                {websites.map((website) => (
+                                    <option key={website.id} value={website.id}>
+                                        {website.domain}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="form-group">
+                            <span className="form-label">Events</span>
+                            <div className="webhook-event-options">
+                                {(Object.keys(EVENT_LABELS) as WebhookEventType[]).map((event) => (
+                                    <label key={event} className="webhook-event-option">
+                                        <input
+                                            type="checkbox"
+                                            checked={form.events.includes(event)}
+                                            onChange={() => toggleEvent(event)}
+                                        />
+                                        {EVENT_LABELS[event]}
+                                        <code>{event}</code>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <label className="webhook-event-option">
+                            <input
+                                type="checkbox"
+                                checked={form.isActive ?? true}
+                                onChange={(e) => setForm((prev) => ({ ...prev, isActive: e.target.checked }))}
+                            />
+                            Active (paused webhooks keep queuing deliveries until re-enabled)
+                        </label>
+                    </div>
+                    <div className="modal-footer">
+                        <button type="button" className="btn btn-secondary" onClick={onClose}>
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            className="btn btn-primary"
+                            disabled={saveMutation.isPending || form.events.length === 0}
+                        >
+                            {saveMutation.isPending ? 'Saving...' : endpoint ? 'Save' : 'Add Webhook'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+}
+
+function DeliveryLog({ endpoint }: { endpoint: WebhookEndpoint }) {
+    const queryClient = useQueryClient();
+    const [filters, setFilters] = useState<WebhookDeliveryFilters>({ page: 1, limit: 20 });
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [error, setError] = useState('');
+
+    const { data: deliveries, isLoading } = useQuery({
+        queryKey: ['webhook-deliveries', endpoint.id, filters],
+        queryFn: () => webhookApi.listDeliveries(endpoint.id, filters),
+        refetchInterval: 15000,
+    });
+
+    const redeliverMutation = useMutation({
+        mutationFn: (deliveryId: string) => webhookApi.redeliver(endpoint.id, deliveryId),
+        onSuccess: () => {
+            setError('');
+            queryClient.invalidateQueries({ queryKey: ['webhook-deliveries', endpoint.id] });
+        },
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    return (
+        <div className="card webhook-deliveries">
+            <div className="webhook-deliveries-header">
+                <div>
+                    <h3>Delivery Log</h3>
+                    <p className="text-gray-500">{endpoint.url}</p>
+                </div>
+                <select
+                    className="form-input form-select"
+                    value={filters.status || ''}
+                    onChange={(e) =>
+                        setFilters((prev) => ({
+                            ...prev,
+                            status: (e.target.value || undefined) as WebhookDeliveryStatus | undefined,
+                            page: 1,
+                        }))
+                    }
+                >
+                    <option value="">All Statuses</option>
+                    {(Object.keys(STATUS_CONFIG) as WebhookDeliveryStatus[]).map((status) => (
+                        <option key={status} value={status}>
+                            {STATUS_CONFIG[status].label}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {error && <div className="alert alert-error mb-4">{error}</div>}
+
+            <div className="table-container">
+                {isLoading ? (
+                    <div className="loading-container">
+                        <div className="spinner"></div>
+                    </div>
+                ) : deliveries && deliveries.items.length > 0 ? (
+                    <table className="table">
+                        <thead>
+                            <tr>
+                                <th>Queued</th>
+                                <th>Event</th>
+                                <th>Status</th>
+                                <th>Attempts</th>
+                                <th>Last Response</th>
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {deliveries.items.map((delivery) => (
+                                <DeliveryRow
+                                    key={delivery.id}
+                                    delivery={delivery}
+                                    expanded={expandedId === delivery.id}
+                                    onToggle={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                                    onRedeliver={() => redeliverMutation.mutate(delivery.id)}
+                                    redelivering={redeliverMutation.isPending}
+                                />
+                            ))}
+                        </tbody>
+                    </table>
+                ) : (
+                    <div className="empty-state">
+                        <Webhook size={48} className="empty-state-icon" />
+                        <h3 className="empty-state-title">No deliveries</h3>
+                        <p className="empty-state-description">
+                            Deliveries appear here once a subscribed event happens
+                        </p>
+                    </div>
+                )}
+            </div>
+
+            {/* Pagination */}
+            {deliveries && deliveries.pagination.totalPages > 1 && (
+                <div className="pagination">
+                    <button
+                        className="btn btn-ghost btn-sm"
+                        disabled={filters.page === 1}
+                        onClick={() => setFilters((prev) => ({ ...prev, page: (prev.page || 1) - 1 }))}
+                    >
+                        <ChevronLeft size={16} />
+                        Previous
+                    </button>
+                    <span className="pagination-info">
+                        Page {deliveries.pagination.page} of {deliveries.pagination.totalPages}
+                    </span>
+                    <button
+                        className="btn btn-ghost btn-sm"
+                        disabled={filters.page === deliveries.pagination.totalPages}
+                        onClick={() => setFilters((prev) => ({ ...prev, page: (prev.page || 1) + 1 }))}
+                    >
+                        Next
+                        <ChevronRight size={16} />
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+function DeliveryRow({
+    delivery,
+    expanded,
+    onToggle,
+    onRedeliver,
+    redelivering,
+}: {
+    delivery: WebhookDelivery;
+    expanded: boolean;
+    onToggle: () => void;
+    onRedeliver: () => void;
+    redelivering: boolean;
+}) {
+    const status = STATUS_CONFIG[delivery.status];
+
+    return (
+        <>
+            <tr className="webhook-row" onClick={onToggle}>
+                <td className="timestamp-cell">{new Date(delivery.createdAt).toLocaleString()}</td>
+                <td>
+                    <code className="webhook-event">{delivery.eventType}</code>
+                    {delivery.redeliveryOf && <div className="webhook-description">Redelivery</div>}
+                </td>
+                <td>
+                    <span className={`badge badge-${status.color}`}>{status.label}</span>
+                    {delivery.status === 'PENDING' && delivery.nextAttemptAt && (
+                        <div className="webhook-description">
+                            Next try {new Date(delivery.nextAttemptAt).toLocaleTimeString()}
+                        </div>
+                    )}
+                </td>
+                <td>{delivery.attempts}</td>
+                <td>
+                    {delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : delivery.lastError || '—'}
+                </td>
+                <td onClick={(e) => e.stopPropagation()}>
+                    <button
+                        className="btn btn-ghost btn-sm"
+                        disabled={delivery.status === 'PENDING' || redelivering}
+                        onClick={onRedeliver}
+                    >
+                        <RotateCw size={14} />
+                        Redeliver
+                    </button>
+                </td>
+            </tr>
+            {expanded && (
+                <tr>
+                    <td colSpan={6}>
+                        <div className="webhook-delivery-detail">
+                            <div>
+                                <span className="form-label">Payload</span>
+                                <pre>{JSON.stringify(delivery.payload, null, 2)}</pre>
+                            </div>
+                            <div>
+                                <span className="form-label">Response</span>
+                                <pre>{delivery.responseBody || delivery.lastError || 'No response yet'}</pre>
+                            </div>
+                        </div>
+                    </td>
+                </tr>
+            )}
+        </>
+    );
+}
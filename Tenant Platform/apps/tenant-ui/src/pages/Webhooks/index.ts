@@ -0,0 +1 @@
+export { WebhooksPage } from './Webhooks';
@@ -13,18 +13,34 @@ import {
     Play,
     Loader2,
     Clock,
-    ExternalLink
+    ExternalLink,
+    Upload,
+    Network,
+    Radar,
+    ShieldOff,
+    Cookie,
+    BarChart3,
+    FlaskConical,
+    Globe
 } from 'lucide-react';
-import { websiteApi } from '@/api';
+import { websiteApi, publishApi } from '@/api';
 import { getErrorMessage } from '@/api/client';
 import { NoticeTab } from './tabs/NoticeTab';
 import { PurposesTab } from './tabs/PurposesTab';
 import { BannerTab } from './tabs/BannerTab';
 import { InstallTab } from './tabs/InstallTab';
 import { TranslationsTab } from './tabs/TranslationsTab';
+import { PublishTab } from './tabs/PublishTab';
+import { TcfTab } from './tabs/TcfTab';
+import { ScanTab } from './tabs/ScanTab';
+import { BlockingTab } from './tabs/BlockingTab';
+import { CookiesTab } from './tabs/CookiesTab';
+import { AnalyticsTab } from './tabs/AnalyticsTab';
+import { ExperimentsTab } from './tabs/ExperimentsTab';
+import { DomainsTab } from './tabs/DomainsTab';
 import './WebsiteDetail.css';
 
-type TabId = 'notice' | 'purposes' | 'banner' | 'translations' | 'install';
+type TabId = 'notice' | 'purposes' | 'banner' | 'translations' | 'tcf' | 'scan' | 'blocking' | 'cookies' | 'publish' | 'install' | 'analytics' | 'experiments' | 'domains';
 
 export function WebsiteDetailPage() {
     const { id } = useParams<{ id: string }>();
@@ -36,6 +52,7 @@ export function WebsiteDetailPage() {
 
     const handleSave = () => {
         setLastSaved(new Date());
+        queryClient.invalidateQueries({ queryKey: ['publishing', id] });
     };
 
     const { data: website, isLoading } = useQuery({
@@ -50,12 +67,19 @@ export function WebsiteDetailPage() {
         enabled: !!id,
     });
 
+    const { data: publishStatus } = useQuery({
+        queryKey: ['publishing', id],
+        queryFn: () => publishApi.getStatus(id!),
+        enabled: !!id,
+    });
+
     const activateMutation = useMutation({
         mutationFn: () => websiteApi.updateStatus(id!, 'ACTIVE'),
         onSuccess: () => {
             setActivateError('');
             queryClient.invalidateQueries({ queryKey: ['website', id] });
             queryClient.invalidateQueries({ queryKey: ['website', id, 'can-activate'] });
+            queryClient.invalidateQueries({ queryKey: ['publishing', id] });
         },
         onError: (err) => {
             setActivateError(getErrorMessage(err));
@@ -88,12 +112,27 @@ export function WebsiteDetailPage() {
         );
     }
 
+    const hasUnpublishedChanges = !!publishStatus?.hasUnpublishedChanges;
+    const publishLabel = !publishStatus?.live
+        ? 'Not published'
+        : hasUnpublishedChanges
+            ? 'Unpublished changes'
+            : `Published v${publishStatus.live.version}`;
+
     const tabs = [
         { id: 'banner', label: 'Banner', icon: Layout },
         { id: 'notice', label: 'Notice', icon: FileText },
         { id: 'purposes', label: 'Consent', icon: List },
         { id: 'translations', label: 'Translations', icon: Languages },
+        { id: 'tcf', label: 'IAB TCF', icon: Network },
+        { id: 'scan', label: 'Scan', icon: Radar },
+        { id: 'blocking', label: 'Blocking', icon: ShieldOff },
+        { id: 'cookies', label: 'Cookies', icon: Cookie },
+        { id: 'publish', label: 'Publish', icon: Upload },
         { id: 'install', label: 'Install', icon: Code },
+        { id: 'domains', label: 'Domains', icon: Globe },
+        { id: 'analytics', label: 'Analytics', icon: BarChart3 },
+        { id: 'experiments', label: 'Experiments', icon: FlaskConical },
     ];
 
     return (
@@ -135,18 +174,23 @@ export function WebsiteDetailPage() {
                         </div>
                     </div>
 
-                    {/* Right: Changes Live Indicator */}
+                    {/* Right: Draft/Published Indicator */}
                     <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-                        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', background: '#f0fdf4', padding: '4px 10px', borderRadius: '20px', border: '1px solid #bbf7d0' }}>
-                            <div style={{ width: '6px', height: '6px', borderRadius: '50%', background: '#22c55e' }}></div>
-                            <span style={{ fontSize: '11px', fontWeight: 600, color: '#166534' }}>Changes are live</span>
+                        <button
+                            onClick={() => setActiveTab('publish')}
+                            style={{ display: 'flex', alignItems: 'center', gap: '6px', background: hasUnpublishedChanges ? '#fffbeb' : '#f0fdf4', padding: '4px 10px', borderRadius: '20px', border: `1px solid ${hasUnpublishedChanges ? '#fde68a' : '#bbf7d0'}`, cursor: 'pointer' }}
+                        >
+                            <div style={{ width: '6px', height: '6px', borderRadius: '50%', background: hasUnpublishedChanges ? '#f59e0b' : '#22c55e' }}></div>
+                            <span style={{ fontSize: '11px', fontWeight: 600, color: hasUnpublishedChanges ? '#92400e' : '#166534' }}>
+                                {publishLabel}
+                            </span>
                             {lastSaved && (
-                                <span style={{ fontSize: '10px', color: '#4ade80', display: 'flex', alignItems: 'center', gap: '3px' }}>
+                                <span style={{ fontSize: '10px', color: hasUnpublishedChanges ? '#d97706' : '#4ade80', display: 'flex', alignItems: 'center', gap: '3px' }}>
                                     <Clock size={10} />
                                     {lastSaved.toLocaleTimeString()}
                                 </span>
                             )}
-                        </div>
+                        </button>
                         <a
                             href={`http://localhost:3001/runtime/websites/${website.id}`}
                             target="_blank"
@@ -291,7 +335,15 @@ export function WebsiteDetailPage() {
                     {activeTab === 'purposes' && <PurposesTab websiteId={website.id} onSave={handleSave} />}
                     {activeTab === 'banner' && <BannerTab websiteId={website.id} onSave={handleSave} />}
                     {activeTab === 'translations' && <TranslationsTab websiteId={website.id} onSave={handleSave} />}
+                    {activeTab === 'tcf' && <TcfTab websiteId={website.id} onSave={handleSave} />}
+                    {activeTab === 'scan' && <ScanTab websiteId={website.id} domain={website.domain} />}
+                    {activeTab === 'blocking' && <BlockingTab websiteId={website.id} onSave={handleSave} />}
+                    {activeTab === 'cookies' && <CookiesTab websiteId={website.id} onSave={handleSave} />}
+                    {activeTab === 'publish' && <PublishTab website={website} />}
                     {activeTab === 'install' && <InstallTab website={website} />}
+                    {activeTab === 'domains' && <DomainsTab website={website} />}
+                    {activeTab === 'analytics' && <AnalyticsTab websiteId={website.id} />}
+                    {activeTab === 'experiments' && <ExperimentsTab websiteId={website.id} onSave={handleSave} />}
                 </div>
             </div>
         </div>
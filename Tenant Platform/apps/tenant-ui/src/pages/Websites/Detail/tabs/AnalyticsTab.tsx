@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { AlertCircle } from 'lucide-react';
+import { analyticsApi } from '@/api';
+import { getErrorMessage } from '@/api/client';
+import type { ConsentAnalyticsSlice, LoaderEventType } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const PRESETS = [7, 30, 90];
+
+const DEVICE_LABELS: Record<string, string> = {
+    desktop: 'Desktop',
+    mobile: 'Mobile',
+    tablet: 'Tablet',
+    unknown: 'Unknown',
+    other: 'Other',
+};
+
+const INTERACTIONS: Array<{ event: LoaderEventType; label: string }> = [
+    { event: 'BANNER_SHOWN', label: 'Banner shown' },
+    { event: 'SETTINGS_OPENED', label: 'Settings opened' },
+    { event: 'LANGUAGE_SWITCHED', label: 'Language switched' },
+    { event: 'RIGHTS_FORM_OPENED', label: 'Rights form opened' },
+    { event: 'DECISION', label: 'Decided on the banner' },
+    { event: 'DISMISSED', label: 'Left without deciding' },
+];
+
+const COLORS = {
+    acceptAll: '#16a34a',
+    custom: '#f59e0b',
+    rejectAll: '#dc2626',
+    impressions: '#e5e7eb',
+};
+
+function formatRate(rate: number | null): string {
+    return rate === null ? '—' : `${Math.round(rate * 1000) / 10}%`;
+}
+
+export function AnalyticsTab({ websiteId }: { websiteId: string }) {
+    const [range, setRange] = useState(() => ({ from: toDay(Date.now() - 29 * DAY_MS), to: toDay(Date.now()) }));
+
+    const { data: summary, isLoading, error } = useQuery({
+        queryKey: ['analytics', websiteId, range.from, range.to],
+        queryFn: () => analyticsApi.get(websiteId, range),
+    });
+
+    const cardStyle = { background: '#fff', border: '1px solid #e5e7eb', borderRadius: '10px', padding: '16px', marginBottom: '20px' };
+    const sectionTitleStyle = { fontSize: '14px', fontWeight: 600, color: '#111827', margin: '0 0 12px' };
+    const inputStyle = { padding: '6px 8px', fontSize: '13px', border: '1px solid #d1d5db', borderRadius: '6px' };
+    const presetStyle = { padding: '6px 10px', fontSize: '12px', background: '#fff', color: '#374151', border: '1px solid #d1d5db', borderRadius: '6px', cursor: 'pointer' };
+    const cellStyle = { padding: '8px 6px', fontSize: '12px', color: '#374151', borderTop: '1px solid #f3f4f6' };
+
+    const renderSlices = (title: string, slices: ConsentAnalyticsSlice[], label: (key: string) => string) => (
+        <div style={{ ...cardStyle, flex: 1, minWidth: '280px' }}>
+            <h3 style={sectionTitleStyle}>{title}</h3>
+            {slices.length === 0 ? (
+                <p style={{ fontSize: '12px', color: '#9ca3af', margin: 0 }}>No data for this period.</p>
+            ) : (
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                    <thead>
+                        <tr>
+                            {['', 'Impressions', 'Decisions', 'Accept all'].map((heading) => (
+                                <th key={heading} style={{ textAlign: 'left', fontSize: '11px', fontWeight: 600, color: '#6b7280', padding: '4px 6px' }}>{heading}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {slices.map((slice) => (
+                            <tr key={slice.key}>
+                                <td style={{ ...cellStyle, fontWeight: 600, color: '#111827' }}>{label(slice.key)}</td>
+                                <td style={cellStyle}>{slice.impressions}</td>
+                                <td style={cellStyle}>{slice.decisions}</td>
+                                <td style={cellStyle}>{formatRate(slice.acceptAllRate)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+
+    const maxDaily = summary ? Math.max(1, ...summary.trend.map((day) => Math.max(day.impressions, day.decisions))) : 1;
+
+    return (
+        <div style={{ paddingBottom: '40px' }}>
+            {/* Header */}
+            <div style={{ marginBottom: '20px' }}>
+                <h2 style={{ fontSize: '18px', fontWeight: 700, color: '#111827', margin: 0 }}>Analytics</h2>
+                <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>
+                    Banner impressions and consent decisions per day (UTC). Decisions come from the consent ledger and refresh every
+                    15 minutes. Only totals are kept: languages and devices with fewer than 5 decisions are grouped under Other.
+                </p>
+            </div>
+
+            {/* Range */}
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap', marginBottom: '20px' }}>
+                <input type="date" value={range.from} max={range.to} onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })} style={inputStyle} />
+                <span style={{ fontSize: '12px', color: '#6b7280' }}>to</span>
+                <input type="date" value={range.to} min={range.from} onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })} style={inputStyle} />
+                {PRESETS.map((days) => (
+                    <button
+                        key={days}
+                        onClick={() => setRange({ from: toDay(Date.now() - (days - 1) * DAY_MS), to: toDay(Date.now()) })}
+                        style={presetStyle}
+                    >
+                        Last {days} days
+                    </button>
+                ))}
+            </div>
+
+            {error && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#fef2f2', border: '1px solid #fecaca', color: '#991b1b', fontSize: '13px', padding: '10px 12px', borderRadius: '8px', marginBottom: '16px' }}>
+                    <AlertCircle size={16} /> {getErrorMessage(error)}
+                </div>
+            )}
+
+            {isLoading && (
+                <div className="p-8 text-center flex justify-center"><div className="spinner w-8 h-8 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div></div>
+            )}
+
+            {summary && (
+                <>
+                    {/* Totals */}
+                    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))', gap: '12px', marginBottom: '20px' }}>
+                        {[
+                            { label: 'Impressions', value: String(summary.totals.impressions) },
+                            { label: 'Decisions', value: String(summary.totals.decisions), hint: `${formatRate(summary.totals.decisionRate)} of impressions` },
+                            { label: 'Accept all', value: formatRate(summary.totals.acceptAllRate), hint: `${summary.totals.acceptAll} decisions`, color: COLORS.acceptAll },
+                            { label: 'Custom', value: formatRate(summary.totals.customRate), hint: `${summary.totals.custom} decisions`, color: COLORS.custom },
+                            { label: 'Reject all', value: formatRate(summary.totals.rejectAllRate), hint: `${summary.totals.rejectAll} decisions`, color: COLORS.rejectAll },
+                            { label: 'Withdrawals', value: String(summary.totals.withdrawals) },
+                        ].map((stat) => (
+                            <div key={stat.label} style={{ ...cardStyle, marginBottom: 0 }}>
+                                <div style={{ fontSize: '12px', color: '#6b7280' }}>{stat.label}</div>
+                                <div style={{ fontSize: '22px', fontWeight: 700, color: stat.color || '#111827' }}>{stat.value}</div>
+                                {stat.hint && <div style={{ fontSize: '11px', color: '#9ca3af' }}>{stat.hint}</div>}
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Trend */}
+                    <div style={cardStyle}>
+                        <h3 style={sectionTitleStyle}>Daily trend</h3>
+                        <div style={{ display: 'flex', alignItems: 'flex-end', gap: '2px', height: '160px' }}>
+                            {summary.trend.map((day) => (
+                                <div
+                                    key={day.day}
+                                    title={`${day.day}: ${day.impressions} impressions, ${day.acceptAll} accept all, ${day.custom} custom, ${day.rejectAll} reject all`}
+                                    style={{ flex: 1, height: '100%', display: 'flex', alignItems: 'flex-end', position: 'relative' }}
+                                >
+                                    <div style={{ position: 'absolute', bottom: 0, left: 0, right: 0, height: `${(day.impressions / maxDaily) * 100}%`, background: COLORS.impressions, borderRadius: '2px 2px 0 0' }} />
+                                    <div style={{ position: 'relative', width: '100%', display: 'flex', flexDirection: 'column-reverse', height: `${(day.decisions / maxDaily) * 100}%` }}>
+                                        {(['acceptAll', 'custom', 'rejectAll'] as const).map((key) => day[key] > 0 && (
+                                            <div key={key} style={{ height: `${(day[key] / day.decisions) * 100}%`, background: COLORS[key] }} />
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#9ca3af', marginTop: '6px' }}>
+                            <span>{summary.from}</span>
+                            <span>{summary.to}</span>
+                        </div>
+                        <div style={{ display: 'flex', gap: '14px', fontSize: '11px', color: '#6b7280', marginTop: '8px' }}>
+                            {[
+                                { label: 'Impressions', color: COLORS.impressions },
+                                { label: 'Accept all', color: COLORS.acceptAll },
+                                { label: 'Custom', color: COLORS.custom },
+                                { label: 'Reject all', color: COLORS.rejectAll },
+                            ].map((legend) => (
+                                <span key={legend.label} style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                                    <span style={{ width: '10px', height: '10px', borderRadius: '2px', background: legend.color }} /> {legend.label}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Purposes */}
+                    <div style={cardStyle}>
+                        <h3 style={sectionTitleStyle}>Opt-in by purpose</h3>
+                        {summary.purposes.length === 0 ? (
+                            <p style={{ fontSize: '12px', color: '#9ca3af', margin: 0 }}>No decisions in this period.</p>
+                        ) : summary.purposes.map((purpose) => (
+                            <div key={purpose.purpose} style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '8px' }}>
+                                <code style={{ fontSize: '12px', color: '#111827', width: '140px', overflow: 'hidden', textOverflow: 'ellipsis' }}>{purpose.purpose}</code>
+                                <div style={{ flex: 1, height: '10px', background: '#f3f4f6', borderRadius: '5px', overflow: 'hidden' }}>
+                                    <div style={{ width: `${(purpose.optInRate || 0) * 100}%`, height: '100%', background: '#4f46e5' }} />
+                                </div>
+                                <span style={{ fontSize: '12px', color: '#374151', width: '60px', textAlign: 'right' }}>{formatRate(purpose.optInRate)}</span>
+                                <span style={{ fontSize: '11px', color: '#9ca3af', width: '110px' }}>{purpose.granted} of {purpose.granted + purpose.denied}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Interactions */}
+                    <div style={cardStyle}>
+                        <h3 style={sectionTitleStyle}>Banner interactions</h3>
+                        <p style={{ fontSize: '12px', color: '#6b7280', margin: '0 0 12px' }}>
+                            Estimated from anonymous loader telemetry, as a share of banners shown. Only recent days are kept.
+                        </p>
+                        {INTERACTIONS.map(({ event, label }) => {
+                            const count = summary.interactions[event];
+                            const share = summary.interactions.BANNER_SHOWN > 0 ? count / summary.interactions.BANNER_SHOWN : null;
+                            return (
+                                <div key={event} style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '8px' }}>
+                                    <span style={{ fontSize: '12px', color: '#111827', width: '140px' }}>{label}</span>
+                                    <div style={{ flex: 1, height: '10px', background: '#f3f4f6', borderRadius: '5px', overflow: 'hidden' }}>
+                                        <div style={{ width: `${Math.min(1, share || 0) * 100}%`, height: '100%', background: '#0ea5e9' }} />
+                                    </div>
+                                    <span style={{ fontSize: '12px', color: '#374151', width: '60px', textAlign: 'right' }}>{count}</span>
+                                    <span style={{ fontSize: '11px', color: '#9ca3af', width: '110px' }}>{formatRate(share)}</span>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {/* Breakdowns */}
+                    <div style={{ display: 'flex', gap: '20px', flexWrap: 'wrap' }}>
+                        {renderSlices('Languages', summary.languages, (key) => key === 'other' ? 'Other' : key.toUpperCase())}
+                        {renderSlices('Devices', summary.devices, (key) => DEVICE_LABELS[key] || key)}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
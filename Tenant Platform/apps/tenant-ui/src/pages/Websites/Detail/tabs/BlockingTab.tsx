@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertCircle, CheckCircle, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { blockingRuleApi, purposeApi } from '@/api';
+import { getErrorMessage } from '@/api/client';
+import type { BlockingRule, BlockingRuleInput, BlockingRuleMatchType, Purpose } from '@/types';
+
+const PLACEHOLDERS: Record<BlockingRuleMatchType, string> = {
+    DOMAIN: 'ads.example.com',
+    URL: 'cdn.example.com/widgets/chat*.js',
+};
+
+export function BlockingTab({ websiteId, onSave }: { websiteId: string; onSave?: () => void }) {
+    const queryClient = useQueryClient();
+    const [draft, setDraft] = useState<BlockingRuleInput>({ purposeTag: '', matchType: 'DOMAIN', pattern: '' });
+    const [editing, setEditing] = useState<{ id: string; value: BlockingRuleInput } | null>(null);
+    const [message, setMessage] = useState('');
+    const [error, setError] = useState('');
+
+    const { data: rules = [], isLoading } = useQuery({
+        queryKey: ['blocking-rules', websiteId],
+        queryFn: () => blockingRuleApi.list(websiteId),
+    });
+
+    const { data: purposes = [] } = useQuery({
+        queryKey: ['purposes', websiteId],
+        queryFn: () => purposeApi.list(websiteId),
+    });
+
+    const activePurposes = purposes.filter((purpose) => purpose.status === 'ACTIVE');
+
+    const showMessage = (text: string) => {
+        setError('');
+        setMessage(text);
+        setTimeout(() => setMessage(''), 3000);
+    };
+
+    const onChanged = (text: string) => {
+        queryClient.invalidateQueries({ queryKey: ['blocking-rules', websiteId] });
+        showMessage(text);
+        onSave?.();
+    };
+
+    const createMutation = useMutation({
+        mutationFn: (value: BlockingRuleInput) => blockingRuleApi.create(websiteId, value),
+        onSuccess: () => {
+            setDraft({ ...draft, pattern: '' });
+            onChanged('Rule added. Publish to apply it on your site.');
+        },
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const updateMutation = useMutation({
+        mutationFn: ({ id, value }: { id: string; value: BlockingRuleInput }) => blockingRuleApi.update(websiteId, id, value),
+        onSuccess: () => {
+            setEditing(null);
+            onChanged('Rule updated. Publish to apply it on your site.');
+        },
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const removeMutation = useMutation({
+        mutationFn: (ruleId: string) => blockingRuleApi.remove(websiteId, ruleId),
+        onSuccess: () => onChanged('Rule removed. Publish to apply it on your site.'),
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    if (isLoading) {
+        return <div className="p-8 text-center flex justify-center"><div className="spinner w-8 h-8 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div></div>;
+    }
+
+    const getPurposeName = (purpose: Purpose) =>
+        purpose.translations?.find((t) => t.languageCode === 'en')?.name || purpose.tag;
+
+    // Rules grouped under the purpose they wait for, in purpose order
+    const groups = purposes
+        .map((purpose) => ({ purpose, rules: rules.filter((rule) => rule.purposeTag === purpose.tag) }))
+        .filter((group) => group.rules.length > 0);
+
+    const cardStyle = { background: '#fff', border: '1px solid #e5e7eb', borderRadius: '10px', padding: '16px', marginBottom: '20px' };
+    const sectionTitleStyle = { fontSize: '14px', fontWeight: 600, color: '#111827', margin: '0 0 8px' };
+    const inputStyle = { padding: '6px 8px', fontSize: '13px', border: '1px solid #d1d5db', borderRadius: '6px' };
+    const iconButtonStyle = { display: 'flex', alignItems: 'center', gap: '4px', padding: '4px 8px', fontSize: '12px', background: '#fff', color: '#374151', border: '1px solid #d1d5db', borderRadius: '6px', cursor: 'pointer' };
+
+    const renderFields = (value: BlockingRuleInput, onChange: (value: BlockingRuleInput) => void) => (
+        <>
+            <select value={value.purposeTag} onChange={(e) => onChange({ ...value, purposeTag: e.target.value })} style={inputStyle}>
+                <option value="">Purpose...</option>
+                {activePurposes.map((purpose) => (
+                    <option key={purpose.id} value={purpose.tag}>{getPurposeName(purpose)}</option>
+                ))}
+            </select>
+            <select value={value.matchType} onChange={(e) => onChange({ ...value, matchType: e.target.value as BlockingRuleMatchType })} style={inputStyle}>
+                <option value="DOMAIN">Domain</option>
+                <option value="URL">URL pattern</option>
+            </select>
+            <input
+                type="text"
+                value={value.pattern}
+                onChange={(e) => onChange({ ...value, pattern: e.target.value })}
+                placeholder={PLACEHOLDERS[value.matchType]}
+                style={{ ...inputStyle, flex: 1, minWidth: '220px', fontFamily: 'monospace' }}
+            />
+        </>
+    );
+
+    const renderRule = (rule: BlockingRule) => {
+        if (editing?.id === rule.id) {
+            return (
+                <div key={rule.id} style={{ display: 'flex', gap: '8px', alignItems: 'center', padding: '8px 0', borderTop: '1px solid #f3f4f6' }}>
+                    {renderFields(editing.value, (value) => setEditing({ id: rule.id, value }))}
+                    <button
+                        onClick={() => updateMutation.mutate(editing)}
+                        disabled={updateMutation.isPending || !editing.value.purposeTag || !editing.value.pattern.trim()}
+                        style={{ ...iconButtonStyle, background: '#4f46e5', color: '#fff', border: 'none' }}
+                    >
+                        {updateMutation.isPending ? <Loader2 size={12} className="animate-spin" /> : <CheckCircle size={12} />} Save
+                    </button>
+                    <button onClick={() => setEditing(null)} style={iconButtonStyle} title="Cancel">
+                        <X size={12} />
+                    </button>
+                </div>
+            );
+        }
+
+        return (
+            <div key={rule.id} style={{ display: 'flex', gap: '8px', alignItems: 'center', padding: '8px 0', borderTop: '1px solid #f3f4f6' }}>
+                <span style={{ fontSize: '11px', fontWeight: 600, color: '#6b7280', width: '56px' }}>{rule.matchType === 'DOMAIN' ? 'Domain' : 'URL'}</span>
+                <code style={{ fontSize: '12px', color: '#111827', flex: 1, wordBreak: 'break-all' }}>{rule.pattern}</code>
+                <button
+                    onClick={() => setEditing({ id: rule.id, value: { purposeTag: rule.purposeTag, matchType: rule.matchType, pattern: rule.pattern } })}
+                    style={iconButtonStyle}
+                    title="Edit rule"
+                >
+                    <Pencil size={12} /> Edit
+                </button>
+                <button
+                    onClick={() => removeMutation.mutate(rule.id)}
+                    disabled={removeMutation.isPending}
+                    style={{ ...iconButtonStyle, color: '#b91c1c' }}
+                    title="Remove rule"
+                >
+                    <Trash2 size={12} />
+                </button>
+            </div>
+        );
+    };
+
+    return (
+        <div style={{ paddingBottom: '40px' }}>
+            {/* Header */}
+            <div style={{ marginBottom: '20px' }}>
+                <h2 style={{ fontSize: '18px', fontWeight: 700, color: '#111827', margin: 0 }}>Auto-blocking</h2>
+                <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>
+                    Scripts, iframes and images loading from these domains or URLs are held until the visitor consents to the
+                    purpose, however they reach the page. Tagging them with <code>data-purpose</code> by hand becomes optional.
+                    Adopted known trackers from the Scan tab are blocked as well. Changes go live when you publish.
+                </p>
+            </div>
+
+            {error && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#fef2f2', border: '1px solid #fecaca', color: '#991b1b', fontSize: '13px', padding: '10px 12px', borderRadius: '8px', marginBottom: '16px' }}>
+                    <AlertCircle size={16} /> {error}
+                </div>
+            )}
+            {message && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#f0fdf4', border: '1px solid #bbf7d0', color: '#166534', fontSize: '13px', padding: '10px 12px', borderRadius: '8px', marginBottom: '16px' }}>
+                    <CheckCircle size={16} /> {message}
+                </div>
+            )}
+
+            {/* New rule */}
+            <div style={cardStyle}>
+                <h3 style={sectionTitleStyle}>Add a rule</h3>
+                <p style={{ fontSize: '12px', color: '#6b7280', margin: '0 0 12px' }}>
+                    A domain also covers its subdomains. URL patterns leave out <code>https://</code> and use <code>*</code> as a wildcard;
+                    they are checked before domains.
+                </p>
+                {activePurposes.length === 0 ? (
+                    <p style={{ fontSize: '12px', color: '#9ca3af', margin: 0 }}>Add purposes on the Consent tab first.</p>
+                ) : (
+                    <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+                        {renderFields(draft, setDraft)}
+                        <button
+                            onClick={() => createMutation.mutate(draft)}
+                            disabled={createMutation.isPending || !draft.purposeTag || !draft.pattern.trim()}
+                            style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '7px 14px', fontSize: '13px', fontWeight: 600, background: '#4f46e5', color: '#fff', border: 'none', borderRadius: '6px', cursor: 'pointer' }}
+                        >
+                            {createMutation.isPending ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+                            Add rule
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {/* Rules by purpose */}
+            {groups.length === 0 ? (
+                <div style={{ ...cardStyle, fontSize: '13px', color: '#6b7280', textAlign: 'center' }}>
+                    No blocking rules yet.
+                </div>
+            ) : groups.map(({ purpose, rules: purposeRules }) => (
+                <div key={purpose.id} style={cardStyle}>
+                    <h3 style={sectionTitleStyle}>
+                        {getPurposeName(purpose)}
+                        <span style={{ marginLeft: '6px', fontWeight: 400, color: '#6b7280' }}>({purposeRules.length})</span>
+                        {purpose.isEssential && <span style={{ marginLeft: '6px', fontSize: '11px', fontWeight: 400, color: '#6b7280' }}>essential, loads once the banner config arrives</span>}
+                    </h3>
+                    {purposeRules.map(renderRule)}
+                </div>
+            ))}
+        </div>
+    );
+}
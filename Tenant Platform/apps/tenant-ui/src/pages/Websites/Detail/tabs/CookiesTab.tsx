@@ -0,0 +1,274 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertCircle, CheckCircle, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { cookieApi, purposeApi } from '@/api';
+import { getErrorMessage } from '@/api/client';
+import type { CookieDeclaration, CookieDeclarationInput, CookieStorageType, Purpose } from '@/types';
+
+const EMPTY_FORM: CookieDeclarationInput = {
+    purposeTag: '',
+    storageType: 'COOKIE',
+    name: '',
+    provider: '',
+    duration: '',
+    description: '',
+};
+
+const STORAGE_LABELS: Record<CookieStorageType, string> = {
+    COOKIE: 'Cookie',
+    LOCAL_STORAGE: 'localStorage',
+};
+
+export function CookiesTab({ websiteId, onSave }: { websiteId: string; onSave?: () => void }) {
+    const queryClient = useQueryClient();
+    const [form, setForm] = useState<CookieDeclarationInput>(EMPTY_FORM);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [message, setMessage] = useState('');
+    const [error, setError] = useState('');
+
+    const { data: cookies = [], isLoading } = useQuery({
+        queryKey: ['cookies', websiteId],
+        queryFn: () => cookieApi.list(websiteId),
+    });
+
+    const { data: governance } = useQuery({
+        queryKey: ['cookies', websiteId, 'governance'],
+        queryFn: () => cookieApi.getGovernance(websiteId),
+    });
+
+    const { data: purposes = [] } = useQuery({
+        queryKey: ['purposes', websiteId],
+        queryFn: () => purposeApi.list(websiteId),
+    });
+
+    const activePurposes = purposes.filter((purpose) => purpose.status === 'ACTIVE');
+
+    const showMessage = (text: string) => {
+        setError('');
+        setMessage(text);
+        setTimeout(() => setMessage(''), 3000);
+    };
+
+    const onChanged = (text: string) => {
+        queryClient.invalidateQueries({ queryKey: ['cookies', websiteId] });
+        showMessage(text);
+        onSave?.();
+    };
+
+    const resetForm = () => {
+        setEditingId(null);
+        setForm({ ...EMPTY_FORM, purposeTag: form.purposeTag, storageType: form.storageType });
+    };
+
+    const saveMutation = useMutation({
+        mutationFn: (value: CookieDeclarationInput) => editingId
+            ? cookieApi.update(websiteId, editingId, value)
+            : cookieApi.create(websiteId, value),
+        onSuccess: () => {
+            onChanged(editingId ? 'Declaration updated. Publish to apply it.' : 'Cookie declared. Publish to apply it.');
+            resetForm();
+        },
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const removeMutation = useMutation({
+        mutationFn: (cookieId: string) => cookieApi.remove(websiteId, cookieId),
+        onSuccess: () => onChanged('Declaration removed. Publish to apply it.'),
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const governanceMutation = useMutation({
+        mutationFn: (enabled: boolean) => cookieApi.updateGovernance(websiteId, enabled),
+        onSuccess: () => onChanged('Saved to draft. Publish to make the change live.'),
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    if (isLoading) {
+        return <div className="p-8 text-center flex justify-center"><div className="spinner w-8 h-8 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div></div>;
+    }
+
+    const getPurposeName = (purpose: Purpose) =>
+        purpose.translations?.find((t) => t.languageCode === 'en')?.name || purpose.tag;
+
+    const startEdit = (cookie: CookieDeclaration) => {
+        setEditingId(cookie.id);
+        setError('');
+        setForm({
+            purposeTag: cookie.purposeTag,
+            storageType: cookie.storageType,
+            name: cookie.name,
+            provider: cookie.provider || '',
+            duration: cookie.duration || '',
+            description: cookie.description || '',
+        });
+    };
+
+    // Declarations grouped under their purpose, in purpose order
+    const groups = purposes
+        .map((purpose) => ({ purpose, cookies: cookies.filter((cookie) => cookie.purposeTag === purpose.tag) }))
+        .filter((group) => group.cookies.length > 0);
+
+    const cardStyle = { background: '#fff', border: '1px solid #e5e7eb', borderRadius: '10px', padding: '16px', marginBottom: '20px' };
+    const sectionTitleStyle = { fontSize: '14px', fontWeight: 600, color: '#111827', margin: '0 0 8px' };
+    const labelStyle = { fontSize: '12px', color: '#374151', display: 'flex', alignItems: 'center', gap: '6px' };
+    const inputStyle = { padding: '6px 8px', fontSize: '13px', border: '1px solid #d1d5db', borderRadius: '6px' };
+    const cellStyle = { padding: '8px 6px', fontSize: '12px', color: '#374151', borderTop: '1px solid #f3f4f6', verticalAlign: 'top' as const };
+    const iconButtonStyle = { display: 'inline-flex', alignItems: 'center', gap: '4px', padding: '4px 8px', fontSize: '12px', background: '#fff', color: '#374151', border: '1px solid #d1d5db', borderRadius: '6px', cursor: 'pointer' };
+
+    return (
+        <div style={{ paddingBottom: '40px' }}>
+            {/* Header */}
+            <div style={{ marginBottom: '20px' }}>
+                <h2 style={{ fontSize: '18px', fontWeight: 700, color: '#111827', margin: 0 }}>Cookies</h2>
+                <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>
+                    Declare the cookies and localStorage keys your site sets and the purpose each serves. The declarations feed
+                    your public cookie policy. Changes go live when you publish.
+                </p>
+            </div>
+
+            {error && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#fef2f2', border: '1px solid #fecaca', color: '#991b1b', fontSize: '13px', padding: '10px 12px', borderRadius: '8px', marginBottom: '16px' }}>
+                    <AlertCircle size={16} /> {error}
+                </div>
+            )}
+            {message && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#f0fdf4', border: '1px solid #bbf7d0', color: '#166534', fontSize: '13px', padding: '10px 12px', borderRadius: '8px', marginBottom: '16px' }}>
+                    <CheckCircle size={16} /> {message}
+                </div>
+            )}
+
+            {/* Governance */}
+            <div style={cardStyle}>
+                <label style={{ ...labelStyle, fontSize: '13px', fontWeight: 600, color: '#111827' }}>
+                    <input
+                        type="checkbox"
+                        checked={governance?.enabled ?? false}
+                        disabled={!governance || governanceMutation.isPending}
+                        onChange={(e) => governanceMutation.mutate(e.target.checked)}
+                    />
+                    Enforce declarations (cookie governance)
+                </label>
+                <p style={{ fontSize: '12px', color: '#6b7280', margin: '6px 0 0 22px' }}>
+                    The banner drops writes to declared cookies and localStorage keys until their purpose is consented, and deletes
+                    them when a visitor rejects or withdraws consent, including ones left by earlier visits. Storage of essential
+                    purposes is never touched. HttpOnly cookies set by your server are out of reach and must be handled there.
+                </p>
+            </div>
+
+            {/* Add or edit */}
+            <div style={cardStyle}>
+                <h3 style={sectionTitleStyle}>{editingId ? `Edit ${form.name}` : 'Declare a cookie or key'}</h3>
+                {activePurposes.length === 0 ? (
+                    <p style={{ fontSize: '12px', color: '#9ca3af', margin: 0 }}>Add purposes on the Consent tab first.</p>
+                ) : (
+                    <>
+                        <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginBottom: '8px' }}>
+                            <select value={form.purposeTag} onChange={(e) => setForm({ ...form, purposeTag: e.target.value })} style={inputStyle}>
+                                <option value="">Purpose...</option>
+                                {activePurposes.map((purpose) => (
+                                    <option key={purpose.id} value={purpose.tag}>{getPurposeName(purpose)}</option>
+                                ))}
+                            </select>
+                            <select value={form.storageType} onChange={(e) => setForm({ ...form, storageType: e.target.value as CookieStorageType })} style={inputStyle}>
+                                <option value="COOKIE">Cookie</option>
+                                <option value="LOCAL_STORAGE">localStorage</option>
+                            </select>
+                            <input
+                                type="text"
+                                value={form.name}
+                                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                                placeholder="Name, * is a wildcard (_ga_*)"
+                                style={{ ...inputStyle, flex: 1, minWidth: '200px', fontFamily: 'monospace' }}
+                            />
+                        </div>
+                        <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginBottom: '8px' }}>
+                            <input
+                                type="text"
+                                value={form.provider || ''}
+                                onChange={(e) => setForm({ ...form, provider: e.target.value })}
+                                placeholder="Provider (Google)"
+                                style={{ ...inputStyle, width: '180px' }}
+                            />
+                            <input
+                                type="text"
+                                value={form.duration || ''}
+                                onChange={(e) => setForm({ ...form, duration: e.target.value })}
+                                placeholder="Duration (2 years, Session)"
+                                style={{ ...inputStyle, width: '180px' }}
+                            />
+                            <input
+                                type="text"
+                                value={form.description || ''}
+                                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                                placeholder="What it is used for"
+                                style={{ ...inputStyle, flex: 1, minWidth: '200px' }}
+                            />
+                        </div>
+                        <div style={{ display: 'flex', gap: '8px' }}>
+                            <button
+                                onClick={() => saveMutation.mutate(form)}
+                                disabled={saveMutation.isPending || !form.purposeTag || !form.name.trim()}
+                                style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '7px 14px', fontSize: '13px', fontWeight: 600, background: '#4f46e5', color: '#fff', border: 'none', borderRadius: '6px', cursor: 'pointer' }}
+                            >
+                                {saveMutation.isPending ? <Loader2 size={14} className="animate-spin" /> : editingId ? <CheckCircle size={14} /> : <Plus size={14} />}
+                                {editingId ? 'Save' : 'Declare'}
+                            </button>
+                            {editingId && (
+                                <button onClick={resetForm} style={{ ...iconButtonStyle, padding: '7px 14px', fontSize: '13px' }}>
+                                    Cancel
+                                </button>
+                            )}
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {/* Declarations by purpose */}
+            {groups.length === 0 ? (
+                <div style={{ ...cardStyle, fontSize: '13px', color: '#6b7280', textAlign: 'center' }}>
+                    No cookies declared yet.
+                </div>
+            ) : groups.map(({ purpose, cookies: purposeCookies }) => (
+                <div key={purpose.id} style={cardStyle}>
+                    <h3 style={sectionTitleStyle}>
+                        {getPurposeName(purpose)}
+                        <span style={{ marginLeft: '6px', fontWeight: 400, color: '#6b7280' }}>({purposeCookies.length})</span>
+                    </h3>
+                    <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                        <thead>
+                            <tr>
+                                {['Name', 'Type', 'Provider', 'Duration', 'Description', ''].map((heading) => (
+                                    <th key={heading} style={{ textAlign: 'left', fontSize: '11px', fontWeight: 600, color: '#6b7280', padding: '4px 6px' }}>{heading}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {purposeCookies.map((cookie) => (
+                                <tr key={cookie.id}>
+                                    <td style={{ ...cellStyle, fontFamily: 'monospace', color: '#111827' }}>{cookie.name}</td>
+                                    <td style={cellStyle}>{STORAGE_LABELS[cookie.storageType]}</td>
+                                    <td style={cellStyle}>{cookie.provider || '—'}</td>
+                                    <td style={cellStyle}>{cookie.duration || '—'}</td>
+                                    <td style={cellStyle}>{cookie.description || '—'}</td>
+                                    <td style={{ ...cellStyle, whiteSpace: 'nowrap', textAlign: 'right' }}>
+                                        <button onClick={() => startEdit(cookie)} style={{ ...iconButtonStyle, marginRight: '6px' }} title="Edit declaration">
+                                            <Pencil size={12} /> Edit
+                                        </button>
+                                        <button
+                                            onClick={() => removeMutation.mutate(cookie.id)}
+                                            disabled={removeMutation.isPending}
+                                            style={{ ...iconButtonStyle, color: '#b91c1c' }}
+                                            title="Remove declaration"
+                                        >
+                                            <Trash2 size={12} />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            ))}
+        </div>
+    );
+}
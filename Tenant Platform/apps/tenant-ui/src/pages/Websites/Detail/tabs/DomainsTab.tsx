@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertCircle, ShieldAlert } from 'lucide-react';
+import { websiteApi } from '@/api';
+import { getErrorMessage } from '@/api/client';
+import type { Website } from '@/types';
+
+const PRESETS = [7, 30, 90];
+
+// One domain per line, commas also accepted
+const parseList = (value: string) => value.split(/[\s,]+/).map((entry) => entry.trim()).filter(Boolean);
+
+export function DomainsTab({ website }: { website: Website }) {
+    const queryClient = useQueryClient();
+    const [allowedDomains, setAllowedDomains] = useState('');
+    const [testDomains, setTestDomains] = useState('');
+    const [days, setDays] = useState(30);
+    const [error, setError] = useState('');
+    const [saved, setSaved] = useState(false);
+
+    const { data: origins } = useQuery({
+        queryKey: ['origins', website.id],
+        queryFn: () => websiteApi.getOrigins(website.id),
+    });
+
+    const { data: events, isLoading: eventsLoading } = useQuery({
+        queryKey: ['security-events', website.id, days],
+        queryFn: () => websiteApi.getSecurityEvents(website.id, days),
+    });
+
+    useEffect(() => {
+        if (origins) {
+            setAllowedDomains(origins.settings.allowedDomains.join('\n'));
+            setTestDomains(origins.settings.testDomains.join('\n'));
+        }
+    }, [origins]);
+
+    const saveMutation = useMutation({
+        mutationFn: () => websiteApi.updateOrigins(website.id, {
+            allowedDomains: parseList(allowedDomains),
+            testDomains: parseList(testDomains),
+        }),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['origins', website.id] });
+            setError('');
+            setSaved(true);
+            setTimeout(() => setSaved(false), 3000);
+        },
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const cardStyle = { background: '#fff', border: '1px solid #e5e7eb', borderRadius: '10px', padding: '16px', marginBottom: '20px' };
+    const sectionTitleStyle = { fontSize: '14px', fontWeight: 600, color: '#111827', margin: '0 0 4px' };
+    const hintStyle = { fontSize: '12px', color: '#6b7280', margin: '0 0 10px' };
+    const textareaStyle = { width: '100%', minHeight: '96px', padding: '8px', fontSize: '13px', fontFamily: 'monospace', border: '1px solid #d1d5db', borderRadius: '6px', boxSizing: 'border-box' as const };
+    const presetStyle = (active: boolean) => ({ padding: '6px 10px', fontSize: '12px', background: active ? '#eef2ff' : '#fff', color: active ? '#4338ca' : '#374151', border: `1px solid ${active ? '#c7d2fe' : '#d1d5db'}`, borderRadius: '6px', cursor: 'pointer' });
+    const cellStyle = { padding: '8px 6px', fontSize: '12px', color: '#374151', borderTop: '1px solid #f3f4f6' };
+
+    return (
+        <div style={{ maxWidth: '800px', paddingBottom: '40px' }}>
+            {/* Header */}
+            <div style={{ marginBottom: '20px' }}>
+                <h2 style={{ fontSize: '18px', fontWeight: 700, color: '#111827', margin: 0 }}>Domains</h2>
+                <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>
+                    The banner only loads, and consent is only recorded, on <strong>{website.domain}</strong>, <strong>www.{website.domain}</strong> and
+                    the domains below. Calls from anywhere else are refused and listed under Rejected Origins. Changes apply immediately, without publishing.
+                </p>
+                {origins && origins.enforcement !== 'enforce' && (
+                    <div style={{ marginTop: '10px', padding: '10px 12px', fontSize: '12px', color: '#92400e', background: '#fffbeb', border: '1px solid #fde68a', borderRadius: '6px' }}>
+                        {origins.enforcement === 'report'
+                            ? 'Calls from other domains are not refused yet, only listed under Rejected Origins. List every domain your banner runs on before they are.'
+                            : 'Origin checks are turned off on this server: calls from any domain are served.'}
+                    </div>
+                )}
+            </div>
+
+            <div style={cardStyle}>
+                <h3 style={sectionTitleStyle}>Allowed Domains</h3>
+                <p style={hintStyle}>
+                    Other domains and subdomains the site runs on, one per line. Use <code>*.example.com</code> for every subdomain of example.com.
+                </p>
+                <textarea
+                    value={allowedDomains}
+                    placeholder={`shop.${website.domain}\n*.${website.domain}`}
+                    onChange={(e) => { setAllowedDomains(e.target.value); setError(''); }}
+                    style={textareaStyle}
+                />
+
+                <h3 style={{ ...sectionTitleStyle, marginTop: '16px' }}>Test Domains</h3>
+                <p style={hintStyle}>
+                    Staging and development hosts, one per line. May be <code>localhost</code> or an IP address, with a port. Remove them once testing is over.
+                </p>
+                <textarea
+                    value={testDomains}
+                    placeholder={`staging.${website.domain}\nlocalhost:3000`}
+                    onChange={(e) => { setTestDomains(e.target.value); setError(''); }}
+                    style={textareaStyle}
+                />
+
+                <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginTop: '12px' }}>
+                    <button
+                        onClick={() => saveMutation.mutate()}
+                        disabled={saveMutation.isPending || !origins}
+                        style={{ padding: '7px 14px', fontSize: '13px', background: '#4f46e5', color: '#fff', border: 'none', borderRadius: '6px', cursor: 'pointer' }}
+                    >
+                        {saveMutation.isPending ? 'Saving...' : 'Save'}
+                    </button>
+                    {saved && <span style={{ fontSize: '12px', color: '#16a34a' }}>Saved</span>}
+                </div>
+                {error && (
+                    <div style={{ marginTop: '8px', fontSize: '12px', color: '#dc2626', display: 'flex', alignItems: 'center', gap: '4px' }}>
+                        <AlertCircle style={{ width: '12px', height: '12px' }} /> {error}
+                    </div>
+                )}
+            </div>
+
+            <div style={cardStyle}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '4px' }}>
+                    <ShieldAlert style={{ width: '14px', height: '14px', color: '#6b7280' }} />
+                    <h3 style={{ ...sectionTitleStyle, margin: 0 }}>Rejected Origins</h3>
+                </div>
+                <p style={hintStyle}>
+                    Calls refused because they came from a domain not listed above, per day (UTC). An unknown domain may be copying your banner;
+                    one of your own means it is missing from the lists. Counts are written every minute.
+                </p>
+                <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+                    {PRESETS.map((preset) => (
+                        <button key={preset} onClick={() => setDays(preset)} style={presetStyle(days === preset)}>
+                            Last {preset} days
+                        </button>
+                    ))}
+                </div>
+
+                {eventsLoading ? (
+                    <p style={{ fontSize: '12px', color: '#9ca3af', margin: 0 }}>Loading...</p>
+                ) : !events || events.length === 0 ? (
+                    <p style={{ fontSize: '12px', color: '#9ca3af', margin: 0 }}>No rejected calls in this period.</p>
+                ) : (
+                    <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                        <thead>
+                            <tr>
+                                {['Day', 'Origin', 'Endpoint', 'Attempts', 'Last seen'].map((heading) => (
+                                    <th key={heading} style={{ textAlign: 'left', fontSize: '11px', fontWeight: 600, color: '#6b7280', padding: '4px 6px' }}>{heading}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {events.map((event) => (
+                                <tr key={event.id}>
+                                    <td style={cellStyle}>{event.day}</td>
+                                    <td style={{ ...cellStyle, fontWeight: 600, color: '#111827' }}>
+                                        {event.origin || <span style={{ fontWeight: 400, color: '#9ca3af' }}>No origin sent</span>}
+                                    </td>
+                                    <td style={{ ...cellStyle, fontFamily: 'monospace', fontSize: '11px' }}>{event.endpoint}</td>
+                                    <td style={cellStyle}>{event.attempts}</td>
+                                    <td style={cellStyle}>{new Date(event.lastSeenAt).toLocaleString()}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,377 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertCircle, CheckCircle, Loader2, Pencil, Plus, Trash2, Trophy, X } from 'lucide-react';
+import { bannerVariantApi } from '@/api';
+import { getErrorMessage } from '@/api/client';
+import type { BannerLayout, BannerPosition, BannerVariant, BannerVariantInput, BannerVariantResult } from '@/types';
+
+// Most variants running at once, besides the default banner
+const MAX_VARIANTS = 4;
+
+// The form edits the common overrides; anything left empty keeps the default banner's value
+interface VariantForm {
+    name: string;
+    trafficPercent: string;
+    position: BannerPosition | '';
+    layout: BannerLayout | '';
+    backgroundColor: string;
+    buttonColor: string;
+    headline: string;
+    description: string;
+    acceptButton: string;
+    rejectButton: string;
+}
+
+const EMPTY_FORM: VariantForm = {
+    name: '',
+    trafficPercent: '20',
+    position: '',
+    layout: '',
+    backgroundColor: '',
+    buttonColor: '',
+    headline: '',
+    description: '',
+    acceptButton: '',
+    rejectButton: '',
+};
+
+function toForm(variant: BannerVariant): VariantForm {
+    const text = variant.text.en || {};
+    return {
+        name: variant.name,
+        trafficPercent: String(variant.trafficPercent),
+        position: variant.styles.position || '',
+        layout: variant.styles.layout || '',
+        backgroundColor: variant.styles.backgroundColor || '',
+        buttonColor: variant.styles.acceptButtonColor || '',
+        headline: text.headline || '',
+        description: text.description || '',
+        acceptButton: text.acceptButton || '',
+        rejectButton: text.rejectButton || '',
+    };
+}
+
+function toInput(form: VariantForm, variant?: BannerVariant): BannerVariantInput {
+    // Fields the form does not show are kept as they were
+    const styles = { ...variant?.styles };
+    const text = { ...variant?.text, en: { ...variant?.text.en } };
+
+    const setStyle = <K extends keyof typeof styles>(key: K, value: (typeof styles)[K] | '') => {
+        if (value) styles[key] = value;
+        else delete styles[key];
+    };
+    setStyle('position', form.position);
+    setStyle('layout', form.layout);
+    setStyle('backgroundColor', form.backgroundColor.trim());
+    // One color for both buttons: accept and reject must look alike
+    setStyle('acceptButtonColor', form.buttonColor.trim());
+    setStyle('rejectButtonColor', form.buttonColor.trim());
+
+    for (const key of ['headline', 'description', 'acceptButton', 'rejectButton'] as const) {
+        if (form[key].trim()) text.en[key] = form[key].trim();
+        else delete text.en[key];
+    }
+    if (Object.keys(text.en).length === 0) {
+        delete (text as Record<string, unknown>).en;
+    }
+
+    return { name: form.name.trim(), trafficPercent: Number(form.trafficPercent), styles, text };
+}
+
+function formatRate(rate: number | null): string {
+    return rate === null ? '—' : `${Math.round(rate * 1000) / 10}%`;
+}
+
+function formatDuration(ms: number | null): string {
+    if (ms === null) return '—';
+    return ms < 60000 ? `${Math.round(ms / 100) / 10}s` : `${Math.round(ms / 6000) / 10}min`;
+}
+
+export function ExperimentsTab({ websiteId, onSave }: { websiteId: string; onSave?: () => void }) {
+    const queryClient = useQueryClient();
+    const [form, setForm] = useState<VariantForm>(EMPTY_FORM);
+    const [editing, setEditing] = useState<BannerVariant | null>(null);
+    const [message, setMessage] = useState('');
+    const [error, setError] = useState('');
+
+    const { data: variants = [], isLoading } = useQuery({
+        queryKey: ['banner-variants', websiteId],
+        queryFn: () => bannerVariantApi.list(websiteId),
+    });
+
+    const { data: results } = useQuery({
+        queryKey: ['banner-variant-results', websiteId],
+        queryFn: () => bannerVariantApi.getResults(websiteId),
+    });
+
+    const active = variants.filter((variant) => !variant.archivedAt);
+    const ended = variants.filter((variant) => variant.archivedAt);
+
+    const showMessage = (text: string) => {
+        setError('');
+        setMessage(text);
+        setTimeout(() => setMessage(''), 3000);
+    };
+
+    const onChanged = (text: string) => {
+        queryClient.invalidateQueries({ queryKey: ['banner-variants', websiteId] });
+        queryClient.invalidateQueries({ queryKey: ['banner-variant-results', websiteId] });
+        showMessage(text);
+        onSave?.();
+    };
+
+    const saveMutation = useMutation({
+        mutationFn: () => editing
+            ? bannerVariantApi.update(websiteId, editing.id, toInput(form, editing))
+            : bannerVariantApi.create(websiteId, toInput(form)),
+        onSuccess: () => {
+            const text = editing ? 'Variant updated. Publish to apply it.' : 'Variant added. Publish to start showing it.';
+            setEditing(null);
+            setForm(EMPTY_FORM);
+            onChanged(text);
+        },
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const removeMutation = useMutation({
+        mutationFn: (variantId: string) => bannerVariantApi.remove(websiteId, variantId),
+        onSuccess: () => onChanged('Variant removed. Publish to apply it.'),
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const promoteMutation = useMutation({
+        mutationFn: (variantId: string) => bannerVariantApi.promote(websiteId, variantId),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['banner', websiteId] });
+            queryClient.invalidateQueries({ queryKey: ['bannerTranslations', websiteId] });
+            onChanged('Variant promoted to the default banner and the experiment ended. Publish to apply it.');
+        },
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    if (isLoading) {
+        return <div className="p-8 text-center flex justify-center"><div className="spinner w-8 h-8 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div></div>;
+    }
+
+    const cardStyle = { background: '#fff', border: '1px solid #e5e7eb', borderRadius: '10px', padding: '16px', marginBottom: '20px' };
+    const sectionTitleStyle = { fontSize: '14px', fontWeight: 600, color: '#111827', margin: '0 0 8px' };
+    const labelStyle = { display: 'flex', flexDirection: 'column' as const, gap: '4px', fontSize: '12px', color: '#374151' };
+    const inputStyle = { padding: '6px 8px', fontSize: '13px', border: '1px solid #d1d5db', borderRadius: '6px' };
+    const iconButtonStyle = { display: 'flex', alignItems: 'center', gap: '4px', padding: '4px 8px', fontSize: '12px', background: '#fff', color: '#374151', border: '1px solid #d1d5db', borderRadius: '6px', cursor: 'pointer' };
+    const cellStyle = { padding: '8px 10px', fontSize: '12px', color: '#374151', borderTop: '1px solid #f3f4f6' };
+    const headStyle = { padding: '8px 10px', fontSize: '11px', fontWeight: 600, color: '#6b7280', textAlign: 'left' as const };
+
+    const otherTraffic = active.filter((variant) => variant.id !== editing?.id).reduce((sum, variant) => sum + variant.trafficPercent, 0);
+    const canAdd = editing !== null || active.length < MAX_VARIANTS;
+
+    const field = (key: keyof VariantForm, label: string, placeholder = '', width = '160px') => (
+        <label style={labelStyle}>
+            {label}
+            <input
+                type="text"
+                value={form[key]}
+                onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                placeholder={placeholder}
+                style={{ ...inputStyle, width }}
+            />
+        </label>
+    );
+
+    // Best consent rate among arms that were shown at all
+    const best = (results?.variants || [])
+        .filter((arm) => arm.consentRate !== null)
+        .reduce<BannerVariantResult | null>((top, arm) => (!top || arm.consentRate! > top.consentRate! ? arm : top), null);
+
+    return (
+        <div style={{ paddingBottom: '40px' }}>
+            {/* Header */}
+            <div style={{ marginBottom: '20px' }}>
+                <h2 style={{ fontSize: '18px', fontWeight: 700, color: '#111827', margin: 0 }}>Experiments</h2>
+                <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>
+                    Try other layouts, copy and positions of the banner on a share of your visitors. Each visitor keeps the
+                    variant they were shown. Variants must pass the same dark pattern rules as the default banner, in every
+                    language. Changes go live when you publish.
+                </p>
+            </div>
+
+            {error && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#fef2f2', border: '1px solid #fecaca', color: '#991b1b', fontSize: '13px', padding: '10px 12px', borderRadius: '8px', marginBottom: '16px' }}>
+                    <AlertCircle size={16} /> {error}
+                </div>
+            )}
+            {message && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#f0fdf4', border: '1px solid #bbf7d0', color: '#166534', fontSize: '13px', padding: '10px 12px', borderRadius: '8px', marginBottom: '16px' }}>
+                    <CheckCircle size={16} /> {message}
+                </div>
+            )}
+
+            {/* Results */}
+            <div style={cardStyle}>
+                <h3 style={sectionTitleStyle}>Results</h3>
+                <p style={{ fontSize: '12px', color: '#6b7280', margin: '0 0 12px' }}>
+                    Estimated from anonymous loader telemetry
+                    {results?.since ? ` since ${new Date(results.since).toLocaleDateString()}` : ''}. Consent rate is the share
+                    of banners shown that ended with at least one optional purpose allowed.
+                </p>
+                {!results || results.variants.length === 0 ? (
+                    <p style={{ fontSize: '12px', color: '#9ca3af', margin: 0 }}>No experiment is running. Add a variant below.</p>
+                ) : (
+                    <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                        <thead>
+                            <tr>
+                                <th style={headStyle}>Variant</th>
+                                <th style={headStyle}>Traffic</th>
+                                <th style={headStyle}>Shown</th>
+                                <th style={headStyle}>Decided</th>
+                                <th style={headStyle}>Consent rate</th>
+                                <th style={headStyle}>Accept / reject all</th>
+                                <th style={headStyle}>Median time to decision</th>
+                                <th style={headStyle}></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {results.variants.map((arm) => (
+                                <tr key={arm.variantId}>
+                                    <td style={{ ...cellStyle, fontWeight: 600, color: '#111827' }}>
+                                        {arm.name}
+                                        {best?.variantId === arm.variantId && <Trophy size={12} style={{ marginLeft: '6px', color: '#f59e0b', verticalAlign: 'middle' }} />}
+                                    </td>
+                                    <td style={cellStyle}>{arm.trafficPercent}%</td>
+                                    <td style={cellStyle}>{arm.shown}</td>
+                                    <td style={cellStyle}>{formatRate(arm.decisionRate)}</td>
+                                    <td style={{ ...cellStyle, fontWeight: 600 }}>{formatRate(arm.consentRate)}</td>
+                                    <td style={cellStyle}>{arm.acceptAll} / {arm.rejectAll}</td>
+                                    <td style={cellStyle}>{formatDuration(arm.medianDecisionMs)}</td>
+                                    <td style={cellStyle}>
+                                        {arm.variantId !== 'control' && (
+                                            <button
+                                                onClick={() => {
+                                                    if (confirm(`Make "${arm.name}" the default banner? This ends the experiment.`)) {
+                                                        promoteMutation.mutate(arm.variantId);
+                                                    }
+                                                }}
+                                                disabled={promoteMutation.isPending}
+                                                style={iconButtonStyle}
+                                                title="Make this variant the default banner"
+                                            >
+                                                <Trophy size={12} /> Promote
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {/* Variant form */}
+            <div style={cardStyle}>
+                <h3 style={sectionTitleStyle}>{editing ? `Edit ${editing.name}` : 'Add a variant'}</h3>
+                {!canAdd ? (
+                    <p style={{ fontSize: '12px', color: '#9ca3af', margin: 0 }}>At most {MAX_VARIANTS} variants can run at once.</p>
+                ) : (
+                    <>
+                        <p style={{ fontSize: '12px', color: '#6b7280', margin: '0 0 12px' }}>
+                            Empty fields keep the default banner's value. The default banner gets the traffic left over,
+                            {' '}{Math.max(0, 100 - otherTraffic - (Number(form.trafficPercent) || 0))}% with this variant.
+                            Text overrides apply to English.
+                        </p>
+                        <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap', marginBottom: '12px' }}>
+                            {field('name', 'Name', 'Top bar, short copy')}
+                            <label style={labelStyle}>
+                                Traffic %
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={100 - otherTraffic}
+                                    value={form.trafficPercent}
+                                    onChange={(e) => setForm({ ...form, trafficPercent: e.target.value })}
+                                    style={{ ...inputStyle, width: '80px' }}
+                                />
+                            </label>
+                            <label style={labelStyle}>
+                                Position
+                                <select value={form.position} onChange={(e) => setForm({ ...form, position: e.target.value as VariantForm['position'] })} style={inputStyle}>
+                                    <option value="">Default</option>
+                                    <option value="bottom">Bottom</option>
+                                    <option value="top">Top</option>
+                                    <option value="center">Center</option>
+                                </select>
+                            </label>
+                            <label style={labelStyle}>
+                                Layout
+                                <select value={form.layout} onChange={(e) => setForm({ ...form, layout: e.target.value as VariantForm['layout'] })} style={inputStyle}>
+                                    <option value="">Default</option>
+                                    <option value="banner">Banner</option>
+                                    <option value="modal">Modal</option>
+                                    <option value="popup">Popup</option>
+                                </select>
+                            </label>
+                            {field('backgroundColor', 'Background color', '#FFFFFF', '100px')}
+                            {field('buttonColor', 'Button color', '#0066CC', '100px')}
+                        </div>
+                        <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap', marginBottom: '12px' }}>
+                            {field('headline', 'Headline', '', '240px')}
+                            {field('description', 'Description', '', '360px')}
+                            {field('acceptButton', 'Accept button', '', '140px')}
+                            {field('rejectButton', 'Reject button', '', '140px')}
+                        </div>
+                        <div style={{ display: 'flex', gap: '8px' }}>
+                            <button
+                                onClick={() => saveMutation.mutate()}
+                                disabled={saveMutation.isPending || !form.name.trim() || !(Number(form.trafficPercent) >= 1)}
+                                style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '7px 14px', fontSize: '13px', fontWeight: 600, background: '#4f46e5', color: '#fff', border: 'none', borderRadius: '6px', cursor: 'pointer' }}
+                            >
+                                {saveMutation.isPending ? <Loader2 size={14} className="animate-spin" /> : editing ? <CheckCircle size={14} /> : <Plus size={14} />}
+                                {editing ? 'Save variant' : 'Add variant'}
+                            </button>
+                            {editing && (
+                                <button onClick={() => { setEditing(null); setForm(EMPTY_FORM); }} style={iconButtonStyle}>
+                                    <X size={12} /> Cancel
+                                </button>
+                            )}
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {/* Running variants */}
+            {active.length > 0 && (
+                <div style={cardStyle}>
+                    <h3 style={sectionTitleStyle}>Running variants</h3>
+                    {active.map((variant) => (
+                        <div key={variant.id} style={{ display: 'flex', gap: '8px', alignItems: 'center', padding: '8px 0', borderTop: '1px solid #f3f4f6' }}>
+                            <span style={{ fontSize: '13px', fontWeight: 600, color: '#111827', flex: 1 }}>{variant.name}</span>
+                            <span style={{ fontSize: '12px', color: '#6b7280' }}>{variant.trafficPercent}% of visitors</span>
+                            <button onClick={() => { setEditing(variant); setForm(toForm(variant)); }} style={iconButtonStyle} title="Edit variant">
+                                <Pencil size={12} /> Edit
+                            </button>
+                            <button
+                                onClick={() => removeMutation.mutate(variant.id)}
+                                disabled={removeMutation.isPending}
+                                style={{ ...iconButtonStyle, color: '#b91c1c' }}
+                                title="Remove variant"
+                            >
+                                <Trash2 size={12} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Ended experiments */}
+            {ended.length > 0 && (
+                <div style={cardStyle}>
+                    <h3 style={sectionTitleStyle}>Earlier variants</h3>
+                    {ended.map((variant) => (
+                        <div key={variant.id} style={{ display: 'flex', gap: '8px', alignItems: 'center', padding: '6px 0', borderTop: '1px solid #f3f4f6', fontSize: '12px', color: '#6b7280' }}>
+                            <span style={{ flex: 1 }}>{variant.name}</span>
+                            <span>ended {new Date(variant.archivedAt!).toLocaleDateString()}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -11,6 +11,12 @@ export function InstallTab({ website }: { website: Website }) {
     // Simple, correct loader snippet
     const loaderSnippet = `<script src="${SCRIPT_URL}?id=${website.id}"></script>`;
 
+    // Cookie declaration, hosted or embedded in the site's own policy page
+    const PUBLIC_BASE = SCRIPT_URL.replace(/\/public\/loader\.js$/, '');
+    const declarationUrl = `${PUBLIC_BASE}/public/cookie-policy/${website.id}`;
+    const declarationSnippet = `<div data-complyark-declaration></div>
+<script src="${PUBLIC_BASE}/public/cookie-declaration.js?id=${website.id}" async></script>`;
+
     // Example: External script blocking
     const externalScriptExample = `<!-- ❌ BEFORE: Runs immediately, collects data before consent -->
 <script src="https://www.googletagmanager.com/gtag/js?id=GA_ID"></script>
@@ -145,6 +151,21 @@ ComplyArk.withdrawConsent();`}
                 />
             </div>
 
+            {/* Step 4: Cookie Declaration */}
+            <div style={{ marginBottom: '32px' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '12px' }}>
+                    <div style={{ width: '28px', height: '28px', borderRadius: '50%', background: '#4f46e5', color: '#fff', display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: '14px', fontWeight: 600 }}>4</div>
+                    <h3 style={{ fontSize: '15px', fontWeight: 600, color: '#111827', margin: 0 }}>Cookie Declaration (Optional)</h3>
+                </div>
+                <p style={{ fontSize: '13px', color: '#6b7280', marginBottom: '12px', marginLeft: '38px' }}>
+                    Lists your purposes and the cookies declared on the Cookies tab, in the visitor's language, and follows every
+                    publish. Link to the{' '}
+                    <a href={declarationUrl} target="_blank" rel="noopener noreferrer" style={{ color: '#4f46e5' }}>hosted page</a>{' '}
+                    or paste this where your privacy policy should show it. Add <code style={{ background: '#f3f4f6', padding: '2px 6px', borderRadius: '4px', fontSize: '12px' }}>data-lang="hi"</code> to pin a language.
+                </p>
+                <CodeBlock code={declarationSnippet} language="html" copied={copied === 'declaration'} onCopy={() => handleCopy(declarationSnippet, 'declaration')} />
+            </div>
+
             {/* Verification Status */}
             <div style={{ marginBottom: '24px' }}>
                 <h3 style={{ fontSize: '14px', fontWeight: 600, color: '#111827', marginBottom: '12px', display: 'flex', alignItems: 'center', gap: '8px' }}>
@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Save, AlertCircle, CheckCircle, Globe, Building2, FileText, Shield } from 'lucide-react';
-import { noticeApi } from '@/api';
+import { noticeApi, configVersionApi } from '@/api';
 import { useLanguages } from '@/hooks';
 import { getErrorMessage } from '@/api/client';
+import { ChangeTypeSelector } from '@/components';
+import type { ConfigChangeType } from '@/types';
 
 export function NoticeTab({ websiteId, onSave }: { websiteId: string; onSave?: () => void }) {
     const queryClient = useQueryClient();
@@ -11,6 +13,7 @@ export function NoticeTab({ websiteId, onSave }: { websiteId: string; onSave?: (
     const [dpoEmail, setDpoEmail] = useState('');
     const [saveSuccess, setSaveSuccess] = useState(false);
     const [error, setError] = useState('');
+    const [changeType, setChangeType] = useState<ConfigChangeType>('MATERIAL');
 
 
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -21,6 +24,12 @@ export function NoticeTab({ websiteId, onSave }: { websiteId: string; onSave?: (
         queryFn: () => noticeApi.get(websiteId),
     });
 
+    const { data: versions } = useQuery({
+        queryKey: ['config-versions', websiteId],
+        queryFn: () => configVersionApi.list(websiteId),
+    });
+    const currentVersion = versions?.[0];
+
     const { languages } = useLanguages();
 
     interface NoticeFormData {
@@ -78,13 +87,15 @@ export function NoticeTab({ websiteId, onSave }: { websiteId: string; onSave?: (
             }));
 
             if (notice) {
-                await noticeApi.updateTranslations(notice.id, translations, dpoEmail);
+                await noticeApi.updateTranslations(notice.id, translations, dpoEmail, changeType);
             } else {
                 await noticeApi.create(websiteId, { dpoEmail, translations });
             }
         },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['notice', websiteId] });
+            queryClient.invalidateQueries({ queryKey: ['config-versions', websiteId] });
+            setChangeType('MATERIAL');
             setSaveSuccess(true);
             onSave?.();
             setTimeout(() => setSaveSuccess(false), 3000);
@@ -123,7 +134,10 @@ export function NoticeTab({ websiteId, onSave }: { websiteId: string; onSave?: (
             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
                 <div>
                     <h2 style={{ fontSize: '18px', fontWeight: 700, color: '#111827', margin: 0 }}>Notice Editor</h2>
-                    <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>Configure your DPDPA-compliant privacy notice.</p>
+                    <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>
+                        Configure your DPDPA-compliant privacy notice.
+                        {currentVersion && ` Version ${currentVersion.version} (${currentVersion.changeType === 'MATERIAL' ? 'material' : 'minor'} change, ${new Date(currentVersion.createdAt).toLocaleDateString()}).`}
+                    </p>
                 </div>
                 <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
                     <div style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#f9fafb', padding: '6px 12px', borderRadius: '8px', border: '1px solid #e5e7eb' }}>
@@ -262,6 +276,7 @@ export function NoticeTab({ websiteId, onSave }: { websiteId: string; onSave?: (
                     {/* SAVE BUTTON and Messages */}
                     <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: '12px' }}>
                         {error && <span style={{ fontSize: '12px', color: '#dc2626', background: '#fef2f2', padding: '4px 10px', borderRadius: '20px', display: 'flex', alignItems: 'center', gap: '4px' }}><AlertCircle style={{ width: '12px', height: '12px' }} /> {error}</span>}
+                        {notice && <ChangeTypeSelector value={changeType} onChange={setChangeType} />}
                         {saveSuccess && <span style={{ fontSize: '12px', color: '#16a34a', background: '#f0fdf4', padding: '4px 10px', borderRadius: '20px', display: 'flex', alignItems: 'center', gap: '4px' }}><CheckCircle style={{ width: '12px', height: '12px' }} /> Saved</span>}
                         <button
                             onClick={() => saveMutation.mutate()}
@@ -0,0 +1,249 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Upload, RotateCcw, Eye, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+import { publishApi } from '@/api';
+import { getErrorMessage } from '@/api/client';
+import type { ConfigDiffChange, Website } from '@/types';
+
+const CHANGE_COLORS: Record<ConfigDiffChange, { background: string; color: string }> = {
+    ADDED: { background: '#dcfce7', color: '#166534' },
+    REMOVED: { background: '#fee2e2', color: '#991b1b' },
+    CHANGED: { background: '#fef3c7', color: '#92400e' },
+};
+
+function formatValue(value: unknown): string {
+    if (value === undefined) return '—';
+    if (typeof value === 'string') return value;
+    return JSON.stringify(value);
+}
+
+export function PublishTab({ website }: { website: Website }) {
+    const websiteId = website.id;
+    const queryClient = useQueryClient();
+    const [note, setNote] = useState('');
+    const [message, setMessage] = useState('');
+    const [error, setError] = useState('');
+    const [previewHtml, setPreviewHtml] = useState<string | null>(null);
+
+    const { data: status, isLoading } = useQuery({
+        queryKey: ['publishing', websiteId],
+        queryFn: () => publishApi.getStatus(websiteId),
+    });
+
+    const canDiff = !!status?.draftHash;
+    const { data: diff } = useQuery({
+        queryKey: ['publishing', websiteId, 'diff'],
+        queryFn: () => publishApi.getDiff(websiteId),
+        enabled: canDiff,
+    });
+
+    const { data: history } = useQuery({
+        queryKey: ['publishing', websiteId, 'history'],
+        queryFn: () => publishApi.list(websiteId),
+    });
+
+    const onPublished = (text: string) => {
+        queryClient.invalidateQueries({ queryKey: ['publishing', websiteId] });
+        setNote('');
+        setError('');
+        setMessage(text);
+        setTimeout(() => setMessage(''), 3000);
+    };
+
+    const publishMutation = useMutation({
+        mutationFn: () => publishApi.publish(websiteId, note.trim() || undefined),
+        onSuccess: (published) => onPublished(`Version ${published.version} is now live.`),
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const rollbackMutation = useMutation({
+        mutationFn: (version: number) => publishApi.rollback(websiteId, version, note.trim() || undefined),
+        onSuccess: (published) => onPublished(`Version ${published.rolledBackFrom} restored as version ${published.version}.`),
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const previewMutation = useMutation({
+        mutationFn: () => publishApi.getPreview(websiteId),
+        onSuccess: (html) => setPreviewHtml(html),
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const handleRollback = (version: number) => {
+        if (confirm(`Make version ${version} live again? Your draft is not changed.`)) {
+            rollbackMutation.mutate(version);
+        }
+    };
+
+    if (isLoading) {
+        return <div className="p-8 text-center flex justify-center"><div className="spinner w-8 h-8 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div></div>;
+    }
+
+    const live = status?.live;
+    const changes = diff?.changes || [];
+    const canPublish = canDiff && !!status?.hasUnpublishedChanges;
+
+    return (
+        <div style={{ paddingBottom: '40px' }}>
+            {/* Header */}
+            <div style={{ marginBottom: '20px' }}>
+                <h2 style={{ fontSize: '18px', fontWeight: 700, color: '#111827', margin: 0 }}>Publish</h2>
+                <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>
+                    Edits to the banner, notice and purposes are saved as a draft. Visitors see the published version.
+                </p>
+            </div>
+
+            {error && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#fef2f2', border: '1px solid #fecaca', color: '#991b1b', fontSize: '13px', padding: '10px 12px', borderRadius: '8px', marginBottom: '16px' }}>
+                    <AlertCircle size={16} /> {error}
+                </div>
+            )}
+            {message && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#f0fdf4', border: '1px solid #bbf7d0', color: '#166534', fontSize: '13px', padding: '10px 12px', borderRadius: '8px', marginBottom: '16px' }}>
+                    <CheckCircle size={16} /> {message}
+                </div>
+            )}
+
+            {/* Status & Publish */}
+            <div style={{ background: '#fff', border: '1px solid #e5e7eb', borderRadius: '10px', padding: '16px', marginBottom: '20px' }}>
+                <div style={{ fontSize: '13px', color: '#374151', marginBottom: '12px' }}>
+                    {live
+                        ? <>Live: <strong>version {live.version}</strong>, published {new Date(live.publishedAt).toLocaleString()}{live.publishedByEmail && ` by ${live.publishedByEmail}`}.</>
+                        : 'Nothing has been published yet.'}
+                    {' '}
+                    {status?.draftHash === null
+                        ? 'The draft is incomplete and cannot be published.'
+                        : status?.hasUnpublishedChanges
+                            ? <span style={{ color: '#b45309', fontWeight: 600 }}>The draft has unpublished changes.</span>
+                            : 'The draft matches the live version.'}
+                </div>
+                {!live && website.status !== 'ACTIVE' && (
+                    <p style={{ fontSize: '12px', color: '#6b7280', margin: '0 0 12px' }}>
+                        Activating the website publishes the draft for the first time.
+                    </p>
+                )}
+                <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                    <input
+                        type="text"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        maxLength={500}
+                        placeholder="Note (optional), e.g. Updated analytics wording"
+                        style={{ flex: 1, padding: '8px 10px', fontSize: '13px', border: '1px solid #d1d5db', borderRadius: '6px' }}
+                    />
+                    <button
+                        onClick={() => previewMutation.mutate()}
+                        disabled={!canDiff || previewMutation.isPending}
+                        style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '8px 14px', fontSize: '13px', fontWeight: 600, background: '#fff', color: '#374151', border: '1px solid #d1d5db', borderRadius: '6px', cursor: canDiff ? 'pointer' : 'not-allowed' }}
+                    >
+                        {previewMutation.isPending ? <Loader2 size={14} className="animate-spin" /> : <Eye size={14} />}
+                        Preview draft
+                    </button>
+                    <button
+                        onClick={() => publishMutation.mutate()}
+                        disabled={!canPublish || publishMutation.isPending}
+                        style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '8px 14px', fontSize: '13px', fontWeight: 600, background: '#4f46e5', color: '#fff', border: 'none', borderRadius: '6px', cursor: canPublish ? 'pointer' : 'not-allowed', opacity: canPublish ? 1 : 0.5 }}
+                    >
+                        {publishMutation.isPending ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+                        Publish
+                    </button>
+                </div>
+            </div>
+
+            {/* Draft Preview */}
+            {previewHtml && (
+                <div style={{ marginBottom: '20px' }}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+                        <h3 style={{ fontSize: '14px', fontWeight: 600, color: '#111827', margin: 0 }}>Draft Preview</h3>
+                        <button
+                            onClick={() => setPreviewHtml(null)}
+                            style={{ fontSize: '12px', color: '#6b7280', background: 'none', border: 'none', cursor: 'pointer' }}
+                        >
+                            Close
+                        </button>
+                    </div>
+                    <iframe
+                        title="Draft preview"
+                        srcDoc={previewHtml}
+                        sandbox="allow-scripts allow-popups"
+                        style={{ width: '100%', height: '480px', border: '1px solid #e5e7eb', borderRadius: '10px', background: '#fff' }}
+                    />
+                </div>
+            )}
+
+            {/* Diff */}
+            {canDiff && (
+                <div style={{ marginBottom: '20px' }}>
+                    <h3 style={{ fontSize: '14px', fontWeight: 600, color: '#111827', margin: '0 0 8px' }}>
+                        Changes since {diff?.liveVersion ? `version ${diff.liveVersion}` : 'nothing was published'}
+                    </h3>
+                    {changes.length === 0 ? (
+                        <p style={{ fontSize: '13px', color: '#6b7280' }}>No differences between the draft and the live version.</p>
+                    ) : (
+                        <div style={{ border: '1px solid #e5e7eb', borderRadius: '10px', overflow: 'hidden' }}>
+                            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                                <thead>
+                                    <tr style={{ background: '#f9fafb', textAlign: 'left' }}>
+                                        <th style={{ padding: '8px 10px' }}>Field</th>
+                                        <th style={{ padding: '8px 10px' }}>Change</th>
+                                        <th style={{ padding: '8px 10px' }}>Live</th>
+                                        <th style={{ padding: '8px 10px' }}>Draft</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {changes.map((entry) => (
+                                        <tr key={entry.path} style={{ borderTop: '1px solid #f3f4f6', verticalAlign: 'top' }}>
+                                            <td style={{ padding: '8px 10px', fontFamily: 'monospace', color: '#374151' }}>{entry.path}</td>
+                                            <td style={{ padding: '8px 10px' }}>
+                                                <span style={{ ...CHANGE_COLORS[entry.change], fontSize: '10px', fontWeight: 600, padding: '2px 6px', borderRadius: '10px' }}>
+                                                    {entry.change}
+                                                </span>
+                                            </td>
+                                            <td style={{ padding: '8px 10px', color: '#6b7280', wordBreak: 'break-word' }}>{formatValue(entry.live)}</td>
+                                            <td style={{ padding: '8px 10px', color: '#111827', wordBreak: 'break-word' }}>{formatValue(entry.draft)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* History */}
+            <div>
+                <h3 style={{ fontSize: '14px', fontWeight: 600, color: '#111827', margin: '0 0 8px' }}>Publish History</h3>
+                {!history || history.length === 0 ? (
+                    <p style={{ fontSize: '13px', color: '#6b7280' }}>No versions have been published.</p>
+                ) : (
+                    <div style={{ border: '1px solid #e5e7eb', borderRadius: '10px', overflow: 'hidden' }}>
+                        {history.map((entry) => (
+                            <div key={entry.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '12px', padding: '10px 12px', borderTop: '1px solid #f3f4f6', fontSize: '13px' }}>
+                                <div>
+                                    <div style={{ fontWeight: 600, color: '#111827' }}>
+                                        Version {entry.version}
+                                        {entry.version === live?.version && <span style={{ marginLeft: '8px', fontSize: '10px', background: '#dcfce7', color: '#166534', padding: '2px 6px', borderRadius: '10px' }}>LIVE</span>}
+                                        {entry.rolledBackFrom && <span style={{ marginLeft: '8px', fontSize: '11px', fontWeight: 400, color: '#6b7280' }}>restored from version {entry.rolledBackFrom}</span>}
+                                    </div>
+                                    <div style={{ fontSize: '11px', color: '#6b7280', marginTop: '2px' }}>
+                                        {new Date(entry.publishedAt).toLocaleString()}
+                                        {entry.publishedByEmail && ` · ${entry.publishedByEmail}`}
+                                        {entry.note && ` · ${entry.note}`}
+                                    </div>
+                                </div>
+                                {entry.version !== live?.version && (
+                                    <button
+                                        onClick={() => handleRollback(entry.version)}
+                                        disabled={rollbackMutation.isPending}
+                                        style={{ display: 'flex', alignItems: 'center', gap: '4px', padding: '6px 10px', fontSize: '12px', background: '#fff', color: '#374151', border: '1px solid #d1d5db', borderRadius: '6px', cursor: 'pointer', flexShrink: 0 }}
+                                    >
+                                        <RotateCcw size={12} /> Roll back
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
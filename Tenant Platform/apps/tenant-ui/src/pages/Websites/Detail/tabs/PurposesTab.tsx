@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Trash2, GripVertical, AlertCircle, Plus, X, Globe } from 'lucide-react';
-import { purposeApi, languageApi } from '@/api';
+import { Trash2, GripVertical, AlertCircle, Plus, X, Globe, Clock, Tag } from 'lucide-react';
+import { purposeApi, languageApi, websiteApi } from '@/api';
 import { getErrorMessage } from '@/api/client';
-import type { Purpose, SupportedLanguage } from '@/types';
+import { ChangeTypeSelector } from '@/components';
+import type { Purpose, SupportedLanguage, ConfigChangeType, ConsentModeSettings as ConsentModeSettingsData, ConsentModeSignal } from '@/types';
 
 interface Translation {
     languageCode: string;
@@ -29,7 +30,10 @@ export function PurposesTab({ websiteId, onSave }: { websiteId: string; onSave?:
 
     const deleteMutation = useMutation({
         mutationFn: purposeApi.delete,
-        onSuccess: () => queryClient.invalidateQueries({ queryKey: ['purposes', websiteId] }),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['purposes', websiteId] });
+            queryClient.invalidateQueries({ queryKey: ['config-versions', websiteId] });
+        },
     });
 
     const handleEdit = (id: string) => { setEditingId(id); setIsModalOpen(true); };
@@ -138,6 +142,10 @@ export function PurposesTab({ websiteId, onSave }: { websiteId: string; onSave?:
                 )}
             </div>
 
+            <ConsentLifetimeSettings websiteId={websiteId} />
+
+            <ConsentModeSettings websiteId={websiteId} purposes={purposes || []} onSave={onSave} />
+
             {/* Modal */}
             {isModalOpen && (
                 <div style={{ position: 'fixed', inset: 0, background: 'rgba(0,0,0,0.5)', zIndex: 50, display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '16px' }} onClick={handleCloseModal}>
@@ -153,7 +161,7 @@ export function PurposesTab({ websiteId, onSave }: { websiteId: string; onSave?:
                             purpose={purposes?.find((p) => p.id === editingId)}
                             key={editingId || 'new'}
                             onCancel={handleCloseModal}
-                            onSuccess={() => { handleCloseModal(); queryClient.invalidateQueries({ queryKey: ['purposes', websiteId] }); onSave?.(); }}
+                            onSuccess={() => { handleCloseModal(); queryClient.invalidateQueries({ queryKey: ['purposes', websiteId] }); queryClient.invalidateQueries({ queryKey: ['config-versions', websiteId] }); onSave?.(); }}
                         />
                     </div>
                 </div>
@@ -162,6 +170,275 @@ export function PurposesTab({ websiteId, onSave }: { websiteId: string; onSave?:
     );
 }
 
+function ConsentLifetimeSettings({ websiteId }: { websiteId: string }) {
+    const queryClient = useQueryClient();
+    const [consentDays, setConsentDays] = useState('');
+    const [rejectDays, setRejectDays] = useState('');
+    const [error, setError] = useState('');
+    const [saved, setSaved] = useState(false);
+
+    const { data: lifetime } = useQuery({
+        queryKey: ['consent-lifetime', websiteId],
+        queryFn: () => websiteApi.getConsentLifetime(websiteId),
+    });
+
+    useEffect(() => {
+        if (lifetime) {
+            setConsentDays(lifetime.settings.consentLifetimeDays?.toString() || '');
+            setRejectDays(lifetime.settings.rejectLifetimeDays?.toString() || '');
+        }
+    }, [lifetime]);
+
+    const saveMutation = useMutation({
+        mutationFn: () => websiteApi.updateConsentLifetime(websiteId, {
+            consentLifetimeDays: consentDays.trim() ? parseInt(consentDays, 10) : null,
+            rejectLifetimeDays: rejectDays.trim() ? parseInt(rejectDays, 10) : null,
+        }),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['consent-lifetime', websiteId] });
+            setError('');
+            setSaved(true);
+            setTimeout(() => setSaved(false), 3000);
+        },
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    if (!lifetime) return null;
+
+    const inputStyle = { width: '90px', padding: '6px 8px', fontSize: '13px', border: '1px solid #d1d5db', borderRadius: '6px' };
+
+    return (
+        <div style={{ marginTop: '24px', background: '#fff', borderRadius: '8px', border: '1px solid #e5e7eb', padding: '14px 16px' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '4px' }}>
+                <Clock style={{ width: '14px', height: '14px', color: '#6b7280' }} />
+                <h3 style={{ fontSize: '14px', fontWeight: 600, color: '#111827', margin: 0 }}>Consent Lifetime</h3>
+            </div>
+            <p style={{ fontSize: '12px', color: '#6b7280', margin: '0 0 12px' }}>
+                Visitors are asked again once their decision is older than this. Applies immediately, without publishing.
+                Maximum {lifetime.limits.maxDays} days{lifetime.limits.rulesVersion ? ` (global rules v${lifetime.limits.rulesVersion})` : ''}.
+            </p>
+            <div style={{ display: 'flex', gap: '20px', alignItems: 'flex-end', flexWrap: 'wrap' }}>
+                <label style={{ fontSize: '12px', color: '#374151', display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                    Consent (days)
+                    <input
+                        type="number"
+                        min={1}
+                        max={lifetime.limits.maxDays}
+                        value={consentDays}
+                        placeholder={lifetime.limits.defaultDays.toString()}
+                        onChange={(e) => { setConsentDays(e.target.value); setError(''); }}
+                        style={inputStyle}
+                    />
+                </label>
+                <label style={{ fontSize: '12px', color: '#374151', display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                    Reject All (days)
+                    <input
+                        type="number"
+                        min={lifetime.limits.minRejectDays}
+                        max={lifetime.limits.maxDays}
+                        value={rejectDays}
+                        placeholder={lifetime.effective.consentLifetimeDays.toString()}
+                        onChange={(e) => { setRejectDays(e.target.value); setError(''); }}
+                        style={inputStyle}
+                    />
+                </label>
+                <button
+                    onClick={() => saveMutation.mutate()}
+                    disabled={saveMutation.isPending}
+                    style={{ padding: '7px 14px', fontSize: '13px', background: '#4f46e5', color: '#fff', border: 'none', borderRadius: '6px', cursor: 'pointer' }}
+                >
+                    {saveMutation.isPending ? 'Saving...' : 'Save'}
+                </button>
+                {saved && <span style={{ fontSize: '12px', color: '#16a34a' }}>Saved</span>}
+            </div>
+            <p style={{ fontSize: '11px', color: '#9ca3af', margin: '8px 0 0' }}>
+                In effect: consent {lifetime.effective.consentLifetimeDays} days, rejections {lifetime.effective.rejectLifetimeDays} days. Leave blank for the default.
+            </p>
+            {error && (
+                <div style={{ marginTop: '8px', fontSize: '12px', color: '#dc2626', display: 'flex', alignItems: 'center', gap: '4px' }}>
+                    <AlertCircle style={{ width: '12px', height: '12px' }} /> {error}
+                </div>
+            )}
+        </div>
+    );
+}
+
+const CONSENT_MODE_SIGNALS: { signal: ConsentModeSignal; description: string }[] = [
+    { signal: 'ad_storage', description: 'Advertising cookies' },
+    { signal: 'analytics_storage', description: 'Analytics cookies' },
+    { signal: 'ad_user_data', description: 'Sending user data to Google for ads' },
+    { signal: 'ad_personalization', description: 'Personalised advertising' },
+    { signal: 'functionality_storage', description: 'Site functionality, e.g. language' },
+    { signal: 'personalization_storage', description: 'Personalisation, e.g. recommendations' },
+    { signal: 'security_storage', description: 'Security and fraud prevention' },
+];
+
+function ConsentModeSettings({ websiteId, purposes, onSave }: { websiteId: string; purposes: Purpose[]; onSave?: () => void }) {
+    const queryClient = useQueryClient();
+    const [settings, setSettings] = useState<ConsentModeSettingsData | null>(null);
+    const [error, setError] = useState('');
+    const [saved, setSaved] = useState(false);
+
+    const { data } = useQuery({
+        queryKey: ['consent-mode', websiteId],
+        queryFn: () => websiteApi.getConsentMode(websiteId),
+    });
+
+    useEffect(() => {
+        if (data) setSettings(data);
+    }, [data]);
+
+    const saveMutation = useMutation({
+        mutationFn: (value: ConsentModeSettingsData) => websiteApi.updateConsentMode(websiteId, value),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['consent-mode', websiteId] });
+            setError('');
+            setSaved(true);
+            setTimeout(() => setSaved(false), 3000);
+            onSave?.();
+        },
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    if (!settings) return null;
+
+    const update = (changes: Partial<ConsentModeSettingsData>) => {
+        setSettings({ ...settings, ...changes });
+        setError('');
+    };
+
+    const toggleMapping = (signal: ConsentModeSignal, tag: string) => {
+        const tags = settings.signalMapping[signal] || [];
+        const next = tags.includes(tag) ? tags.filter((t) => t !== tag) : [...tags, tag];
+        const signalMapping = { ...settings.signalMapping };
+        if (next.length > 0) {
+            signalMapping[signal] = next;
+        } else {
+            delete signalMapping[signal];
+        }
+        update({ signalMapping });
+    };
+
+    const handleSave = () => {
+        // Drop mappings to purposes that have since been deleted
+        const tags = new Set(purposes.map((p) => p.tag));
+        const signalMapping: ConsentModeSettingsData['signalMapping'] = {};
+        for (const [signal, mapped] of Object.entries(settings.signalMapping) as [ConsentModeSignal, string[]][]) {
+            const kept = mapped.filter((tag) => tags.has(tag));
+            if (kept.length > 0) signalMapping[signal] = kept;
+        }
+        saveMutation.mutate({ ...settings, signalMapping });
+    };
+
+    const getPurposeName = (purpose: Purpose) =>
+        purpose.translations?.find((t) => t.languageCode === 'en')?.name || purpose.tag;
+
+    const cellStyle = { padding: '6px 8px', borderTop: '1px solid #f3f4f6' };
+    const checkboxLabelStyle = { fontSize: '12px', color: '#374151', display: 'flex', alignItems: 'center', gap: '6px' };
+
+    return (
+        <div style={{ marginTop: '16px', background: '#fff', borderRadius: '8px', border: '1px solid #e5e7eb', padding: '14px 16px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '4px' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <Tag style={{ width: '14px', height: '14px', color: '#6b7280' }} />
+                    <h3 style={{ fontSize: '14px', fontWeight: 600, color: '#111827', margin: 0 }}>Google Consent Mode v2</h3>
+                </div>
+                <label style={checkboxLabelStyle}>
+                    <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+                    Enabled
+                </label>
+            </div>
+            <p style={{ fontSize: '12px', color: '#6b7280', margin: '0 0 12px' }}>
+                The loader sends Consent Mode signals to Google tags: every mapped signal is denied until the visitor
+                grants one of its purposes. Signals mapped to an essential purpose are always granted.
+                Changes go live when you publish.
+            </p>
+
+            {settings.enabled && (
+                <>
+                    {purposes.length === 0 ? (
+                        <p style={{ fontSize: '12px', color: '#9ca3af', margin: '0 0 12px' }}>Add purposes to map them to signals.</p>
+                    ) : (
+                        <div style={{ overflowX: 'auto', border: '1px solid #e5e7eb', borderRadius: '6px', marginBottom: '12px' }}>
+                            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                                <thead>
+                                    <tr style={{ background: '#f9fafb', textAlign: 'left' }}>
+                                        <th style={{ padding: '6px 8px' }}>Signal</th>
+                                        {purposes.map((purpose) => (
+                                            <th key={purpose.id} style={{ padding: '6px 8px', textAlign: 'center', whiteSpace: 'nowrap' }}>
+                                                {getPurposeName(purpose)}
+                                                {purpose.isEssential && <span style={{ display: 'block', fontSize: '10px', fontWeight: 400, color: '#6b7280' }}>essential</span>}
+                                            </th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {CONSENT_MODE_SIGNALS.map(({ signal, description }) => (
+                                        <tr key={signal}>
+                                            <td style={cellStyle}>
+                                                <div style={{ fontFamily: 'monospace', color: '#111827' }}>{signal}</div>
+                                                <div style={{ fontSize: '11px', color: '#9ca3af' }}>{description}</div>
+                                            </td>
+                                            {purposes.map((purpose) => (
+                                                <td key={purpose.id} style={{ ...cellStyle, textAlign: 'center' }}>
+                                                    <input
+                                                        type="checkbox"
+                                                        aria-label={`${signal} – ${purpose.tag}`}
+                                                        checked={(settings.signalMapping[signal] || []).includes(purpose.tag)}
+                                                        onChange={() => toggleMapping(signal, purpose.tag)}
+                                                    />
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    <div style={{ display: 'flex', gap: '20px', alignItems: 'center', flexWrap: 'wrap', marginBottom: '12px' }}>
+                        <label style={{ ...checkboxLabelStyle, gap: '8px' }}>
+                            Wait for update (ms)
+                            <input
+                                type="number"
+                                min={0}
+                                max={10000}
+                                value={settings.waitForUpdateMs}
+                                onChange={(e) => update({ waitForUpdateMs: parseInt(e.target.value, 10) || 0 })}
+                                style={{ width: '80px', padding: '6px 8px', fontSize: '13px', border: '1px solid #d1d5db', borderRadius: '6px' }}
+                            />
+                        </label>
+                        <label style={checkboxLabelStyle}>
+                            <input type="checkbox" checked={settings.adsDataRedaction} onChange={(e) => update({ adsDataRedaction: e.target.checked })} />
+                            Redact ads data while ad_storage is denied
+                        </label>
+                        <label style={checkboxLabelStyle}>
+                            <input type="checkbox" checked={settings.urlPassthrough} onChange={(e) => update({ urlPassthrough: e.target.checked })} />
+                            Pass ad click information through URLs
+                        </label>
+                    </div>
+                </>
+            )}
+
+            <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                <button
+                    onClick={handleSave}
+                    disabled={saveMutation.isPending}
+                    style={{ padding: '7px 14px', fontSize: '13px', background: '#4f46e5', color: '#fff', border: 'none', borderRadius: '6px', cursor: 'pointer' }}
+                >
+                    {saveMutation.isPending ? 'Saving...' : 'Save'}
+                </button>
+                {saved && <span style={{ fontSize: '12px', color: '#16a34a' }}>Saved to draft</span>}
+            </div>
+            {error && (
+                <div style={{ marginTop: '8px', fontSize: '12px', color: '#dc2626', display: 'flex', alignItems: 'center', gap: '4px' }}>
+                    <AlertCircle style={{ width: '12px', height: '12px' }} /> {error}
+                </div>
+            )}
+        </div>
+    );
+}
+
 function PurposeForm({ websiteId, purpose, onCancel, onSuccess }: { websiteId: string; purpose?: Purpose; onCancel: () => void; onSuccess: () => void; }) {
     const queryClient = useQueryClient();
     const isEditing = !!purpose;
@@ -170,6 +447,7 @@ function PurposeForm({ websiteId, purpose, onCancel, onSuccess }: { websiteId: s
     const [error, setError] = useState('');
     const [selectedLang, setSelectedLang] = useState('en');
     const [translations, setTranslations] = useState<Translation[]>([]);
+    const [changeType, setChangeType] = useState<ConfigChangeType>('MATERIAL');
 
     // Languages fetched but handled via translations
     useQuery({
@@ -220,8 +498,8 @@ function PurposeForm({ websiteId, purpose, onCancel, onSuccess }: { websiteId: s
         mutationFn: async () => {
             const validTranslations = translations.filter(t => t.languageCode === 'en' || (t.name && t.description));
             if (isEditing) {
-                await purposeApi.update(purpose.id, { isEssential });
-                await purposeApi.updateTranslations(purpose.id, validTranslations);
+                await purposeApi.update(purpose.id, { isEssential, changeType });
+                await purposeApi.updateTranslations(purpose.id, validTranslations, changeType);
             } else {
                 await purposeApi.create(websiteId, { isEssential, tag, displayOrder: 0, translations: validTranslations });
             }
@@ -297,7 +575,14 @@ function PurposeForm({ websiteId, purpose, onCancel, onSuccess }: { websiteId: s
                     </label>
                 </div>
             </div>
-            <div style={{ padding: '14px 20px', background: '#f9fafb', borderTop: '1px solid #f3f4f6', display: 'flex', gap: '10px' }}>
+            <div style={{ padding: '10px 20px 0', background: '#f9fafb', borderTop: '1px solid #f3f4f6' }}>
+                {isEditing ? (
+                    <ChangeTypeSelector value={changeType} onChange={setChangeType} />
+                ) : !isEssential && (
+                    <p style={{ fontSize: '11px', color: '#6b7280', margin: 0 }}>Visitors who already consented will be asked again once this purpose is live.</p>
+                )}
+            </div>
+            <div style={{ padding: '14px 20px', background: '#f9fafb', display: 'flex', gap: '10px' }}>
                 {isEditing ? (
                     <button onClick={onCancel} style={{ flex: 1, padding: '8px', fontSize: '13px', background: '#fff', border: '1px solid #d1d5db', borderRadius: '6px', cursor: 'pointer', color: '#374151' }}>Cancel</button>
                 ) : (
@@ -0,0 +1,401 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertCircle, AlertTriangle, CheckCircle, Loader2, Radar, ShieldCheck, Trash2 } from 'lucide-react';
+import { scanApi, trackerApi, purposeApi } from '@/api';
+import { getErrorMessage } from '@/api/client';
+import type { ScanCategory, ScanItemType, ScanStatus, WebsiteScanSummary } from '@/types';
+
+const POLL_INTERVAL_MS = 3000;
+
+const TYPE_LABELS: Record<ScanItemType, string> = {
+    COOKIE: 'Cookie',
+    LOCAL_STORAGE: 'Local storage',
+    SCRIPT: 'Script',
+    IFRAME: 'Iframe',
+    PIXEL: 'Pixel',
+};
+
+const STATUS_COLORS: Record<ScanStatus, { background: string; color: string }> = {
+    PENDING: { background: '#f3f4f6', color: '#374151' },
+    RUNNING: { background: '#eef2ff', color: '#4338ca' },
+    COMPLETED: { background: '#f0fdf4', color: '#166534' },
+    FAILED: { background: '#fef2f2', color: '#991b1b' },
+};
+
+const CATEGORY_COLORS: Record<ScanCategory, string> = {
+    essential: '#166534',
+    functional: '#1d4ed8',
+    analytics: '#92400e',
+    marketing: '#9d174d',
+    unknown: '#6b7280',
+};
+
+function isActive(scan?: WebsiteScanSummary) {
+    return !!scan && (scan.status === 'PENDING' || scan.status === 'RUNNING');
+}
+
+export function ScanTab({ websiteId, domain }: { websiteId: string; domain: string }) {
+    const queryClient = useQueryClient();
+    const [urls, setUrls] = useState('');
+    const [maxPages, setMaxPages] = useState(10);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [typeFilter, setTypeFilter] = useState<ScanItemType | 'ALL'>('ALL');
+    const [error, setError] = useState('');
+
+    const { data: scans = [], isLoading } = useQuery({
+        queryKey: ['scans', websiteId],
+        queryFn: () => scanApi.list(websiteId),
+        refetchInterval: (query) => (query.state.data?.some(isActive) ? POLL_INTERVAL_MS : false),
+    });
+
+    // Show the newest scan until another one is picked
+    useEffect(() => {
+        if (!selectedId && scans.length > 0) {
+            setSelectedId(scans[0].id);
+        }
+    }, [scans, selectedId]);
+
+    const selectedSummary = scans.find((scan) => scan.id === selectedId);
+
+    const { data: scan } = useQuery({
+        queryKey: ['scans', websiteId, selectedId, selectedSummary?.status],
+        queryFn: () => scanApi.get(websiteId, selectedId!),
+        enabled: !!selectedId && selectedSummary?.status === 'COMPLETED',
+    });
+
+    const { data: adopted = [] } = useQuery({
+        queryKey: ['trackers', websiteId],
+        queryFn: () => trackerApi.list(websiteId),
+    });
+
+    const { data: purposes = [] } = useQuery({
+        queryKey: ['purposes', websiteId],
+        queryFn: () => purposeApi.list(websiteId),
+    });
+
+    const adoptedIds = new Set(adopted.map((entry) => entry.trackerId));
+
+    const adoptMutation = useMutation({
+        mutationFn: (trackers: Array<{ trackerId: string; purposeTag?: string }>) => trackerApi.adopt(websiteId, trackers),
+        onSuccess: (updated) => {
+            setError('');
+            queryClient.setQueryData(['trackers', websiteId], updated);
+        },
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const removeMutation = useMutation({
+        mutationFn: (trackerId: string) => trackerApi.remove(websiteId, trackerId),
+        onSuccess: () => {
+            setError('');
+            queryClient.invalidateQueries({ queryKey: ['trackers', websiteId] });
+        },
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const startMutation = useMutation({
+        mutationFn: () => scanApi.start(websiteId, {
+            urls: urls.split('\n').map((url) => url.trim()).filter(Boolean),
+            maxPages,
+        }),
+        onSuccess: (started) => {
+            setError('');
+            setSelectedId(started.id);
+            queryClient.invalidateQueries({ queryKey: ['scans', websiteId] });
+        },
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const items = useMemo(
+        () => (scan?.items || []).filter((item) => typeFilter === 'ALL' || item.type === typeFilter),
+        [scan, typeFilter]
+    );
+
+    // Known trackers found by the scan that are not adopted yet, one per tracker
+    const suggestions = new Map<string, { trackerId: string; purposeTag: string }>();
+    for (const item of scan?.items || []) {
+        if (item.trackerId && item.suggestedPurpose && !adoptedIds.has(item.trackerId) && !suggestions.has(item.trackerId)) {
+            suggestions.set(item.trackerId, { trackerId: item.trackerId, purposeTag: item.suggestedPurpose });
+        }
+    }
+
+    // Non-essential items present before the visitor chose anything
+    const earlyItems = (scan?.items || []).filter(
+        (item) => item.beforeConsent && item.suggestedCategory !== 'essential' && item.suggestedCategory !== 'unknown'
+    );
+
+    if (isLoading) {
+        return <div className="p-8 text-center flex justify-center"><div className="spinner w-8 h-8 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div></div>;
+    }
+
+    const scanRunning = scans.some(isActive);
+    const cardStyle = { background: '#fff', border: '1px solid #e5e7eb', borderRadius: '10px', padding: '16px', marginBottom: '20px' };
+    const sectionTitleStyle = { fontSize: '14px', fontWeight: 600, color: '#111827', margin: '0 0 8px' };
+    const labelStyle = { fontSize: '12px', color: '#374151', display: 'flex', alignItems: 'center', gap: '6px' };
+    const cellStyle = { padding: '6px 10px', color: '#374151', verticalAlign: 'top' as const };
+    const smallButtonStyle = { display: 'inline-flex', alignItems: 'center', gap: '4px', marginTop: '4px', padding: '2px 8px', fontSize: '11px', fontWeight: 600, background: '#eef2ff', color: '#4338ca', border: '1px solid #c7d2fe', borderRadius: '6px', cursor: 'pointer' };
+
+    return (
+        <div style={{ paddingBottom: '40px' }}>
+            {/* Header */}
+            <div style={{ marginBottom: '20px' }}>
+                <h2 style={{ fontSize: '18px', fontWeight: 700, color: '#111827', margin: 0 }}>Cookie &amp; Tracker Scan</h2>
+                <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>
+                    Loads your pages in a headless browser, first without consent and then after clicking Accept All, and lists the
+                    cookies, local storage keys, scripts, iframes and pixels it sees with a suggested purpose for each.
+                </p>
+            </div>
+
+            {error && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#fef2f2', border: '1px solid #fecaca', color: '#991b1b', fontSize: '13px', padding: '10px 12px', borderRadius: '8px', marginBottom: '16px' }}>
+                    <AlertCircle size={16} /> {error}
+                </div>
+            )}
+
+            {/* New scan */}
+            <div style={cardStyle}>
+                <h3 style={sectionTitleStyle}>New scan</h3>
+                <label style={{ ...labelStyle, display: 'block', marginBottom: '10px' }}>
+                    Start URLs, one per line (leave empty to start at https://{domain}/)
+                    <textarea
+                        value={urls}
+                        onChange={(e) => setUrls(e.target.value)}
+                        rows={3}
+                        placeholder={`https://${domain}/\nhttps://${domain}/checkout`}
+                        style={{ display: 'block', width: '100%', marginTop: '4px', padding: '6px 8px', fontSize: '13px', border: '1px solid #d1d5db', borderRadius: '6px', fontFamily: 'inherit' }}
+                    />
+                </label>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
+                    <label style={labelStyle}>
+                        Pages to visit
+                        <input
+                            type="number"
+                            min={1}
+                            max={50}
+                            value={maxPages}
+                            onChange={(e) => setMaxPages(Math.max(1, Math.min(50, parseInt(e.target.value, 10) || 1)))}
+                            style={{ width: '64px', padding: '6px 8px', fontSize: '13px', border: '1px solid #d1d5db', borderRadius: '6px' }}
+                        />
+                    </label>
+                    <button
+                        onClick={() => startMutation.mutate()}
+                        disabled={startMutation.isPending || scanRunning}
+                        style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '8px 16px', fontSize: '13px', fontWeight: 600, background: '#4f46e5', color: '#fff', border: 'none', borderRadius: '6px', cursor: 'pointer', opacity: scanRunning ? 0.6 : 1 }}
+                    >
+                        {startMutation.isPending || scanRunning ? <Loader2 size={14} className="animate-spin" /> : <Radar size={14} />}
+                        {scanRunning ? 'Scan in progress…' : 'Run scan'}
+                    </button>
+                </div>
+            </div>
+
+            {/* History */}
+            <div style={cardStyle}>
+                <h3 style={sectionTitleStyle}>History</h3>
+                {scans.length === 0 ? (
+                    <p style={{ fontSize: '12px', color: '#9ca3af', margin: 0 }}>No scans yet.</p>
+                ) : (
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                        <thead>
+                            <tr style={{ background: '#f9fafb', textAlign: 'left' }}>
+                                <th style={{ padding: '8px 10px' }}>Started</th>
+                                <th style={{ padding: '8px 10px' }}>Status</th>
+                                <th style={{ padding: '8px 10px' }}>Pages</th>
+                                <th style={{ padding: '8px 10px' }}>Items</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {scans.map((entry) => (
+                                <tr
+                                    key={entry.id}
+                                    onClick={() => setSelectedId(entry.id)}
+                                    style={{ borderTop: '1px solid #f3f4f6', cursor: 'pointer', background: entry.id === selectedId ? '#eef2ff' : undefined }}
+                                >
+                                    <td style={cellStyle}>{new Date(entry.createdAt).toLocaleString()}</td>
+                                    <td style={cellStyle}>
+                                        <span style={{ ...STATUS_COLORS[entry.status], fontSize: '11px', fontWeight: 600, padding: '2px 8px', borderRadius: '999px' }}>
+                                            {entry.status}
+                                        </span>
+                                        {entry.error && <span style={{ marginLeft: '8px', color: '#991b1b' }}>{entry.error}</span>}
+                                    </td>
+                                    <td style={cellStyle}>{entry.status === 'COMPLETED' ? entry.pageCount : '—'}</td>
+                                    <td style={cellStyle}>{entry.status === 'COMPLETED' ? entry.itemCount : '—'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {/* Adopted known trackers */}
+            <div style={cardStyle}>
+                <h3 style={sectionTitleStyle}>Blocked known trackers</h3>
+                <p style={{ fontSize: '12px', color: '#6b7280', margin: '0 0 10px' }}>
+                    Scripts from these trackers are held until the visitor consents to the purpose, even when the tag on your site has no
+                    data-purpose attribute. Changes take effect when you publish.
+                </p>
+                {adopted.length === 0 ? (
+                    <p style={{ fontSize: '12px', color: '#9ca3af', margin: 0 }}>None yet. Adopt the known trackers a scan finds below.</p>
+                ) : (
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                        <thead>
+                            <tr style={{ background: '#f9fafb', textAlign: 'left' }}>
+                                <th style={{ padding: '8px 10px' }}>Tracker</th>
+                                <th style={{ padding: '8px 10px' }}>Matches</th>
+                                <th style={{ padding: '8px 10px' }}>Purpose</th>
+                                <th style={{ padding: '8px 10px' }}></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {adopted.map((entry) => (
+                                <tr key={entry.id} style={{ borderTop: '1px solid #f3f4f6' }}>
+                                    <td style={cellStyle}>
+                                        <div style={{ color: '#111827', fontWeight: 600 }}>{entry.tracker.name}</div>
+                                        <span style={{ color: CATEGORY_COLORS[entry.tracker.category] }}>{entry.tracker.category}</span>
+                                        {!entry.tracker.isActive && <span style={{ marginLeft: '6px', color: '#991b1b' }}>retired from the catalogue</span>}
+                                    </td>
+                                    <td style={{ ...cellStyle, wordBreak: 'break-all' }}>
+                                        {[...entry.tracker.domains, ...entry.tracker.scriptPatterns].join(', ') || '—'}
+                                    </td>
+                                    <td style={cellStyle}>
+                                        <select
+                                            value={entry.purposeTag}
+                                            disabled={adoptMutation.isPending}
+                                            onChange={(e) => adoptMutation.mutate([{ trackerId: entry.trackerId, purposeTag: e.target.value }])}
+                                            style={{ padding: '4px 6px', fontSize: '12px', border: '1px solid #d1d5db', borderRadius: '6px' }}
+                                        >
+                                            {purposes.filter((p) => p.status === 'ACTIVE' || p.tag === entry.purposeTag).map((p) => (
+                                                <option key={p.id} value={p.tag}>{p.tag}</option>
+                                            ))}
+                                        </select>
+                                    </td>
+                                    <td style={{ ...cellStyle, textAlign: 'right' }}>
+                                        <button
+                                            onClick={() => removeMutation.mutate(entry.trackerId)}
+                                            disabled={removeMutation.isPending}
+                                            title="Stop blocking"
+                                            style={{ background: 'none', border: 'none', color: '#991b1b', cursor: 'pointer' }}
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {/* Results */}
+            {scan && (
+                <div style={cardStyle}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px', gap: '12px', flexWrap: 'wrap' }}>
+                        <h3 style={{ ...sectionTitleStyle, margin: 0 }}>
+                            Results <span style={{ fontWeight: 400, color: '#6b7280' }}>({scan.pages.length} pages, {scan.items.length} items)</span>
+                        </h3>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                            {suggestions.size > 0 && (
+                                <button
+                                    onClick={() => adoptMutation.mutate(Array.from(suggestions.values()))}
+                                    disabled={adoptMutation.isPending}
+                                    style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '6px 12px', fontSize: '12px', fontWeight: 600, background: '#4f46e5', color: '#fff', border: 'none', borderRadius: '6px', cursor: 'pointer' }}
+                                >
+                                    <ShieldCheck size={14} /> Adopt all suggestions ({suggestions.size})
+                                </button>
+                            )}
+                            <select
+                                value={typeFilter}
+                                onChange={(e) => setTypeFilter(e.target.value as ScanItemType | 'ALL')}
+                                style={{ padding: '6px 8px', fontSize: '13px', border: '1px solid #d1d5db', borderRadius: '6px' }}
+                            >
+                                <option value="ALL">All types</option>
+                                {(Object.keys(TYPE_LABELS) as ScanItemType[]).map((type) => (
+                                    <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    {earlyItems.length > 0 ? (
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#fffbeb', border: '1px solid #fde68a', color: '#92400e', fontSize: '12px', padding: '8px 12px', borderRadius: '8px', marginBottom: '12px' }}>
+                            <AlertTriangle size={14} /> {earlyItems.length} non-essential item(s) were present before consent. Block them until the visitor accepts.
+                        </div>
+                    ) : (
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#f0fdf4', border: '1px solid #bbf7d0', color: '#166534', fontSize: '12px', padding: '8px 12px', borderRadius: '8px', marginBottom: '12px' }}>
+                            <CheckCircle size={14} /> No known non-essential trackers were present before consent.
+                        </div>
+                    )}
+
+                    {scan.pages.some((page) => page.error || !page.acceptClicked) && (
+                        <details style={{ fontSize: '12px', color: '#374151', marginBottom: '12px' }}>
+                            <summary style={{ cursor: 'pointer' }}>Pages</summary>
+                            <ul style={{ margin: '6px 0 0', paddingLeft: '18px' }}>
+                                {scan.pages.map((page) => (
+                                    <li key={page.url}>
+                                        {page.url}{' '}
+                                        <span style={{ color: page.error ? '#991b1b' : '#6b7280' }}>
+                                            {page.error || `${page.status ?? ''}${page.acceptClicked ? '' : ', no Accept All button found'}`}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </details>
+                    )}
+
+                    <div style={{ border: '1px solid #e5e7eb', borderRadius: '8px', maxHeight: '480px', overflowY: 'auto' }}>
+                        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                            <thead>
+                                <tr style={{ background: '#f9fafb', textAlign: 'left', position: 'sticky', top: 0 }}>
+                                    <th style={{ padding: '8px 10px' }}>Type</th>
+                                    <th style={{ padding: '8px 10px' }}>Name</th>
+                                    <th style={{ padding: '8px 10px' }}>Domain</th>
+                                    <th style={{ padding: '8px 10px' }}>Seen</th>
+                                    <th style={{ padding: '8px 10px' }}>Suggested purpose</th>
+                                    <th style={{ padding: '8px 10px' }}>Pages</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {items.map((item) => (
+                                    <tr key={`${item.type}|${item.domain}|${item.name}`} style={{ borderTop: '1px solid #f3f4f6' }}>
+                                        <td style={cellStyle}>{TYPE_LABELS[item.type]}</td>
+                                        <td style={{ ...cellStyle, color: '#111827', wordBreak: 'break-all' }}>{item.name}</td>
+                                        <td style={cellStyle}>
+                                            {item.domain}
+                                            <div style={{ color: '#9ca3af' }}>{item.firstParty ? 'first party' : 'third party'}</div>
+                                        </td>
+                                        <td style={cellStyle}>
+                                            {item.beforeConsent && <div style={{ color: item.suggestedCategory === 'essential' ? '#374151' : '#b45309' }}>Before consent</div>}
+                                            {item.afterAccept && <div>After Accept All</div>}
+                                        </td>
+                                        <td style={cellStyle} title={item.reason}>
+                                            <span style={{ color: CATEGORY_COLORS[item.suggestedCategory], fontWeight: 600 }}>{item.suggestedCategory}</span>
+                                            {item.suggestedPurpose && <div style={{ color: '#6b7280' }}>→ {item.suggestedPurpose}</div>}
+                                            {item.reason && <div style={{ color: '#9ca3af' }}>{item.reason}</div>}
+                                            {item.trackerId && adoptedIds.has(item.trackerId) && (
+                                                <div style={{ color: '#166534' }}>Blocked as known tracker</div>
+                                            )}
+                                            {item.trackerId && !adoptedIds.has(item.trackerId) && item.suggestedPurpose && (
+                                                <button
+                                                    onClick={() => adoptMutation.mutate([{ trackerId: item.trackerId!, purposeTag: item.suggestedPurpose! }])}
+                                                    disabled={adoptMutation.isPending}
+                                                    style={smallButtonStyle}
+                                                >
+                                                    Adopt
+                                                </button>
+                                            )}
+                                        </td>
+                                        <td style={cellStyle} title={item.pages.join('\n')}>{item.pages.length}</td>
+                                    </tr>
+                                ))}
+                                {items.length === 0 && (
+                                    <tr>
+                                        <td colSpan={6} style={{ padding: '16px', textAlign: 'center', color: '#6b7280' }}>Nothing observed.</td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
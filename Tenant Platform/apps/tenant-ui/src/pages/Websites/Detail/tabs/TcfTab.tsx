@@ -0,0 +1,322 @@
+import { useState, useEffect, useMemo, useRef, type ChangeEvent } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FileUp, AlertCircle, CheckCircle, Loader2, Search } from 'lucide-react';
+import { tcfApi, purposeApi } from '@/api';
+import { getErrorMessage } from '@/api/client';
+import type { Purpose, TcfSettings, TcfPurposeMapping } from '@/types';
+
+type TcfDraft = Omit<TcfSettings, 'vendorList'>;
+
+const EMPTY_MAPPING: TcfPurposeMapping = { purposes: [], specialFeatures: [] };
+
+function toggleId(ids: number[], id: number): number[] {
+    return ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id].sort((a, b) => a - b);
+}
+
+export function TcfTab({ websiteId, onSave }: { websiteId: string; onSave?: () => void }) {
+    const queryClient = useQueryClient();
+    const fileInput = useRef<HTMLInputElement>(null);
+    const [draft, setDraft] = useState<TcfDraft | null>(null);
+    const [search, setSearch] = useState('');
+    const [selectedOnly, setSelectedOnly] = useState(false);
+    const [message, setMessage] = useState('');
+    const [error, setError] = useState('');
+
+    const { data: settings, isLoading } = useQuery({
+        queryKey: ['tcf', websiteId],
+        queryFn: () => tcfApi.get(websiteId),
+    });
+
+    const { data: vendorList } = useQuery({
+        queryKey: ['tcf', websiteId, 'vendor-list'],
+        queryFn: () => tcfApi.getVendorList(websiteId),
+        enabled: !!settings?.vendorList,
+    });
+
+    const { data: purposes = [] } = useQuery({
+        queryKey: ['purposes', websiteId],
+        queryFn: () => purposeApi.list(websiteId),
+    });
+
+    useEffect(() => {
+        if (settings) {
+            const { vendorList: _vendorList, ...rest } = settings;
+            setDraft(rest);
+        }
+    }, [settings]);
+
+    const showMessage = (text: string) => {
+        setError('');
+        setMessage(text);
+        setTimeout(() => setMessage(''), 3000);
+    };
+
+    const importMutation = useMutation({
+        mutationFn: (file: unknown) => tcfApi.importVendorList(websiteId, file),
+        onSuccess: (result) => {
+            queryClient.invalidateQueries({ queryKey: ['tcf', websiteId] });
+            showMessage(`Vendor list v${result.vendorList?.vendorListVersion} imported. Publish to use it on your site.`);
+            onSave?.();
+        },
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const saveMutation = useMutation({
+        mutationFn: (value: TcfDraft) => tcfApi.update(websiteId, value),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['tcf', websiteId] });
+            showMessage('Saved to draft. Publish to make the changes live.');
+            onSave?.();
+        },
+        onError: (err) => setError(getErrorMessage(err)),
+    });
+
+    const filteredVendors = useMemo(() => {
+        if (!vendorList || !draft) return [];
+        const term = search.trim().toLowerCase();
+        return vendorList.vendors.filter((vendor) =>
+            (!selectedOnly || draft.selectedVendorIds.includes(vendor.id)) &&
+            (!term || vendor.name.toLowerCase().includes(term) || String(vendor.id) === term)
+        );
+    }, [vendorList, draft, search, selectedOnly]);
+
+    const handleFile = (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        file.text()
+            .then((text) => importMutation.mutate(JSON.parse(text)))
+            .catch(() => setError('The file is not valid JSON. Download vendor-list.json from IAB Europe.'));
+    };
+
+    if (isLoading || !draft) {
+        return <div className="p-8 text-center flex justify-center"><div className="spinner w-8 h-8 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div></div>;
+    }
+
+    const update = (changes: Partial<TcfDraft>) => {
+        setDraft({ ...draft, ...changes });
+        setError('');
+    };
+
+    const updateMapping = (tag: string, mapping: TcfPurposeMapping) => {
+        update({ purposeMapping: { ...draft.purposeMapping, [tag]: mapping } });
+    };
+
+    const handleSave = () => {
+        // Drop mappings of purposes that have since been deleted
+        const tags = new Set(purposes.map((p) => p.tag));
+        const purposeMapping = Object.fromEntries(
+            Object.entries(draft.purposeMapping).filter(([tag]) => tags.has(tag))
+        );
+        saveMutation.mutate({ ...draft, purposeMapping });
+    };
+
+    const setVisibleSelected = (selected: boolean) => {
+        const visible = new Set(filteredVendors.map((vendor) => vendor.id));
+        const others = draft.selectedVendorIds.filter((id) => !visible.has(id));
+        update({ selectedVendorIds: selected ? [...others, ...visible].sort((a, b) => a - b) : others });
+    };
+
+    const getPurposeName = (purpose: Purpose) =>
+        purpose.translations?.find((t) => t.languageCode === 'en')?.name || purpose.tag;
+
+    const cardStyle = { background: '#fff', border: '1px solid #e5e7eb', borderRadius: '10px', padding: '16px', marginBottom: '20px' };
+    const sectionTitleStyle = { fontSize: '14px', fontWeight: 600, color: '#111827', margin: '0 0 8px' };
+    const labelStyle = { fontSize: '12px', color: '#374151', display: 'flex', alignItems: 'center', gap: '6px' };
+
+    return (
+        <div style={{ paddingBottom: '40px' }}>
+            {/* Header */}
+            <div style={{ marginBottom: '20px' }}>
+                <h2 style={{ fontSize: '18px', fontWeight: 700, color: '#111827', margin: 0 }}>IAB TCF v2.2</h2>
+                <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>
+                    For sites with EU traffic that work with IAB vendors. The banner exposes the <code>__tcfapi</code> and <code>__gpp</code> APIs
+                    and encodes each visitor's choices as a TC string. Changes go live when you publish.
+                </p>
+            </div>
+
+            {error && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#fef2f2', border: '1px solid #fecaca', color: '#991b1b', fontSize: '13px', padding: '10px 12px', borderRadius: '8px', marginBottom: '16px' }}>
+                    <AlertCircle size={16} /> {error}
+                </div>
+            )}
+            {message && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', background: '#f0fdf4', border: '1px solid #bbf7d0', color: '#166534', fontSize: '13px', padding: '10px 12px', borderRadius: '8px', marginBottom: '16px' }}>
+                    <CheckCircle size={16} /> {message}
+                </div>
+            )}
+
+            {/* Global Vendor List */}
+            <div style={cardStyle}>
+                <h3 style={sectionTitleStyle}>Global Vendor List</h3>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '12px' }}>
+                    <p style={{ fontSize: '13px', color: '#374151', margin: 0 }}>
+                        {settings?.vendorList
+                            ? <>Version <strong>{settings.vendorList.vendorListVersion}</strong> (policy version {settings.vendorList.tcfPolicyVersion}), imported {new Date(settings.vendorList.importedAt).toLocaleString()}.</>
+                            : 'No vendor list imported yet. Download vendor-list.json from IAB Europe and import it here.'}
+                    </p>
+                    <input ref={fileInput} type="file" accept=".json,application/json" onChange={handleFile} style={{ display: 'none' }} />
+                    <button
+                        onClick={() => fileInput.current?.click()}
+                        disabled={importMutation.isPending}
+                        style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '8px 14px', fontSize: '13px', fontWeight: 600, background: '#fff', color: '#374151', border: '1px solid #d1d5db', borderRadius: '6px', cursor: 'pointer', flexShrink: 0 }}
+                    >
+                        {importMutation.isPending ? <Loader2 size={14} className="animate-spin" /> : <FileUp size={14} />}
+                        {settings?.vendorList ? 'Import newer list' : 'Import vendor list'}
+                    </button>
+                </div>
+            </div>
+
+            {/* Settings */}
+            <div style={cardStyle}>
+                <div style={{ display: 'flex', gap: '24px', alignItems: 'center', flexWrap: 'wrap' }}>
+                    <label style={labelStyle}>
+                        <input
+                            type="checkbox"
+                            checked={draft.enabled}
+                            disabled={!settings?.vendorList}
+                            onChange={(e) => update({ enabled: e.target.checked })}
+                        />
+                        Enable TCF mode
+                    </label>
+                    <label style={labelStyle}>
+                        Publisher country
+                        <input
+                            type="text"
+                            value={draft.publisherCountryCode}
+                            maxLength={2}
+                            onChange={(e) => update({ publisherCountryCode: e.target.value.toUpperCase() })}
+                            style={{ width: '48px', padding: '6px 8px', fontSize: '13px', border: '1px solid #d1d5db', borderRadius: '6px', textTransform: 'uppercase' }}
+                        />
+                        <span style={{ color: '#9ca3af' }}>AA if unknown</span>
+                    </label>
+                </div>
+            </div>
+
+            {/* Purpose mapping */}
+            {vendorList && (
+                <div style={cardStyle}>
+                    <h3 style={sectionTitleStyle}>IAB Purposes</h3>
+                    <p style={{ fontSize: '12px', color: '#6b7280', margin: '0 0 12px' }}>
+                        Choose the IAB purposes and special features each of your purposes covers. Granting your purpose grants them.
+                    </p>
+                    {purposes.length === 0 ? (
+                        <p style={{ fontSize: '12px', color: '#9ca3af', margin: 0 }}>Add purposes on the Consent tab first.</p>
+                    ) : purposes.map((purpose) => {
+                        const mapping = draft.purposeMapping[purpose.tag] || EMPTY_MAPPING;
+                        return (
+                            <div key={purpose.id} style={{ borderTop: '1px solid #f3f4f6', padding: '10px 0' }}>
+                                <div style={{ fontSize: '13px', fontWeight: 600, color: '#111827', marginBottom: '6px' }}>
+                                    {getPurposeName(purpose)}
+                                    {purpose.isEssential && <span style={{ marginLeft: '6px', fontSize: '11px', fontWeight: 400, color: '#6b7280' }}>essential, always granted</span>}
+                                </div>
+                                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px 14px' }}>
+                                    {vendorList.purposes.map((iab) => (
+                                        <label key={`p${iab.id}`} style={labelStyle} title={iab.description}>
+                                            <input
+                                                type="checkbox"
+                                                checked={mapping.purposes.includes(iab.id)}
+                                                onChange={() => updateMapping(purpose.tag, { ...mapping, purposes: toggleId(mapping.purposes, iab.id) })}
+                                            />
+                                            {iab.id}. {iab.name}
+                                        </label>
+                                    ))}
+                                    {vendorList.specialFeatures.map((feature) => (
+                                        <label key={`sf${feature.id}`} style={{ ...labelStyle, color: '#92400e' }} title={feature.description}>
+                                            <input
+                                                type="checkbox"
+                                                checked={mapping.specialFeatures.includes(feature.id)}
+                                                onChange={() => updateMapping(purpose.tag, { ...mapping, specialFeatures: toggleId(mapping.specialFeatures, feature.id) })}
+                                            />
+                                            Special feature {feature.id}. {feature.name}
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {/* Vendors */}
+            {vendorList && (
+                <div style={cardStyle}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px', gap: '12px', flexWrap: 'wrap' }}>
+                        <h3 style={{ ...sectionTitleStyle, margin: 0 }}>
+                            Vendors <span style={{ fontWeight: 400, color: '#6b7280' }}>({draft.selectedVendorIds.length} of {vendorList.vendors.length} selected)</span>
+                        </h3>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                            <div style={{ position: 'relative' }}>
+                                <Search size={14} style={{ position: 'absolute', left: '8px', top: '9px', color: '#9ca3af' }} />
+                                <input
+                                    type="text"
+                                    value={search}
+                                    onChange={(e) => setSearch(e.target.value)}
+                                    placeholder="Search by name or ID"
+                                    style={{ padding: '6px 8px 6px 28px', fontSize: '13px', border: '1px solid #d1d5db', borderRadius: '6px', width: '200px' }}
+                                />
+                            </div>
+                            <label style={labelStyle}>
+                                <input type="checkbox" checked={selectedOnly} onChange={(e) => setSelectedOnly(e.target.checked)} />
+                                Selected only
+                            </label>
+                            <button onClick={() => setVisibleSelected(true)} style={{ fontSize: '12px', color: '#4f46e5', background: 'none', border: 'none', cursor: 'pointer' }}>Select shown</button>
+                            <button onClick={() => setVisibleSelected(false)} style={{ fontSize: '12px', color: '#6b7280', background: 'none', border: 'none', cursor: 'pointer' }}>Clear shown</button>
+                        </div>
+                    </div>
+                    <div style={{ border: '1px solid #e5e7eb', borderRadius: '8px', maxHeight: '420px', overflowY: 'auto' }}>
+                        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                            <thead>
+                                <tr style={{ background: '#f9fafb', textAlign: 'left', position: 'sticky', top: 0 }}>
+                                    <th style={{ padding: '8px 10px', width: '32px' }}></th>
+                                    <th style={{ padding: '8px 10px' }}>Vendor</th>
+                                    <th style={{ padding: '8px 10px' }}>Consent purposes</th>
+                                    <th style={{ padding: '8px 10px' }}>Legitimate interest</th>
+                                    <th style={{ padding: '8px 10px' }}>Special features</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {filteredVendors.map((vendor) => (
+                                    <tr key={vendor.id} style={{ borderTop: '1px solid #f3f4f6' }}>
+                                        <td style={{ padding: '6px 10px' }}>
+                                            <input
+                                                type="checkbox"
+                                                aria-label={`Select ${vendor.name}`}
+                                                checked={draft.selectedVendorIds.includes(vendor.id)}
+                                                onChange={() => update({ selectedVendorIds: toggleId(draft.selectedVendorIds, vendor.id) })}
+                                            />
+                                        </td>
+                                        <td style={{ padding: '6px 10px', color: '#111827' }}>
+                                            {vendor.name} <span style={{ color: '#9ca3af' }}>#{vendor.id}</span>
+                                            {vendor.policyUrl && (
+                                                <a href={vendor.policyUrl} target="_blank" rel="noopener noreferrer" style={{ marginLeft: '6px', color: '#4f46e5', textDecoration: 'none' }}>policy</a>
+                                            )}
+                                        </td>
+                                        <td style={{ padding: '6px 10px', color: '#374151' }}>{vendor.purposes.join(', ') || '—'}</td>
+                                        <td style={{ padding: '6px 10px', color: '#374151' }}>{vendor.legIntPurposes.join(', ') || '—'}</td>
+                                        <td style={{ padding: '6px 10px', color: '#374151' }}>{vendor.specialFeatures.join(', ') || '—'}</td>
+                                    </tr>
+                                ))}
+                                {filteredVendors.length === 0 && (
+                                    <tr>
+                                        <td colSpan={5} style={{ padding: '16px', textAlign: 'center', color: '#6b7280' }}>No vendors match.</td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            <button
+                onClick={handleSave}
+                disabled={saveMutation.isPending}
+                style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '8px 16px', fontSize: '13px', fontWeight: 600, background: '#4f46e5', color: '#fff', border: 'none', borderRadius: '6px', cursor: 'pointer' }}
+            >
+                {saveMutation.isPending && <Loader2 size={14} className="animate-spin" />}
+                Save TCF Settings
+            </button>
+        </div>
+    );
+}
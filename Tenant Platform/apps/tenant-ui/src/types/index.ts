@@ -50,6 +50,69 @@ export interface CanActivateResult {
     reasons: string[];
 }
 
+// Consent lifetime
+export interface ConsentLifetimeSettings {
+    consentLifetimeDays: number | null;
+    rejectLifetimeDays: number | null;
+}
+
+export interface ConsentLifetime {
+    settings: ConsentLifetimeSettings;
+    effective: {
+        consentLifetimeDays: number;
+        rejectLifetimeDays: number;
+    };
+    limits: {
+        rulesVersion?: number;
+        defaultDays: number;
+        maxDays: number;
+        minRejectDays: number;
+    };
+}
+
+// Origin allow-list
+export interface OriginSettings {
+    allowedDomains: string[];
+    testDomains: string[];
+}
+
+export interface WebsiteOrigins {
+    domain: string;
+    settings: OriginSettings;
+    // Whether calls from other hosts are refused, only listed, or let through
+    enforcement: 'enforce' | 'report' | 'off';
+}
+
+export interface SecurityEvent {
+    id: string;
+    websiteId: string;
+    eventType: 'ORIGIN_REJECTED';
+    origin: string;
+    endpoint: string;
+    day: string;
+    attempts: number;
+    firstSeenAt: string;
+    lastSeenAt: string;
+}
+
+// Google Consent Mode
+export type ConsentModeSignal =
+    | 'ad_storage'
+    | 'analytics_storage'
+    | 'ad_user_data'
+    | 'ad_personalization'
+    | 'functionality_storage'
+    | 'personalization_storage'
+    | 'security_storage';
+
+export interface ConsentModeSettings {
+    enabled: boolean;
+    signalMapping: Partial<Record<ConsentModeSignal, string[]>>; // signal -> purpose tags
+    waitForUpdateMs: number;
+    adsDataRedaction: boolean;
+    urlPassthrough: boolean;
+}
+
 // Notice
 export interface NoticeTranslation {
     id: string;
@@ -102,6 +165,257 @@ export interface Purpose {
     translations: PurposeTranslation[];
 }
 
+// Config versions
+export type ConfigChangeType = 'MINOR' | 'MATERIAL';
+
+export interface ConfigVersion {
+    id: string;
+    websiteId: string;
+    version: number;
+    contentHash: string;
+    changeType: ConfigChangeType;
+    addedPurposes: string[];
+    createdBy?: string;
+    createdByEmail?: string;
+    createdAt: string;
+}
+
+// Publishing
+export interface PublishedConfig {
+    id: string;
+    websiteId: string;
+    version: number;
+    contentHash: string;
+    configVersion?: number;
+    rolledBackFrom?: number;
+    note?: string;
+    publishedBy?: string;
+    publishedByEmail?: string;
+    publishedAt: string;
+}
+
+export interface PublishStatus {
+    live: PublishedConfig | null;
+    draftHash: string | null;
+    hasUnpublishedChanges: boolean;
+}
+
+export type ConfigDiffChange = 'ADDED' | 'REMOVED' | 'CHANGED';
+
+export interface ConfigDiffEntry {
+    path: string;
+    change: ConfigDiffChange;
+    live?: unknown;
+    draft?: unknown;
+}
+
+export interface ConfigDiff {
+    liveVersion: number | null;
+    changes: ConfigDiffEntry[];
+}
+
+// IAB TCF
+export interface TcfPurposeMapping {
+    purposes: number[];
+    specialFeatures: number[];
+}
+
+export interface TcfSettings {
+    enabled: boolean;
+    publisherCountryCode: string;
+    selectedVendorIds: number[];
+    purposeMapping: Record<string, TcfPurposeMapping>; // purpose tag -> IAB ids
+    vendorList: {
+        vendorListVersion: number;
+        tcfPolicyVersion: number;
+        importedAt: string;
+    } | null;
+}
+
+export interface TcfVendorListEntry {
+    id: number;
+    name: string;
+    description: string;
+}
+
+export interface TcfVendor {
+    id: number;
+    name: string;
+    purposes: number[];
+    legIntPurposes: number[];
+    flexiblePurposes: number[];
+    specialPurposes: number[];
+    features: number[];
+    specialFeatures: number[];
+    policyUrl?: string;
+}
+
+export interface TcfVendorList {
+    vendorListVersion: number;
+    tcfPolicyVersion: number;
+    lastUpdated: string;
+    purposes: TcfVendorListEntry[];
+    specialFeatures: TcfVendorListEntry[];
+    vendors: TcfVendor[];
+}
+
+// Known trackers
+export type TrackerCategory = 'essential' | 'functional' | 'analytics' | 'marketing';
+
+export interface TrackerCatalogueEntry {
+    id: string;
+    name: string;
+    vendor: string | null;
+    category: TrackerCategory;
+    domains: string[];
+    cookiePatterns: string[];
+    scriptPatterns: string[];
+    description: string | null;
+    isActive: boolean;
+}
+
+export interface WebsiteTracker {
+    id: string;
+    websiteId: string;
+    trackerId: string;
+    purposeId: string;
+    purposeTag: string;
+    tracker: TrackerCatalogueEntry;
+    createdBy: string | null;
+    createdAt: string;
+}
+
+// Auto-blocking rules: DOMAIN also matches subdomains, URL patterns omit the scheme and use * as a wildcard
+export type BlockingRuleMatchType = 'DOMAIN' | 'URL';
+
+export interface BlockingRule {
+    id: string;
+    websiteId: string;
+    purposeId: string;
+    purposeTag: string;
+    matchType: BlockingRuleMatchType;
+    pattern: string;
+    createdBy: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface BlockingRuleInput {
+    purposeTag: string;
+    matchType: BlockingRuleMatchType;
+    pattern: string;
+}
+
+// Declared cookies and localStorage keys; names may contain * wildcards
+export type CookieStorageType = 'COOKIE' | 'LOCAL_STORAGE';
+
+export interface CookieDeclaration {
+    id: string;
+    websiteId: string;
+    purposeId: string;
+    purposeTag: string;
+    storageType: CookieStorageType;
+    name: string;
+    provider: string | null;
+    duration: string | null;
+    description: string | null;
+    createdBy: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface CookieDeclarationInput {
+    purposeTag: string;
+    storageType: CookieStorageType;
+    name: string;
+    provider: string | null;
+    duration: string | null;
+    description: string | null;
+}
+
+// Consent analytics
+export interface ConsentAnalyticsCounts {
+    impressions: number;
+    decisions: number; // Accept all, reject all and custom
+    acceptAll: number;
+    rejectAll: number;
+    custom: number;
+    withdrawals: number;
+}
+
+// Fractions between 0 and 1, null when there is nothing to divide by
+export interface ConsentAnalyticsRates {
+    decisionRate: number | null;
+    acceptAllRate: number | null;
+    rejectAllRate: number | null;
+    customRate: number | null;
+}
+
+export interface ConsentAnalyticsSlice extends ConsentAnalyticsCounts, ConsentAnalyticsRates {
+    key: string; // Language code or device type; 'other' gathers the small ones
+}
+
+export interface ConsentAnalyticsSummary {
+    websiteId: string;
+    from: string;
+    to: string;
+    totals: ConsentAnalyticsCounts & ConsentAnalyticsRates;
+    purposes: Array<{ purpose: string; granted: number; denied: number; optInRate: number | null }>;
+    languages: ConsentAnalyticsSlice[];
+    devices: ConsentAnalyticsSlice[];
+    trend: Array<ConsentAnalyticsCounts & { day: string }>;
+    interactions: Record<LoaderEventType, number>;
+}
+
+// Banner lifecycle events from loader telemetry
+export type LoaderEventType = 'BANNER_SHOWN' | 'SETTINGS_OPENED' | 'LANGUAGE_SWITCHED' | 'RIGHTS_FORM_OPENED' | 'DISMISSED' | 'DECISION';
+
+// Cookie and tracker scans
+export type ScanStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+export type ScanItemType = 'COOKIE' | 'LOCAL_STORAGE' | 'SCRIPT' | 'IFRAME' | 'PIXEL';
+export type ScanCategory = TrackerCategory | 'unknown';
+
+export interface ScanPage {
+    url: string;
+    status: number | null;
+    acceptClicked: boolean;
+    error?: string;
+}
+
+export interface ScanItem {
+    type: ScanItemType;
+    name: string;
+    domain: string;
+    firstParty: boolean;
+    beforeConsent: boolean;
+    afterAccept: boolean;
+    pages: string[];
+    suggestedCategory: ScanCategory;
+    suggestedPurpose: string | null; // purpose tag
+    trackerId?: string | null; // matched known tracker; missing on scans run before the catalogue
+    reason?: string;
+}
+
+export interface WebsiteScanSummary {
+    id: string;
+    websiteId: string;
+    status: ScanStatus;
+    startUrls: string[];
+    maxPages: number;
+    pageCount: number;
+    itemCount: number;
+    error: string | null;
+    requestedBy: string | null;
+    startedAt: string | null;
+    completedAt: string | null;
+    createdAt: string;
+}
+
+export interface WebsiteScan extends WebsiteScanSummary {
+    pages: ScanPage[];
+    items: ScanItem[];
+}
+
 // Banner
 export type BannerPosition = 'bottom' | 'top' | 'center';
 export type BannerLayout = 'banner' | 'modal' | 'popup';
@@ -123,6 +437,53 @@ export interface BannerCustomization {
     focusOutlineColor?: string;
 }
 
+// Banner A/B tests: variants override some of the default banner's styles and text
+export type BannerVariantStyles = Partial<Omit<BannerCustomization, 'acceptButtonText' | 'rejectButtonText' | 'customizeButtonText'>>;
+
+export interface BannerVariantText {
+    headline?: string;
+    description?: string;
+    acceptButton?: string;
+    rejectButton?: string;
+    preferencesButton?: string;
+}
+
+export interface BannerVariantInput {
+    name: string;
+    trafficPercent: number;
+    styles: BannerVariantStyles;
+    text: Record<string, BannerVariantText>; // Language code -> overrides
+}
+
+export interface BannerVariant extends BannerVariantInput {
+    id: string;
+    websiteId: string;
+    archivedAt: string | null; // Set when the experiment ended
+    createdBy: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Estimated from sampled loader telemetry; rates are fractions, null without data
+export interface BannerVariantResult {
+    variantId: string; // 'control' for the default banner
+    name: string;
+    trafficPercent: number;
+    shown: number;
+    decisions: number;
+    acceptAll: number;
+    rejectAll: number;
+    optIns: number; // Decisions granting at least one optional purpose
+    consentRate: number | null;
+    decisionRate: number | null;
+    medianDecisionMs: number | null;
+}
+
+export interface BannerExperimentResults {
+    since: string | null;
+    variants: BannerVariantResult[];
+}
+
 // Audit
 export interface AuditLog {
     id: string;
@@ -145,6 +506,126 @@ export interface PaginationInfo {
     totalPages: number;
 }
 
+// Rights Requests
+export type RightsRequestType = 'ACCESS' | 'CORRECTION' | 'ERASURE' | 'NOMINATION' | 'GRIEVANCE';
+export type RightsRequestStatus = 'RECEIVED' | 'VERIFYING' | 'IN_PROGRESS' | 'COMPLETED' | 'REJECTED';
+
+export interface RightsRequest {
+    id: string;
+    requestNumber: string;
+    tenantId: string;
+    websiteId: string;
+    websiteDomain: string;
+    requestType: RightsRequestType;
+    status: RightsRequestStatus;
+    requesterEmail: string;
+    description: string;
+    details: Record<string, any>;
+    languageCode?: string;
+    assignedTo?: string;
+    verifiedAt?: string;
+    dueAt?: string;
+    slaBreachedAt?: string;
+    createdAt: string;
+    updatedAt: string;
+    closedAt?: string;
+}
+
+export interface RightsRequestEvent {
+    id: string;
+    requestId: string;
+    eventType:
+        | 'SUBMITTED'
+        | 'VERIFICATION_SENT'
+        | 'VERIFIED'
+        | 'SLA_BREACHED'
+        | 'STATUS_CHANGED'
+        | 'ASSIGNED'
+        | 'NOTE';
+    // May also be PENDING_VERIFICATION for events recorded before the request was released
+    fromStatus?: RightsRequestStatus | 'PENDING_VERIFICATION';
+    toStatus?: RightsRequestStatus | 'PENDING_VERIFICATION';
+    actorId?: string;
+    actorEmail?: string;
+    note?: string;
+    metadata: Record<string, any>;
+    createdAt: string;
+}
+
+export interface RightsRequestDetail extends RightsRequest {
+    events: RightsRequestEvent[];
+}
+
+export interface RightsRequestSlaSummary {
+    open: number;
+    overdue: number;
+    dueSoon: number;
+    dueSoonDays: number;
+}
+
+// Outbound webhooks
+export type WebhookEventType =
+    | 'consent.given'
+    | 'consent.updated'
+    | 'consent.withdrawn'
+    | 'rights_request.created'
+    | 'rights_request.status_changed'
+    | 'website.published';
+
+export interface WebhookEndpointInput {
+    url: string;
+    description?: string | null;
+    events: WebhookEventType[];
+    websiteId?: string | null; // null for every website of the tenant
+    isActive?: boolean;
+}
+
+export interface WebhookEndpoint {
+    id: string;
+    tenantId: string;
+    websiteId: string | null;
+    url: string;
+    description: string | null;
+    events: WebhookEventType[];
+    secretHint: string; // Last characters of the signing secret
+    isActive: boolean;
+    createdBy?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Only returned when the endpoint is created or its secret rotated
+export interface WebhookEndpointWithSecret extends WebhookEndpoint {
+    secret: string;
+}
+
+export type WebhookDeliveryStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED';
+
+export interface WebhookDelivery {
+    id: string;
+    endpointId: string;
+    eventId: string;
+    eventType: WebhookEventType;
+    payload: {
+        id: string;
+        type: WebhookEventType;
+        createdAt: string;
+        tenantId: string;
+        websiteId: string | null;
+        data: Record<string, any>;
+    };
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    nextAttemptAt?: string;
+    lastAttemptAt?: string;
+    responseStatus?: number;
+    responseBody?: string;
+    lastError?: string;
+    redeliveryOf?: string;
+    createdAt: string;
+    completedAt?: string;
+}
+
 // Language
 export interface SupportedLanguage {
     code: string;
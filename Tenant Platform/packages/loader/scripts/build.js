@@ -0,0 +1,87 @@
+/**
+ * Bundle the loader into one minified ES5 script.
+ *
+ * esbuild cannot lower let/const and classes to ES5, so every module is
+ * first compiled by TypeScript (target ES5, ES modules kept for bundling)
+ * and esbuild only bundles and minifies. The file name carries a hash of
+ * the content; dist/manifest.json tells the server which file to serve.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const esbuild = require('esbuild');
+const ts = require('typescript');
+
+const rootDir = path.resolve(__dirname, '..');
+const distDir = path.join(rootDir, 'dist');
+
+const es5Plugin = {
+    name: 'typescript-es5',
+    setup(build) {
+        build.onLoad({ filter: /\.ts$/ }, async (args) => {
+            const source = await fs.promises.readFile(args.path, 'utf8');
+            const output = ts.transpileModule(source, {
+                fileName: args.path,
+                compilerOptions: {
+                    target: ts.ScriptTarget.ES5,
+                    module: ts.ModuleKind.ES2015,
+                    importHelpers: false,
+                    removeComments: true,
+                },
+            });
+            return { contents: output.outputText, loader: 'js' };
+        });
+    },
+};
+
+async function build() {
+    const result = await esbuild.build({
+        entryPoints: [path.join(rootDir, 'src/index.ts')],
+        bundle: true,
+        format: 'iife',
+        target: 'es5',
+        minify: true,
+        legalComments: 'none',
+        write: false,
+        logLevel: 'silent',
+        plugins: [es5Plugin],
+    });
+
+    const code = result.outputFiles[0].text;
+    // The server writes the bundle inside pages as well as serving it raw
+    if (/<\/script/i.test(code)) {
+        throw new Error('Loader bundle cannot contain "</script"');
+    }
+
+    const hash = crypto.createHash('sha256').update(code).digest('hex').slice(0, 12);
+    const file = 'loader.' + hash + '.js';
+    const { version } = require(path.join(rootDir, 'package.json'));
+
+    fs.mkdirSync(distDir, { recursive: true });
+    for (const name of fs.readdirSync(distDir)) {
+        if (/^loader\.[0-9a-f]+\.js$/.test(name) && name !== file) {
+            fs.unlinkSync(path.join(distDir, name));
+        }
+    }
+    fs.writeFileSync(path.join(distDir, file), code);
+    fs.writeFileSync(
+        path.join(distDir, 'manifest.json'),
+        JSON.stringify({ version, file, hash, size: Buffer.byteLength(code) }, null, 2) + '\n'
+    );
+
+    return { file, hash };
+}
+
+module.exports = { build };
+
+if (require.main === module) {
+    build()
+        .then(({ file }) => {
+            console.log('Built dist/' + file);
+        })
+        .catch((err) => {
+            console.error(err.message || err);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { runtimeConfig, setupPage } from './helpers/dom';
+
+type Blocking = typeof import('../blocking');
+type State = typeof import('../state');
+
+function loadBlocking(): { blocking: Blocking; state: State['state'] } {
+    jest.resetModules();
+    return {
+        blocking: require('../blocking') as Blocking,
+        state: (require('../state') as State).state,
+    };
+}
+
+describe('wildcardMatch', () => {
+    let blocking: Blocking;
+
+    beforeEach(() => {
+        setupPage();
+        blocking = loadBlocking().blocking;
+    });
+
+    it('matches exact values without wildcards', () => {
+        expect(blocking.wildcardMatch('cdn.example.net/ads.js', 'cdn.example.net/ads.js')).toBe(true);
+        expect(blocking.wildcardMatch('cdn.example.net/ads.jsx', 'cdn.example.net/ads.js')).toBe(false);
+    });
+
+    it('matches * against any run of characters', () => {
+        expect(blocking.wildcardMatch('cdn.example.net/ads/v2/tag.js', 'cdn.example.net/ads/*')).toBe(true);
+        expect(blocking.wildcardMatch('cdn.example.net/ads/tag.js', '*/ads/*.js')).toBe(true);
+        expect(blocking.wildcardMatch('cdn.example.net/fonts/a.css', 'cdn.example.net/ads/*')).toBe(false);
+    });
+
+    it('does not let the middle parts overlap the ends', () => {
+        expect(blocking.wildcardMatch('abc', 'ab*b*bc')).toBe(false);
+        expect(blocking.wildcardMatch('abbbc', 'ab*b*bc')).toBe(true);
+    });
+});
+
+describe('findBlockingPurpose', () => {
+    let blocking: Blocking;
+
+    beforeEach(() => {
+        setupPage({
+            bootstrap: {
+                blockingRules: [
+                    { purpose: 'marketing', type: 'domain', pattern: 'ads.example.org' },
+                    { purpose: 'analytics', type: 'url', pattern: 'ads.example.org/measure/*' },
+                ],
+                trackers: [
+                    {
+                        name: 'Google Analytics',
+                        purpose: 'analytics',
+                        domains: ['google-analytics.com'],
+                        scripts: ['www.googletagmanager.com/gtag/js*'],
+                    },
+                ],
+            },
+        });
+        blocking = loadBlocking().blocking;
+    });
+
+    it('tries tenant URL rules before domain rules', () => {
+        expect(blocking.findBlockingPurpose('https://ads.example.org/measure/pixel.js')).toBe('analytics');
+        expect(blocking.findBlockingPurpose('https://ads.example.org/banner.js')).toBe('marketing');
+    });
+
+    it('matches subdomains of a domain rule', () => {
+        expect(blocking.findBlockingPurpose('https://eu.ads.example.org/banner.js')).toBe('marketing');
+        expect(blocking.findBlockingPurpose('https://notads.example.org/banner.js')).toBeNull();
+    });
+
+    it('falls back to adopted known trackers', () => {
+        expect(blocking.findBlockingPurpose('https://www.googletagmanager.com/gtag/js?id=G-1')).toBe('analytics');
+        expect(blocking.findBlockingPurpose('https://ssl.google-analytics.com/collect')).toBe('analytics');
+    });
+
+    it('leaves other URLs alone', () => {
+        expect(blocking.findBlockingPurpose('https://shop.example.com/app.js')).toBeNull();
+        expect(blocking.findBlockingPurpose(null)).toBeNull();
+    });
+});
+
+describe('scanBlockedResources and replayConsentedResources', () => {
+    let blocking: Blocking;
+    let state: State['state'];
+
+    beforeEach(() => {
+        setupPage({
+            body:
+                '<script type="text/plain" data-purpose="analytics" src="https://cdn.example.net/analytics.js"></script>' +
+                '<script type="text/plain" data-purpose="marketing">window.marketing = true;</script>' +
+                '<img data-src="https://px.example.net/p.gif" data-purpose="essential">' +
+                '<iframe data-src="https://video.example.net/embed" data-purpose="unknown"></iframe>',
+        });
+        ({ blocking, state } = loadBlocking());
+        blocking.scanBlockedResources();
+    });
+
+    it('holds scripts, pixels and iframes tagged with a purpose', () => {
+        expect(state.blockedScripts.map((b) => b.type + ':' + b.purpose)).toEqual([
+            'script:analytics',
+            'script:marketing',
+            'pixel:essential',
+            'iframe:unknown',
+        ]);
+    });
+
+    it('replays nothing until a config is loaded', () => {
+        blocking.replayConsentedResources();
+        expect(document.querySelectorAll('[data-complyark-replayed]')).toHaveLength(0);
+    });
+
+    it('replays essential and consented purposes only', () => {
+        state.config = runtimeConfig();
+        state.purposes = { essential: true, analytics: true, marketing: false };
+        blocking.replayConsentedResources();
+
+        const replayed = document.querySelectorAll('script[data-complyark-replayed]');
+        expect(replayed).toHaveLength(1);
+        expect(replayed[0].getAttribute('src')).toBe('https://cdn.example.net/analytics.js');
+        expect(replayed[0].getAttribute('type')).toBeNull();
+        expect(document.querySelector('img')!.getAttribute('src')).toBe('https://px.example.net/p.gif');
+        expect(document.querySelector('script[data-purpose="marketing"]')!.getAttribute('type')).toBe('text/plain');
+    });
+
+    it('keeps undeclared purposes blocked forever', () => {
+        state.config = runtimeConfig();
+        state.purposes = { essential: true, analytics: true, marketing: true, unknown: true };
+        blocking.replayConsentedResources();
+
+        expect(document.querySelector('iframe')!.hasAttribute('src')).toBe(false);
+        expect(blocking.isPurposeConsented('unknown')).toBe(false);
+    });
+
+    it('replays each resource once', () => {
+        state.config = runtimeConfig();
+        state.purposes = { essential: true, analytics: true };
+        blocking.replayConsentedResources();
+        blocking.replayConsentedResources();
+
+        expect(document.querySelectorAll('script[src="https://cdn.example.net/analytics.js"]')).toHaveLength(1);
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { SITE_ID, SentRequest, runtimeConfig, setupPage } from './helpers/dom';
+import { RuntimeConsentMode } from '../types';
+
+type Handlers = typeof import('../handlers');
+type Api = typeof import('../api');
+type State = typeof import('../state');
+
+const CONSENT_MODE: RuntimeConsentMode = {
+    signals: {
+        analytics_storage: ['analytics'],
+        ad_storage: ['marketing'],
+        ad_user_data: ['marketing'],
+        ad_personalization: ['marketing'],
+        functionality_storage: ['essential'],
+    },
+    defaults: {
+        analytics_storage: 'denied',
+        ad_storage: 'denied',
+        ad_user_data: 'denied',
+        ad_personalization: 'denied',
+        functionality_storage: 'granted',
+    },
+    waitForUpdate: 500,
+    adsDataRedaction: true,
+    urlPassthrough: false,
+};
+
+const ALL_DENIED = {
+    analytics_storage: 'denied',
+    ad_storage: 'denied',
+    ad_user_data: 'denied',
+    ad_personalization: 'denied',
+    functionality_storage: 'granted',
+};
+
+// gtag() calls queued so far, as plain arrays
+const queued = () => (window.dataLayer || []).map((entry) => Array.from(entry as ArrayLike<unknown>));
+const updates = () => queued().filter((call) => call[0] === 'consent' && call[1] === 'update').map((call) => call[2]);
+
+describe('Google Consent Mode', () => {
+    let requests: SentRequest[];
+
+    beforeEach(() => {
+        ({ requests } = setupPage({ bootstrap: { consentMode: CONSENT_MODE } }));
+        jest.resetModules();
+    });
+
+    describe('defaults', () => {
+        it('queues the defaults when the loader runs, ahead of any tag', () => {
+            require('../index');
+
+            // The config fetch is still pending: the defaults come from the bootstrap
+            expect(requests.map((r) => r.url)).toEqual([`https://consent.example.com/runtime/websites/${SITE_ID}`]);
+
+            // A Google tag placed after the loader
+            window.gtag!('js', 'now');
+            window.gtag!('config', 'G-TEST');
+
+            expect(queued()).toEqual([
+                ['consent', 'default', { ...ALL_DENIED, wait_for_update: 500 }],
+                ['set', 'ads_data_redaction', true],
+                ['js', 'now'],
+                ['config', 'G-TEST'],
+            ]);
+        });
+
+        it('sends nothing when Consent Mode is off', () => {
+            setupPage();
+            jest.resetModules();
+            require('../index');
+
+            expect(window.dataLayer).toBeUndefined();
+            expect(window.gtag).toBeUndefined();
+        });
+    });
+
+    describe('updates', () => {
+        let handlers: Handlers;
+        let state: State['state'];
+
+        beforeEach(() => {
+            handlers = require('../handlers') as Handlers;
+            state = (require('../state') as State).state;
+            state.config = runtimeConfig({ consentMode: CONSENT_MODE });
+        });
+
+        it('grants every mapped signal on Accept All', () => {
+            handlers.handleAcceptAll();
+
+            expect(updates()).toEqual([{
+                analytics_storage: 'granted',
+                ad_storage: 'granted',
+                ad_user_data: 'granted',
+                ad_personalization: 'granted',
+                functionality_storage: 'granted',
+            }]);
+        });
+
+        it('denies all but essential signals on Reject All', () => {
+            handlers.handleRejectAll();
+
+            expect(updates()).toEqual([ALL_DENIED]);
+        });
+
+        it('follows the toggles of the settings panel on Save Settings', () => {
+            const panel = document.createElement('div');
+            panel.innerHTML =
+                '<input type="checkbox" data-purpose="essential" checked disabled>' +
+                '<input type="checkbox" data-purpose="analytics" checked>' +
+                '<input type="checkbox" data-purpose="marketing">';
+            document.body.appendChild(panel);
+            state.settingsElement = panel;
+
+            handlers.handleSaveSettings();
+
+            expect(updates()).toEqual([{ ...ALL_DENIED, analytics_storage: 'granted' }]);
+        });
+
+        it('denies the signals again on withdrawal', () => {
+            (require('../api') as Api).installPublicApi();
+            handlers.handleAcceptAll();
+
+            window.ComplyArk!.withdrawConsent();
+
+            expect(updates()).toHaveLength(2);
+            expect(updates()[1]).toEqual(ALL_DENIED);
+        });
+    });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { SITE_ID, SentRequest, runtimeConfig, setupPage } from './helpers/dom';
+import { RuntimeWebsiteConfig, StoredConsent } from '../types';
+
+type Consent = typeof import('../consent');
+type State = typeof import('../state');
+
+const CONSENT_KEY = '__complyark_consent__';
+const DAY = 24 * 60 * 60 * 1000;
+
+function loadConsent(): { consent: Consent; state: State['state'] } {
+    jest.resetModules();
+    return {
+        consent: require('../consent') as Consent,
+        state: (require('../state') as State).state,
+    };
+}
+
+function storedConsent(extra: Partial<StoredConsent> = {}): StoredConsent {
+    return {
+        purposes: { essential: true, analytics: true, marketing: false },
+        websiteId: SITE_ID,
+        language: 'en',
+        noticeVersion: '1',
+        configVersion: 3,
+        timestamp: Date.now(),
+        version: '2.0.0',
+        ...extra,
+    };
+}
+
+describe('saveConsent', () => {
+    let consent: Consent;
+    let state: State['state'];
+    let requests: SentRequest[];
+
+    beforeEach(() => {
+        ({ requests } = setupPage());
+        ({ consent, state } = loadConsent());
+        state.config = runtimeConfig();
+        state.resolvedLanguage = 'hi';
+    });
+
+    it('persists the decision with the versions it was given against', () => {
+        consent.saveConsent({ essential: true, analytics: true, marketing: false }, 'CUSTOM');
+
+        const stored = JSON.parse(localStorage.getItem(CONSENT_KEY)!);
+        expect(stored).toMatchObject({
+            purposes: { essential: true, analytics: true, marketing: false },
+            websiteId: SITE_ID,
+            language: 'hi',
+            noticeVersion: '1',
+            configVersion: 3,
+            version: '2.0.0',
+        });
+        expect(typeof stored.timestamp).toBe('number');
+    });
+
+    it('records the decision in the consent ledger', () => {
+        consent.saveConsent({ essential: true, analytics: false, marketing: false }, 'REJECT_ALL');
+
+        expect(requests).toHaveLength(1);
+        expect(requests[0].method).toBe('POST');
+        expect(requests[0].url).toBe(`https://consent.example.com/runtime/websites/${SITE_ID}/consents`);
+        expect(JSON.parse(requests[0].body!)).toMatchObject({
+            action: 'REJECT_ALL',
+            decisions: { essential: true, analytics: false, marketing: false },
+            purposeVersions: { essential: '1', analytics: '1', marketing: '1' },
+            configVersion: 3,
+        });
+    });
+
+    it('tells the page through a complyark:consent event', () => {
+        let detail: StoredConsent | null = null;
+        window.addEventListener('complyark:consent', (event) => {
+            detail = (event as CustomEvent<StoredConsent>).detail;
+        });
+
+        consent.saveConsent({ essential: true, analytics: true, marketing: true }, 'ACCEPT_ALL');
+
+        expect(detail).not.toBeNull();
+        expect(detail!.purposes).toEqual({ essential: true, analytics: true, marketing: true });
+    });
+});
+
+describe('loadExistingConsent', () => {
+    it('reads consent stored for this website', () => {
+        setupPage({ storage: { [CONSENT_KEY]: JSON.stringify(storedConsent()) } });
+        const { consent } = loadConsent();
+
+        expect(consent.loadExistingConsent()!.purposes).toEqual({ essential: true, analytics: true, marketing: false });
+    });
+
+    it('ignores consent stored for another website', () => {
+        setupPage({ storage: { [CONSENT_KEY]: JSON.stringify(storedConsent({ websiteId: 'other-site' })) } });
+        expect(loadConsent().consent.loadExistingConsent()).toBeNull();
+    });
+
+    it('ignores unreadable storage', () => {
+        setupPage({ storage: { [CONSENT_KEY]: '{not json' } });
+        expect(loadConsent().consent.loadExistingConsent()).toBeNull();
+    });
+});
+
+describe('stored consent validity', () => {
+    let consent: Consent;
+    let state: State['state'];
+
+    function withConfig(extra: Partial<RuntimeWebsiteConfig>) {
+        state.config = runtimeConfig(extra);
+    }
+
+    beforeEach(() => {
+        setupPage();
+        ({ consent, state } = loadConsent());
+    });
+
+    it('asks again after a material change', () => {
+        withConfig({ reconsentVersion: 4 });
+        expect(consent.needsReconsent(storedConsent({ configVersion: 3 }))).toBe(true);
+        expect(consent.needsReconsent(storedConsent({ configVersion: 4 }))).toBe(false);
+        // Saved before versioning
+        expect(consent.needsReconsent(storedConsent({ configVersion: null }))).toBe(true);
+    });
+
+    it('expires consent after the consent lifetime', () => {
+        withConfig({ consentLifetimeDays: 30, rejectLifetimeDays: 7 });
+        expect(consent.isConsentExpired(storedConsent({ timestamp: Date.now() - 20 * DAY }))).toBe(false);
+        expect(consent.isConsentExpired(storedConsent({ timestamp: Date.now() - 31 * DAY }))).toBe(true);
+    });
+
+    it('expires a rejection after the reject lifetime', () => {
+        withConfig({ consentLifetimeDays: 30, rejectLifetimeDays: 7 });
+        const rejected = storedConsent({
+            purposes: { essential: true, analytics: false, marketing: false },
+            timestamp: Date.now() - 8 * DAY,
+        });
+        expect(consent.isConsentExpired(rejected)).toBe(true);
+    });
+});
+
+describe('draft preview', () => {
+    it('never persists or records consent', () => {
+        const { dom, requests } = setupPage();
+        dom.window.__complyarkPreviewConfig = runtimeConfig();
+        const { consent, state } = loadConsent();
+        state.config = runtimeConfig();
+
+        consent.saveConsent({ essential: true, analytics: true, marketing: true }, 'ACCEPT_ALL');
+
+        expect(localStorage.getItem(CONSENT_KEY)).toBeNull();
+        expect(requests).toHaveLength(0);
+    });
+});
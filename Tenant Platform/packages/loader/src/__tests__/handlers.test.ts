@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { SITE_ID, SentRequest, runtimeConfig, setupPage } from './helpers/dom';
+
+type Handlers = typeof import('../handlers');
+type Api = typeof import('../api');
+type State = typeof import('../state');
+
+const CONSENT_URL = `https://consent.example.com/runtime/websites/${SITE_ID}/consents`;
+
+// Decisions posted to the consent ledger
+function ledgerRecords(requests: SentRequest[]) {
+    return requests
+        .filter((request) => request.method === 'POST' && request.url === CONSENT_URL)
+        .map((request) => JSON.parse(request.body as string));
+}
+
+describe('decisions posted to the consent ledger', () => {
+    let handlers: Handlers;
+    let state: State['state'];
+    let requests: SentRequest[];
+
+    beforeEach(() => {
+        ({ requests } = setupPage());
+        jest.resetModules();
+        handlers = require('../handlers') as Handlers;
+        state = (require('../state') as State).state;
+        state.config = runtimeConfig();
+    });
+
+    it('posts every purpose as granted on Accept All', () => {
+        handlers.handleAcceptAll();
+
+        expect(ledgerRecords(requests)).toEqual([expect.objectContaining({
+            action: 'ACCEPT_ALL',
+            decisions: { essential: true, analytics: true, marketing: true },
+            configVersion: 3,
+            noticeVersion: '1',
+        })]);
+    });
+
+    it('posts only essential purposes as granted on Reject All', () => {
+        handlers.handleRejectAll();
+
+        expect(ledgerRecords(requests)).toEqual([expect.objectContaining({
+            action: 'REJECT_ALL',
+            decisions: { essential: true, analytics: false, marketing: false },
+        })]);
+    });
+
+    it('posts the toggles of the settings panel on Save Settings', () => {
+        const panel = document.createElement('div');
+        panel.innerHTML =
+            '<input type="checkbox" data-purpose="essential" checked disabled>' +
+            '<input type="checkbox" data-purpose="analytics">' +
+            '<input type="checkbox" data-purpose="marketing" checked>';
+        document.body.appendChild(panel);
+        state.settingsElement = panel;
+
+        handlers.handleSaveSettings();
+
+        expect(ledgerRecords(requests)).toEqual([expect.objectContaining({
+            action: 'CUSTOM',
+            decisions: { essential: true, analytics: false, marketing: true },
+        })]);
+        expect(state.settingsElement).toBeNull();
+    });
+
+    it('posts a withdrawal of every optional purpose from ComplyArk.withdrawConsent', () => {
+        (require('../api') as Api).installPublicApi();
+        handlers.handleAcceptAll();
+
+        window.ComplyArk!.withdrawConsent();
+
+        const records = ledgerRecords(requests);
+        expect(records).toHaveLength(2);
+        expect(records[1]).toMatchObject({
+            action: 'WITHDRAW',
+            decisions: { essential: true, analytics: false, marketing: false },
+        });
+        // The same visitor ID links the withdrawal to the decision it withdraws
+        expect(records[1].visitorId).toBe(records[0].visitorId);
+        expect(state.consentGiven).toBe(false);
+    });
+
+    it('posts nothing before the config is loaded', () => {
+        state.config = null;
+
+        handlers.handleAcceptAll();
+        handlers.handleRejectAll();
+
+        expect(ledgerRecords(requests)).toEqual([]);
+    });
+});
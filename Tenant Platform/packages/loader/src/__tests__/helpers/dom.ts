@@ -0,0 +1,154 @@
+import { jest } from '@jest/globals';
+import { JSDOM, VirtualConsole } from 'jsdom';
+import { LoaderBootstrap, RuntimeWebsiteConfig } from '../../types';
+
+export const SITE_ID = '3a1f6c2e-9b4d-4e7a-8c15-2d6f0b9e7a41';
+
+// Browser globals the loader modules use without a window. prefix
+const GLOBALS = [
+    'window', 'document', 'localStorage', 'navigator', 'location',
+    'Node', 'Element', 'HTMLElement', 'HTMLScriptElement', 'HTMLImageElement', 'HTMLIFrameElement',
+    'MutationObserver', 'CustomEvent', 'Event', 'Blob', 'XMLHttpRequest',
+];
+
+export interface SentRequest {
+    method: string;
+    url: string;
+    body: string | null;
+    // Answer the request as the server would
+    respond(status: number, body: unknown): void;
+}
+
+export interface TestPage {
+    dom: JSDOM;
+    requests: SentRequest[];
+}
+
+/**
+ * A page the loader modules run in: a JSDOM window installed as the global
+ * browser environment, with the server's bootstrap settings in place.
+ * XHRs are recorded, never sent; tests answer them with respond().
+ * Call before requiring any loader module.
+ */
+export function setupPage(options: {
+    head?: string;
+    body?: string;
+    bootstrap?: Partial<LoaderBootstrap>;
+    storage?: Record<string, string>;
+    language?: string;
+} = {}): TestPage {
+    const dom = new JSDOM(
+        `<!DOCTYPE html><html><head>${options.head || ''}</head><body>${options.body || ''}</body></html>`,
+        { url: 'https://shop.example.com/', virtualConsole: new VirtualConsole() }
+    );
+    const window = dom.window;
+
+    // The loader logs every step; keep the test output readable
+    for (const method of ['log', 'warn', 'error'] as const) {
+        jest.spyOn(console, method).mockImplementation(() => {});
+    }
+
+    const requests: SentRequest[] = [];
+    class RecordingXhr {
+        status = 0;
+        responseText = '';
+        timeout = 0;
+        onload: (() => void) | null = null;
+        onerror: (() => void) | null = null;
+        ontimeout: (() => void) | null = null;
+        private request: SentRequest | null = null;
+        open(method: string, url: string) {
+            this.request = {
+                method,
+                url,
+                body: null,
+                respond: (status, body) => {
+                    this.status = status;
+                    this.responseText = JSON.stringify(body);
+                    if (this.onload) this.onload();
+                },
+            };
+        }
+        setRequestHeader() {}
+        send(body?: string) {
+            this.request!.body = body || null;
+            requests.push(this.request!);
+        }
+    }
+    Object.defineProperty(window, 'XMLHttpRequest', { value: RecordingXhr, configurable: true });
+    if (options.language) {
+        Object.defineProperty(window.navigator, 'language', { value: options.language, configurable: true });
+    }
+
+    for (const [key, value] of Object.entries(options.storage || {})) {
+        window.localStorage.setItem(key, value);
+    }
+
+    window.__complyarkBootstrap = {
+        siteId: SITE_ID,
+        apiBase: 'https://consent.example.com',
+        telemetrySampleRate: 0,
+        tcf: { enabled: false, cmpId: 0, cmpVersion: 1 },
+        consentMode: null,
+        trackers: [],
+        blockingRules: [],
+        cookieRules: [],
+        ...options.bootstrap,
+    };
+
+    for (const key of GLOBALS) {
+        Object.defineProperty(globalThis, key, {
+            value: (window as unknown as Record<string, unknown>)[key],
+            configurable: true,
+            writable: true,
+        });
+    }
+
+    return { dom, requests };
+}
+
+/**
+ * A published runtime config with essential, analytics and marketing
+ * purposes, plus the given fields
+ */
+export function runtimeConfig(extra: Partial<RuntimeWebsiteConfig> = {}): RuntimeWebsiteConfig {
+    return {
+        siteId: SITE_ID,
+        noticeVersion: '1',
+        configVersion: 3,
+        configHash: 'hash',
+        reconsentVersion: 0,
+        defaultLanguage: 'en',
+        supportedLanguages: ['en'],
+        notice: { en: { title: 'Privacy notice', description: 'How we use your data' } },
+        purposes: ['essential', 'analytics', 'marketing'].map((key, index) => ({
+            key,
+            version: '1',
+            required: key === 'essential',
+            displayOrder: index,
+            labels: { en: { title: key, description: `${key} purpose` } },
+        })),
+        banner: {
+            position: 'bottom',
+            layout: 'banner',
+            primaryColor: '#000000',
+            secondaryColor: '#ffffff',
+            backgroundColor: '#ffffff',
+            textColor: '#000000',
+            acceptButtonColor: '#000000',
+            rejectButtonColor: '#000000',
+            text: {
+                en: {
+                    headline: 'We value your privacy',
+                    description: 'Choose what you allow',
+                    acceptButton: 'Accept all',
+                    rejectButton: 'Reject all',
+                    preferencesButton: 'Preferences',
+                },
+            },
+        },
+        consentLifetimeDays: 365,
+        rejectLifetimeDays: 180,
+        ...extra,
+    } as RuntimeWebsiteConfig;
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { SITE_ID, SentRequest, runtimeConfig, setupPage } from './helpers/dom';
+
+type Init = typeof import('../init');
+type State = typeof import('../state');
+
+const CONSENT_KEY = '__complyark_consent__';
+const LEDGER_SYNC_KEY = '__complyark_ledger_sync__';
+
+// Returning visitor: the config is only needed to replay consented resources
+const storedConsent = JSON.stringify({
+    purposes: { essential: true, analytics: true, marketing: false },
+    websiteId: SITE_ID,
+    language: 'en',
+    noticeVersion: '1',
+    configVersion: 3,
+    timestamp: Date.now(),
+    version: '2.0.0',
+});
+
+function loadInit(): { init: Init; state: State['state'] } {
+    jest.resetModules();
+    return {
+        init: require('../init') as Init,
+        state: (require('../state') as State).state,
+    };
+}
+
+describe('config source', () => {
+    it('fetches the config from the runtime API by default', () => {
+        const { requests } = setupPage({ storage: { [CONSENT_KEY]: storedConsent } });
+        loadInit().init.init();
+
+        expect(requests.map((r) => r.method + ' ' + r.url)).toEqual([
+            `GET https://consent.example.com/runtime/websites/${SITE_ID}`,
+        ]);
+    });
+
+    it('fetches the config from the static origin when given its URL', () => {
+        const configUrl = `https://static.example.com/sites/${SITE_ID}/config.v3.0123456789ab.json`;
+        const { requests } = setupPage({ storage: { [CONSENT_KEY]: storedConsent }, bootstrap: { configUrl } });
+        loadInit().init.init();
+
+        expect(requests.map((r) => r.method + ' ' + r.url)).toEqual([`GET ${configUrl}`]);
+    });
+
+    it('applies an inlined config without fetching it', () => {
+        const { requests } = setupPage({
+            storage: { [CONSENT_KEY]: storedConsent },
+            bootstrap: { config: runtimeConfig() },
+        });
+        const { init, state } = loadInit();
+        init.init();
+
+        expect(state.config!.siteId).toBe(SITE_ID);
+        expect(state.purposes).toEqual({ essential: true, analytics: true, marketing: false });
+        // Only the My Consents ledger check goes out
+        expect(requests.map((r) => r.url)).toEqual([
+            expect.stringContaining(`/runtime/websites/${SITE_ID}/visitors/`),
+        ]);
+    });
+});
+
+describe('ledger sync', () => {
+    const ledgerChecks = (requests: SentRequest[]) => requests.filter((r) => r.url.includes('/visitors/'));
+    const returningVisit = (storage: Record<string, string> = {}) => {
+        const page = setupPage({ storage: { [CONSENT_KEY]: storedConsent, ...storage }, bootstrap: { config: runtimeConfig() } });
+        const loaded = loadInit();
+        loaded.init.init();
+        return { ...page, ...loaded };
+    };
+
+    it('checks the ledger when stored consent was never checked, and notes the check', () => {
+        const { dom, requests } = returningVisit();
+
+        const [check] = ledgerChecks(requests);
+        check.respond(200, { success: true, data: null });
+        expect(Number(dom.window.localStorage.getItem(LEDGER_SYNC_KEY))).toBeGreaterThan(Date.now() - 1000);
+    });
+
+    it('skips the check on later page views the same day', () => {
+        const { requests, state } = returningVisit({ [LEDGER_SYNC_KEY]: String(Date.now() - 60 * 60 * 1000) });
+
+        expect(ledgerChecks(requests)).toEqual([]);
+        expect(state.purposes).toEqual({ essential: true, analytics: true, marketing: false });
+    });
+
+    it('checks again once the last check is stale', () => {
+        const { requests } = returningVisit({ [LEDGER_SYNC_KEY]: String(Date.now() - 25 * 60 * 60 * 1000) });
+        expect(ledgerChecks(requests)).toHaveLength(1);
+    });
+
+    it('checks on the next page view after the My Consents page was opened', () => {
+        const { dom } = returningVisit({ [LEDGER_SYNC_KEY]: String(Date.now()) });
+        dom.window.open = (() => null) as typeof dom.window.open;
+        (require('../my-consents') as typeof import('../my-consents')).openConsentManager();
+
+        const { requests } = returningVisit({ [LEDGER_SYNC_KEY]: dom.window.localStorage.getItem(LEDGER_SYNC_KEY) || '' });
+        expect(ledgerChecks(requests)).toHaveLength(1);
+    });
+
+    it('applies a withdrawal found in the ledger', () => {
+        const { requests, state } = returningVisit();
+
+        ledgerChecks(requests)[0].respond(200, {
+            success: true,
+            data: {
+                updatedAt: new Date(Date.now() + 1000).toISOString(),
+                purposes: [{ key: 'essential', granted: true }, { key: 'analytics', granted: false }, { key: 'marketing', granted: false }],
+            },
+        });
+        expect(state.purposes).toEqual({ essential: true, analytics: false, marketing: false });
+    });
+
+    it('keeps the check due when the ledger cannot be read', () => {
+        const { dom, requests } = returningVisit();
+
+        ledgerChecks(requests)[0].respond(503, { success: false });
+        expect(dom.window.localStorage.getItem(LEDGER_SYNC_KEY)).toBeNull();
+    });
+});
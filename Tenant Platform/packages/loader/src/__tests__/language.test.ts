@@ -0,0 +1,54 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { runtimeConfig, setupPage } from './helpers/dom';
+
+type Language = typeof import('../language');
+
+const LANGUAGE_KEY = '__complyark_user_lang__';
+
+function loadLanguage(): Language {
+    jest.resetModules();
+    return require('../language') as Language;
+}
+
+const multilingual = runtimeConfig({ defaultLanguage: 'hi', supportedLanguages: ['en', 'hi', 'ta'] });
+
+describe('resolveLanguage', () => {
+    it('prefers the language the visitor picked', () => {
+        setupPage({ language: 'ta-IN', storage: { [LANGUAGE_KEY]: 'en' } });
+        expect(loadLanguage().resolveLanguage(multilingual)).toBe('en');
+    });
+
+    it('ignores a stored language the website no longer supports', () => {
+        setupPage({ language: 'ta-IN', storage: { [LANGUAGE_KEY]: 'fr' } });
+        expect(loadLanguage().resolveLanguage(multilingual)).toBe('ta');
+    });
+
+    it('uses the browser language and remembers it', () => {
+        setupPage({ language: 'ta-IN' });
+        expect(loadLanguage().resolveLanguage(multilingual)).toBe('ta');
+        expect(localStorage.getItem(LANGUAGE_KEY)).toBe('ta');
+    });
+
+    it('falls back to the website default', () => {
+        setupPage({ language: 'fr-FR' });
+        expect(loadLanguage().resolveLanguage(multilingual)).toBe('hi');
+    });
+
+    it('falls back to English when the default is not supported', () => {
+        setupPage({ language: 'fr-FR' });
+        const config = runtimeConfig({ defaultLanguage: 'de', supportedLanguages: ['en', 'hi'] });
+        expect(loadLanguage().resolveLanguage(config)).toBe('en');
+    });
+});
+
+describe('translation lookups', () => {
+    it('fall back to English, then to nothing', () => {
+        setupPage();
+        const language = loadLanguage();
+        const notice = { en: { title: 'Notice', description: 'English' }, hi: { title: 'सूचना', description: 'Hindi' } };
+
+        expect(language.getNoticeTranslation(notice, 'hi')!.description).toBe('Hindi');
+        expect(language.getNoticeTranslation(notice, 'ta')!.description).toBe('English');
+        expect(language.getPurposeTranslation({}, 'ta')).toBeNull();
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { JSDOM } from 'jsdom';
+import { SITE_ID, runtimeConfig, setupPage } from './helpers/dom';
+
+type MyConsents = typeof import('../my-consents');
+type State = typeof import('../state');
+
+const API_ORIGIN = 'https://consent.example.com';
+
+describe('My Consents messages', () => {
+    let myConsents: MyConsents;
+    let state: State['state'];
+    let dom: JSDOM;
+    // Stands in for the window.open result
+    let opened: Window;
+
+    beforeEach(() => {
+        ({ dom } = setupPage());
+        jest.resetModules();
+        myConsents = require('../my-consents') as MyConsents;
+        state = (require('../state') as State).state;
+        state.config = runtimeConfig();
+        state.purposes = { essential: true, analytics: false, marketing: false };
+
+        opened = new JSDOM('').window as unknown as Window;
+        dom.window.open = (() => opened) as unknown as typeof dom.window.open;
+        myConsents.installConsentSync();
+    });
+
+    // A grant, so the page is not reloaded
+    const send = (origin: string, source: unknown) => dom.window.dispatchEvent(new dom.window.MessageEvent('message', {
+        origin,
+        source: source as Window,
+        data: { type: 'complyark:consent-updated', siteId: SITE_ID, purposes: { essential: true, analytics: true, marketing: false } },
+    }));
+
+    it('applies a decision sent by the My Consents window it opened', () => {
+        myConsents.openConsentManager();
+        send(API_ORIGIN, opened);
+
+        expect(state.purposes).toEqual({ essential: true, analytics: true, marketing: false });
+    });
+
+    it('ignores messages from other origins', () => {
+        myConsents.openConsentManager();
+        send('https://copycat.example.io', opened);
+
+        expect(state.purposes.analytics).toBe(false);
+    });
+
+    it('ignores messages from other windows', () => {
+        myConsents.openConsentManager();
+        send(API_ORIGIN, dom.window);
+
+        expect(state.purposes.analytics).toBe(false);
+    });
+
+    it('ignores messages when it opened no My Consents window', () => {
+        send(API_ORIGIN, opened);
+
+        expect(state.purposes.analytics).toBe(false);
+    });
+});
@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { runtimeConfig, setupPage } from './helpers/dom';
+import { PurposeDecisions, RuntimeTcfConfig } from '../types';
+
+type Tcf = typeof import('../tcf');
+type Handlers = typeof import('../handlers');
+type State = typeof import('../state');
+
+// 2026-01-15 13:45 UTC; the strings carry the day only
+const DECIDED_AT = Date.UTC(2026, 0, 15, 13, 45);
+
+const TCF_CONFIG: RuntimeTcfConfig = {
+    vendorListVersion: 120,
+    tcfPolicyVersion: 4,
+    publisherCountryCode: 'DE',
+    purposeNames: {},
+    specialFeatureNames: {},
+    vendors: [
+        { id: 2, name: 'Measure Co', purposes: [1, 7], legIntPurposes: [8], flexiblePurposes: [], specialPurposes: [], specialFeatures: [] },
+        { id: 8, name: 'Ads Co', purposes: [2, 3, 4], legIntPurposes: [], flexiblePurposes: [], specialPurposes: [], specialFeatures: [1] },
+        { id: 25, name: 'Stats Co', purposes: [], legIntPurposes: [7, 9], flexiblePurposes: [], specialPurposes: [], specialFeatures: [] },
+    ],
+};
+
+// Website purposes mapped to IAB purposes and special features
+const config = () => {
+    const base = runtimeConfig({ tcf: TCF_CONFIG });
+    base.purposes[1].tcfPurposes = [1, 7, 8, 9];
+    base.purposes[2].tcfPurposes = [1, 2, 3, 4];
+    base.purposes[2].tcfSpecialFeatures = [1];
+    return base;
+};
+
+// Encoded independently from the TCF v2.2 and GPP v1.1 specifications:
+// CMP 300 version 2, English, vendor list 120, policy 4, publisher DE,
+// vendors 2, 8 and 25 disclosed
+const REFERENCE = {
+    analyticsOnly: 'CQeEcwAQeEcwAEsACBENB4EgAIOAAAOAAAYgABEAGSAAAEAA.IAMkEAAI',
+    acceptAll: 'CQeEcwAQeEcwAEsACBENB4EoAPOAAEOAAAYgAEEEAGSAAAEAAA.IAMkEAAI',
+    rejectAll: 'CQeEcwAQeEcwAEsACBENB4EgAAAAAAAAAAYgAAAAAAAA.IAMkEAAI',
+};
+// Header of a GPP string with the tcfeuv2 section (id 2) only
+const GPP_HEADER = 'DBABMA';
+
+// Bits of a base64url segment, for reading fields back by their offsets in the spec
+function segmentBits(segment: string): string {
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+    return segment.split('').map((char) => alphabet.indexOf(char).toString(2).padStart(6, '0')).join('');
+}
+
+function decodeCore(tcString: string) {
+    const bits = segmentBits(tcString.split('.')[0]);
+    const int = (offset: number, length: number) => parseInt(bits.substr(offset, length), 2);
+    const ids = (offset: number, length: number) =>
+        bits.substr(offset, length).split('').map((bit, i) => (bit === '1' ? i + 1 : 0)).filter(Boolean);
+    const vendorConsentMax = int(213, 16);
+    const vendorLiOffset = 230 + vendorConsentMax;
+    return {
+        version: int(0, 6),
+        created: int(6, 36) * 100,
+        cmpId: int(78, 12),
+        cmpVersion: int(90, 12),
+        vendorListVersion: int(120, 12),
+        policyVersion: int(132, 6),
+        isServiceSpecific: bits[138] === '1',
+        specialFeatureOptins: ids(140, 12),
+        purposeConsents: ids(152, 24),
+        purposeLegitimateInterests: ids(176, 24),
+        vendorConsents: bits[229] === '0' ? ids(230, vendorConsentMax) : null,
+        vendorLegitimateInterests: bits[vendorLiOffset + 16] === '0' ? ids(vendorLiOffset + 17, int(vendorLiOffset, 16)) : null,
+    };
+}
+
+describe('IAB TCF v2.2 and GPP', () => {
+    let tcf: Tcf;
+    let state: State['state'];
+
+    const decide = (purposes: PurposeDecisions) => tcf.updateTcfSignals(purposes, DECIDED_AT, 'useractioncomplete');
+    const call = <T>(api: '__tcfapi' | '__gpp', ...args: unknown[]): T => {
+        let answer: unknown;
+        const callback = (returnValue: unknown) => { answer = returnValue; };
+        if (api === '__tcfapi') {
+            window.__tcfapi!(args[0] as string, 2, callback, args[1]);
+        } else {
+            window.__gpp!(args[0] as string, callback, args[1]);
+        }
+        return answer as T;
+    };
+
+    beforeEach(() => {
+        setupPage({ bootstrap: { tcf: { enabled: true, cmpId: 300, cmpVersion: 2 } } });
+        jest.resetModules();
+        tcf = require('../tcf') as Tcf;
+        state = (require('../state') as State).state;
+        state.config = config();
+        state.resolvedLanguage = 'en';
+    });
+
+    describe('TC string', () => {
+        beforeEach(() => tcf.installTcfApi());
+
+        it('matches the reference strings', () => {
+            decide({ essential: true, analytics: true, marketing: false });
+            expect(call<{ tcString: string }>('__tcfapi', 'addEventListener').tcString).toBe(REFERENCE.analyticsOnly);
+
+            decide({ essential: true, analytics: true, marketing: true });
+            expect(call<{ tcString: string }>('__tcfapi', 'addEventListener').tcString).toBe(REFERENCE.acceptAll);
+
+            decide({ essential: true, analytics: false, marketing: false });
+            expect(call<{ tcString: string }>('__tcfapi', 'addEventListener').tcString).toBe(REFERENCE.rejectAll);
+        });
+
+        it('carries the purpose, special feature and vendor bits of the decision', () => {
+            decide({ essential: true, analytics: true, marketing: true });
+            const { tcString } = call<{ tcString: string }>('__tcfapi', 'addEventListener');
+
+            expect(decodeCore(tcString)).toEqual({
+                version: 2,
+                created: Date.UTC(2026, 0, 15),
+                cmpId: 300,
+                cmpVersion: 2,
+                vendorListVersion: 120,
+                policyVersion: 4,
+                isServiceSpecific: true,
+                specialFeatureOptins: [1],
+                purposeConsents: [1, 2, 3, 4, 7, 8, 9],
+                // Never for purposes 1 and 3-6
+                purposeLegitimateInterests: [2, 7, 8, 9],
+                vendorConsents: [2, 8],
+                vendorLegitimateInterests: [2, 25],
+            });
+        });
+
+        it('signals nothing but disclosed vendors after Reject All', () => {
+            decide({ essential: true, analytics: false, marketing: false });
+            const decoded = decodeCore(call<{ tcString: string }>('__tcfapi', 'addEventListener').tcString);
+
+            expect(decoded).toMatchObject({
+                specialFeatureOptins: [],
+                purposeConsents: [],
+                purposeLegitimateInterests: [],
+                vendorConsents: [],
+                vendorLegitimateInterests: [],
+            });
+        });
+    });
+
+    describe('GPP string', () => {
+        beforeEach(() => tcf.installTcfApi());
+
+        it('wraps the TC string as the tcfeuv2 section', () => {
+            decide({ essential: true, analytics: true, marketing: false });
+
+            expect(call<{ gppString: string }>('__gpp', 'ping').gppString).toBe(`${GPP_HEADER}~${REFERENCE.analyticsOnly}`);
+            expect(call('__gpp', 'hasSection', 'tcfeuv2')).toBe(true);
+            expect(call('__gpp', 'getField', 'tcfeuv2.VendorConsents')).toEqual([2]);
+            expect(call('__gpp', 'getField', 'tcfeuv2.VendorLegitimateInterests')).toEqual([2, 25]);
+            expect(call<Record<string, unknown>>('__gpp', 'getSection', 'tcfeuv2')).toMatchObject({
+                CmpId: 300,
+                VendorListVersion: 120,
+                PublisherCountryCode: 'DE',
+                SpecialFeatureOptins: [false, false, false, false, false, false, false, false, false, false, false, false],
+            });
+        });
+
+        it('has no section before the config is loaded', () => {
+            expect(call('__gpp', 'hasSection', 'tcfeuv2')).toBe(false);
+            expect(call<{ signalStatus: string }>('__gpp', 'ping').signalStatus).toBe('not ready');
+        });
+    });
+
+    describe('stub', () => {
+        it('answers the calls queued before the loader ran', () => {
+            // The publisher's stubs, as in the IAB reference implementations
+            const tcfQueue: unknown[][] = [];
+            const gppQueue: unknown[][] = [];
+            window.__tcfapi = Object.assign((...args: unknown[]) => { tcfQueue.push(args); }, { a: tcfQueue });
+            window.__gpp = Object.assign((...args: unknown[]) => { gppQueue.push(args); }, { queue: gppQueue });
+
+            const answers: Array<[string, unknown]> = [];
+            window.__tcfapi('ping', 2, (ping) => answers.push(['tcf ping', (ping as { cmpId: number }).cmpId]));
+            window.__tcfapi('addEventListener', 2, (data) => answers.push(['tcf event', (data as { tcString: string }).tcString]));
+            window.__gpp('ping', (ping) => answers.push(['gpp ping', (ping as { gppVersion: string }).gppVersion]));
+
+            tcf.installTcfApi();
+            expect(answers).toEqual([['tcf ping', 300], ['gpp ping', '1.1']]);
+
+            // The queued listener hears of the decision
+            decide({ essential: true, analytics: true, marketing: false });
+            expect(answers[2]).toEqual(['tcf event', REFERENCE.analyticsOnly]);
+        });
+    });
+
+    describe('event listeners', () => {
+        let handlers: Handlers;
+
+        beforeEach(() => {
+            tcf.installTcfApi();
+            handlers = require('../handlers') as Handlers;
+        });
+
+        it('calls __tcfapi listeners on every consent change until removed', () => {
+            const events: Array<{ eventStatus: string; listenerId: number; purpose: { consents: Record<number, boolean> } }> = [];
+            window.__tcfapi!('addEventListener', 2, (data) => events.push(data as typeof events[number]));
+
+            handlers.handleAcceptAll();
+            expect(events).toHaveLength(1);
+            expect(events[0]).toMatchObject({ eventStatus: 'useractioncomplete', purpose: { consents: { 1: true, 2: true } } });
+
+            handlers.handleRejectAll();
+            expect(events).toHaveLength(2);
+            expect(events[1].purpose.consents[1]).toBe(false);
+
+            let removed: unknown;
+            window.__tcfapi!('removeEventListener', 2, (result) => { removed = result; }, events[0].listenerId);
+            expect(removed).toBe(true);
+
+            handlers.handleAcceptAll();
+            expect(events).toHaveLength(2);
+        });
+
+        it('calls __gpp listeners on every consent change until removed', () => {
+            const events: Array<{ eventName: string; listenerId: number; data: unknown }> = [];
+            window.__gpp!('addEventListener', (event) => events.push(event as typeof events[number]));
+            expect(events.map((event) => event.eventName)).toEqual(['listenerRegistered']);
+
+            handlers.handleAcceptAll();
+            expect(events.slice(1).map((event) => [event.eventName, event.data])).toEqual([
+                ['signalStatus', 'ready'],
+                ['sectionChange', 'tcfeuv2'],
+            ]);
+
+            window.__gpp!('removeEventListener', () => undefined, events[0].listenerId);
+            handlers.handleRejectAll();
+            expect(events).toHaveLength(3);
+        });
+    });
+});
@@ -0,0 +1,65 @@
+import { isPurposeConsented } from './blocking';
+import { emitConsentModeUpdate } from './consent-mode';
+import { purgeNonConsentedStorage } from './cookies';
+import { recordConsent } from './ledger';
+import { openConsentManager } from './my-consents';
+import { CONSENT_KEY } from './settings';
+import { state } from './state';
+import { trackEvent } from './telemetry';
+import { ComplyArkApi, PurposeDecisions } from './types';
+import { showBanner } from './ui/banner';
+import { showSettings } from './ui/settings';
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * window.ComplyArk, for the site's own "Cookie settings" links and scripts
+ */
+export function installPublicApi(): void {
+    const api: ComplyArkApi = {
+        // Open settings panel
+        openSettings: function() {
+            if (state.config) {
+                trackEvent('SETTINGS_OPENED');
+                showSettings();
+            }
+        },
+        // Check if purpose is consented
+        hasConsent: function(purpose: string) {
+            return isPurposeConsented(purpose);
+        },
+        // Get all consent
+        getConsent: function() {
+            return Object.assign({}, state.purposes);
+        },
+        // Open the hosted My Consents page (history and withdrawal)
+        openConsentManager: function() {
+            openConsentManager();
+        },
+        // Get the latest signed consent receipt
+        getReceipt: function() {
+            return state.receipt ? JSON.parse(JSON.stringify(state.receipt)) : null;
+        },
+        // Withdraw consent (re-show banner)
+        withdrawConsent: function() {
+            const withdrawn: PurposeDecisions = {};
+            if (state.config) {
+                state.config.purposes.forEach(function(p) {
+                    withdrawn[p.key] = p.required; // Only essential purposes remain
+                });
+            }
+            recordConsent('WITHDRAW', withdrawn);
+            emitConsentModeUpdate(withdrawn);
+            try {
+                localStorage.removeItem(CONSENT_KEY);
+            } catch (e) {}
+            state.purposes = {};
+            state.consentGiven = false;
+            purgeNonConsentedStorage();
+            showBanner();
+        }
+    };
+    window.ComplyArk = api;
+}
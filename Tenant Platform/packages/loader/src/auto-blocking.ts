@@ -0,0 +1,181 @@
+import { findBlockingPurpose, isPurposeConsented } from './blocking';
+import { state } from './state';
+import { BlockedResource } from './types';
+
+// ============================================================================
+// AUTO-BLOCKING ENGINE - Holds resources matched by rules, no markup needed
+// ============================================================================
+
+// Bookkeeping the engine keeps on the elements it holds
+type HeldElement = Element & {
+    __complyarkBlocked?: BlockedResource;
+    __complyarkType?: string | null;
+};
+
+const AUTO_BLOCK_SELECTOR = 'script[src], iframe[src], img[src]';
+const originalSetAttribute = Element.prototype.setAttribute;
+let autoBlockCount = 0;
+
+function isBlockableElement(element: Node): element is HeldElement {
+    return !!element && element.nodeType === 1 &&
+        ((element as Element).tagName === 'SCRIPT' || (element as Element).tagName === 'IFRAME' || (element as Element).tagName === 'IMG');
+}
+
+/**
+ * Scripts the browser would not run anyway (text/plain, JSON, templates) are left alone.
+ */
+function isExecutableScript(element: Element): boolean {
+    const type = (element.getAttribute('type') || '').replace(/^\s+|\s+$/g, '').toLowerCase();
+    return !type || type === 'module' || /^(text|application)\/(x-)?(java|ecma)script$/.test(type);
+}
+
+/**
+ * Purpose an element loading this URL must wait for, or null to let it load.
+ * A data-purpose attribute wins over the rules.
+ */
+function heldPurpose(element: Element, url: string | null): string | null {
+    if (!url || url === 'about:blank') return null;
+    if (element.getAttribute('data-complyark-replayed')) return null;
+    if (element.tagName === 'SCRIPT' && !isExecutableScript(element)) return null;
+
+    const purpose = element.getAttribute('data-purpose') || findBlockingPurpose(url);
+    if (!purpose || isPurposeConsented(purpose)) return null;
+    return purpose;
+}
+
+/**
+ * Park the URL in data-src and register the element for replay. Scripts
+ * are neutralised with type="text/plain", iframes navigate to about:blank
+ * in case loading already started.
+ */
+function holdElement(element: HeldElement, url: string, purpose: string): void {
+    let entry = element.__complyarkBlocked;
+
+    originalSetAttribute.call(element, 'data-purpose', purpose);
+    originalSetAttribute.call(element, 'data-src', url);
+    originalSetAttribute.call(element, 'data-complyark-held', 'true');
+    if (element.tagName === 'SCRIPT') {
+        if (!entry) {
+            element.__complyarkType = element.getAttribute('type');
+        }
+        originalSetAttribute.call(element, 'type', 'text/plain');
+        element.removeAttribute('src');
+    } else if (element.tagName === 'IFRAME') {
+        originalSetAttribute.call(element, 'src', 'about:blank');
+    } else {
+        element.removeAttribute('src');
+    }
+
+    // The page changed the URL of an element that is still held
+    if (entry && !state.replayedScripts.has(entry.id)) {
+        entry.purpose = purpose;
+        entry.src = url;
+        return;
+    }
+
+    entry = {
+        type: element.tagName === 'SCRIPT' ? 'script' : (element.tagName === 'IFRAME' ? 'iframe' : 'pixel'),
+        purpose: purpose,
+        src: url,
+        element: element as unknown as HTMLElement,
+        held: true,
+        id: 'auto-' + (++autoBlockCount) + '-' + purpose
+    };
+    element.__complyarkBlocked = entry;
+    state.blockedScripts.push(entry);
+    console.log('[ComplyArk] Auto-blocked', entry.type, 'for purpose:', purpose, url);
+}
+
+function processElement(element: Node): void {
+    if (!isBlockableElement(element)) return;
+    const url = element.getAttribute('src');
+    const purpose = heldPurpose(element, url);
+    if (url && purpose) {
+        holdElement(element, url, purpose);
+    }
+}
+
+function handleMutations(mutations: MutationRecord[]): void {
+    for (let i = 0; i < mutations.length; i++) {
+        const mutation = mutations[i];
+        if (mutation.type === 'attributes') {
+            processElement(mutation.target);
+            continue;
+        }
+        for (let j = 0; j < mutation.addedNodes.length; j++) {
+            const node = mutation.addedNodes[j];
+            if (node.nodeType !== 1) continue;
+            processElement(node);
+            const nested = (node as Element).querySelectorAll(AUTO_BLOCK_SELECTOR);
+            for (let k = 0; k < nested.length; k++) {
+                processElement(nested[k]);
+            }
+        }
+    }
+}
+
+/**
+ * Route src property writes through the engine, for scripts, iframes and
+ * new Image() pixels created by code.
+ */
+function patchSrcProperty(proto: object | undefined): void {
+    const descriptor = proto && Object.getOwnPropertyDescriptor(proto, 'src');
+    if (!descriptor || !descriptor.set || !descriptor.configurable) return;
+    const originalSet = descriptor.set;
+
+    Object.defineProperty(proto, 'src', {
+        configurable: true,
+        enumerable: descriptor.enumerable,
+        get: descriptor.get,
+        set: function(this: HeldElement, value: string) {
+            const purpose = heldPurpose(this, value);
+            if (purpose) {
+                holdElement(this, String(value), purpose);
+                return;
+            }
+            originalSet.call(this, value);
+        }
+    });
+}
+
+/**
+ * Install the engine. Runs synchronously while the loader executes so
+ * that everything parsed, created or injected after it is covered:
+ * src writes and setAttribute('src') are held as they happen, and a
+ * MutationObserver catches markup from the parser, innerHTML and
+ * insertAdjacentHTML before it runs.
+ */
+export function installAutoBlocking(): void {
+    patchSrcProperty(window.HTMLScriptElement && HTMLScriptElement.prototype);
+    patchSrcProperty(window.HTMLIFrameElement && HTMLIFrameElement.prototype);
+    patchSrcProperty(window.HTMLImageElement && HTMLImageElement.prototype);
+
+    Element.prototype.setAttribute = function(this: Element, name: string, value: string) {
+        if (String(name).toLowerCase() === 'src' && isBlockableElement(this)) {
+            const purpose = heldPurpose(this, value);
+            if (purpose) {
+                holdElement(this, String(value), purpose);
+                return;
+            }
+        }
+        return originalSetAttribute.apply(this, arguments as unknown as [string, string]);
+    };
+
+    if (window.MutationObserver) {
+        new MutationObserver(handleMutations).observe(document.documentElement, {
+            childList: true,
+            subtree: true,
+            attributes: true,
+            attributeFilter: ['src']
+        });
+    } else {
+        console.warn('[ComplyArk] MutationObserver unavailable, only marked-up resources are blocked');
+    }
+
+    // Iframes and images already parsed. Scripts before the loader have
+    // run and are not touched
+    const existing = document.querySelectorAll('iframe[src], img[src]');
+    for (let i = 0; i < existing.length; i++) {
+        processElement(existing[i]);
+    }
+}
@@ -0,0 +1,318 @@
+import { BLOCKING_RULES, KNOWN_TRACKERS } from './settings';
+import { state } from './state';
+import { BlockedResource } from './types';
+
+// ============================================================================
+// BLOCKING ENGINE - Core CMP Enforcement
+// ============================================================================
+
+/**
+ * Scan DOM for blocked resources and store references.
+ * Resources with type="text/plain" and data-purpose are managed by CMP.
+ * Elements the auto-blocking engine already holds are skipped.
+ */
+export function scanBlockedResources(): void {
+    // Find scripts marked for blocking
+    const scripts = document.querySelectorAll('script[type="text/plain"][data-purpose]:not([data-complyark-held])');
+    for (let i = 0; i < scripts.length; i++) {
+        const script = scripts[i] as HTMLScriptElement;
+        const purpose = script.getAttribute('data-purpose') || '';
+        const src = script.getAttribute('src') || script.getAttribute('data-src');
+        const inline = script.textContent;
+
+        state.blockedScripts.push({
+            type: 'script',
+            purpose: purpose,
+            src: src,
+            inline: inline,
+            element: script,
+            id: 'script-' + i + '-' + purpose
+        });
+        console.log('[ComplyArk] Blocked script for purpose:', purpose, src ? '(external)' : '(inline)');
+    }
+
+    // Find images (tracking pixels) marked for blocking
+    const images = document.querySelectorAll('img[data-src][data-purpose]:not([data-complyark-held])');
+    for (let j = 0; j < images.length; j++) {
+        const img = images[j] as HTMLImageElement;
+        const imgPurpose = img.getAttribute('data-purpose') || '';
+        state.blockedScripts.push({
+            type: 'pixel',
+            purpose: imgPurpose,
+            src: img.getAttribute('data-src'),
+            element: img,
+            id: 'pixel-' + j + '-' + imgPurpose
+        });
+        console.log('[ComplyArk] Blocked pixel for purpose:', imgPurpose);
+    }
+
+    // Find iframes marked for blocking
+    const iframes = document.querySelectorAll('iframe[data-src][data-purpose]:not([data-complyark-held])');
+    for (let k = 0; k < iframes.length; k++) {
+        const iframe = iframes[k] as HTMLIFrameElement;
+        const iframePurpose = iframe.getAttribute('data-purpose') || '';
+        state.blockedScripts.push({
+            type: 'iframe',
+            purpose: iframePurpose,
+            src: iframe.getAttribute('data-src'),
+            element: iframe,
+            id: 'iframe-' + k + '-' + iframePurpose
+        });
+        console.log('[ComplyArk] Blocked iframe for purpose:', iframePurpose);
+    }
+}
+
+/**
+ * Intercept dynamic script creation.
+ * Override document.createElement to catch scripts added at runtime.
+ */
+export function interceptDynamicScripts(): void {
+    const originalCreateElement = document.createElement.bind(document);
+
+    document.createElement = function(tagName: string) {
+        const element: HTMLElement = originalCreateElement(tagName);
+
+        if (tagName.toLowerCase() === 'script') {
+            // Store original src setter
+            const descriptor = Object.getOwnPropertyDescriptor(HTMLScriptElement.prototype, 'src');
+            const originalSrcSetter = descriptor && descriptor.set;
+
+            // Wrap the element to intercept src assignment
+            let pendingSrc: string | null = null;
+
+            Object.defineProperty(element, '__complyark_intercepted', {
+                value: true,
+                writable: false
+            });
+
+            // Override src property
+            Object.defineProperty(element, 'src', {
+                get: function() {
+                    return pendingSrc;
+                },
+                set: function(value: string) {
+                    const purpose = element.getAttribute('data-purpose') || findBlockingPurpose(value);
+
+                    // If no purpose declared, check if consent already given
+                    if (!purpose) {
+                        // Allow if consent already given, or treat as essential
+                        if (state.consentGiven) {
+                            if (originalSrcSetter) {
+                                originalSrcSetter.call(element, value);
+                            } else {
+                                element.setAttribute('src', value);
+                            }
+                        } else {
+                            // Block unknown scripts - log warning
+                            console.warn('[ComplyArk] Dynamic script without data-purpose blocked:', value);
+                            pendingSrc = value;
+                        }
+                        return;
+                    }
+
+                    // Check if purpose is consented
+                    if (isPurposeConsented(purpose)) {
+                        if (originalSrcSetter) {
+                            originalSrcSetter.call(element, value);
+                        } else {
+                            element.setAttribute('src', value);
+                        }
+                    } else {
+                        console.log('[ComplyArk] Dynamic script blocked for purpose:', purpose);
+                        pendingSrc = value;
+                        state.blockedScripts.push({
+                            type: 'dynamic-script',
+                            purpose: purpose,
+                            src: value,
+                            element: element,
+                            id: 'dynamic-' + Date.now()
+                        });
+                    }
+                }
+            });
+        }
+
+        return element;
+    } as typeof document.createElement;
+}
+
+/**
+ * Whether a value matches a pattern where * matches any run of characters.
+ * Same algorithm as the server's utils/trackers.ts.
+ */
+export function wildcardMatch(value: string, pattern: string): boolean {
+    const parts = pattern.split('*');
+    if (parts.length === 1) return value === pattern;
+
+    const first = parts[0];
+    const last = parts[parts.length - 1];
+    if (value.length < first.length + last.length) return false;
+    if (value.slice(0, first.length) !== first) return false;
+    if (value.slice(value.length - last.length) !== last) return false;
+
+    let position = first.length;
+    const end = value.length - last.length;
+    for (let i = 1; i < parts.length - 1; i++) {
+        const index = value.indexOf(parts[i], position);
+        if (index === -1 || index + parts[i].length > end) return false;
+        position = index + parts[i].length;
+    }
+    return true;
+}
+
+function hostMatches(host: string, domain: string): boolean {
+    return host === domain || host.slice(-(domain.length + 1)) === '.' + domain;
+}
+
+/**
+ * Purpose tag a URL is blocked under, or null. Tenant rules are tried
+ * before adopted known trackers, and URL patterns before domains.
+ */
+export function findBlockingPurpose(url: string | null): string | null {
+    if (!url || (BLOCKING_RULES.length === 0 && KNOWN_TRACKERS.length === 0)) return null;
+
+    const link = document.createElement('a');
+    link.href = String(url);
+    const host = (link.hostname || '').toLowerCase();
+    const address = link.href.replace(/^https?:\/\//i, '');
+    let i, j;
+
+    for (i = 0; i < BLOCKING_RULES.length; i++) {
+        if (BLOCKING_RULES[i].type === 'url' && wildcardMatch(address, BLOCKING_RULES[i].pattern)) return BLOCKING_RULES[i].purpose;
+    }
+    for (i = 0; i < BLOCKING_RULES.length; i++) {
+        if (BLOCKING_RULES[i].type === 'domain' && hostMatches(host, BLOCKING_RULES[i].pattern)) return BLOCKING_RULES[i].purpose;
+    }
+    for (i = 0; i < KNOWN_TRACKERS.length; i++) {
+        for (j = 0; j < KNOWN_TRACKERS[i].scripts.length; j++) {
+            if (wildcardMatch(address, KNOWN_TRACKERS[i].scripts[j])) return KNOWN_TRACKERS[i].purpose;
+        }
+    }
+    for (i = 0; i < KNOWN_TRACKERS.length; i++) {
+        for (j = 0; j < KNOWN_TRACKERS[i].domains.length; j++) {
+            if (hostMatches(host, KNOWN_TRACKERS[i].domains[j])) return KNOWN_TRACKERS[i].purpose;
+        }
+    }
+    return null;
+}
+
+/**
+ * Check if a purpose has been consented to.
+ */
+export function isPurposeConsented(purposeTag: string): boolean {
+    // Check if purpose exists in config
+    if (!state.config) return false;
+
+    const purposeConfig = state.config.purposes.find(function(p) {
+        return p.key === purposeTag;
+    });
+
+    // Unknown purpose = blocked forever
+    if (!purposeConfig) {
+        console.warn('[ComplyArk] Unknown purpose:', purposeTag, '- BLOCKED FOREVER');
+        return false;
+    }
+
+    // Essential purposes are always allowed
+    if (purposeConfig.required) {
+        return true;
+    }
+
+    // Check user consent
+    return state.purposes[purposeTag] === true;
+}
+
+/**
+ * Replay blocked resources for consented purposes.
+ * This runs scripts, loads iframes, and fires pixels.
+ */
+export function replayConsentedResources(): void {
+    console.log('[ComplyArk] Replaying consented resources...');
+
+    state.blockedScripts.forEach(function(blocked) {
+        // Skip if already replayed (idempotent)
+        if (state.replayedScripts.has(blocked.id)) {
+            return;
+        }
+
+        // Check if purpose is consented
+        if (!isPurposeConsented(blocked.purpose)) {
+            console.log('[ComplyArk] Skipping blocked resource (not consented):', blocked.purpose);
+            return;
+        }
+
+        console.log('[ComplyArk] Replaying:', blocked.type, 'for purpose:', blocked.purpose);
+        state.replayedScripts.add(blocked.id);
+
+        switch (blocked.type) {
+            case 'script':
+                replayScript(blocked);
+                break;
+            case 'dynamic-script':
+                replayDynamicScript(blocked);
+                break;
+            case 'pixel':
+                replayPixel(blocked);
+                break;
+            case 'iframe':
+                replayIframe(blocked);
+                break;
+        }
+    });
+}
+
+function replayScript(blocked: BlockedResource): void {
+    // A held script the page has not inserted yet keeps its identity, so
+    // its load handlers still fire once the page inserts it
+    if (blocked.held && blocked.src && blocked.element && !document.documentElement.contains(blocked.element)) {
+        const element = blocked.element as HTMLScriptElement & { __complyarkType?: string | null };
+        if (element.__complyarkType) {
+            element.setAttribute('type', element.__complyarkType);
+        } else {
+            element.removeAttribute('type');
+        }
+        element.setAttribute('data-complyark-replayed', 'true');
+        element.src = blocked.src;
+        return;
+    }
+
+    const newScript = document.createElement('script');
+    newScript.setAttribute('data-purpose', blocked.purpose);
+    newScript.setAttribute('data-complyark-replayed', 'true');
+
+    if (blocked.src) {
+        // External script
+        newScript.src = blocked.src;
+    } else if (blocked.inline) {
+        // Inline script
+        newScript.textContent = blocked.inline;
+    }
+
+    // Replace the blocked script with the new one
+    if (blocked.element && blocked.element.parentNode) {
+        blocked.element.parentNode.replaceChild(newScript, blocked.element);
+    } else {
+        document.body.appendChild(newScript);
+    }
+}
+
+function replayDynamicScript(blocked: BlockedResource): void {
+    if (blocked.element && blocked.src) {
+        // Directly set src on the intercepted element
+        blocked.element.setAttribute('src', blocked.src);
+    }
+}
+
+function replayPixel(blocked: BlockedResource): void {
+    if (blocked.element && blocked.src) {
+        blocked.element.setAttribute('data-complyark-replayed', 'true');
+        (blocked.element as HTMLImageElement).src = blocked.src;
+    }
+}
+
+function replayIframe(blocked: BlockedResource): void {
+    if (blocked.element && blocked.src) {
+        blocked.element.setAttribute('data-complyark-replayed', 'true');
+        (blocked.element as HTMLIFrameElement).src = blocked.src;
+    }
+}
@@ -0,0 +1,56 @@
+import { CONSENT_MODE } from './settings';
+import { PurposeDecisions } from './types';
+
+// ============================================================================
+// GOOGLE CONSENT MODE
+// ============================================================================
+
+function getGtag(): (...args: unknown[]) => void {
+    window.dataLayer = window.dataLayer || [];
+    if (typeof window.gtag !== 'function') {
+        window.gtag = function() { (window.dataLayer = window.dataLayer || []).push(arguments); };
+    }
+    return window.gtag;
+}
+
+/**
+ * Declare default consent before Google tags load. Only mapped signals
+ * are sent; they are denied unless mapped to an essential purpose.
+ */
+export function emitConsentModeDefault(): void {
+    if (!CONSENT_MODE) return;
+
+    const defaults: Record<string, string | number> = {};
+    for (const signal in CONSENT_MODE.defaults) {
+        defaults[signal] = CONSENT_MODE.defaults[signal];
+    }
+    if (CONSENT_MODE.waitForUpdate) {
+        defaults.wait_for_update = CONSENT_MODE.waitForUpdate;
+    }
+
+    const gtag = getGtag();
+    gtag('consent', 'default', defaults);
+    if (CONSENT_MODE.adsDataRedaction) gtag('set', 'ads_data_redaction', true);
+    if (CONSENT_MODE.urlPassthrough) gtag('set', 'url_passthrough', true);
+    console.log('[ComplyArk] Consent Mode defaults set:', defaults);
+}
+
+/**
+ * A signal is granted when any purpose mapped to it is granted.
+ */
+export function emitConsentModeUpdate(purposes: PurposeDecisions | null): void {
+    if (!CONSENT_MODE) return;
+
+    const update: Record<string, string> = {};
+    for (const signal in CONSENT_MODE.signals) {
+        let granted = CONSENT_MODE.defaults[signal] === 'granted';
+        const tags = CONSENT_MODE.signals[signal];
+        for (let i = 0; i < tags.length; i++) {
+            if (purposes && purposes[tags[i]] === true) granted = true;
+        }
+        update[signal] = granted ? 'granted' : 'denied';
+    }
+
+    getGtag()('consent', 'update', update);
+    console.log('[ComplyArk] Consent Mode updated:', update);
+}
@@ -0,0 +1,101 @@
+import { emitConsentModeUpdate } from './consent-mode';
+import { recordConsent } from './ledger';
+import { CONSENT_KEY, PREVIEW_CONFIG, SITE_ID, VERSION } from './settings';
+import { state } from './state';
+import { updateTcfSignals } from './tcf';
+import { ConsentAction, PurposeDecisions, StoredConsent } from './types';
+
+// ============================================================================
+// CONSENT MANAGEMENT
+// ============================================================================
+
+export function loadExistingConsent(): StoredConsent | null {
+    try {
+        const stored = localStorage.getItem(CONSENT_KEY);
+        if (stored) {
+            const consent = JSON.parse(stored);
+            // Validate consent structure
+            if (consent && consent.purposes && consent.websiteId === SITE_ID) {
+                console.log('[ComplyArk] Loaded existing consent:', consent);
+                return consent;
+            }
+        }
+    } catch (e) {
+        console.warn('[ComplyArk] Cannot load consent:', e);
+    }
+    return null;
+}
+
+/**
+ * Stored consent only counts if it was given against the latest MATERIAL
+ * version of the notice and purposes. Consent saved before versioning
+ * has no configVersion and is treated as version 0.
+ */
+export function needsReconsent(consent: StoredConsent): boolean {
+    if (!state.config || !state.config.reconsentVersion) return false;
+    return (consent.configVersion || 0) < state.config.reconsentVersion;
+}
+
+/**
+ * Stored consent lapses after the website's consent lifetime. Decisions that
+ * grant no optional purpose use the (usually shorter) reject lifetime.
+ */
+export function isConsentExpired(consent: StoredConsent): boolean {
+    if (!state.config || !state.config.consentLifetimeDays || !consent.timestamp) return false;
+
+    let rejected = true;
+    state.config.purposes.forEach(function(p) {
+        if (!p.required && consent.purposes[p.key]) rejected = false;
+    });
+
+    const days = rejected
+        ? (state.config.rejectLifetimeDays || state.config.consentLifetimeDays)
+        : state.config.consentLifetimeDays;
+    return Date.now() - consent.timestamp > days * 24 * 60 * 60 * 1000;
+}
+
+export function saveConsent(purposes: PurposeDecisions, action: ConsentAction): StoredConsent {
+    const consent = storeConsent(purposes, Date.now());
+    recordConsent(action, purposes);
+    return consent;
+}
+
+/**
+ * Persist consent locally and notify listeners, without writing to the ledger.
+ */
+export function storeConsent(purposes: PurposeDecisions, timestamp: number): StoredConsent {
+    const consent: StoredConsent = {
+        purposes: purposes,
+        websiteId: SITE_ID,
+        language: state.resolvedLanguage,
+        noticeVersion: state.config ? state.config.noticeVersion : null,
+        configVersion: state.config ? state.config.configVersion : null,
+        timestamp: timestamp,
+        version: VERSION
+    };
+
+    if (PREVIEW_CONFIG) {
+        console.log('[ComplyArk] Preview mode, consent not saved:', consent);
+    } else {
+        try {
+            localStorage.setItem(CONSENT_KEY, JSON.stringify(consent));
+            console.log('[ComplyArk] Consent saved:', consent);
+        } catch (e) {
+            console.error('[ComplyArk] Cannot save consent:', e);
+        }
+    }
+
+    emitConsentModeUpdate(purposes);
+    updateTcfSignals(purposes, timestamp, 'useractioncomplete');
+
+    // Dispatch event for external listeners
+    try {
+        window.dispatchEvent(new CustomEvent('complyark:consent', { detail: consent }));
+    } catch (e) {
+        const event = document.createEvent('CustomEvent');
+        event.initCustomEvent('complyark:consent', true, true, consent);
+        window.dispatchEvent(event);
+    }
+
+    return consent;
+}
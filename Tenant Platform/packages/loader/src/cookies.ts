@@ -0,0 +1,142 @@
+import { isPurposeConsented, wildcardMatch } from './blocking';
+import { COOKIE_RULES } from './settings';
+import { state } from './state';
+import { RuntimeCookie } from './types';
+
+// ============================================================================
+// COOKIE GOVERNANCE - Drops and purges storage of purposes not consented
+// ============================================================================
+
+let cookieDescriptor: PropertyDescriptor | null = null;
+let localStore: Storage | null = null;
+
+function findCookiePurpose(name: string, type: RuntimeCookie['type']): string | null {
+    for (let i = 0; i < COOKIE_RULES.length; i++) {
+        if (COOKIE_RULES[i].type === type && wildcardMatch(name, COOKIE_RULES[i].name)) return COOKIE_RULES[i].purpose;
+    }
+    return null;
+}
+
+/**
+ * Undeclared names are allowed; declared ones once their purpose is
+ * consented. The loader's own keys are always allowed.
+ */
+function isStorageAllowed(name: string, type: RuntimeCookie['type']): boolean {
+    if (type === 'localStorage' && name.indexOf('__complyark_') === 0) return true;
+    const purpose = findCookiePurpose(name, type);
+    return !purpose || isPurposeConsented(purpose);
+}
+
+// Deleting a cookie is always allowed
+function isCookieDeletion(value: string): boolean {
+    if (/;\s*max-age\s*=\s*(0|-\d+)\s*(;|$)/i.test(value)) return true;
+    const expires = /;\s*expires\s*=\s*([^;]+)/i.exec(value);
+    return !!expires && new Date(expires[1]).getTime() <= Date.now();
+}
+
+function readCookies(): string {
+    return cookieDescriptor && cookieDescriptor.get ? cookieDescriptor.get.call(document) : document.cookie;
+}
+
+/**
+ * Expire a cookie on every path and domain it may have been set on,
+ * since document.cookie does not tell.
+ */
+function deleteCookie(name: string): void {
+    const expired = name + '=; expires=Thu, 01 Jan 1970 00:00:00 GMT; max-age=0; path=';
+    const paths = ['/'];
+    const segments = location.pathname.split('/');
+    for (let i = 1; i < segments.length; i++) {
+        if (!segments[i]) continue;
+        const path = segments.slice(0, i + 1).join('/');
+        paths.push(path, path + '/');
+    }
+    const labels = location.hostname.split('.');
+
+    for (let p = 0; p < paths.length; p++) {
+        document.cookie = expired + paths[p];
+        for (let d = 0; d < labels.length - 1; d++) {
+            document.cookie = expired + paths[p] + '; domain=.' + labels.slice(d).join('.');
+        }
+    }
+}
+
+/**
+ * Remove declared cookies and localStorage keys whose purpose is not
+ * consented, including any left by earlier visits. HttpOnly cookies are
+ * out of reach of scripts.
+ */
+export function purgeNonConsentedStorage(): void {
+    if (COOKIE_RULES.length === 0 || !state.config) return;
+
+    const cookies = readCookies().split(';');
+    for (let i = 0; i < cookies.length; i++) {
+        const name = cookies[i].split('=')[0].replace(/^\s+|\s+$/g, '');
+        if (name && !isStorageAllowed(name, 'cookie')) {
+            console.log('[ComplyArk] Purging cookie:', name);
+            deleteCookie(name);
+        }
+    }
+
+    const store = localStore;
+    if (!store) return;
+    const keys: Array<string | null> = [];
+    for (let j = 0; j < store.length; j++) {
+        keys.push(store.key(j));
+    }
+    keys.forEach(function(key) {
+        if (key !== null && !isStorageAllowed(key, 'localStorage')) {
+            console.log('[ComplyArk] Purging localStorage key:', key);
+            store.removeItem(key);
+        }
+    });
+}
+
+/**
+ * Route document.cookie and localStorage writes through the declarations.
+ * Writes of purposes not consented are dropped.
+ */
+export function installCookieGovernance(): void {
+    if (COOKIE_RULES.length === 0) return;
+
+    const descriptor = Object.getOwnPropertyDescriptor(Document.prototype, 'cookie') ||
+        (window.HTMLDocument && Object.getOwnPropertyDescriptor(HTMLDocument.prototype, 'cookie'));
+    if (descriptor && descriptor.configurable && descriptor.get && descriptor.set) {
+        const nativeGet = descriptor.get;
+        const nativeSet = descriptor.set;
+        cookieDescriptor = descriptor;
+        Object.defineProperty(document, 'cookie', {
+            configurable: true,
+            get: function() {
+                return nativeGet.call(document);
+            },
+            set: function(value: string) {
+                const text = String(value);
+                const name = text.split(';')[0].split('=')[0].replace(/^\s+|\s+$/g, '');
+                if (!isCookieDeletion(text) && !isStorageAllowed(name, 'cookie')) {
+                    console.log('[ComplyArk] Cookie write blocked:', name);
+                    return;
+                }
+                nativeSet.call(document, value);
+            }
+        });
+    } else {
+        cookieDescriptor = null;
+    }
+
+    try {
+        localStore = window.localStorage;
+    } catch (e) {
+        // Storage is unavailable when the visitor blocks site data
+    }
+    if (localStore && window.Storage) {
+        const originalSetItem = Storage.prototype.setItem;
+        Storage.prototype.setItem = function(this: Storage, key: string) {
+            if (this === localStore && !isStorageAllowed(String(key), 'localStorage')) {
+                console.log('[ComplyArk] localStorage write blocked:', key);
+                return;
+            }
+            return originalSetItem.apply(this, arguments as unknown as [string, string]);
+        };
+    }
+}
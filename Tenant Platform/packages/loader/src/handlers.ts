@@ -0,0 +1,64 @@
+import { replayConsentedResources } from './blocking';
+import { saveConsent } from './consent';
+import { purgeNonConsentedStorage } from './cookies';
+import { state } from './state';
+import { trackDecision } from './telemetry';
+import { PurposeDecisions } from './types';
+import { hideBanner } from './ui/banner';
+import { hideSettings } from './ui/settings';
+
+// ============================================================================
+// CONSENT HANDLERS
+// ============================================================================
+
+export function handleAcceptAll(): void {
+    console.log('[ComplyArk] Accept All clicked');
+    if (!state.config) return;
+    const consent: PurposeDecisions = {};
+    state.config.purposes.forEach(function(p) {
+        consent[p.key] = true;
+    });
+    state.purposes = consent;
+    state.consentGiven = true;
+    trackDecision('ACCEPT_ALL', consent);
+    saveConsent(consent, 'ACCEPT_ALL');
+    hideBanner();
+    hideSettings();
+    replayConsentedResources();
+}
+
+export function handleRejectAll(): void {
+    console.log('[ComplyArk] Reject All clicked');
+    if (!state.config) return;
+    const consent: PurposeDecisions = {};
+    state.config.purposes.forEach(function(p) {
+        consent[p.key] = p.required; // Only essential purposes
+    });
+    state.purposes = consent;
+    state.consentGiven = true;
+    trackDecision('REJECT_ALL', consent);
+    saveConsent(consent, 'REJECT_ALL');
+    hideBanner();
+    hideSettings();
+    replayConsentedResources();
+    purgeNonConsentedStorage();
+}
+
+export function handleSaveSettings(): void {
+    console.log('[ComplyArk] Save Settings clicked');
+    if (!state.settingsElement) return;
+    const toggles = state.settingsElement.querySelectorAll<HTMLInputElement>('input[data-purpose]');
+    const consent: PurposeDecisions = {};
+
+    for (let i = 0; i < toggles.length; i++) {
+        consent[toggles[i].getAttribute('data-purpose') || ''] = toggles[i].checked;
+    }
+
+    state.purposes = consent;
+    state.consentGiven = true;
+    trackDecision('CUSTOM', consent);
+    saveConsent(consent, 'CUSTOM');
+    hideSettings();
+    replayConsentedResources();
+    purgeNonConsentedStorage();
+}
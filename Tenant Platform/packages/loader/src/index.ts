@@ -0,0 +1,68 @@
+/**
+ * ComplyArk CMP Loader - Production-Grade Runtime
+ *
+ * DPDPA-COMPLIANT CONSENT MANAGEMENT PLATFORM
+ *
+ * This loader is an EXECUTION GATE, not just a banner.
+ * It enforces purpose-based consent by:
+ * 1. BLOCKING all non-essential scripts/iframes/pixels before consent
+ * 2. ALLOWING execution ONLY for consented purposes
+ * 3. REPLAYING blocked resources after consent is given
+ *
+ * STRICT RULES:
+ * - No personal data processing before consent
+ * - Unknown/undeclared purposes = blocked forever
+ * - Essential purposes auto-allowed
+ * - Fail closed on any error
+ *
+ * The site-specific settings (site ID, API base, blocking rules...) are
+ * read from window.__complyarkBootstrap, which the server writes in front
+ * of this bundle.
+ */
+
+import { installAutoBlocking } from './auto-blocking';
+import { installPublicApi } from './api';
+import { emitConsentModeDefault } from './consent-mode';
+import { installCookieGovernance } from './cookies';
+import { init } from './init';
+import { installConsentSync } from './my-consents';
+import { SITE_ID, VERSION } from './settings';
+import { installTcfApi } from './tcf';
+import { installTelemetry } from './telemetry';
+
+function start(): void {
+    // ========================================================================
+    // GUARD: Prevent duplicate initialization
+    // ========================================================================
+
+    if (window.__complyarkInitialized) {
+        console.log('[ComplyArk] Already initialized, skipping.');
+        return;
+    }
+    window.__complyarkInitialized = true;
+
+    if (!SITE_ID) {
+        console.error('[ComplyArk] FAIL CLOSED: No site_id provided.');
+        return;
+    }
+
+    console.log('[ComplyArk] CMP Runtime v' + VERSION + ' initializing...');
+    console.log('[ComplyArk] Site ID:', SITE_ID);
+
+    emitConsentModeDefault();
+    installTcfApi();
+    installAutoBlocking();
+    installCookieGovernance();
+    installTelemetry();
+    installConsentSync();
+    installPublicApi();
+
+    // Start when DOM is ready
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', init);
+    } else {
+        init();
+    }
+}
+
+start();
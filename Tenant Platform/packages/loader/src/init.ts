@@ -0,0 +1,155 @@
+import { interceptDynamicScripts, replayConsentedResources, scanBlockedResources } from './blocking';
+import { emitConsentModeUpdate } from './consent-mode';
+import { isConsentExpired, loadExistingConsent, needsReconsent } from './consent';
+import { purgeNonConsentedStorage } from './cookies';
+import { resolveLanguage } from './language';
+import { syncConsentFromLedger } from './my-consents';
+import { loadReceipt } from './receipts';
+import { CONFIG_URL, CONSENT_KEY, INLINE_CONFIG, PREVIEW_CONFIG } from './settings';
+import { state } from './state';
+import { updateTcfSignals } from './tcf';
+import { RuntimeWebsiteConfig } from './types';
+import { showBanner } from './ui/banner';
+import { assignBannerVariant } from './variants';
+
+// ============================================================================
+// INITIALIZATION
+// ============================================================================
+
+export function init(): void {
+    console.log('[ComplyArk] Fetching runtime config...');
+
+    // CRITICAL: Scan and intercept BEFORE loading config
+    scanBlockedResources();
+    interceptDynamicScripts();
+
+    state.receipt = loadReceipt();
+
+    if (PREVIEW_CONFIG) {
+        console.log('[ComplyArk] Previewing draft config');
+        if (applyConfig(PREVIEW_CONFIG)) {
+            replayConsentedResources();
+            showBanner();
+        }
+        return;
+    }
+
+    // Check for existing consent
+    const existingConsent = loadExistingConsent();
+
+    if (existingConsent && existingConsent.purposes) {
+        console.log('[ComplyArk] Existing consent found, applying...');
+        state.purposes = existingConsent.purposes;
+        state.consentGiven = true;
+        state.resolvedLanguage = existingConsent.language || 'en';
+
+        // Still need to fetch config for replay; withdrawals made on the
+        // My Consents page must be applied before anything is replayed
+        fetchConfig(function(config) {
+            const expired = isConsentExpired(existingConsent);
+            if (expired || needsReconsent(existingConsent)) {
+                console.log(expired
+                    ? '[ComplyArk] Stored consent has expired, asking for consent again'
+                    : '[ComplyArk] Notice or purposes changed materially, asking for consent again');
+                try {
+                    localStorage.removeItem(CONSENT_KEY);
+                } catch (e) {}
+                state.consentGiven = false;
+                state.purposes = {};
+                config.purposes.forEach(function(p) {
+                    state.purposes[p.key] = p.required;
+                });
+                replayConsentedResources();
+                purgeNonConsentedStorage();
+                showBanner();
+                return;
+            }
+            emitConsentModeUpdate(state.purposes);
+            updateTcfSignals(state.purposes, existingConsent.timestamp || Date.now(), 'tcloaded');
+            syncConsentFromLedger(existingConsent, function() {
+                replayConsentedResources();
+                purgeNonConsentedStorage();
+            });
+        });
+        return;
+    }
+
+    // No existing consent - fetch config and show banner. Resources held
+    // for essential purposes load as soon as the config says so, and
+    // storage left by earlier visits is purged
+    fetchConfig(function() {
+        replayConsentedResources();
+        purgeNonConsentedStorage();
+        showBanner();
+    });
+}
+
+/**
+ * Validate a runtime config and make it current. Returns false (fail closed)
+ * when the English notice or any English purpose label is missing.
+ */
+export function applyConfig(config: RuntimeWebsiteConfig): boolean {
+    // Validate English notice exists
+    if (!config.notice || !config.notice['en']) {
+        console.error('[ComplyArk] FAIL CLOSED: English notice missing');
+        return false;
+    }
+
+    // Validate purposes have English labels
+    if (!config.purposes || config.purposes.length === 0) {
+        console.error('[ComplyArk] FAIL CLOSED: No purposes defined');
+        return false;
+    }
+
+    for (let i = 0; i < config.purposes.length; i++) {
+        if (!config.purposes[i].labels || !config.purposes[i].labels['en']) {
+            console.error('[ComplyArk] FAIL CLOSED: Purpose missing English label');
+            return false;
+        }
+    }
+
+    console.log('[ComplyArk] Config loaded successfully');
+    assignBannerVariant(config);
+    state.config = config;
+    state.resolvedLanguage = resolveLanguage(config);
+
+    // Initialize purpose states
+    config.purposes.forEach(function(p) {
+        if (state.purposes[p.key] === undefined) {
+            state.purposes[p.key] = p.required; // Essential = true, others = false
+        }
+    });
+
+    return true;
+}
+
+function fetchConfig(callback: (config: RuntimeWebsiteConfig) => void): void {
+    if (INLINE_CONFIG) {
+        if (applyConfig(INLINE_CONFIG) && callback) callback(INLINE_CONFIG);
+        return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open('GET', CONFIG_URL, true);
+
+    xhr.onload = function() {
+        if (xhr.status >= 200 && xhr.status < 300) {
+            try {
+                const config = JSON.parse(xhr.responseText);
+                if (applyConfig(config) && callback) callback(config);
+            } catch (e) {
+                console.error('[ComplyArk] FAIL CLOSED: Cannot parse config', e);
+            }
+        } else if (xhr.status === 404) {
+            console.error('[ComplyArk] FAIL CLOSED: Website not found or not active');
+        } else {
+            console.error('[ComplyArk] FAIL CLOSED: Config fetch failed:', xhr.status);
+        }
+    };
+
+    xhr.onerror = function() {
+        console.error('[ComplyArk] FAIL CLOSED: Network error');
+    };
+
+    xhr.send();
+}
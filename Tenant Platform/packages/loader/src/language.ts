@@ -0,0 +1,63 @@
+import { LANGUAGE_KEY } from './settings';
+import { RuntimeNoticeTranslation, RuntimePurposeLabel, RuntimeWebsiteConfig } from './types';
+
+// ============================================================================
+// LANGUAGE RESOLUTION
+// ============================================================================
+
+/**
+ * The visitor's stored choice, then the browser language, then the
+ * website default, then English. Only supported languages are used.
+ */
+export function resolveLanguage(config: RuntimeWebsiteConfig): string {
+    const supported = config.supportedLanguages || ['en'];
+    const defaultLang = config.defaultLanguage || 'en';
+
+    // 1. Check stored preference
+    try {
+        const stored = localStorage.getItem(LANGUAGE_KEY);
+        if (stored && supported.indexOf(stored) !== -1) {
+            return stored;
+        }
+    } catch (e) {}
+
+    // 2. Browser language
+    const browserLang = (navigator.language || '').split('-')[0].toLowerCase();
+    if (browserLang && supported.indexOf(browserLang) !== -1) {
+        persistLanguage(browserLang);
+        return browserLang;
+    }
+
+    // 3. Default or English
+    if (supported.indexOf(defaultLang) !== -1) {
+        persistLanguage(defaultLang);
+        return defaultLang;
+    }
+
+    persistLanguage('en');
+    return 'en';
+}
+
+export function persistLanguage(code: string): void {
+    try {
+        localStorage.setItem(LANGUAGE_KEY, code);
+    } catch (e) {}
+}
+
+// ============================================================================
+// TRANSLATION HELPERS
+// ============================================================================
+
+export function getNoticeTranslation(
+    notice: Record<string, RuntimeNoticeTranslation>,
+    lang: string
+): RuntimeNoticeTranslation | null {
+    return notice[lang] || notice['en'] || null;
+}
+
+export function getPurposeTranslation(
+    labels: Record<string, RuntimePurposeLabel>,
+    lang: string
+): RuntimePurposeLabel | null {
+    return labels[lang] || labels['en'] || null;
+}
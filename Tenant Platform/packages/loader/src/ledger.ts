@@ -0,0 +1,117 @@
+import { saveReceipt } from './receipts';
+import { API_BASE, PREVIEW_CONFIG, SITE_ID, VERSION, VISITOR_KEY } from './settings';
+import { state } from './state';
+import { trackEvent } from './telemetry';
+import { ConsentAction, PurposeDecisions } from './types';
+
+// ============================================================================
+// CONSENT LEDGER - Server-side proof of consent
+// ============================================================================
+
+/**
+ * Count the banner being shown, once per page view, for consent analytics.
+ * Anonymous: carries the language only, no visitor ID.
+ */
+export function reportImpression(): void {
+    if (PREVIEW_CONFIG || state.impressionReported) return;
+    state.impressionReported = true;
+    state.bannerShownAt = Date.now();
+    trackEvent('BANNER_SHOWN');
+
+    try {
+        const xhr = new XMLHttpRequest();
+        xhr.open('POST', API_BASE + '/runtime/websites/' + SITE_ID + '/impressions', true);
+        xhr.setRequestHeader('Content-Type', 'application/json');
+        xhr.send(JSON.stringify({ language: state.resolvedLanguage }));
+    } catch (e) {
+        console.warn('[ComplyArk] Cannot report banner impression:', e);
+    }
+}
+
+/**
+ * Anonymous visitor ID used to link ledger records from the same browser.
+ * Random, never derived from personal data.
+ */
+export function getVisitorId(): string {
+    try {
+        const existing = localStorage.getItem(VISITOR_KEY);
+        if (existing) return existing;
+    } catch (e) {}
+
+    const bytes: number[] = [];
+    if (window.crypto && window.crypto.getRandomValues) {
+        const buffer = new Uint8Array(16);
+        window.crypto.getRandomValues(buffer);
+        for (let i = 0; i < buffer.length; i++) bytes.push(buffer[i]);
+    } else {
+        for (let j = 0; j < 16; j++) bytes.push(Math.floor(Math.random() * 256));
+    }
+
+    const hex = bytes.map(function(b) { return (b < 16 ? '0' : '') + b.toString(16); }).join('');
+    const visitorId = hex.substr(0, 8) + '-' + hex.substr(8, 4) + '-' + hex.substr(12, 4) + '-' +
+        hex.substr(16, 4) + '-' + hex.substr(20, 12);
+
+    try {
+        localStorage.setItem(VISITOR_KEY, visitorId);
+    } catch (e) {}
+    return visitorId;
+}
+
+/**
+ * Append the decision to the consent ledger.
+ * Fire-and-forget: local enforcement never waits on the network.
+ */
+export function recordConsent(action: ConsentAction, purposes: PurposeDecisions): void {
+    if (PREVIEW_CONFIG) return;
+
+    const purposeVersions: Record<string, string> = {};
+    if (state.config && state.config.purposes) {
+        state.config.purposes.forEach(function(p) {
+            if (p.version) purposeVersions[p.key] = p.version;
+        });
+    }
+
+    const payload: Record<string, unknown> = {
+        visitorId: getVisitorId(),
+        action: action,
+        decisions: purposes || {},
+        language: state.resolvedLanguage,
+        purposeVersions: purposeVersions,
+        loaderVersion: VERSION
+    };
+    if (state.config && state.config.bannerVariants) {
+        payload.bannerVariant = state.bannerVariant;
+    }
+    if (state.config && state.config.noticeVersion) {
+        payload.noticeVersion = state.config.noticeVersion;
+    }
+    if (state.config && state.config.configVersion) {
+        payload.configVersion = state.config.configVersion;
+    }
+
+    try {
+        const xhr = new XMLHttpRequest();
+        xhr.open('POST', API_BASE + '/runtime/websites/' + SITE_ID + '/consents', true);
+        xhr.setRequestHeader('Content-Type', 'application/json');
+        xhr.onload = function() {
+            if (xhr.status < 200 || xhr.status >= 300) {
+                console.warn('[ComplyArk] Consent ledger rejected record:', xhr.status);
+                return;
+            }
+            try {
+                const response = JSON.parse(xhr.responseText);
+                if (response.data && response.data.receipt) {
+                    saveReceipt(response.data.receipt);
+                }
+            } catch (e) {
+                console.warn('[ComplyArk] Cannot read consent receipt:', e);
+            }
+        };
+        xhr.onerror = function() {
+            console.warn('[ComplyArk] Consent ledger unreachable');
+        };
+        xhr.send(JSON.stringify(payload));
+    } catch (e) {
+        console.warn('[ComplyArk] Cannot record consent:', e);
+    }
+}
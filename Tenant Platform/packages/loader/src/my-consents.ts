@@ -0,0 +1,169 @@
+import { replayConsentedResources } from './blocking';
+import { storeConsent } from './consent';
+import { getVisitorId } from './ledger';
+import { saveReceipt } from './receipts';
+import { API_BASE, LEDGER_SYNC_KEY, LEDGER_SYNC_MAX_AGE_MS, SITE_ID } from './settings';
+import { state } from './state';
+import { ConsentReceipt, PurposeDecisions, StoredConsent } from './types';
+
+// ============================================================================
+// MY CONSENTS - Hosted consent dashboard
+// ============================================================================
+
+interface LedgerPurpose {
+    key: string;
+    granted: boolean;
+}
+
+// The My Consents window this page opened, the only sender trusted
+let consentManagerWindow: Window | null = null;
+
+function getConsentManagerUrl(): string {
+    return API_BASE + '/public/consents/' + SITE_ID +
+        '?visitor=' + encodeURIComponent(getVisitorId()) +
+        '&lang=' + encodeURIComponent(state.resolvedLanguage);
+}
+
+/**
+ * Opened with window.open (not a target=_blank link) so the page keeps
+ * window.opener and can report withdrawals back to this loader. The next
+ * page view checks the ledger, in case this page is gone by then.
+ */
+export function openConsentManager(): void {
+    try {
+        localStorage.removeItem(LEDGER_SYNC_KEY);
+    } catch (e) {}
+    consentManagerWindow = window.open(getConsentManagerUrl(), 'complyark-my-consents');
+}
+
+/**
+ * Origin of the hosted pages, which API_BASE may give with a path
+ */
+function apiOrigin(): string {
+    try {
+        return new URL(API_BASE).origin;
+    } catch (e) {
+        return API_BASE;
+    }
+}
+
+/**
+ * Whether stored consent should be checked against the ledger: it never
+ * was, the last check is stale, or the My Consents page was opened since.
+ */
+function ledgerSyncDue(): boolean {
+    try {
+        const last = parseInt(localStorage.getItem(LEDGER_SYNC_KEY) || '', 10);
+        return isNaN(last) || Date.now() - last > LEDGER_SYNC_MAX_AGE_MS;
+    } catch (e) {
+        return true;
+    }
+}
+
+function ledgerToPurposes(ledgerPurposes: LedgerPurpose[]): PurposeDecisions {
+    const purposes: PurposeDecisions = {};
+    ledgerPurposes.forEach(function(p) {
+        purposes[p.key] = p.granted === true;
+    });
+    return purposes;
+}
+
+function purposesDiffer(a: PurposeDecisions, b: PurposeDecisions): boolean {
+    let key;
+    for (key in a) {
+        if (a.hasOwnProperty(key) && (a[key] === true) !== (b[key] === true)) return true;
+    }
+    for (key in b) {
+        if (b.hasOwnProperty(key) && (a[key] === true) !== (b[key] === true)) return true;
+    }
+    return false;
+}
+
+/**
+ * Apply a decision made on the My Consents page.
+ * Scripts that already ran cannot be unloaded, so a narrowed consent
+ * reloads the page and the blocking engine starts from the new state.
+ */
+function applyLedgerConsent(purposes: PurposeDecisions, timestamp: number, receipt: ConsentReceipt | null): void {
+    let narrowed = false;
+    for (const key in state.purposes) {
+        if (state.purposes.hasOwnProperty(key) && state.purposes[key] === true && purposes[key] !== true) {
+            narrowed = true;
+        }
+    }
+
+    state.purposes = purposes;
+    state.consentGiven = true;
+    storeConsent(purposes, timestamp || Date.now());
+    if (receipt) saveReceipt(receipt);
+
+    if (narrowed) {
+        console.log('[ComplyArk] Consent withdrawn on My Consents page, re-blocking...');
+        window.location.reload();
+        return;
+    }
+    if (state.config) replayConsentedResources();
+}
+
+/**
+ * Pick up decisions recorded on the My Consents page since this browser
+ * last stored consent. Runs before replay so withdrawn purposes stay blocked.
+ * Only when a check is due; falls back to local consent if the ledger
+ * cannot be reached, and tries again on the next page view.
+ */
+export function syncConsentFromLedger(localConsent: StoredConsent, callback: () => void): void {
+    let done = false;
+    function finish() {
+        if (done) return;
+        done = true;
+        callback();
+    }
+
+    if (!ledgerSyncDue()) {
+        finish();
+        return;
+    }
+
+    try {
+        const xhr = new XMLHttpRequest();
+        xhr.open('GET', API_BASE + '/runtime/websites/' + SITE_ID + '/visitors/' +
+            encodeURIComponent(getVisitorId()) + '/consents', true);
+        xhr.timeout = 3000;
+        xhr.onload = function() {
+            try {
+                const ok = xhr.status >= 200 && xhr.status < 300;
+                const data = ok ? JSON.parse(xhr.responseText).data : null;
+                if (ok) localStorage.setItem(LEDGER_SYNC_KEY, String(Date.now()));
+                if (data && data.updatedAt && new Date(data.updatedAt).getTime() > (localConsent.timestamp || 0)) {
+                    const purposes = ledgerToPurposes(data.purposes || []);
+                    if (purposesDiffer(purposes, state.purposes)) {
+                        console.log('[ComplyArk] Applying newer consent from ledger:', purposes);
+                        state.purposes = purposes;
+                        storeConsent(purposes, new Date(data.updatedAt).getTime());
+                    }
+                }
+            } catch (e) {
+                console.warn('[ComplyArk] Cannot read consent ledger state:', e);
+            }
+            finish();
+        };
+        xhr.onerror = finish;
+        xhr.ontimeout = finish;
+        xhr.send();
+    } catch (e) {
+        finish();
+    }
+}
+
+/**
+ * Listen for withdrawals made on the My Consents page (opened from this page).
+ * Messages from other origins or other windows are ignored.
+ */
+export function installConsentSync(): void {
+    window.addEventListener('message', function(event) {
+        if (event.origin !== apiOrigin() || !consentManagerWindow || event.source !== consentManagerWindow) return;
+        const data = event.data;
+        if (!data || data.type !== 'complyark:consent-updated' || data.siteId !== SITE_ID || !data.purposes) return;
+        applyLedgerConsent(data.purposes, data.timestamp, data.receipt);
+    });
+}
@@ -0,0 +1,59 @@
+import { API_BASE, RECEIPT_KEY, SITE_ID } from './settings';
+import { state } from './state';
+import { ConsentReceipt } from './types';
+
+// ============================================================================
+// CONSENT RECEIPTS
+// ============================================================================
+
+export function loadReceipt(): ConsentReceipt | null {
+    try {
+        const stored = localStorage.getItem(RECEIPT_KEY);
+        if (stored) {
+            const receipt = JSON.parse(stored);
+            if (receipt && receipt.payload && receipt.payload.websiteId === SITE_ID) {
+                return receipt;
+            }
+        }
+    } catch (e) {
+        console.warn('[ComplyArk] Cannot load receipt:', e);
+    }
+    return null;
+}
+
+export function saveReceipt(receipt: ConsentReceipt): void {
+    state.receipt = receipt;
+    try {
+        localStorage.setItem(RECEIPT_KEY, JSON.stringify(receipt));
+    } catch (e) {
+        console.warn('[ComplyArk] Cannot save receipt:', e);
+    }
+    console.log('[ComplyArk] Consent receipt issued:', receipt.receiptId);
+}
+
+export function getReceiptVerifyUrl(receipt: ConsentReceipt): string {
+    return API_BASE + '/runtime/receipts/' + encodeURIComponent(receipt.receiptId) +
+        '?signature=' + encodeURIComponent(receipt.signature);
+}
+
+export function downloadReceipt(receipt: ConsentReceipt): void {
+    const json = JSON.stringify(receipt, null, 2);
+    const fileName = 'consent-receipt-' + receipt.receiptId + '.json';
+    try {
+        const blob = new Blob([json], { type: 'application/json' });
+        if (window.navigator && window.navigator.msSaveOrOpenBlob) {
+            window.navigator.msSaveOrOpenBlob(blob, fileName);
+            return;
+        }
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        setTimeout(function() { URL.revokeObjectURL(url); }, 0);
+    } catch (e) {
+        console.error('[ComplyArk] Cannot download receipt:', e);
+    }
+}
@@ -0,0 +1,82 @@
+import { LoaderBootstrap, RuntimeBlockingRule, RuntimeConsentMode, RuntimeCookie, RuntimeTracker, RuntimeWebsiteConfig } from './types';
+
+// ============================================================================
+// CONSTANTS & STORAGE KEYS
+// ============================================================================
+
+export const CONSENT_KEY = '__complyark_consent__';
+export const LANGUAGE_KEY = '__complyark_user_lang__';
+export const VISITOR_KEY = '__complyark_visitor__';
+export const RECEIPT_KEY = '__complyark_receipt__';
+export const VARIANT_KEY = '__complyark_variant__';
+export const LEDGER_SYNC_KEY = '__complyark_ledger_sync__';
+export const VERSION = '2.0.0';
+
+// Written by the server in front of the bundle, which is the same for
+// every website
+const bootstrap: Partial<LoaderBootstrap> = window.__complyarkBootstrap || {};
+
+export const SITE_ID = bootstrap.siteId || '';
+export const API_BASE = bootstrap.apiBase || '';
+
+// Static publishing: a per-site loader carries its config; otherwise the
+// config may come from the static origin rather than the runtime API
+export const INLINE_CONFIG: RuntimeWebsiteConfig | null = bootstrap.config || null;
+export const CONFIG_URL = bootstrap.configUrl || API_BASE + '/runtime/websites/' + SITE_ID;
+
+// How long stored consent is trusted before the ledger is checked again
+// for decisions made on the My Consents page
+export const LEDGER_SYNC_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Share of page views that report banner lifecycle telemetry
+export const TELEMETRY_SAMPLE_RATE = bootstrap.telemetrySampleRate === undefined ? 1 : bootstrap.telemetrySampleRate;
+export const TELEMETRY_MAX_BATCH = 20;
+
+// Set by the tenant dashboard's draft preview page: the loader renders this
+// config instead of fetching the published one and records nothing.
+export const PREVIEW_CONFIG: RuntimeWebsiteConfig | null = window.__complyarkPreviewConfig || null;
+
+const tcf = bootstrap.tcf || { enabled: false, cmpId: 0, cmpVersion: 1 };
+
+// Google Consent Mode v2 settings, or null when disabled
+export const CONSENT_MODE: RuntimeConsentMode | null = PREVIEW_CONFIG
+    ? (PREVIEW_CONFIG.consentMode || null)
+    : (bootstrap.consentMode || null);
+
+// IAB TCF v2.2 / GPP: expose __tcfapi and __gpp. Vendors, purposes and the
+// vendor list version arrive with the runtime config
+export const TCF_ENABLED = PREVIEW_CONFIG ? !!PREVIEW_CONFIG.tcf : tcf.enabled;
+export const TCF_CMP_ID = tcf.cmpId;
+export const TCF_CMP_VERSION = tcf.cmpVersion;
+
+// Known trackers adopted into purposes: scripts from these domains or URLs
+// are held until their purpose is consented, even without data-purpose
+export const KNOWN_TRACKERS: RuntimeTracker[] = PREVIEW_CONFIG
+    ? (PREVIEW_CONFIG.trackers || [])
+    : (bootstrap.trackers || []);
+
+// Tenant rules holding scripts, iframes and images by URL or domain until
+// their purpose is consented. URL rules come first
+export const BLOCKING_RULES: RuntimeBlockingRule[] = PREVIEW_CONFIG
+    ? (PREVIEW_CONFIG.blockingRules || [])
+    : (bootstrap.blockingRules || []);
+
+// Cookie governance: declared cookies and localStorage keys of optional
+// purposes, only while governance is on
+export const COOKIE_RULES: RuntimeCookie[] = PREVIEW_CONFIG
+    ? previewCookieRules(PREVIEW_CONFIG)
+    : (bootstrap.cookieRules || []);
+
+/**
+ * Same filtering the server applies to the published config.
+ */
+function previewCookieRules(config: RuntimeWebsiteConfig): RuntimeCookie[] {
+    if (!config.cookieGovernance || !config.cookies) return [];
+    const essential: Record<string, boolean> = {};
+    (config.purposes || []).forEach(function(p) {
+        if (p.required) essential[p.key] = true;
+    });
+    return config.cookies.filter(function(cookie) {
+        return !essential[cookie.purpose];
+    });
+}
@@ -0,0 +1,44 @@
+import { TELEMETRY_SAMPLE_RATE } from './settings';
+import { BlockedResource, ConsentReceipt, PurposeDecisions, RuntimeWebsiteConfig, TelemetryEvent } from './types';
+
+// ============================================================================
+// STATE MANAGEMENT
+// ============================================================================
+
+export interface LoaderState {
+    config: RuntimeWebsiteConfig | null;
+    resolvedLanguage: string;
+    purposes: PurposeDecisions;
+    consentGiven: boolean;
+    receipt: ConsentReceipt | null;     // Latest signed consent receipt
+    bannerElement: HTMLElement | null;
+    impressionReported: boolean;        // Banner impression counted for this page view
+    telemetrySampled: boolean;
+    telemetryQueue: TelemetryEvent[];   // Lifecycle events not sent yet
+    dismissTracked: boolean;
+    decisionTracked: boolean;
+    bannerVariant: string;              // A/B test arm the banner was drawn from
+    bannerShownAt: number | null;       // When the banner appeared on this page view
+    settingsElement: HTMLElement | null;
+    blockedScripts: BlockedResource[];  // Resources waiting for consent
+    replayedScripts: Set<string>;       // Replayed resources, to prevent double execution
+}
+
+export const state: LoaderState = {
+    config: null,
+    resolvedLanguage: 'en',
+    purposes: {},
+    consentGiven: false,
+    receipt: null,
+    bannerElement: null,
+    impressionReported: false,
+    telemetrySampled: Math.random() < TELEMETRY_SAMPLE_RATE,
+    telemetryQueue: [],
+    dismissTracked: false,
+    decisionTracked: false,
+    bannerVariant: 'control',
+    bannerShownAt: null,
+    settingsElement: null,
+    blockedScripts: [],
+    replayedScripts: new Set<string>()
+};
@@ -0,0 +1,445 @@
+import { TCF_CMP_ID, TCF_CMP_VERSION, TCF_ENABLED } from './settings';
+import { state } from './state';
+import { PurposeDecisions, RuntimePurpose, RuntimeTcfConfig, RuntimeTcfVendor, TcfCallback } from './types';
+
+// ============================================================================
+// IAB TCF v2.2 / GPP
+// ============================================================================
+
+const BASE64URL = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+const GPP_TCF_EU_SECTION_ID = 2;
+const GPP_TCF_EU_SECTION = 'tcfeuv2';
+const TCF_PURPOSE_COUNT = 11;
+const TCF_SPECIAL_FEATURE_COUNT = 2;
+// IAB purposes that cannot rely on legitimate interest under TCF v2.2
+const TCF_CONSENT_ONLY_PURPOSES = [1, 3, 4, 5, 6];
+
+type Flags = Record<number, boolean>;
+
+interface TcfSignals {
+    purposeConsents: Flags;
+    purposeLegitimateInterests: Flags;
+    specialFeatureOptins: Flags;
+    vendorConsents: Flags;
+    vendorLegitimateInterests: Flags;
+}
+
+type GppSection = Record<string, unknown>;
+
+type GppCallback = (returnValue: unknown, success: boolean) => void;
+
+const tcfState = {
+    ready: false,              // Signals computed from the runtime config
+    cmpDisplayStatus: 'hidden',
+    eventStatus: 'tcloaded',
+    tcf: null as RuntimeTcfConfig | null, // Config the signals were computed from
+    signals: null as TcfSignals | null,
+    tcString: '',
+    gppString: '',
+    section: null as GppSection | null, // Parsed tcfeuv2 section for __gpp
+    listeners: {} as Record<number, TcfCallback>,    // __tcfapi listenerId -> callback
+    gppListeners: {} as Record<number, GppCallback>, // __gpp listenerId -> callback
+    nextListenerId: 1
+};
+
+/**
+ * Replace any publisher-installed stub with the real APIs and answer the
+ * calls it queued. Listeners are called once the config is loaded.
+ */
+export function installTcfApi(): void {
+    if (!TCF_ENABLED) return;
+
+    const queuedTcf = (typeof window.__tcfapi === 'function' && window.__tcfapi.a) || [];
+    const queuedGpp = (typeof window.__gpp === 'function' && window.__gpp.queue) || [];
+
+    window.__tcfapi = handleTcfCommand;
+    window.__gpp = handleGppCommand;
+    addLocatorFrame('__tcfapiLocator');
+    addLocatorFrame('__gppLocator');
+    window.addEventListener('message', handleCmpMessage, false);
+
+    for (let i = 0; i < queuedTcf.length; i++) handleTcfCommand.apply(null, queuedTcf[i] as Parameters<typeof handleTcfCommand>);
+    for (let j = 0; j < queuedGpp.length; j++) handleGppCommand.apply(null, queuedGpp[j] as Parameters<typeof handleGppCommand>);
+    console.log('[ComplyArk] IAB TCF v2.2 and GPP APIs installed');
+}
+
+// Vendor iframes find the CMP by looking for these frames in their parents
+function addLocatorFrame(name: string): void {
+    if ((window.frames as unknown as Record<string, Window>)[name]) return;
+    if (!document.body) {
+        document.addEventListener('DOMContentLoaded', function() { addLocatorFrame(name); });
+        return;
+    }
+    const iframe = document.createElement('iframe');
+    iframe.style.cssText = 'display: none;';
+    iframe.name = name;
+    document.body.appendChild(iframe);
+}
+
+/**
+ * __tcfapi(command, version, callback, parameter). getTCData was removed
+ * in v2.2; vendors read the TC data through addEventListener.
+ */
+function handleTcfCommand(command: string, version: number, callback: TcfCallback, parameter?: unknown): void {
+    if (typeof callback !== 'function') return;
+
+    if (command === 'ping') {
+        callback(getTcfPing(), true);
+    } else if (command === 'addEventListener') {
+        const listenerId = tcfState.nextListenerId++;
+        tcfState.listeners[listenerId] = callback;
+        if (tcfState.ready) callback(getTcData(listenerId), true);
+    } else if (command === 'removeEventListener') {
+        const removed = !!tcfState.listeners[parameter as number];
+        delete tcfState.listeners[parameter as number];
+        callback(removed, removed);
+    } else {
+        callback(null, false);
+    }
+}
+
+function getTcfPing() {
+    const config = tcfState.ready ? tcfState.tcf : null;
+    return {
+        gdprApplies: true,
+        cmpLoaded: true,
+        cmpStatus: 'loaded',
+        displayStatus: tcfState.cmpDisplayStatus,
+        apiVersion: '2.2',
+        cmpVersion: TCF_CMP_VERSION,
+        cmpId: TCF_CMP_ID,
+        gvlVersion: config ? config.vendorListVersion : undefined,
+        tcfPolicyVersion: config ? config.tcfPolicyVersion : undefined
+    };
+}
+
+function getTcData(listenerId: number) {
+    const config = tcfState.tcf;
+    const signals = tcfState.signals;
+    if (!config || !signals) return null;
+    return JSON.parse(JSON.stringify({
+        tcString: tcfState.tcString,
+        tcfPolicyVersion: config.tcfPolicyVersion,
+        cmpId: TCF_CMP_ID,
+        cmpVersion: TCF_CMP_VERSION,
+        gdprApplies: true,
+        eventStatus: tcfState.eventStatus,
+        cmpStatus: 'loaded',
+        listenerId: listenerId,
+        isServiceSpecific: true,
+        useNonStandardTexts: false,
+        publisherCC: config.publisherCountryCode,
+        purposeOneTreatment: false,
+        purpose: {
+            consents: signals.purposeConsents,
+            legitimateInterests: signals.purposeLegitimateInterests
+        },
+        vendor: {
+            consents: signals.vendorConsents,
+            legitimateInterests: signals.vendorLegitimateInterests
+        },
+        specialFeatureOptins: signals.specialFeatureOptins,
+        publisher: {
+            consents: {},
+            legitimateInterests: {},
+            customPurpose: { consents: {}, legitimateInterests: {} },
+            restrictions: {}
+        }
+    }));
+}
+
+/**
+ * __gpp(command, callback, parameter, version), GPP v1.1 with the
+ * tcfeuv2 section only.
+ */
+function handleGppCommand(command: string, callback: GppCallback, parameter?: unknown, version?: string): void {
+    if (typeof callback !== 'function') return;
+
+    if (command === 'ping') {
+        callback(getGppPing(), true);
+    } else if (command === 'addEventListener') {
+        const listenerId = tcfState.nextListenerId++;
+        tcfState.gppListeners[listenerId] = callback;
+        callback({ eventName: 'listenerRegistered', listenerId: listenerId, data: true, pingData: getGppPing() }, true);
+    } else if (command === 'removeEventListener') {
+        const removed = !!tcfState.gppListeners[parameter as number];
+        delete tcfState.gppListeners[parameter as number];
+        callback({ eventName: 'listenerRemoved', listenerId: parameter, data: removed, pingData: getGppPing() }, true);
+    } else if (command === 'hasSection') {
+        callback(tcfState.ready && parameter === GPP_TCF_EU_SECTION, true);
+    } else if (command === 'getSection') {
+        callback(tcfState.ready && parameter === GPP_TCF_EU_SECTION ? tcfState.section : null, true);
+    } else if (command === 'getField') {
+        const field = String(parameter || '').split('.');
+        const section = tcfState.ready ? tcfState.section : null;
+        const hasField = !!section && field[0] === GPP_TCF_EU_SECTION &&
+            Object.prototype.hasOwnProperty.call(section, field[1]);
+        callback(section && hasField ? section[field[1]] : null, true);
+    } else {
+        callback(null, false);
+    }
+}
+
+function getGppPing() {
+    return {
+        gppVersion: '1.1',
+        cmpStatus: 'loaded',
+        cmpDisplayStatus: tcfState.cmpDisplayStatus,
+        signalStatus: tcfState.ready ? 'ready' : 'not ready',
+        supportedAPIs: [GPP_TCF_EU_SECTION_ID + ':' + GPP_TCF_EU_SECTION],
+        cmpId: TCF_CMP_ID,
+        sectionList: tcfState.ready ? [GPP_TCF_EU_SECTION_ID] : [],
+        applicableSections: [GPP_TCF_EU_SECTION_ID],
+        gppString: tcfState.gppString,
+        parsedSections: tcfState.ready ? { tcfeuv2: tcfState.section } : {}
+    };
+}
+
+function notifyGppListeners(eventName: string, data: unknown): void {
+    for (const id in tcfState.gppListeners) {
+        tcfState.gppListeners[id]({ eventName: eventName, listenerId: +id, data: data, pingData: getGppPing() }, true);
+    }
+}
+
+/**
+ * Answer __tcfapiCall / __gppCall messages from vendor iframes.
+ */
+function handleCmpMessage(event: MessageEvent): void {
+    let data = event.data;
+    const isString = typeof data === 'string';
+    if (isString) {
+        try {
+            data = JSON.parse(data);
+        } catch (e) {
+            return;
+        }
+    }
+    if (!data || typeof data !== 'object' || !event.source) return;
+
+    function reply(message: unknown) {
+        try {
+            (event.source as Window).postMessage(isString ? JSON.stringify(message) : message, '*');
+        } catch (e) {}
+    }
+
+    const tcfCall = data.__tcfapiCall;
+    if (tcfCall) {
+        handleTcfCommand(tcfCall.command, tcfCall.version, function(returnValue, success) {
+            reply({ __tcfapiReturn: { returnValue: returnValue, success: success, callId: tcfCall.callId } });
+        }, tcfCall.parameter);
+        return;
+    }
+
+    const gppCall = data.__gppCall;
+    if (gppCall) {
+        handleGppCommand(gppCall.command, function(returnValue, success) {
+            reply({ __gppReturn: { returnValue: returnValue, success: success, callId: gppCall.callId } });
+        }, gppCall.parameter, gppCall.version);
+    }
+}
+
+/**
+ * Translate the visitor's choices into TCF signals. An IAB purpose is
+ * consented when any website purpose mapped to it is granted. Legitimate
+ * interest is only signalled for granted purposes: declining a purpose
+ * also objects to it. A vendor gets consent or legitimate interest when
+ * one of its declared purposes has it.
+ */
+function computeTcfSignals(websitePurposes: RuntimePurpose[], vendors: RuntimeTcfVendor[], purposes: PurposeDecisions): TcfSignals {
+    const signals: TcfSignals = {
+        purposeConsents: {},
+        purposeLegitimateInterests: {},
+        specialFeatureOptins: {},
+        vendorConsents: {},
+        vendorLegitimateInterests: {}
+    };
+    let i;
+    for (i = 1; i <= TCF_PURPOSE_COUNT; i++) {
+        signals.purposeConsents[i] = false;
+        signals.purposeLegitimateInterests[i] = false;
+    }
+    for (i = 1; i <= TCF_SPECIAL_FEATURE_COUNT; i++) {
+        signals.specialFeatureOptins[i] = false;
+    }
+
+    websitePurposes.forEach(function(p) {
+        if (!purposes || purposes[p.key] !== true) return;
+        (p.tcfPurposes || []).forEach(function(id) {
+            signals.purposeConsents[id] = true;
+            if (TCF_CONSENT_ONLY_PURPOSES.indexOf(id) === -1) {
+                signals.purposeLegitimateInterests[id] = true;
+            }
+        });
+        (p.tcfSpecialFeatures || []).forEach(function(id) {
+            signals.specialFeatureOptins[id] = true;
+        });
+    });
+
+    vendors.forEach(function(vendor) {
+        let consent = false;
+        let legitimateInterest = false;
+        vendor.purposes.concat(vendor.flexiblePurposes).forEach(function(id) {
+            if (signals.purposeConsents[id]) consent = true;
+        });
+        vendor.specialFeatures.forEach(function(id) {
+            if (signals.specialFeatureOptins[id]) consent = true;
+        });
+        vendor.legIntPurposes.forEach(function(id) {
+            if (signals.purposeLegitimateInterests[id]) legitimateInterest = true;
+        });
+        signals.vendorConsents[vendor.id] = consent;
+        signals.vendorLegitimateInterests[vendor.id] = legitimateInterest;
+    });
+
+    return signals;
+}
+
+function toBits(value: number, length: number): string {
+    let bits = value.toString(2);
+    while (bits.length < length) bits = '0' + bits;
+    return bits;
+}
+
+// One bit per id, starting at id 1
+function flagBits(flags: Flags, length: number): string {
+    let bits = '';
+    for (let i = 1; i <= length; i++) bits += flags[i] ? '1' : '0';
+    return bits;
+}
+
+function letterBits(code: string): string {
+    return toBits(code.charCodeAt(0) - 65, 6) + toBits(code.charCodeAt(1) - 65, 6);
+}
+
+// MaxVendorId, IsRangeEncoding = 0, then a bit field
+function vendorBits(flags: Flags): string {
+    let maxId = 0;
+    for (const id in flags) {
+        if (flags[id] && +id > maxId) maxId = +id;
+    }
+    return toBits(maxId, 16) + '0' + flagBits(flags, maxId);
+}
+
+function toBase64Url(bits: string): string {
+    while (bits.length % 8) bits += '0';
+    while (bits.length % 6) bits += '0';
+    let encoded = '';
+    for (let i = 0; i < bits.length; i += 6) {
+        encoded += BASE64URL.charAt(parseInt(bits.substr(i, 6), 2));
+    }
+    return encoded;
+}
+
+function flagIds(flags: Flags): number[] {
+    const ids: number[] = [];
+    for (const id in flags) {
+        if (flags[id]) ids.push(+id);
+    }
+    return ids.sort(function(a, b) { return a - b; });
+}
+
+function flagList(flags: Flags, length: number): boolean[] {
+    const list: boolean[] = [];
+    for (let i = 1; i <= length; i++) list.push(!!flags[i]);
+    return list;
+}
+
+/**
+ * Encode the TC string: the core segment and the disclosed vendors
+ * segment. Created and LastUpdated are truncated to the day so the
+ * string does not reveal when the visitor decided.
+ */
+function encodeTcf(config: RuntimeTcfConfig, signals: TcfSignals, timestamp: number) {
+    const deciseconds = Math.floor(timestamp / 86400000) * 864000;
+    let language = (state.resolvedLanguage || 'en').slice(0, 2).toUpperCase();
+    if (!/^[A-Z]{2}$/.test(language)) language = 'EN';
+
+    const core =
+        toBits(2, 6) +                                    // Version
+        toBits(deciseconds, 36) +                         // Created
+        toBits(deciseconds, 36) +                         // LastUpdated
+        toBits(TCF_CMP_ID, 12) +
+        toBits(TCF_CMP_VERSION, 12) +
+        toBits(1, 6) +                                    // ConsentScreen
+        letterBits(language) +
+        toBits(config.vendorListVersion, 12) +
+        toBits(config.tcfPolicyVersion, 6) +
+        '1' +                                             // IsServiceSpecific
+        '0' +                                             // UseNonStandardTexts
+        flagBits(signals.specialFeatureOptins, 12) +
+        flagBits(signals.purposeConsents, 24) +
+        flagBits(signals.purposeLegitimateInterests, 24) +
+        '0' +                                             // PurposeOneTreatment
+        letterBits(config.publisherCountryCode) +
+        vendorBits(signals.vendorConsents) +
+        vendorBits(signals.vendorLegitimateInterests) +
+        toBits(0, 12);                                    // NumPubRestrictions
+
+    const disclosed: Flags = {};
+    config.vendors.forEach(function(vendor) { disclosed[vendor.id] = true; });
+    const tcString = toBase64Url(core) + '.' + toBase64Url(toBits(1, 3) + vendorBits(disclosed));
+
+    // GPP header: Type 3, Version 1, one section id (2, Fibonacci coded as 011)
+    const gppHeader = toBase64Url(toBits(3, 6) + toBits(1, 6) + toBits(1, 12) + '0' + '011');
+
+    return {
+        tcString: tcString,
+        gppString: gppHeader + '~' + tcString,
+        section: {
+            Version: 2,
+            Created: new Date(deciseconds * 100),
+            LastUpdated: new Date(deciseconds * 100),
+            CmpId: TCF_CMP_ID,
+            CmpVersion: TCF_CMP_VERSION,
+            ConsentScreen: 1,
+            ConsentLanguage: language,
+            VendorListVersion: config.vendorListVersion,
+            PolicyVersion: config.tcfPolicyVersion,
+            IsServiceSpecific: true,
+            UseNonStandardStacks: false,
+            SpecialFeatureOptins: flagList(signals.specialFeatureOptins, 12),
+            PurposeConsents: flagList(signals.purposeConsents, 24),
+            PurposeLegitimateInterests: flagList(signals.purposeLegitimateInterests, 24),
+            PurposeOneTreatment: false,
+            PublisherCountryCode: config.publisherCountryCode,
+            VendorConsents: flagIds(signals.vendorConsents),
+            VendorLegitimateInterests: flagIds(signals.vendorLegitimateInterests),
+            PublisherRestrictions: [] as number[]
+        } as GppSection
+    };
+}
+
+/**
+ * Recompute the TC and GPP strings and notify listeners.
+ * eventStatus: tcloaded, cmpuishown or useractioncomplete.
+ */
+export function updateTcfSignals(purposes: PurposeDecisions, timestamp: number, eventStatus: string): void {
+    const config = state.config;
+    if (!TCF_ENABLED || !config || !config.tcf) return;
+
+    const signals = computeTcfSignals(config.purposes, config.tcf.vendors, purposes);
+    const encoded = encodeTcf(config.tcf, signals, timestamp);
+    tcfState.tcf = config.tcf;
+    tcfState.signals = signals;
+    tcfState.tcString = encoded.tcString;
+    tcfState.gppString = encoded.gppString;
+    tcfState.section = encoded.section;
+    tcfState.eventStatus = eventStatus;
+    tcfState.ready = true;
+
+    for (const id in tcfState.listeners) {
+        tcfState.listeners[id](getTcData(+id), true);
+    }
+    notifyGppListeners('signalStatus', 'ready');
+    notifyGppListeners('sectionChange', GPP_TCF_EU_SECTION);
+    console.log('[ComplyArk] TC string updated (' + eventStatus + '):', tcfState.tcString);
+}
+
+export function setCmpDisplayStatus(status: 'visible' | 'hidden'): void {
+    if (!TCF_ENABLED || tcfState.cmpDisplayStatus === status) return;
+    tcfState.cmpDisplayStatus = status;
+    notifyGppListeners('cmpDisplayStatus', status);
+    if (status === 'visible') {
+        updateTcfSignals(state.purposes, Date.now(), 'cmpuishown');
+    }
+}
@@ -0,0 +1,94 @@
+import { API_BASE, PREVIEW_CONFIG, SITE_ID, TELEMETRY_MAX_BATCH, TELEMETRY_SAMPLE_RATE } from './settings';
+import { state } from './state';
+import { ConsentAction, PurposeDecisions, TelemetryEvent } from './types';
+
+// ============================================================================
+// TELEMETRY - Anonymous banner lifecycle events
+// ============================================================================
+
+/**
+ * Queue a banner lifecycle event. Telemetry is strictly necessary and is
+ * sent whatever the consent, so events carry no visitor ID and nothing is
+ * written to the visitor's storage. Only sampled page views report.
+ */
+export function trackEvent(event: string, fields?: Record<string, unknown>): void {
+    if (PREVIEW_CONFIG || !state.telemetrySampled) return;
+
+    const entry: TelemetryEvent = { event: event, language: state.resolvedLanguage };
+    for (const key in fields) {
+        if (Object.prototype.hasOwnProperty.call(fields, key)) entry[key] = fields[key];
+    }
+    state.telemetryQueue.push(entry);
+    if (state.telemetryQueue.length >= TELEMETRY_MAX_BATCH) {
+        flushTelemetry();
+    }
+}
+
+/**
+ * Send the queued events in one request. sendBeacon survives the page
+ * being left; XHR is the fallback for browsers without it.
+ */
+function flushTelemetry(): void {
+    if (!state.telemetryQueue.length) return;
+
+    const batch: Record<string, unknown> = { sampleRate: TELEMETRY_SAMPLE_RATE, events: state.telemetryQueue };
+    if (state.config && state.config.bannerVariants) {
+        batch.variant = state.bannerVariant;
+    }
+    const body = JSON.stringify(batch);
+    const url = API_BASE + '/runtime/websites/' + SITE_ID + '/telemetry';
+    state.telemetryQueue = [];
+
+    try {
+        if (navigator.sendBeacon && navigator.sendBeacon(url, body)) return;
+    } catch (e) {}
+
+    try {
+        const xhr = new XMLHttpRequest();
+        xhr.open('POST', url, true);
+        xhr.setRequestHeader('Content-Type', 'text/plain');
+        xhr.send(body);
+    } catch (e) {
+        console.warn('[ComplyArk] Cannot send telemetry:', e);
+    }
+}
+
+/**
+ * Flush when the page is hidden or left. Leaving while the banner still
+ * waits for a decision counts as dismissed without action.
+ */
+export function installTelemetry(): void {
+    if (PREVIEW_CONFIG || !state.telemetrySampled) return;
+
+    document.addEventListener('visibilitychange', function() {
+        if (document.visibilityState === 'hidden') flushTelemetry();
+    });
+    window.addEventListener('pagehide', function() {
+        if (state.impressionReported && !state.consentGiven && !state.dismissTracked) {
+            state.dismissTracked = true;
+            trackEvent('DISMISSED');
+        }
+        flushTelemetry();
+    });
+}
+
+/**
+ * Report the first decision taken on the banner shown on this page view,
+ * with the time it took. Decisions from the footer settings link of a
+ * later page view are not banner outcomes and are left out.
+ */
+export function trackDecision(action: ConsentAction, purposes: PurposeDecisions): void {
+    if (!state.impressionReported || state.decisionTracked || !state.config) return;
+    state.decisionTracked = true;
+
+    let optIn = false;
+    state.config.purposes.forEach(function(p) {
+        if (!p.required && purposes[p.key]) optIn = true;
+    });
+
+    trackEvent('DECISION', {
+        action: action,
+        optIn: optIn,
+        decisionMs: state.bannerShownAt === null ? 0 : Math.max(0, Date.now() - state.bannerShownAt)
+    });
+}
@@ -0,0 +1,217 @@
+/**
+ * Shapes of the runtime config served by GET /runtime/websites/:siteId.
+ * Kept in step with the Runtime* interfaces of the tenant server's
+ * runtime service.
+ */
+
+export interface RuntimeNoticeTranslation {
+    title: string;
+    description: string;
+    policyLink?: string;
+    dpoEmail?: string;
+    userRights?: string;
+    withdrawalInstructions?: string;
+    complaintInstructions?: string;
+}
+
+export interface RuntimePurposeLabel {
+    title: string;
+    description: string;
+    dataCategoryInfo?: string;
+}
+
+export interface RuntimePurpose {
+    key: string;
+    version: string;
+    required: boolean;
+    displayOrder: number;
+    labels: Record<string, RuntimePurposeLabel>;
+    tcfPurposes?: number[];
+    tcfSpecialFeatures?: number[];
+}
+
+export interface RuntimeBannerText {
+    headline: string;
+    description: string;
+    acceptButton: string;
+    rejectButton: string;
+    preferencesButton: string;
+}
+
+export interface RuntimeBannerConfig {
+    position: string;
+    layout: string;
+    primaryColor: string;
+    secondaryColor: string;
+    backgroundColor: string;
+    textColor: string;
+    acceptButtonColor: string;
+    rejectButtonColor: string;
+    fontFamily?: string;
+    fontSize?: string;
+    focusOutlineColor?: string;
+    text: Record<string, RuntimeBannerText>;
+}
+
+export interface RuntimeBannerVariant {
+    id: string;
+    trafficPercent: number;
+    banner: RuntimeBannerConfig;
+}
+
+export interface RuntimeConsentMode {
+    signals: Record<string, string[]>; // Consent Mode signal -> purpose tags
+    defaults: Record<string, 'granted' | 'denied'>;
+    waitForUpdate: number;
+    adsDataRedaction: boolean;
+    urlPassthrough: boolean;
+}
+
+export interface RuntimeTcfVendor {
+    id: number;
+    name: string;
+    purposes: number[];
+    legIntPurposes: number[];
+    flexiblePurposes: number[];
+    specialPurposes: number[];
+    specialFeatures: number[];
+    policyUrl?: string;
+}
+
+export interface RuntimeTcfConfig {
+    vendorListVersion: number;
+    tcfPolicyVersion: number;
+    publisherCountryCode: string;
+    purposeNames: Record<string, string>;
+    specialFeatureNames: Record<string, string>;
+    vendors: RuntimeTcfVendor[];
+}
+
+export interface RuntimeTracker {
+    name: string;
+    purpose: string;
+    domains: string[]; // Also match subdomains
+    scripts: string[]; // URL patterns without the scheme, * is a wildcard
+}
+
+export interface RuntimeBlockingRule {
+    purpose: string;
+    type: 'domain' | 'url';
+    pattern: string;
+}
+
+export interface RuntimeCookie {
+    name: string; // * is a wildcard
+    purpose: string;
+    type: 'cookie' | 'localStorage';
+}
+
+export interface RuntimeWebsiteConfig {
+    siteId: string;
+    noticeVersion: string;
+    configVersion: number;
+    configHash: string;
+    reconsentVersion: number;
+    defaultLanguage: string;
+    supportedLanguages: string[];
+    notice: Record<string, RuntimeNoticeTranslation>;
+    purposes: RuntimePurpose[];
+    banner: RuntimeBannerConfig;
+    bannerVariants?: RuntimeBannerVariant[];
+    consentMode: RuntimeConsentMode | null;
+    tcf: RuntimeTcfConfig | null;
+    trackers?: RuntimeTracker[];
+    blockingRules?: RuntimeBlockingRule[];
+    cookies?: RuntimeCookie[];
+    cookieGovernance?: true;
+    consentLifetimeDays: number;
+    rejectLifetimeDays: number;
+}
+
+/**
+ * Settings the server inlines ahead of the bundle, so Consent Mode
+ * defaults, the TCF/GPP APIs, auto-blocking and cookie governance are in
+ * place before any vendor tag runs.
+ */
+export interface LoaderBootstrap {
+    siteId: string;
+    apiBase: string;
+    telemetrySampleRate: number;
+    tcf: { enabled: boolean; cmpId: number; cmpVersion: number };
+    consentMode: RuntimeConsentMode | null;
+    trackers: RuntimeTracker[];
+    blockingRules: RuntimeBlockingRule[];
+    cookieRules: RuntimeCookie[];
+    // Static publishing: the config itself (per-site loaders), or where
+    // to fetch it instead of the runtime API
+    config?: RuntimeWebsiteConfig;
+    configUrl?: string;
+}
+
+// { purposeTag: granted }
+export type PurposeDecisions = Record<string, boolean>;
+
+export type ConsentAction = 'ACCEPT_ALL' | 'REJECT_ALL' | 'CUSTOM' | 'WITHDRAW';
+
+export interface StoredConsent {
+    purposes: PurposeDecisions;
+    websiteId: string;
+    language: string;
+    noticeVersion: string | null;
+    configVersion: number | null;
+    timestamp: number;
+    version: string;
+}
+
+export interface ConsentReceipt {
+    receiptId: string;
+    signature: string;
+    payload: { websiteId: string; issuedAt: string; [field: string]: unknown };
+}
+
+/**
+ * A script, iframe or pixel held until its purpose is consented
+ */
+export interface BlockedResource {
+    type: 'script' | 'dynamic-script' | 'pixel' | 'iframe';
+    purpose: string;
+    src: string | null;
+    inline?: string;
+    element: HTMLElement;
+    held?: boolean; // Held by the auto-blocking engine rather than markup
+    id: string;
+}
+
+export interface TelemetryEvent {
+    event: string;
+    language: string;
+    [field: string]: unknown;
+}
+
+export type TcfCallback = (returnValue: unknown, success: boolean) => void;
+
+export interface ComplyArkApi {
+    openSettings(): void;
+    hasConsent(purpose: string): boolean;
+    getConsent(): PurposeDecisions;
+    openConsentManager(): void;
+    getReceipt(): ConsentReceipt | null;
+    withdrawConsent(): void;
+}
+
+declare global {
+    interface Window {
+        __complyarkInitialized?: boolean;
+        __complyarkBootstrap?: LoaderBootstrap;
+        __complyarkPreviewConfig?: RuntimeWebsiteConfig;
+        ComplyArk?: ComplyArkApi;
+        dataLayer?: unknown[];
+        gtag?: (...args: unknown[]) => void;
+        __tcfapi?: ((command: string, version: number, callback: TcfCallback, parameter?: unknown) => void) & { a?: unknown[][] };
+        __gpp?: ((command: string, callback: TcfCallback, parameter?: unknown, version?: string) => void) & { queue?: unknown[][] };
+    }
+
+    interface Navigator {
+        msSaveOrOpenBlob?: (blob: Blob, fileName: string) => boolean;
+    }
+}
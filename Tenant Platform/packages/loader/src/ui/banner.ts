@@ -0,0 +1,164 @@
+import { reportImpression } from '../ledger';
+import { persistLanguage } from '../language';
+import { state } from '../state';
+import { setCmpDisplayStatus } from '../tcf';
+import { trackEvent } from '../telemetry';
+import { RuntimeWebsiteConfig } from '../types';
+import { handleAcceptAll, handleRejectAll } from '../handlers';
+import { showSettings } from './settings';
+import { byId, escapeHtml } from './html';
+
+// ============================================================================
+// UI RENDERING - BANNER
+// ============================================================================
+
+function createBanner(config: RuntimeWebsiteConfig): HTMLElement | null {
+    const lang = state.resolvedLanguage;
+    const banner = config.banner;
+
+    // Get translated banner text (with English fallback)
+    const bannerText = banner.text[lang] || banner.text['en'];
+    if (!bannerText) {
+        console.error('[ComplyArk] FAIL CLOSED: No banner text available');
+        return null;
+    }
+
+    const el = document.createElement('div');
+    el.id = 'complyark-banner';
+    el.setAttribute('role', 'dialog');
+    el.setAttribute('aria-label', 'Cookie consent');
+
+    const positionCSS: Record<string, string> = {
+        bottom: 'bottom: 20px; left: 50%; transform: translateX(-50%);',
+        top: 'top: 20px; left: 50%; transform: translateX(-50%);',
+        center: 'top: 50%; left: 50%; transform: translate(-50%, -50%);'
+    };
+
+    const layoutCSS: Record<string, string> = {
+        banner: 'width: 90%; max-width: 720px;',
+        modal: 'width: 90%; max-width: 500px;',
+        popup: 'width: 350px; right: 20px; left: auto; transform: none; bottom: 20px;'
+    };
+
+    // Language selector for banner
+    let bannerLangHtml = '';
+    if (config.supportedLanguages && config.supportedLanguages.length > 1) {
+        let options = '';
+        config.supportedLanguages.forEach(function(code) {
+            options += '<option value="' + code + '"' +
+                (code === lang ? ' selected' : '') + '>' +
+                code.toUpperCase() + '</option>';
+        });
+        bannerLangHtml =
+            '<div style="position: absolute; top: 1rem; right: 1rem; z-index: 10;">' +
+                '<select id="complyark-banner-lang" style="' +
+                    'padding: 0.3rem 0.6rem; border: 1px solid rgba(0,0,0,0.15); ' +
+                    'border-radius: 6px; background: rgba(255,255,255,0.9); cursor: pointer; ' +
+                    'font-size: 0.85em; color: ' + banner.textColor + '; outline: none;">' +
+                    options +
+                '</select>' +
+            '</div>';
+    }
+
+    el.style.cssText =
+        'position: fixed; ' +
+        (positionCSS[banner.position] || positionCSS.bottom) +
+        (layoutCSS[banner.layout] || layoutCSS.banner) +
+        'background: ' + banner.backgroundColor + '; ' +
+        'color: ' + banner.textColor + '; ' +
+        'border-radius: 16px; ' +
+        'box-shadow: 0 10px 40px rgba(0,0,0,0.15); ' +
+        'padding: 1.5rem 1.5rem 1.25rem; ' + // Adjusted padding
+        'font-family: ' + (banner.fontFamily || 'system-ui, -apple-system, sans-serif') + '; ' +
+        'font-size: ' + (banner.fontSize || '14px') + '; ' +
+        'z-index: 999999; ' +
+        'border: 1px solid rgba(0,0,0,0.08);';
+
+    // IAB TCF requires the number of vendors on the first layer
+    const tcfVendorCountHtml = config.tcf && config.tcf.vendors.length > 0
+        ? '<p style="margin: 0.5rem 0 0; line-height: 1.4; opacity: 0.75; font-size: 0.85em;">' +
+            config.tcf.vendors.length + ' vendors work with this site. See them under ' +
+            escapeHtml(bannerText.preferencesButton) + '.</p>'
+        : '';
+
+    el.innerHTML =
+        bannerLangHtml +
+        '<div style="display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 1rem;">' +
+            '<div style="flex: 1; padding-right: 1rem;">' +
+                '<h3 style="margin: 0 0 0.5rem 0; font-weight: 600; font-size: 1.1em;">' +
+                    escapeHtml(bannerText.headline) + '</h3>' +
+                '<p style="margin: 0; line-height: 1.5; opacity: 0.85; font-size: 0.95em;">' +
+                    escapeHtml(bannerText.description) + '</p>' +
+                tcfVendorCountHtml +
+            '</div>' +
+        '</div>' +
+        '<div style="display: flex; gap: 0.75rem; flex-wrap: wrap; justify-content: flex-end;">' +
+            '<button id="complyark-settings-btn" style="' +
+                'padding: 0.6rem 1.2rem; border-radius: 8px; ' +
+                'border: 1px solid rgba(0,0,0,0.15); ' +
+                'background: transparent; color: ' + banner.textColor + '; ' +
+                'cursor: pointer; font-size: 0.9em; font-weight: 500;">' +
+                escapeHtml(bannerText.preferencesButton) + '</button>' +
+            '<button id="complyark-reject-btn" style="' +
+                'padding: 0.6rem 1.2rem; border-radius: 8px; border: none; ' +
+                'background: ' + banner.rejectButtonColor + '; color: white; ' +
+                'cursor: pointer; font-size: 0.9em; font-weight: 500;">' +
+                escapeHtml(bannerText.rejectButton) + '</button>' +
+            '<button id="complyark-accept-btn" style="' +
+                'padding: 0.6rem 1.2rem; border-radius: 8px; border: none; ' +
+                'background: ' + banner.acceptButtonColor + '; color: white; ' +
+                'cursor: pointer; font-size: 0.9em; font-weight: 600;">' +
+                escapeHtml(bannerText.acceptButton) + '</button>' +
+        '</div>';
+
+    return el;
+}
+
+export function showBanner(): void {
+    if (state.bannerElement) {
+        state.bannerElement.style.display = 'block';
+        setCmpDisplayStatus('visible');
+        return;
+    }
+
+    if (!state.config) return;
+    const banner = createBanner(state.config);
+    if (!banner) return;
+
+    state.bannerElement = banner;
+    document.body.appendChild(banner);
+    reportImpression();
+
+    byId('complyark-accept-btn').onclick = handleAcceptAll;
+    byId('complyark-reject-btn').onclick = handleRejectAll;
+    byId('complyark-settings-btn').onclick = function() {
+        trackEvent('SETTINGS_OPENED');
+        showSettings();
+    };
+
+    // Banner language selector
+    const bannerLangSelect = byId<HTMLSelectElement>('complyark-banner-lang');
+    if (bannerLangSelect) {
+        bannerLangSelect.onchange = function() {
+            persistLanguage(bannerLangSelect.value);
+            state.resolvedLanguage = bannerLangSelect.value;
+            trackEvent('LANGUAGE_SWITCHED');
+            // Remove and recreate banner with new language
+            if (state.bannerElement && state.bannerElement.parentNode) {
+                state.bannerElement.parentNode.removeChild(state.bannerElement);
+                state.bannerElement = null;
+            }
+            showBanner();
+        };
+    }
+
+    setCmpDisplayStatus('visible');
+    console.log('[ComplyArk] Banner displayed');
+}
+
+export function hideBanner(): void {
+    if (state.bannerElement) {
+        state.bannerElement.style.display = 'none';
+    }
+    setCmpDisplayStatus('hidden');
+}
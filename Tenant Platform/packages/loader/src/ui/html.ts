@@ -0,0 +1,25 @@
+// ============================================================================
+// UI RENDERING - HELPERS
+// ============================================================================
+
+export function escapeHtml(text: string | null | undefined): string {
+    if (!text) return '';
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+}
+
+// "r,g,b" of a #rrggbb color, for rgba() backgrounds
+export function hexToRgb(hex: string): string {
+    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+    return result ?
+        parseInt(result[1], 16) + ',' + parseInt(result[2], 16) + ',' + parseInt(result[3], 16) :
+        '0,0,0';
+}
+
+/**
+ * Element the loader rendered itself, so it is known to exist
+ */
+export function byId<T extends HTMLElement = HTMLElement>(id: string): T {
+    return document.getElementById(id) as T;
+}
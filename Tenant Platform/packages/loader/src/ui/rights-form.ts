@@ -0,0 +1,463 @@
+import { API_BASE, PREVIEW_CONFIG, SITE_ID } from '../settings';
+import { state } from '../state';
+import { trackEvent } from '../telemetry';
+import { RuntimeBannerConfig, RuntimeWebsiteConfig } from '../types';
+import { byId, hexToRgb } from './html';
+
+// ============================================================================
+// UI RENDERING - EXERCISE YOUR RIGHTS FORM
+// ============================================================================
+
+function createRightsForm(config: RuntimeWebsiteConfig): HTMLElement {
+    const banner = config.banner;
+
+    const overlay = document.createElement('div');
+    overlay.id = 'complyark-rights-form';
+    overlay.style.cssText =
+        'position: fixed; top: 0; left: 0; right: 0; bottom: 0; ' +
+        'background: rgba(0,0,0,0.6); display: flex; ' +
+        'align-items: center; justify-content: center; z-index: 1000001; ' +
+        'font-family: ' + (banner.fontFamily || 'system-ui, -apple-system, sans-serif') + '; ' +
+        'backdrop-filter: blur(4px);';
+
+    // Input styles based on banner colors
+    const inputStyle = 'width: 100%; padding: 0.6rem 0.8rem; font-size: 0.9em; ' +
+        'border: 1px solid rgba(0,0,0,0.15); border-radius: 6px; outline: none; ' +
+        'box-sizing: border-box; background: ' + banner.backgroundColor + '; ' +
+        'color: ' + banner.textColor + ';';
+
+    const labelStyle = 'display: block; font-size: 0.85em; font-weight: 500; ' +
+        'color: ' + banner.textColor + '; margin-bottom: 0.4rem; margin-top: 0.8rem;';
+
+    const tileStyle = 'border: 1px solid rgba(0,0,0,0.15); padding: 0.8rem; border-radius: 6px; ' +
+        'cursor: pointer; background: rgba(0,0,0,0.02); text-align: center; font-size: 0.85em; ' +
+        'transition: all 0.2s; color: ' + banner.textColor + ';';
+
+    overlay.innerHTML =
+        '<div style="background: ' + banner.backgroundColor + '; color: ' + banner.textColor + '; ' +
+            'border-radius: 16px; max-width: 640px; width: 92%; max-height: 85vh; overflow-y: auto; ' +
+            'box-shadow: 0 25px 80px rgba(0,0,0,0.25);">' +
+
+            // Header
+            '<div style="padding: 1.25rem 1.5rem; border-bottom: 1px solid rgba(0,0,0,0.08);">' +
+                '<div style="display: flex; justify-content: space-between; align-items: center;">' +
+                    '<div style="display: flex; align-items: center; gap: 0.6rem;">' +
+                        '<span style="font-size: 1.4em;">⚖️</span>' +
+                        '<h2 style="margin: 0; font-weight: 600; font-size: 1.2em;">Exercise Your Data Protection Rights</h2>' +
+                    '</div>' +
+                    '<button id="complyark-rights-close" style="' +
+                        'background: none; border: none; cursor: pointer; font-size: 1.6em; ' +
+                        'color: ' + banner.textColor + '; opacity: 0.5; line-height: 1; padding: 0;">&times;</button>' +
+                '</div>' +
+                '<p style="margin: 0.5rem 0 0 0; line-height: 1.5; opacity: 0.8; font-size: 0.9em;">' +
+                    'Use this form to access, correct, erase your personal data, nominate a person, or raise a grievance.</p>' +
+            '</div>' +
+
+            // Form Content
+            '<div style="padding: 1.25rem 1.5rem;" id="complyark-rights-content">' +
+
+                // Step 1: Request Type
+                '<div id="complyark-step1">' +
+                    '<div style="font-size: 0.75em; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; color: rgba(0,0,0,0.5); margin-bottom: 0.75rem;">1. SELECT REQUEST TYPE</div>' +
+                    '<div style="display: grid; grid-template-columns: repeat(auto-fit, minmax(140px, 1fr)); gap: 0.6rem;" id="complyark-request-types">' +
+                        '<div class="rights-tile" data-type="Access" style="' + tileStyle + '">📋 Access My Data</div>' +
+                        '<div class="rights-tile" data-type="Correction" style="' + tileStyle + '">✏️ Correct My Data</div>' +
+                        '<div class="rights-tile" data-type="Erasure" style="' + tileStyle + '">🗑️ Erase My Data</div>' +
+                        '<div class="rights-tile" data-type="Nomination" style="' + tileStyle + '">👤 Nominate a Person</div>' +
+                        '<div class="rights-tile" data-type="Grievance" style="' + tileStyle + '">📢 Raise a Grievance</div>' +
+                    '</div>' +
+                '</div>' +
+
+                // Step 2: Your Details (hidden initially)
+                '<div id="complyark-step2" style="display: none; margin-top: 1.5rem;">' +
+                    '<div style="font-size: 0.75em; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; color: rgba(0,0,0,0.5); margin-bottom: 0.75rem;">2. YOUR DETAILS</div>' +
+                    '<label style="' + labelStyle + '">Email Address *</label>' +
+                    '<input type="email" id="complyark-rights-email" style="' + inputStyle + '" required />' +
+                    '<label style="' + labelStyle + '">Confirm Email Address *</label>' +
+                    '<input type="email" id="complyark-rights-email-confirm" style="' + inputStyle + '" required />' +
+                    '<label style="' + labelStyle + '">Short Description *</label>' +
+                    '<textarea id="complyark-rights-description" style="' + inputStyle + ' min-height: 60px; resize: vertical;"></textarea>' +
+                    // Honeypot: off screen and out of the tab order, so only bots fill it
+                    '<div aria-hidden="true" style="position: absolute; left: -10000px; width: 1px; height: 1px; overflow: hidden;">' +
+                        '<label for="complyark-rights-hp">Leave this field empty</label>' +
+                        '<input type="text" id="complyark-rights-hp" name="complyark_hp" tabindex="-1" autocomplete="off" />' +
+                    '</div>' +
+                '</div>' +
+
+                // Step 3: Request Details (hidden initially, content changes based on type)
+                '<div id="complyark-step3" style="display: none; margin-top: 1.5rem;">' +
+                    '<div style="font-size: 0.75em; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; color: rgba(0,0,0,0.5); margin-bottom: 0.75rem;">3. REQUEST DETAILS</div>' +
+                    '<div id="complyark-details-content"></div>' +
+                '</div>' +
+
+                // Step 4: Review & Submit (hidden initially)
+                '<div id="complyark-step4" style="display: none; margin-top: 1.5rem;">' +
+                    '<div style="font-size: 0.75em; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; color: rgba(0,0,0,0.5); margin-bottom: 0.75rem;">REVIEW & SUBMIT</div>' +
+                    '<div style="background: rgba(0,0,0,0.03); padding: 1rem; border-radius: 8px;">' +
+                        '<p style="margin: 0 0 0.5rem 0; font-size: 0.9em;"><strong>Request Type:</strong> <span id="complyark-review-type"></span></p>' +
+                        '<p style="margin: 0 0 0.5rem 0; font-size: 0.9em;"><strong>Email:</strong> <span id="complyark-review-email"></span></p>' +
+                        '<p style="margin: 0; font-size: 0.9em;"><strong>Description:</strong> <span id="complyark-review-desc"></span></p>' +
+                    '</div>' +
+                '</div>' +
+
+                // Email verification (hidden initially)
+                '<div id="complyark-verify" style="display: none; padding: 1rem 0;">' +
+                    '<h3 style="margin: 0 0 0.5rem 0; font-weight: 600;">Verify Your Email</h3>' +
+                    '<p style="margin: 0 0 1rem 0; opacity: 0.8; font-size: 0.9em;">We sent a 6-digit code to <strong id="complyark-verify-email"></strong>. ' +
+                        'Enter it below, or use the link in the email. Your request is not processed until it is verified.</p>' +
+                    '<label style="' + labelStyle + '">Verification Code *</label>' +
+                    '<input type="text" id="complyark-verify-code" inputmode="numeric" maxlength="6" autocomplete="one-time-code" style="' + inputStyle + ' letter-spacing: 4px;" />' +
+                '</div>' +
+
+                // Confirmation (hidden initially)
+                '<div id="complyark-confirmation" style="display: none; text-align: center; padding: 2rem 0;">' +
+                    '<div style="font-size: 3em; margin-bottom: 1rem;">✅</div>' +
+                    '<h3 style="margin: 0 0 0.5rem 0; font-weight: 600;">Request Verified</h3>' +
+                    '<p style="margin: 0; opacity: 0.8; font-size: 0.9em;">Your request has been verified and registered successfully.</p>' +
+                    '<p style="margin: 0.5rem 0; font-size: 0.9em;"><strong>Request ID:</strong> <span id="complyark-request-id"></span></p>' +
+                    '<p style="margin: 0; opacity: 0.8; font-size: 0.9em;">We will contact you via email with updates.</p>' +
+                '</div>' +
+
+            '</div>' +
+
+            // Footer
+            '<div id="complyark-rights-footer" style="padding: 1rem 1.5rem; border-top: 1px solid rgba(0,0,0,0.08); display: flex; justify-content: flex-end; gap: 0.75rem;">' +
+                '<button id="complyark-rights-submit" style="' +
+                    'padding: 0.65rem 1.5rem; border-radius: 8px; border: none; ' +
+                    'background: ' + banner.acceptButtonColor + '; color: white; ' +
+                    'cursor: pointer; font-weight: 600; opacity: 0.5;" disabled>Submit Request</button>' +
+                '<button id="complyark-verify-submit" style="' +
+                    'display: none; padding: 0.65rem 1.5rem; border-radius: 8px; border: none; ' +
+                    'background: ' + banner.acceptButtonColor + '; color: white; ' +
+                    'cursor: pointer; font-weight: 600;">Verify</button>' +
+            '</div>' +
+        '</div>';
+
+    return overlay;
+}
+
+
+interface RightsFormState {
+    selectedType: string;
+    requestNumber: string | null;
+    element: HTMLElement | null;
+}
+
+const rightsFormState: RightsFormState = {
+    selectedType: '',
+    requestNumber: null,
+    element: null
+};
+
+export function showRightsForm(): void {
+    const config = state.config;
+    if (!config) return;
+
+    if (rightsFormState.element) {
+        document.body.removeChild(rightsFormState.element);
+    }
+
+    const form = createRightsForm(config);
+
+    rightsFormState.element = form;
+    rightsFormState.selectedType = '';
+    document.body.appendChild(form);
+    trackEvent('RIGHTS_FORM_OPENED');
+
+    const banner = config.banner;
+
+    // Close button
+    byId('complyark-rights-close').onclick = hideRightsForm;
+
+    // Request type tiles
+    const tiles = form.querySelectorAll<HTMLElement>('.rights-tile');
+    for (let i = 0; i < tiles.length; i++) {
+        (function(tile) {
+            tile.onclick = function() {
+                // Deselect all
+                for (let j = 0; j < tiles.length; j++) {
+                    tiles[j].style.borderColor = 'rgba(0,0,0,0.15)';
+                    tiles[j].style.background = 'rgba(0,0,0,0.02)';
+                }
+                // Select this one
+                tile.style.borderColor = banner.acceptButtonColor;
+                tile.style.background = 'rgba(' + hexToRgb(banner.acceptButtonColor) + ', 0.1)';
+
+                rightsFormState.selectedType = tile.getAttribute('data-type') || '';
+
+                // Show step 2
+                byId('complyark-step2').style.display = 'block';
+
+                // Show step 3 with appropriate content
+                renderRightsDetails(banner, rightsFormState.selectedType);
+
+                // Show step 4
+                byId('complyark-step4').style.display = 'block';
+
+                // Enable submit button
+                byId<HTMLButtonElement>('complyark-rights-submit').disabled = false;
+                byId('complyark-rights-submit').style.opacity = '1';
+            };
+        })(tiles[i]);
+    }
+
+    // Submit button
+    byId('complyark-rights-submit').onclick = submitRightsRequest;
+
+    console.log('[ComplyArk] Rights form displayed');
+}
+
+function renderRightsDetails(banner: RuntimeBannerConfig, type: string): void {
+    const inputStyle = 'width: 100%; padding: 0.6rem 0.8rem; font-size: 0.9em; ' +
+        'border: 1px solid rgba(0,0,0,0.15); border-radius: 6px; outline: none; ' +
+        'box-sizing: border-box; background: ' + banner.backgroundColor + '; ' +
+        'color: ' + banner.textColor + ';';
+    const labelStyle = 'display: block; font-size: 0.85em; font-weight: 500; ' +
+        'color: ' + banner.textColor + '; margin-bottom: 0.4rem; margin-top: 0.8rem;';
+    const checkboxStyle = 'display: flex; align-items: center; gap: 0.5rem; font-size: 0.9em; margin-top: 0.6rem;';
+
+    let html = '';
+    const step3 = byId('complyark-step3');
+
+    if (type === 'Access') {
+        // No additional details needed for Access
+        step3.style.display = 'none';
+    } else if (type === 'Correction') {
+        html = '<label style="' + labelStyle + '">Incorrect Data *</label>' +
+            '<textarea id="complyark-incorrect-data" style="' + inputStyle + ' min-height: 50px; resize: vertical;"></textarea>' +
+            '<label style="' + labelStyle + '">Correct Data *</label>' +
+            '<textarea id="complyark-correct-data" style="' + inputStyle + ' min-height: 50px; resize: vertical;"></textarea>';
+        step3.style.display = 'block';
+    } else if (type === 'Erasure') {
+        html = '<label style="' + labelStyle + '">Reason (Optional)</label>' +
+            '<select id="complyark-erasure-reason" style="' + inputStyle + '">' +
+                '<option>Consent withdrawn</option>' +
+                '<option>No longer required</option>' +
+                '<option>Other</option>' +
+            '</select>' +
+            '<div style="' + checkboxStyle + '">' +
+                '<input type="checkbox" id="complyark-erasure-ack" />' +
+                '<label for="complyark-erasure-ack" style="margin: 0;">I understand some data may be retained as required by law</label>' +
+            '</div>';
+        step3.style.display = 'block';
+    } else if (type === 'Nomination') {
+        html = '<label style="' + labelStyle + '">Nominee Name *</label>' +
+            '<input type="text" id="complyark-nominee-name" style="' + inputStyle + '" />' +
+            '<label style="' + labelStyle + '">Nominee Email *</label>' +
+            '<input type="email" id="complyark-nominee-email" style="' + inputStyle + '" />';
+        step3.style.display = 'block';
+    } else if (type === 'Grievance') {
+        html = '<label style="' + labelStyle + '">Grievance Category *</label>' +
+            '<select id="complyark-grievance-category" style="' + inputStyle + '">' +
+                '<option>Delay in response</option>' +
+                '<option>Improper handling</option>' +
+                '<option>Consent issue</option>' +
+            '</select>' +
+            '<label style="' + labelStyle + '">Details *</label>' +
+            '<textarea id="complyark-grievance-details" style="' + inputStyle + ' min-height: 60px; resize: vertical;"></textarea>';
+        step3.style.display = 'block';
+    }
+
+    byId('complyark-details-content').innerHTML = html;
+}
+
+function submitRightsRequest(): void {
+    const email = byId<HTMLInputElement>('complyark-rights-email').value;
+    const confirmEmail = byId<HTMLInputElement>('complyark-rights-email-confirm').value;
+    const description = byId<HTMLTextAreaElement>('complyark-rights-description').value;
+
+    if (PREVIEW_CONFIG) {
+        alert('Rights requests cannot be submitted from a draft preview.');
+        return;
+    }
+
+    // Basic validation
+    if (!email || !confirmEmail || !description) {
+        alert('Please fill in all required fields.');
+        return;
+    }
+
+    if (email !== confirmEmail) {
+        alert('Email addresses do not match.');
+        return;
+    }
+
+    // Update review section
+    byId('complyark-review-type').innerText = rightsFormState.selectedType;
+    byId('complyark-review-email').innerText = email;
+    byId('complyark-review-desc').innerText = description;
+
+    const details = collectRightsDetails(rightsFormState.selectedType);
+    if (!details) return;
+
+    const submitBtn = byId<HTMLButtonElement>('complyark-rights-submit');
+    submitBtn.disabled = true;
+    submitBtn.style.opacity = '0.5';
+
+    const payload = {
+        type: rightsFormState.selectedType.toUpperCase(),
+        email: email,
+        description: description,
+        details: details,
+        language: state.resolvedLanguage,
+        honeypot: byId<HTMLInputElement>('complyark-rights-hp').value
+    };
+
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', API_BASE + '/runtime/websites/' + SITE_ID + '/rights-requests', true);
+    xhr.setRequestHeader('Content-Type', 'application/json');
+
+    xhr.onload = function() {
+        let response = null;
+        try {
+            response = JSON.parse(xhr.responseText);
+        } catch (e) {}
+
+        if (xhr.status >= 200 && xhr.status < 300 && response && response.data) {
+            showRightsVerification(response.data.requestNumber, email);
+            console.log('[ComplyArk] Rights request submitted, awaiting verification:', response.data.requestNumber);
+            return;
+        }
+
+        submitBtn.disabled = false;
+        submitBtn.style.opacity = '1';
+        const message = response && response.errors && response.errors.length ?
+            response.errors[0].message : (response && response.message) || 'Please try again.';
+        alert('Your request could not be submitted. ' + message);
+    };
+
+    xhr.onerror = function() {
+        submitBtn.disabled = false;
+        submitBtn.style.opacity = '1';
+        alert('Your request could not be submitted. Please check your connection and try again.');
+    };
+
+    xhr.send(JSON.stringify(payload));
+}
+
+/**
+ * Read the type-specific fields rendered by renderRightsDetails().
+ * Returns null (after alerting) when a required field is missing.
+ */
+function collectRightsDetails(type: string): Record<string, string | boolean> | null {
+    function value(id: string): string {
+        const el = byId(id) as HTMLInputElement | null;
+        return el ? el.value.trim() : '';
+    }
+
+    const details: Record<string, string | boolean> = {};
+    if (type === 'Correction') {
+        details.incorrectData = value('complyark-incorrect-data');
+        details.correctData = value('complyark-correct-data');
+        if (!details.incorrectData || !details.correctData) {
+            alert('Please provide both the incorrect and the correct data.');
+            return null;
+        }
+    } else if (type === 'Erasure') {
+        details.erasureReason = value('complyark-erasure-reason');
+        const ack = byId('complyark-erasure-ack') as HTMLInputElement | null;
+        details.erasureAcknowledged = !!(ack && ack.checked);
+    } else if (type === 'Nomination') {
+        details.nomineeName = value('complyark-nominee-name');
+        details.nomineeEmail = value('complyark-nominee-email');
+        if (!details.nomineeName || !details.nomineeEmail) {
+            alert('Please provide the nominee name and email.');
+            return null;
+        }
+    } else if (type === 'Grievance') {
+        details.grievanceCategory = value('complyark-grievance-category');
+        details.grievanceDetails = value('complyark-grievance-details');
+        if (!details.grievanceDetails) {
+            alert('Please describe your grievance.');
+            return null;
+        }
+    }
+    return details;
+}
+
+/**
+ * The request is held server-side until the requester proves they own the
+ * email address. Show the code entry step.
+ */
+function showRightsVerification(requestNumber: string, email: string): void {
+    rightsFormState.requestNumber = requestNumber;
+    byId('complyark-verify-email').innerText = email;
+
+    byId('complyark-step1').style.display = 'none';
+    byId('complyark-step2').style.display = 'none';
+    byId('complyark-step3').style.display = 'none';
+    byId('complyark-step4').style.display = 'none';
+    byId('complyark-verify').style.display = 'block';
+    byId('complyark-rights-submit').style.display = 'none';
+
+    const verifyBtn = byId('complyark-verify-submit');
+    verifyBtn.style.display = 'inline-block';
+    verifyBtn.onclick = submitRightsVerification;
+}
+
+function submitRightsVerification(): void {
+    const requestNumber = rightsFormState.requestNumber;
+    if (!requestNumber) return;
+
+    const code = byId<HTMLInputElement>('complyark-verify-code').value.replace(/\s/g, '');
+    if (!/^\d{6}$/.test(code)) {
+        alert('Please enter the 6-digit code from your email.');
+        return;
+    }
+
+    const verifyBtn = byId<HTMLButtonElement>('complyark-verify-submit');
+    verifyBtn.disabled = true;
+    verifyBtn.style.opacity = '0.5';
+
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', API_BASE + '/runtime/websites/' + SITE_ID + '/rights-requests/' +
+        encodeURIComponent(requestNumber) + '/verify', true);
+    xhr.setRequestHeader('Content-Type', 'application/json');
+
+    xhr.onload = function() {
+        let response = null;
+        try {
+            response = JSON.parse(xhr.responseText);
+        } catch (e) {}
+
+        if (xhr.status >= 200 && xhr.status < 300 && response && response.data) {
+            showRightsConfirmation(response.data.requestNumber);
+            console.log('[ComplyArk] Rights request verified:', response.data.requestNumber);
+            return;
+        }
+
+        verifyBtn.disabled = false;
+        verifyBtn.style.opacity = '1';
+        const message = response && response.errors && response.errors.length ?
+            response.errors[0].message : (response && response.message) || 'Please try again.';
+        alert('Your request could not be verified. ' + message);
+    };
+
+    xhr.onerror = function() {
+        verifyBtn.disabled = false;
+        verifyBtn.style.opacity = '1';
+        alert('Your request could not be verified. Please check your connection and try again.');
+    };
+
+    xhr.send(JSON.stringify({ code: code }));
+}
+
+function showRightsConfirmation(requestNumber: string): void {
+    byId('complyark-request-id').innerText = requestNumber;
+
+    // Hide form steps and show confirmation
+    byId('complyark-step1').style.display = 'none';
+    byId('complyark-step2').style.display = 'none';
+    byId('complyark-step3').style.display = 'none';
+    byId('complyark-step4').style.display = 'none';
+    byId('complyark-verify').style.display = 'none';
+    byId('complyark-confirmation').style.display = 'block';
+    byId('complyark-rights-footer').style.display = 'none';
+}
+
+function hideRightsForm(): void {
+    if (rightsFormState.element && rightsFormState.element.parentNode) {
+        document.body.removeChild(rightsFormState.element);
+        rightsFormState.element = null;
+    }
+}
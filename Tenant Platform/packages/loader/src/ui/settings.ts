@@ -0,0 +1,443 @@
+import { openConsentManager } from '../my-consents';
+import { downloadReceipt, getReceiptVerifyUrl } from '../receipts';
+import { getNoticeTranslation, getPurposeTranslation, persistLanguage } from '../language';
+import { state } from '../state';
+import { trackEvent } from '../telemetry';
+import { RuntimeWebsiteConfig } from '../types';
+import { handleRejectAll, handleSaveSettings } from '../handlers';
+import { showBanner, hideBanner } from './banner';
+import { showRightsForm } from './rights-form';
+import { byId, escapeHtml } from './html';
+
+// ============================================================================
+// UI RENDERING - SETTINGS PANEL
+// ============================================================================
+
+function createSettingsPanel(config: RuntimeWebsiteConfig): HTMLElement | null {
+    const lang = state.resolvedLanguage;
+    const notice = getNoticeTranslation(config.notice, lang);
+    const banner = config.banner;
+
+    // Get translated banner text (with English fallback)
+    const bannerText = banner.text[lang] || banner.text['en'];
+    if (!bannerText) return null;
+
+    const overlay = document.createElement('div');
+    overlay.id = 'complyark-settings';
+    overlay.style.cssText =
+        'position: fixed; top: 0; left: 0; right: 0; bottom: 0; ' +
+        'background: rgba(0,0,0,0.6); display: flex; ' +
+        'align-items: center; justify-content: center; z-index: 1000000; ' +
+        'font-family: ' + (banner.fontFamily || 'system-ui, -apple-system, sans-serif') + '; ' +
+        'backdrop-filter: blur(4px);';
+
+    // Build purposes HTML with icons
+    const purposeIcons: Record<string, string> = {
+        'analytics': '📊',
+        'marketing': '📢',
+        'social': '🔗',
+        'functional': '⚙️',
+        'essential': '🔒',
+        'default': '🍪'
+    };
+
+    let purposesHtml = '';
+    config.purposes.forEach(function(purpose) {
+        const trans = getPurposeTranslation(purpose.labels, lang);
+        if (!trans) return;
+
+        const isChecked = purpose.required || state.purposes[purpose.key] === true;
+        const isDisabled = purpose.required;
+        const icon = purposeIcons[purpose.key] || purposeIcons['default'];
+        const dataCategoryInfo = trans.dataCategoryInfo ? escapeHtml(trans.dataCategoryInfo) : '';
+
+        purposesHtml +=
+            '<div style="background: rgba(0,0,0,0.02); border-radius: 10px; padding: 1rem; margin-bottom: 0.75rem; border: 1px solid rgba(0,0,0,0.06);">' +
+                '<div style="display: flex; justify-content: space-between; align-items: flex-start;">' +
+                    '<div style="flex: 1; padding-right: 1rem;">' +
+                        '<div style="font-weight: 600; margin-bottom: 0.25rem; display: flex; align-items: center; gap: 0.5rem;">' +
+                            '<span>' + icon + '</span> ' +
+                            escapeHtml(trans.title) +
+                        '</div>' +
+                        '<div style="font-size: 0.85em; opacity: 0.7; line-height: 1.4;">' +
+                            escapeHtml(trans.description) + '</div>' +
+                        (dataCategoryInfo ?
+                            '<div style="margin-top: 0.6rem; padding-top: 0.6rem; border-top: 1px dashed rgba(0,0,0,0.1);">' +
+                                '<div style="font-size: 0.75em; font-weight: 600; text-transform: uppercase; letter-spacing: 0.3px; color: rgba(0,0,0,0.45); margin-bottom: 0.25rem;">' +
+                                    'Data Category Info' +
+                                '</div>' +
+                                '<div style="font-size: 0.8em; color: rgba(0,0,0,0.65); line-height: 1.4;">' +
+                                    dataCategoryInfo +
+                                '</div>' +
+                            '</div>' : '') +
+                    '</div>' +
+                    '<label style="position: relative; display: inline-block; width: 50px; height: 28px; flex-shrink: 0; margin-top: 0.25rem;">' +
+                        '<input type="checkbox" data-purpose="' + purpose.key + '" ' +
+                            (isChecked ? 'checked ' : '') +
+                            (isDisabled ? 'disabled ' : '') +
+                            'style="opacity: 0; width: 0; height: 0;">' +
+                        '<span style="position: absolute; cursor: ' + (isDisabled ? 'not-allowed' : 'pointer') + '; ' +
+                            'top: 0; left: 0; right: 0; bottom: 0; ' +
+                            'background: ' + (isChecked ? banner.primaryColor : '#d1d5db') + '; ' +
+                            (isDisabled ? 'opacity: 0.7; ' : '') +
+                            'transition: 0.3s; border-radius: 28px;"></span>' +
+                        '<span style="position: absolute; height: 22px; width: 22px; ' +
+                            'left: ' + (isChecked ? '25px' : '3px') + '; bottom: 3px; ' +
+                            'background: white; transition: 0.3s; border-radius: 50%; ' +
+                            'box-shadow: 0 2px 4px rgba(0,0,0,0.15);"></span>' +
+                    '</label>' +
+                '</div>' +
+            '</div>';
+    });
+
+    // Language selector for header
+    let headerLangHtml = '';
+    if (config.supportedLanguages && config.supportedLanguages.length > 1) {
+        let options = '';
+        config.supportedLanguages.forEach(function(code) {
+            options += '<option value="' + code + '"' +
+                (code === lang ? ' selected' : '') + '>' +
+                code.toUpperCase() + '</option>';
+        });
+        headerLangHtml =
+            '<div style="display: flex; align-items: center; gap: 0.5rem; margin-right: 1rem;">' +
+                '<span style="font-size: 1.1em;">🌐</span>' +
+                '<select id="complyark-lang-select" style="' +
+                    'padding: 0.35rem 0.7rem; border: 1px solid rgba(0,0,0,0.15); ' +
+                    'border-radius: 6px; background: white; cursor: pointer; font-size: 0.9em;">' +
+                    options +
+                '</select>' +
+            '</div>';
+    }
+
+    // Use banner text for header, notice for detailed info if available
+    const headerTitle = bannerText.headline;
+    const headerDesc = notice ? escapeHtml(notice.description) : escapeHtml(bannerText.description);
+    const policyLink = notice && notice.policyLink ? notice.policyLink : '';
+    const dpoEmail = notice && notice.dpoEmail ? notice.dpoEmail : '';
+    const userRights = notice && notice.userRights ? escapeHtml(notice.userRights) : '';
+    const withdrawalInstructions = notice && notice.withdrawalInstructions ? escapeHtml(notice.withdrawalInstructions) : '';
+    const complaintInstructions = notice && notice.complaintInstructions ? escapeHtml(notice.complaintInstructions) : '';
+
+    // Notice sections (only if notice details available)
+    let noticeSectionsHtml = '';
+    if (dpoEmail || userRights) {
+        noticeSectionsHtml +=
+            '<div style="display: grid; grid-template-columns: 1fr 1fr; gap: 1rem; margin-top: 1.25rem; padding-top: 1.25rem; border-top: 1px solid rgba(0,0,0,0.08);">';
+
+        // Organization Contact
+        if (dpoEmail) {
+            noticeSectionsHtml +=
+                '<div>' +
+                    '<div style="font-size: 0.75em; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; color: rgba(0,0,0,0.5); margin-bottom: 0.5rem; display: flex; align-items: center; gap: 0.4rem;">' +
+                        '<span>📧</span> ORGANIZATION CONTACT' +
+                    '</div>' +
+                    '<div style="background: rgba(59, 130, 246, 0.08); border-radius: 8px; padding: 0.75rem;">' +
+                        '<div style="font-weight: 500; font-size: 0.9em; margin-bottom: 0.25rem;">DPO/Grievance Officer:</div>' +
+                        '<a href="mailto:' + escapeHtml(dpoEmail) + '" style="color: #2563eb; text-decoration: none; font-size: 0.9em;">' +
+                            escapeHtml(dpoEmail) + '</a>' +
+                    '</div>' +
+                '</div>';
+        }
+
+        // Your Rights
+        if (userRights) {
+            noticeSectionsHtml +=
+                '<div>' +
+                    '<div style="font-size: 0.75em; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; color: rgba(0,0,0,0.5); margin-bottom: 0.5rem; display: flex; align-items: center; gap: 0.4rem;">' +
+                        '<span>⚖️</span> YOUR RIGHTS' +
+                    '</div>' +
+                    '<div style="background: rgba(0,0,0,0.03); border-radius: 8px; padding: 0.75rem;">' +
+                        '<div style="font-size: 0.85em; line-height: 1.4; margin-bottom: 0.5rem;">' + userRights + '</div>' +
+                    '</div>' +
+                '</div>';
+        }
+
+        noticeSectionsHtml += '</div>';
+    }
+
+    // IAB TCF vendors and the legal basis each relies on per purpose
+    let vendorsHtml = '';
+    if (config.tcf && config.tcf.vendors.length > 0) {
+        const purposeNames = config.tcf.purposeNames || {};
+        const describePurposes = function(ids: number[]) {
+            return ids.map(function(id) { return purposeNames[id] || ('Purpose ' + id); }).join(', ');
+        };
+        let vendorItemsHtml = '';
+        config.tcf.vendors.forEach(function(vendor) {
+            const policyUrl = vendor.policyUrl || '';
+            const safePolicyUrl = policyUrl.indexOf('https://') === 0 || policyUrl.indexOf('http://') === 0;
+            vendorItemsHtml +=
+                '<li style="padding: 0.5rem 0; border-top: 1px solid rgba(0,0,0,0.06);">' +
+                    '<div style="font-weight: 500;">' + escapeHtml(vendor.name) +
+                        (safePolicyUrl ? ' <a href="' + escapeHtml(policyUrl) + '" target="_blank" rel="noopener" style="' +
+                            'color: ' + banner.primaryColor + '; text-decoration: none; font-weight: 400; font-size: 0.9em;">Privacy policy</a>' : '') +
+                    '</div>' +
+                    (vendor.purposes.length ? '<div style="opacity: 0.7; margin-top: 0.2rem;">Consent: ' +
+                        escapeHtml(describePurposes(vendor.purposes)) + '</div>' : '') +
+                    (vendor.legIntPurposes.length ? '<div style="opacity: 0.7; margin-top: 0.2rem;">Legitimate interest: ' +
+                        escapeHtml(describePurposes(vendor.legIntPurposes)) + '</div>' : '') +
+                '</li>';
+        });
+        vendorsHtml =
+            '<details style="margin-top: 1rem; padding-top: 1rem; border-top: 1px solid rgba(0,0,0,0.08);">' +
+                '<summary style="font-size: 0.75em; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; color: rgba(0,0,0,0.5); cursor: pointer;">' +
+                    'VENDORS (' + config.tcf.vendors.length + ')' +
+                '</summary>' +
+                '<p style="font-size: 0.8em; opacity: 0.7; margin: 0.5rem 0;">' +
+                    'Turning a purpose off also objects to its use under legitimate interest.</p>' +
+                '<ul style="list-style: none; margin: 0; padding: 0; font-size: 0.85em; max-height: 240px; overflow-y: auto;">' +
+                    vendorItemsHtml + '</ul>' +
+            '</details>';
+    }
+
+    // Always show Exercise Your Rights button
+    const rightsButtonHtml =
+        '<div style="margin-top: 1rem; padding-top: 1rem; border-top: 1px solid rgba(0,0,0,0.08);">' +
+            '<button id="complyark-rights-btn" style="' +
+                'background: transparent; border: 1px solid ' + banner.primaryColor + '; border-radius: 8px; ' +
+                'padding: 0.6rem 1rem; font-size: 0.9em; cursor: pointer; width: 100%; ' +
+                'color: ' + banner.primaryColor + '; font-weight: 500; display: flex; align-items: center; justify-content: center; gap: 0.5rem;">' +
+                '<span>⚖️</span> Exercise Your Rights' +
+            '</button>' +
+        '</div>';
+
+    // Withdrawal & Complaint cards (cream/beige design as per reference)
+    let instructionsHtml = '';
+    if (withdrawalInstructions || complaintInstructions) {
+        instructionsHtml += '<div style="display: grid; grid-template-columns: 1fr 1fr; gap: 0.75rem; margin-top: 1rem;">';
+
+        if (withdrawalInstructions) {
+            instructionsHtml +=
+                '<div style="background: rgba(245, 240, 230, 0.7); ' +
+                    'border-radius: 10px; padding: 0.85rem; border: 1px solid rgba(0,0,0,0.08); border-left: 3px solid ' + banner.primaryColor + ';">' +
+                    '<div style="font-weight: 600; font-size: 0.85em; color: ' + banner.textColor + '; margin-bottom: 0.35rem; display: flex; align-items: center; gap: 0.4rem;">' +
+                        '<span>↩️</span> Withdrawal Instructions' +
+                    '</div>' +
+                    '<div style="font-size: 0.8em; color: rgba(0,0,0,0.7); line-height: 1.4;">' + withdrawalInstructions + '</div>' +
+                '</div>';
+        }
+
+        if (complaintInstructions) {
+            instructionsHtml +=
+                '<div style="background: rgba(245, 240, 230, 0.7); ' +
+                    'border-radius: 10px; padding: 0.85rem; border: 1px solid rgba(0,0,0,0.08); border-left: 3px solid ' + banner.primaryColor + ';">' +
+                    '<div style="font-weight: 600; font-size: 0.85em; color: ' + banner.textColor + '; margin-bottom: 0.35rem; display: flex; align-items: center; gap: 0.4rem;">' +
+                        '<span>ⓘ</span> Complaint Instructions' +
+                    '</div>' +
+                    '<div style="font-size: 0.8em; color: rgba(0,0,0,0.7); line-height: 1.4;">' + complaintInstructions + '</div>' +
+                '</div>';
+        }
+
+        instructionsHtml += '</div>';
+    }
+
+    // Consent receipt (only once a decision has been recorded)
+    let receiptHtml = '';
+    const receipt = state.receipt;
+    if (receipt && receipt.payload) {
+        const issuedAt = new Date(receipt.payload.issuedAt);
+        const receiptJson = JSON.stringify(receipt, null, 2);
+        receiptHtml =
+            '<div style="margin-top: 1rem; padding-top: 1rem; border-top: 1px solid rgba(0,0,0,0.08);">' +
+                '<div style="font-size: 0.75em; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; color: rgba(0,0,0,0.5); margin-bottom: 0.5rem; display: flex; align-items: center; gap: 0.4rem;">' +
+                    '<span>🧾</span> CONSENT RECEIPT' +
+                '</div>' +
+                '<div style="background: rgba(0,0,0,0.03); border-radius: 8px; padding: 0.75rem; font-size: 0.85em;">' +
+                    '<div style="display: flex; justify-content: space-between; align-items: center; gap: 0.5rem; flex-wrap: wrap;">' +
+                        '<div>' +
+                            '<div style="font-family: monospace; font-weight: 600;">' + escapeHtml(receipt.receiptId) + '</div>' +
+                            '<div style="opacity: 0.7; margin-top: 0.2rem;">' +
+                                escapeHtml(isNaN(issuedAt.getTime()) ? receipt.payload.issuedAt : issuedAt.toLocaleString()) +
+                            '</div>' +
+                        '</div>' +
+                        '<div style="display: flex; gap: 0.5rem;">' +
+                            '<button id="complyark-receipt-view" style="' +
+                                'background: transparent; border: 1px solid rgba(0,0,0,0.2); border-radius: 6px; ' +
+                                'padding: 0.35rem 0.75rem; cursor: pointer; font-size: 0.9em;">View</button>' +
+                            '<button id="complyark-receipt-download" style="' +
+                                'background: transparent; border: 1px solid rgba(0,0,0,0.2); border-radius: 6px; ' +
+                                'padding: 0.35rem 0.75rem; cursor: pointer; font-size: 0.9em;">Download</button>' +
+                        '</div>' +
+                    '</div>' +
+                    '<div id="complyark-receipt-details" style="display: none; margin-top: 0.75rem;">' +
+                        '<pre style="margin: 0; padding: 0.6rem; background: white; border: 1px solid rgba(0,0,0,0.08); ' +
+                            'border-radius: 6px; font-size: 0.8em; max-height: 200px; overflow: auto; white-space: pre-wrap; word-break: break-all;">' +
+                            escapeHtml(receiptJson) + '</pre>' +
+                        '<a href="' + escapeHtml(getReceiptVerifyUrl(receipt)) + '" target="_blank" rel="noopener" style="' +
+                            'display: inline-block; margin-top: 0.5rem; color: ' + banner.primaryColor + '; text-decoration: none; font-size: 0.9em;">' +
+                            'Verify this receipt</a>' +
+                    '</div>' +
+                '</div>' +
+            '</div>';
+    }
+
+    // Cookie policy link HTML
+    const policyLinkHtml = policyLink ?
+        '<a href="' + escapeHtml(policyLink) + '" target="_blank" style="' +
+            'color: rgba(0,0,0,0.6); text-decoration: none; font-size: 0.9em; ' +
+            'display: flex; align-items: center; gap: 0.3rem;">' +
+            '<span>📄</span> Cookie Policy</a>' : '';
+
+    // My Consents link (history and withdrawal, hosted by ComplyArk)
+    const myConsentsHtml =
+        '<button id="complyark-my-consents" style="' +
+            'background: none; border: none; padding: 0; cursor: pointer; ' +
+            'color: rgba(0,0,0,0.6); font-size: 0.9em; display: flex; align-items: center; gap: 0.3rem;">' +
+            '<span>📋</span> My Consents</button>';
+
+    overlay.innerHTML =
+        '<div style="background: ' + banner.backgroundColor + '; color: ' + banner.textColor + '; ' +
+            'border-radius: 16px; max-width: 640px; width: 92%; max-height: 85vh; overflow-y: auto; ' +
+            'box-shadow: 0 25px 80px rgba(0,0,0,0.25);">' +
+
+            // Header
+            '<div style="padding: 1.25rem 1.5rem; border-bottom: 1px solid rgba(0,0,0,0.08);">' +
+                '<div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 0.75rem;">' +
+                    '<div style="display: flex; align-items: center; gap: 0.6rem;">' +
+                        '<span style="font-size: 1.4em;">🍪</span>' +
+                        '<h2 style="margin: 0; font-weight: 600; font-size: 1.2em;">' +
+                            escapeHtml(headerTitle) + '</h2>' +
+                    '</div>' +
+                    '<div style="display: flex; align-items: center;">' +
+                        headerLangHtml +
+                        '<button id="complyark-close-settings" style="' +
+                            'background: none; border: none; cursor: pointer; font-size: 1.6em; ' +
+                            'color: ' + banner.textColor + '; opacity: 0.5; line-height: 1; padding: 0;">&times;</button>' +
+                    '</div>' +
+                '</div>' +
+                '<p style="margin: 0; line-height: 1.5; opacity: 0.8; font-size: 0.95em;">' +
+                    headerDesc +
+                    (policyLink ? ' <a href="' + escapeHtml(policyLink) + '" target="_blank" style="color: ' + banner.primaryColor + '; text-decoration: none; font-weight: 500;">Read our Cookie Policy</a>.' : '') +
+                '</p>' +
+            '</div>' +
+
+            // Content
+            '<div style="padding: 1.25rem 1.5rem;">' +
+                '<div style="font-size: 0.75em; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; color: rgba(0,0,0,0.5); margin-bottom: 0.75rem;">CONSENT PREFERENCES</div>' +
+                purposesHtml +
+                vendorsHtml +
+                noticeSectionsHtml +
+                instructionsHtml +
+                receiptHtml +
+                rightsButtonHtml +
+            '</div>' +
+
+            // Footer
+            '<div style="padding: 1rem 1.5rem; border-top: 1px solid rgba(0,0,0,0.08); ' +
+                'display: flex; gap: 0.75rem; justify-content: space-between; align-items: center; flex-wrap: wrap;">' +
+                '<div style="display: flex; gap: 1rem; align-items: center;">' +
+                    policyLinkHtml +
+                    myConsentsHtml +
+                '</div>' +
+                '<div style="display: flex; gap: 0.75rem; margin-left: auto;">' +
+                    '<button id="complyark-reject-all-settings" style="' +
+                        'padding: 0.65rem 1.25rem; border-radius: 8px; border: none; ' +
+                        'background: ' + banner.rejectButtonColor + '; color: white; cursor: pointer; font-weight: 500;">' +
+                        escapeHtml(bannerText.rejectButton) + '</button>' +
+                    '<button id="complyark-save-settings" style="' +
+                        'padding: 0.65rem 1.25rem; border-radius: 8px; border: none; ' +
+                        'background: ' + banner.acceptButtonColor + '; color: white; ' +
+                        'cursor: pointer; font-weight: 600;">Save Preferences</button>' +
+                '</div>' +
+            '</div>' +
+        '</div>';
+
+    return overlay;
+}
+
+
+export function showSettings(): void {
+    const config = state.config;
+    if (!config) return;
+
+    hideBanner();
+
+    if (state.settingsElement) {
+        document.body.removeChild(state.settingsElement);
+    }
+
+    const settings = createSettingsPanel(config);
+    if (!settings) return;
+
+    state.settingsElement = settings;
+    document.body.appendChild(settings);
+
+    byId('complyark-close-settings').onclick = function() {
+        hideSettings();
+        showBanner();
+    };
+
+    byId('complyark-reject-all-settings').onclick = function() {
+        handleRejectAll();
+        hideSettings();
+    };
+
+    byId('complyark-save-settings').onclick = handleSaveSettings;
+
+    // Exercise Your Rights button
+    const rightsBtn = byId('complyark-rights-btn');
+    if (rightsBtn) {
+        rightsBtn.onclick = function() {
+            hideSettings();
+            showRightsForm();
+        };
+    }
+
+    // My Consents page
+    const myConsentsBtn = byId('complyark-my-consents');
+    if (myConsentsBtn) {
+        myConsentsBtn.onclick = openConsentManager;
+    }
+
+    // Consent receipt actions
+    const receiptViewBtn = byId('complyark-receipt-view');
+    if (receiptViewBtn) {
+        receiptViewBtn.onclick = function() {
+            const details = byId('complyark-receipt-details');
+            const isHidden = details.style.display === 'none';
+            details.style.display = isHidden ? 'block' : 'none';
+            receiptViewBtn.textContent = isHidden ? 'Hide' : 'View';
+        };
+    }
+    const receiptDownloadBtn = byId('complyark-receipt-download');
+    if (receiptDownloadBtn) {
+        receiptDownloadBtn.onclick = function() {
+            if (state.receipt) downloadReceipt(state.receipt);
+        };
+    }
+
+    // Language selector
+    const langSelect = byId<HTMLSelectElement>('complyark-lang-select');
+    if (langSelect) {
+        langSelect.onchange = function() {
+            persistLanguage(langSelect.value);
+            state.resolvedLanguage = langSelect.value;
+            trackEvent('LANGUAGE_SWITCHED');
+            hideSettings();
+            showSettings();
+        };
+    }
+
+    // Toggle switches
+    const toggles = settings.querySelectorAll<HTMLInputElement>('input[data-purpose]');
+    for (let i = 0; i < toggles.length; i++) {
+        (function(toggle) {
+            toggle.onchange = function() {
+                const slider = toggle.nextElementSibling as HTMLElement;
+                const knob = slider.nextElementSibling as HTMLElement;
+                slider.style.backgroundColor = toggle.checked ? config.banner.primaryColor : '#d1d5db';
+                knob.style.left = toggle.checked ? '25px' : '3px';
+            };
+        })(toggles[i]);
+    }
+
+    console.log('[ComplyArk] Settings panel displayed');
+}
+
+export function hideSettings(): void {
+    if (state.settingsElement && state.settingsElement.parentNode) {
+        document.body.removeChild(state.settingsElement);
+        state.settingsElement = null;
+    }
+}
@@ -0,0 +1,45 @@
+import { PREVIEW_CONFIG, VARIANT_KEY } from './settings';
+import { state } from './state';
+import { RuntimeWebsiteConfig } from './types';
+
+// ============================================================================
+// BANNER VARIANTS - Sticky A/B test assignment
+// ============================================================================
+
+/**
+ * Draw the banner from one arm of the running A/B test. The arm is kept in
+ * localStorage so a visitor sees the same banner on every page; a new set
+ * of variants starts a new draw. The key is random and identifies nobody.
+ */
+export function assignBannerVariant(config: RuntimeWebsiteConfig): void {
+    const variants = config.bannerVariants;
+    if (PREVIEW_CONFIG || !variants || !variants.length) return;
+
+    const experiment = variants.map(function(v) { return v.id; }).join(',');
+    let assigned: string | null = null;
+    try {
+        const stored = JSON.parse(localStorage.getItem(VARIANT_KEY) || 'null');
+        if (stored && stored.experiment === experiment) assigned = stored.variant;
+    } catch (e) {}
+
+    if (!assigned) {
+        assigned = 'control';
+        const roll = Math.random() * 100;
+        let threshold = 0;
+        for (let i = 0; i < variants.length; i++) {
+            threshold += variants[i].trafficPercent;
+            if (roll < threshold) {
+                assigned = variants[i].id;
+                break;
+            }
+        }
+        try {
+            localStorage.setItem(VARIANT_KEY, JSON.stringify({ experiment: experiment, variant: assigned }));
+        } catch (e) {}
+    }
+
+    for (let j = 0; j < variants.length; j++) {
+        if (variants[j].id === assigned) config.banner = variants[j].banner;
+    }
+    state.bannerVariant = assigned;
+}